@@ -0,0 +1,481 @@
+'use strict';
+
+/**
+ * Renders synthetic grayscale faces annotated with the 31 landmarks of the
+ * bundled LBF model. The landmarks are the points of the 3D face model used
+ * by the head pose estimation, deformed and rotated at random and projected
+ * with a pinhole camera, and the face is drawn around them: skin, hair, eyes,
+ * brows, nose, mouth, neck and a cluttered background. Each face comes with
+ * the box the face detector would find, relative to the eyes and the mouth.
+ */
+
+var DISTANCE = 700;
+
+// Box of the face detector, measured on the faces of test/assets/faces.png:
+// the eyes are centered at 42% of its height, their distance is 38% of its
+// width and the mouth is 37% of its height below them.
+var BOX_EYES_Y = 0.42;
+var BOX_INTEROCULAR = 0.38;
+var BOX_EYES_MOUTH = 0.37;
+
+function createRotation(yaw, pitch, roll) {
+  var cy = Math.cos(yaw), sy = Math.sin(yaw);
+  var cp = Math.cos(pitch), sp = Math.sin(pitch);
+  var cr = Math.cos(roll), sr = Math.sin(roll);
+  var ry = [[cy, 0, sy], [0, 1, 0], [-sy, 0, cy]];
+  var rx = [[1, 0, 0], [0, cp, -sp], [0, sp, cp]];
+  var rz = [[cr, -sr, 0], [sr, cr, 0], [0, 0, 1]];
+  return multiply(rz, multiply(rx, ry));
+}
+
+function multiply(a, b) {
+  return a.map(function(row) {
+    return [0, 1, 2].map(function(j) {
+      return row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j];
+    });
+  });
+}
+
+function gaussian(random) {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function uniform(random, a, b) {
+  return a + random() * (b - a);
+}
+
+function mix(a, b, t) {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+function mean(points) {
+  var x = 0;
+  var y = 0;
+  points.forEach(function(point) {
+    x += point[0];
+    y += point[1];
+  });
+  return [x / points.length, y / points.length];
+}
+
+function distance(a, b) {
+  return Math.sqrt((a[0] - b[0]) * (a[0] - b[0]) + (a[1] - b[1]) * (a[1] - b[1]));
+}
+
+function convexHull(points) {
+  var sorted = points.slice().sort(function(a, b) {
+    return a[0] - b[0] || a[1] - b[1];
+  });
+  var cross = function(o, a, b) {
+    return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  };
+  var lower = [];
+  var upper = [];
+  sorted.forEach(function(point) {
+    while (lower.length > 1 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  });
+  sorted.reverse().forEach(function(point) {
+    while (upper.length > 1 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  });
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+/**
+ * Grayscale canvas with the few drawing primitives the faces need. Shapes
+ * are blended with an opacity, and the `shade` callbacks return the value of
+ * a pixel from its position.
+ */
+function Canvas(width, height) {
+  this.width = width;
+  this.height = height;
+  this.data = new Float32Array(width * height);
+}
+
+Canvas.prototype.blend = function(x, y, value, alpha) {
+  if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+    return;
+  }
+  var i = y * this.width + x;
+  this.data[i] += (value - this.data[i]) * alpha;
+};
+
+Canvas.prototype.fillPolygon = function(points, shade, alpha) {
+  var minY = Math.max(0, Math.floor(Math.min.apply(null, points.map(function(p) { return p[1]; }))));
+  var maxY = Math.min(this.height - 1, Math.ceil(Math.max.apply(null, points.map(function(p) { return p[1]; }))));
+  for (var y = minY; y <= maxY; y++) {
+    var yc = y + 0.5;
+    var crossings = [];
+    for (var i = 0; i < points.length; i++) {
+      var a = points[i];
+      var b = points[(i + 1) % points.length];
+      if ((a[1] <= yc && b[1] > yc) || (b[1] <= yc && a[1] > yc)) {
+        crossings.push(a[0] + (yc - a[1]) / (b[1] - a[1]) * (b[0] - a[0]));
+      }
+    }
+    crossings.sort(function(a, b) { return a - b; });
+    for (var k = 0; k + 1 < crossings.length; k += 2) {
+      var from = Math.max(0, Math.round(crossings[k]));
+      var to = Math.min(this.width - 1, Math.round(crossings[k + 1]) - 1);
+      for (var x = from; x <= to; x++) {
+        this.blend(x, y, typeof shade === 'function' ? shade(x, y, this.data[y * this.width + x]) : shade, alpha);
+      }
+    }
+  }
+};
+
+Canvas.prototype.fillEllipse = function(center, rx, ry, angle, shade, alpha) {
+  var points = [];
+  for (var i = 0; i < 24; i++) {
+    var t = i * Math.PI / 12;
+    var x = Math.cos(t) * rx;
+    var y = Math.sin(t) * ry;
+    points.push([
+      center[0] + x * Math.cos(angle) - y * Math.sin(angle),
+      center[1] + x * Math.sin(angle) + y * Math.cos(angle)
+    ]);
+  }
+  this.fillPolygon(points, shade, alpha);
+};
+
+Canvas.prototype.stroke = function(points, width, value, alpha) {
+  var radius = width / 2;
+  for (var i = 0; i + 1 < points.length; i++) {
+    var a = points[i];
+    var b = points[i + 1];
+    var dx = b[0] - a[0];
+    var dy = b[1] - a[1];
+    var length2 = dx * dx + dy * dy || 1;
+    var minX = Math.floor(Math.min(a[0], b[0]) - radius);
+    var maxX = Math.ceil(Math.max(a[0], b[0]) + radius);
+    var minY = Math.floor(Math.min(a[1], b[1]) - radius);
+    var maxY = Math.ceil(Math.max(a[1], b[1]) + radius);
+    for (var y = minY; y <= maxY; y++) {
+      for (var x = minX; x <= maxX; x++) {
+        var t = Math.max(0, Math.min(1, ((x + 0.5 - a[0]) * dx + (y + 0.5 - a[1]) * dy) / length2));
+        var ex = x + 0.5 - a[0] - t * dx;
+        var ey = y + 0.5 - a[1] - t * dy;
+        // Joints are covered by both segments, skip the second time.
+        if (ex * ex + ey * ey <= radius * radius && !(t === 0 && i > 0)) {
+          this.blend(x, y, value, alpha);
+        }
+      }
+    }
+  }
+};
+
+Canvas.prototype.shadow = function(center, rx, ry, amount) {
+  var minX = Math.floor(center[0] - 2 * rx);
+  var maxX = Math.ceil(center[0] + 2 * rx);
+  var minY = Math.floor(center[1] - 2 * ry);
+  var maxY = Math.ceil(center[1] + 2 * ry);
+  for (var y = Math.max(0, minY); y <= Math.min(this.height - 1, maxY); y++) {
+    for (var x = Math.max(0, minX); x <= Math.min(this.width - 1, maxX); x++) {
+      var u = (x + 0.5 - center[0]) / rx;
+      var v = (y + 0.5 - center[1]) / ry;
+      this.data[y * this.width + x] *= 1 - amount * Math.exp(-(u * u + v * v) / 2);
+    }
+  }
+};
+
+Canvas.prototype.blur = function(sigma) {
+  var radius = Math.ceil(sigma * 2.5);
+  var kernel = [];
+  var sum = 0;
+  for (var i = -radius; i <= radius; i++) {
+    kernel.push(Math.exp(-i * i / (2 * sigma * sigma)));
+    sum += kernel[kernel.length - 1];
+  }
+  kernel = kernel.map(function(k) { return k / sum; });
+  var width = this.width;
+  var height = this.height;
+  var pass = function(src, dx, dy) {
+    var dst = new Float32Array(src.length);
+    for (var y = 0; y < height; y++) {
+      for (var x = 0; x < width; x++) {
+        var value = 0;
+        for (var k = -radius; k <= radius; k++) {
+          var sx = Math.max(0, Math.min(width - 1, x + k * dx));
+          var sy = Math.max(0, Math.min(height - 1, y + k * dy));
+          value += kernel[k + radius] * src[sy * width + sx];
+        }
+        dst[y * width + x] = value;
+      }
+    }
+    return dst;
+  };
+  this.data = pass(pass(this.data, 1, 0), 0, 1);
+};
+
+function drawBackground(canvas, random) {
+  var base = uniform(random, 20, 235);
+  var gx = uniform(random, -0.5, 0.5);
+  var gy = uniform(random, -0.5, 0.5);
+  for (var y = 0; y < canvas.height; y++) {
+    for (var x = 0; x < canvas.width; x++) {
+      canvas.data[y * canvas.width + x] = base + 60 * (gx * x / canvas.width + gy * y / canvas.height);
+    }
+  }
+  var count = Math.floor(uniform(random, 3, 14));
+  for (var i = 0; i < count; i++) {
+    var center = [uniform(random, 0, canvas.width), uniform(random, 0, canvas.height)];
+    var rx = uniform(random, 0.05, 0.5) * canvas.width;
+    var ry = uniform(random, 0.05, 0.5) * canvas.height;
+    var value = uniform(random, 0, 255);
+    if (random() < 0.5) {
+      canvas.fillPolygon([
+        [center[0] - rx, center[1] - ry], [center[0] + rx, center[1] - ry],
+        [center[0] + rx, center[1] + ry], [center[0] - rx, center[1] + ry]
+      ], value, uniform(random, 0.4, 1));
+    } else {
+      canvas.fillEllipse(center, rx, ry, uniform(random, 0, Math.PI), value, uniform(random, 0.4, 1));
+    }
+  }
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so the same
+ * faces are rendered on every run.
+ * @param {number} seed The seed, a 32-bit integer.
+ * @return {function} Function returning random numbers in [0, 1).
+ */
+exports.createRandom = function(seed) {
+  var state = seed | 0;
+  return function() {
+    state = (state + 0x6D2B79F5) | 0;
+    var t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Renders a synthetic face.
+ * @param {function} random Function returning random numbers in [0, 1).
+ * @param {array} model The 3D face model, e.g. `HeadPose.model`.
+ * @return {object} The face `pixels`, in a RGBA linear array, its `width`
+ *     and `height`, the landmarks `shape` in pixels and the detector `face`
+ *     box.
+ */
+exports.renderFace = function(random, model) {
+  var size = uniform(random, 60, 140);
+  var width = Math.round(size * uniform(random, 1.8, 2.4));
+  var height = Math.round(size * uniform(random, 1.8, 2.4));
+  var focal = size * BOX_INTEROCULAR * DISTANCE / 64;
+
+  // Identity and expression.
+  var scaleX = uniform(random, 0.88, 1.12);
+  var scaleY = uniform(random, 0.9, 1.1);
+  var eyeSpacing = uniform(random, -4, 4);
+  var mouthWidth = uniform(random, 0.85, 1.2);
+  var mouthOpen = random() < 0.3 ? uniform(random, 2, 14) : 0;
+  var browRaise = uniform(random, -3, 6);
+  var noseLength = uniform(random, -4, 4);
+  var points = model.map(function(point, i) {
+    var p = [point[0] * scaleX, point[1] * scaleY, point[2]];
+    if (i >= 9 && i <= 14) {
+      p[1] -= browRaise;
+    }
+    if (i >= 19 && i <= 26) {
+      p[0] += i < 23 ? -eyeSpacing : eyeSpacing;
+    }
+    if (i >= 15 && i <= 18 && i !== 15) {
+      p[1] += noseLength;
+    }
+    if (i >= 27 && i <= 30) {
+      p[0] *= mouthWidth;
+    }
+    if (i === 30 || i === 4) {
+      p[1] += i === 30 ? mouthOpen : mouthOpen / 2;
+    }
+    return [p[0] + gaussian(random) * 1.5, p[1] + gaussian(random) * 1.5, p[2] + gaussian(random)];
+  });
+
+  // Head outline, the upper half of an ellipsoid above the jaw landmarks.
+  var skull = [];
+  var hairline = uniform(random, -130, -100);
+  for (var a = 0; a < 16; a++) {
+    for (var b = 0; b <= 6; b++) {
+      var theta = a * Math.PI / 8;
+      var phi = b * Math.PI / 12;
+      skull.push([
+        80 * scaleX * Math.cos(theta) * Math.cos(phi),
+        -45 - 105 * scaleY * Math.sin(phi),
+        95 + 95 * Math.sin(theta) * Math.cos(phi)
+      ]);
+    }
+  }
+  var forehead = skull.filter(function(point) { return point[1] > hairline + 4; });
+  var neck = [[-48, 40, 95], [48, 40, 95], [52, 220, 100], [-52, 220, 100]];
+  var body = [[-200, 180, 120], [200, 180, 120], [220, 400, 120], [-220, 400, 120]];
+
+  var yaw = uniform(random, -25, 25) * Math.PI / 180;
+  var pitch = uniform(random, -15, 15) * Math.PI / 180;
+  var roll = uniform(random, -20, 20) * Math.PI / 180;
+  var rotation = createRotation(yaw, pitch, roll);
+  var pivot = [0, -30, 90];
+  var center = [width / 2 + uniform(random, -0.15, 0.15) * size, height / 2 + uniform(random, -0.1, 0.15) * size];
+  var project = function(point) {
+    var p = [point[0] - pivot[0], point[1] - pivot[1], point[2] - pivot[2]];
+    var x = rotation[0][0] * p[0] + rotation[0][1] * p[1] + rotation[0][2] * p[2];
+    var y = rotation[1][0] * p[0] + rotation[1][1] * p[1] + rotation[1][2] * p[2];
+    var z = rotation[2][0] * p[0] + rotation[2][1] * p[1] + rotation[2][2] * p[2] + DISTANCE;
+    return [center[0] + focal * x / z, center[1] + focal * (y + pivot[1]) / z];
+  };
+  var mm = focal / DISTANCE;
+  var shape = points.map(project);
+
+  var canvas = new Canvas(width, height);
+  drawBackground(canvas, random);
+
+  var skin = uniform(random, 80, 215);
+  var hair = random() < 0.85 ? uniform(random, 10, 90) : skin * uniform(random, 0.8, 1.1);
+  var light = [uniform(random, -0.5, 0.5), uniform(random, -0.5, 0.3)];
+
+  canvas.fillPolygon(body.map(project), uniform(random, 10, 245), 1);
+  canvas.fillPolygon(neck.map(project), skin * 0.7, 1);
+
+  var head = convexHull(skull.map(project).concat(shape.slice(0, 9)));
+  canvas.fillPolygon(head, hair, 1);
+
+  var face = convexHull(forehead.map(project).concat(shape.slice(0, 9)));
+  var faceCenter = mean(face);
+  var faceRadius = distance(shape[4], mean([shape[0], shape[8]]));
+  canvas.fillPolygon(face, function(x, y) {
+    var u = (x - faceCenter[0]) / faceRadius;
+    var v = (y - faceCenter[1]) / faceRadius;
+    var r = Math.min(1, u * u + v * v);
+    return skin * (0.85 + 0.3 * (light[0] * u + light[1] * v)) * (1 - 0.25 * r * r);
+  }, 1);
+
+  var leftEye = mean(shape.slice(19, 23));
+  var rightEye = mean(shape.slice(23, 27));
+  var eyeWidth = distance(shape[19], shape[22]);
+  var angle = Math.atan2(rightEye[1] - leftEye[1], rightEye[0] - leftEye[0]);
+
+  // Shading of the eye sockets, the nose and under the mouth.
+  var socket = uniform(random, 0.1, 0.35);
+  canvas.shadow(leftEye, eyeWidth * 0.8, eyeWidth * 0.55, socket);
+  canvas.shadow(rightEye, eyeWidth * 0.8, eyeWidth * 0.55, socket);
+  var noseSide = light[0] > 0 ? shape[16] : shape[18];
+  canvas.stroke([mix(shape[15], noseSide, 0.2), mix(shape[15], noseSide, 0.9)], 4 * mm, skin * 0.7, 0.35);
+  canvas.shadow(mix(shape[17], shape[28], 0.6), 12 * mm, 4 * mm, 0.2);
+  canvas.shadow(mix(shape[30], shape[4], 0.45), 14 * mm, 5 * mm, 0.15);
+  canvas.fillEllipse(shape[17], 5 * mm, 4 * mm, angle, skin * 1.15, 0.25);
+
+  if (random() < 0.15) {
+    // Beard
+    var beard = [shape[1], shape[2], shape[3], shape[4], shape[5], shape[6], shape[7],
+      mix(shape[29], shape[18], 0.6), mix(shape[28], shape[17], 0.5), mix(shape[27], shape[16], 0.6)];
+    var beardValue = uniform(random, 20, 90);
+    canvas.fillPolygon(beard, function() {
+      return beardValue + uniform(random, -25, 25);
+    }, uniform(random, 0.4, 0.85));
+  }
+
+  // Brows
+  var browWidth = uniform(random, 3, 7) * mm;
+  var browValue = Math.min(hair, skin * 0.6);
+  var browAlpha = uniform(random, 0.4, 0.9);
+  canvas.stroke(shape.slice(9, 12), browWidth, browValue, browAlpha);
+  canvas.stroke(shape.slice(12, 15), browWidth, browValue, browAlpha);
+
+  // Eyes
+  var iris = uniform(random, 20, 90);
+  var gaze = [uniform(random, -0.15, 0.15), uniform(random, -0.1, 0.1)];
+  [[19, 20, 21, 22], [23, 24, 25, 26]].forEach(function(indices) {
+    var corners = [shape[indices[0]], shape[indices[3]]];
+    var upper = [shape[indices[1]], shape[indices[2]]];
+    var lower = upper.map(function(point, k) {
+      var base = mix(corners[0], corners[1], k ? 0.65 : 0.35);
+      return mix(base, point, -0.5);
+    });
+    var outline = [corners[0], upper[0], upper[1], corners[1], lower[1], lower[0]];
+    var eyeCenter = mean(outline);
+    var eyeHeight = distance(mean(upper), mean(lower));
+    canvas.fillPolygon(outline, Math.min(255, skin * 1.1 + 20), 0.8);
+    canvas.fillPolygon(outline, function(x, y) {
+      var dx = x + 0.5 - (eyeCenter[0] + gaze[0] * eyeWidth);
+      var dy = y + 0.5 - (eyeCenter[1] + gaze[1] * eyeHeight);
+      var r = Math.sqrt(dx * dx + dy * dy) / (eyeHeight * 0.75 + 0.5);
+      return r < 0.45 ? iris * 0.4 : r < 1 ? iris : Math.min(255, skin * 1.1 + 20);
+    }, 1);
+    canvas.stroke([corners[0], upper[0], upper[1], corners[1]], Math.max(1, 1.5 * mm), 20, 0.8);
+    canvas.stroke([corners[0], lower[0], lower[1], corners[1]], Math.max(1, 0.8 * mm), skin * 0.6, 0.4);
+  });
+
+  if (random() < 0.15) {
+    // Glasses
+    var frame = uniform(random, 0, 60);
+    var lens = eyeWidth * uniform(random, 0.8, 1);
+    [leftEye, rightEye].forEach(function(eye) {
+      var ring = [];
+      for (var i = 0; i <= 24; i++) {
+        var t = i * Math.PI / 12;
+        var x = Math.cos(t) * lens;
+        var y = Math.sin(t) * lens * 0.7;
+        ring.push([
+          eye[0] + x * Math.cos(angle) - y * Math.sin(angle),
+          eye[1] + x * Math.sin(angle) + y * Math.cos(angle)
+        ]);
+      }
+      canvas.stroke(ring, Math.max(1, 2 * mm), frame, 0.9);
+    });
+  }
+
+  // Nose
+  var nostril = skin * 0.35;
+  canvas.fillEllipse(mix(shape[16], shape[17], 0.3), 3.5 * mm, 2 * mm, angle, nostril, 0.7);
+  canvas.fillEllipse(mix(shape[18], shape[17], 0.3), 3.5 * mm, 2 * mm, angle, nostril, 0.7);
+
+  // Mouth
+  var lips = skin * uniform(random, 0.6, 0.85);
+  var closed = mix(shape[28], shape[30], 0.45 - mouthOpen / 60);
+  var opened = mix(shape[28], shape[30], 0.5 + mouthOpen / 60);
+  var upperLip = [shape[27], mix(shape[27], shape[28], 0.5), shape[28], mix(shape[29], shape[28], 0.5), shape[29],
+    closed];
+  var lowerLip = [shape[27], opened, shape[29], mix(shape[29], shape[30], 0.6), shape[30], mix(shape[27], shape[30], 0.6)];
+  canvas.fillPolygon(lowerLip, lips, 0.9);
+  canvas.fillPolygon(upperLip, lips * 0.9, 0.9);
+  if (mouthOpen) {
+    canvas.fillPolygon([shape[27], closed, shape[29], opened], uniform(random, 10, 40), 1);
+    canvas.fillPolygon([shape[27], mix(closed, opened, 0.25), shape[29], closed], 220, 0.6);
+  } else {
+    canvas.stroke([shape[27], closed, shape[29]], Math.max(1, 1.2 * mm), lips * 0.4, 0.8);
+  }
+
+  canvas.blur(uniform(random, 0.4, 1.2) * size / 100);
+
+  var noise = uniform(random, 1, 8);
+  var contrast = uniform(random, 0.7, 1.2);
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var i = 0; i < width * height; i++) {
+    var value = 128 + (canvas.data[i] - 128) * contrast + gaussian(random) * noise;
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = value;
+    pixels[i * 4 + 3] = 255;
+  }
+
+  var eyes = mean([leftEye, rightEye]);
+  var mouth = mean(shape.slice(27, 31));
+  var boxSize = (distance(leftEye, rightEye) / BOX_INTEROCULAR + distance(eyes, mouth) / BOX_EYES_MOUTH) / 2;
+  boxSize *= uniform(random, 0.94, 1.06);
+  var box = {
+    x: Math.round(eyes[0] - boxSize / 2 + uniform(random, -0.05, 0.05) * boxSize),
+    y: Math.round(eyes[1] - BOX_EYES_Y * boxSize + uniform(random, -0.05, 0.05) * boxSize),
+    width: Math.round(boxSize),
+    height: Math.round(boxSize)
+  };
+
+  return {
+    pixels: pixels,
+    width: width,
+    height: height,
+    shape: shape,
+    face: box
+  };
+};
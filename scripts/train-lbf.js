@@ -0,0 +1,175 @@
+'use strict';
+
+/**
+ * Trains the bundled LBF model on synthetic faces and writes its stages into
+ * src/alignment/training/Regressor.ts and its mean shape into
+ * src/alignment/training/Landmarks.ts. Run it with `npm run train-lbf`, the
+ * faces and the training are seeded so the output only changes along with
+ * this script, the renderer or the trainer.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var prettier = require('prettier');
+var tracking = require('../dist/index.js');
+var faces = require('./synthetic-faces.js');
+
+var NUM_SAMPLES = 2000;
+var SEED = 31;
+
+var REGRESSOR_FILE = path.join(__dirname, '../src/alignment/training/Regressor.ts');
+var LANDMARKS_FILE = path.join(__dirname, '../src/alignment/training/Landmarks.ts');
+
+// Eigen decomposition of a symmetric matrix by the Jacobi method, the
+// eigenvectors are the columns of `vectors`.
+function decomposeSymmetric(matrix) {
+  var n = matrix.length;
+  var a = matrix.map(function(row) { return row.slice(); });
+  var vectors = a.map(function(row, i) {
+    return row.map(function(value, j) { return i === j ? 1 : 0; });
+  });
+  for (var sweep = 0; sweep < 100; sweep++) {
+    var off = 0;
+    for (var p = 0; p < n; p++) {
+      for (var q = p + 1; q < n; q++) {
+        off += a[p][q] * a[p][q];
+        if (!a[p][q]) {
+          continue;
+        }
+        var theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        var t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        var c = 1 / Math.sqrt(t * t + 1);
+        var s = t * c;
+        for (var k = 0; k < n; k++) {
+          var kp = a[k][p];
+          a[k][p] = c * kp - s * a[k][q];
+          a[k][q] = s * kp + c * a[k][q];
+        }
+        for (k = 0; k < n; k++) {
+          var pk = a[p][k];
+          a[p][k] = c * pk - s * a[q][k];
+          a[q][k] = s * pk + c * a[q][k];
+        }
+        for (k = 0; k < n; k++) {
+          var vp = vectors[k][p];
+          vectors[k][p] = c * vp - s * vectors[k][q];
+          vectors[k][q] = s * vp + c * vectors[k][q];
+        }
+      }
+    }
+    if (off < 1e-30) {
+      break;
+    }
+  }
+  return {
+    values: a.map(function(row, i) { return row[i]; }),
+    vectors: vectors
+  };
+}
+
+function round(value, digits) {
+  return Number(value.toPrecision(digits));
+}
+
+// The linear models of the trainer regress a few principal components of the
+// shape increments, so their weights are stored as a low rank product.
+function encodeStage(stage) {
+  var tree = stage.landmarks[0][0];
+  var numSplits = tree.id_leafnodes[0];
+  var splits = stage.landmarks.map(function(trees) {
+    return trees.map(function(t) {
+      return t.nodes.slice(0, numSplits).map(function(node) {
+        return node.feats.concat(node.thresh);
+      });
+    });
+  });
+
+  var models = stage.models.map(function(model) { return model.data; });
+  var gram = models.map(function(a) {
+    return models.map(function(b) {
+      var dot = 0;
+      for (var f = 0; f < a.length; f++) {
+        dot += a[f] * b[f];
+      }
+      return dot;
+    });
+  });
+  var decomposition = decomposeSymmetric(gram);
+  var largest = Math.max.apply(null, decomposition.values);
+  var components = decomposition.values.map(function(value, i) { return i; }).filter(function(i) {
+    return decomposition.values[i] > largest * 1e-12;
+  }).sort(function(a, b) {
+    return decomposition.values[b] - decomposition.values[a];
+  });
+
+  // The weights of each basis vector are stored as integers up to 1000, the
+  // basis vector being scaled to match.
+  var vectors = components.map(function(c) {
+    return decomposition.vectors.map(function(row) { return row[c]; });
+  });
+  var projections = vectors.map(function(vector) {
+    var row = new Array(models[0].length).fill(0);
+    models.forEach(function(model, o) {
+      for (var f = 0; f < row.length; f++) {
+        row[f] += vector[o] * model[f];
+      }
+    });
+    return row;
+  });
+  var scales = projections.map(function(row) {
+    return Math.max.apply(null, row.map(Math.abs)) / 1000;
+  });
+  var weights = projections.map(function(row, k) {
+    return row.map(function(value) { return Math.round(value / scales[k]); });
+  });
+  var basis = models.map(function(model, o) {
+    return vectors.map(function(vector, k) { return round(vector[o] * scales[k], 6); });
+  });
+
+  return 'createStage(' + [stage.stages, stage.max_depth, tree.max_radio_radius, tree.max_numfeats,
+    JSON.stringify(splits), JSON.stringify(basis), JSON.stringify(weights)].join(', ') + ')';
+}
+
+function format(file, source) {
+  return prettier.resolveConfig(file).then(function(config) {
+    return prettier.format(source, Object.assign({}, config, { filepath: file }));
+  }).then(function(formatted) {
+    fs.writeFileSync(file, formatted);
+  });
+}
+
+function main() {
+  var random = faces.createRandom(SEED);
+  var samples = [];
+  for (var i = 0; i < NUM_SAMPLES; i++) {
+    samples.push(faces.renderFace(random, tracking.HeadPose.model));
+  }
+  console.log('Rendered ' + samples.length + ' faces');
+
+  var start = Date.now();
+  var model = tracking.LBFTrainer.train(samples, { name: tracking.LBF.DEFAULT_MODEL, seed: SEED });
+  console.log('Trained ' + model.stages.length + ' stages in ' + Math.round((Date.now() - start) / 1000) + 's');
+
+  var regressor = fs.readFileSync(REGRESSOR_FILE, 'utf8');
+  var declaration = /export const RegressorData: RegressorStageData\[\] = \[[^]*?\n?\];\n/;
+  if (!declaration.test(regressor)) {
+    throw new Error('RegressorData not found in ' + REGRESSOR_FILE);
+  }
+  regressor = regressor.replace(declaration, function() {
+    return 'export const RegressorData: RegressorStageData[] = [' + model.stages.map(encodeStage).join(',\n') +
+      '];\n';
+  });
+
+  var landmarks = '/**\n * Mean shape of the bundled LBF model, normalized to the face box. Generated\n' +
+    ' * by `npm run train-lbf` along with `RegressorData`.\n */\n' +
+    'export const LandmarksData = ' + JSON.stringify(model.meanShape) + ';\n';
+
+  return format(REGRESSOR_FILE, regressor).then(function() {
+    return format(LANDMARKS_FILE, landmarks);
+  });
+}
+
+main().catch(function(error) {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 import { LBFRegressor } from "./Regressor";
 import { Image } from "../utils/Image";
 import { Matrix, MatrixType } from "../math/Matrix";
-import { RegressorData } from "./training/Regressor";
+import { RegressorNodeData, RegressorStageData, RegressorTreeData } from "./training/Regressor";
 
 /**
  * Face Alignment via Regressing Local Binary Features (LBF)
@@ -41,10 +41,18 @@ export class LBF {
     static readonly maxNumStages: number = 4;
 
     /**
-     * Holds the regressor that will be responsible for extracting the local features from
-     * the image and guide the landmarks using the training data.
+     * Holds the name of the model used when none is specified, the bundled
+     * 31 landmarks model. Loading another model under this name replaces it,
+     * e.g. `LBF.loadModel(data, LBF.DEFAULT_MODEL)`.
      */
-    static regressor_: LBFRegressor | null = null;
+    static readonly DEFAULT_MODEL: string = "face31";
+
+    /**
+     * Holds the registered regressors, by model name, that will be responsible
+     * for extracting the local features from the image and guide the landmarks
+     * using the training data.
+     */
+    private static models_: Record<string, LBFRegressor> = {};
 
     /**
      * Generates a set of landmarks for a set of faces
@@ -52,11 +60,21 @@ export class LBF {
      * @param width The image width.
      * @param height The image height.
      * @param faces The list of faces detected in the image
+     * @param optModel Optional name of the model to align with, defaults to `DEFAULT_MODEL`.
      * @return The aligned landmarks, each set of landmarks corresponding to a specific face.
      */
-    public static align(pixels: Uint8ClampedArray, width: number, height: number, faces: Face[]): MatrixType[] {
-        if (LBF.regressor_ === null) {
-            LBF.regressor_ = new LBFRegressor(LBF.maxNumStages);
+    public static align(
+        pixels: Uint8ClampedArray,
+        width: number,
+        height: number,
+        faces: Face[],
+        optModel: string = LBF.DEFAULT_MODEL
+    ): MatrixType[] {
+        const regressor = LBF.getModel(optModel);
+        if (!regressor) {
+            throw new Error(
+                'LBF model "' + optModel + '" not registered, try `LBF.loadModel(data, "' + optModel + '")`.'
+            );
         }
 
         // NOTE: is this thresholding suitable ? if it is on image, why no skin-color filter ? and a adaptative threshold
@@ -74,12 +92,99 @@ export class LBF {
                 height: faces[i].height,
             };
 
-            shapes[i] = LBF.regressor_.predict(pixels, width, height, boundingBox);
+            shapes[i] = regressor.predict(pixels, width, height, boundingBox);
         }
 
         return shapes;
     }
 
+    /**
+     * Gets a registered model. The bundled model is created on first use.
+     * @param name The model name.
+     * @return The model regressor, or undefined when not registered.
+     */
+    public static getModel(name: string): LBFRegressor | undefined {
+        if (!LBF.models_[name] && name === LBF.DEFAULT_MODEL) {
+            LBF.models_[name] = new LBFRegressor(LBF.maxNumStages);
+        }
+        return LBF.models_[name];
+    }
+
+    /**
+     * Gets the names of the registered models.
+     * @return The model names.
+     */
+    public static getModelNames(): string[] {
+        return Object.keys(LBF.models_);
+    }
+
+    /**
+     * Builds a regressor from a serialized model. When a name is given, or
+     * the model declares one, the regressor is also registered under that
+     * name, replacing any previous model with the same name, so it can be
+     * used by `align` and `LandmarksTracker`. The alignment runs every stage
+     * of the model, which has at most `maxNumStages` stages.
+     *
+     * Example:
+     * fetch('ibug68.json')
+     *   .then(function(response) { return response.arrayBuffer(); })
+     *   .then(function(buffer) { LBF.loadModel(buffer, 'ibug68'); });
+     *
+     * @param source The model as a JSON object or an ArrayBuffer holding its
+     *     UTF-8 encoded JSON.
+     * @param optName Optional name to register the model under.
+     * @return The model regressor.
+     */
+    public static loadModel(source: ArrayBuffer | LBFModelData, optName?: string): LBFRegressor {
+        let data: LBFModelData;
+        if (source instanceof ArrayBuffer) {
+            try {
+                data = JSON.parse(new TextDecoder("utf-8").decode(new Uint8Array(source)));
+            } catch (e) {
+                throw new Error("Invalid LBF model: the buffer does not hold a JSON model.");
+            }
+        } else {
+            data = source;
+        }
+
+        if (!data || !Array.isArray(data.meanShape) || !Array.isArray(data.stages) || !data.stages.length) {
+            throw new Error("Invalid LBF model: expected `meanShape` and non-empty `stages` arrays.");
+        }
+        for (let i = 0; i < data.meanShape.length; i++) {
+            const point = data.meanShape[i];
+            if (!Array.isArray(point) || point.length !== 2) {
+                throw new Error("Invalid LBF model: expected [x, y] at mean shape point " + i + ".");
+            }
+        }
+
+        if (data.stages.length > LBF.maxNumStages) {
+            throw new Error(
+                "Invalid LBF regressor data: expected at most " +
+                    LBF.maxNumStages +
+                    " stages, got " +
+                    data.stages.length +
+                    "."
+            );
+        }
+
+        const regressor = new LBFRegressor(data.stages.length, data.stages, data.meanShape);
+
+        const name = optName || data.name;
+        if (name) {
+            LBF.registerModel(name, regressor);
+        }
+        return regressor;
+    }
+
+    /**
+     * Registers a model regressor under a name.
+     * @param name The model name.
+     * @param regressor The model regressor.
+     */
+    public static registerModel(name: string, regressor: LBFRegressor): void {
+        LBF.models_[name] = regressor;
+    }
+
     /**
      * Unprojects the landmarks shape from the bounding box.
      * @param shape The landmarks shape.
@@ -190,20 +295,20 @@ export class LBFRandomForest {
     public readonly maxNumTrees: number;
     public readonly landmarkNum: number;
     public readonly maxDepth: number;
-    public readonly stages: any;
+    public readonly stages: number;
     public readonly rfs: LBFTree[][];
 
-    constructor(forestIndex: number) {
-        this.maxNumTrees = RegressorData[forestIndex].max_numtrees;
-        this.landmarkNum = RegressorData[forestIndex].num_landmark;
-        this.maxDepth = RegressorData[forestIndex].max_depth;
-        this.stages = RegressorData[forestIndex].stages;
+    constructor(data: RegressorStageData) {
+        this.maxNumTrees = data.max_numtrees;
+        this.landmarkNum = data.num_landmark;
+        this.maxDepth = data.max_depth;
+        this.stages = data.stages;
 
         this.rfs = new Array(this.landmarkNum);
         for (let i = 0; i < this.landmarkNum; i++) {
             this.rfs[i] = new Array(this.maxNumTrees);
             for (let j = 0; j < this.maxNumTrees; j++) {
-                this.rfs[i][j] = new LBFTree(forestIndex, i, j);
+                this.rfs[i][j] = new LBFTree(data.landmarks[i][j]);
             }
         }
     }
@@ -215,16 +320,15 @@ export class LBFRandomForest {
 export class LBFTree {
     public readonly maxDepth: number;
     public readonly maxNumNodes: number;
-    public readonly nodes: any;
+    public readonly nodes: RegressorNodeData[];
     public readonly landmarkID: number;
     public readonly numLeafnodes: number;
     public readonly numNodes: number;
     public readonly maxNumFeats: number;
     public readonly maxRadioRadius: number;
-    public readonly leafnodes: any;
+    public readonly leafnodes: number[];
 
-    constructor(forestIndex: number, landmarkIndex: number, treeIndex: number) {
-        const data = RegressorData[forestIndex].landmarks[landmarkIndex][treeIndex];
+    constructor(data: RegressorTreeData) {
         this.maxDepth = data.max_depth;
         this.maxNumNodes = data.max_numnodes;
         this.nodes = data.nodes;
@@ -236,3 +340,14 @@ export class LBFTree {
         this.leafnodes = data.id_leafnodes;
     }
 }
+
+/**
+ * Interface for a serialized LBF model. `meanShape` holds the normalized
+ * landmarks, e.g. [[x0,y0],[x1,y1],...], and `stages` the regressor stages
+ * trained for them.
+ */
+export interface LBFModelData {
+    name?: string;
+    meanShape: number[][];
+    stages: RegressorStageData[];
+}
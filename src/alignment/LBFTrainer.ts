@@ -0,0 +1,598 @@
+import { LBF, LBFModelData, LBFRandomForest } from "./LBF";
+import { LBFRegressor } from "./Regressor";
+import { Image } from "../utils/Image";
+import { Matrix, MatrixType } from "../math/Matrix";
+import { TrackingMath } from "../math/TrackingMath";
+import { RegressorModelData, RegressorNodeData, RegressorStageData, RegressorTreeData } from "./training/Regressor";
+
+/**
+ * LBFTrainer trains LBF models from annotated faces, e.g. to register a model
+ * with other landmarks through `LBF.loadModel`:
+ *
+ * ```
+ * const model = LBFTrainer.train(samples, { name: "hand21" });
+ * LBF.loadModel(model);
+ * ```
+ *
+ * The samples are prepared like `LBF.align` does, i.e. the pixels are
+ * converted to an equalized grayscale and the face is made square, so the
+ * faces should be boxed the way the detector used for the alignment boxes
+ * them. Each stage grows a random forest per landmark, whose splits compare
+ * two pixels around the landmark, and regresses the shape increment from the
+ * leaves reached in all the forests. The regression solves a dense linear
+ * system with one unknown per leaf, so the number of landmarks, trees and
+ * leaves bounds the training memory.
+ */
+export class LBFTrainer {
+    /**
+     * Holds the default number of trees per landmark in each stage.
+     */
+    public static readonly NUM_TREES: number = 5;
+
+    /**
+     * Holds the default depth of the trees, the root included. Each tree has
+     * 2^(depth-1) leaves.
+     */
+    public static readonly MAX_DEPTH: number = 4;
+
+    /**
+     * Holds the default number of random pixel pairs tried at each split.
+     */
+    public static readonly NUM_FEATURES: number = 300;
+
+    /**
+     * Holds the default radius of the pixel pairs around the landmarks in each
+     * stage, relative to the face size. The number of radii is the number of
+     * stages.
+     */
+    public static readonly RADII: number[] = [0.4, 0.25, 0.15, 0.08];
+
+    /**
+     * Holds the default number of initial shapes per sample. The first one is
+     * the mean shape, the others are the shapes of random samples.
+     */
+    public static readonly NUM_INITIALIZATIONS: number = 3;
+
+    /**
+     * Holds the default maximum number of training shapes used to grow each
+     * tree, drawn at random from all of them.
+     */
+    public static readonly MAX_SAMPLES_PER_TREE: number = 2000;
+
+    /**
+     * Holds the default number of principal components of the shape
+     * residuals regressed in each stage.
+     */
+    public static readonly NUM_COMPONENTS: number = 10;
+
+    /**
+     * Holds the default regularization of the linear regression, relative to
+     * the number of training shapes.
+     */
+    public static readonly LAMBDA: number = 0.001;
+
+    /**
+     * Holds the default seed of the random features and initializations.
+     */
+    public static readonly SEED: number = 1;
+
+    /**
+     * Trains a LBF model from annotated faces.
+     * @param samples The annotated faces.
+     * @param optOptions Optional tuning of the training.
+     * @return The model, to be registered through `LBF.loadModel`.
+     */
+    public static train(samples: LBFTrainingSample[], optOptions?: LBFTrainingOptions): LBFModelData {
+        const options = optOptions || {};
+        const numTrees = options.numTrees !== undefined ? options.numTrees : this.NUM_TREES;
+        const maxDepth = options.maxDepth !== undefined ? options.maxDepth : this.MAX_DEPTH;
+        const numFeatures = options.numFeatures !== undefined ? options.numFeatures : this.NUM_FEATURES;
+        const radii = options.radii || this.RADII;
+        const numInitializations =
+            options.numInitializations !== undefined ? options.numInitializations : this.NUM_INITIALIZATIONS;
+        const maxSamplesPerTree =
+            options.maxSamplesPerTree !== undefined ? options.maxSamplesPerTree : this.MAX_SAMPLES_PER_TREE;
+        const numComponents = options.numComponents !== undefined ? options.numComponents : this.NUM_COMPONENTS;
+        const lambda = options.lambda !== undefined ? options.lambda : this.LAMBDA;
+        const random = TrackingMath.createRandom(options.seed !== undefined ? options.seed : this.SEED);
+
+        if (!samples.length) {
+            throw new Error("LBF training requires at least one sample, try adding annotated faces.");
+        }
+        if (maxDepth < 2) {
+            throw new Error("LBF training requires trees of depth 2 or more, try a larger `maxDepth`.");
+        }
+        if (!radii.length || radii.length > LBF.maxNumStages) {
+            throw new Error("LBF training requires from 1 to " + LBF.maxNumStages + " stages, try fewer `radii`.");
+        }
+
+        const images: LBFTrainingImage[] = samples.map((sample) => ({
+            data: Image.equalizeHist(
+                Image.grayscale(sample.pixels, sample.width, sample.height, false),
+                sample.width,
+                sample.height
+            ),
+            width: sample.width,
+            height: sample.height,
+        }));
+        const boxes = samples.map((sample) => ({
+            startX: sample.face.x,
+            startY: sample.face.y,
+            width: sample.face.width,
+            height: sample.face.width,
+        }));
+        const targets = samples.map((sample, i) => LBF.unprojectShapeToBoundingBox(sample.shape, boxes[i]));
+        const numLandmarks = targets[0].length;
+        const meanShape = LBFTrainer.round_(options.meanShape || LBFTrainer.getMeanShape_(targets), 1e6);
+
+        // Each training shape starts from the mean shape or the shape of a
+        // random sample, in the normalized coordinates of its face.
+        const shapes: LBFTrainingShape[] = [];
+        for (let i = 0; i < samples.length; i++) {
+            for (let k = 0; k < numInitializations; k++) {
+                const initial = k === 0 ? meanShape : targets[Math.floor(random() * samples.length)];
+                shapes.push({ sample: i, current: Matrix.clone(initial) });
+            }
+        }
+
+        const stages: RegressorStageData[] = [];
+        for (let s = 0; s < radii.length; s++) {
+            const stage: RegressorStageData = {
+                max_numtrees: numTrees,
+                num_landmark: numLandmarks,
+                max_depth: maxDepth,
+                stages: s + 1,
+                landmarks: [],
+                models: [],
+            };
+
+            const points = shapes.map((shape) => LBF.projectShapeToBoundingBox(shape.current, boxes[shape.sample]));
+            const rotations = shapes.map((shape) => LBF.similarityTransform(shape.current, meanShape)[0]);
+
+            for (let j = 0; j < numLandmarks; j++) {
+                const residualX = new Float64Array(shapes.length);
+                const residualY = new Float64Array(shapes.length);
+                for (let i = 0; i < shapes.length; i++) {
+                    residualX[i] = targets[shapes[i].sample][j][0] - shapes[i].current[j][0];
+                    residualY[i] = targets[shapes[i].sample][j][1] - shapes[i].current[j][1];
+                }
+                const difference = (index: number, offsets: number[]) =>
+                    LBFRegressor.getPixelDifference(
+                        images[shapes[index].sample],
+                        points[index][j],
+                        offsets,
+                        boxes[shapes[index].sample],
+                        rotations[index]
+                    );
+
+                const trees: RegressorTreeData[] = [];
+                for (let k = 0; k < numTrees; k++) {
+                    const members = LBFTrainer.drawMembers_(shapes.length, maxSamplesPerTree, random);
+                    const tree = LBFTrainer.createTree_(j, maxDepth, numFeatures, radii[s]);
+
+                    LBFTrainer.growTree_(tree, members, residualX, residualY, difference, random);
+                    trees.push(tree);
+                }
+                stage.landmarks.push(trees);
+            }
+
+            const binaryFeatures = LBFRegressor.deriveBinaryFeat(
+                new LBFRandomForest(stage),
+                shapes.map((shape) => images[shape.sample]),
+                points,
+                shapes.map((shape) => boxes[shape.sample]),
+                meanShape
+            );
+
+            stage.models = LBFTrainer.fitModels_(
+                binaryFeatures,
+                shapes,
+                targets,
+                numLandmarks * numTrees * (1 << (maxDepth - 1)),
+                numComponents,
+                lambda * shapes.length
+            );
+
+            for (let i = 0; i < shapes.length; i++) {
+                for (let f = 0; f < numLandmarks * numTrees; f++) {
+                    const index = binaryFeatures[i][f].index;
+                    for (let j = 0; j < numLandmarks; j++) {
+                        shapes[i].current[j][0] += stage.models[j].data[index - 1];
+                        shapes[i].current[j][1] += stage.models[j + numLandmarks].data[index - 1];
+                    }
+                }
+            }
+
+            stages.push(stage);
+        }
+
+        return {
+            name: options.name,
+            meanShape: meanShape,
+            stages: stages,
+        };
+    }
+
+    /**
+     * Creates a complete tree whose nodes are stored in breadth-first order,
+     * i.e. the children of the node i are the nodes 2i+1 and 2i+2, and whose
+     * leaves follow the split nodes.
+     * @param landmark The landmark index.
+     * @param maxDepth The tree depth.
+     * @param numFeatures The number of random pixel pairs tried at each split.
+     * @param radius The radius of the pixel pairs, relative to the face size.
+     * @return The tree, with unset split nodes.
+     */
+    private static createTree_(
+        landmark: number,
+        maxDepth: number,
+        numFeatures: number,
+        radius: number
+    ): RegressorTreeData {
+        const numNodes = (1 << maxDepth) - 1;
+        const numSplits = (1 << (maxDepth - 1)) - 1;
+        const nodes: RegressorNodeData[] = [];
+        const leaves: number[] = [];
+
+        for (let i = 0; i < numNodes; i++) {
+            if (i < numSplits) {
+                nodes.push({ feats: [0, 0, 0, 0], thresh: 0, cnodes: [2 * i + 1, 2 * i + 2], is_leafnode: 0 });
+            } else {
+                nodes.push({ feats: [0, 0, 0, 0], thresh: 0, cnodes: [0, 0], is_leafnode: 1 });
+                leaves.push(i);
+            }
+        }
+
+        return {
+            max_depth: maxDepth,
+            max_numnodes: numNodes,
+            nodes: nodes,
+            landmark_id: landmark,
+            num_leafnodes: leaves.length,
+            num_nodes: numNodes,
+            max_numfeats: numFeatures,
+            max_radio_radius: radius,
+            id_leafnodes: leaves,
+        };
+    }
+
+    /**
+     * Draws the training shapes used to grow a tree.
+     * @param numShapes The number of training shapes.
+     * @param maxMembers The maximum number of shapes drawn.
+     * @param random The random number generator.
+     * @return The indices of the drawn shapes.
+     */
+    private static drawMembers_(numShapes: number, maxMembers: number, random: () => number): number[] {
+        const indices: number[] = new Array(numShapes);
+        for (let i = 0; i < numShapes; i++) {
+            indices[i] = i;
+        }
+        const count = Math.min(numShapes, maxMembers);
+        for (let i = 0; i < count; i++) {
+            const j = i + Math.floor(random() * (numShapes - i));
+            const swap = indices[i];
+            indices[i] = indices[j];
+            indices[j] = swap;
+        }
+        return indices.slice(0, count);
+    }
+
+    /**
+     * Fits the linear models of a stage, which regress the shape increment
+     * from all the binary features. The residuals of the training shapes are
+     * projected on their main principal components, whose coefficients are
+     * regressed by ridge regression, so the increments keep to the main
+     * deformations of the shapes.
+     * @param binaryFeatures The binary features of the training shapes.
+     * @param shapes The training shapes.
+     * @param targets The annotated shapes of the samples.
+     * @param numFeatures The number of binary features.
+     * @param numComponents The number of principal components regressed.
+     * @param lambda The regularization.
+     * @return The linear models for all x coordinates followed by all y coordinates.
+     */
+    private static fitModels_(
+        binaryFeatures: any[],
+        shapes: LBFTrainingShape[],
+        targets: MatrixType[],
+        numFeatures: number,
+        numComponents: number,
+        lambda: number
+    ): RegressorModelData[] {
+        const numLandmarks = targets[0].length;
+        const numOutputs = 2 * numLandmarks;
+        const numActive = binaryFeatures[0].length - 1;
+
+        const residuals: MatrixType = shapes.map((shape) => {
+            const target = targets[shape.sample];
+            const residual: number[] = new Array(numOutputs);
+            for (let j = 0; j < numLandmarks; j++) {
+                residual[j] = target[j][0] - shape.current[j][0];
+                residual[j + numLandmarks] = target[j][1] - shape.current[j][1];
+            }
+            return residual;
+        });
+
+        const covariance: MatrixType = [];
+        for (let a = 0; a < numOutputs; a++) {
+            covariance.push(new Array(numOutputs).fill(0));
+        }
+        for (let i = 0; i < residuals.length; i++) {
+            for (let a = 0; a < numOutputs; a++) {
+                for (let b = 0; b < numOutputs; b++) {
+                    covariance[a][b] += residuals[i][a] * residuals[i][b];
+                }
+            }
+        }
+        const components = Math.min(numComponents, numOutputs);
+        const basis = Matrix.svd(covariance).u.map((row) => row.slice(0, components));
+
+        // Normal equations of the ridge regression, the binary features are
+        // ones so each shape adds ones at the pairs of its active features.
+        const normal = new Float64Array(numFeatures * numFeatures);
+        const rhs = new Float64Array(numFeatures * components);
+        for (let f = 0; f < numFeatures; f++) {
+            normal[f * numFeatures + f] = lambda;
+        }
+        const active: number[] = new Array(numActive);
+        for (let i = 0; i < shapes.length; i++) {
+            for (let p = 0; p < numActive; p++) {
+                active[p] = binaryFeatures[i][p].index - 1;
+            }
+            for (let c = 0; c < components; c++) {
+                let coefficient = 0;
+                for (let o = 0; o < numOutputs; o++) {
+                    coefficient += residuals[i][o] * basis[o][c];
+                }
+                for (let p = 0; p < numActive; p++) {
+                    rhs[active[p] * components + c] += coefficient;
+                }
+            }
+            for (let p = 0; p < numActive; p++) {
+                for (let q = 0; q < numActive; q++) {
+                    normal[active[p] * numFeatures + active[q]]++;
+                }
+            }
+        }
+
+        const coefficients = LBFTrainer.solveCholesky_(normal, numFeatures, rhs, components);
+
+        const models: RegressorModelData[] = new Array(numOutputs);
+        for (let o = 0; o < numOutputs; o++) {
+            const data: number[] = new Array(numFeatures);
+            for (let f = 0; f < numFeatures; f++) {
+                let weight = 0;
+                for (let c = 0; c < components; c++) {
+                    weight += basis[o][c] * coefficients[f * components + c];
+                }
+                data[f] = weight;
+            }
+            models[o] = { nr_feature: numFeatures, data: data };
+        }
+        return models;
+    }
+
+    /**
+     * Gets the mean of the annotated shapes.
+     * @param targets The annotated shapes, normalized to their faces.
+     * @return The mean shape.
+     */
+    private static getMeanShape_(targets: MatrixType[]): MatrixType {
+        const mean: MatrixType = targets[0].map(() => [0, 0]);
+        for (let i = 0; i < targets.length; i++) {
+            for (let j = 0; j < mean.length; j++) {
+                mean[j][0] += targets[i][j][0] / targets.length;
+                mean[j][1] += targets[i][j][1] / targets.length;
+            }
+        }
+        return mean;
+    }
+
+    /**
+     * Grows the split nodes of a tree, level by level. Each split keeps the
+     * random pixel pair and threshold that most reduce the variance of the
+     * landmark residuals of its shapes.
+     * @param tree The tree, created by `createTree_`.
+     * @param members The indices of the training shapes.
+     * @param residualX The residuals of the landmark on the x axis, by shape index.
+     * @param residualY The residuals of the landmark on the y axis, by shape index.
+     * @param difference Function returning the pixel difference of a shape for the given pixel offsets.
+     * @param random The random number generator.
+     */
+    private static growTree_(
+        tree: RegressorTreeData,
+        members: number[],
+        residualX: Float64Array,
+        residualY: Float64Array,
+        difference: (index: number, offsets: number[]) => number,
+        random: () => number
+    ): void {
+        const numSplits = (1 << (tree.max_depth - 1)) - 1;
+        const groups: number[][] = new Array(tree.num_nodes);
+        groups[0] = members;
+
+        let values = new Int16Array(members.length);
+        let best = new Int16Array(members.length);
+
+        for (let n = 0; n < numSplits; n++) {
+            const group = groups[n];
+            const node = tree.nodes[n];
+            let bestGain = -1;
+
+            for (let c = 0; c < tree.max_numfeats && group.length > 1; c++) {
+                // The radii are drawn uniformly in the disk around the landmark.
+                const feats = [
+                    Math.round(random() * 2 * Math.PI * 1e4) / 1e4,
+                    Math.round(random() * 2 * Math.PI * 1e4) / 1e4,
+                    Math.round(Math.sqrt(random()) * 1e4) / 1e4,
+                    Math.round(Math.sqrt(random()) * 1e4) / 1e4,
+                ];
+                const offsets = LBFRegressor.getPixelOffsets(feats, tree.max_radio_radius);
+                for (let i = 0; i < group.length; i++) {
+                    values[i] = difference(group[i], offsets);
+                }
+
+                // The threshold is the median of three random differences, so
+                // the splits tend to be balanced.
+                const first = values[Math.floor(random() * group.length)];
+                const second = values[Math.floor(random() * group.length)];
+                const third = values[Math.floor(random() * group.length)];
+                const thresh = Math.max(Math.min(first, second), Math.min(Math.max(first, second), third));
+
+                let leftCount = 0;
+                let leftX = 0;
+                let leftY = 0;
+                let totalX = 0;
+                let totalY = 0;
+                for (let i = 0; i < group.length; i++) {
+                    const x = residualX[group[i]];
+                    const y = residualY[group[i]];
+                    totalX += x;
+                    totalY += y;
+                    if (values[i] < thresh) {
+                        leftCount++;
+                        leftX += x;
+                        leftY += y;
+                    }
+                }
+
+                const rightCount = group.length - leftCount;
+                if (!leftCount || !rightCount) {
+                    continue;
+                }
+                const rightX = totalX - leftX;
+                const rightY = totalY - leftY;
+                const gain =
+                    (leftX * leftX + leftY * leftY) / leftCount + (rightX * rightX + rightY * rightY) / rightCount;
+
+                if (gain > bestGain) {
+                    bestGain = gain;
+                    node.feats = feats;
+                    node.thresh = thresh;
+                    const swap = best;
+                    best = values;
+                    values = swap;
+                }
+            }
+
+            const left: number[] = [];
+            const right: number[] = [];
+            for (let i = 0; i < group.length; i++) {
+                if (bestGain >= 0 && best[i] < node.thresh) {
+                    left.push(group[i]);
+                } else {
+                    right.push(group[i]);
+                }
+            }
+            groups[node.cnodes[0]] = left;
+            groups[node.cnodes[1]] = right;
+        }
+    }
+
+    /**
+     * Solves the linear systems A * X = B for a symmetric positive definite
+     * matrix A by Cholesky decomposition, which overwrites A.
+     * @param a The NxN matrix A, in a row-major linear array.
+     * @param n The size of A.
+     * @param b The NxM right-hand sides B, in a row-major linear array.
+     * @param m The number of right-hand sides.
+     * @return The NxM unknowns X, in a row-major linear array.
+     */
+    private static solveCholesky_(a: Float64Array, n: number, b: Float64Array, m: number): Float64Array {
+        for (let k = 0; k < n; k++) {
+            let diagonal = a[k * n + k];
+            for (let i = 0; i < k; i++) {
+                diagonal -= a[k * n + i] * a[k * n + i];
+            }
+            diagonal = Math.sqrt(diagonal);
+            a[k * n + k] = diagonal;
+            for (let r = k + 1; r < n; r++) {
+                let value = a[r * n + k];
+                for (let i = 0; i < k; i++) {
+                    value -= a[r * n + i] * a[k * n + i];
+                }
+                a[r * n + k] = value / diagonal;
+            }
+        }
+
+        const x = new Float64Array(n * m);
+        for (let c = 0; c < m; c++) {
+            for (let r = 0; r < n; r++) {
+                let value = b[r * m + c];
+                for (let i = 0; i < r; i++) {
+                    value -= a[r * n + i] * x[i * m + c];
+                }
+                x[r * m + c] = value / a[r * n + r];
+            }
+            for (let r = n - 1; r >= 0; r--) {
+                let value = x[r * m + c];
+                for (let i = r + 1; i < n; i++) {
+                    value -= a[i * n + r] * x[i * m + c];
+                }
+                x[r * m + c] = value / a[r * n + r];
+            }
+        }
+        return x;
+    }
+
+    /**
+     * Rounds the coordinates of a shape.
+     * @param shape The shape.
+     * @param factor The rounding factor, e.g. 1e6 for six decimals.
+     * @return The rounded shape.
+     */
+    private static round_(shape: MatrixType, factor: number): MatrixType {
+        return shape.map((point) => [Math.round(point[0] * factor) / factor, Math.round(point[1] * factor) / factor]);
+    }
+}
+
+/**
+ * Interface for an annotated face. `shape` holds the landmarks in pixels,
+ * e.g. [[x0,y0],[x1,y1],...], and `face` the bounding box of the face, as
+ * found by the detector used for the alignment.
+ */
+export interface LBFTrainingSample {
+    pixels: Uint8ClampedArray;
+    width: number;
+    height: number;
+    shape: MatrixType;
+    face: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Interface for the tuning of the LBF training. `meanShape` defaults to the
+ * mean of the annotated shapes, normalized to their faces, and `name` is the
+ * name of the trained model.
+ */
+export interface LBFTrainingOptions {
+    name?: string;
+    meanShape?: MatrixType;
+    numTrees?: number;
+    maxDepth?: number;
+    numFeatures?: number;
+    radii?: number[];
+    numInitializations?: number;
+    maxSamplesPerTree?: number;
+    numComponents?: number;
+    lambda?: number;
+    seed?: number;
+}
+
+/**
+ * Interface for the equalized grayscale image of a sample.
+ */
+interface LBFTrainingImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * Interface for a training shape, the current shape of a sample in the
+ * normalized coordinates of its face.
+ */
+interface LBFTrainingShape {
+    sample: number;
+    current: MatrixType;
+}
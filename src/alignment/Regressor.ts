@@ -1,26 +1,136 @@
-import { Matrix } from "../math/Matrix";
+import { Matrix, MatrixType } from "../math/Matrix";
 import { LBF, LBFRandomForest } from "./LBF";
 import { LandmarksData } from "./training/Landmarks";
-import { RegressorData } from "./training/Regressor";
+import { RegressorData, RegressorModelData, RegressorStageData } from "./training/Regressor";
 
 export class LBFRegressor {
     private readonly maxNumStages: number;
-    private readonly rfs: any[];
-    private readonly models: any[];
-    private readonly meanShape: any;
+    private readonly rfs: LBFRandomForest[];
+    private readonly models: RegressorModelData[][];
+    private readonly meanShape: MatrixType;
+
+    /**
+     * Creates a new LBFRegressor instance.
+     * @param maxNumStages The number of stages used in the alignment.
+     * @param optData Optional regressor stages, defaults to the bundled training data.
+     * @param optMeanShape Optional normalized mean shape, defaults to the bundled landmarks.
+     */
+    constructor(
+        maxNumStages: number,
+        optData: RegressorStageData[] = RegressorData,
+        optMeanShape: MatrixType = LandmarksData
+    ) {
+        LBFRegressor.validate(optData, maxNumStages, optMeanShape.length);
 
-    constructor(maxNumStages: number) {
         this.maxNumStages = maxNumStages;
 
         this.rfs = new Array(maxNumStages);
         this.models = new Array(maxNumStages);
 
         for (let i = 0; i < maxNumStages; i++) {
-            this.rfs[i] = new LBFRandomForest(i);
-            this.models[i] = RegressorData[i].models;
+            this.rfs[i] = new LBFRandomForest(optData[i]);
+            this.models[i] = optData[i].models;
         }
 
-        this.meanShape = LandmarksData;
+        this.meanShape = optMeanShape;
+    }
+
+    /**
+     * Gets the number of landmarks predicted by this regressor.
+     * @return The number of landmarks
+     */
+    getNumLandmarks(): number {
+        return this.meanShape.length;
+    }
+
+    /**
+     * Validates the shape of the regressor training data, i.e. the number of
+     * stages, landmarks, trees and the tree depth, so that a broken or
+     * mismatching model fails with a clear message instead of producing
+     * garbage landmarks.
+     * @param data The regressor stages.
+     * @param maxNumStages The number of stages used in the alignment.
+     * @param numLandmarks The number of landmarks of the mean shape.
+     * @throws Error describing the first inconsistency found.
+     */
+    static validate(data: RegressorStageData[], maxNumStages: number, numLandmarks: number): void {
+        const fail = (path: string, message: string): never => {
+            throw new Error("Invalid LBF regressor data" + (path ? " at " + path : "") + ": " + message + ".");
+        };
+
+        if (!Array.isArray(data)) {
+            fail("", "expected an array of stages");
+        }
+        if (data.length < maxNumStages) {
+            fail("", "expected " + maxNumStages + " stages, got " + data.length);
+        }
+
+        for (let i = 0; i < maxNumStages; i++) {
+            const stage = data[i];
+            const stagePath = "stage " + i;
+
+            if (!stage || !Array.isArray(stage.landmarks) || !Array.isArray(stage.models)) {
+                fail(stagePath, "expected `landmarks` and `models` arrays");
+            }
+            if (stage.num_landmark !== numLandmarks || stage.landmarks.length !== numLandmarks) {
+                fail(
+                    stagePath,
+                    "expected " +
+                        numLandmarks +
+                        " landmarks, got " +
+                        stage.num_landmark +
+                        " declared and " +
+                        stage.landmarks.length +
+                        " present"
+                );
+            }
+            if (!(stage.max_depth >= 1)) {
+                fail(stagePath, "expected a positive `max_depth`, got " + stage.max_depth);
+            }
+            if (stage.models.length !== 2 * numLandmarks) {
+                fail(stagePath, "expected " + 2 * numLandmarks + " linear models, got " + stage.models.length);
+            }
+
+            const maxLeafnodes = 1 << (stage.max_depth - 1);
+
+            for (let j = 0; j < numLandmarks; j++) {
+                const trees = stage.landmarks[j];
+                if (!Array.isArray(trees) || trees.length !== stage.max_numtrees) {
+                    fail(
+                        stagePath + ", landmark " + j,
+                        "expected " + stage.max_numtrees + " trees, got " + (trees ? trees.length : 0)
+                    );
+                }
+
+                for (let k = 0; k < trees.length; k++) {
+                    const tree = trees[k];
+                    const treePath = stagePath + ", landmark " + j + ", tree " + k;
+
+                    if (tree.max_depth !== stage.max_depth) {
+                        fail(treePath, "expected depth " + stage.max_depth + ", got " + tree.max_depth);
+                    }
+                    if (tree.landmark_id !== j) {
+                        fail(treePath, "expected landmark id " + j + ", got " + tree.landmark_id);
+                    }
+                    if (!Array.isArray(tree.nodes) || tree.nodes.length < tree.num_nodes) {
+                        fail(treePath, "expected " + tree.num_nodes + " nodes");
+                    }
+                    if (!Array.isArray(tree.id_leafnodes) || tree.id_leafnodes.length !== tree.num_leafnodes) {
+                        fail(treePath, "expected " + tree.num_leafnodes + " leaf nodes");
+                    }
+                    if (tree.num_leafnodes > maxLeafnodes) {
+                        fail(treePath, "expected at most " + maxLeafnodes + " leaf nodes, got " + tree.num_leafnodes);
+                    }
+                }
+            }
+
+            for (let j = 0; j < stage.models.length; j++) {
+                const model = stage.models[j];
+                if (!model || !model.data || model.data.length < model.nr_feature) {
+                    fail(stagePath + ", model " + j, "expected " + (model ? model.nr_feature : 0) + " weights");
+                }
+            }
+        }
     }
 
     /**
@@ -179,46 +289,13 @@ export class LBFRegressor {
         let bincode = 0;
 
         while (true) {
-            const x1 =
-                Math.cos(tree.nodes[current].feats[0]) *
-                tree.nodes[current].feats[2] *
-                tree.maxRadioRadius *
-                boundingBox.width;
-            const y1 =
-                Math.sin(tree.nodes[current].feats[0]) *
-                tree.nodes[current].feats[2] *
-                tree.maxRadioRadius *
-                boundingBox.height;
-            const x2 =
-                Math.cos(tree.nodes[current].feats[1]) *
-                tree.nodes[current].feats[3] *
-                tree.maxRadioRadius *
-                boundingBox.width;
-            const y2 =
-                Math.sin(tree.nodes[current].feats[1]) *
-                tree.nodes[current].feats[3] *
-                tree.maxRadioRadius *
-                boundingBox.height;
-
-            const project_x1 = rotation[0][0] * x1 + rotation[0][1] * y1;
-            const project_y1 = rotation[1][0] * x1 + rotation[1][1] * y1;
-
-            let real_x1 = Math.floor(project_x1 + shape[tree.landmarkID][0]);
-            let real_y1 = Math.floor(project_y1 + shape[tree.landmarkID][1]);
-            real_x1 = Math.max(0.0, Math.min(real_x1, image.height - 1.0));
-            real_y1 = Math.max(0.0, Math.min(real_y1, image.width - 1.0));
-
-            const project_x2 = rotation[0][0] * x2 + rotation[0][1] * y2;
-            const project_y2 = rotation[1][0] * x2 + rotation[1][1] * y2;
-
-            let real_x2 = Math.floor(project_x2 + shape[tree.landmarkID][0]);
-            let real_y2 = Math.floor(project_y2 + shape[tree.landmarkID][1]);
-            real_x2 = Math.max(0.0, Math.min(real_x2, image.height - 1.0));
-            real_y2 = Math.max(0.0, Math.min(real_y2, image.width - 1.0));
-
-            const pdf =
-                Math.floor(image.data[real_y1 * image.width + real_x1]) -
-                Math.floor(image.data[real_y2 * image.width + real_x2]);
+            const pdf = LBFRegressor.getPixelDifference(
+                image,
+                shape[tree.landmarkID],
+                LBFRegressor.getPixelOffsets(tree.nodes[current].feats, tree.maxRadioRadius),
+                boundingBox,
+                rotation
+            );
 
             if (pdf < tree.nodes[current].thresh) {
                 current = tree.nodes[current].cnodes[0];
@@ -238,4 +315,67 @@ export class LBFRegressor {
             }
         }
     }
+
+    /**
+     * Gets the intensity difference of the two pixels compared by a tree node.
+     * The pixels are placed around the landmark by their offsets, scaled by
+     * the bounding box size and rotated along with the current shape. Pixels
+     * outside the image are clamped to its border.
+     * @param image The image with pixels in a grayscale linear array.
+     * @param point The landmark position [x,y] in the image.
+     * @param offsets The pixel offsets [x1,y1,x2,y2], see `getPixelOffsets`.
+     * @param boundingBox The bounding box of the face.
+     * @param rotation The rotation matrix used to transform the projected landmarks into the mean shape.
+     * @return The intensity of the first pixel minus the intensity of the second.
+     */
+    static getPixelDifference(
+        image: any,
+        point: number[],
+        offsets: number[],
+        boundingBox: any,
+        rotation: MatrixType
+    ): number {
+        const x1 = offsets[0] * boundingBox.width;
+        const y1 = offsets[1] * boundingBox.height;
+        const x2 = offsets[2] * boundingBox.width;
+        const y2 = offsets[3] * boundingBox.height;
+
+        const project_x1 = rotation[0][0] * x1 + rotation[0][1] * y1;
+        const project_y1 = rotation[1][0] * x1 + rotation[1][1] * y1;
+
+        let real_x1 = Math.floor(project_x1 + point[0]);
+        let real_y1 = Math.floor(project_y1 + point[1]);
+        real_x1 = Math.max(0.0, Math.min(real_x1, image.width - 1.0));
+        real_y1 = Math.max(0.0, Math.min(real_y1, image.height - 1.0));
+
+        const project_x2 = rotation[0][0] * x2 + rotation[0][1] * y2;
+        const project_y2 = rotation[1][0] * x2 + rotation[1][1] * y2;
+
+        let real_x2 = Math.floor(project_x2 + point[0]);
+        let real_y2 = Math.floor(project_y2 + point[1]);
+        real_x2 = Math.max(0.0, Math.min(real_x2, image.width - 1.0));
+        real_y2 = Math.max(0.0, Math.min(real_y2, image.height - 1.0));
+
+        return (
+            Math.floor(image.data[real_y1 * image.width + real_x1]) -
+            Math.floor(image.data[real_y2 * image.width + real_x2])
+        );
+    }
+
+    /**
+     * Gets the offsets of the two pixels compared by a tree node, relative to
+     * the bounding box size, from the node features, which describe them in
+     * polar coordinates around the landmark.
+     * @param feats The node features [angle1, angle2, radius1, radius2].
+     * @param radius The maximum radius of the tree, relative to the bounding box.
+     * @return The pixel offsets [x1,y1,x2,y2].
+     */
+    static getPixelOffsets(feats: number[], radius: number): number[] {
+        return [
+            Math.cos(feats[0]) * feats[2] * radius,
+            Math.sin(feats[0]) * feats[2] * radius,
+            Math.cos(feats[1]) * feats[3] * radius,
+            Math.sin(feats[1]) * feats[3] * radius,
+        ];
+    }
 }
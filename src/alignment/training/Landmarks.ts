@@ -1,33 +1,37 @@
+/**
+ * Mean shape of the bundled LBF model, normalized to the face box. Generated
+ * by `npm run train-lbf` along with `RegressorData`.
+ */
 export const LandmarksData = [
-    [0.0125684, 0.210687],
-    [0.0357801, 0.468239],
-    [0.115541, 0.712995],
-    [0.284357, 0.905924],
-    [0.514999, 0.996969],
-    [0.742149, 0.899084],
-    [0.908075, 0.698924],
-    [0.976219, 0.446131],
-    [0.985153, 0.186042],
-    [0.102259, 0.0993176],
-    [0.244642, 0.0382795],
-    [0.405298, 0.0817395],
-    [0.574051, 0.0755624],
-    [0.736492, 0.0254858],
-    [0.879617, 0.0749889],
-    [0.494662, 0.182299],
-    [0.409008, 0.498333],
-    [0.502223, 0.532951],
-    [0.594788, 0.495907],
-    [0.201686, 0.196578],
-    [0.249652, 0.163191],
-    [0.313234, 0.163275],
-    [0.363542, 0.203391],
-    [0.628143, 0.197082],
-    [0.675643, 0.154603],
-    [0.738182, 0.151877],
-    [0.787497, 0.18301],
-    [0.321899, 0.669231],
-    [0.502462, 0.632468],
-    [0.692712, 0.659599],
-    [0.50761, 0.764184],
+    [0.14927, 0.460566],
+    [0.15677, 0.64974],
+    [0.206039, 0.837829],
+    [0.326307, 0.993353],
+    [0.50203, 1.07985],
+    [0.67654, 0.991825],
+    [0.795862, 0.835016],
+    [0.843667, 0.646839],
+    [0.849965, 0.457687],
+    [0.200024, 0.345235],
+    [0.306833, 0.293587],
+    [0.432608, 0.327238],
+    [0.56613, 0.326609],
+    [0.691925, 0.291774],
+    [0.798696, 0.342359],
+    [0.499469, 0.416331],
+    [0.426094, 0.672194],
+    [0.500162, 0.700593],
+    [0.575086, 0.671288],
+    [0.274761, 0.433553],
+    [0.310071, 0.405136],
+    [0.359144, 0.405957],
+    [0.396811, 0.436915],
+    [0.602419, 0.436293],
+    [0.640015, 0.404974],
+    [0.688774, 0.403694],
+    [0.724654, 0.431689],
+    [0.353648, 0.807762],
+    [0.500949, 0.783288],
+    [0.648456, 0.806499],
+    [0.50181, 0.902988],
 ];
@@ -0,0 +1,9471 @@
+/**
+ * LBF regressor training data. Each stage holds a random forest per landmark,
+ * used to extract the local binary features, and a linear model per landmark
+ * coordinate, used to regress the shape increment from those features. The
+ * landmarks follow the order of `LandmarksData`.
+ *
+ * The stages are generated by `npm run train-lbf`, which trains them with
+ * `LBFTrainer` on synthetic faces rendered around the 3D face model of
+ * `HeadPose`, boxed like the face detector boxes real faces. Models trained
+ * on annotated photographs can replace it through `LBF.loadModel`.
+ */
+export const RegressorData: RegressorStageData[] = [
+    createStage(
+        1,
+        4,
+        0.4,
+        300,
+        [
+            [
+                [
+                    [1.2749, 0.1759, 0.8554, 0.3055, 0],
+                    [0.0665, 5.5803, 0.7746, 0.6229, -21],
+                    [4.2889, 0.6771, 0.0608, 0.5432, 24],
+                    [5.9248, 5.1968, 0.8366, 0.9661, -50],
+                    [1.5478, 5.2633, 0.2422, 0.533, -32],
+                    [1.5355, 0.176, 0.6236, 0.5525, -24],
+                    [0.769, 0.8262, 0.4321, 0.9027, -25],
+                ],
+                [
+                    [2.5738, 0.2575, 0.0793, 0.6304, 49],
+                    [0.1984, 1.1769, 0.3439, 0.7111, -9],
+                    [1.3983, 5.8015, 0.1394, 0.929, 36],
+                    [6.2633, 0.2524, 0.8867, 0.4852, 28],
+                    [0.9598, 1.3525, 0.722, 0.5229, 58],
+                    [0.7806, 0.3273, 0.9616, 0.6727, 18],
+                    [0.8848, 0.0655, 0.9813, 0.7869, -3],
+                ],
+                [
+                    [0.2553, 0.9992, 0.5754, 0.8811, 8],
+                    [4.5893, 0.374, 0.2082, 0.6856, 69],
+                    [0.5842, 1.3107, 0.8446, 0.4205, 41],
+                    [0.5238, 6.0539, 0.5415, 0.7762, 7],
+                    [0.7347, 0.8465, 0.9394, 0.2277, 6],
+                    [5.4886, 5.636, 0.3217, 0.7288, 6],
+                    [0.743, 0.8109, 0.9391, 0.231, 37],
+                ],
+                [
+                    [0.9895, 0.2114, 0.8561, 0.5314, 16],
+                    [0.6268, 1.7275, 0.9225, 0.0542, 88],
+                    [0.7858, 2.7323, 0.8721, 0.0805, -31],
+                    [4.6662, 0.2243, 0.5575, 0.7827, 35],
+                    [0.1609, 3.4633, 0.628, 0.9614, 56],
+                    [3.2284, 5.4244, 0.0748, 0.8834, 0],
+                    [5.9557, 3.2864, 0.8739, 0.3486, 78],
+                ],
+                [
+                    [5.5656, 0.0982, 0.5526, 0.603, 8],
+                    [1.2876, 6.0968, 0.7369, 0.1893, 11],
+                    [5.6097, 0.6383, 0.1537, 0.6786, 20],
+                    [0.9677, 1.8908, 0.6399, 0.3344, 65],
+                    [1.5489, 0.4963, 0.7142, 0.8713, 47],
+                    [1.5455, 5.9814, 0.3814, 0.9612, -35],
+                    [6.2061, 5.637, 0.2191, 0.604, -19],
+                ],
+            ],
+            [
+                [
+                    [0.5798, 5.7262, 0.4827, 0.6293, 9],
+                    [5.3089, 1.3318, 0.1824, 0.8458, 31],
+                    [3.5661, 5.8823, 0.104, 0.6265, 88],
+                    [5.3174, 1.4912, 0.4391, 0.9649, -10],
+                    [6.0052, 1.5609, 0.9381, 0.9817, 70],
+                    [5.3283, 2.235, 0.829, 0.0147, -7],
+                    [1.0522, 0.2678, 0.3474, 0.931, 72],
+                ],
+                [
+                    [5.7484, 5.1257, 0.6885, 0.979, 0],
+                    [6.255, 1.1841, 0.8527, 0.8932, -7],
+                    [5.8841, 1.3511, 0.6912, 0.7791, -2],
+                    [0.8003, 0.1023, 0.3842, 0.8125, 9],
+                    [0.663, 3.7321, 0.6885, 0.2946, 32],
+                    [0.3184, 4.8021, 0.8605, 0.5617, -46],
+                    [4.601, 6.1722, 0.6789, 0.9537, -83],
+                ],
+                [
+                    [5.3753, 1.2835, 0.5875, 0.9959, -20],
+                    [0.1331, 1.3623, 0.8597, 0.598, -23],
+                    [5.7053, 0.4072, 0.465, 0.7007, 1],
+                    [1.0038, 0.1999, 0.8113, 0.8015, 26],
+                    [0.5269, 0.6834, 0.691, 0.1901, 22],
+                    [1.5942, 0.3522, 0.2259, 0.9605, -65],
+                    [0.2317, 1.6834, 0.9161, 0.9169, 74],
+                ],
+                [
+                    [5.6276, 0.6768, 0.537, 0.4476, -18],
+                    [1.105, 0.1404, 0.9132, 0.4618, 30],
+                    [4.9293, 6.2711, 0.2783, 0.5453, -20],
+                    [0.167, 5.0582, 0.7199, 0.4956, -41],
+                    [0.9291, 5.331, 0.6853, 0.9566, 20],
+                    [4.8033, 0.1692, 0.3051, 0.8718, -52],
+                    [1.6042, 5.3714, 0.9293, 0.5527, 10],
+                ],
+                [
+                    [5.9718, 0.8188, 0.4224, 0.4745, -13],
+                    [0.4017, 1.1545, 0.8686, 0.3986, -48],
+                    [4.2016, 5.8992, 0.2261, 0.9871, -50],
+                    [5.7605, 0.7121, 0.6282, 0.9633, 15],
+                    [0.3582, 5.5391, 0.8155, 0.5004, 9],
+                    [5.1274, 5.7706, 0.9293, 0.8033, -14],
+                    [5.5809, 5.2291, 0.5831, 0.9725, -21],
+                ],
+            ],
+            [
+                [
+                    [5.3584, 5.1012, 0.3501, 0.9767, 10],
+                    [5.4782, 4.8271, 0.6114, 0.7227, 8],
+                    [5.3515, 1.1634, 0.6397, 0.8097, -19],
+                    [5.3908, 1.8191, 0.8731, 0.3239, -52],
+                    [5.3849, 4.6288, 0.6762, 0.6524, 28],
+                    [5.4714, 0.6295, 0.5497, 0.37, -42],
+                    [5.2453, 6.1618, 0.9276, 0.5612, 14],
+                ],
+                [
+                    [1.6196, 4.9683, 0.8725, 0.791, 24],
+                    [6.1016, 1.5628, 0.5535, 0.9428, 67],
+                    [0.6764, 5.4035, 0.5442, 0.8752, 4],
+                    [4.9129, 4.7934, 0.9773, 0.585, -16],
+                    [4.7275, 5.7816, 0.2675, 0.5551, -55],
+                    [1.0157, 4.7568, 0.7726, 0.9249, 26],
+                    [0.9593, 5.2737, 0.9187, 0.5422, -12],
+                ],
+                [
+                    [5.0992, 5.9627, 0.8947, 0.2972, 0],
+                    [5.5547, 0.9866, 0.7555, 0.9922, 13],
+                    [5.1253, 2.0077, 0.861, 0.5095, -10],
+                    [0.858, 5.689, 0.3806, 0.7593, 23],
+                    [5.0227, 6.1887, 0.6167, 0.5592, 11],
+                    [0.8387, 0.0855, 0.471, 0.8583, 54],
+                    [1.6902, 5.7994, 0.7314, 0.9893, -96],
+                ],
+                [
+                    [5.1952, 1.1582, 0.9198, 0.6205, 0],
+                    [0.1699, 0.8423, 0.9544, 0.4852, -35],
+                    [0.1351, 5.0513, 0.4509, 0.8165, 28],
+                    [5.1046, 0.7226, 0.6663, 0.6727, -59],
+                    [4.875, 1.5353, 0.8581, 0.5039, -21],
+                    [4.4457, 5.6091, 0.6171, 0.9084, -91],
+                    [2.1016, 6.0752, 0.975, 0.5053, -72],
+                ],
+                [
+                    [4.9858, 1.1731, 0.8551, 0.5575, -20],
+                    [0.8017, 5.8753, 0.1565, 0.9198, 6],
+                    [4.9441, 6.0466, 0.7041, 0.3972, 2],
+                    [1.2298, 6.239, 0.8017, 0.8803, 37],
+                    [5.2349, 0.415, 0.5717, 0.8268, -48],
+                    [1.2109, 5.5025, 0.8833, 0.9453, -76],
+                    [4.3945, 5.6353, 0.8163, 0.9571, -78],
+                ],
+            ],
+            [
+                [
+                    [6.0228, 5.4303, 0.9582, 0.5662, 35],
+                    [5.4456, 4.1497, 0.8506, 0.2695, -2],
+                    [0.5661, 4.713, 0.7292, 0.6461, 19],
+                    [0.3574, 5.704, 0.064, 0.9071, 24],
+                    [1.6885, 4.702, 0.5524, 0.7036, -88],
+                    [5.7482, 1.8217, 0.9932, 0.3363, -53],
+                    [0.3466, 2.6239, 0.8887, 0.5391, 49],
+                ],
+                [
+                    [5.1386, 0.1824, 0.7088, 0.8151, 3],
+                    [6.0352, 3.4613, 0.9227, 0.0956, -34],
+                    [5.4351, 2.3591, 0.997, 0.2039, -17],
+                    [1.2023, 4.9925, 0.0435, 0.9251, 23],
+                    [4.5556, 0.5901, 0.9625, 0.8228, -39],
+                    [0.7376, 5.5027, 0.2038, 0.9034, -18],
+                    [4.9829, 5.6199, 0.619, 0.8994, 4],
+                ],
+                [
+                    [0.0307, 5.0725, 0.9785, 0.9206, 42],
+                    [5.3776, 1.7156, 0.8643, 0.5963, -11],
+                    [3.201, 0.861, 0.3562, 0.9913, -77],
+                    [1.1478, 5.7485, 0.7813, 0.9255, 51],
+                    [1.814, 0.1704, 0.4048, 0.4594, -37],
+                    [5.1225, 1.2437, 0.5604, 0.7232, -37],
+                    [0.692, 3.0134, 0.8243, 0.3351, -41],
+                ],
+                [
+                    [3.1596, 5.7794, 0.1771, 0.8208, 25],
+                    [5.1597, 0.0007, 0.5447, 0.8363, -5],
+                    [5.2019, 4.7623, 0.2284, 0.8892, 19],
+                    [4.5722, 1.0962, 0.5239, 0.7268, -54],
+                    [5.3251, 1.9769, 0.9884, 0.7725, 84],
+                    [6.1083, 0.0312, 0.5012, 0.7449, 9],
+                    [0.6105, 6.085, 0.9668, 0.9347, 35],
+                ],
+                [
+                    [4.7335, 4.5712, 0.9374, 0.0911, -51],
+                    [0.1743, 0.3287, 0.9854, 0.2244, -38],
+                    [5.1279, 0.189, 0.7111, 0.96, -19],
+                    [0.6653, 2.0052, 0.8107, 0.3105, -65],
+                    [5.3094, 5.2001, 0.9945, 0.508, 9],
+                    [2.2204, 5.3702, 0.7353, 0.8669, 26],
+                    [4.9176, 1.7334, 0.5475, 0.8441, 64],
+                ],
+            ],
+            [
+                [
+                    [5.1388, 4.2943, 0.9216, 0.8487, 0],
+                    [4.4046, 6.0148, 0.9577, 0.6036, -44],
+                    [3.4325, 4.9168, 0.5314, 0.4428, 42],
+                    [6.0389, 4.033, 0.3435, 0.4281, 76],
+                    [3.8456, 5.1879, 0.7471, 0.7629, 32],
+                    [5.6707, 4.4735, 0.1524, 0.8462, -20],
+                    [4.3408, 5.9694, 0.7347, 0.7901, -47],
+                ],
+                [
+                    [5.2221, 3.5442, 0.6878, 0.7648, -33],
+                    [3.851, 5.0849, 0.2928, 0.8793, 3],
+                    [4.5368, 3.0051, 0.9863, 0.6542, 99],
+                    [1.9522, 4.9406, 0.9841, 0.4841, 29],
+                    [5.8708, 3.2467, 0.8785, 0.2192, -44],
+                    [5.1125, 4.2508, 0.9131, 0.8985, -11],
+                    [5.0519, 0.681, 0.9346, 0.9903, 88],
+                ],
+                [
+                    [5.0542, 3.0441, 0.685, 0.7238, -31],
+                    [6.0493, 3.7369, 0.9097, 0.4918, 54],
+                    [4.3366, 5.5675, 0.9345, 0.7032, -15],
+                    [3.8412, 5.3936, 0.5339, 0.7125, 65],
+                    [3.6477, 6.2599, 0.6924, 0.2682, -89],
+                    [1.6525, 4.1561, 0.6769, 0.9248, 78],
+                    [2.5772, 4.6068, 0.7119, 0.8441, -89],
+                ],
+                [
+                    [4.4406, 5.4761, 0.8974, 0.7581, -38],
+                    [4.2371, 0.5815, 0.9069, 0.167, -49],
+                    [3.7753, 5.2901, 0.7241, 0.7434, 39],
+                    [3.7843, 2.1945, 0.8782, 0.7373, -95],
+                    [4.8827, 3.8411, 0.7288, 0.866, -19],
+                    [5.1155, 2.3598, 0.9855, 0.7012, -3],
+                    [3.6307, 5.0909, 0.342, 0.7063, 23],
+                ],
+                [
+                    [4.354, 6.1774, 0.986, 0.3408, -13],
+                    [3.8648, 1.7608, 0.5898, 0.6503, -74],
+                    [4.9272, 2.8198, 0.8628, 0.6218, 0],
+                    [5.1042, 3.9446, 0.4544, 0.7634, 60],
+                    [5.1566, 2.5875, 0.9942, 0.9946, -10],
+                    [5.0822, 3.6455, 0.8483, 0.2828, 4],
+                    [6.2808, 2.2318, 0.3636, 0.9568, 16],
+                ],
+            ],
+            [
+                [
+                    [1.5638, 3.577, 0.311, 0.8609, 53],
+                    [2.8819, 4.1662, 0.6784, 0.8092, 6],
+                    [4.5623, 2.0734, 0.964, 0.7649, -66],
+                    [4.3001, 1.0718, 0.5085, 0.9162, 71],
+                    [2.5218, 3.8138, 0.7857, 0.3974, 41],
+                    [1.3942, 2.3741, 0.3919, 0.8623, 119],
+                    [4.4995, 0.446, 0.9847, 0.4863, -6],
+                ],
+                [
+                    [3.9416, 1.2742, 0.9869, 0.7614, 7],
+                    [2.9734, 1.7107, 0.9067, 0.8997, -23],
+                    [2.3276, 4.6461, 0.9449, 0.7541, 19],
+                    [1.7499, 3.4596, 0.7439, 0.9215, 59],
+                    [2.8797, 0.7215, 0.9719, 0.5728, 3],
+                    [4.1808, 1.1588, 0.6535, 0.9681, 52],
+                    [1.8297, 4.1232, 0.9595, 0.2838, 49],
+                ],
+                [
+                    [3.7857, 1.4185, 0.8427, 0.8676, -35],
+                    [3.1887, 1.736, 0.9929, 0.6271, -18],
+                    [1.1684, 4.3013, 0.9206, 0.685, -68],
+                    [4.6588, 4.6264, 0.4216, 0.975, -6],
+                    [4.1342, 3.0631, 0.7061, 0.7779, -7],
+                    [1.1473, 4.716, 0.7252, 0.4471, -77],
+                    [3.8285, 0.7306, 0.6812, 0.4919, -18],
+                ],
+                [
+                    [0.9569, 3.8333, 0.7098, 0.866, 42],
+                    [1.0736, 4.5679, 0.3612, 0.4459, -65],
+                    [4.3864, 1.584, 0.9653, 0.8163, -26],
+                    [0.7079, 4.6852, 0.3837, 0.6139, -75],
+                    [4.761, 2.9373, 0.7646, 0.8223, 0],
+                    [4.1334, 3.0535, 0.4141, 0.8132, 17],
+                    [3.9254, 4.2922, 0.9112, 0.5899, 3],
+                ],
+                [
+                    [1.0581, 3.6898, 0.7947, 0.8142, 29],
+                    [4.8279, 0.9969, 0.4427, 0.7811, 60],
+                    [3.1512, 1.6263, 0.872, 0.971, -79],
+                    [0.7572, 4.5009, 0.7561, 0.6594, -92],
+                    [4.728, 1.2932, 0.5222, 0.9798, 90],
+                    [1.9791, 4.1017, 0.7032, 0.7401, 40],
+                    [4.694, 1.3943, 0.9441, 0.7005, 11],
+                ],
+            ],
+            [
+                [
+                    [4.1744, 1.9438, 0.8255, 0.6472, -50],
+                    [2.4011, 4.0994, 0.9821, 0.9931, 52],
+                    [4.1714, 3.7, 0.8825, 0.56, -13],
+                    [4.207, 3.241, 0.7612, 0.8851, -27],
+                    [3.9322, 3.0673, 0.6602, 0.934, -58],
+                    [3.738, 4.2011, 0.9728, 0.8021, 23],
+                    [4.0183, 4.3594, 0.7254, 0.9985, 26],
+                ],
+                [
+                    [4.3133, 3.2076, 0.9216, 0.5654, 12],
+                    [2.9275, 4.1328, 0.4954, 0.8331, 18],
+                    [2.0814, 4.4677, 0.5009, 0.7378, 37],
+                    [1.7219, 4.0253, 0.5146, 0.8723, 35],
+                    [4.0313, 2.7046, 0.804, 0.4252, -41],
+                    [3.5074, 1.5654, 0.4779, 0.9413, 59],
+                    [2.4426, 4.3719, 0.4142, 0.6225, 44],
+                ],
+                [
+                    [2.3034, 4.2904, 0.3471, 0.6699, 2],
+                    [4.4051, 3.3024, 0.859, 0.3862, -8],
+                    [4.212, 2.0622, 0.8632, 0.5763, -12],
+                    [4.2438, 3.0017, 0.8465, 0.2763, -17],
+                    [3.6498, 5.8241, 0.4475, 0.1793, 71],
+                    [3.3546, 2.1761, 0.8998, 0.9073, -22],
+                    [4.2398, 3.2577, 0.2125, 0.9585, 0],
+                ],
+                [
+                    [4.3847, 3.5185, 0.8662, 0.4211, 16],
+                    [4.1687, 1.5195, 0.8487, 0.6323, 0],
+                    [1.774, 4.4959, 0.3691, 0.9224, 33],
+                    [2.5943, 4.0875, 0.4397, 0.8348, 35],
+                    [3.4284, 1.5503, 0.3808, 0.5321, 80],
+                    [5.302, 2.0494, 0.3461, 0.3002, 0],
+                    [2.2266, 3.4277, 0.4419, 0.4069, 41],
+                ],
+                [
+                    [4.4801, 1.5028, 0.8476, 0.7081, 0],
+                    [1.914, 4.0845, 0.8422, 0.6762, 4],
+                    [3.9365, 1.7551, 0.7071, 0.7204, 92],
+                    [4.3053, 2.3759, 0.9072, 0.2617, -59],
+                    [0.7804, 2.2416, 0.8249, 0.9315, 56],
+                    [4.3513, 2.9064, 0.8636, 0.4607, -14],
+                    [3.718, 1.1462, 0.9977, 0.9113, 111],
+                ],
+            ],
+            [
+                [
+                    [3.7383, 2.7566, 0.6177, 0.736, 0],
+                    [3.3499, 1.9211, 0.5601, 0.6801, -47],
+                    [3.5184, 1.6658, 0.5012, 0.9752, -7],
+                    [2.2446, 0.6337, 0.3148, 0.9472, -52],
+                    [5.7901, 3.166, 0.2512, 0.7396, -53],
+                    [2.0434, 3.147, 0.7231, 0.4658, 28],
+                    [1.6805, 2.9553, 0.984, 0.6793, -79],
+                ],
+                [
+                    [2.0708, 3.7693, 0.8454, 0.4072, 4],
+                    [4.2088, 3.9176, 0.8464, 0.6937, 16],
+                    [3.406, 1.8598, 0.6754, 0.5096, -45],
+                    [3.9386, 3.1729, 0.4282, 0.3583, -6],
+                    [3.0474, 1.1562, 0.7311, 0.2514, 53],
+                    [2.3187, 2.7238, 0.2649, 0.9066, 143],
+                    [3.8219, 2.8394, 0.5257, 0.6613, -23],
+                ],
+                [
+                    [1.4833, 3.7342, 0.3376, 0.6478, 31],
+                    [5.206, 2.648, 0.3712, 0.7426, -15],
+                    [4.6063, 3.5148, 0.5637, 0.6706, 58],
+                    [4.18, 2.0201, 0.999, 0.8816, 78],
+                    [2.6748, 3.6862, 0.4572, 0.3922, 4],
+                    [4.1274, 2.5599, 0.5004, 0.8077, 11],
+                    [3.5136, 2.9538, 0.8533, 0.8924, -35],
+                ],
+                [
+                    [2.5307, 3.8887, 0.7866, 0.4772, 11],
+                    [1.6068, 3.7867, 0.9586, 0.8913, 21],
+                    [3.3787, 1.9828, 0.5622, 0.6473, -22],
+                    [3.859, 0.7969, 0.9876, 0.1978, 44],
+                    [2.1369, 3.3892, 0.9107, 0.3711, -13],
+                    [3.5671, 2.3625, 0.8686, 0.8757, -58],
+                    [1.9352, 3.0135, 0.8778, 0.4965, -77],
+                ],
+                [
+                    [2.1681, 3.7994, 0.5228, 0.4814, 4],
+                    [3.121, 3.8964, 0.6637, 0.6582, 29],
+                    [3.3734, 2.2162, 0.6506, 0.917, -53],
+                    [4.2789, 1.61, 0.8327, 0.7281, 121],
+                    [2.7448, 5.1144, 0.6702, 0.1265, 16],
+                    [3.252, 2.3477, 0.8393, 0.5901, -44],
+                    [4.7876, 3.6157, 0.2513, 0.7632, 57],
+                ],
+            ],
+            [
+                [
+                    [2.9441, 3.6352, 0.5361, 0.4698, 14],
+                    [1.211, 2.5746, 0.2003, 0.6778, 42],
+                    [3.131, 1.8456, 0.6122, 0.8344, -9],
+                    [2.6285, 2.7364, 0.9866, 0.5553, 21],
+                    [3.6195, 1.9947, 0.9577, 0.3221, -27],
+                    [2.8219, 5.1245, 0.701, 0.0918, -20],
+                    [2.5348, 1.7546, 0.7136, 0.4368, 65],
+                ],
+                [
+                    [3.0347, 2.3262, 0.6612, 0.974, -3],
+                    [3.3538, 2.8626, 0.4926, 0.459, 6],
+                    [4.0774, 3.3479, 0.6126, 0.3557, 13],
+                    [3.6749, 5.6284, 0.993, 0.1244, -45],
+                    [3.2946, 4.6608, 0.7062, 0.0327, -77],
+                    [2.974, 3.6443, 0.5004, 0.6247, -4],
+                    [2.9571, 4.4297, 0.567, 0.1419, -42],
+                ],
+                [
+                    [2.9486, 2.3692, 0.6558, 0.9435, -12],
+                    [2.8396, 2.2239, 0.9052, 0.0901, -63],
+                    [2.9689, 1.6555, 0.8327, 0.4384, -44],
+                    [3.1889, 2.92, 0.6661, 0.2825, 14],
+                    [2.5636, 1.9492, 0.4551, 0.9286, 0],
+                    [1.0767, 2.667, 0.4666, 0.547, 34],
+                    [0.5457, 2.9645, 0.2563, 0.5838, -73],
+                ],
+                [
+                    [3.6969, 2.7065, 0.4818, 0.4275, 10],
+                    [2.733, 1.3211, 0.5957, 0.3886, -40],
+                    [2.8096, 2.3344, 0.6984, 0.8213, -21],
+                    [2.5152, 4.0324, 0.9085, 0.1945, -27],
+                    [2.6818, 1.083, 0.853, 0.3383, 57],
+                    [4.5507, 4.0319, 0.7242, 0.9659, 24],
+                    [2.1065, 2.9882, 0.7627, 0.5857, -27],
+                ],
+                [
+                    [2.7694, 2.0437, 0.5543, 0.895, 12],
+                    [2.9687, 1.272, 0.5932, 0.5081, -76],
+                    [5.0359, 2.7937, 0.3764, 0.7561, -71],
+                    [1.134, 3.6564, 0.0148, 0.8016, 57],
+                    [3.6116, 2.5737, 0.8177, 0.3734, 4],
+                    [2.6287, 1.9678, 0.7235, 0.5717, 80],
+                    [5.3808, 2.646, 0.3967, 0.5505, 45],
+                ],
+            ],
+            [
+                [
+                    [0.7633, 6.1682, 0.4265, 0.5111, -2],
+                    [6.1305, 0.907, 0.3499, 0.5757, 24],
+                    [1.3496, 0.7228, 0.8795, 0.5913, 12],
+                    [1.2044, 6.0774, 0.6587, 0.5229, 4],
+                    [0.815, 0.1737, 0.7277, 0.2334, -10],
+                    [5.9387, 0.3258, 0.6235, 0.7567, -9],
+                    [1.3509, 0.186, 0.5208, 0.4498, 62],
+                ],
+                [
+                    [0.8423, 1.4588, 0.5852, 0.9608, -20],
+                    [1.3561, 6.0309, 0.5568, 0.2881, 2],
+                    [0.6495, 6.0229, 0.3063, 0.3223, -7],
+                    [1.4473, 0.0773, 0.4131, 0.278, -12],
+                    [0.4571, 1.9419, 0.5334, 0.1105, -82],
+                    [6.1411, 0.7621, 0.6305, 0.5058, 27],
+                    [0.7893, 5.8935, 0.5416, 0.5825, -17],
+                ],
+                [
+                    [0.7155, 5.8748, 0.7831, 0.2368, 5],
+                    [0.6883, 6.1175, 0.6402, 0.6157, -23],
+                    [1.3748, 0.96, 0.8609, 0.4567, -6],
+                    [0.819, 6.1455, 0.635, 0.3994, -39],
+                    [1.4814, 1.0209, 0.7977, 0.6202, 7],
+                    [5.712, 0.9994, 0.6102, 0.2873, 0],
+                    [0.8374, 1.338, 0.4633, 0.7656, -37],
+                ],
+                [
+                    [1.1955, 1.1709, 0.4216, 0.9592, -37],
+                    [6.0315, 0.761, 0.3232, 0.6175, -7],
+                    [5.8258, 0.8312, 0.2497, 0.4107, 13],
+                    [0.0291, 4.6402, 0.3213, 0.3916, -26],
+                    [0.1321, 6.1808, 0.2433, 0.905, -11],
+                    [5.9584, 0.5339, 0.6747, 0.3713, 34],
+                    [0.9455, 1.2872, 0.5604, 0.9464, -24],
+                ],
+                [
+                    [1.0539, 0.8685, 0.9808, 0.5328, 20],
+                    [1.0045, 6.0142, 0.3688, 0.3259, -21],
+                    [6.1207, 1.1605, 0.5307, 0.5951, 3],
+                    [0.0115, 6.0968, 0.4581, 0.9955, -32],
+                    [0.3413, 5.6035, 0.6461, 0.4566, -7],
+                    [5.6891, 5.4786, 0.6899, 0.1993, 26],
+                    [6.2047, 0.046, 0.3129, 0.9531, 7],
+                ],
+            ],
+            [
+                [
+                    [1.5022, 6.0344, 0.6654, 0.2122, 6],
+                    [1.8264, 0.1896, 0.4781, 0.3416, -9],
+                    [1.7677, 0.9173, 0.5045, 0.8925, -15],
+                    [1.221, 0.6032, 0.7006, 0.3582, -28],
+                    [1.3951, 0.6764, 0.6906, 0.2038, 0],
+                    [0.3938, 5.7592, 0.7826, 0.564, 28],
+                    [0.4854, 1.3746, 0.4481, 0.2894, -3],
+                ],
+                [
+                    [0.7389, 1.4294, 0.4536, 0.4244, 15],
+                    [5.6042, 1.3907, 0.1333, 0.701, -2],
+                    [2.3172, 2.0105, 0.0157, 0.5213, 19],
+                    [1.5628, 0.0408, 0.3563, 0.35, -6],
+                    [1.0345, 1.5662, 0.1072, 0.6589, -13],
+                    [1.0871, 1.147, 0.5938, 0.2318, 20],
+                    [0.3334, 0.8536, 0.689, 0.3605, 3],
+                ],
+                [
+                    [0.6686, 1.303, 0.065, 0.648, 24],
+                    [0.6799, 1.4691, 0.209, 0.4963, -20],
+                    [1.6276, 0.9188, 0.6659, 0.7293, -1],
+                    [2.5355, 0.6358, 0.2274, 0.4252, -56],
+                    [6.2052, 0.0897, 0.7052, 0.294, 5],
+                    [0.16, 1.4542, 0.6858, 0.1393, -62],
+                    [6.1857, 1.318, 0.415, 0.5898, -11],
+                ],
+                [
+                    [5.8384, 5.4111, 0.2627, 0.5446, -20],
+                    [5.5341, 1.6867, 0.4697, 0.5408, 45],
+                    [1.7596, 6.2415, 0.6349, 0.2466, 9],
+                    [6.1463, 1.0603, 0.3714, 0.5329, -3],
+                    [2.2847, 0.6165, 0.5719, 0.2771, 47],
+                    [0.0951, 0.3968, 0.5169, 0.3546, 16],
+                    [1.3665, 1.537, 0.5716, 0.9809, -15],
+                ],
+                [
+                    [0.0053, 1.3083, 0.3187, 0.4302, 39],
+                    [0.903, 1.288, 0.8276, 0.5736, 18],
+                    [1.8373, 6.2157, 0.6662, 0.1452, -25],
+                    [1.5919, 1.6571, 0.5762, 0.874, -10],
+                    [0.5549, 1.2298, 0.5754, 0.5987, 9],
+                    [1.3323, 1.4833, 0.1589, 0.5753, 104],
+                    [6.1719, 0.7491, 0.7125, 0.4493, 14],
+                ],
+            ],
+            [
+                [
+                    [4.1328, 2.4164, 0.0647, 0.4332, -3],
+                    [1.3833, 2.0694, 0.9167, 0.5135, -15],
+                    [2.4699, 2.4074, 0.6949, 0.1603, 19],
+                    [5.496, 3.3889, 0.1829, 0.495, 8],
+                    [5.3973, 3.329, 0.4575, 0.2605, 43],
+                    [0.7155, 3.1631, 0.7265, 0.304, -5],
+                    [3.4266, 2.1894, 0.2496, 0.5456, 15],
+                ],
+                [
+                    [5.4514, 2.259, 0.0826, 0.5453, 28],
+                    [1.8919, 1.5174, 0.4254, 0.8647, -12],
+                    [2.3551, 3.5202, 0.6804, 0.1692, 0],
+                    [2.3892, 3.5017, 0.7782, 0.33, 6],
+                    [2.4372, 2.6566, 0.0751, 0.2708, -10],
+                    [2.501, 0.54, 0.6499, 0.9343, 12],
+                    [6.1487, 0.4282, 0.434, 0.7505, 22],
+                ],
+                [
+                    [3.1607, 2.5849, 0.1133, 0.7719, -25],
+                    [5.767, 5.4014, 0.1773, 0.5354, -21],
+                    [3.0598, 2.3439, 0.2513, 0.5672, 14],
+                    [5.3879, 1.5407, 0.1369, 0.541, -37],
+                    [6.0022, 1.5235, 0.1727, 0.4618, 19],
+                    [0.046, 0.9785, 0.3377, 0.1495, 2],
+                    [2.4045, 0.5596, 0.1717, 0.3805, 14],
+                ],
+                [
+                    [3.2476, 1.4762, 0.1593, 0.4498, 2],
+                    [1.7609, 2.3541, 0.1132, 0.3772, 17],
+                    [2.3942, 2.3641, 0.6721, 0.063, -19],
+                    [0.005, 5.5338, 0.4456, 0.0499, -1],
+                    [6.0623, 5.5075, 0.34, 0.0333, 0],
+                    [1.3583, 0.5025, 0.377, 0.3891, 7],
+                    [3.6184, 6.1998, 0.1595, 0.3686, 12],
+                ],
+                [
+                    [3.8019, 1.6937, 0.2052, 0.6202, -16],
+                    [0.3211, 0.2766, 0.7592, 0.4708, -17],
+                    [2.4644, 0.5237, 0.6171, 0.8491, -4],
+                    [1.9163, 5.9113, 0.8128, 0.1672, 22],
+                    [5.2772, 0.0207, 0.4615, 0.4201, 11],
+                    [0.9705, 2.8073, 0.6223, 0.1452, 9],
+                    [1.5558, 3.9353, 0.6211, 0.0325, 2],
+                ],
+            ],
+            [
+                [
+                    [0.8641, 4.5602, 0.6302, 0.1347, 8],
+                    [3.2924, 1.6903, 0.3178, 0.1649, 8],
+                    [3.1831, 2.8779, 0.4297, 0.8065, -4],
+                    [1.1173, 6.262, 0.3974, 0.3184, -16],
+                    [2.7546, 2.8072, 0.4742, 0.8894, -2],
+                    [4.7157, 1.6528, 0.5417, 0.4322, -7],
+                    [4.8286, 3.7453, 0.1064, 0.4526, -17],
+                ],
+                [
+                    [0.9015, 5.6214, 0.6649, 0.2218, -15],
+                    [5.6542, 1.0971, 0.1174, 0.7344, 11],
+                    [1.187, 1.502, 0.4321, 0.1086, -3],
+                    [3.5762, 0.1635, 0.3854, 0.1024, 4],
+                    [0.396, 2.9129, 0.0906, 0.246, 6],
+                    [4.5868, 3.1948, 0.3127, 0.4217, 0],
+                    [2.9828, 1.5773, 0.4293, 0.7001, -21],
+                ],
+                [
+                    [0.8115, 1.2812, 0.5396, 0.8091, -13],
+                    [5.7776, 1.8897, 0.1495, 0.3597, 5],
+                    [1.7136, 6.2151, 0.4986, 0.1623, -10],
+                    [2.7938, 2.9515, 0.7576, 0.4239, -24],
+                    [3.1308, 2.8495, 0.2896, 0.9417, 11],
+                    [1.0023, 3.9017, 0.7553, 0.1371, -23],
+                    [1.3013, 2.881, 0.4051, 0.1226, -8],
+                ],
+                [
+                    [2.6405, 5.4631, 0.3779, 0.1082, 5],
+                    [1.4246, 6.2133, 0.2958, 0.3297, -2],
+                    [1.3722, 1.3717, 0.5372, 0.9943, -15],
+                    [1.0062, 2.7188, 0.5707, 0.8975, 10],
+                    [1.1642, 0.7091, 0.8946, 0.6506, 19],
+                    [1.6264, 1.5503, 0.5907, 0.2216, 37],
+                    [2.5828, 2.7146, 0.8187, 0.4901, -12],
+                ],
+                [
+                    [0.3681, 6.0504, 0.5947, 0.1031, -19],
+                    [1.8306, 5.6644, 0.5527, 0.0706, 12],
+                    [1.2197, 6.1176, 0.4772, 0.2969, -11],
+                    [1.2056, 2.9512, 0.6232, 0.3533, -5],
+                    [2.654, 2.721, 0.891, 0.3261, 25],
+                    [2.9676, 5.7215, 0.4159, 0.1785, 2],
+                    [0.0102, 2.9199, 0.4575, 0.0341, -10],
+                ],
+            ],
+            [
+                [
+                    [2.8134, 3.1149, 0.7706, 0.2146, -47],
+                    [1.8623, 1.5357, 0.5957, 0.9828, -29],
+                    [1.3928, 2.3371, 0.4128, 0.1838, 0],
+                    [2.5333, 1.5063, 0.3652, 0.6085, 41],
+                    [3.0978, 1.7803, 0.1556, 0.5253, 25],
+                    [3.718, 1.4587, 0.0918, 0.478, 23],
+                    [1.5546, 1.7628, 0.5122, 0.9695, 0],
+                ],
+                [
+                    [2.4218, 1.7464, 0.4722, 0.4899, 16],
+                    [2.9657, 1.6709, 0.2483, 0.6859, -6],
+                    [2.6488, 2.0116, 0.2191, 0.5599, 7],
+                    [2.4167, 1.8219, 0.8465, 0.4482, 0],
+                    [2.3824, 1.7489, 0.2951, 0.5177, 8],
+                    [2.7351, 2.8395, 0.3172, 0.5371, -2],
+                    [2.5443, 2.9031, 0.1922, 0.7488, 9],
+                ],
+                [
+                    [3.3003, 0.9902, 0.2615, 0.3858, -18],
+                    [3.6258, 2.79, 0.5686, 0.4152, 4],
+                    [1.9818, 1.6547, 0.8324, 0.6043, 16],
+                    [1.8828, 1.474, 0.4516, 0.9509, -88],
+                    [1.4894, 1.3456, 0.4166, 0.8285, -15],
+                    [1.7844, 3.4928, 0.5176, 0.0261, -4],
+                    [2.695, 1.3785, 0.0529, 0.7509, -15],
+                ],
+                [
+                    [1.5077, 1.3481, 0.556, 0.9799, -20],
+                    [1.4984, 1.8652, 0.7403, 0.1354, 6],
+                    [3.9714, 3.506, 0.1479, 0.871, -33],
+                    [1.2136, 3.1376, 0.7326, 0.2318, -17],
+                    [4.0867, 3.5897, 0.3836, 0.0833, 24],
+                    [1.7573, 2.9505, 0.3319, 0.1711, -9],
+                    [2.3951, 2.8921, 0.3169, 0.7966, 0],
+                ],
+                [
+                    [2.8333, 1.4589, 0.2063, 0.4761, 22],
+                    [3.2421, 4.2155, 0.3086, 0.4062, -15],
+                    [2.337, 1.7055, 0.3384, 0.5774, 21],
+                    [1.2523, 5.028, 0.5205, 0.234, -10],
+                    [2.6661, 2.6406, 0.7595, 0.427, 4],
+                    [2.1324, 2.9251, 0.5671, 0.7528, 0],
+                    [2.4136, 2.5353, 0.9447, 0.1684, 16],
+                ],
+            ],
+            [
+                [
+                    [2.7809, 3.2099, 0.7448, 0.5528, -15],
+                    [3.4283, 3, 0.9311, 0.3448, 23],
+                    [1.9137, 2.0982, 0.9514, 0.4052, 3],
+                    [3.2606, 2.4289, 0.2583, 0.7053, -15],
+                    [3.3169, 1.9842, 0.5213, 0.674, -25],
+                    [3.2158, 2.507, 0.7542, 0.5687, 5],
+                    [2.124, 1.8109, 0.4743, 0.9059, -14],
+                ],
+                [
+                    [1.9138, 2.2679, 0.8487, 0.501, 26],
+                    [3.2884, 2.3506, 0.5474, 0.7981, -7],
+                    [3.059, 2.1621, 0.518, 0.5759, 29],
+                    [3.4683, 1.7924, 0.538, 0.4991, -14],
+                    [3.2837, 2.488, 0.3988, 0.9575, -8],
+                    [3.0196, 3.3348, 0.8961, 0.4678, -10],
+                    [2.3062, 2.4153, 0.1208, 0.9601, -28],
+                ],
+                [
+                    [3.6819, 2.1218, 0.2848, 0.5154, -6],
+                    [3.0293, 2.4001, 0.3297, 0.2595, -18],
+                    [2.3731, 3.2454, 0.7408, 0.3706, -20],
+                    [3.6101, 3.7505, 0.919, 0.4888, 25],
+                    [1.9753, 3.3211, 0.3273, 0.6384, -3],
+                    [2.0077, 3.5212, 0.7477, 0.3316, -24],
+                    [2.4916, 2.8033, 0.4753, 0.5724, -8],
+                ],
+                [
+                    [3.3181, 2.5368, 0.5129, 0.4943, 27],
+                    [2.0543, 3.4678, 0.3613, 0.5541, -21],
+                    [2.3875, 2.7506, 0.543, 0.2842, 10],
+                    [3.4634, 2.1041, 0.341, 0.6945, 13],
+                    [1.7358, 3.7133, 0.8427, 0.8643, 2],
+                    [3.2162, 2.9501, 0.9704, 0.6143, -5],
+                    [2.0848, 1.8477, 0.3632, 0.7651, -23],
+                ],
+                [
+                    [1.9952, 1.8825, 0.5846, 0.9703, -28],
+                    [2.5773, 2.1292, 0.2389, 0.5528, 56],
+                    [1.6146, 3.3282, 0.329, 0.5739, 5],
+                    [3.3425, 1.8375, 0.4149, 0.5851, -16],
+                    [2.679, 3.1286, 0.9537, 0.7053, -46],
+                    [3.8437, 2.2869, 0.0705, 0.5635, 35],
+                    [2.3259, 1.8851, 0.5581, 0.7859, -24],
+                ],
+            ],
+            [
+                [
+                    [2.8815, 4.0675, 0.6254, 0.1869, -23],
+                    [2.4233, 2.0895, 0.5311, 0.8871, -10],
+                    [0.7381, 5.4993, 0.4284, 0.4853, -3],
+                    [5.1664, 0.9199, 0.3157, 0.4685, 2],
+                    [3.6191, 4.7826, 0.2647, 0.1782, -7],
+                    [2.9636, 0.2472, 0.1351, 0.2962, 10],
+                    [3.2677, 5.2575, 0.2559, 0.3308, -28],
+                ],
+                [
+                    [2.8872, 3.4182, 0.1917, 0.7331, -25],
+                    [4.2813, 0.6431, 0.295, 0.477, 11],
+                    [1.8454, 2.6158, 0.6967, 0.3864, 5],
+                    [0.2697, 2.0702, 0.725, 0.556, -40],
+                    [2.367, 5.4615, 0.6348, 0.304, 31],
+                    [0.2876, 3.1749, 0.2074, 0.1631, -27],
+                    [5.323, 0.3946, 0.3922, 0.5638, 20],
+                ],
+                [
+                    [5.3263, 2.8431, 0.3926, 0.2748, 32],
+                    [1.595, 1.8351, 0.7025, 0.2633, 12],
+                    [5.2277, 3.1599, 0.3679, 0.6108, 46],
+                    [3.3424, 3.347, 0.2418, 0.5907, 26],
+                    [2.9588, 2.7906, 0.6906, 0.3341, 29],
+                    [3.0829, 0.1479, 0.4534, 0.8076, -69],
+                    [2.3992, 3.8298, 0.5255, 0.2084, 1],
+                ],
+                [
+                    [4.1926, 2.9024, 0.1987, 0.6916, -6],
+                    [2.6321, 5.774, 0.3537, 0.39, -22],
+                    [0.3514, 1.9341, 0.5217, 0.7698, -37],
+                    [0.4132, 3.2794, 0.7579, 0.451, 12],
+                    [5.9066, 2.4722, 0.2384, 0.1308, -12],
+                    [0.846, 5.7135, 0.5392, 0.4629, 3],
+                    [0.3525, 5.0193, 0.4765, 0.3765, 2],
+                ],
+                [
+                    [2.7895, 5.5906, 0.2952, 0.5122, -19],
+                    [3.8671, 3.2415, 0.0961, 0.5732, -2],
+                    [2.3387, 4.7073, 0.3784, 0.3254, -8],
+                    [2.981, 2.7765, 0.7126, 0.1993, 12],
+                    [1.4289, 0.5722, 0.6112, 0.6171, 9],
+                    [3.6042, 0.3676, 0.3939, 0.4773, -8],
+                    [3.3412, 2.7695, 0.2217, 0.4237, -21],
+                ],
+            ],
+            [
+                [
+                    [4.5214, 1.9994, 0.4865, 0.917, 20],
+                    [2.1634, 5.0888, 0.1954, 0.2707, -6],
+                    [4.4084, 4.4534, 0.9727, 0.5271, 4],
+                    [5.2809, 0.9337, 0.824, 0.5781, -28],
+                    [6.0543, 0.5896, 0.5983, 0.804, -15],
+                    [5.3426, 0.7813, 0.6283, 0.2063, -34],
+                    [1.966, 5.4472, 0.9927, 0.7138, -84],
+                ],
+                [
+                    [4.3794, 0.9764, 0.3876, 0.263, 0],
+                    [0.3018, 1.8535, 0.7294, 0.3768, 41],
+                    [4.6616, 3.0278, 0.5494, 0.313, -19],
+                    [4.8226, 5.754, 0.7414, 0.6672, 5],
+                    [5.8132, 0.6172, 0.4709, 0.6357, -9],
+                    [0.0283, 5.3687, 0.5322, 0.5755, 17],
+                    [5.2926, 1.2732, 0.7334, 0.6171, 0],
+                ],
+                [
+                    [2.0022, 4.6469, 0.8932, 0.4899, 4],
+                    [2.1497, 4.726, 0.1991, 0.4463, 11],
+                    [4.8286, 5.6171, 0.5309, 0.6313, -22],
+                    [4.7459, 0.3866, 0.1339, 0.324, 25],
+                    [1.7218, 1.9895, 0.4501, 0.8735, 34],
+                    [2.7609, 0.5651, 0.2066, 0.8835, 4],
+                    [4.9929, 1.1816, 0.4406, 0.4138, 15],
+                ],
+                [
+                    [3.7032, 4.4602, 0.176, 0.3808, 20],
+                    [4.5429, 1.8588, 0.543, 0.1976, 0],
+                    [1.6782, 0.3143, 0.4829, 0.6656, -24],
+                    [0.7487, 2.1357, 0.5757, 0.3484, -11],
+                    [1.8638, 0.7543, 0.9654, 0.4242, 10],
+                    [4.5563, 4.6401, 0.8716, 0.3797, 21],
+                    [1.7542, 4.6629, 0.2686, 0.2689, -7],
+                ],
+                [
+                    [4.2385, 0.3973, 0.4717, 0.2064, -20],
+                    [5.863, 4.6006, 0.8675, 0.4194, 10],
+                    [4.5456, 2.424, 0.5432, 0.2524, 4],
+                    [0.02, 1.8451, 0.713, 0.2851, 22],
+                    [1.615, 0.6428, 0.5098, 0.8336, -18],
+                    [4.3423, 0.4912, 0.8906, 0.4491, -12],
+                    [5.5454, 0.2645, 0.5484, 0.1878, 0],
+                ],
+            ],
+            [
+                [
+                    [2.7924, 4.0497, 0.6086, 0.6225, 3],
+                    [4.506, 5.4733, 0.7787, 0.583, -40],
+                    [1.0754, 2.3392, 0.8558, 0.2622, -9],
+                    [1.6271, 0.5034, 0.4527, 0.6647, -4],
+                    [5.0751, 0.3015, 0.5606, 0.668, -6],
+                    [2.0486, 0.3597, 0.8087, 0.344, -4],
+                    [1.2186, 1.7674, 0.5539, 0.923, -28],
+                ],
+                [
+                    [2.2083, 1.1097, 0.8333, 0.3849, 12],
+                    [4.0287, 5.3691, 0.6575, 0.5219, -13],
+                    [4.3946, 2.1118, 0.5313, 0.6704, -11],
+                    [1.9586, 1.4063, 0.3076, 0.946, 0],
+                    [1.7371, 2.833, 0.7233, 0.5042, -31],
+                    [1.7978, 0.3979, 0.5582, 0.5133, 19],
+                    [1.2868, 4.0141, 0.1234, 0.6403, 10],
+                ],
+                [
+                    [2.7086, 4.346, 0.3829, 0.8157, 21],
+                    [5.1416, 1.0374, 0.6749, 0.9223, -16],
+                    [0.6264, 1.9234, 0.4429, 0.6501, 6],
+                    [1.4187, 2.1694, 0.6344, 0.9964, -10],
+                    [4.1318, 4.1736, 0.5747, 0.0521, -5],
+                    [3.3201, 4.6188, 0.6664, 0.7209, 14],
+                    [0.2022, 4.9622, 0.6123, 0.3391, -4],
+                ],
+                [
+                    [4.1249, 2.2472, 0.59, 0.9962, 10],
+                    [4.1751, 1.9172, 0.4678, 0.5539, -13],
+                    [0.0208, 5.3184, 0.2639, 0.5758, -8],
+                    [1.0086, 2.1633, 0.7587, 0.434, 16],
+                    [5.0777, 1.3986, 0.6903, 0.7748, 20],
+                    [2.6201, 4.4304, 0.3665, 0.9049, 18],
+                    [4.46, 2.847, 0.687, 0.5109, 22],
+                ],
+                [
+                    [4.2549, 2.2208, 0.4884, 0.8274, -5],
+                    [0.3799, 5.5816, 0.64, 0.6546, 11],
+                    [5.2844, 4.5431, 0.5347, 0.7643, 3],
+                    [1.5391, 0.4996, 0.7074, 0.5472, 12],
+                    [2.4031, 5.5346, 0.5538, 0.8848, 0],
+                    [3.3585, 4.064, 0.702, 0.5307, 7],
+                    [4.354, 3.4543, 0.5696, 0.4402, -4],
+                ],
+            ],
+            [
+                [
+                    [4.8624, 0.7209, 0.3962, 0.4693, 2],
+                    [3.9946, 2.5404, 0.7153, 0.5185, -11],
+                    [3.8448, 4.8864, 0.546, 0.5706, 15],
+                    [1.4293, 5.1596, 0.4385, 0.2353, -9],
+                    [2.4758, 4.9687, 0.2685, 0.4319, 8],
+                    [2.8819, 3.9672, 0.1679, 0.587, 5],
+                    [2.6933, 4.1798, 0.6344, 0.6852, 17],
+                ],
+                [
+                    [1.3155, 2.4866, 0.5887, 0.5402, -1],
+                    [4.8469, 4.9676, 0.5314, 0.9356, 11],
+                    [1.3774, 5.1887, 0.5137, 0.4531, 29],
+                    [3.724, 3.1898, 0.6189, 0.311, -12],
+                    [4.0053, 2.4417, 0.3422, 0.3568, 12],
+                    [3.5931, 2.7729, 0.7872, 0.3583, -4],
+                    [2.5433, 3.807, 0.5218, 0.8374, 14],
+                ],
+                [
+                    [3.6837, 2.8915, 0.5864, 0.5474, -14],
+                    [5.1615, 4.9903, 0.7634, 0.4762, -2],
+                    [4.9425, 0.8697, 0.4413, 0.0761, -4],
+                    [2.4966, 0.6801, 0.6345, 0.3793, -18],
+                    [4.9781, 5.2484, 0.506, 0.7609, -12],
+                    [2.3739, 1.9452, 0.8588, 0.3877, 13],
+                    [2.1288, 4.0355, 0.6559, 0.7088, -7],
+                ],
+                [
+                    [5.0934, 4.8923, 0.7888, 0.5677, 18],
+                    [4.1158, 2.6637, 0.5854, 0.3727, -43],
+                    [3.7648, 4.5917, 0.5616, 0.4743, 24],
+                    [4.8608, 5.7858, 0.9793, 0.651, -20],
+                    [5.0266, 1.7383, 0.2976, 0.2086, -6],
+                    [3.0661, 3.6932, 0.8356, 0.6697, 6],
+                    [2.7013, 3.8015, 0.7016, 0.4281, -3],
+                ],
+                [
+                    [2.9707, 4.2291, 0.6816, 0.5654, 3],
+                    [5.0164, 1.3863, 0.4335, 0.5428, 18],
+                    [5.0074, 4.1741, 0.4463, 0.5293, -5],
+                    [4.776, 3.5776, 0.5003, 0.7936, -30],
+                    [5.1048, 6.2646, 0.5514, 0.0759, -15],
+                    [4.8988, 4.2367, 0.419, 0.5534, -6],
+                    [0.8048, 2.5298, 0.4764, 0.4503, 0],
+                ],
+            ],
+            [
+                [
+                    [1.4796, 4.8671, 0.1669, 0.2118, 11],
+                    [0.6916, 5.1492, 0.5025, 0.3715, -7],
+                    [0.5881, 1.9055, 0.1518, 0.528, -57],
+                    [0.9543, 6.2481, 0.3478, 0.2033, 21],
+                    [0.3112, 1.0279, 0.8931, 0.2072, 11],
+                    [4.7, 5.1133, 0.3565, 0.7486, 8],
+                    [0.2434, 5.6556, 0.2708, 0.3812, -30],
+                ],
+                [
+                    [4.6995, 0.7223, 0.4113, 0.3243, 26],
+                    [5.9808, 0.0765, 0.3793, 0.0948, 10],
+                    [5.6735, 0.4483, 0.3359, 0.5593, 13],
+                    [0.8186, 1.3837, 0.2228, 0.7355, -14],
+                    [1.3784, 0.8768, 0.9302, 0.3377, -21],
+                    [5.5089, 2.3456, 0.4277, 0.3386, 9],
+                    [3.5257, 0.8643, 0.1973, 0.3537, 8],
+                ],
+                [
+                    [1.8965, 5.5912, 0.1546, 0.6254, -16],
+                    [1.2891, 0.8019, 0.7642, 0.3908, 42],
+                    [0.3102, 5.3989, 0.1571, 0.5547, 2],
+                    [1.1945, 5.5386, 0.1614, 0.2606, -29],
+                    [1.979, 3.027, 0.3808, 0.2403, 8],
+                    [4.2467, 0.4334, 0.1956, 0.304, 7],
+                    [5.5634, 0.8479, 0.965, 0.9257, -42],
+                ],
+                [
+                    [0.582, 4.9795, 0.2237, 0.3723, -12],
+                    [0.494, 5.6527, 0.386, 0.3644, -22],
+                    [1.2181, 1.4211, 0.1926, 0.7389, -23],
+                    [0.2513, 0.1736, 0.4603, 0.8037, 12],
+                    [0.8123, 4.9612, 0.1688, 0.288, -8],
+                    [4.0615, 5.238, 0.07, 0.7203, -31],
+                    [0.0829, 0.0466, 0.4031, 0.7799, 1],
+                ],
+                [
+                    [0.9463, 0.1851, 0.2712, 0.6121, -18],
+                    [1.3707, 1.0985, 0.7843, 0.2823, 27],
+                    [0.7188, 5.4722, 0.3692, 0.6224, -14],
+                    [1.1259, 2.3008, 0.8058, 0.2085, -11],
+                    [0.4397, 5.5657, 0.5055, 0.2748, 0],
+                    [4.7038, 1.4916, 0.2542, 0.2462, 42],
+                    [6.2477, 0.3492, 0.7356, 0.175, 0],
+                ],
+            ],
+            [
+                [
+                    [6.0483, 1.1657, 0.5362, 0.3196, 16],
+                    [1.744, 5.1738, 0.255, 0.3901, -36],
+                    [5.41, 1.5274, 0.242, 0.2924, 10],
+                    [1.3926, 0.1121, 0.3629, 0.2329, 21],
+                    [1.5043, 0.8469, 0.644, 0.2565, 0],
+                    [1.6149, 5.812, 0.2113, 0.1154, -10],
+                    [5.1672, 0.879, 0.0335, 0.3363, 34],
+                ],
+                [
+                    [1.0886, 5.011, 0.4105, 0.3032, -26],
+                    [1.5046, 4.2726, 0.2487, 0.1277, 15],
+                    [1.2815, 1.2509, 0.3303, 0.5234, -12],
+                    [0.0023, 0.1194, 0.5682, 0.2803, 0],
+                    [3.6007, 5.5953, 0.2691, 0.8525, -18],
+                    [5.2025, 4.3607, 0.6278, 0.2685, 12],
+                    [2.1205, 5.3409, 0.14, 0.4094, -38],
+                ],
+                [
+                    [0.8895, 1.0975, 0.2438, 0.8035, -27],
+                    [5.1843, 1.6026, 0.28, 0.5516, 9],
+                    [5.2087, 1.0618, 0.4511, 0.3254, 16],
+                    [0.7053, 5.3182, 0.52, 0.3094, 9],
+                    [1.6215, 1.0087, 0.2249, 0.3835, -3],
+                    [2.9675, 5.7632, 0.2916, 0.2853, 21],
+                    [1.9219, 5.6181, 0.1967, 0.3845, -20],
+                ],
+                [
+                    [4.4936, 0.9742, 0.233, 0.3718, -9],
+                    [1.6028, 6.2092, 0.1755, 0.4285, -20],
+                    [1.7108, 5.8689, 0.4329, 0.2777, -13],
+                    [4.816, 1.543, 0.6346, 0.9388, -63],
+                    [5.6025, 1.0795, 0.5849, 0.2515, 5],
+                    [1.4653, 1.3918, 0.3742, 0.9146, -7],
+                    [1.0631, 4.6443, 0.3287, 0.2971, 7],
+                ],
+                [
+                    [0.4492, 1.3401, 0.9721, 0.2731, 49],
+                    [5.9191, 0.8837, 0.1944, 0.3069, 10],
+                    [1.3646, 1.124, 0.7936, 0.4217, 25],
+                    [5.021, 1.507, 0.3845, 0.1364, 27],
+                    [0.9722, 3.2364, 0.5816, 0.2005, 3],
+                    [5.6523, 1.1722, 0.2417, 0.2412, 26],
+                    [6.1138, 0.9501, 0.5423, 0.3815, 30],
+                ],
+            ],
+            [
+                [
+                    [4.9185, 2.1458, 0.3193, 0.1242, 9],
+                    [4.5117, 4.7733, 0.2278, 0.7284, -29],
+                    [1.2714, 3.8009, 0.3736, 0.1546, -11],
+                    [1.3089, 1.319, 0.1085, 0.5334, -42],
+                    [1.2906, 3.5696, 0.9659, 0.486, 76],
+                    [5.8945, 0.2869, 0.4664, 0.9646, -38],
+                    [2.1902, 5.9701, 0.2728, 0.1954, 9],
+                ],
+                [
+                    [1.2107, 4.9449, 0.3879, 0.2131, 1],
+                    [1.2367, 1.5323, 0.6907, 0.4035, 25],
+                    [2.8637, 1.6719, 0.2365, 0.7426, -42],
+                    [1.8677, 1.846, 0.2953, 0.7217, -6],
+                    [2.4228, 0.266, 0.4334, 0.2214, 17],
+                    [4.4725, 4.8627, 0.3225, 0.5679, -11],
+                    [1.5289, 1.0974, 0.1734, 0.8578, -32],
+                ],
+                [
+                    [2.2376, 4.5888, 0.3311, 0.1498, -22],
+                    [1.7486, 5.6293, 0.3769, 0.3029, -31],
+                    [1.6453, 0.3214, 0.2082, 0.3781, -23],
+                    [0.7091, 0.0796, 0.3158, 0.4065, -16],
+                    [2.3332, 0.7731, 0.3569, 0.2742, 15],
+                    [5.4089, 4.1983, 0.5952, 0.334, 48],
+                    [2.9972, 5.1726, 0.3791, 0.4052, -7],
+                ],
+                [
+                    [1.6473, 4.1432, 0.3798, 0.3658, -8],
+                    [5.0393, 2.7151, 0.2231, 0.549, 0],
+                    [2.3194, 5.5173, 0.2619, 0.2355, -27],
+                    [1.604, 2.1028, 0.7166, 0.3719, 7],
+                    [2.2479, 1.3377, 0.3796, 0.8673, -21],
+                    [4.4891, 5.484, 0.544, 0.4146, -16],
+                    [1.6039, 2.1642, 0.7399, 0.2745, 31],
+                ],
+                [
+                    [1.9939, 1.0615, 0.316, 0.7938, -14],
+                    [5.9084, 0.8327, 0.1439, 0.3827, -4],
+                    [0.606, 1.5801, 0.1289, 0.8258, -20],
+                    [1.4786, 1.3596, 0.2653, 0.6853, -40],
+                    [3.4467, 1.8396, 0.3686, 0.3207, 50],
+                    [1.8937, 0.2103, 0.3223, 0.2382, 21],
+                    [5.4313, 6.1907, 0.2929, 0.4903, 10],
+                ],
+            ],
+            [
+                [
+                    [2.1181, 3.905, 0.1263, 0.2968, 21],
+                    [1.8148, 5.4504, 0.2627, 0.6067, -23],
+                    [6.0684, 2.9634, 0.8684, 0.2431, -4],
+                    [0.1492, 0.9309, 0.6333, 0.105, -5],
+                    [4.0219, 2.6888, 0.3346, 0.285, 25],
+                    [6.0879, 5.6424, 0.426, 0.203, -10],
+                    [1.4318, 2.8428, 0.5422, 0.2811, 45],
+                ],
+                [
+                    [1.6304, 1.9873, 0.6345, 0.1779, 12],
+                    [2.863, 1.2585, 0.2107, 0.7072, -21],
+                    [2.0458, 5.393, 0.454, 0.2141, 7],
+                    [6.123, 0.2998, 0.4689, 0.1996, -2],
+                    [5.5166, 5.636, 0.2226, 0.4546, -16],
+                    [2.004, 1.3908, 0.4723, 0.8468, 0],
+                    [1.5725, 4.346, 0.1353, 0.3907, -16],
+                ],
+                [
+                    [4.354, 1.7294, 0.2496, 0.2858, -23],
+                    [1.5469, 2.0249, 0.3962, 0.1422, 26],
+                    [1.1076, 2.3539, 0.8889, 0.2313, 16],
+                    [3.2349, 4.4555, 0.2115, 0.305, -7],
+                    [3.0857, 2.0943, 0.5192, 0.1596, 93],
+                    [3.8385, 5.2257, 0.5548, 0.1798, 20],
+                    [2.3711, 0.7782, 0.3558, 0.243, -1],
+                ],
+                [
+                    [0.9603, 2.2467, 0.8423, 0.2043, 42],
+                    [3.8406, 2.8526, 0.3137, 0.2934, -22],
+                    [5.9878, 5.7699, 0.4442, 0.2136, -5],
+                    [1.4998, 0.6312, 0.6024, 0.0619, 44],
+                    [1.0905, 1.9174, 0.6841, 0.2781, 20],
+                    [2.1838, 4.2952, 0.5259, 0.341, 13],
+                    [1.6614, 3.7144, 0.1907, 0.1675, -20],
+                ],
+                [
+                    [1.5286, 1.424, 0.1927, 0.6086, -17],
+                    [4.9299, 2.4288, 0.2806, 0.3765, 17],
+                    [2.9138, 4.9748, 0.2545, 0.3331, -13],
+                    [1.9257, 3.2553, 0.2349, 0.3296, 18],
+                    [1.4073, 0.5658, 0.2494, 0.587, -23],
+                    [3.9917, 2.5058, 0.2097, 0.2688, 4],
+                    [6.0511, 1.6682, 0.4983, 0.0816, -32],
+                ],
+            ],
+            [
+                [
+                    [0.8142, 4.8971, 0.484, 0.3466, 7],
+                    [0.9496, 5.3239, 0.4508, 0.3745, 6],
+                    [4.2126, 0.3338, 0.1196, 0.1568, -5],
+                    [2.118, 2.0785, 0.8162, 0.3825, -12],
+                    [1.2098, 1.8915, 0.1321, 0.6572, -14],
+                    [4.429, 2.4391, 0.5017, 0.1021, 18],
+                    [1.8782, 1.5622, 0.1248, 0.8668, -15],
+                ],
+                [
+                    [4.6329, 0.5345, 0.3319, 0.1131, 18],
+                    [5.5048, 0.9111, 0.2545, 0.0904, -10],
+                    [5.9884, 0.8333, 0.3604, 0.2319, 13],
+                    [0.1048, 1.9082, 0.3577, 0.556, -8],
+                    [4.7337, 3.4189, 0.3706, 0.5458, 15],
+                    [0.1921, 1.3606, 0.4513, 0.1238, 9],
+                    [6.1231, 1.6906, 0.4099, 0.3399, 16],
+                ],
+                [
+                    [1.8645, 4.1031, 0.1633, 0.1391, -8],
+                    [4.5718, 1.1282, 0.3056, 0.3655, 23],
+                    [4.807, 1.358, 0.4368, 0.1783, 30],
+                    [1.7689, 1.0566, 0.6002, 0.2348, 23],
+                    [1.7359, 6.2226, 0.2441, 0.2129, 19],
+                    [3.979, 0.4901, 0.3508, 0.2309, 10],
+                    [1.1054, 4.0167, 0.2922, 0.0438, 41],
+                ],
+                [
+                    [3.8683, 0.8755, 0.1495, 0.1226, 11],
+                    [3.7392, 2.992, 0.1613, 0.364, -12],
+                    [5.9781, 0.5658, 0.1945, 0.2811, -4],
+                    [6.0748, 4.4618, 0.4133, 0.1713, 30],
+                    [1.13, 1.1463, 0.8135, 0.2308, -1],
+                    [1.3644, 1.6843, 0.9621, 0.2136, 40],
+                    [1.2636, 3, 0.1647, 0.404, -16],
+                ],
+                [
+                    [0.8872, 2.4938, 0.3089, 0.9501, -28],
+                    [1.4711, 1.8265, 0.822, 0.2631, 23],
+                    [5.234, 0.8305, 0.4951, 0.252, 8],
+                    [5.2955, 1.9012, 0.3737, 0.5611, -23],
+                    [5.6829, 1.7411, 0.2639, 0.3586, 8],
+                    [0.6961, 1.208, 0.2459, 0.5583, -4],
+                    [1.2273, 3.0741, 0.1354, 0.4588, 6],
+                ],
+            ],
+            [
+                [
+                    [4.084, 2.2467, 0.3029, 0.3363, 9],
+                    [5.2773, 1.1018, 0.1053, 0.255, -19],
+                    [5.5209, 1.8522, 0.2682, 0.4278, -2],
+                    [1.094, 4.8028, 0.1496, 0.1655, 10],
+                    [1.6336, 1.5263, 0.7879, 0.1768, 9],
+                    [3.2242, 2.0608, 0.577, 0.2388, 0],
+                    [2.862, 3.092, 0.1286, 0.6773, 4],
+                ],
+                [
+                    [4.5325, 1.3881, 0.3678, 0.3568, 9],
+                    [1.6419, 3.9507, 0.8886, 0.8, 24],
+                    [2.3988, 6.0343, 0.3566, 0.322, 5],
+                    [6.0431, 3.8109, 0.2318, 0.2851, -6],
+                    [1.2481, 3.246, 0.2464, 0.2602, -39],
+                    [0.8446, 4.7555, 0.4227, 0.2241, 8],
+                    [1.2179, 4.455, 0.3876, 0.2745, -26],
+                ],
+                [
+                    [4.3848, 1.2734, 0.1093, 0.2487, -17],
+                    [0.7526, 4.5215, 0.2466, 0.2055, 24],
+                    [5.7064, 0.6075, 0.2292, 0.4425, 16],
+                    [3.7149, 1.5643, 0.3918, 0.2981, 10],
+                    [1.2289, 1.3769, 0.7053, 0.1091, 24],
+                    [1.1286, 5.2272, 0.2357, 0.2799, -46],
+                    [1.3888, 2.8037, 0.3476, 0.0689, -3],
+                ],
+                [
+                    [1.2396, 2.0167, 0.9339, 0.3161, 10],
+                    [4.6007, 0.4596, 0.3398, 0.2346, -3],
+                    [1.4803, 1.7966, 0.3887, 0.8522, -31],
+                    [2.4313, 5.758, 0.164, 0.4767, -32],
+                    [1.2556, 1.2738, 0.3939, 0.6108, -13],
+                    [2.5165, 3.7115, 0.9435, 0.1749, 25],
+                    [0.9348, 2.3102, 0.3056, 0.1755, -29],
+                ],
+                [
+                    [5.308, 1.4307, 0.3015, 0.3014, -10],
+                    [4.2245, 0.6195, 0.4072, 0.1993, 38],
+                    [4.7758, 0.4681, 0.1726, 0.4935, -4],
+                    [3.3804, 5.8791, 0.1134, 0.1605, 1],
+                    [3.3539, 5.8684, 0.0496, 0.2494, -22],
+                    [5.0696, 1.0811, 0.3268, 0.3117, 14],
+                    [1.159, 1.904, 0.4135, 0.8536, -43],
+                ],
+            ],
+            [
+                [
+                    [1.3333, 3.8735, 0.3838, 0.3122, -3],
+                    [1.7542, 2.0228, 0.8568, 0.4475, 36],
+                    [2.3679, 1.8793, 0.3242, 0.8611, 11],
+                    [4.895, 0.9264, 0.3423, 0.3986, -18],
+                    [2.9058, 1.9767, 0.9357, 0.5757, -37],
+                    [1.6455, 2.4637, 0.8172, 0.2991, 20],
+                    [0.5745, 3.9261, 0.1369, 0.4471, 32],
+                ],
+                [
+                    [4.0741, 1.163, 0.3028, 0.4331, 2],
+                    [1.9767, 1.6118, 0.206, 0.6853, 23],
+                    [1.8486, 2.2041, 0.6691, 0.492, 14],
+                    [0.3762, 4.1672, 0.262, 0.3393, -2],
+                    [1.5043, 2.3481, 0.3993, 0.2579, 9],
+                    [4.4756, 1.2795, 0.2064, 0.2092, 38],
+                    [1.9415, 3.1471, 0.5159, 0.2883, -3],
+                ],
+                [
+                    [4.1435, 1.7555, 0.4347, 0.2841, 17],
+                    [4.2123, 3.8329, 0.367, 0.826, -8],
+                    [1.5617, 6.0318, 0.3766, 0.2512, -18],
+                    [5.0164, 2.4982, 0.3569, 0.2402, 2],
+                    [1.462, 1.8503, 0.8937, 0.3695, 8],
+                    [3.797, 5.8913, 0.3095, 0.2562, -31],
+                    [1.8057, 1.4401, 0.3566, 0.0663, 10],
+                ],
+                [
+                    [1.3177, 4.2956, 0.2594, 0.3549, -4],
+                    [1.4924, 3.3517, 0.2771, 0.2985, -20],
+                    [1.4819, 2.3275, 0.8005, 0.2781, 17],
+                    [2.0398, 2.1333, 0.0733, 0.3408, -25],
+                    [3.86, 2.2819, 0.513, 0.4385, 28],
+                    [4.6617, 3.6488, 0.7058, 0.3565, 5],
+                    [2.8433, 1.8919, 0.586, 0.3741, 4],
+                ],
+                [
+                    [1.5703, 3.911, 0.2241, 0.4954, -25],
+                    [3.6778, 2.1048, 0.3817, 0.3866, 62],
+                    [3.8232, 2.5018, 0.3752, 0.2339, 14],
+                    [1.7741, 5.7461, 0.3437, 0.2438, -7],
+                    [2.4551, 3.8157, 0.6717, 0.2183, 20],
+                    [4.0725, 3.9747, 0.7892, 0.4023, 22],
+                    [4.61, 2.0968, 0.3135, 0.2651, 6],
+                ],
+            ],
+            [
+                [
+                    [4.1421, 2.5722, 0.4253, 0.4125, 8],
+                    [2.0745, 3.7975, 0.0713, 0.3698, 24],
+                    [2.0754, 2.5565, 0.3328, 0.6674, -34],
+                    [2.7906, 2.0201, 0.8269, 0.2198, 16],
+                    [2.1967, 2.8366, 0.1898, 0.7632, -23],
+                    [1.9975, 4.2109, 0.4469, 0.2802, -2],
+                    [0.8955, 2.1731, 0.1283, 0.2527, 2],
+                ],
+                [
+                    [4.355, 2.3934, 0.312, 0.3874, -4],
+                    [1.9359, 2.5494, 0.534, 0.1805, 50],
+                    [4.098, 1.4758, 0.3028, 0.1669, 20],
+                    [1.6404, 3.8683, 0.1485, 0.3182, 26],
+                    [2.5342, 3.4417, 0.6806, 0.3949, 53],
+                    [1.7091, 2.5656, 0.8027, 0.5437, 7],
+                    [2.4237, 4.1441, 0.4234, 0.0698, 2],
+                ],
+                [
+                    [2.0394, 2.4297, 0.744, 0.2426, 4],
+                    [3.9176, 1.5973, 0.5124, 0.1929, -30],
+                    [3.5387, 2.3603, 0.4345, 0.4001, -5],
+                    [2.6803, 2.9633, 0.5023, 0.9353, 23],
+                    [0.9304, 1.8056, 0.0833, 0.8909, 7],
+                    [4.0897, 3.6156, 0.4316, 0.8608, -10],
+                    [3.0935, 2.0903, 0.7727, 0.2742, 13],
+                ],
+                [
+                    [2.0225, 1.2119, 0.9014, 0.2094, -2],
+                    [2.8901, 5.1797, 0.3999, 0.2519, -37],
+                    [1.6287, 1.7503, 0.632, 0.3934, 5],
+                    [3.599, 2.3977, 0.5223, 0.1821, 5],
+                    [2.9895, 4.0836, 0.1624, 0.5837, 6],
+                    [2.3076, 4.529, 0.5844, 0.3025, 7],
+                    [2.3793, 5.135, 0.4265, 0.2434, 19],
+                ],
+                [
+                    [4.1146, 3.7203, 0.4695, 0.8523, -39],
+                    [1.6209, 3.038, 0.9533, 0.247, 12],
+                    [2.2815, 1.9717, 0.2791, 0.6949, -3],
+                    [3.4254, 3.9178, 0.2279, 0.4372, 17],
+                    [3.6618, 2.2796, 0.5926, 0.5689, -4],
+                    [2.079, 3.6395, 0.3125, 0.5001, -40],
+                    [4.6143, 1.0836, 0.4782, 0.2684, -7],
+                ],
+            ],
+            [
+                [
+                    [4.4786, 2.0148, 0.7914, 0.4772, -31],
+                    [4.4238, 0.9493, 0.536, 0.1734, -9],
+                    [2.0971, 4.7068, 0.4998, 0.0913, -66],
+                    [0.1938, 1.2439, 0.8731, 0.4295, -51],
+                    [1.7722, 0.9725, 0.5749, 0.9495, 31],
+                    [1.3322, 5.5472, 0.836, 0.9014, -87],
+                    [5.3051, 4.5831, 0.4936, 0.8208, 15],
+                ],
+                [
+                    [4.8537, 2.0854, 0.6187, 0.505, 15],
+                    [1.5018, 4.5148, 0.5818, 0.5616, 4],
+                    [5.0584, 4.4385, 0.2539, 0.7641, 15],
+                    [5.5616, 0.6381, 0.1942, 0.9747, -21],
+                    [6.0985, 2.1649, 0.6366, 0.4167, -26],
+                    [4.5411, 5.4153, 0.641, 0.9651, 34],
+                    [5.6529, 1.7752, 0.9646, 0.8696, 88],
+                ],
+                [
+                    [4.8222, 1.4933, 0.7826, 0.4787, 0],
+                    [1.4646, 0.2826, 0.6984, 0.675, 10],
+                    [4.9328, 4.8297, 0.2523, 0.7625, 33],
+                    [5.3001, 0.0422, 0.9385, 0.7173, -30],
+                    [4.7144, 5.8075, 0.692, 0.3168, -18],
+                    [5.3334, 4.7353, 0.182, 0.8867, 20],
+                    [4.7212, 5.4976, 0.8474, 0.8976, -28],
+                ],
+                [
+                    [4.4967, 4.0129, 0.6713, 0.1505, 11],
+                    [2.0975, 4.8261, 0.1546, 0.6175, 36],
+                    [1.975, 0.022, 0.4539, 0.6605, 48],
+                    [6.0833, 5.5435, 0.6355, 0.855, -10],
+                    [5.4794, 6.2111, 0.9218, 0.7667, -35],
+                    [5.4323, 1.7112, 0.9766, 0.8931, 56],
+                    [4.5798, 1.808, 0.8672, 0.5728, 5],
+                ],
+                [
+                    [3.5349, 4.5383, 0.4709, 0.7631, 59],
+                    [4.8523, 5.4301, 0.733, 0.3116, -17],
+                    [0.0069, 0.4931, 0.6919, 0.3584, -22],
+                    [5.6132, 4.7581, 0.7551, 0.6526, 29],
+                    [4.8014, 5.3766, 0.6816, 0.9607, 12],
+                    [0.2038, 5.5316, 0.2157, 0.5224, -34],
+                    [1.4848, 6.1574, 0.7024, 0.7943, 83],
+                ],
+            ],
+            [
+                [
+                    [2.0769, 4.3051, 0.9581, 0.7641, 23],
+                    [5.9113, 5.2662, 0.3311, 0.7705, 0],
+                    [0.0122, 2.5475, 0.4787, 0.3307, 7],
+                    [4.4689, 3.6745, 0.6807, 0.5382, -13],
+                    [3.1178, 5.6247, 0.4027, 0.2785, -27],
+                    [2.4154, 3.9377, 0.243, 0.7135, 2],
+                    [5.4353, 6.2666, 0.8599, 0.7566, 23],
+                ],
+                [
+                    [3.0048, 4.3422, 0.454, 0.7573, 7],
+                    [5.188, 0.8893, 0.8345, 0.3935, -2],
+                    [6.2079, 4.987, 0.5082, 0.7196, 17],
+                    [2.4882, 4.5024, 0.6712, 0.9554, -17],
+                    [4.9088, 4.3807, 0.3404, 0.7898, 30],
+                    [0.0504, 2.0499, 0.5645, 0.9275, -85],
+                    [0.0803, 2.4386, 0.3834, 0.5602, -5],
+                ],
+                [
+                    [4.4688, 2.0583, 0.7993, 0.5745, -2],
+                    [0.7745, 5.054, 0.5491, 0.8069, 45],
+                    [5.3114, 5.889, 0.7429, 0.2857, -1],
+                    [4.5457, 4.9624, 0.6977, 0.7172, -7],
+                    [3.205, 0.4393, 0.295, 0.3819, -8],
+                    [4.161, 3.7456, 0.7163, 0.6203, -7],
+                    [4.0547, 4.3199, 0.3648, 0.6776, 3],
+                ],
+                [
+                    [1.9055, 4.2507, 0.6332, 0.8267, 12],
+                    [3.1389, 4.1454, 0.4006, 0.7491, 2],
+                    [0.9863, 2.1757, 0.6811, 0.3923, 41],
+                    [1.3839, 4.9827, 0.2849, 0.8258, -22],
+                    [0.0112, 3.6095, 0.5607, 0.3172, -14],
+                    [6.0288, 2.6324, 0.3687, 0.6153, 25],
+                    [1.6199, 5.0255, 0.677, 0.7684, 7],
+                ],
+                [
+                    [3.9486, 4.3415, 0.3247, 0.7393, 12],
+                    [0.164, 2.548, 0.3304, 0.7345, -19],
+                    [4.3269, 2.2982, 0.7203, 0.6757, -33],
+                    [5.1703, 2.254, 0.3635, 0.4491, 12],
+                    [5.082, 4.2441, 0.7462, 0.0415, 13],
+                    [0.6116, 1.1268, 0.7402, 0.1964, -1],
+                    [4.3475, 5.2118, 0.2426, 0.7145, 49],
+                ],
+            ],
+            [
+                [
+                    [3.0808, 1.0746, 0.7199, 0.3821, -34],
+                    [4.9572, 1.7405, 0.563, 0.9338, -21],
+                    [4.6413, 4.1335, 0.7051, 0.9058, -20],
+                    [4.9274, 0.7429, 0.6031, 0.8034, 37],
+                    [3.4645, 4.4495, 0.067, 0.8405, -54],
+                    [4.5959, 3.7449, 0.6509, 0.702, -54],
+                    [4.0585, 3.2357, 0.9433, 0.801, -6],
+                ],
+                [
+                    [4.4307, 1.1171, 0.6895, 0.6123, 0],
+                    [1.6692, 2.7849, 0.7857, 0.6811, 48],
+                    [4.2563, 1.2328, 0.2387, 0.6857, 66],
+                    [4.601, 4.7111, 0.1485, 0.7676, 13],
+                    [1.9056, 3.7446, 0.9734, 0.9343, 8],
+                    [4.8399, 4.1074, 0.8623, 0.7067, -8],
+                    [0.8945, 4.1915, 0.839, 0.8693, -97],
+                ],
+                [
+                    [4.7017, 0.7444, 0.5776, 0.4023, -39],
+                    [1.7278, 3.5284, 0.9339, 0.8965, 2],
+                    [5.475, 4.8405, 0.1047, 0.8476, 14],
+                    [4.5106, 4.0377, 0.7948, 0.4036, -11],
+                    [4.4726, 2.4776, 0.5626, 0.5023, 6],
+                    [4.8144, 4.014, 0.6534, 0.9757, 5],
+                    [3.4032, 3.9168, 0.7844, 0.9175, 16],
+                ],
+                [
+                    [2.4625, 4.7184, 0.1064, 0.6714, 7],
+                    [2.3629, 3.9653, 0.6126, 0.9512, -8],
+                    [2.7717, 1.4793, 0.7908, 0.2874, -47],
+                    [1.404, 3.48, 0.3395, 0.6514, 12],
+                    [4.7268, 3.9243, 0.9443, 0.741, -30],
+                    [3.7063, 4.6557, 0.2923, 0.5302, 11],
+                    [3.1856, 3.9417, 0.7901, 0.8122, -31],
+                ],
+                [
+                    [1.0952, 4.7592, 0.7261, 0.7886, 35],
+                    [5.3207, 4.8244, 0.3397, 0.769, 23],
+                    [3.974, 1.7398, 0.6325, 0.6314, -12],
+                    [1.2257, 4.181, 0.9876, 0.6985, -84],
+                    [4.0998, 3.9434, 0.4339, 0.9697, 55],
+                    [2.7119, 2.0726, 0.8824, 0.7557, 7],
+                    [3.0297, 4.1643, 0.9723, 0.997, 20],
+                ],
+            ],
+            [
+                [
+                    [3.0874, 4.376, 0.6671, 0.9976, 18],
+                    [6.1947, 4.9692, 0.6459, 0.7908, 6],
+                    [5.6901, 3.7334, 0.5491, 0.4969, -39],
+                    [5.0829, 2.7674, 0.9727, 0.9335, 56],
+                    [1.434, 4.2727, 0.9372, 0.825, -14],
+                    [1.2953, 0.3346, 0.2776, 0.6984, 8],
+                    [5.1568, 2.3979, 0.5569, 0.7039, 6],
+                ],
+                [
+                    [3.0171, 4.2855, 0.5482, 0.9235, -7],
+                    [4.9077, 2.5935, 0.9043, 0.9741, 67],
+                    [6.0461, 2.1221, 0.4882, 0.4512, -26],
+                    [0.1524, 3.9002, 0.4239, 0.6054, 53],
+                    [2.4861, 4.3899, 0.6675, 0.65, -79],
+                    [3.8907, 4.2795, 0.3226, 0.7579, 25],
+                    [5.1563, 5.8375, 0.9346, 0.5846, -17],
+                ],
+                [
+                    [3.9328, 4.4583, 0.4394, 0.8561, -16],
+                    [2.912, 2.0064, 0.5815, 0.0891, 38],
+                    [4.2964, 3.581, 0.928, 0.4625, -11],
+                    [4.8056, 0.5074, 0.9995, 0.3676, 23],
+                    [0.5091, 1.8461, 0.4185, 0.9852, -20],
+                    [2.0179, 5.661, 0.8189, 0.5905, -3],
+                    [4.9309, 5.5924, 0.9752, 0.358, 7],
+                ],
+                [
+                    [3.7841, 5.2967, 0.3345, 0.5174, -6],
+                    [5.7803, 4.0304, 0.1445, 0.5032, 15],
+                    [4.2071, 2.6536, 0.9995, 0.7119, -33],
+                    [5.3137, 3.682, 0.3486, 0.617, -25],
+                    [4.8987, 5.7754, 0.9916, 0.6179, -2],
+                    [1.561, 0.0428, 0.67, 0.5859, 66],
+                    [4.2786, 0.4212, 0.5715, 0.461, -1],
+                ],
+                [
+                    [0.7756, 5.098, 0.47, 0.9065, 3],
+                    [4.1814, 2.7444, 0.9963, 0.4277, 3],
+                    [2.7309, 4.985, 0.9066, 0.5391, -7],
+                    [1.5894, 4.2964, 0.7226, 0.9327, -17],
+                    [4.3001, 4.1035, 0.9956, 0.726, -15],
+                    [3.9843, 1.7068, 0.8158, 0.8785, -24],
+                    [6.1633, 2.3388, 0.5407, 0.5153, -39],
+                ],
+            ],
+        ],
+        [
+            [
+                0.00000239529, 0.0000365229, -0.00000675354, -0.00000171056, 0.00000321708, 0.00000772282,
+                0.00000174906, -6.85007e-7, -5.66636e-7, -5.73448e-7,
+            ],
+            [
+                0.0000155656, 0.0000298778, -0.0000066714, -0.00000256176, 0.00000186231, 0.00000741304, 0.00000155176,
+                4.75125e-7, -5.28252e-7, -4.2803e-7,
+            ],
+            [
+                0.0000295014, 0.000020058, -0.00000579662, -0.00000291285, 7.98206e-7, 0.0000062642, 0.00000136032,
+                0.00000182982, -6.17399e-7, -3.48511e-7,
+            ],
+            [
+                0.0000419253, 0.00000601773, -0.00000293448, -0.00000226164, -7.8482e-8, 0.00000373303, 7.23229e-7,
+                0.00000298818, -3.00687e-7, -1.29258e-7,
+            ],
+            [
+                0.0000499808, -0.00000398238, 6.98603e-7, -6.23218e-7, -7.25844e-7, 6.38652e-8, -1.85706e-7,
+                0.00000395143, 1.94719e-8, 2.03179e-8,
+            ],
+            [
+                0.0000426009, 0.00000688848, 0.00000192729, 0.00000138939, -0.0000011153, -0.00000370894,
+                -0.00000109574, 0.00000304542, 3.63875e-7, 1.23087e-7,
+            ],
+            [
+                0.0000300775, 0.0000209006, 0.00000133082, 0.00000266052, -7.51037e-7, -0.00000616133, -0.00000171938,
+                0.00000170897, 5.31118e-7, 2.70886e-7,
+            ],
+            [
+                0.0000163055, 0.0000308871, -1.89549e-8, 0.00000307677, 3.24876e-7, -0.00000736879, -0.00000191179,
+                5.87213e-7, 6.3685e-7, 5.04501e-7,
+            ],
+            [
+                0.00000268242, 0.0000372936, -0.00000133299, 0.00000320161, 0.00000187364, -0.00000749635,
+                -0.0000018727, -7.04756e-7, 5.7223e-7, 5.96586e-7,
+            ],
+            [
+                2.58738e-7, 0.00000787128, -0.0000025246, -7.95698e-7, 0.00000610627, 0.00000673517, 0.00000185796,
+                -0.00000205574, -4.6354e-7, -5.07009e-7,
+            ],
+            [
+                -0.00000152436, -9.23408e-7, -8.57809e-7, -3.95624e-8, 0.00000702378, 0.00000406867, 0.00000131542,
+                -0.00000253778, -2.95858e-7, -3.2962e-7,
+            ],
+            [
+                0.00000157151, -0.00000579028, 1.23208e-7, 7.80761e-7, 0.00000685364, 0.00000133084, 5.67962e-7,
+                -0.00000234252, -1.92208e-7, -2.08604e-7,
+            ],
+            [
+                0.00000149064, -0.00000576277, 8.50365e-7, 0.00000166944, 0.00000653494, -0.00000170414, -2.23986e-7,
+                -0.00000225847, 1.40693e-7, 1.52807e-9,
+            ],
+            [
+                -0.00000141073, -5.96688e-7, 0.00000102608, 0.00000253913, 0.00000632634, -0.00000463207, -9.79376e-7,
+                -0.00000246148, 2.60081e-7, 3.30898e-7,
+            ],
+            [
+                1.95734e-7, 0.00000833922, 7.78515e-7, 0.00000310952, 0.00000499557, -0.00000684591, -0.00000154352,
+                -0.00000199623, 2.9026e-7, 5.7099e-7,
+            ],
+            [
+                0.0000081812, -0.00000947553, 0.00000126074, 0.00000115207, 0.0000060328, -2.0787e-7, 1.66883e-7,
+                -0.00000159006, 1.0836e-7, 4.64551e-8,
+            ],
+            [
+                0.0000255909, -0.0000156176, 0.00000101942, -2.03362e-7, 0.00000417005, 0.00000154145, 4.0182e-7,
+                4.90457e-7, -1.84276e-7, 1.0249e-7,
+            ],
+            [
+                0.0000292316, -0.0000254341, 0.00000291627, 4.23732e-7, 0.00000440767, -1.83467e-7, 5.50882e-8,
+                6.1757e-7, -1.67275e-8, 9.10622e-8,
+            ],
+            [
+                0.0000256575, -0.0000155616, 0.00000261205, 0.0000011061, 0.00000381148, -0.00000176401, -3.84862e-7,
+                4.25952e-7, 1.84296e-7, 1.00077e-7,
+            ],
+            [
+                0.00000572499, 0.00000666341, -2.19561e-8, -0.00000105167, 0.00000522095, 0.0000029405, 0.00000229144,
+                -0.00000133731, 0.00000199086, 0.00000156112,
+            ],
+            [
+                0.00000456275, 0.0000024111, 8.57177e-7, -7.60116e-7, 0.0000057796, 0.00000216608, 0.00000215358,
+                -0.00000143264, 0.00000213227, 0.00000171418,
+            ],
+            [
+                0.00000475395, 0.00000165898, 0.00000122161, -4.66997e-7, 0.00000562149, 0.00000113089, 0.00000194308,
+                -0.0000014399, 0.00000219942, 0.00000185079,
+            ],
+            [
+                0.00000728249, -4.62185e-7, 0.0000015601, -2.68413e-7, 0.00000537977, 3.07392e-7, 0.00000161814,
+                -0.00000126209, 0.00000226599, 0.00000188835,
+            ],
+            [
+                0.00000838372, -0.00000127096, -0.00000127534, 0.00000218496, 0.0000050418, -5.44942e-7, -0.00000146131,
+                -0.00000126007, -0.00000227341, -0.00000188277,
+            ],
+            [
+                0.00000584694, 9.99824e-7, -0.00000132372, 0.00000236906, 0.00000518277, -0.00000150785, -0.00000160434,
+                -0.00000158547, -0.0000020334, -0.00000176859,
+            ],
+            [
+                0.00000577045, 0.00000136298, -0.00000116378, 0.00000279364, 0.00000494388, -0.00000272342,
+                -0.00000196943, -0.00000139469, -0.00000211247, -0.0000017552,
+            ],
+            [
+                0.00000683214, 0.00000619163, -0.0000013112, 0.00000303832, 0.00000429544, -0.00000333468,
+                -0.00000214994, -0.00000106549, -0.00000205097, -0.00000154004,
+            ],
+            [
+                0.0000314891, -6.75316e-7, -0.00000193358, -0.00000127817, 0.00000210842, 0.00000334602, 6.2116e-7,
+                0.00000159705, -7.12842e-7, -1.12414e-7,
+            ],
+            [
+                0.0000330002, -0.0000162154, 0.00000202324, 1.47155e-7, 0.00000298416, -7.85112e-8, 5.34869e-8,
+                0.00000127708, 4.82872e-8, -5.78397e-9,
+            ],
+            [
+                0.0000317639, 3.36122e-7, 0.00000227166, 0.00000142436, 0.00000125618, -0.00000352244, -8.59264e-7,
+                0.00000166871, 7.63532e-7, 1.39167e-7,
+            ],
+            [
+                0.0000400629, -0.0000127793, 0.00000145083, -1.93616e-7, 0.00000169824, -3.07962e-8, -6.2119e-8,
+                0.00000246438, 1.44089e-7, -1.52004e-7,
+            ],
+            [
+                0.0000234329, 0.00000277821, 0.000020497, 0.00000519548, -0.00000522811, 0.00000414891, -0.00000326401,
+                -0.00000378308, -9.13828e-7, 7.03006e-7,
+            ],
+            [
+                0.0000225448, 0.00000170659, 0.0000224063, 0.00000268795, -0.00000458551, 0.00000250188, -6.00972e-7,
+                -0.00000340718, -5.55134e-7, 3.35787e-7,
+            ],
+            [
+                0.0000188117, 6.26551e-7, 0.0000240083, -1.57964e-7, -0.000003276, 6.54437e-7, 0.00000204169,
+                -0.00000305624, -9.96234e-8, -9.78976e-8,
+            ],
+            [
+                0.000010204, 0.00000139292, 0.0000233969, -0.00000302313, -0.00000139102, -0.00000126704, 0.00000402171,
+                -0.00000170027, 2.49388e-7, -6.02471e-7,
+            ],
+            [
+                -0.00000154958, 0.00000397641, 0.0000217619, -0.00000511791, 9.76229e-7, -0.00000242745, 0.00000503094,
+                1.14738e-7, 0.00000131623, -0.00000190875,
+            ],
+            [
+                -0.0000117478, 0.00000647175, 0.0000232777, -0.00000182378, 0.00000202049, -0.00000107523,
+                0.00000409676, 0.00000194994, 2.23871e-7, -5.43819e-7,
+            ],
+            [
+                -0.0000176663, 0.00000650422, 0.0000237683, 0.00000184245, 0.00000274067, 8.2557e-7, 0.00000185933,
+                0.00000280892, -7.10251e-8, -1.05687e-7,
+            ],
+            [
+                -0.0000192333, 0.00000441708, 0.0000228831, 0.00000486863, 0.00000282419, 0.00000274643, -7.32024e-7,
+                0.00000315487, -3.8285e-7, 3.24753e-7,
+            ],
+            [
+                -0.0000185785, 0.00000187886, 0.0000215241, 0.00000767882, 0.0000024794, 0.00000435008, -0.00000352964,
+                0.00000293314, -6.92468e-7, 7.62225e-7,
+            ],
+            [
+                0.0000174036, 0.00000174914, 0.00000428635, -0.00000136363, -0.00000321622, 0.0000018789,
+                -0.00000704606, -0.0000033457, 0.00000201798, -7.53536e-7,
+            ],
+            [
+                0.0000104722, 0.00000107568, 3.3026e-8, -0.00000233182, -0.00000170991, 0.00000150949, -0.00000805319,
+                -0.0000022306, 0.00000179189, -8.53108e-7,
+            ],
+            [
+                0.00000257697, 9.76395e-8, -0.00000120275, -0.00000327949, -3.12565e-8, 8.0798e-7, -0.00000781874,
+                -8.67049e-7, 0.00000194199, -9.61317e-7,
+            ],
+            [
+                -0.00000524687, -5.56011e-7, -8.86913e-7, -0.00000286413, 0.00000150507, 0.00000100937, -0.00000774846,
+                6.48436e-7, 0.00000196823, -9.54578e-7,
+            ],
+            [
+                -0.000012164, -0.0000011664, 7.01494e-7, -0.00000106894, 0.00000267788, 0.00000159881, -0.00000815988,
+                0.00000183975, 0.00000187222, -8.36071e-7,
+            ],
+            [
+                -0.0000180059, -8.51587e-7, 0.00000544635, 7.70484e-7, 0.00000347633, 0.00000233628, -0.00000715611,
+                0.00000294611, 0.00000202715, -8.34278e-7,
+            ],
+            [
+                -0.00000150607, 1.61513e-7, -4.0853e-7, -0.00000425278, 0.00000110948, -2.23948e-7, -0.00000492077,
+                2.01909e-7, -0.00000120613, 8.2193e-7,
+            ],
+            [
+                0.00000160662, 7.05048e-7, 0.00000265795, -0.00000792662, 8.3812e-7, -0.00000255591, -9.84602e-7,
+                -8.1341e-7, -0.00000175381, 0.00000112371,
+            ],
+            [
+                -0.00000396483, 6.3928e-7, -0.00000110234, -0.0000102006, 0.00000219365, -0.00000379907, -8.69362e-7,
+                5.18848e-8, -0.0000018087, 0.00000109165,
+            ],
+            [
+                -0.00000724435, 0.00000149356, 0.00000266346, -0.00000731705, 0.0000024692, -0.00000247781,
+                -0.00000100143, 9.27673e-7, -0.00000186095, 0.00000109213,
+            ],
+            [
+                0.0000131252, 0.00000124262, 0.00000663156, -0.00000152102, -0.00000219624, 0.00000106377,
+                -0.00000431744, -0.00000235856, -8.78504e-7, 6.59415e-7,
+            ],
+            [
+                0.0000104232, 0.00000104143, 0.00000398712, -0.00000227545, -0.00000170652, 7.67634e-7, -0.00000486228,
+                -0.00000204612, -9.90262e-7, 7.47435e-7,
+            ],
+            [
+                0.00000789744, 0.00000109937, 0.00000419858, -0.00000211784, -0.0000011179, 8.06094e-7, -0.00000462459,
+                -0.00000158617, -0.00000117426, 8.09262e-7,
+            ],
+            [
+                0.00000516565, 7.20874e-7, 0.00000393783, -0.00000279451, -4.64412e-7, 4.90712e-7, -0.00000438411,
+                -0.00000107913, -0.00000104807, 6.12809e-7,
+            ],
+            [
+                -0.00000696065, 4.27333e-7, 0.00000401377, -0.0000020573, 0.00000167567, 4.41924e-7, -0.0000044025,
+                0.00000118758, -0.00000118463, 7.80972e-7,
+            ],
+            [
+                -0.00000884803, -3.33337e-8, 0.00000470785, -0.00000120882, 0.00000203604, 9.11468e-7, -0.00000471809,
+                0.00000149152, -0.00000119277, 7.79957e-7,
+            ],
+            [
+                -0.0000117995, -7.6744e-8, 0.000004579, -9.09594e-7, 0.00000251709, 7.66165e-7, -0.00000488029,
+                0.00000205842, -9.77174e-7, 7.50667e-7,
+            ],
+            [
+                -0.0000135347, 4.92996e-7, 0.00000733466, 1.05547e-7, 0.00000273315, 0.0000012491, -0.00000424757,
+                0.00000252469, -8.86509e-7, 6.301e-7,
+            ],
+            [
+                0.00000774235, 0.00000119377, 0.0000137589, -0.00000448537, -7.21731e-7, -0.00000122948, 0.00000115063,
+                -0.00000142362, -2.18086e-7, 1.00949e-7,
+            ],
+            [
+                -0.00000288602, 0.00000154006, 0.00000567825, -0.00000787586, 0.00000169679, -0.00000298579, 3.10197e-7,
+                1.5147e-7, -2.05719e-7, 2.1445e-7,
+            ],
+            [
+                -0.0000103946, 0.00000365382, 0.0000138809, -0.00000338137, 0.00000231261, -0.000001151, 8.89281e-7,
+                0.00000163442, -2.83273e-7, -1.05229e-7,
+            ],
+            [
+                -0.00000235892, 0.00000230267, 0.00001071, -0.0000078468, 0.00000170728, -0.0000028167, 0.00000188362,
+                -5.04045e-8, 0.00000192688, -0.00000256368,
+            ],
+        ],
+        [
+            [
+                -27, 101, -53, -26, 21, 88, -156, 60, 13, -37, 68, 61, -135, 33, -47, 51, -68, -79, -26, 90, 6, -28,
+                -65, 179, 72, -6, 175, -158, -19, 26, 4, -87, -53, 41, -108, 51, -41, -107, 236, -11, 73, -17, 64, -13,
+                -7, 23, 136, -249, 73, -97, 7, 162, -127, 12, 0, -20, -115, -60, 1, 146, 86, -63, -28, 41, 120, -94, 72,
+                122, 46, -113, -156, 11, 65, -64, 91, 120, -78, -91, -26, -8, 30, 58, -109, 57, -154, -65, 103, 87, -9,
+                -179, -77, -42, 9, 64, 56, 187, 148, 26, 67, -67, -101, 129, -67, -126, -122, 42, 27, -7, 27, -39, -45,
+                126, -159, -4, 447, -166, -66, 23, -16, -50, 14, -2, -44, -115, -75, -27, 37, 221, 57, -49, -152, -1,
+                210, 107, -155, -9, -14, 20, -79, -24, 23, 25, -13, 71, -378, 0, 19, 119, -83, 7, 36, 287, -22, 22, 280,
+                -77, -174, -24, -3, 7, -21, -122, 32, -6, -15, 23, 101, 17, -63, -99, 19, 61, 107, -6, -48, 39, 61, -94,
+                -80, -22, 3, 25, 68, 48, -559, -10, 55, 16, 194, 98, 52, 161, -167, 19, 138, 15, 22, 13, -93, 62, 36,
+                -7, 106, -54, -138, 9, 12, 45, -73, -209, -2, -30, -40, 32, 105, 226, -86, -35, 139, -87, 16, 28, -30,
+                64, 32, -1, -46, 14, 78, 51, -72, -49, -9, 68, 24, -85, 26, -98, 10, 71, -34, 97, -170, 198, -11, -173,
+                73, 29, 111, 103, -179, -80, 79, 71, -67, -29, -164, -40, 28, -40, 83, -41, 250, -67, 6, -53, 14, -43,
+                35, 84, 46, -80, -31, -3, -140, 104, -4, 50, 123, -91, -58, 59, -130, 73, 133, -80, -5, 17, -4, -13,
+                -138, -138, -73, 348, -70, 98, 34, -30, 14, -13, -44, -113, 125, 37, -10, 17, -27, -56, 12, -28, 67, 34,
+                155, 17, 95, 44, -70, -223, -7, -3, 30, 1, -54, -13, 81, -30, -45, 38, 67, -8, -11, 89, -93, -31, 46,
+                -50, -95, 152, -85, 0, 70, 89, -90, -34, -22, 26, -35, 48, 41, -40, -39, 29, -35, -39, -12, 88, 52, -86,
+                -42, 83, -45, -30, 150, -6, -156, -18, 121, -7, -35, 109, -61, 54, 19, -2, -59, -15, -41, 107, 125, 73,
+                -419, 70, 24, 68, 21, 62, 18, 45, -114, -47, 13, 11, -3, -77, 70, -134, 125, -67, 23, 71, 133, -152,
+                271, -39, -45, 64, -186, -37, 6, -62, -67, 215, 21, -61, -42, -2, -114, -42, -24, 12, 147, 69, -141,
+                101, -85, -62, -10, 11, 14, 168, 57, -84, 20, -23, -18, 263, -11, -70, -44, -110, -27, -11, 36, -77, 42,
+                61, -19, 4, 153, -69, -187, -42, -19, -6, 146, 32, 125, -31, -38, 7, -48, 32, 26, -64, -95, -16, -10,
+                -29, 62, -22, -40, 159, -51, 151, 31, -16, -7, -107, 44, -37, 15, 49, -13, -3, -86, 55, -32, 25, -75,
+                18, -131, -49, -77, 27, 163, 132, -65, 36, 201, 124, -470, 153, -82, 111, -48, 17, 118, 82, -268, 0, 46,
+                62, 61, -61, 74, 115, -204, 66, 5, -47, -11, 170, 98, -71, -117, -36, 10, -35, 47, -94, -20, -85, 15,
+                11, 21, 113, -266, 119, 30, 59, -102, 168, 27, -26, 62, -99, -40, 141, -41, 179, -142, -50, -7, 93, 23,
+                -16, -14, 42, -40, -73, -42, -195, 160, 78, 186, -71, -46, -61, 44, 52, 37, -130, 28, 6, 5, -34, -1, 59,
+                54, -47, -69, -35, 76, -29, 101, -188, -5, -40, -28, 69, 104, -5, 31, 83, -153, -22, 8, 35, -56, 83, 5,
+                -77, -33, 19, 39, -42, 41, 56, 131, 162, 33, 18, -256, -98, 58, -40, -33, -150, -152, 200, -21, 137,
+                -22, 49, 85, -92, 29, 63, -16, -69, -58, 68, 24, 47, -86, 2, -16, 50, 72, -85, -39, 57, -37, 114, -293,
+                12, 203, -9, 31, -2, -158, 6, 15, 20, 32, 64, -132, 128, -7, -20, -132, 78, 79, 16, 58, 1, 23, 89, -2,
+                93, -147, -108, -50, 28, 54, 41, -18, 142, -60, -128, 45, -69, -83, 10, 8, 15, 91, -8, -111, 45, 60,
+                -63, -13, 69, -2, 23, 53, -77, 77, -19, 13, -46, -23, 30, 21, -79, -17, 104, -12, -65, -8, 65, -142, -4,
+                25, 23, -33, 59, 21, 59, 91, -130, -26, -15, 114, 184, -122, -89, -52, 31, -18, 44, 6, -42, -46, 86, 39,
+                151, -70, -4, -72, -22, -89, 76, 208, 117, -19, 24, -146, -69, -95, -11, 56, 72, -78, -92, 31, 38, 24,
+                -43, 133, 73, -171, -30, -37, -3, 173, -129, 2, -74, -100, -52, 64, -11, -20, 200, -2, -59, 47, -97, 60,
+                137, -20, -58, 3, -61, 43, -17, 0, 139, 64, -163, -82, 73, 59, 46, 2, 32, -89, -34, -108, -73, -211, 2,
+                -58, -81, 23, 515, 247, 40, -223, 191, -11, -81, -30, -123, -70, -2, 27, 177, -189, -12, 66, 11, 61,
+                -129, -11, -54, 12, 141, 24, -35, -175, 6, 191, 53, -132, -16, 75, 7, -51, -359, -90, 625, -57, 45, -38,
+                -66, 31, 68, 14, 161, -115, 12, -4, -159, 149, 38, 14, 188, -11, -207, -64, -98, -91, -1, -14, -49, 183,
+                -63, -37, 80, 35, -35, 61, 90, -35, -3, 23, -127, 126, 122, 0, 99, -79, -46, -227, 13, -97, 30, 45,
+                -231, 255, -75, 90, -8, -24, -88, -26, -11, -100, 109, 63, 86, -111, -25, -21, -6, 4, -44, 198, 15, 122,
+                -115, 116, 33, -6, 4, -148, 2, -6, -142, -25, 270, 6, -96, -29, 31, 79, 60, 14, -24, 124, 62, -20, -286,
+                177, -139, -211, 74, 159, 61, 23, -135, 87, -244, 319, -2, 76, -231, 21, -19, 27, -107, -49, -327, 105,
+                241, 35, 84, 147, 82, 129, -75, 80, -23, -253, -78, 124, 90, -197, 11, -53, -92, 32, 93, -26, 53, 69,
+                -70, 7, 40, 12, -77, 142, 267, -58, 10, -137, -239, -27, 50, 15, 157, 21, 117, 76, -80, -192, -106, 29,
+                4, 82, -499, 125, 28, 76, 163, 32, -78, 347, 166, 40, -77, -307, -114, 214, 37, 151, -51, -94, -165,
+                -112, 28, -54, 52, 27, 26, 114, 118, 30, -304, 74, 103, -251, -169, 159, 131, 98, -136, 8, 59, -8, 27,
+                -45, -32, 44, -42, 116, 119, -29, -28, -62, -91, -164, 147, 64, -103, -29, 29, 72, 5, -7, -23, -143,
+                -63, 1, 144, -98, 87, 71, 10, -15, 374, -191, -105, -29, -74, 107, -60, 179, 23, -65, -140, 231, -74,
+                -159, 15, -123, 12, 228, 111, -45, -63, -104, -7, -353, 107, 55, -141, -76, 120, 132, 164, 29, -35, 17,
+                67, -30, 80, 1, -121, 2, 173, -26, 11, -137, 124, 57, -195, 72, -13, -117, -39, 43, 81, -86, 68, -55,
+                -50, 15, 12, 25, -13, 76, -1, 58, -3, -243, -116, 33, 87, 61, 132, 69, -8, 29, -26, 57, -74, -7, -31,
+                149, -33, -6, 18, 163, -72, -26, -185, 73, 158, 82, 4, -143, -63, 43, -144, 5, -167, 170, 99, -82, 250,
+                -225, -42, -42, 70, -362, 31, 0, 154, 16, 141, 98, -91, 25, 225, -60, -35, -176, 23, -96, 115, 3, 55,
+                -7, -29, -28, -4, -162, 104, 27, -113, -40, 101, -5, 96, -107, -59, 106, 104, -46, 145, -87, -47, -103,
+                71, 31, 18, 13, 83, -114, 10, 86, 7, -77, 79, -25, -133, -11, 82, 11, 69, -12, -154, -421, -349, 1000,
+                -135,
+            ],
+            [
+                723, 14, -86, -29, 334, -241, -544, -170, -364, -130, -265, -152, 92, -96, 509, 406, -289, -204, 148,
+                134, -348, -89, -39, 689, -488, 240, 146, 370, -315, 291, -218, -25, -213, 83, -338, -87, 176, -307,
+                248, 439, 147, 37, -226, -81, -85, -80, 251, 37, -321, 315, -297, 40, 213, 130, 149, -228, -81, 35,
+                -173, -168, 397, -79, -43, 113, 556, -230, -102, 43, -3, -100, -194, 31, -25, 466, 36, -310, 335, -85,
+                -227, -190, -124, -106, -58, 326, 52, 189, -36, -242, -91, 92, 57, -76, -83, 282, -19, -162, -118, 320,
+                -192, -73, 179, -73, 111, -152, -70, -108, 94, -86, 73, 4, 109, -16, -191, -19, -79, 64, 123, 38, 54,
+                11, 56, 115, 62, 42, 342, 132, -403, -345, -62, 308, -54, -213, 213, -28, -40, -124, -35, -102, -81,
+                -11, -2, 104, 107, 21, -116, 0, -63, -104, -90, -73, 57, 391, -111, 49, -123, -220, 101, -49, 131, 223,
+                81, -25, -101, 3, 57, 25, -146, 108, 108, 115, -416, -97, -2, 150, 51, 93, 132, 187, -112, 43, 40, -91,
+                -123, -75, -379, -241, 80, -37, 99, 142, 62, 275, 230, 224, 34, -147, -105, -112, -87, -37, 129, 148,
+                188, 103, -447, -98, 41, -64, 112, -67, -2, -42, -78, -20, 74, 23, -30, 126, -169, 21, 46, 29, -13, -7,
+                128, 57, -69, 68, -231, 23, 109, -84, -94, -43, 62, -129, 18, 155, -167, 198, 138, -155, 1000, -292,
+                -161, -15, -356, -159, 63, 63, -175, 96, 97, 92, -226, -11, 50, 145, -73, -81, 38, 232, -217, -93, 124,
+                146, 55, 275, -229, 52, -168, -255, 18, 239, -334, -79, -148, 285, 77, -56, 417, -98, -495, 257, 160,
+                -257, -49, 68, 102, 31, -25, -178, -122, 281, 61, -148, -36, -143, 369, 251, 37, -81, -342, -54, 296,
+                231, -9, -197, -445, 10, -99, 214, 103, -236, 178, -377, -250, 325, 135, 123, 190, 39, -214, -24, 47,
+                148, 227, -412, -342, 173, -225, 328, 110, 11, -192, 138, -428, -119, 225, 100, 185, -126, -155, 320,
+                -374, 3, 374, 134, 319, -163, -485, 193, -41, -139, 148, 392, 58, -830, 515, -100, 2, -91, 69, 189, 51,
+                -93, -267, 141, 23, 11, 329, -66, -132, -66, -78, -20, 100, 12, 91, 14, -214, 105, -21, -86, -114, 58,
+                66, -149, 76, 126, -144, 81, 254, -128, -56, -228, 3, 77, 197, -118, 161, 15, -106, -11, -9, -13, -70,
+                34, 120, 0, -1, -11, -34, 120, -100, -93, -217, 44, 77, 49, 0, -94, 99, 42, -247, -49, 84, 31, 151, -87,
+                68, 51, -55, 3, -7, -26, -70, 73, -27, 109, -172, -16, 7, -154, -4, 193, 91, 55, -64, -67, -30, 123,
+                -82, -40, 142, 18, -274, 150, -50, 25, 31, -114, -10, 244, 2, 13, 52, 34, -37, 209, -78, -193, 8, -111,
+                39, -69, 8, -85, 153, 59, -191, 14, -100, 60, 25, -25, 292, -73, -55, 9, 32, -258, 49, 31, 89, 104, 116,
+                -8, -205, -39, 230, -12, -137, 57, -38, -35, -122, -54, 162, 206, -53, -65, -74, -9, -84, 1, 103, -10,
+                -16, 89, 86, -106, 94, 36, -78, -35, -2, 6, 7, -52, 41, 50, 243, -52, -121, -114, -311, 138, -85, 56,
+                73, 42, -37, 125, -107, -33, -5, -215, 318, -69, 123, -11, -164, 99, 0, 133, -52, 139, -41, -112, -22,
+                -92, -153, -8, -29, 79, 145, 81, -91, -65, 20, 25, 48, -82, 5, 141, -123, 128, 110, 32, -94, -26, -2,
+                -25, 81, -118, -25, 29, -45, -133, 126, 86, -36, 189, -88, -33, 93, -117, -31, 24, 178, 0, -111, 178,
+                -119, -65, -78, 17, -202, -49, -146, 78, 230, 72, 119, -102, 11, 192, 2, -146, 123, -42, -33, -107,
+                -393, 82, 3, -118, 103, -26, 14, 338, -398, -123, 147, 69, 113, 54, -177, 316, 118, -116, -105, -109,
+                261, -92, 39, 4, -105, 86, 292, 47, -80, -178, 91, -152, 200, -89, 77, -96, 4, -96, -106, 107, -48, -25,
+                206, 71, 134, -163, -21, -152, -74, 84, 98, -118, 200, -200, 81, -70, -172, -76, 218, 168, -77, -51,
+                -116, 107, 133, -47, -50, 220, 6, -74, -82, -104, 57, 201, -5, 22, -67, -151, -12, -45, -229, 127, -35,
+                45, 135, -250, 55, 152, -80, -229, 233, -82, 257, 20, -153, 34, 33, 46, -178, 183, 79, -228, 61, 5, 44,
+                -31, -323, -4, -100, 185, 60, 171, -33, 41, 134, -70, 102, -70, -13, -90, -117, -156, 2, -7, 103, -8,
+                191, -8, -27, 68, 90, -4, -33, 33, -186, 61, -210, -142, 112, -106, 141, 131, 196, -123, -2, 61, -16,
+                -128, 9, 36, -98, 138, -156, 29, 170, -151, 21, 52, -118, 153, 262, 9, 72, -38, -254, 66, 12, -130, 198,
+                -11, 10, -165, -83, 140, -78, -10, -171, -4, 164, -98, -63, 74, 79, 19, -59, 48, -337, 28, 83, 54, 78,
+                105, 115, 57, -25, -34, -119, 49, -84, 42, -55, -45, -171, -86, 64, 268, 13, 13, -87, -26, 73, -72,
+                -116, 181, -126, 174, -77, -79, -154, 39, 340, -48, -5, -14, 7, -93, 234, 260, -258, -144, 48, -54, 34,
+                -116, -106, 90, 84, 62, -20, -27, 53, 90, -179, 51, 30, -56, 58, -47, -54, -84, -32, 114, 10, 205, -19,
+                -139, 48, 100, -7, 18, 45, 37, -32, -208, 135, 7, -2, -140, -122, 201, 58, -136, 55, -84, -17, -6, 40,
+                5, 2, 6, 75, 28, 36, -37, -96, 10, -34, 19, -76, -8, -131, -9, 51, 182, 54, -62, 55, 109, 12, -31, -91,
+                -38, -119, 104, -43, 53, -51, 23, 2, -86, 7, 95, 22, 89, -93, -131, 23, 107, -12, -4, -129, 19, -183,
+                -101, 69, 208, 88, 29, 54, 64, -120, -118, 74, -104, 114, 37, 40, 123, 15, 7, 35, -142, -8, -70, 55,
+                -49, 63, -37, -112, 40, 42, -1, -46, -20, 146, 53, -8, -68, 52, -109, 17, -10, -75, -69, 291, -85, 53,
+                -121, -270, 9, -37, 15, -113, 92, 290, 14, 51, -19, 1, -181, 6, 13, 33, 96, 54, 109, -214, -38, -33,
+                251, -39, -89, 202, -137, 15, 227, -160, -130, -22, 5, 71, -129, 14, -203, 78, 49, 131, -11, 66, 110,
+                -113, 240, 29, -106, -168, -58, 183, 22, -46, 64, -71, -152, 1, 0, 87, -68, 59, -18, 63, -197, -44, 118,
+                -363, -41, 42, -20, -12, 122, 25, 247, -329, -10, 0, 96, -14, 25, 69, 163, 69, 296, -42, -220, 149,
+                -104, -40, -106, -3, -85, -28, 66, -59, -59, 42, 127, -393, 53, 312, 294, -133, -228, 100, -3, 78, 50,
+                -77, 117, -65, -60, -20, -23, -148, -10, 10, 75, -65, -111, 229, 21, 154, -162, 65, 2, -59, -82, 111,
+                -29, -118, 42, 11, 29, -16, 70, -38, 21, -53, 65, -5, -235, 49, 60, -38, 157, -11, -71, 81, 133, -95,
+                82, -14, -104, -114, 14, -190, -22, -199, 56, 397, 59, -3, -19, 85, -48, -185, 33, 32, 105, 213, -417,
+                53, -11, 56, 52, 10, 45, -119, -13, 59, -208, 40, 62, 69, 111, 74, -315, 236, 183, -203, 8, -20, 38,
+                -165, -22, -24, 162, -117, 112, 102, -46, -176, -64, 68, 236, -17, -65, 62, -43, -112, -57, -121, 13,
+                -112, 226, -20, 184, -48, 140, 165, 217, -223, -279, 133, -105, 48, 32, -162, 105, -138, 51, 48, 18, 2,
+                109, 103, 85, -167, -132, -29, 30, 121, -101, -115, -63, 245, -123, 77, -40,
+            ],
+            [
+                333, -135, -110, -112, -382, 130, 144, 144, 81, 63, 185, 36, 157, -71, -341, -97, 68, -80, 257, 323, 7,
+                -235, -74, -254, 51, 45, -103, 93, -114, -243, 76, 207, -53, 20, -15, -516, 84, 105, 338, 50, -220,
+                -249, 125, 89, 99, 142, 261, -235, 14, -156, 190, 79, -267, 135, 99, -81, -82, -95, 199, -56, 199, 100,
+                -258, 5, -614, 152, 95, -72, 65, 149, 118, 120, -84, -202, -159, 389, -221, -191, 343, 137, -127, -21,
+                132, -34, -227, 71, 142, 77, 156, -71, -278, 79, -55, -70, 174, 76, 311, -217, 260, 92, -113, -97, -81,
+                -142, 614, -189, 73, -192, -5, -186, -61, -43, 195, 71, 41, -32, -158, 6, -99, -12, 92, 207, 79, 4, 1,
+                -60, -105, -206, -191, -81, -255, 73, 215, -25, 233, 44, 31, -40, 265, -12, 67, -169, -152, 22, -66,
+                103, 155, 152, 139, 263, -430, -302, -45, 228, -171, -296, 231, 107, -69, 28, -318, 80, 111, 31, 23,
+                -18, -195, 299, -120, 117, -384, 7, -35, 75, 76, 276, 129, -165, 115, 123, 10, -194, -40, 35, -697, 40,
+                -160, 145, 314, 329, 61, -19, 462, -365, -196, -66, -90, 30, 187, 51, -18, 10, -227, -14, 51, 144, -41,
+                107, 2, -180, -57, 79, 105, 168, 115, -219, 328, 142, -9, -106, -7, -196, -67, -73, -23, -107, -28, -1,
+                -23, 86, 42, 66, 44, -43, 0, -13, -75, 199, -17, -83, 598, 170, -402, 317, -43, -94, -398, -135, -183,
+                151, 1, 222, -82, -465, 39, 330, 146, 44, -25, -139, -12, -45, 12, 32, 59, 30, 61, 74, -203, -177, 171,
+                -3, -115, 175, -151, -166, -139, 25, 295, 89, 8, 159, 116, 202, -31, -410, 48, -79, 61, -185, 108, -142,
+                265, 178, -132, -141, -28, 104, -25, 2, -73, -164, 74, 123, 57, -168, 37, 91, -109, 127, -202, 180, -99,
+                263, 96, -78, 6, -2, -53, -121, 131, 46, -10, 219, -180, -237, -38, 81, -106, 44, 323, 101, -266, -327,
+                205, 40, 98, 1000, -44, -116, -226, -375, -159, -165, -73, -93, 29, -11, -65, 424, -451, 253, -158,
+                -169, -38, 328, 101, 92, -4, -138, 239, 106, 154, -87, -213, -100, 15, -101, -101, 102, 58, -63, 82,
+                -82, 166, -149, -169, 163, -32, 227, -102, -55, -16, -3, -121, 195, -43, -215, 169, 97, -99, 30, -170,
+                51, 29, -103, 11, -1, 163, 32, -76, -57, 174, 1, -62, 21, -112, 123, 108, 110, -29, 58, 134, -59, -45,
+                -265, 240, 97, 108, 103, -190, -83, -108, -154, 92, 70, -272, 347, -69, -162, -75, 82, 109, 166, -68,
+                58, -4, -486, 109, 129, 36, 9, 31, -48, -68, 75, 143, -165, 46, -49, -32, 63, -40, -36, 276, -215, 216,
+                -108, -30, 42, -29, 180, -61, -197, -19, -118, 157, 115, -130, -70, 61, 16, -93, -54, 22, -14, 64, -89,
+                6, 169, 43, 14, 19, -52, 64, -86, -45, 55, 10, -59, -7, -125, 153, 121, -93, 14, -139, 96, -5, -80, 43,
+                -80, 66, 111, -136, 2, 66, 22, 221, 3, -121, -44, 21, -130, 16, 206, -7, -59, -39, 5, 143, -91, 4, -95,
+                58, -88, -53, 135, -49, -77, 125, -27, 107, -3, 35, -99, -263, 134, 127, -74, 5, 43, 165, -124, -308,
+                83, 92, 245, 96, -189, -48, 41, 45, 19, 77, 118, -150, -30, 32, -99, 16, 235, 29, 6, -112, -41, -71,
+                -49, -172, -1, 45, 305, -189, -91, 172, -56, 68, 106, 97, -47, 26, -162, 2, -78, -140, 227, -145, 38,
+                110, 16, -145, 51, -164, -144, 158, 105, -58, -27, 126, 16, 130, 35, -164, 20, 86, -52, -56, 12, -140,
+                32, -168, -11, -33, 169, 190, -27, 71, 181, 22, -111, 15, -3, -37, -127, 86, 79, -159, 92, -99, -8, -6,
+                28, -239, 94, 84, 13, -146, 44, 161, 2, -127, 140, -56, -3, -176, 31, 115, 88, -99, 7, -64, 37, -40, 87,
+                12, 73, 143, 173, -45, -141, -115, -17, 40, -25, -156, 4, -71, -47, 90, 69, 68, 56, -66, -196, 38, -82,
+                129, 54, 16, 118, -80, 50, -24, 43, -58, 35, 155, -109, -155, 57, 124, 24, -44, -252, 209, 48, -6, -83,
+                72, -65, 128, 174, -118, -90, -366, 317, -49, 95, -42, 0, 0, 57, -178, -56, 77, 46, -26, -23, 104, 69,
+                -54, 71, -113, -141, -57, 161, 72, 73, 199, -46, -61, -105, 144, 145, -256, -7, -18, 56, -44, 12, 54,
+                -13, -22, -12, -57, 70, 120, -67, 79, 240, -200, -173, -48, -31, -51, -186, 51, 158, 102, 17, 338, -97,
+                74, -7, -27, -139, 46, -175, -96, -182, 206, 30, -208, 2, 78, 183, 80, -51, 66, -216, 7, 34, 137, -44,
+                34, 2, -71, -62, 111, -7, 74, -69, -84, 20, 263, 102, 54, -12, -179, -152, 204, -206, -258, -96, 57,
+                -81, 2, 391, 76, -55, -43, 130, -107, 40, -116, 88, -122, -33, -129, 37, 12, 4, 188, 55, -83, 50, -139,
+                -57, 190, 28, -10, 34, -118, -261, 105, 48, -233, 257, 146, 68, -251, -221, -98, 215, 344, 106, 72,
+                -156, 187, 12, 261, -77, -84, -52, -109, -125, 55, -113, -163, 161, -30, 213, -154, 44, -37, -17, -144,
+                -148, 39, 102, 140, 78, 18, -110, 1, 181, -51, 79, -94, -11, 75, 272, 36, 102, -305, -120, 1, -48, 29,
+                -29, -79, -190, 137, 186, 24, -66, -101, 32, -55, 331, -20, -71, -26, -78, -70, -114, -71, 97, -87, 179,
+                215, -136, 227, -38, -151, 4, -37, 226, -110, -109, 218, 79, 60, -78, -222, -115, 109, -39, -192, 21,
+                -168, 79, -28, -68, -32, 400, 64, 69, 157, -142, -25, -16, 4, -99, -61, 51, -12, -67, 44, -113, 185,
+                -15, -18, 15, -32, 17, 133, 82, -148, -37, 36, -129, -206, -14, 0, 47, 258, 21, -12, 48, 57, 54, -3, 22,
+                -109, -44, -163, 90, 53, -172, 78, 10, 186, -71, -98, -131, 16, -15, 265, 76, -104, 4, -42, 39, 17, -41,
+                60, -74, 50, 4, -144, 135, 15, 151, -63, 105, -74, -114, -67, 200, -218, -40, -76, 37, 203, -28, -37,
+                102, -1, 68, -52, 27, 49, -144, -102, 93, -65, 127, -14, -39, -9, 21, 42, 3, -133, 131, 69, -97, 9, -13,
+                -34, -12, -98, -104, 4, -9, 180, 86, -51, -250, 77, -242, 133, 299, 104, -59, -170, -184, 123, -30, -8,
+                -16, 145, 153, 243, -65, 26, -267, 34, -54, 37, 58, 118, -557, 54, 327, 138, 17, -56, -28, 169, 291, 90,
+                45, -80, -269, -225, -9, -133, 35, 224, 185, -134, -62, -89, -13, 420, -23, 96, -289, -201, 23, -189,
+                175, -67, 49, 756, 18, -39, -304, -128, -272, 114, -44, -108, 31, 318, -34, -151, -113, 160, 58, 102,
+                51, -88, -100, 9, -179, -115, 3, 114, 217, 125, -119, -129, -83, 190, 105, -141, 138, 8, -204, -148, 64,
+                14, -65, -110, -69, 43, -185, 129, 255, 8, -82, 120, -74, 46, 64, 58, -126, 260, -231, -126, -80, 269,
+                -60, -64, 46, -92, 108, -3, 108, 96, -280, -21, 96, -82, -249, 6, -33, -87, 3, 313, 141, -64, -254, 77,
+                225, -426, 198, 82, 174, -39, 53, 35, 183, -184, -341, 206, 100, -57, -117, -273, -14, 20, 260, 240,
+                -48, 26, -71, -76, -134, 217, 8, 41, 1, 47, -56, -140, -274, 173, 143, 76, 43, 3, 30, -124, -152, 52,
+                32, 137, 35, 17, 176, -16, -60, 99, 232, -511, 77,
+            ],
+            [
+                455, 117, -356, -272, -361, 51, 163, 122, 222, 410, -39, -231, -100, 365, -237, -471, 174, -155, 156,
+                841, -179, -524, -526, 133, -286, -14, -140, 159, -212, -149, 205, 356, -477, -111, -92, -162, -210,
+                186, 840, -54, 17, -158, -65, -266, 163, 208, 12, 9, 175, 190, 18, -411, -13, 313, -144, -209, -94, -85,
+                -54, 219, -492, 18, -66, 474, 139, -40, 277, -370, -607, 278, 434, -190, 46, -526, 216, 219, -169, -424,
+                181, 377, -66, 91, 486, -13, -46, -165, -162, -205, -29, -284, -310, -138, -42, 314, 578, -170, 539,
+                -275, 187, -70, -83, 161, -463, -76, -133, -406, 549, 268, -327, 269, -347, 47, -54, 97, 701, -465,
+                -197, 87, -69, -182, 252, 131, 135, -3, 163, 181, -300, -639, 108, 83, -584, -192, 115, 449, -12, -48,
+                -43, -514, -199, -173, 559, -268, 274, 283, 306, 112, 279, 39, -97, -175, 229, -775, 410, -211, 334,
+                -207, 104, -237, -368, 93, -236, 157, -285, 136, -90, 181, 129, -72, 76, 63, -298, 534, 233, 94, -174,
+                -609, -185, -57, -469, -43, -69, 582, -27, 187, 156, 181, 259, -94, -276, -123, -237, 54, -42, -727, 24,
+                590, 274, -124, 76, -151, -153, -277, 506, 162, 669, -265, -485, -238, 113, 201, -28, 63, -254, 15, -85,
+                -106, 111, -347, 154, -404, 237, -141, 260, 51, -86, -208, -104, -43, 249, 14, 246, -149, -61, -18, 125,
+                -1, -156, 8, 47, -26, -854, -21, 1000, -388, -202, -97, 132, 349, 195, 118, -641, 372, 17, -60, -274,
+                191, -307, 77, 217, 129, -381, -194, 348, 29, -49, 176, 22, -181, -446, 122, 190, 86, 14, 331, 9, 395,
+                283, -193, -519, -400, 381, -278, 98, -8, -25, 124, 6, -378, 58, 99, 96, -565, 241, -320, 193, 118, -98,
+                161, 3, -146, -88, -454, 917, -375, -136, -36, -157, -51, 43, -50, 91, 216, 141, 56, 152, -109, -395,
+                -12, 190, -104, 93, 204, -157, 297, -525, 113, 84, -190, -46, 123, 215, 449, -342, -680, 123, 78, -149,
+                800, 273, -62, 249, -544, -376, -271, 308, -437, 72, -546, 362, 654, -379, -114, -112, 467, 60, 343,
+                -20, -287, -425, -108, -22, 147, 285, 302, -549, -56, -41, -146, -26, 210, -183, 175, -125, -68, -284,
+                220, -188, 3, -163, -283, 410, 73, 198, -130, 82, 93, 322, 268, -203, -311, 11, -342, 29, 157, -424,
+                293, -28, -6, 117, -218, 94, -151, 44, -18, 235, 137, -33, -389, 134, 73, -91, -339, -281, 98, 8, 317,
+                460, -103, 88, -57, 132, 50, -496, -154, 398, 320, 266, -598, -201, -77, -155, -35, 182, -28, 18, -379,
+                -165, -5, 32, 265, 443, 197, -49, -72, -254, -60, 105, -390, -220, -247, -53, 126, 91, 44, 229, -51,
+                267, -337, 35, -86, -60, 69, 0, 30, 229, 130, 224, 196, -286, -274, 26, -325, 332, 410, 76, 82, -212,
+                -131, -577, -61, -494, -49, -263, 28, -383, 632, 471, -22, -64, -226, -144, -176, -84, 325, 213, 74,
+                169, 135, -306, 0, -423, 51, 11, 282, -214, 5, 260, 86, -368, 40, 1, 110, 137, 190, 5, 110, 3, -330,
+                201, -395, -44, 379, -274, -138, 58, 97, -177, 17, 293, -69, 45, -124, -141, -138, 34, 20, -848, -322,
+                212, -318, 218, 93, 397, 488, -143, -558, 324, 367, -150, 423, -351, 7, -310, 168, 194, -299, 89, 45,
+                252, -220, 675, 431, 398, 85, -817, -410, -13, -428, -319, -308, 20, 23, -7, -51, 313, 249, 164, 459,
+                327, 10, -468, -322, -21, -229, -29, 231, 31, -146, 134, -320, 71, -53, -304, 371, 318, 847, -147, -4,
+                -561, -600, 244, -59, 268, -186, -266, -184, 121, -18, -22, 7, -467, -427, 538, 536, -177, -69, 177, 90,
+                -165, -145, -271, -19, 135, 118, 229, 37, -64, 74, -238, 67, -135, -49, 133, -371, 68, 113, 125, -169,
+                -83, 102, 156, 147, -586, -192, -8, 338, 490, -425, -66, -901, 149, -46, 162, 136, 196, 289, 392, 365,
+                -847, 422, -70, -84, -542, 284, -103, -132, 53, -600, 291, -23, 244, 190, -582, 77, -338, -399, 231,
+                -493, 606, 818, 55, -266, 345, 23, -64, -134, -12, -27, -54, -35, 155, -38, -389, 321, 124, -164, 77,
+                70, -395, 114, 164, 184, -67, -228, -40, -488, 70, 202, 127, 279, -265, 35, 152, -318, -362, -660, 325,
+                180, 376, 227, -374, 140, 67, -222, 910, -387, -193, -22, -345, -49, 194, 369, 35, -138, -29, -116,
+                -314, 73, -488, -125, -17, -227, 451, 566, 332, -300, 82, 498, 106, -263, -89, -447, 117, 425, -27, 189,
+                -494, -287, -226, 224, 54, -295, 43, -53, -60, -133, -75, 438, -101, 1, 13, 131, 37, 82, 67, -311, 192,
+                -76, 256, 232, 4, -7, -849, 168, 236, -156, 77, 33, -99, -221, -28, 78, 293, -115, -126, 18, 81, -83,
+                -68, -81, -123, -47, 568, 35, 98, 212, -246, -578, -267, 450, -11, -269, 206, 169, -94, -265, -198, 84,
+                -373, -99, 394, 260, 22, -170, -13, 159, 478, -32, -158, -287, -250, 22, 13, -148, -931, 28, 262, 210,
+                240, 245, 622, 638, 339, -237, -603, -798, 146, -187, -295, -108, -160, -162, 279, 398, -62, 30, 169,
+                -86, -213, 222, 20, -294, -76, 178, -239, -179, 22, -348, -315, 318, 251, 409, 70, 87, -303, -344, -329,
+                346, 371, 22, -50, 130, -205, -16, 25, -231, 303, -37, -161, -263, 146, 416, -388, 127, 170, -128, 15,
+                20, 344, 243, 54, -114, -203, -439, 197, 255, 179, -59, -184, -1, -561, 94, -191, 178, -92, 92, -8,
+                -424, 172, 192, 290, -576, -471, 324, 170, -106, 128, 160, -18, 64, -450, 174, 237, 10, 44, -142, -271,
+                58, -166, 46, 239, 127, 23, -136, 197, -587, 341, -17, 237, -377, 88, 36, 110, 35, -51, -890, 335, 196,
+                62, 122, 153, -59, 288, 398, -22, -195, -386, -257, 474, -282, -132, -208, -102, -304, 151, 321, -194,
+                108, -211, -379, 147, 175, 210, 65, -394, 143, 153, 45, 168, 36, -15, -217, -445, 326, -469, 322, -467,
+                -2, 502, 152, -115, 17, 501, -249, -48, -71, 110, -227, -409, -436, 728, 390, -610, -32, 492, -204, 844,
+                -75, -178, -233, -309, -274, -31, 175, 457, 422, -146, -143, -327, -487, -183, 327, -77, 257, -443,
+                -138, 96, 10, 166, 48, -136, 387, -177, -581, 423, 273, -60, -210, 167, 171, 66, 122, -151, -286, -153,
+                -17, -434, -2, 361, 37, -34, -243, -56, 290, -731, -128, 118, 508, -221, 329, 129, -85, -40, -272, 42,
+                58, -281, -160, 486, 87, -480, 146, 165, 70, -82, 163, 195, -258, 281, -168, 94, -301, 300, -103, -266,
+                81, -318, -26, -472, -141, 423, 163, 173, 117, 380, 55, -992, -149, 395, -91, 309, 12, -205, -159, 188,
+                372, 59, -323, -313, 301, 243, -11, -144, -439, 101, 38, -308, 441, 396, -304, 247, -343, 270, 157,
+                -244, -259, -285, 43, 28, -155, -90, 100, 396, -117, 147, 175, -44, 44, 278, -81, -67, -534, 572, -71,
+                32, 154, 122, -235, -407, -249, -193, -167, -164, -118, -335, 213, 342, 343, 92, -209, 101, -281, 56, 8,
+                249, -97, -640, 161, 854, 484, -84, -120, -28, -708, 68, 133, -51, 38, -193, -942, 661, 205, -364, 131,
+                129, 445, -216, 180, -358, -26, 17, 262, -242, 255, -331, -179, 156, -18, 179, 165, -150, 291, -137,
+                -296, -358, 225, 185, 60, -44, 202, -265, -560, -14, 356, -219, -588, -49, -403, 401, 662, 103, 13,
+                -164, -18, 120, -39, 333, -510, -105, 302,
+            ],
+            [
+                -150, 186, -129, 80, 367, -3, -435, 104, -277, 189, -27, -185, 72, -200, 182, 266, -134, 46, -412, -440,
+                -130, 101, 464, 525, 314, -5, -337, 506, -104, -333, 173, -196, 91, -14, -80, -56, 186, -276, -207, 375,
+                -91, -80, -196, -381, 1, -43, 554, 256, -23, -25, -185, 108, 50, -144, 71, 167, -49, -3, -46, 551, -43,
+                -207, 48, -231, 268, -130, -26, -59, -31, -159, -29, 184, -8, 92, 192, -356, 154, 35, -182, 94, -605,
+                -59, -171, 409, 399, -29, -87, 162, -3, 232, -91, 9, 55, -33, -78, -71, -121, -76, 33, 23, 114, -122,
+                107, 60, -35, 179, 17, 455, 17, -279, -314, -20, 75, 69, 433, 76, -133, -166, -6, -328, -45, -226, 101,
+                123, 211, -89, 63, -119, 42, -144, 546, 64, -167, -54, -78, -189, 216, 201, 61, 100, 56, -455, -1, -159,
+                -106, -62, 130, 182, -61, 182, 125, -371, -337, 29, -181, -278, 144, 83, 193, 367, 292, 382, -186, -207,
+                -13, 52, -194, -105, 56, -111, -244, 145, -171, -2, -86, 432, -124, 356, -276, 58, 221, 332, -510, -37,
+                154, -475, -119, 90, 12, 195, 47, 115, 216, 116, -166, -230, -193, 6, 149, 121, 39, 10, -231, -145,
+                -271, 233, 150, 235, 66, 106, -137, -112, -9, -6, -58, 170, -5, 59, -91, 213, -18, -30, -36, -71, 8,
+                218, -53, 137, -179, -207, -28, 122, 42, -130, 135, 360, 18, -213, -290, 98, 57, 363, -545, 185, 32,
+                -23, -53, 5, -52, 91, 72, 62, 73, -283, 256, -199, -20, -146, 23, 332, 357, 13, -496, -43, -72, 13, -53,
+                -145, 25, -24, 26, 251, -142, -4, 353, 193, -145, -161, -14, -60, -209, 26, -58, 146, -150, -169, 258,
+                176, -120, 161, 43, 45, -22, 0, 56, -143, 47, -162, 228, 60, 87, 119, -231, -129, 83, -10, 75, -220, 82,
+                9, 94, -93, 15, 40, 105, 38, 34, -318, 22, 84, 24, -103, -219, 28, 108, 63, 18, 101, 72, -81, 144, -252,
+                -40, 194, -214, 195, -357, 545, 39, -5, 253, 80, -327, -207, -29, -239, 94, -44, 278, -60, -144, 162,
+                -9, -13, 26, -109, -28, 54, -48, 146, -140, -353, 34, -251, 449, 11, 190, 80, -378, 70, 302, -33, -80,
+                22, 161, -43, 27, 13, 434, -353, 59, 23, -134, -49, -73, -368, 3, -200, 334, 124, -3, 202, 216, -110,
+                294, 144, 48, -85, -277, -211, -507, -321, -393, -48, 225, -19, 841, 241, -301, 415, -37, 404, 73, -225,
+                -201, -109, -364, 31, -284, 143, -272, -204, 676, 295, 492, 172, -315, 363, -402, -71, -158, -61, -352,
+                -4, -303, 134, 211, 487, -86, -68, 725, -393, 401, 26, -363, -286, 135, -226, 140, -133, 809, -565, -79,
+                -18, -18, -116, 655, 200, -31, 107, -248, 279, 8, -951, -426, 480, -313, 182, 234, -218, 506, -425, -93,
+                625, -268, 104, -372, -57, 132, -53, 302, 418, 192, -466, 369, 164, -511, -448, 579, -268, -310, 112,
+                45, 109, 40, -287, 82, 60, 314, -102, 349, -270, -18, -396, -49, -174, 437, 193, 391, -434, -468, 122,
+                211, 24, -211, 517, -61, -202, 132, -392, 224, 253, 200, 475, 138, -105, -505, -659, -29, -383, -299,
+                218, -272, 469, 144, 171, 76, 31, -222, -397, 134, 256, 73, 68, 694, 330, 200, -333, -127, -389, -574,
+                219, -125, -288, 87, -493, -94, 250, 487, 195, 83, 259, -248, 134, -486, 79, 162, 37, -1, -235, 22, 486,
+                34, -288, -54, 56, 159, 172, 151, -115, -175, -89, 164, -247, 223, 655, -196, -126, -253, -114, -206,
+                37, -280, 14, 354, 754, -30, -89, -536, -167, -292, -246, 103, -452, 546, -100, 488, -27, 687, 83, 272,
+                -68, -430, -215, -122, -188, 15, -389, -304, 290, 94, 324, 171, -181, 428, 512, -261, 225, -232, -81,
+                -53, -517, 409, 518, -144, -425, 385, -311, 73, -484, 6, -43, 72, -76, -152, -10, 20, 203, 224, 21,
+                -131, -156, -158, 32, 125, 64, -151, 141, 59, -245, 154, 240, 6, -183, 29, -97, -151, -13, 159, 115,
+                -93, 70, 87, 226, 142, 353, -99, -282, -270, -136, 165, -149, 42, -126, -150, -17, 409, -154, 92, 97,
+                -230, 86, -236, 94, 37, 79, -1, -87, 102, 3, 171, -60, -78, -30, 150, 353, 23, -188, -268, 4, -26, -28,
+                95, -241, 315, -33, -40, -54, -180, 158, 239, 148, -65, -42, -349, 183, -22, -71, 125, -93, -15, -182,
+                210, -175, 7, 143, 138, 72, -47, 15, -226, 27, -23, 63, 413, 423, 137, 63, -82, -15, -210, -710, -476,
+                90, 158, -65, -153, 84, 326, 56, 60, -119, 227, 65, 33, 98, -98, -246, 226, 353, -95, -143, 169, -71,
+                -349, -71, -180, -49, 14, -217, -383, 113, 461, 262, 309, -396, 89, -74, -240, 163, 455, -285, 53, -72,
+                -371, -17, 109, -159, 161, 316, -871, 154, 259, 258, 237, 231, 0, -249, 48, 363, -273, 427, 83, -300,
+                -238, -89, -96, 194, 74, 428, -481, 311, -412, 3, 32, -42, 289, 20, -627, -212, 277, 282, 312, -71, 217,
+                -82, 143, -133, -487, 121, 294, 232, 189, -926, -614, 377, 102, 365, -294, -102, -256, 540, -160, -369,
+                430, 231, 177, -409, -606, 134, -153, 105, 213, 559, 598, 212, -625, -52, -140, -233, 294, -35, 109,
+                314, -26, -217, -80, 207, 184, -472, 259, 732, 354, -305, -522, 86, -154, -430, -90, -70, 211, -250,
+                -397, 121, 272, 224, -50, 219, 59, 115, -541, 100, -41, 159, -226, 8, 143, -137, -25, -299, 344, 211,
+                423, 101, 298, -377, -180, -511, -81, 347, -96, -103, 256, 184, -271, 303, -192, -62, 85, 153, -611,
+                580, 206, -72, -92, -229, 12, -126, -94, 447, -52, 51, 234, -454, -163, -982, -57, 338, 5, -205, 83,
+                1000, -93, 270, 45, 402, -239, -296, -102, 33, 241, -57, -269, 233, 432, -227, -662, 328, 94, -458, 784,
+                -133, 130, -534, 64, 74, -86, -212, -323, -214, 161, 2, 818, -128, -301, -170, 232, 61, 518, -516, 513,
+                -316, -337, 586, -487, 409, -351, -409, 578, 31, 337, 145, 231, 470, -197, -265, 8, -709, 132, -315,
+                -144, -511, 15, 639, 182, 22, -108, -534, 32, 632, -259, 375, -61, -59, 208, 616, -83, -287, -330, -145,
+                -44, 84, 217, 300, -546, -354, 261, -261, 180, 223, 180, 300, -265, -523, 64, 94, 119, 50, 22, 141,
+                -107, -17, -202, -179, 133, 229, 36, -199, 130, -238, -243, -53, 350, 237, -664, -145, 416, -273, 44,
+                146, 236, 261, 32, -343, -258, 162, 170, 288, -170, 139, 313, -674, -159, -82, -19, 293, 236, 112, 34,
+                -1, 132, -72, 93, -152, 55, -68, -200, 263, 212, -98, -60, -18, 177, -256, -32, -69, 76, 64, -143, 35,
+                191, -100, -30, -136, 78, -226, -109, 202, 318, -78, -93, -17, -69, 143, -253, -118, 7, 420, -3, 77,
+                -187, 69, 3, -151, 108, 104, 229, -31, -267, -39, 14, 83, -58, 89, 184, 29, 70, -21, -18, -83, -330,
+                189, 65, 209, -19, -123, 99, -69, -35, -108, 130, -156, 43, 68, -208, -22, 159, 5, -182, -10, -120, 428,
+                41, -86, -36, -16, -115, -60, -454, 92, -271, 293, 125, 410, 97, -188, -52, 5, -117, 155, -102, 221,
+                -274, -12, 161, 230, -467, 268, 105, 7, -192, -170, 136, -116, 251, -168, 211, 67, -172, -76, 173, 176,
+                -183, 534, -330, -103, 79, -126, 205, 32, -199, -130, 114, 45, 205, 42, -190, -59, -139, -4, 270, -105,
+                316, -84, -27, 52, -121, 24, -170, 31,
+            ],
+            [
+                499, 12, -246, -184, -55, 136, 21, -65, -319, -42, -329, -182, 18, 102, 508, 362, 105, -246, -373, 326,
+                -334, -29, -141, 810, -700, 210, 212, -95, 139, 162, -78, 269, -427, -226, 5, 127, 108, -100, 100, 531,
+                -39, 165, -17, 23, -317, -165, 19, 451, 95, -163, -192, 199, 87, 185, -6, -87, -24, 14, -187, 362, 167,
+                -67, -195, 48, 507, -201, 32, 151, 401, -269, -250, -255, -132, 126, 164, -334, 338, 313, -126, -230,
+                90, -232, -38, 88, 331, 147, -123, -144, -8, 284, 187, 72, -8, -348, 319, -381, -263, 315, -42, 67, 92,
+                238, -300, 12, 520, -96, -346, -202, 35, -114, 429, -108, 368, 341, 1, -145, -127, -171, -277, 127, 307,
+                243, -487, 157, 238, 183, -158, -364, -292, 384, -87, -322, 456, 368, -242, -147, 105, 225, 419, 112,
+                -443, -319, 482, -464, -441, -131, 253, 284, -120, 95, 372, -195, -26, -61, 245, 78, -108, 164, -226,
+                52, -182, -197, 200, 588, -97, 6, -166, -35, -88, 127, -307, 95, 75, 53, 189, -25, 49, -532, 463, -80,
+                346, 110, -179, -58, 705, -46, 342, -42, -156, -119, -150, -415, 213, 141, -253, 350, 80, -336, -37,
+                -39, -40, 214, -97, -305, 301, -179, 53, 172, 185, -89, 519, 22, -93, 116, -401, -143, -79, -218, -277,
+                64, 7, 315, 169, 137, -44, 121, -96, -98, 214, 70, 153, -202, -83, 42, 182, -171, -301, 178, -59, 331,
+                -4, 103, -468, 354, 217, 161, -230, -15, 94, 139, 513, -47, 22, -292, -404, 91, -86, -163, 2, 552, 127,
+                -324, -217, 228, -42, 476, -67, -71, -218, -36, 312, -237, -304, -204, -239, 203, 91, 303, 68, 200, 91,
+                360, 432, -34, -273, -207, -102, -149, -190, -93, 253, 98, 120, -270, -107, 307, 62, 4, -312, -387, -27,
+                -4, 11, 771, -452, -332, 161, 4, 489, -166, 640, -227, -63, 759, -26, -225, -485, -79, 75, 163, -229,
+                -157, 92, 194, 166, -285, -253, 591, 159, 104, -282, -3, -114, 110, 226, -82, 38, 456, -96, -2, -564,
+                311, 109, -134, 214, -229, -299, 191, 297, 86, -16, -125, 321, -215, -67, -219, 293, 435, -554, 126,
+                -220, -325, 394, -62, 126, -92, -6, 303, 46, 46, 341, 0, 55, -62, -243, -65, 65, 85, 148, -227, -115,
+                309, -151, 4, -309, -177, 155, -367, 137, -14, 355, 339, -151, 120, 225, -32, 414, -263, 33, -227, -244,
+                -74, 15, 151, -278, 686, -151, 13, 50, 450, 80, 55, -189, -184, -450, 307, -263, 206, 56, 9, 94, -101,
+                -380, 498, -108, -308, -620, 355, 48, 291, 37, 422, 5, -272, 59, -33, -179, 252, 66, 220, 357, -107,
+                116, -354, -68, -1, 93, 83, 419, -120, 38, -175, -1, 307, -394, 45, -114, -88, 235, 281, -32, -92, 221,
+                -292, -431, 112, -145, -79, 356, 84, 50, 172, -100, 29, -147, -361, 140, 208, 146, 202, -227, -386,
+                -188, 211, 359, -189, 315, 224, -147, -144, -100, -206, 342, 134, -59, 299, -30, 68, -383, -122, -18,
+                208, 376, 18, -142, 112, -80, -233, -71, 213, 438, -118, 306, -13, -83, -298, 161, -282, 173, 155, 233,
+                -117, -413, -58, 213, 34, 81, 144, -134, 135, -202, -324, 45, -271, 265, 606, 154, 50, 573, 287, -170,
+                -117, -376, -284, -395, 242, -72, -6, 185, -257, 374, 49, 23, 201, -84, 323, 54, -507, -287, 395, -228,
+                590, 242, 136, -60, -90, -217, -254, -55, 449, -113, -19, -176, 392, -194, -166, -72, -330, -373, -75,
+                245, 699, -32, 58, -305, -158, -193, 284, 84, 191, -301, 517, 248, -399, 216, -284, -74, 277, 136, -1,
+                437, -72, -14, -5, 18, -197, 17, -66, 284, 168, -25, 44, -52, -95, -204, -3, 45, 292, -160, -342, 265,
+                -153, 56, 115, -503, 429, -11, -104, 39, 45, 210, 13, 2, 8, 268, 292, -176, -246, 163, -193, -76, 190,
+                -15, 271, -176, 138, -77, -137, -3, -95, -334, 165, -32, 388, -83, 113, 206, 286, -104, 333, -463, 70,
+                -27, -182, -234, 29, 120, 166, -245, 1, 30, 252, -170, -54, -259, -244, 89, 229, 208, 318, -210, 48,
+                -231, 1, -95, 113, 305, 187, -37, -18, 241, -56, -244, 421, -239, 51, -170, 119, 103, 45, 131, -47, 67,
+                -129, 300, -573, 58, 191, -60, 38, -14, 179, 151, -169, 239, -71, 134, -159, -114, 107, 28, -14, 128,
+                115, 17, -151, 139, -144, -286, 241, -198, 191, -76, 7, 110, 129, 19, -167, -453, -31, 127, -17, 320,
+                320, -51, -135, 80, -35, 258, -118, 55, 64, -356, 85, 112, 52, -42, -134, 102, 298, 472, -62, -95, 135,
+                -275, 131, 33, -221, 0, -376, -398, -22, 618, 43, -12, 266, -242, -188, -262, 19, 110, 343, -7, 345,
+                506, 89, 441, -33, -403, -125, -41, -316, 456, -117, -131, -57, -105, -488, 158, 401, -157, -98, 191,
+                208, 98, 32, -157, 1, 7, -34, -427, -402, 543, 103, 211, 118, -24, 248, -192, 449, -74, 64, -193, -160,
+                183, -65, -288, 48, 185, 29, 153, -127, -19, -19, 124, -158, 136, -15, 23, 47, 19, -300, -28, 1000,
+                -380, -272, 114, -35, -140, -73, 12, 16, 78, 46, 200, -20, 200, 464, -63, -467, -55, 28, -214, 225, 447,
+                69, -711, -303, 420, -105, 217, 84, 217, -213, -104, -61, -54, 107, 187, 40, 86, -144, -122, -147, 204,
+                35, 138, 70, -247, 26, 309, 199, -152, -45, -55, 83, -213, -53, 98, 71, -10, 19, 76, 130, -88, -312,
+                102, -5, 0, 387, 304, -269, -131, 139, 199, 156, -246, -113, 149, -35, 487, 87, 186, 34, -322, -239, 26,
+                -141, -8, -81, -94, 303, -3, 339, -95, -241, -460, 97, 283, 60, -85, 136, -466, 552, -98, 177, -45, -66,
+                83, 158, 98, -189, 99, -42, 101, 118, -172, 91, 135, -211, -104, -122, -71, 326, -83, -30, -366, 567,
+                -397, -232, 541, 106, -46, 150, 6, -11, 1, -158, 29, -176, 207, -201, 347, 68, 396, -407, -164, 140, 34,
+                55, 223, -159, -33, -100, -106, 213, 254, 129, -306, 65, 69, -391, 414, 16, -139, 110, -7, 47, -185,
+                -99, 169, 157, 123, -40, 46, -53, -203, 390, 126, 11, 173, -543, -33, 197, -463, 64, -241, 248, 356,
+                -439, 266, 327, 93, -311, 288, 449, -158, -39, -146, -58, 41, 5, -292, 352, -91, -21, -198, 324, -163,
+                77, -41, 101, 97, 306, -416, 156, 93, 116, -232, -116, 8, 151, -123, 222, 455, 414, -178, -322, 165,
+                -41, -38, -337, -244, -477, 166, 86, 391, 248, -100, 49, 210, -145, -195, 442, -160, -106, 68, 6, -193,
+                114, 61, 96, 349, -110, -201, 1, -419, 226, -206, 320, 18, 154, 87, -63, -223, -160, -152, -213, 85,
+                222, 2, 557, 171, -181, -47, -177, 192, 206, -57, 11, 451, 332, 213, 61, -402, 23, -508, -52, 394, -199,
+                78, -5, 437, -21, -120, -446, 92, -345, 303, 172, -156, -95, 98, 50, -20, -10, -22, -199, 16, 93, 111,
+                149, 723, 66, 50, -67, 259, -410, -105, -398, 620, 89, 189, 85, -194, -126, -204, -341, 154, -189, 335,
+                450, -95, 62, -159, -440, 312, 6, 46, -120, 174, 128, 76, -504, 31, 39, 210, -257, 80, -28, 193, -150,
+                292, -124, 60, -413, -138, 520, -129, 52, -44, 185, 47, 62, 21, -146, 17, -24, 73, 259, 161, 139, -139,
+                -363, -30, 19, -121, 26, 308, -34, 95, -109, 10, -56, -214, -302, -110, 85, 144, -98, 229, 384, 123,
+                119, 251, 283, -423, -175, -182, 122,
+            ],
+            [
+                264, -169, 106, 23, -123, -99, 140, -195, -72, -36, -21, 54, -36, 13, -16, 62, -298, -45, -257, -297,
+                -115, 126, 234, 598, -103, 21, -230, 24, 175, -99, -25, 184, -195, 156, -31, -98, 189, -35, -183, 145,
+                -11, -108, -113, 189, 193, -97, 332, -436, 111, 160, 66, 13, -112, -75, -254, 39, -26, 139, -47, -71,
+                108, -103, 78, -131, -484, 160, 110, 211, -138, 38, -7, 58, -27, 49, -476, -38, -22, 259, 109, 94, -235,
+                -209, -294, -117, 757, 286, -69, -172, 134, 158, -75, 42, -130, 139, -64, -255, 217, -35, 163, 111, 104,
+                -113, -272, -227, 129, 55, 134, 41, -201, -101, -49, -59, -115, -59, 261, -121, -96, -35, 134, -21, 55,
+                66, 16, 178, -110, 43, -272, -28, -89, -13, 38, -70, -50, -87, 53, 166, -222, 67, 218, -28, -56, 147,
+                -314, 135, -53, -33, 44, 14, 59, 187, -219, -52, 71, 110, -327, -387, 101, 148, 181, 50, -82, -309,
+                -116, 91, 234, -70, -2, 202, 44, 238, -18, -8, -44, 10, -174, -101, 190, -455, 155, -9, 90, -67, -9, 51,
+                -742, 171, 259, 97, 109, 143, -37, -52, -313, 211, 7, 45, -35, 13, 16, 4, 232, 117, -131, -470, 21,
+                -231, 190, 221, -127, 84, -67, -97, 56, 48, -60, 111, -28, -57, -55, 129, -71, 115, -19, -65, -150,
+                -104, -125, 41, 219, 235, -143, -25, -92, 7, -186, 143, -62, 153, -37, 23, 124, 41, -88, 357, 41, -121,
+                -183, -223, 8, -22, -140, 271, -143, 45, 54, -124, 75, -62, -217, -154, 384, 37, -312, 196, 40, 207,
+                125, 134, -128, -256, -6, -169, 110, -11, 279, -169, 84, -155, 31, -222, -112, 74, 104, -35, 73, -391,
+                102, 132, -188, -53, -42, -89, 112, 316, -76, -31, -123, -6, -113, -70, -77, 30, 147, 159, 63, 21, 239,
+                29, 255, -393, -120, -146, -108, -26, 153, 263, 165, -525, 45, -19, -19, 191, 43, -53, 79, 106, -146,
+                -253, -4, 5, -222, -118, 221, -36, 77, 24, -418, -191, 39, 38, -16, 153, 140, 204, -244, -87, 17, 195,
+                128, -85, 29, -6, -71, 54, -57, -242, 2, 8, 69, 186, -21, 176, -723, -278, 623, 140, -234, 264, -326,
+                -75, 355, -42, 22, -128, 110, 33, -256, -204, 169, -253, 1000, -155, -200, -153, -362, 89, -78, -238,
+                191, 9, 127, 209, 185, -257, 127, 713, -8, 19, -352, -479, -594, -208, -484, 125, 362, -228, 820, 153,
+                94, 280, 235, -181, -239, -23, -63, -156, -184, 112, 18, 224, -254, -165, 105, 92, 374, 134, -134, 622,
+                -312, -416, -269, -51, 89, 203, 37, -622, -83, 178, 5, 142, 494, -4, -282, 189, -298, -3, 145, -293,
+                -204, -76, 717, 47, -283, -306, 173, -121, 141, 138, -174, -175, 69, 201, 181, -433, 302, 67, 85, -11,
+                -173, -330, -41, 50, 35, -27, 36, 124, -247, 22, -237, 243, -231, -140, -75, -220, -152, 467, 253, 46,
+                77, 102, 72, -279, -310, 14, 114, 158, 101, 0, 116, -27, -546, 63, 73, 168, -67, -22, 314, 71, -590,
+                -131, 109, 262, -293, -66, -4, 252, -47, 185, -160, 81, 250, 43, -138, -56, -3, -97, -254, 202, 398,
+                225, 95, -467, -120, 3, -53, -132, -707, -5, 170, 424, -31, 200, 145, -247, -374, 14, -64, 48, 199, 281,
+                -83, -73, 108, 123, -80, 19, -2, -90, 11, -141, 16, -381, 320, -10, 286, 9, -352, 60, 212, 195, 199,
+                -153, -48, -98, 54, -413, -36, 342, -55, 199, -236, -144, -153, 31, -182, 177, 269, -57, -62, -148,
+                -378, 328, -178, -181, 79, -307, 25, 8, 211, 289, 71, -185, 182, 130, -180, -142, 38, 33, -78, 149, 39,
+                248, 24, 2, -262, -175, 25, 53, -357, -159, 114, 132, -27, 166, -236, -23, -20, -1, -44, 58, 7, 207,
+                -45, -8, -15, -135, -67, -92, 327, -17, -49, -68, 80, -131, 124, -108, 96, 3, -6, -14, -16, -11, -113,
+                66, 162, -122, -62, -46, 195, -170, -134, 78, 129, -42, 22, -143, -146, -107, 7, 215, -2, 102, -130, 86,
+                102, -8, -70, 80, -168, 55, -275, 186, 44, -137, -77, 124, 19, 66, -31, 236, 73, -27, 80, -273, -211,
+                101, 182, 17, -163, -88, 29, -3, -38, 12, 159, -388, 56, 83, 49, -51, -14, 53, 150, 221, 142, -243,
+                -193, -111, -48, 32, 181, -18, -130, -82, 233, -142, -57, -37, 189, -22, -197, -263, 143, -47, 77, 69,
+                -416, -113, -1, 131, -34, 177, 15, 188, -212, -304, -118, 23, 189, 153, 115, 102, -59, -123, -27, -57,
+                108, 256, 45, -196, -137, 95, 165, 202, -90, -122, -28, -138, -68, 116, -130, -195, 66, 69, 187, -98,
+                112, 99, 464, 108, -106, 55, -922, 137, 89, 13, -173, -209, 164, -1, 160, -95, 37, -101, -204, 40, 13,
+                -204, 411, -44, -347, -103, 219, 216, 134, 116, -243, -45, -70, -93, 209, -6, -212, 75, -118, 163, 38,
+                118, 187, -138, -237, 167, 26, -213, 2, -6, 328, -99, -424, -41, -31, 218, 357, -129, -207, 131, 38,
+                187, -146, -283, 342, 346, 109, -581, -392, 48, 50, 26, 21, 79, -341, -465, 188, -120, 206, 381, -156,
+                -393, -237, -32, -163, 286, 71, 573, 241, -61, -280, -61, -287, 76, 310, 11, -236, 81, -179, -160, -18,
+                261, 88, 110, -28, 74, 19, 123, -188, 121, 125, -299, -55, 81, 305, 141, -473, 188, -108, -131, -16,
+                172, -158, -202, 160, 152, -176, 17, 6, 75, 32, -217, -243, 55, 135, 104, 140, -94, -172, -190, 57, 7,
+                241, -41, 121, -290, -76, 78, 273, -206, 73, -25, -206, 73, 119, -301, -133, 31, 249, 117, -45, -37,
+                -175, -46, 52, 26, -11, 183, 107, 193, 153, 25, -146, -231, -31, -122, 1, -225, -38, -306, 93, 313, -22,
+                130, -139, 203, 243, -231, -139, -91, 22, 81, 21, 469, -301, -188, -49, 246, -141, -109, 232, -12, 495,
+                242, -206, 57, -647, -214, 276, 124, -23, 110, -340, -34, -332, 167, 88, -340, 65, -300, 302, 196, -20,
+                -43, 377, -87, 10, -902, 97, 70, 234, 149, 160, 92, 645, 92, 55, -304, -680, -114, -16, 321, 102, -552,
+                431, -125, -204, -8, -345, -222, -112, 132, 42, 170, 321, -39, -19, -62, -49, 116, -240, 124, 212, -136,
+                -57, 27, -96, 303, -186, 165, -172, -36, -134, 24, 369, 30, 243, 100, -239, -446, 282, 211, -20, 304,
+                -57, -166, -208, -398, 90, 210, -123, 354, 2, 31, -422, -196, -147, 404, 89, -43, -170, -276, 180, -90,
+                -153, -288, 132, 13, 346, -53, -32, -17, -130, 18, -181, -2, 17, -11, 24, 213, -39, -57, 377, 208, -244,
+                -135, 11, -173, 8, 11, 34, 65, -128, -89, 85, -37, 23, -40, -13, -45, 45, -57, 88, -52, 60, 80, -83,
+                -102, -24, 174, -124, -33, 49, 183, -34, -32, -405, -139, 123, 203, 127, 102, 7, 72, 112, -170, -144,
+                -157, -103, -38, -104, -143, 123, 50, 30, 132, 120, -177, 2, -46, -67, 361, -48, -197, -132, 501, -178,
+                -254, 329, -154, 11, -175, -84, 51, -198, -248, 60, -167, 305, 228, 181, -30, 255, -222, 19, -9, -31,
+                -215, -218, -245, 313, 46, 144, -148, -17, 73, 14, -23, -65, 164, -181, 54, -41, 25, -22, -146, -9,
+                -262, 27, 342, -93, 112, -24, -21, 222, -203, 217, -199, 70, -115, 86, 45, -44, -209, 202, -121, -26,
+                16, 103, 155, -227, -47, -186, 306, -155, 0, 22, -175, -165, -36, 72, 107, 205, -81,
+            ],
+            [
+                136, 151, -44, 122, -88, 90, -336, -83, -114, 2, 150, 74, -254, 207, -391, 274, -501, -70, 314, -32,
+                196, 91, -108, 60, 531, -64, -182, 240, -744, 11, 70, 87, 233, -70, -31, 310, 110, 75, -262, -416, 156,
+                49, -51, -168, 195, -65, 6, -175, 187, 113, -235, -156, -26, 146, -339, 258, 195, -12, 17, 280, -36,
+                -252, -119, -126, -317, 67, -521, 335, 200, 1, 129, 55, -276, 121, 266, -529, 101, 228, -99, 138, -193,
+                -51, -267, 88, 316, 121, 60, -124, -120, 121, -107, -128, 102, -3, 297, -214, -113, 229, -92, -53, 6,
+                -220, 250, -59, -45, 134, -284, 115, 101, -41, -149, 118, -173, 22, -83, 92, -153, 181, 47, 15, 302,
+                292, -60, -273, 66, -125, 68, -321, -108, -17, -54, -132, 210, 165, -267, 152, 355, 254, -238, 168,
+                -498, -175, -45, 126, -421, -189, 101, -256, -348, 39, 495, 528, -174, -356, -321, 233, 86, 194, 32,
+                254, -66, -37, 272, -143, -41, -153, 186, -71, -57, -548, 252, -36, 149, -86, 131, 143, 66, 129, -537,
+                -245, -15, 236, 274, 40, -298, -498, 52, -202, 349, 116, 188, 243, 188, -763, -1, -94, 125, 67, 197,
+                229, -14, -138, -154, 380, -55, -196, -109, 234, -185, -8, -81, -185, 96, 166, -98, 243, -179, -31,
+                -179, 269, -169, 100, 93, 44, 84, 105, 129, 264, -36, -8, -580, -9, -192, -54, -131, -246, 250, -49,
+                217, 154, 60, 34, 361, -64, 46, -281, -84, -122, -224, 42, 543, -477, -29, -99, -104, 297, 18, -327,
+                169, 4, 112, -346, 289, 29, 200, 285, -111, 21, 139, 72, -156, -501, 131, 43, -283, -171, -280, 18, 99,
+                390, 25, 165, 240, 93, -50, -101, -51, -373, 201, -50, -47, -118, 200, -32, -417, 211, 149, -291, -44,
+                -10, 101, -60, 40, 64, -26, 9, -88, -255, -324, 47, 274, 312, 329, -255, 323, -91, -478, -223, 240, 103,
+                -4, -44, 58, -177, 326, 61, -173, -98, -188, -40, 123, 288, -199, -352, 361, -43, -285, 380, -272, -58,
+                -7, 165, 256, -232, 33, -156, -320, 7, 220, 86, -183, 263, -150, 206, -204, 319, -194, 12, -18, -23,
+                -67, 17, -571, -80, 333, 336, -148, 129, -64, 118, -15, -148, -76, -152, -31, 316, -248, -29, 193, -165,
+                -49, 154, -43, 137, 209, 266, 28, 14, 13, -118, -130, -334, -228, -223, -187, 526, -93, 124, -164, 195,
+                -418, 116, 362, -347, 297, -92, 59, -28, 131, 427, 131, -160, -151, 80, 5, -514, 67, 145, 400, 5, -220,
+                -136, -119, -192, 188, -67, 363, -662, 97, 22, 110, -102, 117, 109, 86, -496, 93, 524, -235, -250, -256,
+                -67, 42, -137, 114, 246, -61, 67, -84, 168, 344, 193, -225, -169, 24, -303, -563, -22, 142, 188, 50,
+                -18, 204, -33, 214, -189, -1, -170, -31, -51, -85, 261, 94, 36, -161, 150, 102, -39, -93, -140, 81, 33,
+                127, 318, -169, -234, 126, -333, -201, 86, -65, -397, 270, -31, -109, 395, 51, 86, -87, 157, -240, -49,
+                20, 12, -174, 180, -217, -27, 82, -77, 157, 25, 431, -119, -8, -57, -206, -160, -194, 261, -42, -253,
+                -138, -367, 309, -30, 199, 271, -38, 208, -148, -112, 88, -222, 249, -77, -136, 311, -60, -374, 303,
+                -192, -113, 210, 30, 220, -199, 92, 288, -320, 38, -200, 20, -49, 68, 159, 72, 115, -214, -223, 24, 220,
+                381, -88, -317, 25, -160, -137, -6, 21, -465, 135, 269, -141, -85, 222, -159, -119, -56, -186, 365, -3,
+                -20, 127, 87, 72, -153, -88, 12, 274, -145, -110, -67, 23, 285, 69, -182, 47, -21, -206, 114, -187, 68,
+                -90, 189, 53, -315, 116, -246, 115, -218, -237, 334, -32, 200, 32, -221, 156, -27, -82, 96, 86, 27, -86,
+                325, -263, 15, -56, 225, -74, 53, -279, -326, -295, 186, 47, 229, 101, -222, 228, -105, 89, -286, 0,
+                -400, 241, 438, -30, 53, -163, -21, 220, 22, -126, -180, 143, -117, 161, -127, -222, 170, 11, -138, 211,
+                135, -141, -107, 317, -10, -128, -3, -114, -139, -251, -68, -80, 76, 98, 26, 286, 53, -86, -21, -88,
+                -39, 88, 288, -247, -95, 201, 159, 97, -22, -336, 37, -93, 131, -184, -43, -412, 173, 144, 41, 99, 280,
+                -81, -163, -67, 205, -226, -79, 79, -143, -216, -25, 120, -2, 176, 141, -104, 82, 316, 181, 65, -351,
+                168, -304, -209, 164, -117, -188, -295, 153, -2, 322, -88, 405, 174, -421, -11, -201, -285, 54, 234,
+                274, 212, -102, -243, -169, 183, -119, -86, -206, -181, 89, -83, 249, 156, -5, -71, -367, -14, 10, -104,
+                337, -124, -67, 278, -240, 125, 176, 6, 29, 86, 100, -334, -183, 57, 361, -361, -155, -87, 103, 213, 47,
+                -249, -57, 2, 207, -151, 73, 76, 345, -17, -178, 82, 128, -601, -18, 209, -76, 110, -37, 153, 30, -47,
+                1, -185, 40, -16, -32, -71, -105, -9, 237, -95, 142, -178, -81, 150, 32, 56, -273, 101, 363, 19, 154,
+                95, -478, -279, -203, 278, 4, -22, -397, 14, 388, 350, 144, -533, 94, 311, 279, -543, 8, -61, -1, -138,
+                76, 403, -265, -646, 300, 112, -130, 97, -378, 178, 294, 349, -7, -293, -89, -105, -33, 39, 289, 63,
+                -364, 54, -128, 30, 9, -25, -138, -17, 71, -51, 124, -25, -178, -44, -12, 13, 178, 142, -97, -52, 36,
+                -131, 115, -140, 244, -9, -208, 40, 76, 27, 314, 123, -26, -378, -126, -61, 309, 118, 270, 253, 31,
+                -385, -468, -180, -423, 68, 163, 25, 340, -4, -33, -186, -314, -14, -96, -165, 178, 270, 84, 5, -251,
+                -329, 96, 123, -57, -107, -2, 476, 199, 22, 66, -78, -187, -155, 99, -19, 14, 219, 33, -308, -100, -34,
+                20, 104, -18, -95, -104, 1000, -246, -307, -182, -99, -166, -132, -47, -249, -13, 122, 247, 186, -129,
+                -23, 160, -32, 103, -190, 236, -177, -187, -267, -92, -157, 76, 79, 104, 393, 321, 55, -94, -68, -24,
+                104, -272, -74, 175, -39, 362, 115, 276, -62, -799, -80, 52, 39, 138, -264, 168, 28, -41, -173, 202,
+                -155, -421, 258, 114, -156, -68, 174, -450, -18, -35, 21, 423, -89, 133, -36, -88, 8, -68, 175, -311,
+                -26, 92, 168, 16, -57, 310, 173, -164, -298, -129, 98, -157, 12, -43, -57, 28, 69, -141, 238, -476,
+                -282, -141, -236, -119, 443, 486, 273, -112, -159, 56, -66, 60, 45, 185, -61, 186, 95, -131, -312, 23,
+                -1, 246, -158, 172, -379, -144, -195, 281, 52, 59, 103, -83, 4, 262, -60, -218, 100, -23, -32, 278, -19,
+                -463, 579, -52, -319, -199, 143, -84, -61, -138, -85, -12, 258, 373, -302, 280, -17, -231, 68, -119,
+                343, -149, -228, -85, -62, 152, -38, -242, 447, 156, -380, 115, -204, 207, -56, 145, -131, -66, -62,
+                -129, 172, -85, 42, 95, -92, 208, -263, 262, 13, -369, -328, -187, 209, 209, 140, 310, 107, 65, 26, 476,
+                -188, -410, -438, 497, -22, -248, -105, 215, -96, -122, -170, 178, -311, 74, -433, 175, 160, 317, -212,
+                -165, 3, 67, -162, 47, 355, -195, -2, 66, 160, -124, -107, -223, 147, -167, 198, -139, -469, 200, 50,
+                -285, 491, -129, 231, -238, 56, -237, 60, 261, -16, 28, 35, -159, 257, -15, 159, -239, -61, -129, 136,
+                -217, 77, 237, 118, -101, 266, -172, -259, -194, 135, 230, 377, -119, -140, -197, -142, 17, 22, -96,
+                -71, -145, -41, 114, 150, 203, 42, -338, -339, 117, -357, 459, 162,
+            ],
+            [
+                -183, -35, 141, 67, 20, -17, -7, -53, -148, 48, -42, 284, 70, 143, -148, -273, -78, 221, 30, -2, 181,
+                317, -275, -460, 156, 12, -200, 540, -387, 147, -48, -286, 142, -160, -127, -187, -259, -184, 812, -103,
+                -12, 110, 87, -64, -221, -158, -294, 486, -517, 210, -36, -12, 248, -3, -76, 119, 184, 294, 98, -140,
+                -382, -230, 100, 11, -297, 238, 121, 88, -365, -99, -22, 269, -524, 203, 367, 42, 89, -70, -44, -130,
+                -85, -128, 335, 142, -495, -156, 150, 171, 139, 272, 135, 321, -171, 37, -354, -446, 153, -70, 168, 34,
+                -10, -190, -187, 37, 644, -72, 30, -65, -311, -316, 81, -58, -34, 120, -865, 391, -89, 200, -26, 236,
+                -41, -169, -260, 51, -202, 158, -65, 462, -102, -166, 382, 274, -128, 33, -168, -192, -155, 280, 251,
+                -208, -99, 48, 66, -250, -98, 202, 215, -217, 153, 229, -260, -291, -297, 222, -36, 230, -104, -194, 83,
+                30, -88, 548, -94, -88, 78, -258, -338, 174, -288, -137, -272, 128, -31, -26, 314, 244, 87, -11, -487,
+                68, -40, 77, 132, 108, 272, 274, -152, -147, -147, 215, -101, -282, -375, -248, 54, -295, 323, 411, 70,
+                -7, 69, 234, -64, 91, -107, -98, -434, 243, 207, -287, 51, 337, -157, -94, 212, -336, 109, 100, -111,
+                168, 29, -231, 6, -137, 395, 617, 316, -4, -833, -189, -158, -210, -48, -14, 4, 235, -71, 83, -280, 24,
+                290, 232, -441, 472, 46, -26, -470, -169, 260, 89, 130, 289, -8, -174, -386, -267, 189, -320, -124, -10,
+                -88, -87, 350, 24, -10, -95, -222, -263, 42, -144, 127, 499, -84, 161, -115, 107, -25, 34, -92, -53,
+                -536, -60, -90, -95, 166, 315, 262, -28, 29, -41, 220, 3, 64, -90, -99, -153, -28, 115, 129, 110, 58, 1,
+                -448, -4, 120, -213, -111, 305, 435, -167, -273, -161, 105, 608, -6, 200, -710, -293, 87, -58, 99, -111,
+                47, -129, -47, 218, 196, -340, -178, 117, -27, -41, -18, -30, -87, 197, -483, 184, 2, 287, 25, -463,
+                305, 76, 127, 54, 74, -360, -41, 223, -75, -69, 7, 292, 318, 85, -17, -764, 140, -127, -263, -219, 505,
+                125, -437, -188, 282, 128, 685, 64, -72, 46, -379, 0, -170, -240, 410, 172, -33, -399, -506, 303, 110,
+                -123, 188, 4, -23, 164, -417, 15, 3, 0, 136, -17, -134, -569, 283, -271, 94, 413, 377, 149, -217, 90,
+                -96, -141, 41, -270, -341, -41, 89, -63, -143, -48, 322, 159, 41, -35, 58, -24, -84, -7, -213, 196,
+                -436, -373, 280, 199, 290, 159, 67, -253, -115, -321, 85, -226, 163, -57, 179, 226, -89, -28, 302, -26,
+                -148, -14, -108, 44, 319, -191, -149, -342, -25, 569, -11, -237, 232, -62, -319, -208, -99, -293, 76,
+                608, 227, -296, -293, -90, 62, 213, 4, 106, -83, 296, 233, -321, 59, -324, 48, 25, 81, -210, 218, 1,
+                234, 79, -304, -165, 30, 119, 4, 139, 343, -182, -285, -235, -92, -167, 328, 471, 465, -508, -197, -366,
+                84, 48, 44, -324, -143, 124, -220, 320, 45, -101, -149, 4, -147, 21, 162, 99, 227, 341, -170, 84, -126,
+                -145, -87, -190, 174, -9, 101, 87, 39, -318, -103, -38, -348, 16, -131, 125, 39, -227, 111, 349, 344,
+                389, -138, 5, -517, -264, -8, 122, -36, -174, 16, 265, 92, 113, 218, -560, 253, 608, -307, 84, -349,
+                -216, -9, -131, -595, -2, -180, -202, 413, -264, 339, 425, 94, -275, -295, -209, 468, 44, 17, 89, -86,
+                370, -302, -203, 78, 53, 31, -6, -244, 141, 1000, -281, -375, 242, -317, -232, -256, -230, -54, -391,
+                259, 286, 171, 148, 41, -109, -284, -80, 338, 145, -47, -71, 75, -230, 10, 270, -16, -169, -23, 15,
+                -129, -1, 260, 233, -260, -183, -21, 33, 182, 374, 0, -139, -68, -303, 82, -194, 80, 32, -466, 53, 50,
+                410, -72, -154, -42, -201, 276, 97, -158, -52, 37, -23, -118, 48, -439, -266, 314, 128, 176, 89, -86,
+                178, 16, -256, 8, -185, 302, -43, -225, -336, -76, 6, 266, -30, -5, 333, 106, -21, 197, 61, -132, -190,
+                261, -349, 59, -56, -113, -216, 147, 565, -140, -312, 243, 142, -207, -61, -115, 166, -16, -219, -305,
+                -437, 11, 155, 335, -292, 121, 345, -61, 161, -157, -76, 51, -6, 257, -237, -119, -188, -27, -279, 252,
+                -33, 141, 187, -528, 37, 207, 125, 31, 200, 87, -225, 115, -10, -117, -90, -131, -26, -32, 224, -87,
+                -176, 136, 134, 84, 181, 144, -484, -235, -208, -203, 262, 136, 36, -36, 182, -385, 306, 47, -295, 157,
+                103, 92, -91, -44, 104, -105, -301, 85, 189, 105, -100, -575, -64, -104, -153, 193, 132, 108, 397, 37,
+                -267, -24, -8, 29, 167, 36, -37, 37, 94, -263, -263, 61, -97, 321, 43, -29, 61, 545, 22, -380, 223,
+                -432, -76, -421, 37, 317, -343, -157, 39, 397, 65, -115, -16, -33, 40, -105, 393, -324, 92, -734, 61,
+                331, 80, -503, 187, 201, 310, 95, 24, -73, -267, -55, 123, 8, 80, 131, 343, 223, 174, -6, -454, -488,
+                10, -214, 90, -623, 230, 80, -217, 199, 388, 141, -407, -321, 352, -223, -39, 65, 364, 550, -52, -412,
+                -4, 3, -383, 299, -67, -2, 96, -194, -590, -124, 484, 496, -234, -73, 257, 117, -201, 18, 20, -157, -47,
+                -506, 51, 423, -91, -176, 211, 121, -100, 116, 223, 237, 235, -183, -201, -485, -7, -250, 68, -89, -32,
+                120, 51, 82, -17, -23, 197, -291, -194, -16, -275, 301, 234, 88, 128, -99, -289, 117, 350, -234, -128,
+                -78, 598, 151, 3, -234, -209, -334, 37, -79, -284, -589, -78, 346, 68, 9, 539, 55, 228, 11, -53, 152,
+                67, -99, -427, -51, -79, -525, 260, -52, 169, 77, 135, -35, -9, 119, -44, -323, -64, 243, 49, 127, 614,
+                -137, 67, -1, 82, -738, -81, 322, 228, 510, 431, -246, 17, -821, -507, 442, 279, -272, 113, -376, 3,
+                -306, 51, 215, 60, 109, -249, 93, 223, -608, 90, 134, -343, -566, -451, -57, 44, 402, 772, -56, 235,
+                346, 70, -49, -592, -246, 226, 331, 118, 7, 22, -654, -168, 151, 126, -218, -421, 91, 215, 201, 229,
+                189, -354, -102, -24, -181, -529, 99, 344, -113, 440, -53, -161, 308, 401, -378, -150, 32, -65, 34, 74,
+                -481, 225, 73, -30, -82, 120, 694, 83, -119, 184, -161, 40, -592, -195, 614, 156, 6, -132, 148, -150,
+                -37, -672, -325, 3, -180, 155, 66, 118, -13, 109, 137, 17, -91, -6, -13, -104, 33, -40, 211, 169, -708,
+                -254, 202, 71, 13, 231, -44, 27, 164, 216, -423, 39, -66, 20, -59, -15, 284, -178, -51, 162, -41, -167,
+                263, 81, -89, 93, -165, 159, -119, -290, -262, -70, 270, 165, 20, -89, 116, -215, -326, 268, -158, -2,
+                16, -156, 85, 206, -76, -136, 18, -39, 168, -49, 48, -1, -461, -57, 32, 178, -159, -229, 651, -23, 128,
+                -194, -24, -368, 342, -14, -160, 224, -59, -759, -501, 195, 271, 367, 178, 241, -38, 79, -66, 105, -88,
+                105, -295, 132, 173, -344, -43, -144, -137, 144, 55, 229, 153, 348, 231, 163, -455, -90, -558, 141, -46,
+                -13, -278, 438, -36, 131, -44, -220, 77, 87, -271, -34, -175, -364, 221, 393, 47, -46, 106, -148, -72,
+                -174, 65, 156, -8, -329, -123, -329, 211, 349, 80, 83, 168, -90, 92, 117, -144, -97, -48, -65, 14, 41,
+                -56, -170, -387, 57, 539, -104,
+            ],
+            [
+                148, 359, -382, -22, -445, -18, -23, 360, -60, 565, 65, 578, -321, 116, -391, -575, 250, -190, -127, 77,
+                287, -485, 122, 43, -236, -393, 478, -37, -2, 29, 162, -23, -43, 61, -15, -252, -130, 172, 338, -154,
+                -165, -240, -110, -6, -35, -20, -266, 820, -164, 178, 68, -529, 18, 363, 71, -28, 37, -310, 140, -439,
+                72, 279, 282, -84, -395, -121, -102, 138, 388, 119, 77, -127, -619, -335, 349, 270, 93, 99, -23, 143,
+                127, 50, -278, -102, 86, -15, 15, 95, 37, 26, 56, 292, -149, 149, -609, 176, -508, 377, -103, 21, 208,
+                652, -487, -183, -511, -143, 159, 357, 113, 383, -372, -8, 46, -348, -372, 53, 153, 138, 189, 118, 43,
+                225, 69, -12, -464, 330, -817, 604, -28, 92, 30, 184, -233, -82, -159, 173, 351, 226, -288, 16, -184,
+                -107, -13, -24, -74, 216, -307, -206, 48, -193, 183, 311, 175, 234, -152, -242, -264, 15, 266, -55, 313,
+                -275, -90, 29, 73, 178, 55, -306, -186, -238, -118, -514, 257, 351, 227, 198, 120, 652, -443, 107, -69,
+                -622, 48, 186, 31, 27, 145, -104, -236, -121, 76, 160, 68, 21, -28, -55, 133, 155, -180, -136, 37, -92,
+                12, -163, 133, 198, -13, -134, 449, 171, -59, 126, -301, 127, -187, -347, -227, -184, -584, 86, 413,
+                210, 106, 156, 88, -430, 86, -172, 223, -165, 17, 331, -255, 175, 278, -311, -17, 711, -319, -283, 73,
+                -152, -604, 182, 83, 425, 48, -76, 344, -268, -27, -40, -17, 209, -275, 53, -162, -188, 21, -45, 247,
+                209, 110, -215, -212, -336, 66, -291, 170, 272, 478, -169, -317, 138, -233, 133, 326, 16, -289, 204, 50,
+                97, -432, 89, -289, 97, 202, 164, 53, 45, -6, -157, 133, 126, -60, -158, 147, 59, 169, 41, -265, -88,
+                -7, -79, -190, -241, 227, 217, -464, 27, -31, 432, 94, 176, 255, -103, -423, 127, -284, 136, 118, 283,
+                -101, -116, 154, -51, 219, -528, -58, 57, 197, -29, -223, 46, -6, -7, 127, -699, 60, 128, 456, 96, -229,
+                38, 56, 166, -51, -174, 298, -69, -146, -103, -78, -240, -131, 64, 488, -275, 255, -105, 317, -229,
+                -429, 88, 358, -352, 139, 87, -349, -24, -228, -172, 213, -80, 174, 442, -220, -612, 229, -88, 564, 171,
+                -183, 116, -42, -110, -9, 132, -192, -15, 176, 37, 220, -58, 416, 315, -107, -108, -338, -361, 146, 6,
+                106, -10, -51, -49, -57, -113, 174, 24, 289, -242, 8, -70, 179, -385, -337, 103, -19, 6, 544, -196, 236,
+                -360, 513, 125, 580, -545, -69, -320, -152, -155, 56, 427, 342, 127, -352, -1000, 257, 120, 340, 141,
+                349, -158, -141, -192, 28, -389, -103, -130, 815, 61, -239, 37, -468, 6, -474, 41, 165, 204, 67, 163,
+                -61, -127, -188, -134, 80, -105, -152, -453, 441, 488, -14, -171, 245, 105, 42, 86, -138, -177, 156,
+                -303, 144, 62, -144, 157, 89, -184, 144, 92, -140, -398, 50, -74, 163, 142, -101, 1, -267, 224, -44,
+                -448, 138, 474, -132, -43, -304, 402, 222, 158, -370, 44, -152, -119, -187, 323, -59, -272, 266, 179,
+                119, -364, 319, 239, 126, -319, -142, 0, 463, 152, 420, -372, -232, -73, -248, -133, -649, -530, 64,
+                104, 302, 430, 68, 188, -177, -9, -130, -104, 327, 339, -160, -107, 143, 314, 271, -27, -120, -252,
+                -161, -190, 34, 127, 183, -142, -76, -208, 49, 10, 165, -291, 215, -244, -107, 65, 41, 133, -163, 189,
+                -7, 104, 157, -205, -25, -72, -286, 199, 400, -334, -95, -136, 248, -19, -135, -408, -3, 34, 75, 370,
+                98, -53, 181, 78, -61, 322, -80, -174, 20, -308, -11, 24, -84, 343, 128, -291, -143, 11, 65, -500, -209,
+                353, 268, 156, 3, -159, 563, 50, -161, -148, -158, -3, 221, -386, 683, 46, -142, 202, -332, -121, 22,
+                -381, 389, 41, 668, 222, -411, -516, -245, -171, 83, -32, 269, 192, -209, -177, -51, -98, -66, -135,
+                -138, 408, 32, -84, 181, -220, -132, 118, -53, 133, 21, -193, -16, 100, 528, -27, 122, 254, -363, 79,
+                -304, -313, 96, -330, 184, 41, 306, -282, -69, 34, 41, 128, -153, -122, 222, 384, -122, -400, 181, 37,
+                -44, -37, 12, -134, -98, 61, 360, -353, 173, -102, -105, -164, 208, -39, -206, 100, -204, 239, -201, 30,
+                43, 177, 212, 134, -486, 118, -109, 61, -13, 61, 82, 219, -70, -65, -12, -49, -114, -13, 28, -349, 419,
+                4, 90, 66, -207, -73, -89, 148, 79, -186, 31, 164, 109, -279, 161, -255, 251, -483, 74, -110, 181, 158,
+                -28, -386, 1, -18, 214, -50, 443, -197, -108, 235, -258, -293, 75, 139, 264, -74, -381, -177, 312, 227,
+                -161, 211, 492, -546, 415, -16, 95, 136, -346, 38, -70, -276, 187, -280, 288, -52, -10, -36, 92, -211,
+                -747, -108, -19, 148, 436, 112, -91, 247, -17, 219, 591, 2, -158, -123, -414, -123, 457, -171, 332, 392,
+                -658, -223, 124, -274, 130, -50, -186, -153, 42, 49, -6, 151, -33, -499, 455, -255, -177, -298, 125,
+                660, 41, -542, 224, 606, -207, 271, -243, -172, -212, -461, 126, 988, -472, -262, 199, 72, 100, 329, 59,
+                619, -213, -959, -72, 116, 240, -442, -626, 38, 2, 156, 117, 492, -167, 28, 256, -300, 112, 199, -160,
+                11, 424, -18, 144, 268, -505, -23, -246, -65, -148, -132, 240, -121, 66, -71, 24, 119, -151, -452, -194,
+                479, 50, 101, -328, 474, -461, 415, -186, -58, 419, -118, -282, 249, 124, -14, 327, 251, -175, -177,
+                -194, -165, 40, 304, 140, -306, 101, 372, -431, -242, -297, -698, 59, 243, -237, 260, 454, 194, -182,
+                143, 275, 57, 102, -189, -311, 82, 18, 148, -294, 30, -47, 403, -213, -67, -61, -195, 253, 96, 56, -10,
+                -126, -36, -366, 1, 78, -50, -373, 330, -68, 424, -220, 209, -297, 361, -149, 357, -138, -145, -124,
+                -67, -268, -56, 426, 135, -113, 44, -202, 14, -100, -37, 151, 571, -301, -117, 212, -528, 173, -484,
+                436, 131, 28, 10, 125, 47, 215, -371, -256, 304, -21, -64, -261, -38, -139, 190, -31, -87, 428, -84,
+                -148, -168, -351, 132, -587, 331, 685, 83, -284, -137, -279, 79, -143, -201, 518, 425, -76, 169, 366,
+                -77, -28, -297, -362, 281, -39, 113, -8, -213, -67, 89, 50, 53, -257, -246, -14, -274, 100, 282, 182,
+                205, -257, 57, -179, -143, 284, -231, 220, 227, 420, -193, -15, 250, 176, -330, -336, 6, -244, -128, 71,
+                -33, 103, -93, 77, 224, -660, 183, 228, 595, -197, 40, -61, -150, -246, -16, 88, -141, 15, 180, -351,
+                447, 233, 143, -413, -71, 135, 120, -195, 26, -123, -11, 53, -280, 10, 211, 276, -158, -51, 6, -160,
+                -151, -95, -31, -51, 510, -27, -108, 546, 98, 210, -538, -300, 98, -14, -209, -91, -310, 200, 116, 187,
+                98, -8, -93, -170, -161, -23, 71, 179, 184, 231, 17, -131, 33, -108, 106, 43, -214, -308, -66, -166, 96,
+                140, -24, 82, 224, -220, -204, -602, -4, 423, -45, 309, 320, -95, 26, 517, 414, -295, -164, -165, -260,
+                -96, 50, -520, -133, 420, 369, -174, 62, 308, 250, -161, 7, -172, -535, 372, -93, -5, -168, 105, 313,
+                21, -909, 135, 486, -242, 254, 203, 328, 0, -138, -293, -134, 90, 676, -216, 11, -169, -198, -343, 126,
+                160, 198, 240, 479, -512, -449, -264, 125, -388, -192, -235, 116, 136, 287, 388, -134, -137, 281, 80,
+                472, -431, -422, -94, 227,
+            ],
+        ]
+    ),
+    createStage(
+        2,
+        4,
+        0.25,
+        300,
+        [
+            [
+                [
+                    [1.8326, 0.9265, 0.2548, 0.6687, 42],
+                    [0.1645, 2.0745, 0.3697, 0.2858, 19],
+                    [0.9295, 5.2908, 0.4425, 0.1163, -44],
+                    [3.0619, 0.5197, 0.3008, 0.8984, 19],
+                    [0.4275, 4.503, 0.8455, 0.2216, 58],
+                    [2.9375, 2.306, 0.9059, 0.627, -11],
+                    [4.5461, 0.1049, 0.2071, 0.3181, 71],
+                ],
+                [
+                    [1.9022, 0.7352, 0.4763, 0.9504, -49],
+                    [0.6277, 1.9722, 0.9415, 0.2422, 89],
+                    [1.0922, 1.8147, 0.9057, 0.6699, -50],
+                    [3.2079, 5.5346, 0.0772, 0.6303, -20],
+                    [4.9224, 3.2489, 0.6124, 0.8237, 76],
+                    [0.3538, 1.3569, 0.9203, 0.5931, -38],
+                    [0.2934, 5.5062, 0.422, 0.9057, -6],
+                ],
+                [
+                    [0.988, 2.2973, 0.7005, 0.1896, -57],
+                    [3.5253, 4.8472, 0.9094, 0.6844, 30],
+                    [5.4066, 2.0714, 0.4094, 0.3721, 28],
+                    [5.429, 2.4723, 0.7138, 0.0838, -43],
+                    [4.3649, 6.0427, 0.0957, 0.3227, 37],
+                    [1.0375, 1.9477, 0.7421, 0.5204, -19],
+                    [0.8844, 1.3077, 0.6202, 0.3863, 40],
+                ],
+                [
+                    [1.2215, 0.6363, 0.5699, 0.7885, -39],
+                    [4.9586, 5.5077, 0.8794, 0.5849, 0],
+                    [4.8774, 0.9252, 0.1481, 0.9208, 38],
+                    [0.7521, 1.0788, 0.6483, 0.6867, 21],
+                    [0.5974, 1.3468, 0.7392, 0.5004, 24],
+                    [2.0721, 0.8119, 0.2681, 0.2852, -51],
+                    [0.4853, 3.0047, 0.8941, 0.1843, -50],
+                ],
+                [
+                    [1.7035, 0.5509, 0.5024, 0.6835, -83],
+                    [5.731, 4.946, 0.5394, 0.898, 65],
+                    [0.8093, 2.1331, 0.6966, 0.0589, -31],
+                    [0.734, 1.1998, 0.5898, 0.6295, 63],
+                    [0.7059, 0.9287, 0.171, 0.9784, -50],
+                    [2.6011, 5.7801, 0.2593, 0.8723, 60],
+                    [2.2893, 0.6332, 0.2733, 0.6107, -54],
+                ],
+            ],
+            [
+                [
+                    [1.4835, 6.0015, 0.5574, 0.5094, 9],
+                    [5.4167, 4.206, 0.7487, 0.2944, 41],
+                    [1.117, 0.2127, 0.4178, 0.942, 19],
+                    [1.41, 0.5689, 0.4159, 0.9373, -47],
+                    [5.4683, 6.1581, 0.5824, 0.1611, 34],
+                    [3.3127, 3.8761, 0.6332, 0.09, 68],
+                    [1.1308, 0.3357, 0.8929, 0.9435, 23],
+                ],
+                [
+                    [6.1188, 4.2858, 0.7737, 0.3359, 71],
+                    [6.216, 1.4447, 0.7173, 0.3905, -6],
+                    [4.6315, 3.5595, 0.238, 0.6507, 52],
+                    [4.6247, 6.205, 0.4919, 0.3545, 14],
+                    [4.4885, 1.4089, 0.6649, 0.1018, 21],
+                    [2.0225, 4.6212, 0.3515, 0.7387, -22],
+                    [0.1672, 4.5274, 0.643, 0.9327, 113],
+                ],
+                [
+                    [6.1931, 1.1381, 0.9991, 0.4848, -28],
+                    [0.9551, 5.9774, 0.4342, 0.6847, 32],
+                    [0.822, 4.8558, 0.2151, 0.7463, -22],
+                    [5.9413, 2.1065, 0.5557, 0.5346, 5],
+                    [5.9977, 0.0736, 0.723, 0.2389, -26],
+                    [5.639, 4.5476, 0.7731, 0.2668, 52],
+                    [0.5799, 4.0594, 0.6994, 0.4101, 40],
+                ],
+                [
+                    [0.0365, 1.0926, 0.4971, 0.3435, -47],
+                    [6.117, 0.9701, 0.6938, 0.4122, -9],
+                    [4.1074, 4.9727, 0.0715, 0.7288, -49],
+                    [5.8279, 6.201, 0.7724, 0.2086, -26],
+                    [1.4848, 0.0959, 0.8818, 0.4622, 18],
+                    [4.7261, 5.8685, 0.4525, 0.588, -65],
+                    [4.0557, 5.6227, 0.3411, 0.3792, 14],
+                ],
+                [
+                    [0.0101, 1.3035, 0.6675, 0.7442, -8],
+                    [6.0423, 1.1607, 0.5481, 0.5067, -28],
+                    [5.6986, 2.6141, 0.6883, 0.065, 41],
+                    [0.3709, 0.2496, 0.3816, 0.8739, 21],
+                    [1.6991, 0.5205, 0.8987, 0.3649, -18],
+                    [0.0039, 3.9185, 0.9401, 0.2511, -7],
+                    [5.1413, 6.2179, 0.0783, 0.6341, -39],
+                ],
+            ],
+            [
+                [
+                    [5.6546, 1.2847, 0.9716, 0.7356, 7],
+                    [0.5083, 5.894, 0.3216, 0.4644, 27],
+                    [4.2998, 6.1834, 0.2809, 0.7445, -80],
+                    [0.9452, 5.4479, 0.2953, 0.742, 0],
+                    [1.0218, 5.7111, 0.7954, 0.755, 22],
+                    [4.6733, 0.5582, 0.4587, 0.9237, -1],
+                    [4.4065, 5.391, 0.8336, 0.8035, -25],
+                ],
+                [
+                    [5.1614, 1.1221, 0.8669, 0.1987, -21],
+                    [5.3168, 0.3882, 0.7435, 0.335, -8],
+                    [5.9673, 5.4221, 0.8009, 0.0911, 25],
+                    [0.9376, 1.9661, 0.5707, 0.956, -49],
+                    [2.0698, 1.1215, 0.5505, 0.8954, 40],
+                    [5.845, 1.0337, 0.8694, 0.5525, -25],
+                    [0.4171, 4.4938, 0.6108, 0.1764, 35],
+                ],
+                [
+                    [0.954, 5.5571, 0.2243, 0.4561, 36],
+                    [0.3811, 4.8201, 0.983, 0.038, 30],
+                    [0.0472, 0.7868, 0.941, 0.4401, -46],
+                    [5.221, 0.8302, 0.8205, 0.6625, -3],
+                    [4.5899, 5.7493, 0.97, 0.8152, -55],
+                    [5.292, 0.152, 0.8574, 0.2617, -16],
+                    [4.7594, 0.2898, 0.6887, 0.9518, 57],
+                ],
+                [
+                    [0.9566, 5.0287, 0.6431, 0.3571, 2],
+                    [4.5283, 5.4744, 0.8295, 0.7517, -33],
+                    [1.6999, 1.0245, 0.6406, 0.5257, 29],
+                    [5.543, 4.3943, 0.7567, 0.7354, 61],
+                    [5.7693, 4.4728, 0.9851, 0.5618, -21],
+                    [4.5386, 0.4059, 0.9552, 0.4415, -38],
+                    [4.8718, 4.5123, 0.4716, 0.2986, -7],
+                ],
+                [
+                    [4.6649, 5.3451, 0.2991, 0.9721, 54],
+                    [5.4262, 0.7074, 0.1881, 0.7599, -15],
+                    [5.3192, 0.0996, 0.7698, 0.2593, -5],
+                    [2.9336, 0.8485, 0.5754, 0.8231, -10],
+                    [0.4348, 5.46, 0.1646, 0.7689, 8],
+                    [1.0218, 0.3244, 0.8369, 0.5657, 90],
+                    [0.2046, 0.3897, 0.7923, 0.782, 7],
+                ],
+            ],
+            [
+                [
+                    [6.0051, 0.1683, 0.6502, 0.8008, 0],
+                    [5.9502, 6.2673, 0.9387, 0.307, 6],
+                    [5.6439, 3.5602, 0.4787, 0.2377, -23],
+                    [5.1198, 2.1997, 0.5874, 0.1334, -84],
+                    [3.9021, 2.9806, 0.2731, 0.9496, -76],
+                    [5.5493, 4.1094, 0.5281, 0.1298, -84],
+                    [5.2276, 4.3061, 0.7393, 0.1747, 10],
+                ],
+                [
+                    [5.7867, 0.4563, 0.4567, 0.7524, 6],
+                    [4.7855, 6.0132, 0.7554, 0.9741, 11],
+                    [4.9299, 0.9203, 0.7146, 0.9773, 21],
+                    [4.2551, 0.323, 0.8533, 0.6156, -14],
+                    [3.1313, 0.1934, 0.0694, 0.989, 35],
+                    [6.1405, 1.0017, 0.5572, 0.1893, -13],
+                    [6.0545, 5.2523, 0.5377, 0.7472, -17],
+                ],
+                [
+                    [0.4024, 5.9588, 0.3501, 0.6781, 12],
+                    [0.4934, 4.94, 0.8604, 0.8093, -21],
+                    [2.0299, 0.0254, 0.6367, 0.8836, 87],
+                    [5.2063, 5.9943, 0.6385, 0.2646, -4],
+                    [4.0539, 5.9318, 0.2035, 0.557, 65],
+                    [0.2856, 4.7428, 0.9588, 0.4914, -45],
+                    [0.705, 0.4443, 0.3236, 0.9655, 104],
+                ],
+                [
+                    [6.2016, 0.356, 0.553, 0.8802, 0],
+                    [5.8877, 6.1469, 0.0339, 0.9881, 3],
+                    [4.1152, 5.1691, 0.5649, 0.7945, -51],
+                    [1.6008, 5.5863, 0.9544, 0.7078, -56],
+                    [6.1874, 1.8808, 0.7783, 0.867, -62],
+                    [0.6377, 1.0589, 0.5897, 0.9699, -5],
+                    [0.7536, 6.0487, 0.3123, 0.9165, -13],
+                ],
+                [
+                    [0.2154, 6.113, 0.5103, 0.9403, -3],
+                    [3.9316, 5.9378, 0.2341, 0.339, 59],
+                    [0.4592, 5.0618, 0.886, 0.9167, -35],
+                    [6.159, 0.2114, 0.6098, 0.8288, 1],
+                    [0.1138, 1.4871, 0.5663, 0.921, -37],
+                    [4.5068, 5.3909, 0.2193, 0.8454, -10],
+                    [0.1052, 5.846, 0.7408, 0.6112, -1],
+                ],
+            ],
+            [
+                [
+                    [3.9021, 5.0663, 0.3182, 0.5345, 1],
+                    [3.9898, 5.9517, 0.6242, 0.4553, -15],
+                    [4.6646, 5.3191, 0.5747, 0.1686, 8],
+                    [2.3953, 4.4349, 0.8503, 0.3786, -19],
+                    [5.13, 1.7516, 0.9977, 0.6647, 22],
+                    [5.2303, 0.7492, 0.612, 0.5691, 38],
+                    [3.1353, 0.4428, 0.8627, 0.6917, -77],
+                ],
+                [
+                    [4.2932, 5.1156, 0.1053, 0.5379, 9],
+                    [4.5289, 5.0383, 0.4194, 0.8362, -2],
+                    [5.5531, 4.1485, 0.6897, 0.5552, 6],
+                    [1.169, 0.105, 0.885, 0.1789, 24],
+                    [4.2894, 5.8384, 0.8677, 0.5924, 9],
+                    [3.6752, 5.0858, 0.8244, 0.9248, 26],
+                    [6.2669, 3.4952, 0.553, 0.3762, 39],
+                ],
+                [
+                    [5.2146, 4.3094, 0.1873, 0.5512, -13],
+                    [1.4825, 4.4739, 0.6008, 0.8644, -22],
+                    [4.719, 4.0589, 0.56, 0.2449, 5],
+                    [4.579, 5.2633, 0.9452, 0.6642, 41],
+                    [2.2552, 5.1444, 0.1057, 0.9143, -11],
+                    [3.7483, 5.3372, 0.5143, 0.7855, -1],
+                    [5.3731, 3.8003, 0.822, 0.6356, 4],
+                ],
+                [
+                    [4.4841, 4.8134, 0.4765, 0.1741, -6],
+                    [3.912, 4.9269, 0.6343, 0.5649, -1],
+                    [4.5934, 2.3119, 0.5016, 0.1328, 13],
+                    [4.5636, 3.4576, 0.6473, 0.3739, 2],
+                    [5.3048, 3.9735, 0.5662, 0.709, -11],
+                    [3.2705, 4.9924, 0.2303, 0.4454, 6],
+                    [4.2689, 4.72, 0.983, 0.5528, -18],
+                ],
+                [
+                    [4.4217, 5.2884, 0.9305, 0.4963, 1],
+                    [4.0565, 5.5881, 0.4683, 0.4506, -4],
+                    [3.8605, 4.5487, 0.2387, 0.5769, 0],
+                    [3.2811, 5.2822, 0.1927, 0.7425, -21],
+                    [3.1523, 5.1493, 0.4201, 0.9954, 7],
+                    [4.2489, 5.1389, 0.7705, 0.9471, 3],
+                    [3.598, 5.4132, 0.4082, 0.7117, 4],
+                ],
+            ],
+            [
+                [
+                    [3.2692, 2.9624, 0.6772, 0.9095, 8],
+                    [2.719, 3.5207, 0.7598, 0.8844, 5],
+                    [3.5367, 4.3507, 0.8625, 0.6889, 28],
+                    [2.7746, 2.0005, 0.9623, 0.5537, -48],
+                    [1.1826, 2.8533, 0.9195, 0.9933, 63],
+                    [3.2452, 5.2991, 0.9981, 0.3216, -30],
+                    [0.7347, 2.8157, 0.2095, 0.9969, 25],
+                ],
+                [
+                    [3.294, 2.3713, 0.7651, 0.5918, 20],
+                    [3.5232, 2.8813, 0.6703, 0.1395, -20],
+                    [4.2656, 3.0034, 0.6868, 0.9827, -3],
+                    [2.8515, 0.0391, 0.8095, 0.0356, -44],
+                    [2.7622, 3.691, 0.7564, 0.3009, 0],
+                    [3.9999, 5.4621, 0.3035, 0.5211, -82],
+                    [4.058, 5.3277, 0.9718, 0.6022, 71],
+                ],
+                [
+                    [2.7144, 3.4907, 0.7261, 0.632, 0],
+                    [4.477, 5.2949, 0.7605, 0.8058, 27],
+                    [3.0203, 1.2365, 0.969, 0.2565, -46],
+                    [5.5395, 3.8673, 0.4383, 0.9981, 73],
+                    [3.8721, 4.7957, 0.421, 0.1856, 37],
+                    [4.416, 2.0785, 0.1044, 0.7391, 3],
+                    [1.4907, 3.3839, 0.3334, 0.5115, -11],
+                ],
+                [
+                    [3.3437, 2.7194, 0.8714, 0.6963, 3],
+                    [4.3203, 2.8258, 0.3472, 0.816, 9],
+                    [4.3551, 5.097, 0.8552, 0.9618, -5],
+                    [3.2059, 3.231, 0.8859, 0.3545, -5],
+                    [1.6939, 3.7165, 0.2116, 0.7315, 83],
+                    [1.5347, 2.8608, 0.5609, 0.894, 72],
+                    [3.6898, 5.1091, 0.5872, 0.9661, 24],
+                ],
+                [
+                    [2.4979, 3.3636, 0.6171, 0.8283, 10],
+                    [2.6567, 4.5191, 0.9885, 0.8478, -28],
+                    [2.9044, 3.3236, 0.7306, 0.5458, 0],
+                    [4.6652, 3.2527, 0.633, 0.768, 16],
+                    [1.6783, 2.6949, 0.5011, 0.6169, 21],
+                    [3.5417, 5.442, 0.542, 0.2631, -25],
+                    [1.2502, 2.8831, 0.9916, 0.7821, 55],
+                ],
+            ],
+            [
+                [
+                    [1.9904, 0.8635, 0.3526, 0.5674, -29],
+                    [5.7636, 0.4435, 0.1669, 0.681, -80],
+                    [0.3438, 4.952, 0.6448, 0.1587, -32],
+                    [1.6461, 0.8986, 0.6637, 0.8881, -88],
+                    [1.1634, 1.9282, 0.8492, 0.6204, 26],
+                    [5.84, 4.3893, 0.2642, 0.4582, -3],
+                    [4.6943, 3.2868, 0.5322, 0.468, -39],
+                ],
+                [
+                    [4.8978, 3.9696, 0.322, 0.6287, 58],
+                    [4.9051, 2.4331, 0.9871, 0.5167, 6],
+                    [3.1327, 2.9231, 0.1767, 0.9858, 34],
+                    [4.5999, 3.8875, 0.6906, 0.76, -55],
+                    [5.0186, 4.0619, 0.4846, 0.7633, -53],
+                    [1.8996, 0.6255, 0.716, 0.46, 11],
+                    [4.24, 4.2599, 0.403, 0.7222, 18],
+                ],
+                [
+                    [3.6131, 2.0687, 0.8556, 0.3595, -38],
+                    [4.7493, 3.9561, 0.5765, 0.6843, 48],
+                    [3.9147, 4.8879, 0.5344, 0.7015, 38],
+                    [2.3639, 0.9021, 0.5363, 0.91, -114],
+                    [4.494, 3.967, 0.5808, 0.9634, 5],
+                    [5.1782, 0.4311, 0.249, 0.784, -57],
+                    [3.4991, 1.0094, 0.4301, 0.7453, -52],
+                ],
+                [
+                    [3.5411, 2.0895, 0.8769, 0.6366, -24],
+                    [3.4192, 2.301, 0.7531, 0.3785, -14],
+                    [0.9256, 2.1008, 0.6614, 0.0646, 79],
+                    [3.8309, 2.4592, 0.9751, 0.7235, -34],
+                    [2.1586, 4.5682, 0.7822, 0.9842, 2],
+                    [5.0686, 5.5221, 0.6422, 0.9926, 33],
+                    [0.552, 5.7854, 0.8954, 0.1885, 49],
+                ],
+                [
+                    [0.9752, 1.6951, 0.6969, 0.565, 42],
+                    [2.0097, 3.7804, 0.7456, 0.559, 10],
+                    [4.5149, 5.3549, 0.6983, 0.3466, -22],
+                    [3.1481, 5.0848, 0.6403, 0.7372, 38],
+                    [3.7975, 5.8173, 0.0262, 0.704, -60],
+                    [4.9962, 0.3274, 0.6037, 0.935, -28],
+                    [2.4935, 6.1041, 0.8685, 0.2605, 16],
+                ],
+            ],
+            [
+                [
+                    [3.0721, 1.8903, 0.8236, 0.695, -50],
+                    [2.225, 2.8241, 0.4013, 0.6173, 53],
+                    [4.981, 4.0772, 0.4794, 0.9659, -6],
+                    [3.2137, 2.0214, 0.9164, 0.3576, -24],
+                    [2.4385, 4.3269, 0.1296, 0.601, 45],
+                    [4.7327, 2.8438, 0.8895, 0.7899, -61],
+                    [3.2801, 5.0014, 0.5293, 0.3788, -37],
+                ],
+                [
+                    [5.2924, 3.3481, 0.359, 0.9864, -62],
+                    [3.9734, 3.1014, 0.0992, 0.8948, -78],
+                    [3.4818, 5.01, 0.5471, 0.8, -18],
+                    [4.4443, 3.2233, 0.4299, 0.7877, -56],
+                    [2.4953, 4.7502, 0.9121, 0.4458, -5],
+                    [3.0778, 2.0389, 0.5824, 0.3646, -15],
+                    [2.6854, 2.0772, 0.8264, 0.8491, -47],
+                ],
+                [
+                    [3.8813, 4.9736, 0.833, 0.8142, 54],
+                    [4.8334, 3.4536, 0.4222, 0.8115, 25],
+                    [4.2806, 4.3162, 0.908, 0.2184, 9],
+                    [3.3839, 1.8666, 0.7276, 0.9035, -22],
+                    [3.8355, 4.821, 0.8376, 0.9262, -35],
+                    [1.9246, 1.9307, 0.4228, 0.9893, 23],
+                    [3.6672, 3.8889, 0.1903, 0.7609, -69],
+                ],
+                [
+                    [2.8224, 1.9184, 0.8076, 0.6583, -25],
+                    [3.2723, 2.025, 0.7801, 0.8172, -17],
+                    [4.1877, 5.1986, 0.9654, 0.3751, 17],
+                    [3.5876, 2.3607, 0.7951, 0.4399, -28],
+                    [1.8713, 3.0771, 0.9407, 0.9699, 13],
+                    [4.9076, 4.4323, 0.9863, 0.2323, 26],
+                    [4.1717, 2.6808, 0.1405, 0.7517, -47],
+                ],
+                [
+                    [1.7513, 3.1879, 0.28, 0.7922, 20],
+                    [4.1152, 4.6547, 0.9772, 0.1795, 12],
+                    [4.1886, 3.3069, 0.0747, 0.8144, 15],
+                    [1.1956, 0.5067, 0.388, 0.6152, -77],
+                    [4.1322, 4.0545, 0.8787, 0.1253, 31],
+                    [1.6879, 4.9226, 0.7045, 0.4226, -6],
+                    [0.0579, 2.3715, 0.6052, 0.2335, 40],
+                ],
+            ],
+            [
+                [
+                    [2.1077, 5.5667, 0.759, 0.2422, -48],
+                    [4.9083, 2.5655, 0.0524, 0.4183, 29],
+                    [5.3531, 3.6523, 0.4223, 0.3912, -32],
+                    [4.3977, 3.427, 0.5524, 0.5815, 58],
+                    [2.7215, 4.1693, 0.9032, 0.5133, -48],
+                    [3.8359, 4.7115, 0.9224, 0.5547, 60],
+                    [2.2055, 4.8126, 0.6668, 0.5728, -25],
+                ],
+                [
+                    [4.9113, 3.3604, 0.4059, 0.3943, -50],
+                    [2.9085, 1.5538, 0.8195, 0.3684, 51],
+                    [2.0458, 4.8203, 0.8785, 0.8898, -23],
+                    [2.0942, 4.5139, 0.4123, 0.9634, 64],
+                    [0.3714, 2.9421, 0.3886, 0.0858, -37],
+                    [4.935, 2.1151, 0.3578, 0.5924, 5],
+                    [1.1348, 2.3937, 0.3854, 0.4715, -24],
+                ],
+                [
+                    [1.4192, 2.4619, 0.4831, 0.9546, -46],
+                    [3.5182, 1.8768, 0.8975, 0.3074, 6],
+                    [1.5269, 2.1817, 0.5255, 0.8813, 58],
+                    [4.5093, 2.3108, 0.2249, 0.5761, -83],
+                    [2.2095, 3.1155, 0.3031, 0.8247, -51],
+                    [2.0327, 0.9385, 0.3805, 0.4113, -32],
+                    [2.2815, 1.8076, 0.658, 0.9365, -40],
+                ],
+                [
+                    [2.1974, 6.0738, 0.9977, 0.0828, -32],
+                    [4.7043, 4.0532, 0.2554, 0.9412, 40],
+                    [1.3636, 3.3818, 0.3527, 0.5122, -4],
+                    [1.6333, 4.0653, 0.9532, 0.9386, 0],
+                    [2.3181, 3.2926, 0.5413, 0.064, -3],
+                    [2.3184, 1.6802, 0.8172, 0.5979, 50],
+                    [2.1565, 1.4122, 0.8139, 0.3155, -29],
+                ],
+                [
+                    [2.127, 6.0125, 0.7976, 0.2836, -24],
+                    [5.772, 2.2121, 0.1224, 0.8616, 26],
+                    [2.6467, 1.2817, 0.3965, 0.4769, 24],
+                    [5.2057, 1.2322, 0.598, 0.5041, 46],
+                    [4.5827, 2.7226, 0.3697, 0.5735, 66],
+                    [1.5553, 3.7755, 0.7019, 0.9438, 56],
+                    [2.6243, 1.7505, 0.5444, 0.504, 50],
+                ],
+            ],
+            [
+                [
+                    [1.2197, 5.3674, 0.6963, 0.1999, 7],
+                    [0.271, 0.9273, 0.6406, 0.2056, -17],
+                    [3.6354, 5.0593, 0.0717, 0.4451, 4],
+                    [0.4296, 6.1643, 0.4618, 0.0603, -23],
+                    [5.6862, 2.6551, 0.6224, 0.0884, 15],
+                    [1.1238, 4.4384, 0.9966, 0.3485, 37],
+                    [0.6241, 1.181, 0.7946, 0.6257, -38],
+                ],
+                [
+                    [0.7012, 0.227, 0.5334, 0.6737, 2],
+                    [5.5378, 0.3178, 0.3761, 0.7516, 23],
+                    [5.5489, 5.2397, 0.9458, 0.2236, 30],
+                    [1.2443, 0.5394, 0.9498, 0.4112, 14],
+                    [5.2628, 5.4606, 0.563, 0.181, 25],
+                    [6.1285, 5.7073, 0.8375, 0.6935, 30],
+                    [4.2625, 1.2239, 0.3632, 0.9529, -38],
+                ],
+                [
+                    [5.7794, 5.5383, 0.9394, 0.3111, 22],
+                    [1.1679, 0.449, 0.6698, 0.7759, 28],
+                    [0.3023, 1.2297, 0.7947, 0.3953, -42],
+                    [5.6716, 0.8809, 0.2958, 0.9504, 9],
+                    [2.0143, 6.0044, 0.1038, 0.7427, 12],
+                    [5.4048, 1.6577, 0.2919, 0.6951, 0],
+                    [0.7944, 4.2491, 0.8657, 0.1225, -7],
+                ],
+                [
+                    [0.7043, 0.2668, 0.8697, 0.5805, 9],
+                    [0.7087, 6.2243, 0.4286, 0.4062, -24],
+                    [1.0235, 5.9742, 0.7933, 0.8408, 0],
+                    [1.5459, 3.8949, 0.8396, 0.1119, 5],
+                    [1.3171, 6.0119, 0.5764, 0.8058, -16],
+                    [5.1164, 5.2391, 0.1513, 0.7261, -16],
+                    [0.8458, 0.0793, 0.4947, 0.6622, 9],
+                ],
+                [
+                    [1.1589, 0.2388, 0.7235, 0.6451, 26],
+                    [5.2086, 0.6352, 0.1503, 0.9483, 5],
+                    [5.5136, 5.4253, 0.8274, 0.3368, 27],
+                    [1.3527, 2.2574, 0.677, 0.5048, 43],
+                    [1.3214, 5.5842, 0.1391, 0.5895, -17],
+                    [0.797, 0.2175, 0.6886, 0.8607, -9],
+                    [1.3016, 4.8687, 0.5527, 0.4766, 6],
+                ],
+            ],
+            [
+                [
+                    [0.0021, 0.0936, 0.3166, 0.6599, -30],
+                    [0.8496, 3.4255, 0.6877, 0.1612, 7],
+                    [0.0366, 0.0955, 0.4558, 0.7885, -29],
+                    [6.0151, 2.1065, 0.2258, 0.8734, -2],
+                    [5.866, 5.9313, 0.5382, 0.2325, 53],
+                    [5.7566, 1.1101, 0.1874, 0.6679, 30],
+                    [5.0952, 5.9014, 0.4086, 0.1506, 3],
+                ],
+                [
+                    [5.9204, 5.6199, 0.7452, 0.1119, 53],
+                    [6.2651, 1.6606, 0.24, 0.8211, -12],
+                    [3.536, 2.4818, 0.2489, 0.0959, 27],
+                    [3.2848, 0.1021, 0.1856, 0.4736, -39],
+                    [2.8392, 0.4741, 0.1918, 0.5058, 25],
+                    [0.837, 0.6139, 0.4418, 0.1798, -17],
+                    [5.7582, 0.6746, 0.2075, 0.854, -5],
+                ],
+                [
+                    [3.9853, 5.1574, 0.0927, 0.599, -49],
+                    [5.9396, 5.3077, 0.6812, 0.166, 68],
+                    [1.9292, 6.1901, 0.9019, 0.2099, 0],
+                    [3.8119, 0.39, 0.1504, 0.4458, -17],
+                    [4.0234, 5.3049, 0.262, 0.1804, 83],
+                    [1.9402, 3.6068, 0.9316, 0.1246, 14],
+                    [0.4458, 1.3747, 0.3696, 0.3459, 17],
+                ],
+                [
+                    [0.0586, 1.4668, 0.3502, 0.9001, 5],
+                    [1.328, 0.3837, 0.3123, 0.2561, -30],
+                    [2.784, 0.409, 0.1099, 0.5494, 37],
+                    [5.0679, 5.9116, 0.4535, 0.3658, 58],
+                    [0.7993, 3.4143, 0.8592, 0.1863, -5],
+                    [5.8604, 5.3304, 0.74, 0.0956, 19],
+                    [0.8034, 1.6382, 0.594, 0.8353, -5],
+                ],
+                [
+                    [3.1371, 4.9631, 0.139, 0.4388, -3],
+                    [2.3842, 6.2793, 0.443, 0.2776, 0],
+                    [0.5261, 6.2697, 0.9344, 0.3099, 11],
+                    [3.6856, 1.4468, 0.0677, 0.8953, -31],
+                    [0.1225, 2.9198, 0.6567, 0.5006, 5],
+                    [0.3096, 0.7903, 0.9416, 0.748, 2],
+                    [1.8176, 0.6829, 0.9104, 0.7314, 16],
+                ],
+            ],
+            [
+                [
+                    [5.5221, 2.9741, 0.0802, 0.1747, 11],
+                    [4.5151, 5.916, 0.0495, 0.9629, -53],
+                    [0.0767, 2.5128, 0.3959, 0.0554, 17],
+                    [0.0731, 3.7899, 0.1361, 0.2804, -10],
+                    [4.6376, 4.1377, 0.5462, 0.1707, 18],
+                    [5.3578, 3.5267, 0.4218, 0.4864, 29],
+                    [0.7533, 2.8029, 0.1295, 0.6714, 37],
+                ],
+                [
+                    [3.7831, 4.8163, 0.3382, 0.6281, -11],
+                    [5.0463, 1.7298, 0.1223, 0.5937, 0],
+                    [0.9598, 0.8059, 0.0275, 0.8862, 0],
+                    [5.9148, 2.8777, 0.1546, 0.3242, 25],
+                    [3.4735, 1.0855, 0.7148, 0.6936, -21],
+                    [1.4596, 6.2239, 0.4377, 0.5804, 2],
+                    [3.7008, 2.3268, 0.2717, 0.2142, 0],
+                ],
+                [
+                    [5.1501, 4.0732, 0.6648, 0.149, 46],
+                    [3.435, 5.7676, 0.7001, 0.0128, 39],
+                    [1.7261, 5.0769, 0.7125, 0.1518, -2],
+                    [1.8925, 4.0042, 0.7789, 0.2414, -10],
+                    [0.5833, 5.9495, 0.166, 0.7707, -50],
+                    [6.2749, 1.7598, 0.1024, 0.5201, 16],
+                    [4.029, 5.9863, 0.4211, 0.5294, 23],
+                ],
+                [
+                    [5.5868, 4.2638, 0.8725, 0.1808, 15],
+                    [3.5996, 1.9424, 0.3127, 0.7618, 9],
+                    [5.7858, 3.8956, 0.6844, 0.2617, 25],
+                    [1.2832, 0.3978, 0.0539, 0.5418, 4],
+                    [5.4379, 3.4365, 0.2879, 0.141, 43],
+                    [2.393, 3.5482, 0.1383, 0.1878, -49],
+                    [1.6762, 5.1409, 0.7093, 0.1204, 28],
+                ],
+                [
+                    [3.6933, 2.7246, 0.3545, 0.9106, 7],
+                    [3.0791, 3.7028, 0.1188, 0.4137, 20],
+                    [0.2178, 4.1726, 0.5273, 0.0911, -27],
+                    [0.2219, 3.087, 0.8155, 0.2628, 4],
+                    [5.8075, 4.8576, 0.7665, 0.1521, 36],
+                    [3.6248, 0.5847, 0.3098, 0.0385, 33],
+                    [1.6782, 0.3318, 0.0592, 0.9138, 41],
+                ],
+            ],
+            [
+                [
+                    [5.6367, 0.1235, 0.3115, 0.7567, -9],
+                    [3.5629, 3.4004, 0.342, 0.7653, 24],
+                    [5.5363, 2.2233, 0.1687, 0.1133, -11],
+                    [3.596, 3.2325, 0.9797, 0.6253, 11],
+                    [5.2296, 5.0218, 0.9657, 0.1232, -57],
+                    [3.7595, 1.8098, 0.0687, 0.7976, -21],
+                    [6.0648, 0.9294, 0.6578, 0.054, -18],
+                ],
+                [
+                    [5.476, 4.8477, 0.1789, 0.4813, -18],
+                    [3.4548, 3.4222, 0.9011, 0.1119, 45],
+                    [1.8705, 5.5138, 0.8868, 0.0759, 17],
+                    [5.1763, 0.3361, 0.1814, 0.7574, 17],
+                    [1.6601, 2.5746, 0.4823, 0.6215, 8],
+                    [2.0351, 3.3834, 0.1361, 0.9696, -56],
+                    [0.0021, 1.319, 0.2675, 0.4695, -23],
+                ],
+                [
+                    [5.6348, 1.5822, 0.3048, 0.7857, -20],
+                    [3.58, 2.4102, 0.1446, 0.8828, -28],
+                    [4.1308, 5.3225, 0.6613, 0.0858, 28],
+                    [1.7869, 3.4449, 0.2095, 0.9384, 81],
+                    [2.6533, 2.8577, 0.0848, 0.5055, -12],
+                    [2.5706, 2.5316, 0.1089, 0.5148, -10],
+                    [3.5004, 5.4508, 0.0843, 0.4138, -62],
+                ],
+                [
+                    [5.4033, 2.223, 0.1924, 0.7912, -19],
+                    [1.4658, 5.1796, 0.5308, 0.6207, 20],
+                    [1.56, 3.3054, 0.0706, 0.8212, -13],
+                    [1.265, 4.6469, 0.94, 0.1255, 32],
+                    [0.3844, 0.2238, 0.5878, 0.9358, -18],
+                    [5.6988, 2.8647, 0.0911, 0.5212, 2],
+                    [3.3273, 4.8817, 0.5675, 0.0155, -5],
+                ],
+                [
+                    [5.796, 4.7193, 0.2622, 0.4782, -14],
+                    [3.4654, 3.3563, 0.2601, 0.0714, 19],
+                    [0.9629, 5.8882, 0.8394, 0.6615, 0],
+                    [5.1917, 1.2734, 0.154, 0.477, 35],
+                    [1.0498, 5.287, 0.8063, 0.1987, 0],
+                    [6.0786, 0.7665, 0.1907, 0.936, 28],
+                    [1.8392, 2.1013, 0.08, 0.485, -15],
+                ],
+            ],
+            [
+                [
+                    [4.3906, 2.2792, 0.0721, 0.8303, 0],
+                    [2.2764, 3.0004, 0.5631, 0.7611, 48],
+                    [1.0494, 2.3188, 0.6368, 0.596, 16],
+                    [1.2808, 1.9459, 0.3993, 0.3846, 3],
+                    [5.3032, 0.0689, 0.6878, 0.5786, -15],
+                    [5.1884, 3.164, 0.3297, 0.1377, 32],
+                    [3.745, 3.2333, 0.7053, 0.4111, 23],
+                ],
+                [
+                    [3.0809, 3.6728, 0.3359, 0.4921, -10],
+                    [1.3589, 3.8328, 0.7819, 0.1321, 4],
+                    [4.7169, 1.9844, 0.0254, 0.9938, 8],
+                    [4.8744, 2.1216, 0.0562, 0.9521, -6],
+                    [3.8349, 4.8749, 0.9105, 0.1645, 26],
+                    [2.0203, 1.8692, 0.501, 0.5883, 5],
+                    [2.3384, 1.6135, 0.1124, 0.8177, 30],
+                ],
+                [
+                    [3.131, 1.7123, 0.188, 0.7767, 37],
+                    [3.66, 5.7723, 0.7271, 0.1567, 19],
+                    [2.0407, 1.4351, 0.5906, 0.7772, -12],
+                    [2.1494, 0.7225, 0.5247, 0.3664, -60],
+                    [3.2751, 0.3662, 0.3254, 0.4901, -7],
+                    [1.3867, 0.1581, 0.8348, 0.094, 5],
+                    [1.4739, 0.2563, 0.9674, 0.3729, -31],
+                ],
+                [
+                    [5.1209, 3.8472, 0.1409, 0.6059, -25],
+                    [6.2153, 1.5284, 0.3362, 0.83, 2],
+                    [1.5701, 2.1186, 0.9111, 0.6261, 30],
+                    [4.3269, 3.9043, 0.5149, 0.2568, 46],
+                    [1.0051, 3.909, 0.7481, 0.1827, -3],
+                    [4.785, 1.2652, 0.0713, 0.1717, -17],
+                    [2.6842, 5.7145, 0.5991, 0.0827, -33],
+                ],
+                [
+                    [4.0579, 5.2854, 0.538, 0.1023, 12],
+                    [1.1763, 2.9559, 0.8468, 0.4493, 33],
+                    [3.3969, 3.7692, 0.2565, 0.7643, -42],
+                    [1.4279, 2.8839, 0.836, 0.4048, -7],
+                    [1.0907, 2.5642, 0.5239, 0.2504, 64],
+                    [2.3768, 3.3953, 0.9273, 0.2699, -31],
+                    [1.4857, 4.8247, 0.1798, 0.0406, -31],
+                ],
+            ],
+            [
+                [
+                    [3.6505, 2.258, 0.6405, 0.9599, -14],
+                    [3.8087, 3.5486, 0.9375, 0.7696, 23],
+                    [4.3294, 3.9717, 0.1795, 0.7987, -26],
+                    [2.0689, 2.79, 0.9228, 0.6055, 63],
+                    [2.8802, 3.5692, 0.2648, 0.1611, 30],
+                    [4.4099, 3.4975, 0.5611, 0.9114, -32],
+                    [0.5922, 3.6569, 0.0394, 0.8213, -19],
+                ],
+                [
+                    [2.4274, 2.8029, 0.827, 0.536, 0],
+                    [2.1867, 2.7321, 0.7884, 0.7621, 18],
+                    [6.0124, 3.1814, 0.1466, 0.9694, 16],
+                    [0.1604, 2.5233, 0.1575, 0.7841, 56],
+                    [4.0917, 1.5148, 0.0816, 0.6067, -16],
+                    [2.0098, 1.1019, 0.2062, 0.6362, 5],
+                    [2.0119, 2.973, 0.0863, 0.919, -8],
+                ],
+                [
+                    [3.7876, 6.0294, 0.4896, 0.1913, -15],
+                    [4.0012, 0.4612, 0.8798, 0.2338, -12],
+                    [2.8254, 2.2138, 0.9068, 0.7415, -16],
+                    [3.227, 5.012, 0.3547, 0.0955, -34],
+                    [2.4659, 4.8586, 0.9534, 0.1962, 0],
+                    [4.628, 3.6824, 0.5777, 0.7003, -46],
+                    [3.9763, 4.9373, 0.1736, 0.3022, -2],
+                ],
+                [
+                    [4.5053, 3.9906, 0.2309, 0.9326, -6],
+                    [2.2009, 3.5742, 0.6599, 0.6558, -23],
+                    [2.735, 1.3861, 0.6328, 0.1291, -59],
+                    [3.7491, 1.8863, 0.3074, 0.7216, 0],
+                    [4.5475, 2.8532, 0.5627, 0.1969, 2],
+                    [4.5321, 3.5585, 0.5927, 0.8736, 17],
+                    [2.0148, 2.4761, 0.5638, 0.9401, 0],
+                ],
+                [
+                    [2.3338, 3.5942, 0.7586, 0.7461, -43],
+                    [3.4609, 2.2571, 0.6203, 0.7972, 22],
+                    [2.5966, 2.25, 0.9632, 0.5057, 24],
+                    [3.3206, 5.7183, 0.3245, 0.0941, -12],
+                    [1.132, 2.235, 0.0384, 0.914, 17],
+                    [2.8159, 2.9303, 0.4012, 0.1629, 4],
+                    [2.3105, 2.7173, 0.7388, 0.4431, 24],
+                ],
+            ],
+            [
+                [
+                    [6.1737, 0.1257, 0.9559, 0.3986, 55],
+                    [0.5107, 5.3741, 0.6538, 0.6917, 4],
+                    [4.8425, 0.046, 0.4357, 0.9031, -6],
+                    [4.9868, 4.122, 0.5159, 0.412, 17],
+                    [3.2412, 4.0477, 0.7801, 0.4734, -20],
+                    [2.5715, 2.5353, 0.7729, 0.4592, -2],
+                    [4.9915, 2.9859, 0.4163, 0.2121, 21],
+                ],
+                [
+                    [6.2614, 2.0597, 0.4641, 0.4637, -50],
+                    [0.4558, 4.2421, 0.9879, 0.4499, 22],
+                    [5.2596, 0.9787, 0.4248, 0.8559, -42],
+                    [5.454, 2.4776, 0.8098, 0.5422, 28],
+                    [5.1663, 3.5354, 0.498, 0.0411, -5],
+                    [6.1021, 2.6632, 0.4816, 0.6034, -27],
+                    [5.4022, 4.3715, 0.3652, 0.1604, 0],
+                ],
+                [
+                    [0.5541, 4.0277, 0.4716, 0.4761, -18],
+                    [5.4865, 3.2565, 0.4067, 0.1066, -11],
+                    [3.2823, 4.2268, 0.734, 0.4175, -25],
+                    [1.198, 3.8214, 0.403, 0.3353, 30],
+                    [2.6904, 5.3317, 0.4112, 0.585, -9],
+                    [0.4494, 5.2831, 0.7412, 0.6515, -9],
+                    [4.2152, 4.6142, 0.3599, 0.9379, -34],
+                ],
+                [
+                    [4.0697, 5.2537, 0.2061, 0.4398, 11],
+                    [3.922, 5.2492, 0.5039, 0.6098, -10],
+                    [0.7026, 6.0781, 0.6239, 0.7431, 22],
+                    [0.7207, 4.0236, 0.5619, 0.6094, -11],
+                    [3.9529, 2.3109, 0.6645, 0.6449, 0],
+                    [5.2119, 3.1618, 0.8888, 0.6662, -3],
+                    [4.1232, 5.1898, 0.4707, 0.4858, 10],
+                ],
+                [
+                    [6.0999, 0.2169, 0.6168, 0.834, 12],
+                    [4.2125, 5.3033, 0.4821, 0.4296, 8],
+                    [5.6545, 4.1976, 0.4158, 0.5588, -21],
+                    [2.6877, 3.3578, 0.6474, 0.7665, 4],
+                    [2.5787, 5.0949, 0.2436, 0.369, 25],
+                    [4.1361, 1.4152, 0.402, 0.6421, -38],
+                    [3.8114, 6.2518, 0.213, 0.4835, 13],
+                ],
+            ],
+            [
+                [
+                    [1.2446, 0.484, 0.7497, 0.4335, -3],
+                    [0.5898, 1.3847, 0.8044, 0.4768, -2],
+                    [4.2373, 1.6781, 0.4567, 0.4182, 11],
+                    [4.728, 1.4371, 0.7673, 0.358, 14],
+                    [0.1904, 0.5027, 0.3279, 0.7964, 3],
+                    [0.7258, 0.6112, 0.4482, 0.9064, 28],
+                    [5.609, 0.4115, 0.9455, 0.7625, 15],
+                ],
+                [
+                    [5.8075, 0.5, 0.5577, 0.7277, 20],
+                    [0.2295, 4.3367, 0.2722, 0.6432, -3],
+                    [4.1779, 1.1174, 0.407, 0.3684, 39],
+                    [0.7921, 1.5525, 0.653, 0.3478, 0],
+                    [0.3152, 1.6953, 0.8566, 0.743, 35],
+                    [1.1447, 0.5311, 0.9183, 0.5232, -7],
+                    [1.198, 0.5807, 0.7765, 0.4478, 6],
+                ],
+                [
+                    [0.4666, 1.6521, 0.8402, 0.725, 4],
+                    [4.7016, 1.6413, 0.7688, 0.1848, -29],
+                    [5.5084, 0.5842, 0.9145, 0.797, -2],
+                    [1.7213, 4.7655, 0.6667, 0.9271, -30],
+                    [4.9139, 1.8815, 0.9478, 0.3929, 27],
+                    [0.7738, 1.7665, 0.9375, 0.7284, 24],
+                    [0.5108, 1.6416, 0.7957, 0.318, 10],
+                ],
+                [
+                    [0.6392, 1.9456, 0.916, 0.4893, 3],
+                    [1.6638, 0.6891, 0.6999, 0.7234, 20],
+                    [0.517, 2.8047, 0.8127, 0.1978, -6],
+                    [0.5531, 4.0993, 0.4221, 0.5779, -4],
+                    [1.5401, 3.6459, 0.4002, 0.4982, -29],
+                    [0.4547, 1.4741, 0.6148, 0.5732, 12],
+                    [0.4963, 5.5052, 0.6182, 0.9766, -6],
+                ],
+                [
+                    [0.4198, 1.6615, 0.6842, 0.7926, 14],
+                    [1.2072, 4.4135, 0.4381, 0.7815, -2],
+                    [0.5698, 1.7163, 0.89, 0.3892, 3],
+                    [0.1593, 1.5884, 0.7998, 0.2259, 6],
+                    [4.9975, 0.4387, 0.1986, 0.8861, 26],
+                    [4.4338, 1.4437, 0.7249, 0.5797, -14],
+                    [0.995, 4.5682, 0.2374, 0.5404, -15],
+                ],
+            ],
+            [
+                [
+                    [2.4177, 0.4671, 0.2015, 0.3143, -4],
+                    [3.0074, 0.6901, 0.4404, 0.4126, 0],
+                    [2.38, 0.3159, 0.4519, 0.5459, -6],
+                    [1.2347, 4.9786, 0.0424, 0.6353, -1],
+                    [1.841, 3.8591, 0.1298, 0.5881, -18],
+                    [0.0616, 5.6182, 0.2633, 0.9874, -20],
+                    [0.3988, 5.9843, 0.1527, 0.9568, -21],
+                ],
+                [
+                    [0.5022, 3.7103, 0.3475, 0.5294, -20],
+                    [1.788, 2.0476, 0.083, 0.624, 35],
+                    [0.8407, 2.0136, 0.3376, 0.7286, 14],
+                    [2.6756, 3.872, 0.4729, 0.9912, -17],
+                    [2.2617, 0.5346, 0.482, 0.4914, 8],
+                    [2.4956, 1.2466, 0.3912, 0.6892, 5],
+                    [0.903, 4.984, 0.741, 0.1962, -9],
+                ],
+                [
+                    [2.6147, 0.5398, 0.4024, 0.3543, 4],
+                    [1.1305, 2.4993, 0.3994, 0.4733, -2],
+                    [0.9214, 4.8892, 0.0931, 0.6411, -23],
+                    [0.7342, 0.0066, 0.1243, 0.4482, 0],
+                    [3.0277, 4.3104, 0.8623, 0.9841, -42],
+                    [2.9406, 3.9514, 0.3731, 0.5828, -36],
+                    [1.9475, 3.8866, 0.5613, 0.1582, -36],
+                ],
+                [
+                    [2.2869, 0.693, 0.6968, 0.5927, -16],
+                    [3.4853, 2.0802, 0.9282, 0.1107, 14],
+                    [2.1852, 4.1965, 0.4462, 0.3153, -24],
+                    [4.1592, 0.6572, 0.2886, 0.3223, 11],
+                    [0.1344, 2.6857, 0.442, 0.6476, 21],
+                    [2.3916, 1.1776, 0.1899, 0.7127, 10],
+                    [6.2689, 2.8116, 0.5403, 0.212, 3],
+                ],
+                [
+                    [0.969, 2.2682, 0.3798, 0.4747, 3],
+                    [0.7384, 2.3393, 0.6249, 0.3316, 12],
+                    [0.629, 4.7343, 0.319, 0.5417, -40],
+                    [5.7243, 1.3612, 0.827, 0.15, 10],
+                    [3.0253, 0.4843, 0.4171, 0.651, -14],
+                    [2.1902, 0.2964, 0.7432, 0.2826, -39],
+                    [0.675, 4.4066, 0.0675, 0.6683, -4],
+                ],
+            ],
+            [
+                [
+                    [1.8172, 2.5704, 0.4776, 0.756, 2],
+                    [5.1126, 2.5451, 0.572, 0.3147, 16],
+                    [4.8995, 1.3767, 0.6126, 0.3035, 7],
+                    [3.7712, 2.8499, 0.9224, 0.6459, 11],
+                    [0.9815, 3.0124, 0.7405, 0.6093, 11],
+                    [3.8708, 5.2289, 0.878, 0.7466, 34],
+                    [5.4248, 1.8799, 0.2837, 0.2776, 37],
+                ],
+                [
+                    [2.3511, 2.1581, 0.4017, 0.9579, 22],
+                    [2.4566, 1.5089, 0.8862, 0.3093, -15],
+                    [5.5546, 1.5451, 0.7098, 0.3723, 35],
+                    [1.6863, 5.4103, 0.2162, 0.8192, -20],
+                    [4.662, 2.7021, 0.4361, 0.7691, 34],
+                    [5.6526, 1.8129, 0.5356, 0.4775, 14],
+                    [2.9299, 0.6502, 0.6789, 0.2307, -4],
+                ],
+                [
+                    [1.9222, 2.2103, 0.2363, 0.9762, 0],
+                    [2.6599, 1.6035, 0.8178, 0.7394, 27],
+                    [5.0072, 1.7769, 0.4444, 0.3999, 29],
+                    [2.7478, 1.8235, 0.8077, 0.3538, 19],
+                    [2.6522, 1.183, 0.6997, 0.3487, -3],
+                    [4.1017, 2.529, 0.6851, 0.9223, 20],
+                    [2.4883, 1.7866, 0.6882, 0.4443, -7],
+                ],
+                [
+                    [4.9338, 1.491, 0.73, 0.182, -3],
+                    [1.5358, 3.2146, 0.3496, 0.8313, -26],
+                    [2.387, 4.136, 0.6427, 0.9767, -8],
+                    [3.9219, 2.6471, 0.5068, 0.6208, 30],
+                    [4.2894, 2.6958, 0.9568, 0.7472, 0],
+                    [2.7091, 1.3788, 0.3843, 0.6549, 6],
+                    [0.808, 1.9286, 0.6902, 0.7688, 3],
+                ],
+                [
+                    [2.178, 2.1981, 0.3867, 0.9252, 17],
+                    [2.1658, 2.5953, 0.2839, 0.6279, 0],
+                    [1.9419, 2.4636, 0.9544, 0.8246, 16],
+                    [3.6157, 2.5166, 0.369, 0.4739, 41],
+                    [2.6705, 4.2186, 0.5684, 0.7023, -31],
+                    [1.3972, 2.5346, 0.5922, 0.7871, 13],
+                    [2.1488, 1.4466, 0.9465, 0.513, 3],
+                ],
+            ],
+            [
+                [
+                    [4.8362, 0.1385, 0.1533, 0.4438, -5],
+                    [4.8244, 1.0374, 0.2055, 0.0288, 28],
+                    [0.0958, 2.962, 0.4366, 0.2173, -69],
+                    [5.9005, 4.273, 0.4345, 0.236, -4],
+                    [5.913, 6.1018, 0.4516, 0.9082, -19],
+                    [4.5203, 0.3262, 0.5841, 0.2555, 101],
+                    [0.7915, 5.9762, 0.4395, 0.3683, 22],
+                ],
+                [
+                    [5.7035, 0.1963, 0.0544, 0.4765, -14],
+                    [2.9132, 6.1409, 0.3398, 0.3686, 64],
+                    [0.3722, 5.5277, 0.6595, 0.2961, 44],
+                    [1.5746, 5.5198, 0.3647, 0.2659, 38],
+                    [5.374, 0.6832, 0.2369, 0.8611, -68],
+                    [0.069, 0.6316, 0.9203, 0.2356, 39],
+                    [0.2702, 0.809, 0.2285, 0.858, -86],
+                ],
+                [
+                    [2.6305, 0.1343, 0.1453, 0.5151, 60],
+                    [6.2517, 5.4937, 0.5076, 0.2513, 0],
+                    [0.2718, 0.497, 0.1317, 0.6041, -54],
+                    [0.0357, 0.6226, 0.392, 0.3115, -25],
+                    [0.7033, 5.6228, 0.2325, 0.2657, 38],
+                    [5.868, 0.2331, 0.9207, 0.4722, 52],
+                    [5.8091, 0.4436, 0.2847, 0.4449, -21],
+                ],
+                [
+                    [3.9617, 6.1385, 0.5206, 0.5059, 59],
+                    [5.6364, 1.1189, 0.3204, 0.5812, -51],
+                    [0.824, 5.2763, 0.3578, 0.6748, -17],
+                    [5.0966, 5.8489, 0.2124, 0.3452, 13],
+                    [0.9829, 5.7906, 0.8198, 0.0868, 63],
+                    [2.9962, 0.5142, 0.1186, 0.6651, 0],
+                    [6.0202, 4.2624, 0.6565, 0.5672, -17],
+                ],
+                [
+                    [5.8984, 3.7711, 0.4546, 0.1271, 6],
+                    [5.4709, 0.7193, 0.3469, 0.2536, -2],
+                    [5.1613, 1.6334, 0.1768, 0.8198, -37],
+                    [1.9617, 1.1824, 0.1221, 0.9546, -34],
+                    [6.2193, 3.6793, 0.4406, 0.324, -65],
+                    [0.656, 2.7788, 0.3239, 0.3515, -28],
+                    [0.0883, 0.9351, 0.3874, 0.6928, -50],
+                ],
+            ],
+            [
+                [
+                    [2.5236, 5.922, 0.2794, 0.1609, 32],
+                    [5.8958, 5.1758, 0.7754, 0.0591, 93],
+                    [0.2022, 3.856, 0.3222, 0.5387, -44],
+                    [1.6161, 4.0843, 0.3621, 0.0616, 5],
+                    [1.2251, 0.4449, 0.2206, 0.6924, -62],
+                    [0.5829, 4.7868, 0.416, 0.196, -13],
+                    [3.1174, 6.1182, 0.0751, 0.2548, -5],
+                ],
+                [
+                    [6.0476, 0.1548, 0.1815, 0.9167, -57],
+                    [3.3159, 6.0625, 0.0505, 0.7381, -62],
+                    [4.9604, 1.8305, 0.0542, 0.5566, -30],
+                    [2.2247, 5.3476, 0.409, 0.0701, 127],
+                    [5.5299, 1.036, 0.7579, 0.3298, 69],
+                    [0.5657, 2.2122, 0.2943, 0.2473, -25],
+                    [0.3677, 0.4391, 0.3918, 0.9957, -52],
+                ],
+                [
+                    [3.3424, 0.0141, 0.2758, 0.5085, 4],
+                    [0.7845, 5.653, 0.4897, 0.1394, 0],
+                    [0.9969, 6.0867, 0.8141, 0.1993, 84],
+                    [1.1469, 1.0476, 0.0752, 0.58, -61],
+                    [5.6207, 3.0367, 0.1597, 0.2773, -1],
+                    [0.3264, 2.034, 0.431, 0.4263, -43],
+                    [6.1563, 5.8865, 0.4409, 0.075, 72],
+                ],
+                [
+                    [1.3693, 4.8451, 0.4718, 0.0472, 69],
+                    [2.7125, 0.6114, 0.0472, 0.2289, 9],
+                    [3.1779, 5.8747, 0.2847, 0.2139, 18],
+                    [2.7719, 5.9891, 0.3729, 0.241, 2],
+                    [0.8619, 6.158, 0.8122, 0.203, 46],
+                    [1.3575, 3.9512, 0.4634, 0.0579, 90],
+                    [2.1576, 5.4232, 0.7207, 0.1706, 48],
+                ],
+                [
+                    [0.0061, 1.9802, 0.353, 0.1015, 6],
+                    [0.924, 5.2042, 0.461, 0.1552, 31],
+                    [0.032, 5.401, 0.4024, 0.0488, 16],
+                    [1.0358, 5.7837, 0.2573, 0.1474, 11],
+                    [1.4694, 1.1758, 0.3106, 0.7381, -28],
+                    [0.226, 0.9299, 0.8876, 0.226, 48],
+                    [5.8937, 0.9993, 0.1487, 0.52, -80],
+                ],
+            ],
+            [
+                [
+                    [3.4017, 4.8527, 0.221, 0.0842, -14],
+                    [1.9066, 3.186, 0.277, 0.3029, 7],
+                    [0.7545, 3.7368, 0.9362, 0.0958, 53],
+                    [3.019, 3.7953, 0.3933, 0.0818, 25],
+                    [0.3273, 1.1329, 0.7117, 0.3907, 10],
+                    [6.1929, 2.5447, 0.2137, 0.5081, -21],
+                    [6.1, 3.0182, 0.133, 0.5984, -44],
+                ],
+                [
+                    [3.8275, 3.3451, 0.0319, 0.5005, -22],
+                    [1.2594, 5.9892, 0.2647, 0.1215, 21],
+                    [1.5196, 3.6206, 0.3325, 0.265, 22],
+                    [0.7702, 2.9418, 0.5357, 0.2248, 100],
+                    [0.2136, 2.7401, 0.1317, 0.0704, 9],
+                    [1.2651, 3.2487, 0.5307, 0.6824, 12],
+                    [1.5517, 5.9392, 0.4126, 0.1875, 13],
+                ],
+                [
+                    [0.048, 3.2142, 0.2249, 0.4086, 0],
+                    [2.6551, 6.0609, 0.4983, 0.1515, 16],
+                    [1.291, 3.5213, 0.2088, 0.096, 21],
+                    [3.5387, 2.2485, 0.1625, 0.3838, -10],
+                    [6.2252, 6.1451, 0.9196, 0.3949, -7],
+                    [2.6914, 0.7935, 0.3177, 0.365, -29],
+                    [2.9202, 2.2278, 0.1844, 0.1761, -5],
+                ],
+                [
+                    [0.1718, 3.5052, 0.2745, 0.2513, 26],
+                    [5.9348, 1.0153, 0.0247, 0.8093, -71],
+                    [0.0967, 2.3075, 0.1557, 0.4035, -14],
+                    [0.7515, 3.1956, 0.6527, 0.2175, 81],
+                    [3.1574, 1.7502, 0.33, 0.3599, -12],
+                    [2.7113, 5.7508, 0.2712, 0.381, -13],
+                    [3.1308, 0.1916, 0.2785, 0.3822, -37],
+                ],
+                [
+                    [3.3306, 1.3117, 0.2031, 0.5862, -62],
+                    [5.4387, 3.5582, 0.4437, 0.3104, 47],
+                    [0.0758, 2.416, 0.3513, 0.5503, -3],
+                    [4.0751, 2.2116, 0.194, 0.4021, -10],
+                    [1.8048, 1.3493, 0.2788, 0.9721, -15],
+                    [1.202, 3.1016, 0.4947, 0.2833, 38],
+                    [0.5568, 2.1303, 0.1975, 0.361, 1],
+                ],
+            ],
+            [
+                [
+                    [4.7399, 3.9573, 0.0981, 0.4229, -43],
+                    [0.0614, 6.1722, 0.8899, 0.1982, -29],
+                    [3.194, 0.8186, 0.4076, 0.2586, -36],
+                    [1.0302, 2.7799, 0.5742, 0.5567, 19],
+                    [2.2594, 3.9923, 0.9006, 0.2972, 91],
+                    [3.6486, 3.4698, 0.1788, 0.4314, 1],
+                    [3.9031, 2.7639, 0.7145, 0.1853, 52],
+                ],
+                [
+                    [4.105, 2.8407, 0.3479, 0.2689, 13],
+                    [3.1529, 5.0656, 0.4379, 0.4963, -35],
+                    [3.1737, 0.6152, 0.6729, 0.2454, 0],
+                    [0.5856, 1.7431, 0.8376, 0.2333, 21],
+                    [6.1901, 3.6274, 0.2546, 0.3778, 8],
+                    [4.8971, 0.1354, 0.2153, 0.9554, 16],
+                    [1.4636, 5.4549, 0.8082, 0.075, 55],
+                ],
+                [
+                    [0.1559, 5.6794, 0.8083, 0.275, -2],
+                    [3.6187, 0.1393, 0.4621, 0.2295, -30],
+                    [4.3964, 3.3806, 0.0836, 0.346, 2],
+                    [0.493, 3.3904, 0.0456, 0.7692, -33],
+                    [0.4493, 4.0595, 0.7131, 0.1925, 38],
+                    [4.2099, 4.2003, 0.0367, 0.2425, -2],
+                    [3.3084, 2.0259, 0.5363, 0.3168, -32],
+                ],
+                [
+                    [6.1585, 2.9243, 0.8324, 0.1606, 41],
+                    [3.2129, 0.401, 0.3862, 0.0587, -33],
+                    [3.612, 6.2071, 0.3025, 0.3455, -26],
+                    [3.3994, 1.7357, 0.5321, 0.2676, -47],
+                    [2.3926, 4.0184, 0.5917, 0.881, -19],
+                    [3.3892, 5.9824, 0.1, 0.9538, -55],
+                    [5.8001, 2.7811, 0.4224, 0.3519, 41],
+                ],
+                [
+                    [2.8524, 4.324, 0.615, 0.1519, 22],
+                    [3.2493, 0.5511, 0.4169, 0.3413, -46],
+                    [5.824, 2.601, 0.5349, 0.2026, 44],
+                    [3.3981, 0.4014, 0.522, 0.1776, -50],
+                    [3.4619, 1.544, 0.2938, 0.0332, -3],
+                    [2.2307, 3.5648, 0.3911, 0.4923, 55],
+                    [5.4417, 3.6865, 0.3171, 0.3537, 46],
+                ],
+            ],
+            [
+                [
+                    [4.0509, 0.235, 0.2692, 0.3164, 26],
+                    [5.4712, 0.321, 0.2744, 0.1703, -5],
+                    [1, 6.0001, 0.1317, 0.8055, -36],
+                    [0.2544, 5.0149, 0.4352, 0.1917, 45],
+                    [0.6636, 5.9826, 0.2967, 0.4477, 32],
+                    [5.7757, 6.0576, 0.1308, 0.389, 16],
+                    [0.4127, 3.4338, 0.2505, 0.6815, -25],
+                ],
+                [
+                    [0.0872, 0.9212, 0.6599, 0.2, 18],
+                    [0.1298, 3.0841, 0.2374, 0.6669, -43],
+                    [5.7709, 1.0773, 0.3994, 0.5104, -41],
+                    [0.3147, 4.1695, 0.3978, 0.2448, -17],
+                    [3.693, 6.0412, 0.1227, 0.3881, 21],
+                    [0.1456, 4.3247, 0.3493, 0.7665, -100],
+                    [0.8801, 4.314, 0.358, 0.4072, -5],
+                ],
+                [
+                    [5.7099, 5.2978, 0.099, 0.2853, -10],
+                    [3.024, 3.2651, 0.6009, 0.0734, 42],
+                    [2.7687, 5.4606, 0.331, 0.2241, 43],
+                    [2.3012, 6.2249, 0.4305, 0.3633, 66],
+                    [3.11, 0.4518, 0.1066, 0.4041, -35],
+                    [2.5951, 6.0294, 0.5428, 0.3633, 56],
+                    [5.9438, 4.7206, 0.6585, 0.6352, -4],
+                ],
+                [
+                    [5.9491, 5.2887, 0.452, 0.2528, -2],
+                    [6.1196, 6.112, 0.1972, 0.6261, -32],
+                    [3.8096, 0.389, 0.3146, 0.2892, 40],
+                    [5.7432, 0.4977, 0.4692, 0.3013, 7],
+                    [5.0409, 5.5502, 0.0953, 0.4184, -8],
+                    [5.6735, 1.4238, 0.3852, 0.155, -33],
+                    [5.4029, 2.5977, 0.2545, 0.4527, -45],
+                ],
+                [
+                    [0.4552, 4.6593, 0.4998, 0.163, 20],
+                    [5.901, 0.1729, 0.3774, 0.1584, -8],
+                    [5.7879, 1.9297, 0.4047, 0.4466, -62],
+                    [2.0295, 6.1399, 0.9419, 0.506, 79],
+                    [0.4444, 2.9165, 0.1746, 0.8466, -50],
+                    [0.1645, 4.3385, 0.4223, 0.1161, 7],
+                    [0.8829, 3.5747, 0.1213, 0.7013, -13],
+                ],
+            ],
+            [
+                [
+                    [3.575, 5.488, 0.0391, 0.148, -28],
+                    [0.4202, 0.0399, 0.7625, 0.2741, 53],
+                    [6.2542, 1.9528, 0.3261, 0.2626, -7],
+                    [1.1648, 5.3106, 0.3144, 0.2211, -26],
+                    [2.728, 1.923, 0.8385, 0.096, 41],
+                    [1.0961, 4.1309, 0.2876, 0.5531, -10],
+                    [5.6797, 0.6729, 0.1896, 0.8608, -41],
+                ],
+                [
+                    [0.5125, 1.5404, 0.2954, 0.0532, -10],
+                    [6.2038, 1.5036, 0.1356, 0.5862, -40],
+                    [6.0448, 2.1053, 0.1533, 0.2343, 5],
+                    [1.0823, 3.5076, 0.331, 0.4147, -11],
+                    [0.4501, 1.0188, 0.6801, 0.2209, 27],
+                    [6.1228, 4.8661, 0.2614, 0.0543, 0],
+                    [3.3973, 3.8055, 0.8266, 0.017, 28],
+                ],
+                [
+                    [6.1485, 3.2533, 0.5654, 0.1912, 4],
+                    [0.365, 5.9755, 0.5564, 0.1898, 56],
+                    [0.6581, 3.827, 0.2916, 0.5141, -72],
+                    [5.2745, 6.2529, 0.0717, 0.2612, 0],
+                    [5.9084, 3.4804, 0.3004, 0.096, -38],
+                    [2.8212, 6.0878, 0.1485, 0.3513, -5],
+                    [3.3691, 6.0036, 0.2718, 0.1489, 41],
+                ],
+                [
+                    [6.0938, 1.7941, 0.3478, 0.0602, 39],
+                    [1.2867, 5.7368, 0.4285, 0.2779, 21],
+                    [1.0742, 5.7798, 0.2554, 0.2842, -26],
+                    [5.6008, 0.6579, 0.0678, 0.5095, -35],
+                    [5.56, 0.7898, 0.159, 0.2414, -7],
+                    [2.3391, 0.872, 0.3715, 0.2997, 46],
+                    [2.5141, 5.8218, 0.887, 0.1054, 84],
+                ],
+                [
+                    [5.9729, 0.3082, 0.0744, 0.2175, 15],
+                    [5.7336, 2.2787, 0.3109, 0.5152, -29],
+                    [0.4587, 2.6004, 0.4332, 0.1341, 30],
+                    [1.3416, 3.5577, 0.2267, 0.6827, -51],
+                    [2.4862, 3.1629, 0.9966, 0.0996, 78],
+                    [6.1844, 0.6292, 0.193, 0.8036, -64],
+                    [1.8407, 0.894, 0.2113, 0.5978, -52],
+                ],
+            ],
+            [
+                [
+                    [1.0744, 2.799, 0.0861, 0.3056, -2],
+                    [2.4837, 5.2235, 0.7157, 0.097, 65],
+                    [3.568, 2.5478, 0.2408, 0.5172, -25],
+                    [2.9867, 0.3648, 0.1245, 0.0947, -11],
+                    [1.0678, 1.4709, 0.3817, 0.8519, -36],
+                    [3.3211, 1.879, 0.6664, 0.2666, 9],
+                    [3.1069, 2.6019, 0.0352, 0.5488, -28],
+                ],
+                [
+                    [1.1375, 3.2784, 0.5106, 0.2917, 27],
+                    [5.016, 2.3204, 0.0708, 0.3354, 20],
+                    [2.6107, 5.907, 0.28, 0.3538, -26],
+                    [6.066, 4.3349, 0.1067, 0.7013, -80],
+                    [2.5203, 0.877, 0.3304, 0.3403, -78],
+                    [0.271, 1.2291, 0.2955, 0.818, -29],
+                    [1.3504, 5.3716, 0.8892, 0.1261, 101],
+                ],
+                [
+                    [3.1662, 1.4717, 0.3237, 0.0604, 6],
+                    [2.8862, 2.3282, 0.0647, 0.3303, 4],
+                    [2.4143, 0.0121, 0.2256, 0.4559, -56],
+                    [4.899, 1.6622, 0.6212, 0.4415, 21],
+                    [1.0537, 5.0695, 0.7463, 0.4539, 24],
+                    [0.651, 2.6513, 0.54, 0.0432, 46],
+                    [5.5616, 1.7603, 0.0469, 0.876, -62],
+                ],
+                [
+                    [3.0448, 3.3362, 0.265, 0.972, -64],
+                    [3.3173, 0.8257, 0.1502, 0.276, -71],
+                    [1.6117, 5.7918, 0.3865, 0.1647, 24],
+                    [5.7081, 4.2015, 0.14, 0.8494, -35],
+                    [0.1608, 1.4711, 0.0556, 0.9162, -99],
+                    [1.5851, 3.5718, 0.5185, 0.2359, 23],
+                    [4.2831, 1.9625, 0.5434, 0.5483, -9],
+                ],
+                [
+                    [3.0035, 5.9476, 0.4167, 0.165, 3],
+                    [3.2915, 0.3469, 0.2276, 0.4015, -49],
+                    [4.8987, 2.1266, 0.5004, 0.4053, 24],
+                    [2.031, 1.4501, 0.6134, 0.9926, -6],
+                    [1.6832, 3.0647, 0.1524, 0.5959, -26],
+                    [3.6511, 4.2254, 0.8455, 0.0381, 49],
+                    [3.3359, 5.1825, 0.1121, 0.8273, -18],
+                ],
+            ],
+            [
+                [
+                    [3.8385, 2.4785, 0.2982, 0.4693, -25],
+                    [4.2947, 3.1366, 0.1828, 0.5739, -5],
+                    [1.7333, 3.3262, 0.197, 0.7438, -14],
+                    [4.6466, 3.2735, 0.1405, 0.621, -44],
+                    [3.2299, 4.373, 0.7439, 0.0678, 38],
+                    [2.5126, 3.2953, 0.0072, 0.4001, 0],
+                    [2.8673, 2.9787, 0.931, 0.4312, 40],
+                ],
+                [
+                    [2.5828, 4.3225, 0.6022, 0.1471, 38],
+                    [4.6556, 2.619, 0.3776, 0.2894, 39],
+                    [3.4273, 2.412, 0.7536, 0.1644, 35],
+                    [3.6495, 1.6793, 0.3362, 0.194, -13],
+                    [3.3621, 4.6039, 0.5425, 0.9492, -25],
+                    [4.9891, 3.8661, 0.1204, 0.4807, -12],
+                    [2.8219, 4.4821, 0.0944, 0.302, -81],
+                ],
+                [
+                    [3.3334, 3.0842, 0.8825, 0.1347, 40],
+                    [2.9701, 5.9063, 0.4533, 0.2344, -31],
+                    [4.1228, 2.6416, 0.1659, 0.7513, -62],
+                    [2.1946, 3.5886, 0.4265, 0.2514, 37],
+                    [4.7037, 2.8211, 0.0972, 0.4322, -41],
+                    [2.1344, 2.7978, 0.8272, 0.1811, 88],
+                    [2.869, 2.1934, 0.3578, 0.5033, -52],
+                ],
+                [
+                    [3.9275, 2.3965, 0.2852, 0.6017, -47],
+                    [4.0233, 2.872, 0.3914, 0.1392, 48],
+                    [3.0359, 6.2568, 0.5174, 0.2602, -53],
+                    [2.1924, 2.1975, 0.9095, 0.2818, 56],
+                    [2.9021, 3.9507, 0.792, 0.0465, 123],
+                    [2.7957, 1.4829, 0.3195, 0.8159, -77],
+                    [2.9689, 2.7601, 0.4876, 0.2066, 23],
+                ],
+                [
+                    [2.7916, 3.4739, 0.3281, 0.4615, -26],
+                    [3.6461, 3.1235, 0.2678, 0.5417, -13],
+                    [2.5379, 4.927, 0.5904, 0.0824, 42],
+                    [3.6727, 2.8604, 0.1453, 0.2892, 6],
+                    [3.0575, 2.6644, 0.0967, 0.557, -77],
+                    [3.5655, 3.4039, 0.1476, 0.4611, 9],
+                    [3.5291, 2.7534, 0.381, 0.1247, -3],
+                ],
+            ],
+            [
+                [
+                    [0.6251, 4.1665, 0.2269, 0.3425, -64],
+                    [5.1395, 1.2034, 0.9926, 0.098, 49],
+                    [6.1663, 6.0583, 0.909, 0.0677, 11],
+                    [6.0983, 0.6628, 0.0867, 0.6833, 4],
+                    [1.495, 2.6241, 0.9282, 0.0351, 3],
+                    [5.6762, 0.2033, 0.5343, 0.9579, 28],
+                    [5.6025, 5.9608, 0.0903, 0.9529, -9],
+                ],
+                [
+                    [0.2675, 0.642, 0.8329, 0.9584, 22],
+                    [4.1608, 0.0607, 0.8793, 0.1318, 9],
+                    [0.5667, 1.174, 0.8707, 0.9544, 0],
+                    [4.8364, 0.8788, 0.8672, 0.2426, 10],
+                    [0.2644, 1.4221, 0.9701, 0.9813, 19],
+                    [5.623, 6.1945, 0.649, 0.1813, 40],
+                    [0.5975, 4.2842, 0.2144, 0.9045, -31],
+                ],
+                [
+                    [0.4581, 5.7905, 0.4465, 0.8354, -29],
+                    [2.3603, 0.5613, 0.011, 0.8957, -3],
+                    [0.5169, 5.7877, 0.6802, 0.1757, 21],
+                    [1.6789, 3.8901, 0.8173, 0.9269, 0],
+                    [0.1297, 1.0333, 0.9246, 0.8284, 3],
+                    [5.5632, 4.9579, 0.2692, 0.92, -20],
+                    [0.0327, 5.2618, 0.9749, 0.4765, -35],
+                ],
+                [
+                    [6.0631, 0.8027, 0.7641, 0.1831, 14],
+                    [0.2314, 1.2769, 0.8565, 0.9111, 2],
+                    [1.5267, 0.6643, 0.8925, 0.9632, -10],
+                    [6.0874, 5.0888, 0.2701, 0.9772, -24],
+                    [4.5208, 4.366, 0.1168, 0.9899, -3],
+                    [3.3944, 5.8775, 0.5022, 0.1172, 6],
+                    [0.8171, 1.6166, 0.7474, 0.7068, -24],
+                ],
+                [
+                    [0.6418, 6.0197, 0.3251, 0.923, 0],
+                    [0.843, 1.7336, 0.7395, 0.7024, -42],
+                    [0.2142, 1.1513, 0.8156, 0.815, 7],
+                    [0.1783, 5.1166, 0.8371, 0.461, -24],
+                    [1.6377, 5.3587, 0.3556, 0.1194, 12],
+                    [0.2956, 5.0445, 0.2178, 0.4777, -54],
+                    [0.4715, 5.3759, 0.0814, 0.7322, -31],
+                ],
+            ],
+            [
+                [
+                    [2.8462, 5.8521, 0.4174, 0.2344, -2],
+                    [6.0085, 3.6746, 0.3186, 0.3251, 5],
+                    [3.7962, 5.1485, 0.2927, 0.8461, -26],
+                    [3.356, 6.0851, 0.2672, 0.2379, 2],
+                    [3.484, 0.6827, 0.5335, 0.5998, -18],
+                    [6.0919, 3.371, 0.4518, 0.486, 23],
+                    [2.0891, 1.7525, 0.337, 0.6449, 14],
+                ],
+                [
+                    [5.6882, 2.9787, 0.3037, 0.4728, 0],
+                    [3.8082, 3.7019, 0.9233, 0.2434, 12],
+                    [2.3732, 5.7374, 0.3436, 0.3763, -3],
+                    [4.9381, 5.9392, 0.9411, 0.6295, -6],
+                    [4.7752, 5.3427, 0.3702, 0.9961, -11],
+                    [3.8584, 0.141, 0.6999, 0.2728, 25],
+                    [5.6349, 1.7987, 0.3875, 0.6056, 28],
+                ],
+                [
+                    [5.8931, 1.9705, 0.3207, 0.9987, 29],
+                    [3.2818, 1.2921, 0.2356, 0.8294, 21],
+                    [3.3792, 5.5247, 0.3063, 0.3931, -28],
+                    [5.4055, 2.5333, 0.4549, 0.365, 10],
+                    [3.9768, 4.0644, 0.2099, 0.9157, -36],
+                    [2.6809, 3.912, 0.4569, 0.2714, -16],
+                    [3.6664, 0.1736, 0.411, 0.2004, 38],
+                ],
+                [
+                    [3.6817, 5.7968, 0.395, 0.5218, -18],
+                    [0.5873, 5.6409, 0.4594, 0.8619, -41],
+                    [5.454, 2.344, 0.3224, 0.4329, 29],
+                    [3.828, 4.3133, 0.8937, 0.29, 22],
+                    [5.0668, 4.4294, 0.8873, 0.3111, 28],
+                    [5.6001, 1.7184, 0.4227, 0.7753, 33],
+                    [4.6208, 6.2114, 0.7365, 0.3484, 21],
+                ],
+                [
+                    [5.7628, 4.2764, 0.2966, 0.8021, -31],
+                    [4.0937, 3.5377, 0.7321, 0.2687, 21],
+                    [3.9627, 0.6115, 0.3384, 0.4922, 11],
+                    [5.6831, 4.1266, 0.5065, 0.2782, 9],
+                    [0.2354, 3.8375, 0.3584, 0.322, -15],
+                    [3.818, 5.0717, 0.3892, 0.4101, -4],
+                    [5.4664, 6.1797, 0.9788, 0.4096, 28],
+                ],
+            ],
+            [
+                [
+                    [4.6422, 3.3407, 0.959, 0.1339, 14],
+                    [2.6714, 4.4698, 0.4571, 0.3551, -28],
+                    [2.9942, 4.448, 0.8141, 0.9848, -18],
+                    [4.1423, 2.4287, 0.6783, 0.3092, 37],
+                    [2.4216, 3.0425, 0.775, 0.9931, -7],
+                    [1.507, 2.6535, 0.8994, 0.8865, 6],
+                    [1.537, 3.4053, 0.981, 0.8241, -25],
+                ],
+                [
+                    [3.4336, 2.1677, 0.9799, 0.1478, 0],
+                    [2.9662, 4.9373, 0.876, 0.0844, -10],
+                    [4.6728, 2.9825, 0.5388, 0.8928, 27],
+                    [5.2992, 3.3807, 0.5964, 0.3768, 25],
+                    [3.415, 2.5241, 0.1047, 0.8674, 5],
+                    [2.3657, 1.5011, 0.8281, 0.7869, -57],
+                    [5.3658, 1.8358, 0.807, 0.9495, 31],
+                ],
+                [
+                    [3.6941, 2.9257, 0.5173, 0.8392, 29],
+                    [2.7341, 1.6982, 0.9813, 0.8916, 0],
+                    [4.9859, 2.5517, 0.6413, 0.413, 52],
+                    [4.4953, 1.6175, 0.7621, 0.6523, -49],
+                    [4.677, 4.1524, 0.6192, 0.0901, 38],
+                    [4.6005, 2.1255, 0.9965, 0.6813, 45],
+                    [0.9237, 5.6604, 0.0933, 0.3393, -15],
+                ],
+                [
+                    [2.9059, 3.7224, 0.8812, 0.7104, -46],
+                    [1.8146, 4.922, 0.2017, 0.7396, -36],
+                    [3.5315, 3.3727, 0.1765, 0.8788, -51],
+                    [1.7199, 1.9786, 0.8468, 0.6157, 14],
+                    [3.0766, 3.575, 0.2373, 0.9625, -13],
+                    [5.1351, 4.0281, 0.2487, 0.0743, 31],
+                    [2.3338, 2.7695, 0.8161, 0.3827, -6],
+                ],
+                [
+                    [5.8535, 3.4695, 0.3521, 0.1083, 11],
+                    [2.1981, 3.1824, 0.1181, 0.7164, 36],
+                    [3.4012, 1.3124, 0.9168, 0.6268, -7],
+                    [5.524, 3.0488, 0.6615, 0.869, 19],
+                    [3.678, 2.8802, 0.1918, 0.6688, 0],
+                    [1.539, 2.5088, 0.7274, 0.8949, 41],
+                    [3.6992, 1.2069, 0.0815, 0.0725, -41],
+                ],
+            ],
+            [
+                [
+                    [2.0326, 0.772, 0.7451, 0.4153, 0],
+                    [6.0031, 4.051, 0.5111, 0.6719, 18],
+                    [4.1442, 5.4117, 0.8526, 0.3318, 27],
+                    [3.8577, 5.6552, 0.5484, 0.4016, 19],
+                    [5.4631, 3.6399, 0.5921, 0.4795, 15],
+                    [5.4188, 2.1527, 0.7363, 0.6319, 5],
+                    [4.8283, 4.7148, 0.8876, 0.236, 40],
+                ],
+                [
+                    [0.5393, 3.8086, 0.3856, 0.2411, -6],
+                    [4.2738, 5.2829, 0.5486, 0.243, 9],
+                    [5.6112, 4.7753, 0.3683, 0.6868, -2],
+                    [3.8624, 5.0691, 0.5754, 0.8387, -9],
+                    [4.245, 4.7946, 0.2943, 0.7862, -38],
+                    [1.9768, 1.1922, 0.5446, 0.53, 5],
+                    [0.6168, 2.0558, 0.2031, 0.5899, 35],
+                ],
+                [
+                    [4.3498, 4.7904, 0.1761, 0.8557, -48],
+                    [3.6931, 0.0334, 0.1921, 0.1671, -13],
+                    [5.6455, 4.687, 0.3855, 0.7179, -15],
+                    [5.883, 3.9803, 0.4438, 0.7136, 6],
+                    [2.1088, 5.6385, 0.4785, 0.2281, 23],
+                    [5.2216, 4.1652, 0.79, 0.6644, 4],
+                    [4.1561, 5.1775, 0.8526, 0.7286, 6],
+                ],
+                [
+                    [4.2301, 5.2495, 0.764, 0.7717, 0],
+                    [5.4436, 4.0402, 0.5239, 0.3573, 34],
+                    [0.3698, 4.2547, 0.184, 0.2061, 0],
+                    [5.5736, 4.6524, 0.3687, 0.6343, -9],
+                    [1.8135, 1.5361, 0.5662, 0.3067, -10],
+                    [4.8158, 4.6262, 0.8234, 0.2447, 38],
+                    [0.232, 3.9838, 0.5942, 0.5454, 8],
+                ],
+                [
+                    [5.5886, 4.1084, 0.4652, 0.6392, -3],
+                    [5.0991, 3.682, 0.8139, 0.4816, 43],
+                    [0.5444, 2.0034, 0.361, 0.6638, 13],
+                    [1.1721, 2.2515, 0.6493, 0.3467, -14],
+                    [3.513, 1.321, 0.2693, 0.383, 27],
+                    [5.4384, 4.1111, 0.7985, 0.3081, 20],
+                    [3.5823, 5.5288, 0.4145, 0.5238, -6],
+                ],
+            ],
+        ],
+        [
+            [
+                0.00000620808, -0.00000673565, -0.0000124052, -0.00000153927, -0.00000628185, 0.00000325669,
+                -0.00000113084, -9.28872e-7, -1.63549e-8, 2.36545e-7,
+            ],
+            [
+                0.00000907707, -0.00000391844, -0.0000100417, -0.00000187502, -0.0000061151, 0.00000210471,
+                -0.0000011968, 6.15361e-8, 5.40888e-8, 2.96891e-7,
+            ],
+            [
+                0.0000117192, -6.22541e-7, -0.0000064507, -0.00000196271, -0.00000532352, 0.00000115336, -0.00000158125,
+                0.00000114704, 4.40064e-8, 4.09603e-7,
+            ],
+            [
+                0.0000133384, 0.00000288401, -8.17757e-7, -0.00000143208, -0.00000327275, 1.96483e-7, -0.00000112778,
+                0.00000214667, -1.86197e-7, 1.94604e-7,
+            ],
+            [
+                0.0000144822, 0.00000490297, 0.00000380527, -3.77351e-7, -1.77833e-7, -4.17396e-7, -5.74743e-7,
+                0.00000304985, -1.19093e-7, 3.07585e-9,
+            ],
+            [
+                0.0000143982, 0.0000011906, 8.45589e-7, 9.35459e-7, 0.00000294373, -7.5961e-7, 2.67189e-7,
+                0.00000242612, 1.02988e-7, -9.81184e-8,
+            ],
+            [
+                0.0000129464, -0.000003042, -0.00000391308, 0.00000177692, 0.00000504716, -4.02839e-7, 0.00000101307,
+                0.00000136501, 5.48493e-8, -3.35227e-7,
+            ],
+            [
+                0.0000104003, -0.00000601778, -0.00000810736, 0.00000210522, 0.0000060986, 3.72326e-7, 0.00000162376,
+                4.20058e-7, -3.66198e-8, -3.94165e-7,
+            ],
+            [
+                0.00000731212, -0.00000820128, -0.0000111835, 0.00000217695, 0.0000062064, 0.0000014685, 0.00000190605,
+                -6.98794e-7, -5.80482e-8, -3.76459e-7,
+            ],
+            [
+                3.31173e-7, -0.00000128569, -0.00000274851, -0.00000115676, -0.0000052527, 0.00000513617, -1.55014e-7,
+                -0.00000224027, 9.1437e-8, 1.3566e-7,
+            ],
+            [
+                -0.00000176666, 3.37062e-7, 4.70603e-8, -6.30834e-7, -0.00000304251, 0.00000554224, 3.68172e-7,
+                -0.00000263985, 1.84891e-7, 1.6022e-7,
+            ],
+            [
+                -0.0000015326, 0.00000149052, 0.00000180897, 1.17514e-8, -8.04074e-7, 0.00000514401, 0.00000104866,
+                -0.00000250316, 2.463e-8, -7.62957e-8,
+            ],
+            [
+                -0.00000139667, 0.00000137303, 0.00000204408, 7.06673e-7, 0.00000167512, 0.00000477189, 0.00000167143,
+                -0.00000232252, 1.27725e-7, -2.23429e-7,
+            ],
+            [
+                -0.0000012514, -9.30118e-8, 3.33299e-7, 0.0000013377, 0.00000407881, 0.00000453187, 0.00000247622,
+                -0.00000242158, -1.00683e-7, -2.77029e-7,
+            ],
+            [
+                9.76973e-7, -0.00000196202, -0.00000237771, 0.00000192033, 0.00000580544, 0.00000358932, 0.0000026005,
+                -0.00000204385, -1.66831e-7, -3.18334e-7,
+            ],
+            [
+                5.00968e-8, 0.0000026426, 0.00000362521, 3.68284e-7, 4.33034e-7, 0.00000454967, 0.0000011752,
+                -0.00000182627, 5.0108e-8, -5.58124e-8,
+            ],
+            [
+                0.00000433221, 0.00000571054, 0.00000618476, -4.39512e-7, -0.00000120025, 0.00000324875, 2.90828e-7,
+                -3.85685e-8, -6.08309e-8, 1.33284e-7,
+            ],
+            [
+                0.00000384226, 0.00000778866, 0.0000098893, -6.90013e-8, 2.10425e-7, 0.00000317545, 5.75648e-7,
+                1.02968e-8, -9.90596e-8, -2.66835e-8,
+            ],
+            [
+                0.0000045968, 0.00000515048, 0.00000670085, 4.71484e-7, 0.00000157859, 0.00000270682, 0.00000106976,
+                -4.49592e-8, 5.81818e-9, -1.79093e-7,
+            ],
+            [
+                0.00000203751, -7.74672e-7, -0.00000182795, -0.00000109355, -0.00000199053, 0.00000415615, -3.07554e-7,
+                -0.00000152868, 6.63285e-7, -4.90069e-7,
+            ],
+            [
+                0.00000101948, -9.82013e-8, -4.65577e-7, -8.737e-7, -0.00000136924, 0.00000451328, -1.24328e-7,
+                -0.00000167288, 6.8925e-7, -3.61702e-7,
+            ],
+            [
+                0.00000100467, 2.5035e-8, -7.99121e-8, -6.63446e-7, -5.02914e-7, 0.00000422842, 8.63922e-8,
+                -0.00000160778, 6.54489e-7, -4.94615e-7,
+            ],
+            [
+                0.00000147155, 6.37577e-7, 6.49528e-7, -3.16042e-7, 5.50032e-8, 0.00000395496, 2.81484e-7,
+                -0.00000145065, 6.88482e-7, -5.79018e-7,
+            ],
+            [
+                0.00000162006, 0.00000111265, 7.14307e-7, 0.00000101283, 4.17417e-7, 0.00000364468, 0.00000158552,
+                -0.00000152755, -5.71959e-7, 6.25259e-7,
+            ],
+            [
+                0.00000111096, 4.51923e-7, -9.97709e-8, 0.00000113989, 0.00000126302, 0.00000387779, 0.00000190112,
+                -0.00000163875, -6.31147e-7, 3.45302e-7,
+            ],
+            [
+                0.00000134514, 3.04904e-7, -1.13768e-7, 0.00000141361, 0.00000217633, 0.00000356331, 0.00000210269,
+                -0.00000145948, -6.68479e-7, 3.80191e-7,
+            ],
+            [
+                0.00000269592, -7.40165e-7, -0.00000147213, 0.00000166662, 0.00000270214, 0.00000313564, 0.00000210976,
+                -0.00000120019, -7.10949e-7, 3.24984e-7,
+            ],
+            [
+                0.00000877501, 0.00000308283, 0.00000137223, -0.00000138442, -0.00000271728, 0.00000145912, 1.02107e-7,
+                0.0000010979, -0.00000140004, -0.00000278011,
+            ],
+            [
+                0.0000067808, 0.00000603612, 0.00000700637, -1.76922e-7, 8.6336e-8, 0.00000216505, 4.47975e-7,
+                5.81339e-7, -1.0595e-7, -1.75138e-8,
+            ],
+            [
+                0.00000975652, 0.00000215091, 0.00000205218, 0.00000122753, 0.00000268903, 0.00000116082, 2.9842e-7,
+                9.80457e-7, 0.00000131494, 0.00000290189,
+            ],
+            [
+                0.00000965754, 0.00000610311, 0.0000061341, -2.30686e-7, -1.35366e-9, 0.00000128617, -1.26873e-7,
+                0.00000167623, 2.28864e-7, 1.27173e-8,
+            ],
+            [
+                0.00000719502, -0.00000767072, 0.00000912174, 0.00000279723, -0.00000278976, -0.00000386469,
+                0.00000250024, -0.00000360926, -2.19974e-7, 9.08491e-7,
+            ],
+            [
+                0.00000674589, -0.00000709335, 0.00000928006, 2.84624e-7, -0.00000143792, -0.00000331494, 5.91681e-7,
+                -0.00000336593, -4.48992e-7, 2.98809e-7,
+            ],
+            [
+                0.00000558985, -0.00000644353, 0.00000910411, -0.00000240502, -2.35133e-8, -0.00000237944,
+                -0.00000105688, -0.00000307452, -5.81453e-7, -2.92488e-7,
+            ],
+            [
+                0.00000344072, -0.00000560082, 0.00000742335, -0.0000050371, 0.00000151735, -9.95952e-7, -0.00000239278,
+                -0.00000172292, -6.59223e-7, -8.65092e-7,
+            ],
+            [
+                8.71439e-7, -0.00000514978, 0.00000466992, -0.00000632549, 0.00000251615, 8.75269e-7, -0.00000326935,
+                1.92775e-7, 0.00000230889, -6.68181e-7,
+            ],
+            [
+                -6.1695e-7, -0.00000772746, 0.0000050984, -0.00000453219, 0.00000166526, 0.00000242989, -0.00000255549,
+                0.00000198492, -6.11186e-7, -7.15508e-7,
+            ],
+            [
+                -0.0000017425, -0.00000929787, 0.00000601793, -0.0000016514, 3.15664e-7, 0.00000333369, -8.1448e-7,
+                0.00000296486, -6.9216e-7, -1.71912e-7,
+            ],
+            [
+                -0.00000218686, -0.00000960816, 0.00000705468, 0.00000109813, -0.00000108767, 0.00000352581, 8.49467e-7,
+                0.00000335383, -4.52298e-7, 4.53784e-7,
+            ],
+            [
+                -0.00000239997, -0.00000953667, 0.00000806502, 0.0000037526, -0.0000023224, 0.00000323077,
+                0.00000306216, 0.00000317257, -3.65055e-7, 9.76595e-7,
+            ],
+            [
+                0.00000452135, -0.00000115845, 0.00000173789, -7.26531e-8, -0.00000157666, -0.00000411736,
+                0.00000764854, -0.00000249349, 4.19329e-7, -0.00000130812,
+            ],
+            [
+                0.000002519, 3.93192e-7, -1.9829e-7, -3.94859e-7, -0.00000139821, -0.0000028735, 0.00000838429,
+                -0.00000140887, 5.38541e-7, -0.00000109413,
+            ],
+            [
+                4.87564e-7, 0.00000119328, -0.00000118364, -0.00000109205, -8.56697e-7, -0.0000018265, 0.00000852673,
+                -8.1549e-8, 4.90919e-7, -0.00000129574,
+            ],
+            [
+                -0.0000012567, 9.51516e-7, -0.00000111281, -0.00000106252, -8.72163e-7, -3.76811e-7, 0.00000832276,
+                0.00000134977, 4.48388e-7, -0.00000134782,
+            ],
+            [
+                -0.00000272999, -1.23028e-7, -3.44988e-7, 8.3194e-8, -0.00000116392, 9.4162e-7, 0.00000854443,
+                0.00000259751, 5.65892e-7, -0.00000104485,
+            ],
+            [
+                -0.00000362814, -0.00000235017, 0.00000161145, 6.37881e-7, -0.00000146137, 0.00000214105, 0.0000077072,
+                0.00000376311, 3.23366e-7, -0.00000112576,
+            ],
+            [
+                -5.34027e-7, 0.00000183755, -0.00000210515, -0.00000212448, -1.52965e-7, -3.13393e-7, 0.00000476066,
+                2.09013e-7, 3.63101e-7, 0.00000134703,
+            ],
+            [
+                1.38022e-8, 0.00000194619, -0.00000201603, -0.00000633378, 0.00000159241, -6.56006e-7, 0.00000259476,
+                -9.31873e-7, -0.00000224881, 7.51558e-7,
+            ],
+            [
+                -0.0000015499, 0.00000372818, -0.00000448005, -0.00000767634, 0.00000245261, 3.61738e-9, 0.00000267563,
+                -1.07526e-7, -0.0000021791, 8.05579e-7,
+            ],
+            [
+                -0.0000016636, 0.00000140632, -0.00000257229, -0.00000606032, 0.00000169004, 8.3781e-7, 0.00000261173,
+                7.60211e-7, -0.00000235549, 9.57473e-7,
+            ],
+            [
+                0.00000319268, -0.0000011078, 0.00000174514, -6.32964e-7, -9.26866e-7, -0.00000248771, 0.00000403228,
+                -0.00000214533, 2.62239e-7, 8.51935e-7,
+            ],
+            [
+                0.00000241884, -1.10341e-7, 4.50534e-7, -8.54711e-7, -7.97192e-7, -0.0000023591, 0.00000444008,
+                -0.00000185421, 3.7192e-7, 0.00000114404,
+            ],
+            [
+                0.00000181426, -2.98525e-7, 4.60192e-7, -8.3215e-7, -7.9853e-7, -0.00000164642, 0.00000404492,
+                -0.00000142675, 2.43547e-7, 0.0000011725,
+            ],
+            [
+                0.00000111518, 4.463e-8, 4.0182e-8, -0.00000134701, -5.40493e-7, -0.00000126971, 0.00000405404,
+                -8.74936e-7, 2.96196e-7, 0.00000102676,
+            ],
+            [
+                -0.00000116487, -3.40935e-7, -2.3011e-7, -0.00000115184, -3.45181e-7, 5.37086e-7, 0.00000409662,
+                0.00000111097, 2.84722e-8, 0.00000112893,
+            ],
+            [
+                -0.00000167408, -7.63957e-7, 3.28734e-7, -5.84012e-7, -6.36502e-7, 9.59454e-7, 0.00000420292,
+                0.00000147008, 1.64596e-7, 0.00000120518,
+            ],
+            [
+                -0.00000224397, -9.03767e-7, 2.02171e-7, -4.41244e-7, -4.87479e-7, 0.00000135661, 0.00000443261,
+                0.00000205576, 1.85723e-7, 0.00000108487,
+            ],
+            [
+                -0.00000234875, -0.00000216716, 0.00000129347, -4.64635e-8, -6.56009e-7, 0.00000191436, 0.00000368731,
+                0.00000242737, 2.6792e-7, 0.00000102155,
+            ],
+            [
+                0.00000222877, -0.00000241168, 0.00000333575, -0.00000457382, 0.0000010485, -0.00000111743, 2.40667e-8,
+                -0.00000134765, -4.39459e-7, -3.39873e-8,
+            ],
+            [
+                -7.67526e-7, 9.0146e-7, -0.000001394, -0.00000624596, 0.00000217965, 2.14928e-7, 9.78276e-7, 7.88713e-8,
+                -1.63579e-7, -1.04118e-7,
+            ],
+            [
+                -0.00000138004, -0.00000368894, 0.00000207729, -0.00000420161, 0.00000129556, 0.00000178433, 1.70818e-7,
+                0.00000162885, -4.20948e-7, -7.74991e-8,
+            ],
+            [
+                -2.89855e-7, -4.76275e-7, 3.4451e-8, -0.00000604813, 0.00000241052, 4.97638e-7, -5.6952e-7, 2.8664e-8,
+                0.0000059686, 3.74997e-7,
+            ],
+        ],
+        [
+            [
+                53, 159, -25, 227, -498, 129, -58, 10, -118, -27, 307, 312, -175, -155, 0, -148, 279, -123, -38, 95,
+                -108, -120, -64, 75, -196, 416, 100, 7, -218, 75, 81, -269, 93, -336, -480, 104, 140, 23, 267, 185, 51,
+                -258, -85, 7, 10, 100, 41, 131, -3, -75, -6, -9, 28, 188, -6, -122, -147, 539, 200, 60, -148, -266,
+                -123, -118, -47, -209, 274, 76, -333, 58, 50, 128, 131, 277, -392, 19, -26, -50, 4, 34, 8, -173, -26,
+                -46, 189, 190, 39, -183, -65, 367, -186, -133, 293, -167, -66, -46, -64, -230, 390, -112, 207, -54,
+                -167, 25, -15, -77, -45, -273, 316, 32, 257, -197, 316, -55, -2, -33, 22, -441, 7, 182, 251, -8, -286,
+                -136, 177, 124, -143, 16, 130, 4, 99, 4, -99, -164, 67, -46, -335, -77, -322, -198, -109, 1, 53, 984,
+                235, -216, 68, -178, 213, 201, -118, -209, -66, -45, -88, 26, 372, -148, 119, -173, 40, -240, 155, -84,
+                100, -165, 69, 122, -75, 98, -103, 16, -59, 385, 79, -346, 84, -260, -53, 123, -50, 122, -4, 34, -108,
+                87, 49, -199, -48, 263, -131, 84, -36, -204, 41, 51, 92, 16, 77, -40, -209, -129, -18, -84, -173, -39,
+                270, 378, -255, 59, 189, 182, 19, 731, 72, -1000, 221, 77, -29, -510, 53, 134, -217, 267, -319, 303, 30,
+                -377, 304, -205, 139, 121, 90, 117, 134, 154, -249, 116, -33, -333, 269, 15, -137, 36, 161, 52, -163,
+                -237, -775, 125, -89, 277, 274, 489, 11, -315, 175, -78, 121, -52, 215, -22, -61, -302, -238, -83, 51,
+                -500, 116, 439, 207, 4, -35, 24, -80, -63, 28, -269, 321, 71, 251, -213, 394, 429, -372, -175, -163,
+                -155, -128, -151, 131, -116, 10, 110, -47, 187, 41, 134, -149, 119, -16, 363, -458, -39, -606, -194, -4,
+                7, 90, 100, 455, 147, 578, 75, 184, -181, 286, -105, -496, -345, -117, 167, -137, 154, -129, 5, 62, -9,
+                -127, -205, 479, 378, -54, -131, -287, -57, 179, -61, -232, 13, -2, -61, 73, 87, -142, -151, -63, 101,
+                137, 31, 0, 83, -28, -62, 227, -58, 96, 112, 93, -384, 72, 16, 27, -6, 65, 111, -55, -234, 337, -79, 58,
+                0, -16, -65, -165, -74, -122, -28, -112, 103, -7, 373, 9, -220, 173, -125, 142, 200, -52, 150, -172,
+                -320, -54, -83, 150, 50, 138, -20, -101, -84, -91, 37, 200, -24, 67, -84, 53, -163, 214, -58, 30, 36,
+                -34, -318, 74, 53, -5, -94, 3, -159, 193, -90, 17, 132, -140, -443, -3, 26, 220, 65, 82, 189, -23, 33,
+                -14, 66, 31, 83, 150, -330, -190, -105, 99, 63, 110, 99, -36, -43, -277, -265, 36, 107, 2, 260, -16,
+                149, -44, -114, 11, 48, -119, 61, -163, 317, -158, -1, 205, 124, -89, 41, -30, -96, 146, -84, -30, 42,
+                -33, -121, 41, 35, 263, 39, -403, -19, -42, 143, 52, -38, 29, -44, 50, -17, 52, 159, -227, -5, -85, 170,
+                163, -16, -204, -67, 31, 4, -16, 67, 101, -476, 154, 116, 24, 27, 80, -36, -48, 173, -72, -236, 228,
+                -93, 125, 132, 132, -552, 96, 30, 48, -14, -31, -55, 42, 224, 446, -222, 31, -438, 116, -24, 325, 186,
+                -156, 171, -630, 10, 21, 377, -166, 4, -129, -142, 43, -12, -136, 36, 4, 147, -88, 137, -23, -82, 121,
+                290, -162, -41, -162, -36, 12, -25, -152, 33, 10, -121, 40, -37, 206, 17, -136, -186, 67, 319, 104, -70,
+                -11, -92, 148, 23, 187, -86, -76, 69, -96, -172, -93, -82, -26, -36, 47, 6, 41, 139, -80, -91, 105, 91,
+                371, 83, -321, -162, -10, -106, -27, -70, -99, 268, -9, 49, 36, -39, -192, -17, -107, 163, 60, 92, -295,
+                -143, -10, 126, 337, -151, -131, 263, 181, 43, 46, 311, -93, -110, -228, -152, -49, -40, 6, -134, 19,
+                316, -364, 241, -71, -256, -49, 172, 9, 141, -3, 53, -243, 178, 115, -170, 107, -356, 216, 150, 2, -8,
+                24, 85, -101, 31, 119, -156, 34, -114, -25, 163, -40, -37, 23, -8, -1, 24, 90, 112, -104, 68, -150, -43,
+                -280, 95, 137, -17, 4, 57, -93, 94, 78, 3, 236, -60, -78, 91, -273, -2, 28, -7, 90, -67, 54, -107, -46,
+                52, -73, 49, -96, -19, 39, 59, 18, 19, 33, -79, -15, 78, 2, -353, 73, 257, 98, -194, 69, -17, -237, 1,
+                59, 216, 46, 6, 129, 69, -19, -99, -78, -57, -112, -108, -28, 16, -29, 140, -41, 157, 104, -141, 9, 86,
+                -50, 45, 63, -121, -64, -206, -125, -168, 187, 58, 260, 53, 70, 20, -172, 36, -35, 184, -2, -104, -101,
+                -29, -2, -160, -305, 196, 78, 320, -101, -120, -88, -203, 62, 586, 6, -145, 47, -39, 100, 76, 263, -331,
+                -29, -91, 109, -38, 31, 111, -41, -22, -181, 28, 21, -200, -35, -47, 13, -61, 279, 26, 99, 269, -42,
+                -54, -72, -86, -22, -95, -10, 95, 51, 136, 32, -47, -122, -138, 187, 132, 43, -522, -150, 80, 157, 70,
+                56, 97, -331, -40, 168, -2, 40, 8, -18, 99, 6, 111, -2, 117, -94, -223, -93, -19, 67, -65, -27, 93, 28,
+                12, 15, 139, -9, 117, -36, -152, -52, -24, -5, 30, 9, -179, -105, -88, 150, 184, -85, -128, 94, 6, -72,
+                -170, -22, 373, -47, -16, -92, -155, 219, -139, 155, 73, -22, -179, -222, -149, 334, 198, -2, 38, -78,
+                70, 143, -171, -123, -161, 117, 198, 85, 29, -129, 361, -96, -265, -14, 26, 59, -21, -17, -33, -122,
+                217, -105, 19, 47, -25, 148, 151, -172, 108, -326, 65, 13, 64, -338, 4, 150, 15, 65, 24, 108, -31, -92,
+                189, 110, -75, -143, -69, 54, -15, -6, -38, -14, 135, -20, -100, -38, -6, -139, 58, 51, 102, 95, -129,
+                -15, 6, 72, 1, 92, 16, -220, 45, -113, 11, 614, -193, -111, -52, -115, -45, -83, -139, 157, 67, 58, -85,
+                -4, 24, 64, -35, -67, -53, 69, -14, 86, -55, 35, 72, 26, 51, -59, -29, 11, -111, 207, -52, 137, -140, 6,
+                -28, -70, -63, 39, -74, -170, -40, 171, 83, -7, -6, 71, 41, 125, -150, -200, 24, 255, -171, -94, -25, 3,
+                -66, 64, 228, 7, -120, 264, -16, -122, 20, -68, 57, -11, -126, 50, -61, -60, -230, 7, -35, 214, 112,
+                -136, -142, 516, 46, -97, -95, -15, -81, 148, 3, 33, -203, 125, -231, -15, 137, 131, -1, 73, -152, -14,
+                7, -99, 51, -151, 136, -238, -14, -20, 155, -61, 189, 321, -82, -149, -208, 231, 122, -150, -90, -159,
+                244, 1, -66, -14, 219, 102, -331, 50, 163, -73, 181, 71, -258, -54, -83, 197, -8, 27, -237, -76, 79, 27,
+                -13, -13, -1, -81, 47, 55, -201, 87, 103, -122, 253, 36, -67, -88, -87, 243, -171, -67, 48, -87, 55,
+                -146, 129, 42, 22, 82, -49, -61, 101, 91, -87, 25, -106, 54, -81, -16, -59, -183, 50, -2, 233, -23, 320,
+                -106, -358, 41, -158, 94, 186, -209, -152, 212, -130, 66, 121, -124, 213, -561, 5, 114, 350, -134, 6,
+                178, 36, 343, 50, -95, -230, 98, -41, -160, 30, 130, -35, -229, -4, 137, -229, 119, 109, -91, 75, -61,
+                -176, 280, -176, 79, 66, -171, 61, -150, 196, -73, 36, -95, 193, 3, 67, -88, -44, 148, -56, -10, -23,
+                -14, -124, 109, -90, 24, -27, 82, 37, 44, 63, 19, 5, 76, 1, -158, -52,
+            ],
+            [
+                506, -43, 341, 91, -204, -575, 209, -289, -393, 38, -213, 13, 254, 104, 7, 225, -609, -394, 57, 123,
+                337, 371, 44, 107, -365, 126, 261, 53, -13, 199, -53, -173, 275, 812, -875, -454, -224, 199, 58, 244,
+                51, -148, -164, 276, -28, 118, -147, 77, -90, -219, -26, 155, 376, 177, 99, -436, 25, 553, -654, -272,
+                12, 355, 7, 9, 203, 112, 25, -4, -301, 256, -80, -174, 235, -259, -92, 64, -139, -1, -70, 299, -396, 75,
+                179, -49, 24, -149, 152, 200, 235, 166, -108, 165, -110, -289, -145, 121, -176, 44, 85, 109, 207, 12,
+                152, -397, -18, -10, 194, 135, 96, 35, -193, -204, 127, -175, -88, -6, 543, -115, -163, -87, 345, 217,
+                -276, 28, -68, -2, -187, -21, 511, -162, 31, 1, -195, -237, 150, -62, -106, 37, -137, -102, 194, 72,
+                172, -94, 430, -30, 70, -14, -323, 699, -548, -248, -36, -80, -205, 311, 138, -270, -102, 279, 444, 132,
+                -151, 16, -1, -511, 140, -34, 15, -427, -579, 156, 137, 408, 153, 172, -170, -178, -73, 129, 8, 180,
+                150, -11, -111, -95, 428, 39, -8, 172, -285, -104, -53, 278, -263, 301, -94, -146, 64, -52, 37, 90, 112,
+                -138, -97, 17, -131, 145, 166, -217, -6, 35, 168, -305, -410, 604, -188, -23, 251, 363, -451, 26, 11,
+                47, 197, 319, 60, -557, 48, -80, -56, 104, -361, 66, 260, -36, -73, 43, 256, -121, -24, -274, -45, 103,
+                -304, -55, 470, 164, 382, -140, -147, -220, -260, -273, 388, 305, -49, 146, -155, 564, -261, -42, -299,
+                132, 1000, -74, -309, 25, 111, -161, -101, -456, 28, 91, -107, 234, 77, 291, -535, -42, -481, 3, 601,
+                -523, 206, 101, 201, -72, 477, -306, 150, 159, -32, -96, 186, -502, 52, -288, -8, 118, 35, -297, 344,
+                81, 923, 199, 9, -166, -301, -361, -132, -136, -582, -76, 195, 168, -254, 12, 691, -120, 73, -325, -293,
+                -21, 314, -176, 147, 317, 33, -211, 213, -3, -184, -43, 185, 45, -284, 110, 746, -97, -164, -369, -59,
+                152, -319, -11, 658, -71, -193, -44, 260, -244, 243, -69, 99, -363, -371, 63, 2, 432, -142, 94, -133,
+                63, 257, -403, 179, 121, 12, -24, -141, 157, -7, -390, 266, 162, -66, 100, -3, 120, -169, 48, 5, -1, 7,
+                -116, -138, -143, 38, -22, 182, 228, 258, -352, 183, 71, -153, -69, 296, -199, -135, 79, 23, -93, -33,
+                14, 72, 108, 146, 16, -88, 81, 180, -21, -343, 63, -18, 200, 117, -299, 15, -41, 44, 18, -271, 140,
+                -159, -62, 268, -39, 58, 100, -29, -21, -4, -91, 122, 120, 107, -169, 374, 8, 2, 36, -122, -187, 59,
+                -136, 217, -49, -179, 146, -29, 232, -331, 28, -145, -45, 150, -86, 108, -259, 298, 14, 42, -33, 143,
+                -114, 454, -10, -194, -253, -43, -136, -178, -83, -59, 662, -15, -112, 213, 308, -315, -296, 157, -64,
+                94, -63, -261, 8, 43, 244, 316, 67, -27, -354, -175, 115, 81, 222, 103, 233, -567, 24, 18, -667, 208,
+                158, -65, 201, 126, 58, 31, 2, -27, -41, 116, 153, -231, 32, 54, -42, 583, -329, 71, -101, -118, -83,
+                58, 66, 140, 79, 174, 7, -153, -335, 197, -208, 35, 23, -97, 41, -121, 165, 53, -6, -128, 175, 60, -51,
+                -23, -44, 79, -29, -170, -65, 431, -203, -19, 12, -15, 102, 194, -343, 310, 58, -101, -170, -135, -66,
+                114, 213, 68, -260, -43, 144, 107, 168, -171, 326, 123, -109, -185, -223, -33, -9, -133, 41, 56, 113,
+                22, -21, 0, -124, -2, -423, 158, 144, 0, 282, -45, 145, 165, 72, -251, -272, -39, 261, -272, 40, 396,
+                -167, 31, -131, 38, 100, -145, 127, 125, -336, 108, 27, 59, 70, 6, 162, -189, 33, 116, 64, -73, -84,
+                170, -101, 50, -228, 12, 2, 111, 20, 58, -50, -51, -6, -19, 530, -288, -139, -345, -377, 190, 92, 184,
+                220, -78, 148, 200, 315, 40, -285, -6, -392, 5, 159, -152, 195, -38, 32, 241, 9, -157, -95, -107, -179,
+                -179, 499, 365, -67, -132, -166, -419, 151, -192, -26, -23, 259, 120, 166, 123, -99, -19, 68, 56, 86,
+                165, -345, -76, 308, 60, -132, -212, -135, -7, 228, 242, 161, -235, -549, 22, -206, 435, 165, 231, 41,
+                -110, -130, -261, 40, 29, 195, 274, 107, 70, -209, -55, -343, -35, 227, -18, -18, 59, -343, -311, 148,
+                17, 502, -172, 87, 292, 17, -107, 57, -159, 21, 157, -8, -288, -42, 2, 105, 414, -304, 112, -79, -114,
+                206, 363, -32, -122, -299, 244, 87, 62, -13, -257, -160, 180, -108, 122, 46, 49, 112, -79, -252, 75,
+                -38, -22, 7, 91, 117, 80, 162, -102, -298, 79, -139, -24, 47, -209, 44, -17, 254, 92, -46, 16, 36, 85,
+                163, -152, -159, 22, 33, -3, -5, 72, -57, -67, 41, 50, -28, -207, 12, -9, -18, 83, 151, -175, 84, -108,
+                56, 219, -4, -136, 99, -266, 31, -115, -113, 173, 256, 33, 35, -259, -83, 134, 25, 53, -119, 139, 145,
+                -65, 203, -168, -77, 48, -64, 119, 40, -24, 46, 186, 27, 115, -24, -45, -247, -47, -79, -126, 85, 32,
+                -30, 209, -9, -164, -63, 173, -170, 87, -144, 17, 298, -65, -12, 287, -271, 184, -11, -13, -65, 21,
+                -179, 16, 255, 4, -237, 121, 33, -82, 115, 202, 0, 33, -235, 66, -66, 127, -188, -77, -160, 70, 362,
+                -124, 26, 9, 49, 90, 109, -15, -88, 114, -233, 172, 27, 11, 130, -54, -15, -231, -5, 193, 37, -40, 99,
+                -120, 125, -268, 9, 33, 118, 157, -35, -83, -111, -112, 69, 37, 88, -169, -95, 26, 265, -38, -79, 86,
+                -169, 64, 170, 10, 109, -148, -86, 119, 36, -57, -115, 11, 122, -210, 130, -365, -72, 182, 109, 37, -19,
+                94, 69, -129, -170, 280, -19, 92, -89, -139, 210, -260, -120, -222, -42, 163, 284, 93, 141, -34, -202,
+                229, -58, -23, -24, 29, 118, -174, 99, -102, 76, 297, 20, -27, -153, 110, 123, 74, -71, -45, -76, -26,
+                -54, 34, 62, -24, 81, -9, -277, -13, 182, 172, 141, -731, 593, -109, -110, -39, 118, -216, 43, -256, 61,
+                31, 112, 121, 140, -58, 42, -67, 60, 100, 70, -50, -62, 69, 73, 113, -130, -201, -62, 218, -44, 114,
+                -98, 37, -511, 203, 239, -61, 111, -85, 98, 269, -50, 47, -108, -95, -41, 122, 215, 14, -288, 349, -198,
+                -131, -49, 81, -19, 75, -349, -26, 192, 68, 14, 401, 114, -661, 430, -82, 7, -191, 17, -29, 60, -60,
+                -229, 162, 382, -111, -138, -92, 218, 2, 119, 181, -47, -207, -138, 168, -23, 37, 190, -179, -207, 224,
+                -174, 259, 112, -194, -180, 43, 370, -502, 128, 70, 15, -27, -64, 89, -234, -1, 188, -183, 235, -83,
+                -39, -54, 87, 295, -223, -101, -121, 132, 190, 59, -401, 38, 239, 30, -582, 154, -102, 194, 182, 39,
+                121, 152, -149, 9, -5, -253, -46, 44, 284, -370, -229, 254, -442, 159, 191, 295, 178, -51, 80, -19, 118,
+                -159, -109, 211, -35, 8, 1, 165, 40, -10, 99, -145, -123, -58, 120, 306, -244, 198, -55, -98, -133,
+                -256, -250, -25, -137, -161, 571, 304, -10, -198, -33, 153, -181, 180, -118, 80, 151, -265, 235, 79,
+                154, -70, 3, -121, 20, 1, 71, -110, 216, 179, 15, -153, -183, 79, -295, -146, 86, -15, 259, 16, 49,
+                -111, 19, -8, 110, -25, 299, -169, -78,
+            ],
+            [
+                200, 142, -64, 139, -435, 116, -94, -31, -105, 8, -167, -37, -145, 73, 351, -4, 34, 196, -489, -287,
+                -217, 258, 161, 319, -380, -782, 671, -396, 336, 365, 125, 34, -104, -388, -141, 496, 120, -215, 34,
+                171, -124, 275, 152, -223, -89, 284, -223, -78, -50, -216, 147, -202, 175, -250, 35, 335, 193, 58, -644,
+                333, -39, -176, 280, -32, 5, -44, 40, -187, 18, -227, 173, 196, 43, -548, 232, -77, 10, 339, -99, 73,
+                -111, -225, -295, -181, 450, 148, -53, 241, -131, -634, 223, 173, 13, 318, 177, -166, -315, 38, -136,
+                -159, 186, 207, -57, 210, 105, -131, -174, 82, -292, -71, -199, 653, -338, 238, 272, -92, -383, 128,
+                223, -75, -44, -73, 80, -243, -111, 99, 169, 98, -301, 33, -111, -23, 21, 196, -4, 162, 208, 81, 137,
+                57, -150, 192, 449, -1000, -247, -72, 166, -42, 41, -204, 97, 234, -1, 9, -241, -76, -89, 321, 100, -49,
+                -215, 10, 116, 36, -9, 88, -223, 170, -133, 433, -39, 4, 72, -97, -301, 34, 8, -136, 33, 71, -126, 82,
+                99, -57, -147, -115, -62, -35, -43, 88, 263, 24, -92, -258, -73, 340, 234, -52, -84, -41, 187, -32, -64,
+                -45, 12, -90, 97, -91, -214, -198, -216, -97, 216, 389, 202, -111, -8, 175, 26, -380, 99, 16, 49, -3,
+                -318, 99, -35, -75, -12, 190, 47, 77, 156, 27, -35, 139, 7, -93, -167, -60, -1, 51, 81, -212, -35, -153,
+                370, -127, -165, 69, -203, -27, -238, 574, -181, 143, -87, 80, 100, 112, 66, -40, -140, -118, 277, -275,
+                -107, 241, -132, -81, 266, -215, 68, -75, 75, 120, 3, 46, -109, -154, -13, -407, 561, -404, 395, 9, -79,
+                -88, -232, -87, 7, 220, 106, 153, -142, -50, -281, -19, -56, -93, 306, 21, -18, 113, -16, 8, 68, -17,
+                -134, 234, -197, 28, -121, 77, -56, 95, -160, 0, 242, -103, -404, -165, 449, 44, 12, 464, -36, -391,
+                -244, 432, -230, 167, 10, 130, -108, -182, 337, -294, 264, 312, -4, -267, -154, -222, -364, 104, 332,
+                82, -20, 92, -136, -117, -132, 364, 76, 249, -192, -53, -202, -135, -188, 220, 215, 188, 110, -213,
+                -168, -190, 193, 95, 51, -115, -111, 62, -130, -72, 69, 142, -87, -16, 118, -174, -87, 9, -134, 49, -78,
+                -23, 9, -37, 240, -53, 111, -229, 302, -103, 67, 49, 63, -286, -34, -68, -204, -60, 284, 263, -139, -68,
+                -78, -72, -58, -52, 37, 36, -2, 162, 95, -74, 255, 86, -30, -139, -199, -21, -100, 207, 121, -93, -231,
+                -223, 61, 230, -203, 26, -236, 26, 260, -80, 89, 91, 134, 37, -54, 215, -196, -128, -47, 13, 379, -157,
+                -113, -49, -57, -94, 104, -40, -67, -61, 39, 98, 16, -47, 3, -9, -259, -316, -112, -83, 386, 30, 59,
+                268, 0, -107, 48, 135, -308, 139, -24, 91, -269, -163, 543, -131, 45, 60, 97, -208, 58, 73, 200, -126,
+                -184, 100, -70, -79, -318, 312, -97, 244, -28, 99, -348, 109, 150, -182, 67, -13, 11, -138, 225, -147,
+                -93, 32, -37, -21, -42, -173, 87, 221, -210, -92, 160, 60, -44, -57, 11, 145, -8, -78, -61, -65, 10, 80,
+                104, -10, -87, 111, -78, -47, 56, 153, 24, -159, 39, 121, -81, 15, -5, -43, -147, 75, -86, 16, 98, 98,
+                -107, 63, -55, -53, -91, -8, -258, 112, 481, -305, 6, 36, 227, 17, -60, 151, -231, -60, -70, 0, 229,
+                -40, 50, -320, 304, 16, -250, -15, -136, -95, 154, -185, -196, 340, 78, 13, 135, 10, -70, 150, -129,
+                -66, 2, -58, 204, 170, 158, 44, -442, -233, 50, 23, -134, -240, -265, 133, 94, 11, 75, 300, -415, -261,
+                55, 83, 104, 172, 249, -14, -51, 81, 182, 41, 144, -186, -46, -191, 30, 77, 53, -198, -37, -62, 131,
+                -20, 32, -37, -125, -187, 144, 336, -128, -62, 190, -522, -233, 128, -55, 158, 134, 174, 62, 170, -98,
+                -94, 92, -170, -69, 80, 71, -3, -206, 38, 167, 31, 40, -164, -151, 46, 150, 111, 304, -227, -96, -163,
+                -2, -25, 144, 5, 15, -240, 209, -133, 60, 87, -128, 93, -120, 109, -2, -125, 55, 277, 2, -146, -131,
+                139, -229, 7, -425, -131, 325, -130, 139, 56, 165, -26, -38, 173, -156, 28, -104, 173, 87, -191, -50,
+                -162, 103, -185, -15, -99, 71, 310, 120, -112, 18, -58, -299, 30, 78, 197, -3, 94, 76, 144, 53, -172,
+                -219, 1, 7, 135, -21, -343, -17, -286, 295, 204, 237, 85, -78, -96, 37, -6, -131, -75, -35, -20, -215,
+                341, -116, 50, 109, -141, 1, 22, 80, 93, -70, 93, -18, -228, 58, 148, 61, -59, 243, -88, -57, -333, -40,
+                38, -97, -45, 100, 381, -159, -204, -70, -215, -46, -70, 224, 136, -1, 16, -16, -103, 222, -57, -56, 49,
+                -96, 31, -123, -121, -108, 36, -60, -7, 283, 73, -113, -54, 61, 63, 65, 47, -59, -36, 7, -80, -67, -188,
+                18, 373, -6, -83, 143, 3, 32, -222, -74, 115, -94, 70, 62, -227, 49, 73, -2, -58, 3, 73, 53, 21, -200,
+                30, 39, 230, -110, -90, 32, 196, 103, -16, -39, -128, -136, -39, -5, 105, -291, 17, 20, 267, -64, -74,
+                -48, 40, -131, -195, 29, -23, 156, 146, -356, 243, 287, -106, -63, 4, -154, 119, -127, 10, 5, -115, 15,
+                11, 128, 47, -341, -116, 23, 181, 51, -8, 72, 111, 59, 96, -171, -24, -48, -131, 94, 98, 63, -58, -172,
+                231, 82, 65, -71, -167, -40, -17, -49, -24, -30, -70, -7, 211, 37, -102, -7, -86, 24, 0, 172, -64, 52,
+                -24, -188, -32, 72, -34, -35, 164, -20, -60, 209, -35, -98, 75, -114, 17, 64, 49, -99, -48, -79, 56, 36,
+                -6, 114, 64, -326, -1, -70, 49, 95, 48, 88, -104, -70, -160, 108, 13, -134, 232, 84, 114, 249, -27, -88,
+                -74, -231, -53, -19, -17, -9, -38, 102, 16, -10, -51, 67, 58, 107, 90, -87, -82, -150, -30, 73, -105,
+                -141, 158, -238, -85, -1, 312, -212, 184, 217, -79, -36, -17, 3, -86, 115, -90, -175, -70, 35, -15, 132,
+                43, 21, -122, -47, 54, -32, 1, -89, 188, 162, 8, 35, 45, -198, -61, -128, 110, -354, -7, 106, 80, -136,
+                -40, 113, 210, 17, 65, -165, 195, -50, -112, 131, -107, 223, 31, 6, -58, -36, -44, -53, -96, -14, -39,
+                268, -125, -58, 42, -124, 25, 95, -20, -214, 226, -78, 90, -27, -98, -137, -137, 154, 67, -191, 176,
+                -186, 227, 53, 99, -88, -98, 158, -419, 170, 98, 35, -255, 152, -55, -124, 167, 176, -124, -16, 45,
+                -101, 44, 121, -175, 55, 0, -16, -189, 131, 43, 100, -64, 93, -123, -68, 83, -36, 74, -4, -280, 181, 24,
+                74, 181, 60, -106, -195, -71, 41, -12, -1, 71, 27, -8, -176, 46, 6, 8, -52, -109, -157, 130, 159, 11,
+                -146, 137, 231, -58, 53, 20, -255, 127, -303, 159, 160, 180, 60, -157, -47, -119, -80, -24, -7, 23, 83,
+                -207, 63, 110, -88, -4, -180, -85, 201, 162, -1, -182, 172, -114, 152, 27, -269, -26, 58, 145, -57, -56,
+                68, 77, -139, 135, -89, -12, -111, 44, -59, 36, -138, -91, 267, -220, 240, -61, 38, 57, 38, -90, -33, 8,
+                66, -110, 40, -68, -43, 16, 248, -101, -82, -36, -74, -6, 273, 149, -30, -157, 118, -298, -40, 129, -51,
+                -136, 53, -180, 117, 81,
+            ],
+            [
+                107, -10, 150, 338, 231, -187, -533, -105, 610, -13, 27, -149, -200, -230, -69, 13, 279, 168, 36, -150,
+                -8, 12, -43, -303, 81, -582, 346, -10, 204, 357, -162, -245, 69, -697, 80, 158, 179, 453, -329, 78, 77,
+                80, -93, 75, -81, 280, -174, -174, 130, 104, 53, -190, -88, -29, -2, 12, -206, 437, 197, -46, -179,
+                -201, -61, 50, -526, -25, 195, 293, 73, -10, -85, 75, -234, 202, 237, -301, -187, 89, -7, 191, 168, 135,
+                245, 44, -290, 81, -360, -34, 492, 106, -149, -202, 75, -138, -199, 4, -211, 91, -79, -17, -124, 208,
+                265, -144, -123, 17, -130, -44, -252, 84, 191, 245, -266, 81, -103, -3, 73, 137, 29, 40, -369, 118, -34,
+                -73, 59, -170, 59, 398, -22, 82, 56, 238, -362, 41, 77, -121, 143, 54, 2, -41, -151, 67, -22, -63, -113,
+                167, 174, 126, -460, 260, 41, -205, 23, -171, -307, 291, 44, -178, -244, 531, 855, -7, -186, -11, 230,
+                -738, 41, -195, 254, -245, -278, -10, 79, -30, 167, 53, -99, 133, -173, -250, 28, 285, 75, -10, 542,
+                225, 109, 436, -138, -8, -821, -357, -214, 591, -303, 183, -133, -327, 88, 104, -159, -38, 137, 152,
+                -35, -72, -5, 10, 3, 131, 239, 305, -377, 120, -236, -196, -46, 238, -36, 22, 22, -112, -75, -24, 437,
+                245, -36, 206, -68, -296, -153, -346, -426, 66, 408, -346, -82, 89, 92, 189, 78, 460, 75, -153, 56,
+                -264, -118, -145, -54, 186, 180, 143, -301, 72, -5, -230, 273, 182, -141, 27, -49, 48, -228, -122, 431,
+                58, -147, 493, -54, -74, -284, -434, 46, 190, -174, -32, -280, 167, 103, -32, 103, 104, 408, -63, 10,
+                -338, -100, -134, -264, 420, -185, 30, -15, 72, -104, 34, 15, 10, -80, -83, -83, 442, -188, -43, -246,
+                156, -83, -285, -11, 1, 503, -44, 316, -35, 200, -55, 339, -218, -357, -199, 0, 54, 323, -96, -75, -172,
+                82, -129, 292, -191, 23, 333, -191, -165, -2, -110, -226, 78, 154, -263, 171, 147, -236, 163, -506, 328,
+                387, -204, 29, -236, -95, 288, -19, 246, 41, 182, 192, 62, -238, -476, -225, 149, 72, 221, 41, 7, -250,
+                -26, -462, 163, -81, -16, 188, -315, 328, 183, -8, -1, -89, -133, 104, -128, 26, 219, 43, 85, 16, 143,
+                -277, 169, -85, -104, 220, -138, 148, -158, -61, 40, 7, -70, 109, 72, -12, -7, 174, -190, -169, 12, -16,
+                -150, 190, 178, -129, 84, 33, -201, -47, 71, -2, -113, 43, 205, -55, -113, 162, -20, 133, 177, -34, 44,
+                -310, -163, -118, 154, -240, 31, 42, 99, 173, -152, 47, 209, -32, -169, 158, -194, 107, -136, 258, 219,
+                -148, -242, -90, -76, 289, -221, -26, 294, -160, 69, -87, -31, 22, -91, 76, 0, 42, -87, -339, -37, 278,
+                57, 21, 145, -328, -216, -79, 153, 107, 187, -146, -55, -399, 109, 239, -58, 200, 100, 116, -85, -213,
+                71, 103, -139, 154, -17, -58, -432, 30, 219, 156, 30, -55, 100, -47, 50, 10, -330, -103, 13, 201, 195,
+                95, -192, -98, 303, -156, -177, -59, 274, 222, -26, -1000, -119, 306, 305, 311, -10, -258, 33, -74, 108,
+                -271, 44, 147, 259, -172, 48, -90, -45, -2, -21, 220, 51, -159, 258, -166, -91, 166, 32, -52, 1, 18,
+                -96, -141, 89, 180, -151, 41, 50, 43, 157, 40, -219, -216, 117, 147, -79, 282, -119, 60, -93, 175, 41,
+                -68, -288, 61, 216, -314, 318, 206, -167, -68, -263, 203, 63, -42, -58, -196, -47, 54, 13, -201, 24, 98,
+                126, 3, -169, 165, -57, -106, -179, 9, 3, 163, 364, 9, -272, 30, 170, -121, -128, 158, -84, -107, 72,
+                -14, 63, 88, -84, 97, 61, -254, 31, 94, 184, 74, 2, -672, -74, 273, 110, -81, 41, 106, 30, -87, -100,
+                -14, 95, -306, 114, 19, -189, -37, 285, 106, -3, 491, 283, -563, -315, -104, -87, 57, 229, -166, 29, 71,
+                57, 245, -216, -35, 5, 139, -429, 208, -297, 168, -84, 299, -16, 144, 153, -11, -45, -331, 8, 460, -386,
+                398, -339, 273, -49, 77, -325, 194, -239, 291, 94, -79, -303, 105, -160, -233, 276, 113, -247, 33, -161,
+                431, 315, -359, -134, -27, -121, 409, 257, 71, -194, -298, -108, -88, 51, -71, -18, 222, 266, 111, -483,
+                -430, -304, 112, 200, 64, 324, -63, 87, 140, 189, 188, 20, -395, -121, 23, -55, -29, 80, -83, 443, -431,
+                45, -115, 79, -63, -75, -380, -230, 390, -204, 504, 47, 199, -14, 97, -65, 48, -228, -148, 100, 110, 33,
+                -14, -125, -285, 170, 44, 56, 104, 199, -95, -16, -128, -178, 38, 64, -10, -109, 26, 137, -53, 44, 35,
+                -81, 214, 120, -116, 70, -237, -185, -75, 197, 124, -20, -96, 14, 144, 255, -261, -170, 70, 96, 69,
+                -160, -77, -64, 104, -49, -80, 186, 152, -89, -94, 74, -157, -3, 202, -246, 13, 127, -423, -108, 175,
+                249, 61, -70, -69, -45, -40, 4, -15, 163, -1, 128, -95, -166, 269, 146, -199, -92, 40, 140, 0, -9, -208,
+                -132, 27, 131, -60, -98, -184, -78, -173, -49, 243, 388, 128, -114, -135, -187, -8, 146, 116, 43, -22,
+                -48, -151, -42, -29, 454, -269, 95, -32, 23, -36, 502, -98, 131, -290, -212, -57, 73, -246, 21, -133,
+                -22, 144, 210, 126, -40, 521, -96, -94, -297, -270, 139, -262, 140, 5, -119, -365, 43, 270, 277, 171,
+                243, -104, 114, 79, -175, 123, -461, 300, -96, -59, -293, -89, 215, -164, 175, 129, 157, -160, 128,
+                -378, -46, 17, 141, -4, -1, 83, 136, -20, 169, -59, -315, 51, 4, -274, -137, 135, 275, -61, -5, -38,
+                -194, 47, 167, -116, -276, 342, 56, -62, -137, 230, -76, -121, 114, -67, 108, -427, 124, -8, 109, 83,
+                165, 163, -220, -31, -158, 285, 43, -137, -228, 125, 91, -10, 165, 73, 45, -80, -31, -76, -98, 44, 0,
+                126, 32, -186, 129, -93, -61, -109, 106, 29, -80, -201, -46, 219, 71, 219, 119, 80, -98, -409, 79, 57,
+                -57, 2, 214, 154, -219, 57, -259, -177, 218, -56, 64, -110, -172, -51, 30, 144, 141, 151, -357, -39,
+                -112, 39, 98, 251, -42, -56, -3, -4, 7, 220, 81, -36, -221, 128, -40, 35, 46, 160, 77, -185, -232, -78,
+                -220, -317, 44, 64, -155, 523, 129, -517, -102, 184, 53, 177, -43, 127, 110, -149, 355, 13, -29, 17,
+                -207, -119, 109, 71, -67, -201, 6, -1, -71, 118, 133, 492, -104, -232, 637, -96, -425, -409, 126, 9,
+                -178, -198, 77, 286, -13, -66, 73, -164, -178, -42, -232, 239, -146, 227, 287, 215, 22, 19, 450, -333,
+                -254, -276, 146, -514, -657, -219, 369, 484, 311, -365, 580, -489, -282, 387, 41, 71, 279, -220, 202,
+                -151, 217, 329, -179, -22, 6, -340, 130, 186, -90, 253, -228, -204, 244, -209, 36, -157, 329, 64, 593,
+                107, -42, -452, -452, -12, -70, -60, 229, -20, 349, -250, -176, -93, -263, 298, -127, -41, 9, 88, 117,
+                392, 227, -163, 266, -229, -123, -185, -195, -136, 62, 118, 179, -150, -19, 144, -208, -727, -243, -124,
+                -22, 352, 555, 356, -157, -21, -275, 515, -70, -138, -107, 334, -248, -194, -191, 152, -27, 9, 51, 58,
+                131, 54, 299, -260, -183, -85, -124, 458, -169, -152, 102, -368, -223, 194, -299, 309, 426, -155, 117,
+                129, 47, 51, -297, -118, 214, -195, -26, -21, 30, 195, 219, -41, -171,
+            ],
+            [
+                388, 70, 61, 64, -137, -445, -135, -14, -327, -10, 158, 498, 65, -188, -143, -201, -253, 352, 216, 251,
+                182, 1, -414, -483, -128, -262, 72, -107, -75, 297, -74, 129, 439, -226, -475, 410, -62, -282, -13, 61,
+                -188, 433, -61, -231, 79, 392, -122, -450, -209, -165, 62, 105, 268, -328, 437, -318, 94, -67, -634, 65,
+                164, 79, 224, -72, -130, -99, -210, 119, 143, -81, 135, -25, -208, -574, 530, -240, 2, 249, -75, 168,
+                97, 178, 14, -97, -332, -24, -142, 157, 262, -152, 328, -56, -449, 56, -9, -128, 175, 132, -151, -4,
+                -235, -123, 148, -90, 75, -45, 25, 124, -673, 43, -58, 360, -359, -140, -2, 78, 127, 863, -34, -682, -7,
+                -48, 102, -158, -160, 52, 31, 38, -210, 139, -58, -99, 159, 55, -1, -134, 131, -184, 163, -66, 80, 141,
+                124, -537, -245, -17, 61, -105, 430, -266, 8, -14, 69, 100, 24, -160, -127, 85, -55, -83, -287, -41, 72,
+                -63, -21, 167, 81, -57, -8, -101, 214, -242, -34, 353, -128, -202, 181, -201, 26, 243, -191, -123, 44,
+                -129, -135, -4, -72, 172, 67, -105, -117, 45, -178, -20, -118, -80, -16, 180, 24, 58, -173, -70, -42,
+                -112, -20, -163, 402, 30, -60, -27, -6, -37, 108, -89, 88, -126, -17, 75, 62, -456, 156, 110, -90, 12,
+                27, 38, -138, -119, 192, 108, 32, -288, 99, -112, -109, 52, -63, 26, -102, 61, 193, 140, -165, 12, 65,
+                137, -325, -206, -1000, 207, 142, 414, 16, -38, 145, -34, 10, -139, 110, -169, 119, -51, 39, -67, -67,
+                -26, 87, -126, -185, 198, -192, 164, -80, 10, 161, -168, -427, 28, 113, 215, -163, -45, 92, 377, -366,
+                79, -139, 16, -236, -242, 195, 8, -48, -55, -121, 351, -5, 102, -239, -141, -228, 280, 182, -99, -775,
+                189, -181, 38, 340, 304, -268, 205, 523, 128, -67, -138, -168, 20, -470, 23, 140, 119, -606, -52, 69,
+                -111, 79, 213, 43, -359, 130, -216, -4, -143, 249, 152, -636, 58, -844, -361, 336, 245, 538, 516, 115,
+                148, -64, 76, -253, 136, -222, -84, 96, -132, -106, -314, 38, -122, 21, 371, -165, 326, -81, 224, 311,
+                -533, -419, 189, 110, 231, -224, 26, -294, 161, -302, 143, 109, 103, -192, -481, 202, -311, -81, 503,
+                -112, 53, -25, -367, 156, 46, 91, 9, 418, -428, 59, -126, 85, -80, 231, -309, -23, -202, 249, 361, -129,
+                -176, -127, -102, 206, 216, 283, -54, -28, 131, -704, -199, 478, -110, 398, -616, -151, 137, -48, -236,
+                108, 90, -178, 194, -5, 169, -247, -280, 205, 87, -222, 198, 218, -182, -273, -179, -260, -207, -73,
+                -129, 215, 123, 53, 128, -137, -286, 210, -39, 105, -53, 17, 34, -63, 148, -169, -171, 168, -29, -54,
+                23, -183, 55, 82, 55, 7, -18, 5, -151, -56, -88, -33, -44, 340, -262, -14, 9, -101, -69, 294, 153, -348,
+                -91, 200, -186, 149, 123, -167, 31, -347, 48, -56, 71, -397, -78, 22, 45, -44, 123, 101, 78, 11, -187,
+                131, 2, -98, 14, -12, -9, -7, 74, 12, 51, -43, 189, -465, 40, 352, -19, 167, -589, -19, 208, -189, -60,
+                271, -102, -440, 305, 13, 3, -192, -7, -319, -89, -223, 112, -217, 209, 402, -25, 139, -171, 112, 55,
+                21, 170, -447, -26, 121, 22, -179, 22, -264, 44, -7, 93, 182, 112, 205, -310, -635, 529, 118, -349, 272,
+                -81, -113, -208, 406, -213, 104, -315, -625, -39, -65, 911, -648, 78, 518, -279, 404, -30, -40, 270,
+                -142, -522, 58, -148, -220, 117, 197, -242, 37, -145, 64, 43, 92, -107, -194, -52, -587, 135, 206, 359,
+                -48, -4, 103, 83, -130, -170, -118, 134, -62, -244, 111, -39, -3, 98, 18, -28, 115, 150, -121, -68, 149,
+                20, -126, -267, -56, -125, -109, -68, -140, 146, 229, -25, 185, -21, 119, 141, -198, -429, 218, -164,
+                -307, -203, 231, 153, -53, -22, -43, 95, 212, -59, -7, -101, 315, -274, 67, -301, -60, -80, -201, -86,
+                1, -101, 117, 260, 23, -45, -130, -15, -145, -80, 53, 193, -271, 349, -180, 5, -19, 92, -91, -34, -169,
+                -38, 40, -37, -14, -95, 201, -36, 84, 24, -632, 66, -150, -57, 288, 229, 61, 88, -89, -207, 42, -88, 98,
+                -53, 113, -52, -152, 127, -265, -221, 27, 275, 166, 348, 18, -261, -53, -294, -1, -71, 181, -71, -287,
+                -66, 103, 83, -82, -10, 139, -202, 57, -135, 60, -26, -50, 9, -7, -26, 225, 82, -334, -66, -56, 35, 80,
+                -85, 77, 22, 143, -14, -185, -187, 58, 71, 156, 235, -73, -244, -206, -144, 94, 58, -76, 95, -168, -265,
+                41, 74, -69, 81, 83, 265, -296, 112, 241, -565, 158, 29, 39, 34, -11, -115, -415, 132, -151, -147, 132,
+                -44, -249, 141, 37, 133, -100, -78, 271, 14, -426, -168, 181, 157, -15, 144, -231, -153, 13, 149, -129,
+                74, 228, -371, -72, 42, 21, 35, 6, -38, 167, 73, -70, -118, 161, -149, -362, 150, -157, -125, -81, 151,
+                150, -216, 11, 119, -106, -227, 59, 28, 79, 54, -94, 58, 40, 141, 161, -33, -189, -124, -273, 129, -34,
+                -39, -3, 117, -133, -99, 32, 11, -102, 40, -35, 120, 44, 37, -247, -5, -84, -159, 255, 166, -136, 54,
+                -31, -214, 81, 75, -63, -91, -46, -3, 80, -182, 30, 170, -44, -100, -42, -150, -91, 79, 82, -49, -233,
+                31, 20, 281, -81, -200, -218, 33, 143, 115, 29, 105, -13, -342, 0, -13, -143, 117, -43, -1, -76, 10,
+                -33, -72, 5, -39, 139, -173, 35, -11, -144, -23, 55, 17, 227, -171, -159, 50, -96, -9, -35, -185, -17,
+                205, -110, 99, -98, 25, -142, -69, 85, 90, -85, 46, -91, 228, -150, -116, -173, 62, -27, 119, 124, -41,
+                -63, 38, -164, 86, 43, -170, -176, 290, 920, -409, -157, -204, -212, -200, -172, -135, 334, 12, -40,
+                -130, -16, -1, 72, -113, 82, -103, -73, 46, -27, -32, -149, -43, 62, -99, -134, 92, 66, 57, -12, 224,
+                215, 68, -196, -10, -70, -368, 162, 56, -117, -9, -130, -147, -153, 191, 72, -19, -414, -128, -223, -4,
+                290, 277, 59, -306, 6, -118, 26, -61, 42, 205, 142, -94, 181, -78, 84, -7, -27, -349, 171, -88, -222,
+                13, 261, -141, 49, -191, -50, -28, 177, -143, -14, -100, 102, -92, 14, -170, 36, 86, -90, 11, -72, 37,
+                90, -72, 37, -114, -79, -258, 94, 154, 140, 39, 216, -455, -34, -328, 94, 180, 264, -412, 168, 408,
+                -225, -328, -2, -21, -213, -98, 33, 153, -194, 66, 72, 33, -41, 78, 29, -57, -155, -252, 77, 173, -176,
+                -88, -16, -195, 124, 184, -141, 160, 108, -34, 112, 120, -64, -210, 50, -231, -178, 19, 70, -120, -13,
+                156, 20, -102, 212, -165, -125, -26, -82, 42, 86, -90, 62, -36, -159, -84, 149, 4, 4, -89, -38, -63,
+                -26, -227, -22, -122, 149, 202, -58, -88, 60, -60, -34, -136, 177, -10, 31, 222, -131, -145, -192, 60,
+                9, -2, -265, -104, 30, -72, 151, 121, -36, 25, -126, -93, 25, -10, 46, -183, 283, -89, 96, 138, -163,
+                -189, 90, 28, -164, 15, 80, -6, -198, -302, -204, 200, 261, 20, 65, 1, -4, -96, -7, -167, -77, 136, 84,
+                30, 41, -188, 199, -66, -230, -19, 11, 30, 32, -66, 148, 101, -207, -196, -56, 24, 97, -161, -86, 339,
+                -18, -286, 149, -19, -16, 161, -169, 32, 28, -314,
+            ],
+            [
+                -84, -176, 41, 60, 49, 150, -180, 156, -38, -36, 91, -51, 12, 29, -125, 135, 174, -209, 152, -68, 20,
+                -55, 101, -99, 123, -50, 72, 178, -93, -135, -290, 212, -120, 123, -331, 199, 4, 244, -158, 56, -76,
+                -174, 144, 97, 76, -124, 63, 11, -26, 17, -209, -63, -21, 336, 95, -112, -133, -60, -48, -126, 104, 278,
+                -93, 94, 321, 207, -135, 142, -481, -239, 58, 143, 139, 288, -232, -108, -94, -233, 291, -33, 25, 33,
+                59, -73, -78, -30, 90, -10, 207, 300, -124, -142, -246, -116, 47, 90, 193, 39, -80, -57, -190, 106, 91,
+                -86, 23, -317, -186, -146, 329, -36, 276, 73, 25, -19, 26, 131, 27, -174, -115, 115, -82, -23, 134, -11,
+                -133, 73, -22, 81, 346, -23, 20, 66, -282, -100, 0, -10, -96, 117, -33, -81, 47, 115, 1, -53, -221, 115,
+                30, -2, 24, 72, -26, 25, -37, 134, -115, 35, 142, -43, -72, -28, -247, -123, 42, -44, 101, 308, -62, 42,
+                -3, 87, 60, 56, -34, -161, 46, -34, 124, -175, 11, -58, 35, -32, 69, 43, -147, 71, 44, -85, -99, 117,
+                156, -40, 235, -195, -87, 54, 74, -44, 40, -60, 103, -63, -4, 4, -77, -49, 44, 58, 49, -138, -28, -114,
+                25, 80, -115, 257, 169, -9, 67, 187, -82, -197, -152, 33, -334, 39, -37, 241, -15, 231, -28, -78, -42,
+                -10, -19, -11, 137, 13, -66, 15, -196, 46, 102, -6, 205, -71, -100, 36, -256, -29, 12, 61, 77, 262, 45,
+                -155, -158, 51, -59, 237, 31, 8, -111, 18, 77, -28, -109, 50, 80, -75, 51, -28, -1, -40, 65, -18, 104,
+                -127, 243, -209, -99, 89, -418, 202, 26, 180, -113, 151, -11, -48, -58, -112, -1, 62, 241, -56, -164, 7,
+                -184, 2, 60, 84, 187, 24, 3, -116, -99, 206, 3, -85, 123, -17, 170, -18, -258, 89, -48, 29, -8, 61, -65,
+                324, -69, 96, -134, 17, -48, -103, 47, -55, 13, -293, 184, -3, 19, 106, 89, 15, -397, 103, 96, 45, -111,
+                177, 253, -245, 35, -283, -123, 363, 11, 6, -63, -114, 146, 93, 54, 114, 55, -268, 63, -97, -131, -216,
+                -180, -38, 487, 130, -609, -186, -207, -198, -75, 1000, 306, -13, -204, -272, -45, 309, -1, 365, -28,
+                -107, -135, -108, -186, 150, -97, -28, 89, 333, -212, -15, -121, 2, -7, 174, -86, 281, -123, -58, -219,
+                118, 328, 57, -125, 38, 28, -2, -299, -98, 240, -40, 58, 130, -331, 73, -126, 116, -60, 115, 151, 80,
+                19, 483, -84, -65, -292, -33, -81, 72, -110, -11, 154, -72, -189, -16, 67, 194, 315, 108, -422, 90,
+                -191, -99, 123, 94, 278, 198, -98, -116, 193, -124, -184, -130, -245, -134, 216, -40, 155, -55, 358,
+                -238, 49, -236, -122, -2, -170, -23, 198, 323, 187, -120, 6, 175, -399, -174, 110, 232, -280, -73, 379,
+                34, -38, 74, 46, -124, 14, 4, -429, -100, 160, 305, 10, 52, -303, 124, 87, 219, -198, 122, -27, -8, -47,
+                -145, 163, -79, -207, -193, 455, 71, -16, 162, 14, -209, 5, 359, -318, 20, 116, 45, -921, 425, 126, 208,
+                161, -144, 6, -30, -60, -89, -4, 226, 139, -171, -172, -40, -110, -26, -23, -23, 477, -65, 213, -388,
+                -30, -98, 234, 139, -77, 24, 312, -13, -148, 123, -138, -149, 4, 26, -86, -11, -231, 8, 27, 96, 103,
+                112, 255, 128, 55, 0, 77, -174, 40, -363, 32, 23, -15, 61, -78, -60, 70, -14, 59, 109, -352, -9, 82, 45,
+                82, 0, -122, 6, 124, 123, -127, -30, -28, 71, 108, 273, 140, 171, -974, -177, 196, 279, -37, -63, -131,
+                42, -37, -88, 6, 326, -235, 44, -1, -122, 135, 6, 125, 64, 164, 339, -44, 110, -450, 17, -101, -18, 114,
+                220, -98, -294, -61, -201, 350, -14, -15, -101, 48, -11, 6, 144, 41, -95, -90, -64, -4, -41, 90, 135,
+                -122, 113, -160, 217, -79, -159, 49, 93, -11, 69, 3, -80, -4, 61, 52, -75, 43, 16, -18, -85, 39, -36,
+                149, 0, -33, 1, 198, -58, -1, -49, 15, 30, -79, -40, 144, -63, -3, 58, -29, 99, -40, -148, -53, 180,
+                240, 91, -287, -89, -44, -20, -2, -78, -98, 45, 57, -69, 58, 104, -102, 34, -224, -38, 228, 245, -67,
+                -58, -17, -180, -60, 103, 156, -83, 2, 97, 41, -29, 12, 2, -180, 78, 29, 64, -36, 202, -7, -112, -5,
+                -87, 6, 56, 15, -88, 103, -37, -66, 68, 19, 3, 3, -82, 23, 71, -28, 124, -180, 86, 92, -85, 31, -266,
+                125, 7, 67, 45, -258, 47, 49, -13, 121, 123, 4, -56, 3, -74, -103, -18, -213, 127, 254, 41, -123, -67,
+                87, -206, -75, 65, 162, 175, 55, 250, 50, -109, -72, -218, 205, -143, -288, -7, -12, 189, -9, 54, -67,
+                157, 101, 227, 116, 152, 12, -69, -103, -418, 161, 74, -15, -275, 62, -159, 271, -101, -148, 179, 152,
+                -33, 147, -179, -71, -29, 72, 252, -47, 286, -368, -34, -12, -131, 41, -71, -148, -118, 137, -39, 208,
+                6, 81, 132, 473, 68, -68, -151, -386, -131, 1, -97, 26, 262, -105, 6, -4, -72, -52, -47, 29, 96, -105,
+                95, -38, 38, -12, -69, -195, -61, 395, -2, 225, -266, 72, -447, 253, 107, -46, -184, 170, 92, -203, -26,
+                408, 45, -69, -198, -33, 93, -51, -20, -258, 12, 119, 20, -73, 267, -193, -24, -289, 90, 39, -39, 397,
+                36, -120, 24, 61, -271, 99, 36, 15, 173, -60, -356, -98, -20, 71, 207, 38, 235, 58, -34, -7, 171, -129,
+                5, 177, -225, 153, 175, -240, 9, 61, 80, 24, -245, -36, 30, 42, 86, -90, -141, 82, 43, -108, 62, 104,
+                259, 59, -145, -123, -92, 62, -100, -281, 141, 153, 48, -86, 81, -44, -20, 744, -103, 45, -142, -158,
+                -306, -68, 142, 285, -9, -160, 69, -192, -50, -35, 121, -235, 3, 74, 79, 53, -44, 10, 0, 13, -254, 44,
+                168, 61, -26, -110, 211, 145, -121, -150, 82, -2, -38, 199, 95, 35, 182, -164, -167, -44, -120, -286,
+                136, -63, 52, 117, -90, 75, 75, -110, 60, -281, 39, 134, 138, 22, 14, -59, -66, 14, -227, 12, 173, 116,
+                54, 158, 12, -87, -1, 228, 81, -135, -239, -202, 30, -6, 434, -77, -229, 0, 67, -200, 8, 541, -84, -100,
+                -50, 3, -101, -112, 113, 25, 163, 125, -389, -32, 124, -85, 104, 72, -41, 12, -111, -57, 122, -119,
+                -183, -132, -1, -16, 150, 136, 182, 28, 159, 74, -108, 86, -9, -125, -87, -13, 109, 37, -82, 30, -138,
+                15, 58, -26, -12, 67, -99, 85, -10, 37, -25, 173, 23, -78, -56, -40, -5, -46, 47, 49, 189, -59, -60,
+                -59, -76, 24, 10, -4, 37, -70, -61, 18, 20, 56, 21, -43, 41, 182, 5, 70, -175, -132, 70, 37, -47, -15,
+                251, -35, -16, -21, -137, 87, 199, -93, -17, -228, 36, 33, -1, -264, 113, -110, 237, 52, 61, -86, 14,
+                75, -66, 280, -87, -186, 53, -97, 46, -289, 36, 34, 21, 93, -110, 61, 169, 161, -95, -48, 46, 62, -50,
+                -75, 16, -164, 110, -399, 85, 201, -4, 9, 178, -6, 14, -60, 28, 270, -80, -7, -141, -34, 101, -70, 16,
+                17, 49, -6, -56, 32, 89, -76, 8, 161, -28, -18, -151, 141, -21, -43, 70, -139, -37, 5, 41, 0, -30, 47,
+                -26, 61, -4, -25, -7,
+            ],
+            [
+                -52, -64, 4, 89, 1, 23, -138, 150, -19, 74, -35, -151, 72, -26, 72, 27, -31, 136, 65, -38, -15, -26,
+                -70, -7, 42, 4, -166, 9, 53, 50, -41, 63, -87, -341, 116, 96, 116, 14, -71, 170, 28, 68, -59, -9, -9,
+                20, 26, -50, -83, -2, -81, -70, 112, 101, -24, 61, -73, 210, 29, -81, -88, 10, -29, 36, 17, -138, 67,
+                -38, -76, 3, 50, 128, -38, -170, 78, 24, 10, 55, 26, 30, -64, 99, -83, 112, -28, -42, 55, -36, -57, -32,
+                -80, -2, 70, 29, 73, 13, -45, -6, -122, 50, 15, 17, -7, 111, 44, -82, -102, -77, 87, -15, 40, 118, 20,
+                -52, -68, -119, 209, -98, 39, 83, 297, -57, 12, 99, -89, -98, -104, -45, 104, 47, 28, -42, -93, -174,
+                113, 31, 11, 5, -95, -41, -32, -86, 24, 227, -37, -22, -92, 59, 71, -2, 45, -8, 95, -6, 56, 20, -100,
+                59, -40, -71, 49, -54, -68, -132, 1, 196, 129, -108, 2, -85, -11, 7, 64, 53, 62, -78, -16, 179, -177,
+                -136, 67, 104, 65, -73, -30, 10, -13, 163, -106, 38, -40, -8, 48, -29, 10, -52, 14, -24, 115, -68, -70,
+                -12, -117, 91, 45, 0, -2, 78, 32, -23, 39, 85, 0, -44, -69, -8, -102, -6, -6, 48, 11, 81, -41, 29, 86,
+                92, 21, -68, 51, -107, 45, -107, 32, 78, -75, -22, 8, -48, 26, 15, -169, 40, 36, -17, 68, 21, 25, 10, 4,
+                -37, 96, 53, -126, -191, 114, 102, 171, 39, -273, -172, 196, 95, -23, -18, 277, 20, 3, -144, -58, -59,
+                -90, 67, 96, -1, -14, -10, -47, 57, -14, -53, 9, 27, 59, 6, 3, 27, -71, -47, -73, -60, 56, -35, 36, -17,
+                13, 94, 55, -1, -3, -44, -67, 88, -16, 2, -104, 35, -51, 2, 22, 76, 3, 31, 76, 76, 58, 101, -73, -115,
+                -91, -19, 18, 155, 246, 15, -153, -285, 84, -67, 35, 182, 204, -132, -93, -87, -59, -36, -148, 49, -73,
+                22, 44, 14, 73, 33, -140, -26, 14, 92, 0, 12, -38, 99, -74, -146, -17, 108, 15, 44, 26, 59, -128, 84,
+                -32, 107, 101, 127, -40, -206, 243, -19, 133, 125, 170, -590, -14, -33, 66, 4, -26, -38, 44, 64, -5,
+                -95, -11, -72, 215, 53, 116, 27, -18, -296, 4, -6, 91, 65, 82, -42, -52, -128, -148, 41, -82, 29, -232,
+                51, 249, 105, 23, -14, -21, 157, -86, -222, 38, 139, -52, 79, -243, -104, 260, -8, 191, -109, -113,
+                -561, 24, -8, 229, 19, 210, 214, -101, -65, 7, 50, 55, -86, 105, 48, 161, 113, 169, -176, -8, -195, 21,
+                -70, 22, -280, -92, -33, 56, 167, 119, 55, 72, -90, 139, -15, -54, 76, 4, -119, 128, -184, 241, -95,
+                262, -175, -139, -24, -30, 51, 12, -58, 115, 30, 21, -127, 86, -2, -1, -136, -51, 19, 39, 60, -148, -38,
+                -30, -159, 18, 111, 254, 6, -328, 569, 9, -16, -65, -60, -45, -51, -137, -99, -232, 318, -2, 241, -23,
+                -52, -206, 23, -42, 13, 65, 307, 111, -257, -10, -194, 115, 1000, -148, -250, -194, -305, -84, -27, -87,
+                -60, -194, 13, -14, 468, -179, 42, -114, -49, 32, 75, 162, 44, 34, -620, 92, -5, -48, 220, 221, 119,
+                292, -24, -89, -93, 159, -195, 28, -63, 101, -98, -344, 35, -13, 174, 121, 38, 78, 82, 33, 7, -6, -99,
+                97, -178, 104, -107, -98, -50, -52, -8, 130, 94, 121, 71, -218, -56, -72, -118, 180, 105, -93, -23, 146,
+                153, -167, 22, 16, -40, 106, 154, -200, -38, -141, -115, 84, 162, -71, -79, 26, -12, 291, -114, -16,
+                -11, 29, 69, 64, -298, 54, -30, 69, 57, -1, -38, -272, -45, 566, -143, -69, 17, -25, 4, -68, -26, 48,
+                176, -39, -56, 0, -57, 104, 90, 120, 4, -23, -225, -126, -175, 61, 52, 102, -82, 67, 115, 222, -48,
+                -121, 33, -66, 91, -62, -36, -116, 13, 2, 64, 80, 12, -100, 59, -92, -5, 140, -85, 62, 20, -67, 42, -50,
+                52, 21, 15, -24, 24, -12, -13, -48, 24, 24, 12, -100, 78, -15, 39, 112, -35, -99, -41, -168, 167, 69, 9,
+                16, -124, 30, 58, 34, -34, 44, -10, 74, -30, -65, 19, 76, -14, -78, 32, 133, -40, 81, -92, 28, 9, -65,
+                -39, -5, 17, -40, -79, 190, 27, 20, -116, 2, 25, -20, 27, 72, 44, -51, -85, 10, 116, 67, 1, -59, 15,
+                -192, 57, 27, -71, 89, 18, 29, -15, -28, -36, -94, -84, 97, 38, -37, -15, 167, -58, 3, -89, 137, -44,
+                -63, 42, 156, -128, 8, -14, -30, -109, 64, -133, 92, 136, 113, -52, 15, 74, -133, 278, -229, -51, 26,
+                -134, -82, -4, 16, 26, 49, 116, 64, -14, 47, -38, 5, -52, 47, -44, -25, 91, -90, -96, 14, -35, 76, 79,
+                -47, 257, -82, -24, 13, -41, -22, -41, 25, -47, 189, 99, -182, -203, 159, -26, 34, -88, 36, -205, 122,
+                91, -79, 104, 49, 40, -62, 67, 100, -114, -52, -13, 12, -30, -37, -98, 161, 61, 107, -163, 14, -20, 4,
+                -49, 136, -16, -84, 28, -80, -40, -69, -78, 89, 99, 38, 55, 100, -16, -42, -374, 91, 159, -26, 122, -48,
+                5, -78, 42, 48, 15, -58, 86, 21, 6, -91, -83, 111, 38, -52, 63, -24, 95, 1, 76, -40, -20, -25, -50, -57,
+                -26, 62, -40, -38, -58, 77, 94, -30, 5, -201, 192, -53, 45, 100, -45, -90, -170, 3, -105, 81, 152, 22,
+                121, 69, -60, -41, 17, -58, 40, 45, 2, 47, 18, -30, 10, 105, 39, -111, -65, 32, -73, 30, 175, -166,
+                -133, 159, -10, -188, 89, 83, 96, -36, 13, -37, -6, 152, 3, 59, 30, -1, -157, -55, -16, -74, -1, 128,
+                89, -10, -190, 180, -107, 113, 158, -140, 45, -80, -30, -47, -5, 28, 96, -149, 49, 4, 53, -33, -34, -76,
+                -133, 44, -160, 0, 197, 8, 135, 37, 173, -24, 36, -303, 114, 62, -80, -65, -2, 6, 146, -54, -38, -66,
+                86, -134, 66, 102, -25, 28, 40, -24, -38, 40, -240, 10, 6, 195, -6, -98, 107, 22, 24, -81, -97, -51, 54,
+                42, 102, -13, -23, -112, 81, 242, -120, 49, -90, 38, 86, -102, 176, -51, -22, -55, -57, 10, -106, 281,
+                -63, 31, -65, -112, 38, -177, -69, 141, 72, 123, -78, -76, 78, -117, 39, 146, 15, 48, -65, -90, 39, 70,
+                -39, 96, 151, -108, -145, -59, 48, 120, -74, -33, -6, 66, -13, -102, 57, 55, 40, -25, -52, -108, 53, 57,
+                -5, -11, 66, -37, 154, 6, -110, -51, -3, -90, -94, 48, 62, -41, 61, -20, 88, -6, 1, 82, 5, -61, 49, -87,
+                30, 28, 0, -31, 29, -64, -33, 21, 62, 63, -87, 4, 9, 21, 54, -65, 14, 9, 141, -46, 60, -25, 34, -29,
+                -129, 85, -103, 89, -3, -83, -26, 34, 23, 2, 3, 6, 34, 39, -15, -53, -2, 58, -29, -7, 43, 49, -96, 20,
+                -24, 302, -37, -101, -17, -106, -6, -28, 8, -26, 159, -8, 17, -55, 27, -28, -72, -6, -59, 121, -76, -5,
+                -19, 74, -15, -16, -16, 11, 63, -44, -18, -90, 125, 38, 88, -12, -11, -71, -56, 89, -51, 23, 12, 23,
+                106, -92, 3, -44, -17, 31, 25, -65, 82, 16, 12, -52, -36, -62, -16, 37, 70, -30, -9, -37, 62,
+            ],
+            [
+                131, 36, -174, -71, -45, 142, -96, 94, 4, 1, -207, -61, -127, 185, -89, 312, 3, -596, -79, 157, -9, 195,
+                217, 130, -48, -136, 48, 108, 64, 180, -50, -150, 86, 334, -257, -203, -131, 114, 123, -49, 124, -35,
+                -130, 146, -61, 42, 67, -136, -84, -137, 18, 42, 132, 132, -32, -53, -23, -200, -21, 343, -8, 11, 13,
+                -98, -128, 107, -100, 105, -270, 154, 118, 31, -71, -346, -123, 76, 0, 20, 157, 305, -56, -22, 139, 37,
+                -84, -64, 36, 32, 484, -50, -148, -6, -187, -118, -34, 77, 77, -196, 18, -134, 395, 111, 35, -289, -89,
+                84, -156, -163, 284, 144, 73, -162, -267, -8, -127, -36, 69, 535, -105, -43, -23, 73, -192, 68, -81,
+                105, -17, 84, 305, -35, -42, 116, -89, -207, 77, -109, -82, 17, -31, 0, -101, 173, 25, 15, 149, 46, 199,
+                40, -88, -49, -103, -176, -191, -67, 147, -27, 150, -28, 5, 27, 395, -166, -7, -99, 14, -113, -75, 67,
+                -79, 25, -57, 179, -3, 213, 63, -323, 5, -169, 14, 98, -30, 170, 53, -123, -151, -158, 70, -160, 126,
+                61, 50, 178, -164, 125, -71, 78, -32, 112, -46, 15, -46, 64, 86, 67, -64, 134, 2, -225, 22, -74, 121,
+                -40, -117, 56, 248, -199, 305, 190, 48, 86, -127, -74, -337, -75, -118, 140, -66, 179, 54, -105, 178,
+                -245, -112, 21, -5, 107, -17, 69, 37, -82, 30, 111, -42, 117, 312, -355, -2, -153, -307, 130, -125, 73,
+                194, 415, -81, -281, -253, 53, -269, 20, 136, 69, 549, -288, -659, 71, -75, -66, 61, 37, 450, 199, 65,
+                2, -7, 74, -114, -81, 230, -152, -145, -237, 308, 54, -26, 36, 7, 20, -285, -134, 28, -64, -1, 218, 91,
+                166, -67, -76, 115, -42, -198, 297, 23, -34, -17, -58, 11, 38, -99, -93, 330, -94, 159, 34, -1, -218,
+                -79, 142, -79, 61, -43, 192, 56, -118, -25, -68, -6, 29, 222, -58, 35, -185, -17, 68, -62, 15, 67, -39,
+                232, -30, -247, -265, 275, 24, -103, 0, -131, -135, 15, 59, 207, 105, -116, 229, -103, -8, -44, -19,
+                -12, 89, -100, 103, -80, -121, 190, -181, -138, 344, -354, 120, -138, -22, -16, 190, -34, 271, -75,
+                -303, -93, 7, 91, 63, 15, 313, -284, -102, -452, -169, 65, 34, 298, 628, 272, -270, 56, -192, 56, -13,
+                127, -18, -7, 147, -113, -114, -2, 104, -60, 62, 203, -172, -2, -32, 113, 147, -273, 34, 177, 38, 509,
+                -198, -217, -127, -83, -82, 106, 51, 45, 191, 108, 107, -423, -167, 245, 160, -3, 106, 80, -104, -89,
+                -378, -286, -128, -66, -146, 282, 161, 161, 38, -315, 90, 298, 4, -259, 47, 3, 150, -85, 142, -225, -87,
+                -80, 2, 54, 297, -112, 205, 20, 110, -177, 65, -99, 6, 6, -90, 125, -177, 180, -48, -79, 100, -319, 211,
+                8, 203, -5, 74, -262, 108, -85, -188, 200, -152, 253, -50, 12, 28, 152, 314, -63, -215, -33, -42, -78,
+                -18, -17, 253, -72, 69, 72, 126, -305, -110, -75, -128, 50, 47, -59, -13, 460, -265, -312, -86, 1000,
+                371, -309, -420, -179, -48, -187, 136, -73, -541, -101, -145, 272, 655, 119, -89, -135, -286, 90, -104,
+                339, 83, -107, -517, 66, 49, 55, 88, 427, -45, 71, 21, 128, -37, -99, -72, 40, -35, -33, -78, -310,
+                -258, 357, -164, 161, 341, 78, 287, 70, 125, -307, -235, 152, -153, -3, -67, 83, -242, 420, -180, -88,
+                95, -80, 9, 204, -405, -127, 267, 47, 101, 94, 18, 168, 435, -297, -14, -92, -296, -88, -7, -241, 85,
+                291, 271, -134, -161, 12, 120, 4, -131, 369, -78, -153, -126, 209, -175, 60, 140, -97, 75, -59, -135,
+                -32, 6, 142, -115, -163, 174, -72, 78, -152, 0, 61, 58, -1, 160, -142, 34, -93, -59, 4, -17, -64, 161,
+                23, 61, 33, 60, 102, -102, -83, -8, -110, 124, -17, -77, -173, 8, 78, 23, 101, 75, 28, -174, 124, -76,
+                40, -28, 8, 95, 71, 147, -94, 61, -73, -62, 15, -48, -25, 221, 30, 15, -1, 86, -153, -157, -170, -50,
+                99, -85, 16, -16, 34, 189, 139, -238, 268, -2, -180, -104, 98, 37, 41, 165, 49, -56, 14, -136, -114, 53,
+                -40, -20, -29, -132, 252, -100, 90, -5, 143, -8, -53, -103, -26, 96, -126, 94, 97, -66, 42, -168, -69,
+                12, 39, 130, -129, 64, -144, 187, 30, -61, 45, 26, 113, -130, -14, -158, -33, 214, 80, -55, 117, -43,
+                -91, 26, 33, 9, 110, -144, 89, 207, -204, -8, -25, 97, -275, 137, 55, 158, 144, -19, -42, -316, -134,
+                172, -41, -123, 140, 153, 25, 198, -229, -105, 222, 74, 159, 158, -125, -370, -194, 94, 112, 194, -67,
+                -221, -97, 90, -83, 89, -209, 41, -89, 25, -51, 93, 47, 159, -22, 324, -129, -123, -28, 35, -77, 37, 2,
+                -178, 38, 110, 90, 31, -72, -3, 79, 182, -413, 7, 85, 238, -134, -27, -290, 89, 32, 312, 60, -96, 112,
+                -202, 21, 209, 184, 36, -338, -3, -152, 62, -43, 30, 156, 64, -236, 105, -186, 128, -73, -6, 58, -137,
+                80, 14, 107, -25, -65, -16, 60, -98, 125, -14, 74, -50, 57, 24, 0, 223, -255, 44, -46, -29, -151, -253,
+                45, 355, 30, 61, 101, -172, 241, -8, -158, 103, 46, -213, -40, 46, 329, 33, 39, -214, 48, -92, -7, -120,
+                -20, 91, -164, 142, -36, 70, -82, 17, 157, 26, 34, -158, -113, 200, -199, 69, -196, 16, 153, -176, 73,
+                56, 41, 50, 58, 184, -219, -255, 181, 45, 197, -174, 60, 8, 111, 147, -54, -33, -77, -145, -56, -112,
+                123, -32, 18, 85, -130, 121, -93, 22, 143, -108, -28, -163, 129, 115, 227, -82, 78, 44, 18, -274, -101,
+                105, -20, 132, -116, 78, -124, -38, -24, 130, 212, 35, 240, -261, -164, -115, -2, 72, 179, 243, -398,
+                -72, 70, -45, 44, -3, 130, -102, 81, -51, 4, -39, 43, -48, 49, 20, -117, 158, -334, -4, 7, 236, -194,
+                -87, 491, 268, -33, -135, -63, -230, -214, 62, 363, 151, -59, -110, -206, 30, -1, 178, -108, 78, 211,
+                13, -367, 14, 20, -119, -189, 84, -95, -138, -6, 460, -385, -189, -64, -62, 343, 148, -36, 262, -18,
+                177, 82, 73, -102, -180, 17, -33, 50, -243, -115, 155, -1, 69, -23, 125, -318, -67, 11, 53, 167, -56,
+                33, 194, -170, 168, 53, 280, -122, 4, 11, -207, -122, 51, -108, 198, -64, 26, 43, -8, -24, 156, 31,
+                -142, 133, 87, -198, -25, -100, 119, -271, -69, 71, -85, 428, -75, 156, 22, -92, 51, -244, -163, 386,
+                -98, 47, 3, -83, -19, 141, -71, -17, 16, -69, -24, 52, -5, 48, -51, 130, -65, -106, -62, 63, 4, 67, -64,
+                75, 41, 139, -23, -45, 61, 58, -41, -94, -40, -7, -141, 85, 70, -54, 4, 216, -156, 31, 27, -114, -10, 6,
+                39, -14, 52, 12, 280, 12, 150, -106, -138, -68, -125, 116, -49, -10, -60, -81, 159, -189, 132, 133, 36,
+                24, 61, -68, -141, -121, 93, 220, -7, 140, 51, -170, -100, -78, -39, -49, 125, -112, -102, 39, -291,
+                172, 235, -6, 21, -14, -237, -8, 101, 131, 29, -140, 80, 142, 44, -41, 11, 76, -154, 39, 49, -34, -200,
+                127, -45, -10, 90, 139, -73, -218, -87, 177, 6, 124, -49, 292, 51, -105, 2, 38, 81, -236, -105,
+            ],
+            [
+                91, -103, 80, 415, 226, -372, -29, -255, 263, -50, 75, 127, -288, 84, -339, 180, -196, 52, 29, 70, 217,
+                77, -16, -179, 93, 575, -304, -10, -292, -22, 72, -59, 773, -404, -670, 42, -225, 74, 148, 315, 81, -31,
+                -74, 264, -103, 157, -185, -56, -51, 363, -3, 14, 152, -246, -18, -158, -72, -131, 261, 9, 140, -140,
+                113, -127, -403, 74, 337, 363, -96, 34, -212, -44, -74, -77, 325, -66, -32, -210, 118, 68, 125, 128,
+                -85, 18, -153, 129, -189, 80, 290, 275, 99, -1, -429, -52, -102, -27, 50, -97, -104, -8, 110, -189,
+                -130, 420, -168, -144, -77, -107, 156, -163, 206, 350, -175, 336, -43, 33, -144, -252, -33, 331, -183,
+                -15, -453, 246, 375, -8, 130, -39, -391, 170, 3, 208, -14, -3, 20, 61, -77, -293, 155, 324, -560, 259,
+                246, 0, -206, -119, 269, 315, -386, 204, -54, 30, 4, 82, 495, -194, 201, -52, -82, -402, 128, 63, 205,
+                166, -354, -127, 5, -32, -223, -178, 598, 480, -87, -288, -72, -177, 504, -74, 302, 17, -263, -392, 144,
+                -185, -249, 13, -72, -228, 10, -61, 612, 27, 337, -293, 386, 191, 89, 1, -466, -192, 89, 112, 163, 18,
+                -104, 65, -253, -37, 125, 33, -32, -123, -263, 69, -166, 411, -268, -16, -125, -317, 132, 375, 83, 190,
+                -225, -167, -129, 349, 201, -66, 2, 88, -151, -192, -107, 22, 160, 17, 262, 41, 556, -186, -80, 41,
+                -120, -35, -290, 166, -756, -54, 40, 134, 253, -293, 357, 372, 10, -29, -41, 56, -63, 101, -67, 86,
+                -375, 140, 236, 357, 1, 128, -234, -199, -70, -52, -172, -111, 153, -104, -69, 476, 256, 253, -356,
+                -422, -148, -35, 284, 221, 388, 234, -12, -171, -81, -22, -172, -112, 136, -53, 166, -307, 256, -258,
+                64, 48, -64, -141, 449, -336, -39, 162, -159, 183, -148, 201, -82, 157, -504, 156, 79, 194, -79, 293,
+                -303, 226, 53, -209, 47, 25, 61, 533, 63, 75, -328, -329, 12, -33, -257, -57, 508, -356, -198, -87, 399,
+                101, 33, -249, 17, -291, -70, 458, 29, 125, 187, -157, 64, -167, -106, 190, -71, 113, 89, 49, -220, 36,
+                159, 59, 2, -122, 300, -81, -44, -140, -31, 297, -78, -171, 7, 88, 97, 85, -200, 15, 2, -41, -70, 66,
+                -49, -51, 28, 52, -44, 121, -39, 145, -27, 215, 1, -149, -16, -76, -45, 91, -308, 97, 104, 157, -27,
+                -15, 275, -53, -83, -115, -19, 387, -268, -71, -224, 126, 63, 443, 101, -301, -176, 21, -89, -218, 119,
+                -125, 22, -1, 23, 322, 161, -50, 31, 131, -328, 167, 145, -205, 4, -78, -96, -279, 150, 321, 46, -15,
+                160, 42, -400, -235, -4, 133, 238, 118, 256, 144, 264, -16, 99, -106, -10, -579, 26, 90, 63, -207, -46,
+                -77, 22, 180, -142, 146, -83, -257, 189, 8, 62, 129, 222, -38, -236, -11, -195, -2, 115, 199, 128, 12,
+                -104, 207, -102, -196, 159, -50, -62, 73, 91, 243, -253, -23, 42, -58, -241, -373, -75, 463, -232, 342,
+                163, 5, -31, -170, -69, 263, 114, 18, 82, -155, -11, -265, 419, -236, 51, 40, 0, 55, 8, 16, 105, 161,
+                -344, -40, 16, 130, 80, -26, 47, 126, 107, -166, -235, 120, -223, 8, 163, -238, -46, 147, 107, 135,
+                -108, 69, -145, -53, 391, 17, -84, -33, 343, 151, -79, 116, -9, -161, -194, -113, 146, 35, -187, 132,
+                143, -246, -82, 113, 156, -432, 65, -68, 80, 223, 126, -97, -83, -107, 241, 145, -2, -22, -161, 42, 86,
+                -12, 71, -167, 70, -3, 87, -79, 109, 89, -92, -55, -495, 17, 49, 432, -28, 348, -360, -19, 176, -66, 83,
+                -81, 18, -88, -173, -22, 65, -138, 128, 262, -54, -67, 213, 186, 198, 57, -155, -325, -38, -149, -211,
+                7, 45, 141, 192, 65, -321, 126, -70, -109, 169, -48, 84, 223, 145, 105, -64, -152, 2, -377, 180, 215,
+                -209, -94, 301, -18, -180, -203, 188, 268, 205, -407, 271, -133, 57, 154, -246, 152, 177, 257, -139,
+                -122, 191, -52, 51, -311, 188, 88, 30, -203, 118, -202, 212, -178, -131, 98, 6, 195, 54, -256, -91, 178,
+                -26, -251, 482, -60, 235, -38, -287, -3, -37, -241, 273, 42, -139, -27, -74, 256, -45, 102, 175, 115,
+                -279, 127, 95, -237, -256, -157, 262, 15, -20, 12, -34, 230, 264, -15, -29, 350, -222, -403, -131, 239,
+                9, 62, -58, 323, -133, -109, 25, -66, -244, -161, -111, -144, 380, 55, 112, 167, 50, -127, -74, -140,
+                -35, -24, 129, 273, 89, 56, -115, -181, 221, -67, 59, -9, -107, -114, 97, -12, -4, 145, -17, 66, 69, 86,
+                44, 8, 337, -51, -324, -115, 96, -84, -98, -338, -366, 657, 207, -21, 121, -63, 78, 66, 214, -92, 104,
+                -377, 48, 4, 53, -149, 125, 32, -34, -26, -127, 93, -283, -27, 156, -2, 289, -46, -281, 0, -20, 26, 11,
+                167, 149, 1, 152, 65, 302, 227, -72, -370, -246, -5, -3, 139, 457, -62, -56, -162, -43, -216, 40, -144,
+                -37, -34, 149, -28, 86, 21, 173, 100, 195, -42, 67, 15, -113, -343, -163, -59, -58, 221, -111, 182, -76,
+                118, 41, -115, 156, 235, -93, 347, -378, -140, -11, -33, -125, 544, 75, -228, -85, -84, 305, 120, 114,
+                17, -208, -25, -338, 67, -20, -5, 162, -28, 110, 160, -262, -64, 64, -160, 71, -44, 329, -37, -64, -105,
+                -329, 29, -106, -134, 62, 211, -71, 391, -26, -242, 23, 133, -13, -14, 4, 189, 135, 198, 190, -376,
+                -157, 184, -246, 125, 13, 77, -40, -71, -93, 46, 165, -44, 77, -142, 383, -173, 168, 70, -192, -139,
+                -114, 157, 196, -51, -179, -31, 115, -40, 128, -163, -112, 106, 5, -197, 131, 155, 77, 66, 181, -22,
+                -143, -157, -22, 73, -280, -53, -75, -91, -5, 233, 93, 231, 190, -147, -88, -53, -132, 105, 107, 72,
+                -184, 63, -53, -85, 89, 51, -23, 194, 117, 114, 134, -139, 84, -112, 25, -171, 91, -199, -322, -51, 31,
+                -27, 232, 298, -141, 94, 235, -6, -81, -106, 158, -100, -41, 13, -18, 432, -313, -50, -75, 105, 177, 43,
+                186, -182, -81, 30, -235, 116, 41, -77, 90, 74, -70, -285, -92, 372, -141, 147, 174, -50, -57, -46,
+                -128, 155, -12, -35, 216, 321, -138, 70, -302, -67, 280, 60, 46, -29, -107, 85, -184, -97, -131, 16,
+                -124, -50, 138, 146, -140, 198, 162, 315, -339, -216, 0, 158, 97, -122, 427, -345, -103, 586, -250,
+                -272, -88, 97, 507, -120, 122, -117, -104, -78, -55, -103, -16, 299, -97, -39, -264, -300, 222, 248,
+                413, -155, 81, -45, -11, 89, -184, -135, -166, -68, -22, 79, 563, -97, -144, -92, -81, -67, -10, 46,
+                126, -16, -8, 63, -170, 11, 283, 1, -56, -41, -99, 122, -85, 225, -80, -60, 35, -189, 137, 70, -430,
+                234, 12, 398, -4, -58, -108, 8, -114, -19, 21, -77, 140, -113, 115, 101, 184, -393, 149, 110, 191, -203,
+                -158, 173, -237, 219, -40, 59, 226, 263, -224, -213, -404, -6, 51, -101, -14, -26, 276, 277, -16, -460,
+                31, 90, 218, 281, -204, 113, 170, -213, 343, -287, 191, -333, 213, -32, 486, 670, -284, 325, -823, -264,
+                -95, 37, -190, -368, 518, -139, 656, 124, -666, 118, 409, 683, -68, 1000, -324, -450, -514, -682, 133,
+                -597, 525, 57, -443, -10, 153, 236, 438, -392, 530, -235, -412, -129, 209, 44,
+            ],
+            [
+                102, 422, 62, 117, -264, -470, -22, 62, 212, 343, 651, 208, -174, -571, -250, -410, 315, 853, -173, 148,
+                -374, -133, -395, -233, -85, 37, -215, 65, 151, 237, -131, -51, -390, 579, -970, -436, 332, 92, 476,
+                326, 130, 9, -198, -141, 38, -8, -9, 186, 82, -77, -54, -112, 130, 374, -46, -289, 336, 450, -612, -174,
+                -55, -273, 53, 283, 676, 7, 38, -172, -206, -23, -314, 2, 71, -80, 14, -19, -99, 129, -17, 7, -134,
+                -203, 143, 402, 77, -243, -82, 49, -298, -401, 418, 66, 0, 123, -29, 129, -12, -245, 431, -103, 400,
+                -126, -306, -31, 89, 66, 66, 78, 2, 43, -113, -221, 252, 199, 178, 104, 63, -730, 355, -413, 38, -71,
+                -165, 33, 243, 132, -101, -101, -161, 7, 173, 262, 70, -100, -11, -232, 68, -38, -232, 257, -208, 137,
+                -165, 189, 35, -153, 132, -72, -119, 609, -294, -130, 28, 193, -30, 55, -321, -57, 38, 103, -5, 185,
+                -19, -110, -39, -89, 9, 76, 20, -522, 13, -26, -155, 533, -37, 182, -95, 205, -158, -45, 6, 1, 13, 80,
+                248, -99, 99, 136, -80, -127, -18, -151, 89, 313, -595, 243, 103, -160, -20, 35, 38, -20, 87, -70, -245,
+                -25, 194, 49, 91, 315, 47, -46, -106, -323, 59, -28, 84, 236, -367, -252, -75, 490, -108, 1, 239, 186,
+                -186, 101, -62, -212, -203, 146, -116, 51, 262, 19, -36, -70, 19, -120, 132, -237, -100, 123, 10, -56,
+                50, 87, 240, -99, -177, -174, -56, -255, 81, 449, -153, 244, 132, -144, -201, -85, 172, 44, 213, 153,
+                -124, -143, 74, 139, -145, -158, -122, -81, -45, -96, 325, 338, -379, 69, -276, -27, -137, -227, 469,
+                205, -189, 191, -36, 423, -162, -72, 128, -180, -8, -85, -286, -78, 257, -55, 362, -367, -4, 180, -121,
+                422, 173, -236, 25, -172, 1, -85, -28, 233, -9, -364, 452, 80, -168, -187, -189, 122, 820, -2, -521, 9,
+                -39, -192, 58, 461, 116, -373, 16, -202, -201, 134, -220, 38, 520, -93, -53, -62, -42, -79, -98, -95,
+                -208, 31, 385, 253, -300, 40, 89, 13, 36, 140, -51, -6, 22, -234, 406, -139, -33, -284, -160, -19, 162,
+                76, -15, 15, -39, -59, -24, 351, -251, 30, -154, -186, -5, -173, 45, 10, 227, 244, 335, 8, -267, -467,
+                -180, 53, 283, 246, -48, -406, 1, 224, -155, 31, 237, 127, 72, -50, -41, -120, 193, -168, 37, 86, 156,
+                -243, -142, -433, 531, 446, -72, -233, 13, -421, 141, -379, 149, 234, 30, 243, 167, 256, 38, 83, -294,
+                -1, 23, -264, 106, 5, 78, -74, -346, 4, -141, 377, 7, 166, -314, 400, -275, 403, -219, -160, -236, 163,
+                376, -97, -219, 30, 188, -197, 123, 330, -423, 272, -368, -32, 14, 93, -120, -112, -188, 101, -412, 184,
+                351, 204, 321, -125, 324, 84, -299, -442, -15, 162, 339, 59, -241, 488, -141, -234, -57, -204, 302, 159,
+                148, -93, -471, -111, 26, 49, 196, -861, 181, 213, -18, -152, 410, 38, 386, 193, 408, -285, -300, -263,
+                -7, -124, 207, -97, -37, -176, 127, -555, 17, 522, -5, -225, -849, 978, -119, 254, -234, 208, 113, 46,
+                491, -111, 318, -356, -230, -262, 163, -109, 370, -288, -205, 129, 193, -246, -150, 503, -477, 474, -77,
+                -204, 23, -83, -326, 87, 35, -44, 78, 399, -315, 94, 81, 473, 440, -822, 55, 29, -388, 139, 100, 39,
+                -53, -48, 27, 70, -69, -59, 166, 157, -29, -307, 301, -134, -142, -5, 68, -43, -119, 74, 191, -144, 38,
+                -57, 246, 11, -56, -119, 188, -366, -81, 185, 16, 53, -186, -327, 558, -273, -258, 426, 93, 149, 36,
+                -235, -18, -67, 101, -51, 149, 213, 61, 281, -97, -221, -415, 38, 58, 21, 428, 178, -625, 205, -110,
+                -146, 182, -339, -421, -551, 341, 204, 182, 411, 171, 117, -7, -13, 163, -456, -82, 116, -251, -522,
+                313, 298, 131, 29, -4, 14, -109, 107, -63, -11, 183, 51, 37, -186, -113, 280, 19, 299, -201, 65, -314,
+                -27, 105, -112, -172, 84, -27, 119, -100, 111, -34, 188, -81, 134, -215, 73, -71, 15, 24, 104, -66,
+                -149, 178, -74, 59, -68, -104, 14, -155, 182, -210, 212, 162, -92, 274, 29, 289, -72, -132, -143, 19,
+                -254, 96, -67, 79, 75, -33, -30, -144, 32, 83, -8, 57, -403, -34, 519, -327, 122, 166, 26, -22, -232,
+                69, 70, -221, 153, 207, 22, 19, -145, 248, -26, -244, -73, 6, 228, 262, 164, -224, -64, -183, -181, 26,
+                -342, -33, 325, 104, 20, 8, -99, -187, 142, 453, 193, -315, -233, 42, -86, 121, -271, -205, -64, 180,
+                281, -69, 35, 11, 84, 147, -77, -290, 409, -562, 286, 137, -156, 112, 324, 279, -297, 50, -441, -11,
+                -143, 68, 101, 185, 78, -168, -101, 385, 67, -14, -51, 212, -184, -170, -237, 2, -48, -264, 73, 52, 19,
+                107, 68, -134, 87, -62, 273, -40, 229, -264, -81, 575, 9, 348, 187, -37, -452, -359, -262, -31, -156,
+                24, -489, 434, 64, -93, 256, 187, -174, -85, 154, -380, 379, -170, 97, 172, 205, -142, -179, 181, -215,
+                249, -262, -87, 217, 125, -122, 116, -3, -177, -61, -247, 76, 43, 82, 272, -302, 338, -253, -172, 99,
+                153, -893, 29, 24, 160, 608, -209, -134, -166, 231, 17, 180, -159, 249, -54, 0, -352, -404, -2, 520, 60,
+                239, 281, 120, 177, 32, -292, -372, 104, -42, -90, -63, 124, -193, 75, 84, -42, 113, 369, -155, -334,
+                150, -277, -13, 171, 97, -310, -705, -73, -325, 243, 839, 132, 207, 35, -74, -403, -212, 121, -58, 800,
+                -199, 364, 38, -190, 257, 20, -211, -243, -27, 15, -15, 111, 551, -73, -193, -329, -60, -11, 422, -38,
+                305, 24, -281, -290, -124, 419, -154, 7, -165, 117, -347, 50, 80, 12, -185, 598, 34, -202, -249, 48,
+                -47, 146, 323, -1000, -122, 379, 119, 241, -77, -2, 536, -612, 284, 229, 11, 18, -456, 143, -102, 81,
+                -23, -198, 1, -103, 209, -7, 239, 114, -84, -342, 140, -23, -29, -246, 10, 35, 209, -33, 168, -317, 182,
+                -333, -85, 410, -31, 264, 11, -189, -37, -109, -132, 0, -222, 436, 78, 46, -87, 39, -533, 11, -29, -96,
+                -102, -80, 799, -93, -166, -99, -147, 423, 200, -74, -37, -379, 229, 509, 242, -299, -303, 114, -104,
+                217, -92, 87, -190, -16, 64, 33, -95, -244, 2, 176, -243, 261, -103, 53, 105, -41, -113, -47, 385, 21,
+                -186, -164, 153, -219, -219, 513, 866, -335, -328, -75, -194, -596, -89, -191, 343, -76, 349, 329, -61,
+                565, -412, -61, -5, -254, -354, 240, 290, -125, -281, 158, -92, 25, 450, -214, 87, -255, 165, 40, 274,
+                102, -424, 244, -137, -410, 241, -521, 90, -144, 457, 37, 258, 53, -51, 211, -99, -163, -33, 26, 63,
+                317, -117, -40, -168, 19, -5, -46, 48, 145, 3, -156, 192, 8, 45, -244, 15, -98, -383, 112, 96, 114, 271,
+                -25, -79, -178, 547, -266, -355, 194, 156, -125, 35, -618, 4, 389, 12, 31, 209, -143, 124, -461, 45,
+                131, 395, -153, -154, 402, -199, 113, -307, 1, -416, 139, 505, -133, 107, 334, 190, -166, -445, -1,
+                -708, 510, 294, -118, -81, 231, -16, 79, 56, -236, 93, 17, -114, 123, -295, 257, 254, -265, 31, 45, 31,
+                92, 17, 57, -222, -114, 102, -188, 92, -89, -206, 100, 63, -68, 306, 33, -160, 203, 75, -39, -19, -128,
+                44,
+            ],
+        ]
+    ),
+    createStage(
+        3,
+        4,
+        0.15,
+        300,
+        [
+            [
+                [
+                    [4.6153, 1.1593, 0.9644, 0.7013, 25],
+                    [5.8964, 4.4709, 0.6445, 0.6247, 40],
+                    [0.9355, 2.8977, 0.7417, 0.1499, -32],
+                    [3.0232, 1.3262, 0.2368, 0.8288, 20],
+                    [0.0747, 1.3524, 0.7531, 0.8457, 19],
+                    [4.7292, 1.6113, 0.5768, 0.5583, -27],
+                    [4.3706, 1.1798, 0.4756, 0.5277, 17],
+                ],
+                [
+                    [1.3267, 3.7908, 0.4987, 0.3492, -30],
+                    [0.8312, 1.7018, 0.4227, 0.6596, -40],
+                    [0.8614, 1.7169, 0.7307, 0.6739, 47],
+                    [4.8151, 5.8847, 0.8772, 0.3823, 41],
+                    [1.1056, 4.08, 0.6118, 0.477, -12],
+                    [2.8427, 3.095, 0.81, 0.5382, -41],
+                    [0.8485, 4.3144, 0.9634, 0.2183, 94],
+                ],
+                [
+                    [5.4586, 3.2331, 0.5478, 0.1403, 28],
+                    [3.0054, 1.3026, 0.1792, 0.558, 33],
+                    [3.6454, 0.9051, 0.3521, 0.5157, -44],
+                    [0.8577, 3.4846, 0.7141, 0.39, -7],
+                    [0.7726, 4.8085, 0.5735, 0.9413, -33],
+                    [1.4712, 1.0246, 0.6774, 0.9981, -7],
+                    [1.5202, 0.4827, 0.5174, 0.4984, -6],
+                ],
+                [
+                    [4.401, 5.0819, 0.8281, 0.8256, -34],
+                    [0.5797, 4.6009, 0.4588, 0.6024, 30],
+                    [4.3184, 6.1996, 0.7247, 0.1514, 44],
+                    [0.3936, 2.0901, 0.8719, 0.4368, 59],
+                    [4.8407, 1.5409, 0.2034, 0.5298, 7],
+                    [2.9818, 4.6763, 0.9474, 0.6292, 105],
+                    [1.8458, 3.1977, 0.5107, 0.6631, -32],
+                ],
+                [
+                    [0.4785, 2.5315, 0.9521, 0.3149, 61],
+                    [1.025, 1.8175, 0.9557, 0.8299, -26],
+                    [0.2019, 1.8449, 0.864, 0.2556, 60],
+                    [1.9632, 0.8972, 0.4196, 0.4593, 11],
+                    [4.3454, 0.9123, 0.8748, 0.811, 20],
+                    [5.3743, 4.573, 0.8088, 0.6607, 90],
+                    [0.0359, 1.3159, 0.8662, 0.4602, 47],
+                ],
+            ],
+            [
+                [
+                    [1.233, 0.0207, 0.8006, 0.7724, 27],
+                    [4.8571, 6.1097, 0.2523, 0.6586, -46],
+                    [1.1462, 0.3195, 0.7343, 0.8316, 33],
+                    [5.5008, 4.5602, 0.9161, 0.5265, 59],
+                    [2.4128, 5.4384, 0.0731, 0.4961, 24],
+                    [5.9531, 4.2518, 0.7566, 0.6888, -23],
+                    [5.7457, 3.6889, 0.0455, 0.32, -35],
+                ],
+                [
+                    [2.2024, 4.0585, 0.951, 0.1933, -80],
+                    [2.2977, 2.9179, 0.2471, 0.9842, 28],
+                    [2.4011, 1.858, 0.9125, 0.251, 66],
+                    [4.4131, 5.2416, 0.6342, 0.5292, 25],
+                    [0.7949, 3.7359, 0.8038, 0.3965, 54],
+                    [5.9329, 1.0394, 0.8848, 0.3996, -19],
+                    [3.0302, 0.6547, 0.7495, 0.4248, 32],
+                ],
+                [
+                    [3.9536, 3.5485, 0.3168, 0.7145, 29],
+                    [1.6423, 2.7403, 0.0834, 0.621, -59],
+                    [3.96, 5.8763, 0.1231, 0.8998, 46],
+                    [3.5061, 3.7275, 0.9037, 0.2662, 60],
+                    [0.0507, 4.4389, 0.7027, 0.4904, -24],
+                    [4.4695, 6.0774, 0.7862, 0.7244, -35],
+                    [1.1733, 0.0627, 0.3324, 0.3865, 68],
+                ],
+                [
+                    [1.4698, 6.1812, 0.2839, 0.6134, 35],
+                    [5.8417, 4.2141, 0.6828, 0.4269, 30],
+                    [0.6744, 1.0359, 0.6744, 0.3195, -25],
+                    [6.1375, 4.3291, 0.9656, 0.9482, -25],
+                    [5.3606, 4.4678, 0.9626, 0.4475, 42],
+                    [0.7867, 0.3922, 0.3036, 0.8821, 22],
+                    [5.2559, 3.8587, 0.7164, 0.9812, -46],
+                ],
+                [
+                    [1.3638, 5.0085, 0.8436, 0.782, 30],
+                    [4.9174, 4.2206, 0.6535, 0.3478, 79],
+                    [1.0856, 0.577, 0.8809, 0.8453, 8],
+                    [3.1792, 2.0612, 0.7167, 0.2655, -53],
+                    [0.8581, 1.0416, 0.7724, 0.3675, 23],
+                    [3.9477, 0.2284, 0.2057, 0.6514, 10],
+                    [3.3018, 1.1342, 0.5937, 0.3802, 20],
+                ],
+            ],
+            [
+                [
+                    [4.4585, 4.7192, 0.1562, 0.9719, 12],
+                    [5.9282, 4.5071, 0.5895, 0.5538, 26],
+                    [5.603, 4.716, 0.6222, 0.4937, -31],
+                    [2.1089, 1.3468, 0.9043, 0.4019, 37],
+                    [3.9387, 5.3036, 0.5805, 0.6219, -17],
+                    [3.455, 0.5278, 0.3984, 0.2279, 70],
+                    [0.1216, 0.6416, 0.6702, 0.1856, -39],
+                ],
+                [
+                    [5.5035, 0.4488, 0.1032, 0.7385, 42],
+                    [4.3436, 5.583, 0.8251, 0.9417, -39],
+                    [5.1838, 5.1377, 0.6414, 0.2137, -19],
+                    [4.5267, 0.4417, 0.6808, 0.8918, -42],
+                    [3.6715, 3.958, 0.9693, 0.3008, -31],
+                    [1.2543, 0.1885, 0.7145, 0.5167, 38],
+                    [0.6178, 4.8169, 0.5224, 0.9474, -59],
+                ],
+                [
+                    [2.445, 1.7469, 0.6625, 0.1339, 40],
+                    [0.6489, 5.7614, 0.1613, 0.926, 19],
+                    [3.2568, 4.2247, 0.8311, 0.3616, 38],
+                    [4.5638, 0.7185, 0.5681, 0.9232, -17],
+                    [0.2498, 6.064, 0.6513, 0.1461, -38],
+                    [0.5328, 1.7498, 0.6089, 0.7555, -65],
+                    [0.4368, 0.835, 0.711, 0.6801, -33],
+                ],
+                [
+                    [0.9596, 4.97, 0.0924, 0.8611, 52],
+                    [6.0556, 4.1555, 0.7106, 0.3222, 37],
+                    [3.7699, 4.6397, 0.6631, 0.3548, 20],
+                    [6.133, 3.0869, 0.6306, 0.6664, 69],
+                    [5.3423, 6.185, 0.144, 0.8648, -49],
+                    [0.32, 5.4901, 0.344, 0.5358, 26],
+                    [3.9253, 4.0957, 0.6463, 0.4476, 18],
+                ],
+                [
+                    [6.2764, 4.4288, 0.753, 0.2268, -45],
+                    [5.4811, 4.8571, 0.8678, 0.4142, -15],
+                    [5.8223, 4.4283, 0.8125, 0.5106, 45],
+                    [5.6215, 4.6641, 0.4667, 0.4191, -20],
+                    [0.7434, 3.7524, 0.0926, 0.9887, -23],
+                    [2.4164, 2.8192, 0.0898, 0.532, 52],
+                    [4.7505, 0.3015, 0.474, 0.7562, -8],
+                ],
+            ],
+            [
+                [
+                    [6.1824, 0.4486, 0.8213, 0.3219, -46],
+                    [5.8974, 4.5966, 0.1863, 0.6617, 5],
+                    [5.1071, 0.3658, 0.2879, 0.3792, -5],
+                    [1.4589, 4.8633, 0.546, 0.7203, -22],
+                    [1.9752, 5.3295, 0.8921, 0.2414, 24],
+                    [5.7695, 0.2221, 0.8347, 0.4417, 6],
+                    [3.8385, 0.1723, 0.5654, 0.8339, 0],
+                ],
+                [
+                    [6.0374, 0.5987, 0.986, 0.5048, -5],
+                    [4.1589, 5.6292, 0.4164, 0.9267, 38],
+                    [4.427, 6.1225, 0.121, 0.7783, -10],
+                    [1.5821, 0.4312, 0.809, 0.5236, 33],
+                    [5.8983, 0.1022, 0.6061, 0.2028, 6],
+                    [6.0728, 4.5547, 0.6761, 0.2771, 0],
+                    [5.0857, 3.9903, 0.6039, 0.1761, -49],
+                ],
+                [
+                    [6.0449, 0.8068, 0.7785, 0.2882, -7],
+                    [4.5871, 4.1125, 0.895, 0.3756, -10],
+                    [0.5488, 1.8407, 0.7773, 0.1221, 37],
+                    [5.8685, 5.2966, 0.706, 0.1386, -23],
+                    [4.0807, 4.5245, 0.125, 0.4569, 0],
+                    [1.5545, 2.0007, 0.8428, 0.1165, 13],
+                    [1.7545, 5.1204, 0.7481, 0.934, -41],
+                ],
+                [
+                    [0.0709, 0.3728, 0.5453, 0.6631, -6],
+                    [5.5226, 5.2514, 0.1648, 0.762, 22],
+                    [0.2016, 3.9029, 0.8395, 0.5054, 5],
+                    [1.331, 0.3645, 0.9463, 0.479, 22],
+                    [0.0779, 3.2827, 0.8706, 0.6551, 94],
+                    [5.3473, 4.142, 0.3953, 0.7101, -32],
+                    [4.4521, 0.497, 0.2566, 0.8658, -8],
+                ],
+                [
+                    [5.4048, 6.1469, 0.6458, 0.1121, -10],
+                    [5.9729, 0.7612, 0.6335, 0.3693, -27],
+                    [4.0531, 6.166, 0.9175, 0.7866, -8],
+                    [3.5152, 4.302, 0.9348, 0.4379, 57],
+                    [4.8534, 5.9597, 0.0933, 0.8913, 15],
+                    [4.4175, 0.1285, 0.8435, 0.9838, -12],
+                    [5.8558, 4.5722, 0.8743, 0.7939, -16],
+                ],
+            ],
+            [
+                [
+                    [3.89, 4.3532, 0.0476, 0.9906, 5],
+                    [3.4343, 2.4307, 0.3891, 0.9957, -3],
+                    [3.1095, 6.0343, 0.4995, 0.2756, 34],
+                    [0.1118, 1.4928, 0.2089, 0.6204, -5],
+                    [4.9954, 4.4243, 0.9117, 0.539, -1],
+                    [3.8033, 4.8494, 0.4972, 0.8914, 10],
+                    [3.4815, 0.4094, 0.4725, 0.7109, -30],
+                ],
+                [
+                    [6.0688, 5.0456, 0.296, 0.8774, 0],
+                    [0.1263, 1.8512, 0.236, 0.8299, -12],
+                    [3.7073, 4.7499, 0.4581, 0.8131, 10],
+                    [3.5817, 5.3057, 0.107, 0.6949, 1],
+                    [5.8599, 4.3916, 0.1432, 0.9247, 0],
+                    [0.5826, 3.6107, 0.6912, 0.355, 20],
+                    [5.6046, 3.9958, 0.5262, 0.3104, 9],
+                ],
+                [
+                    [5.539, 4.3331, 0.4669, 0.8408, 0],
+                    [5.5324, 5.1716, 0.0557, 0.8007, 1],
+                    [3.4986, 5.1132, 0.4061, 0.9112, 3],
+                    [3.3568, 1.7283, 0.4946, 0.6709, -20],
+                    [3.6698, 5.8308, 0.2275, 0.4364, 8],
+                    [4.2937, 0.0189, 0.9487, 0.5158, 0],
+                    [3.79, 5.4938, 0.6599, 0.2785, -2],
+                ],
+                [
+                    [4.5401, 4.1141, 0.8161, 0.4702, 6],
+                    [5.1091, 3.7171, 0.9172, 0.4905, -11],
+                    [4.7511, 3.4299, 0.7525, 0.3753, -9],
+                    [3.9729, 5.6314, 0.5956, 0.2523, -6],
+                    [4.3208, 6.2012, 0.7387, 0.228, -4],
+                    [4.2109, 5.7804, 0.7409, 0.439, -1],
+                    [3.9877, 5.913, 0.7246, 0.3296, 0],
+                ],
+                [
+                    [5.2972, 4.9109, 0.2964, 0.9804, 15],
+                    [3.3332, 1.7529, 0.1186, 0.9677, -8],
+                    [4.0649, 5.2051, 0.4879, 0.9991, -12],
+                    [0.2846, 4.0457, 0.0757, 0.7673, 16],
+                    [4.8579, 2.077, 0.8755, 0.1842, 9],
+                    [0.5066, 4.2094, 0.4271, 0.6655, 11],
+                    [3.1343, 4.2765, 0.7019, 0.5874, 8],
+                ],
+            ],
+            [
+                [
+                    [3.6723, 5.1325, 0.4584, 0.8141, -55],
+                    [2.6122, 3.94, 0.1679, 0.8835, -21],
+                    [2.8752, 4.7148, 0.896, 0.3725, 12],
+                    [3.4864, 0.5654, 0.985, 0.9847, -29],
+                    [2.9009, 2.1813, 0.4436, 0.4946, -49],
+                    [2.6688, 5.3332, 0.6924, 0.7091, 8],
+                    [0.3214, 3.9089, 0.8851, 0.8858, 16],
+                ],
+                [
+                    [4.2542, 5.1816, 0.5956, 0.4114, -6],
+                    [0.8137, 3.5772, 0.6059, 0.3685, 7],
+                    [5.1651, 3.4982, 0.4325, 0.5757, -16],
+                    [2.0257, 1.76, 0.8608, 0.4578, 12],
+                    [3.1992, 4.2728, 0.2154, 0.4911, 17],
+                    [2.8631, 4.9483, 0.8709, 0.3902, -8],
+                    [3.4478, 2.5686, 0.9696, 0.6774, -3],
+                ],
+                [
+                    [2.8102, 4.0845, 0.1857, 0.4551, 2],
+                    [5.2802, 3.0697, 0.5373, 0.9867, -7],
+                    [5.0276, 4.8523, 0.4238, 0.9303, 29],
+                    [2.8116, 4.3761, 0.9112, 0.2152, 15],
+                    [1.7742, 2.3109, 0.8614, 0.3641, 16],
+                    [2.2735, 2.3889, 0.814, 0.1, 24],
+                    [3.6125, 5.1588, 0.757, 0.3348, -59],
+                ],
+                [
+                    [5.3695, 1.5078, 0.7925, 0.082, -16],
+                    [2.8249, 2.2349, 0.6973, 0.788, -4],
+                    [4.8707, 5.396, 0.9991, 0.4997, -74],
+                    [3.7398, 3.2138, 0.0337, 0.9273, 71],
+                    [4.5469, 4.7607, 0.7738, 0.7076, -11],
+                    [3.2684, 5.1342, 0.7019, 0.5881, -72],
+                    [2.5768, 2.0982, 0.5325, 0.9566, -8],
+                ],
+                [
+                    [2.6427, 5.0492, 0.4731, 0.9792, 11],
+                    [3.3087, 2.5973, 0.9732, 0.6086, -5],
+                    [5.0577, 2.9746, 0.8083, 0.7281, -34],
+                    [4.1439, 5.1567, 0.861, 0.8726, -52],
+                    [2.8467, 1.5731, 0.9883, 0.5652, -4],
+                    [5.4839, 3.1796, 0.9274, 0.8312, -4],
+                    [5.3928, 2.4541, 0.4216, 0.8771, -7],
+                ],
+            ],
+            [
+                [
+                    [5.7047, 1.4513, 0.0478, 0.8261, -24],
+                    [6.275, 1.9869, 0.4977, 0.2062, 66],
+                    [0.4967, 2.067, 0.4447, 0.3311, -26],
+                    [0.6415, 1.9751, 0.605, 0.48, 55],
+                    [5.1801, 4.6178, 0.6494, 0.8569, 37],
+                    [0.4731, 5.1468, 0.5532, 0.4692, -37],
+                    [4.5853, 4.736, 0.9242, 0.5063, -6],
+                ],
+                [
+                    [3.6093, 4.2884, 0.0151, 0.9316, 1],
+                    [3.0757, 2.0386, 0.6706, 0.1786, 48],
+                    [3.4879, 3.9169, 0.1766, 0.7392, 40],
+                    [1.2702, 5.9377, 0.7175, 0.1679, 40],
+                    [2.555, 2.5444, 0.2923, 0.9623, -1],
+                    [3.9564, 3.9621, 0.3887, 0.1417, -9],
+                    [2.7309, 4.5745, 0.9726, 0.4571, -54],
+                ],
+                [
+                    [4.3144, 2.4867, 0.5118, 0.2155, -10],
+                    [3.6554, 4.6953, 0.8985, 0.1666, -31],
+                    [5.0611, 2.6563, 0.5192, 0.7097, -22],
+                    [3.5601, 2.5951, 0.1895, 0.864, 45],
+                    [4.8889, 5.6833, 0.9274, 0.9719, 99],
+                    [3.9327, 4.6407, 0.8312, 0.1603, 67],
+                    [5.0167, 3.4305, 0.3994, 0.9574, 23],
+                ],
+                [
+                    [4.9578, 3.3496, 0.5135, 0.3184, 59],
+                    [5.3143, 2.6336, 0.265, 0.9005, -30],
+                    [3.7686, 3.7082, 0.1167, 0.3494, 64],
+                    [4.9344, 3.9331, 0.2153, 0.8163, -50],
+                    [3.9288, 3.2867, 0.6319, 0.0089, -23],
+                    [5.8895, 0.7126, 0.2521, 0.9896, 0],
+                    [3.0263, 1.9701, 0.1134, 0.8735, 28],
+                ],
+                [
+                    [4.6997, 3.5334, 0.2713, 0.3682, 26],
+                    [4.8359, 3.0325, 0.8887, 0.6601, -37],
+                    [4.4866, 4.7285, 0.8206, 0.3344, -24],
+                    [3.9595, 3.1477, 0.308, 0.6339, -32],
+                    [1.0284, 5.9642, 0.0662, 0.7428, -32],
+                    [4.4581, 3.3662, 0.8188, 0.1547, -52],
+                    [1.8962, 4.8102, 0.96, 0.6923, -15],
+                ],
+            ],
+            [
+                [
+                    [1.8457, 0.5318, 0.2501, 0.8435, -30],
+                    [2.6377, 0.849, 0.4917, 0.1044, -45],
+                    [5.1874, 5.7691, 0.5761, 0.9673, 63],
+                    [2.0367, 4.5081, 0.4872, 0.9103, 35],
+                    [6.2211, 5.3319, 0.9937, 0.5965, 31],
+                    [0.5292, 5.0561, 0.6535, 0.6803, -18],
+                    [1.2494, 1.0474, 0.2865, 0.6438, 72],
+                ],
+                [
+                    [1.371, 0.2501, 0.3164, 0.7129, -61],
+                    [5.7828, 0.2474, 0.3113, 0.83, -24],
+                    [0.2583, 5.3068, 0.5546, 0.6498, -34],
+                    [4.0418, 3.1752, 0.7597, 0.7406, 28],
+                    [2.3823, 2.9785, 0.9458, 0.9484, -55],
+                    [5.2892, 5.5959, 0.739, 0.9135, 65],
+                    [2.6299, 2.222, 0.7446, 0.1445, -19],
+                ],
+                [
+                    [5.0567, 3.8094, 0.4547, 0.8863, -34],
+                    [4.2478, 4.2591, 0.1715, 0.8232, -70],
+                    [5.1559, 3.7881, 0.8226, 0.6605, 24],
+                    [2.6609, 5.2872, 0.682, 0.6821, -3],
+                    [4.6846, 2.3863, 0.2309, 0.4446, -18],
+                    [0.0698, 0.2419, 0.3397, 0.9964, -35],
+                    [4.6835, 3.6069, 0.3262, 0.6349, 30],
+                ],
+                [
+                    [3.7545, 1.8434, 0.6353, 0.7931, -24],
+                    [2.5911, 2.3118, 0.6697, 0.3045, -15],
+                    [4.8931, 3.7542, 0.5573, 0.6251, -37],
+                    [4.6883, 2.8751, 0.7504, 0.9634, 55],
+                    [4.5372, 2.0568, 0.9315, 0.984, -33],
+                    [4.0342, 5.2488, 0.6246, 0.565, 12],
+                    [5.5012, 0.8446, 0.1955, 0.944, -19],
+                ],
+                [
+                    [1.4641, 2.7553, 0.0691, 0.6818, 16],
+                    [3.0334, 5.8726, 0.8289, 0.1314, 27],
+                    [2.0624, 3.7319, 0.2959, 0.9116, 52],
+                    [3.025, 1.1859, 0.9838, 0.2339, -10],
+                    [4.98, 2.8413, 0.1836, 0.9928, -59],
+                    [2.9573, 0.7712, 0.7909, 0.1342, -13],
+                    [0.7197, 4.0582, 0.9397, 0.1292, 56],
+                ],
+            ],
+            [
+                [
+                    [2.7727, 0.4105, 0.2871, 0.1229, 50],
+                    [2.9255, 1.061, 0.4683, 0.4708, -55],
+                    [2.2933, 4.7809, 0.4176, 0.3208, 18],
+                    [1.1512, 1.9915, 0.5585, 0.9089, -7],
+                    [2.7153, 1.2972, 0.9914, 0.7837, 40],
+                    [1.6867, 1.161, 0.9618, 0.9777, -60],
+                    [4.548, 5.0239, 0.4154, 0.9976, 49],
+                ],
+                [
+                    [0.1828, 6.0962, 0.4755, 0.9525, -35],
+                    [2.1556, 0.9224, 0.2217, 0.551, 37],
+                    [5.7634, 5.7952, 0.5747, 0.9431, 61],
+                    [5.202, 3.5226, 0.6184, 0.8343, 119],
+                    [4.589, 2.0808, 0.7752, 0.1224, 0],
+                    [0.2548, 5.0143, 0.8736, 0.5468, -85],
+                    [5.8898, 2.6514, 0.7223, 0.9724, 16],
+                ],
+                [
+                    [5.4296, 5.6397, 0.6365, 0.8858, -34],
+                    [1.4492, 2.16, 0.8897, 0.697, 65],
+                    [0.5883, 0.6562, 0.8834, 0.4992, -46],
+                    [2.4429, 5.7154, 0.5497, 0.3264, 18],
+                    [3.2374, 2.895, 0.8098, 0.3959, -41],
+                    [6.1136, 4.6849, 0.7714, 0.5434, 19],
+                    [2.8695, 1.6819, 0.7538, 0.5479, 55],
+                ],
+                [
+                    [5.8826, 1.7815, 0.3693, 0.6543, 53],
+                    [4.8416, 3.9567, 0.972, 0.6866, -37],
+                    [1.0101, 1.5025, 0.9328, 0.7435, 35],
+                    [2.4886, 5.0262, 0.8702, 0.5419, 65],
+                    [0.4663, 2.0818, 0.4097, 0.6893, 33],
+                    [4.021, 4.7394, 0.4335, 0.6253, -37],
+                    [1.4053, 4.8415, 0.9574, 0.8725, 59],
+                ],
+                [
+                    [2.3952, 0.6373, 0.8235, 0.2796, 62],
+                    [1.5323, 2.3585, 0.8176, 0.7861, 46],
+                    [5.8772, 2.3936, 0.1368, 0.673, -25],
+                    [5.5232, 2.2773, 0.4408, 0.9233, 15],
+                    [1.3508, 3.5943, 0.7512, 0.6369, 49],
+                    [4.1424, 1.9934, 0.7513, 0.518, 40],
+                    [3.2681, 0.4124, 0.8123, 0.3952, -47],
+                ],
+            ],
+            [
+                [
+                    [1.1815, 5.5025, 0.1446, 0.6231, -26],
+                    [5.0554, 1.7479, 0.8556, 0.1636, 30],
+                    [5.1128, 5.1727, 0.2658, 0.5777, -8],
+                    [5.6494, 4.7802, 0.5515, 0.7337, -10],
+                    [5.4177, 0.9526, 0.1697, 0.9204, 8],
+                    [3.9874, 2.273, 0.1987, 0.4259, -12],
+                    [0.0655, 2.2343, 0.3323, 0.2644, -58],
+                ],
+                [
+                    [1.3293, 5.5498, 0.0631, 0.3791, 16],
+                    [3.8248, 0.3357, 0.1118, 0.2521, 22],
+                    [5.1063, 4.067, 0.8872, 0.1413, 27],
+                    [5.0288, 4.4011, 0.1136, 0.6117, -22],
+                    [5.4002, 5.2586, 0.0672, 0.9493, -30],
+                    [6.2655, 0.9463, 0.2801, 0.6607, -19],
+                    [3.223, 3.4905, 0.2615, 0.5959, -32],
+                ],
+                [
+                    [6.1374, 0.3062, 0.3785, 0.6203, 4],
+                    [4.9861, 2.6619, 0.5479, 0.0943, 19],
+                    [1.4865, 5.0648, 0.8553, 0.2017, 7],
+                    [0.8869, 4.024, 0.1404, 0.0934, -30],
+                    [5.3445, 0.084, 0.2139, 0.4061, 41],
+                    [4.9814, 1.4556, 0.2519, 0.8223, 9],
+                    [4.9001, 5.9211, 0.1644, 0.3547, -5],
+                ],
+                [
+                    [5.2125, 5.1765, 0.1505, 0.981, -32],
+                    [3.8819, 4.987, 0.1397, 0.6099, -23],
+                    [1.4564, 0.2198, 0.5183, 0.1753, 35],
+                    [5.3383, 4.6405, 0.2689, 0.5066, -7],
+                    [5.7622, 2.0795, 0.5353, 0.0952, -34],
+                    [1.1326, 5.5045, 0.2213, 0.6714, 21],
+                    [0.3949, 1.4739, 0.5993, 0.2468, 0],
+                ],
+                [
+                    [6.1061, 5.423, 0.3506, 0.2242, -12],
+                    [0.6796, 5.9683, 0.1563, 0.4638, 10],
+                    [4.3684, 5.1255, 0.1714, 0.6365, -11],
+                    [1.6872, 1.4268, 0.1932, 0.5983, -4],
+                    [0.9537, 0.5203, 0.086, 0.4548, 2],
+                    [2.2012, 3.3339, 0.2943, 0.1514, 28],
+                    [0.749, 0.1117, 0.531, 0.0943, -5],
+                ],
+            ],
+            [
+                [
+                    [4.433, 3.9557, 0.4689, 0.1072, 37],
+                    [6.181, 0.9615, 0.4345, 0.3389, 40],
+                    [4.3628, 4.8601, 0.575, 0.1517, 54],
+                    [0.6949, 0.6431, 0.9231, 0.2811, 6],
+                    [1.9037, 2.927, 0.4023, 0.2916, -11],
+                    [4.6203, 0.3078, 0.1072, 0.859, 11],
+                    [5.6009, 3.8497, 0.2855, 0.255, 9],
+                ],
+                [
+                    [0.7313, 6.2182, 0.2315, 0.2743, -18],
+                    [3.0018, 0.315, 0.2224, 0.8477, 33],
+                    [3.2904, 1.2514, 0.1893, 0.1835, -8],
+                    [4.0238, 5.2349, 0.1117, 0.704, -17],
+                    [0.9016, 2.8324, 0.3241, 0.4269, -49],
+                    [0.5939, 0.7185, 0.1593, 0.638, -5],
+                    [0.9094, 2.2819, 0.8034, 0.4773, 79],
+                ],
+                [
+                    [5.7286, 5.5558, 0.8913, 0.2045, 23],
+                    [0.7598, 5.5797, 0.3019, 0.1203, -18],
+                    [0.6588, 4.5894, 0.5238, 0.1569, 2],
+                    [2.8077, 6.2269, 0.317, 0.3465, -40],
+                    [5.6875, 3.3048, 0.3457, 0.1731, 24],
+                    [6.2716, 2.5676, 0.1301, 0.1189, 26],
+                    [3.7577, 2.2843, 0.2282, 0.0747, -8],
+                ],
+                [
+                    [0.4517, 3.9274, 0.4527, 0.0895, -1],
+                    [0.0045, 5.5858, 0.2982, 0.5099, -36],
+                    [5.0831, 4.0812, 0.5229, 0.2155, 21],
+                    [0.683, 6.2499, 0.9957, 0.2516, 28],
+                    [4.7039, 1.7959, 0.255, 0.2722, 10],
+                    [5.6152, 6.0649, 0.7494, 0.3437, 38],
+                    [0.7795, 0.4925, 0.8527, 0.1547, 8],
+                ],
+                [
+                    [3.6143, 0.455, 0.1031, 0.6622, 20],
+                    [1.504, 3.061, 0.1611, 0.37, -15],
+                    [6.2815, 2.3021, 0.3065, 0.4714, 14],
+                    [6.115, 2.8028, 0.2901, 0.3974, 23],
+                    [4.1232, 0.5585, 0.0908, 0.1728, -21],
+                    [0.2298, 3.4102, 0.5511, 0.2147, -64],
+                    [0.2375, 2.6949, 0.471, 0.294, 4],
+                ],
+            ],
+            [
+                [
+                    [3.7839, 3.1059, 0.4113, 0.661, 0],
+                    [6.2249, 5.9948, 0.8841, 0.1471, 0],
+                    [1.3124, 5.3091, 0.1162, 0.6541, -38],
+                    [2.1937, 2.7964, 0.3102, 0.1247, 59],
+                    [2.4887, 2.4612, 0.4626, 0.0984, 8],
+                    [4.5496, 5.1669, 0.9471, 0.0886, 50],
+                    [5.6436, 6.0109, 0.1389, 0.7996, -28],
+                ],
+                [
+                    [4.4143, 0.0178, 0.1489, 0.9808, 29],
+                    [5.5083, 4.0532, 0.3088, 0.2224, 48],
+                    [4.8683, 0.8405, 0.7575, 0.1084, 42],
+                    [0.9997, 4.3348, 0.1018, 0.1865, -27],
+                    [0.2932, 5.975, 0.7714, 0.0561, 59],
+                    [1.1653, 0.6009, 0.1291, 0.7623, -5],
+                    [1.8836, 0.3664, 0.2079, 0.1743, -27],
+                ],
+                [
+                    [1.2327, 2.9818, 0.3309, 0.2045, 29],
+                    [1.0938, 3.6928, 0.0067, 0.5483, 17],
+                    [3.6446, 0.8216, 0.3634, 0.1057, 2],
+                    [4.1943, 4.9975, 0.1527, 0.3078, -29],
+                    [5.0926, 2.9635, 0.1602, 0.3693, -16],
+                    [5.0584, 3.9541, 0.616, 0.2491, 42],
+                    [5.8934, 1.0361, 0.8826, 0.1752, 44],
+                ],
+                [
+                    [2.7004, 0.7115, 0.1629, 0.7861, -36],
+                    [5.1279, 5.8397, 0.7174, 0.1384, 46],
+                    [0.039, 4.3864, 0.7835, 0.2109, 22],
+                    [0.1805, 0.4757, 0.4875, 0.1156, 26],
+                    [3.7026, 0.8877, 0.7199, 0.1793, 48],
+                    [0.5174, 0.3824, 0.1413, 0.8662, 0],
+                    [6.0039, 5.861, 0.6062, 0.1399, 10],
+                ],
+                [
+                    [3.6797, 3.394, 0.4452, 0.135, -4],
+                    [5.1284, 3.9596, 0.8067, 0.2399, 49],
+                    [2.3156, 3.6875, 0.1271, 0.5055, -44],
+                    [3.1525, 0.9071, 0.682, 0.7582, -29],
+                    [3.9486, 5.5806, 0.8592, 0.1342, 39],
+                    [0.2632, 0.5342, 0.8768, 0.09, 10],
+                    [0.5838, 3.4246, 0.0948, 0.6659, 27],
+                ],
+            ],
+            [
+                [
+                    [5.5852, 3.7796, 0.2885, 0.4896, -45],
+                    [4.29, 3.4697, 0.4179, 0.0599, 29],
+                    [5.4042, 0.3753, 0.2891, 0.1394, 36],
+                    [3.6694, 5.6998, 0.1519, 0.2405, 44],
+                    [3.0376, 4.0627, 0.1546, 0.3705, -51],
+                    [4.2245, 4.9784, 0.805, 0.1956, 14],
+                    [1.3259, 3.1817, 0.1321, 0.9513, 8],
+                ],
+                [
+                    [4.9572, 5.1199, 0.1129, 0.6422, -43],
+                    [6.2385, 5.7115, 0.0955, 0.2259, 9],
+                    [1.5836, 3.8884, 0.0911, 0.7117, -36],
+                    [3.0575, 6.2179, 0.1077, 0.3078, 65],
+                    [3.7189, 0.3757, 0.1767, 0.3837, 7],
+                    [1.9849, 5.6082, 0.1426, 0.5379, -34],
+                    [0.0249, 2.1103, 0.3033, 0.673, -19],
+                ],
+                [
+                    [5.0883, 1.6832, 0.146, 0.0678, 26],
+                    [0.4676, 2.9517, 0.1853, 0.0991, -4],
+                    [4.0203, 2.246, 0.6079, 0.1406, 54],
+                    [5.1177, 5.2353, 0.8294, 0.299, 29],
+                    [2.2351, 3.1314, 0.611, 0.1915, 1],
+                    [5.9049, 2.925, 0.2718, 0.723, -23],
+                    [2.0275, 2.7345, 0.1925, 0.725, -58],
+                ],
+                [
+                    [5.8632, 0.4502, 0.5671, 0.2251, -3],
+                    [3.5065, 3.346, 0.1672, 0.7555, -49],
+                    [3.2659, 1.9502, 0.8945, 0.1876, -6],
+                    [5.1606, 3.6846, 0.9439, 0.1917, 51],
+                    [2.3812, 3.7833, 0.8368, 0.026, 18],
+                    [0.5384, 0.2021, 0.5338, 0.2189, 5],
+                    [5.8947, 6.2254, 0.2912, 0.5525, 33],
+                ],
+                [
+                    [2.3104, 5.2432, 0.9308, 0.2066, 3],
+                    [1.9539, 3.2637, 0.142, 0.7708, -9],
+                    [5.1655, 4.66, 0.8168, 0.1739, 37],
+                    [2.9346, 0.2321, 0.4263, 0.3063, 41],
+                    [5.5391, 3.6929, 0.1591, 0.9263, -23],
+                    [0.5459, 0.8629, 0.5676, 0.2395, 2],
+                    [3.9638, 3.5892, 0.4518, 0.1242, 65],
+                ],
+            ],
+            [
+                [
+                    [0.6643, 3.15, 0.2956, 0.2701, -2],
+                    [1.856, 3.608, 0.2424, 0.2606, -18],
+                    [1.0283, 5.8105, 0.52, 0.1811, -18],
+                    [0.022, 4.1983, 0.2137, 0.5961, -36],
+                    [3.9587, 4.5974, 0.1874, 0.4982, -24],
+                    [0.6386, 3.2187, 0.7401, 0.4807, -41],
+                    [0.5721, 3.4994, 0.2236, 0.2626, 7],
+                ],
+                [
+                    [4.451, 3.6027, 0.5112, 0.27, 29],
+                    [1.0198, 0.1735, 0.182, 0.5472, -9],
+                    [1.4655, 3.8591, 0.2311, 0.1804, -19],
+                    [1.8575, 1.9672, 0.6826, 0.2695, -12],
+                    [5.993, 2.6084, 0.2237, 0.8684, 9],
+                    [0.8933, 5.7122, 0.1811, 0.1846, -39],
+                    [2.1348, 5.6295, 0.0897, 0.2808, -9],
+                ],
+                [
+                    [3.7361, 4.8558, 0.7539, 0.1126, 36],
+                    [5.5961, 0.9671, 0.3226, 0.2304, -13],
+                    [1.3926, 3.3472, 0.1181, 0.9142, -45],
+                    [2.7319, 2.441, 0.5601, 0.8354, -19],
+                    [0.1321, 1.0281, 0.1018, 0.1053, 2],
+                    [5.7854, 1.3279, 0.1943, 0.7297, 22],
+                    [1.733, 5.8048, 0.2192, 0.2788, 5],
+                ],
+                [
+                    [5.5993, 3.9746, 0.1197, 0.8104, -45],
+                    [4.1505, 4.9621, 0.1686, 0.6822, -51],
+                    [1.1405, 2.565, 0.014, 0.5228, 25],
+                    [2.2332, 5.4768, 0.5205, 0.2837, 10],
+                    [2.2825, 3.515, 0.1757, 0.2423, -17],
+                    [5.209, 0.7886, 0.1978, 0.3081, 22],
+                    [1.6339, 3.0958, 0.1945, 0.7536, -41],
+                ],
+                [
+                    [3.3485, 3.8748, 0.2928, 0.6658, -21],
+                    [3.5421, 1.1241, 0.2353, 0.7423, 0],
+                    [1.9386, 1.4855, 0.2109, 0.6586, -9],
+                    [4.2483, 5.8368, 0.7324, 0.3162, 26],
+                    [3.7033, 1.1314, 0.1578, 0.3107, 2],
+                    [0.6659, 0.274, 0.813, 0.5629, 11],
+                    [6.2175, 1.344, 0.228, 0.2704, -7],
+                ],
+            ],
+            [
+                [
+                    [4.4795, 4.2515, 0.6067, 0.2221, 36],
+                    [3.9204, 3.0659, 0.2779, 0.2281, 10],
+                    [5.0202, 3.2419, 0.2504, 0.1194, -4],
+                    [2.8468, 2.1809, 0.6783, 0.1413, -12],
+                    [1.6766, 2.2958, 0.0579, 0.3089, -7],
+                    [5.6733, 3.3851, 0.1585, 0.1803, -54],
+                    [6.1979, 4.3258, 0.0785, 0.8933, -78],
+                ],
+                [
+                    [2.216, 3.7935, 0.1338, 0.8219, -31],
+                    [4.6268, 3.8269, 0.5095, 0.1477, 40],
+                    [1.0503, 6.145, 0.9864, 0.1393, 20],
+                    [2.9328, 3.0727, 0.9179, 0.4209, 3],
+                    [0.467, 1.2637, 0.1249, 0.6223, -3],
+                    [3.974, 3.3251, 0.5255, 0.4768, 29],
+                    [6.1628, 2.7595, 0.0946, 0.899, 36],
+                ],
+                [
+                    [3.3064, 3.7583, 0.3803, 0.5205, 16],
+                    [3.4739, 4.2901, 0.8889, 0.1443, -14],
+                    [1.5602, 6.2211, 0.7772, 0.0557, 34],
+                    [1.8366, 1.2477, 0.0924, 0.5083, -8],
+                    [2.8736, 2.5972, 0.2779, 0.5495, 0],
+                    [2.8255, 3.0153, 0.4922, 0.1909, 8],
+                    [0.6336, 1.0251, 0.3255, 0.6532, 1],
+                ],
+                [
+                    [1.9146, 3.8831, 0.1319, 0.5829, -21],
+                    [4.1748, 3.2827, 0.1195, 0.3971, 8],
+                    [4.489, 5.7482, 0.7585, 0.078, 30],
+                    [1.2743, 0.5822, 0.8109, 0.128, 29],
+                    [2.7753, 5.1914, 0.2173, 0.0155, -24],
+                    [4.6514, 3.3554, 0.2284, 0.4097, -9],
+                    [5.3933, 3.8653, 0.1251, 0.7655, -43],
+                ],
+                [
+                    [3.9018, 0.6787, 0.4098, 0.0294, -8],
+                    [1.2633, 2.7169, 0.4444, 0.2218, 35],
+                    [4.6391, 2.9602, 0.1052, 0.3177, 5],
+                    [4.9057, 5.5728, 0.5379, 0.2295, 10],
+                    [2.5926, 1.504, 0.2829, 0.2983, -32],
+                    [0.7526, 1.4274, 0.1371, 0.554, -4],
+                    [1.8671, 1.0166, 0.5885, 0.1326, 13],
+                ],
+            ],
+            [
+                [
+                    [5.252, 2.8858, 0.8699, 0.366, -5],
+                    [3.9514, 4.5728, 0.3095, 0.7077, 13],
+                    [5.3335, 1.1849, 0.6634, 0.4302, 2],
+                    [5.1051, 4.8177, 0.7685, 0.2755, -10],
+                    [1.0261, 4.7513, 0.8818, 0.986, 21],
+                    [4.1847, 1.3888, 0.7135, 0.987, -8],
+                    [6.1973, 1.5447, 0.7487, 0.3278, -38],
+                ],
+                [
+                    [5.2907, 2.4182, 0.9314, 0.8894, -10],
+                    [1.4863, 3.4041, 0.5854, 0.9235, 47],
+                    [4.1623, 1.0229, 0.7951, 0.7887, -22],
+                    [4.1136, 1.308, 0.7397, 0.902, 0],
+                    [5.0767, 3.4837, 0.6902, 0.5215, 27],
+                    [1.5687, 0.4611, 0.4444, 0.9777, 10],
+                    [1.7443, 5.2544, 0.7638, 0.6383, 0],
+                ],
+                [
+                    [3.3361, 2.566, 0.874, 0.892, -57],
+                    [5.4955, 2.7053, 0.3657, 0.3264, 0],
+                    [5.1972, 0.9234, 0.6595, 0.3103, -12],
+                    [4.96, 3.3346, 0.7518, 0.357, 36],
+                    [5.1854, 1.0948, 0.8776, 0.7513, 4],
+                    [3.3005, 6.0194, 0.9682, 0.8546, 11],
+                    [5.5398, 4.3608, 0.5945, 0.6186, -35],
+                ],
+                [
+                    [6.0007, 4.0265, 0.1488, 0.6235, 9],
+                    [3.8292, 4.1964, 0.7953, 0.8781, -21],
+                    [1.8037, 4.232, 0.6411, 0.8129, -4],
+                    [2.5727, 5.2591, 0.3601, 0.9128, -8],
+                    [4.314, 5.7732, 0.8533, 0.6813, 16],
+                    [4.4175, 1.6574, 0.5506, 0.6798, -59],
+                    [4.3721, 4.702, 0.8244, 0.462, -34],
+                ],
+                [
+                    [2.5166, 5.3161, 0.6346, 0.8268, -16],
+                    [5.5092, 4.1743, 0.7949, 0.6993, 10],
+                    [4.9611, 1.5628, 0.3555, 0.5956, 12],
+                    [5.3439, 4.0665, 0.5277, 0.5884, -35],
+                    [4.332, 5.2567, 0.7368, 0.9672, -19],
+                    [4.0516, 3.4581, 0.6572, 0.9681, 19],
+                    [5.8911, 4.2227, 0.5521, 0.7328, 0],
+                ],
+            ],
+            [
+                [
+                    [0.4712, 3.43, 0.5619, 0.5907, -22],
+                    [0.5954, 3.9954, 0.5106, 0.7085, -29],
+                    [0.6458, 0.1575, 0.606, 0.619, -27],
+                    [0.3762, 4.6122, 0.6844, 0.698, -17],
+                    [0.438, 1.8076, 0.5882, 0.1906, -3],
+                    [0.2661, 5.8747, 0.3774, 0.8853, -21],
+                    [2.4121, 4.9006, 0.1142, 0.9254, -28],
+                ],
+                [
+                    [0.5187, 3.9198, 0.635, 0.9719, -4],
+                    [0.611, 3.6555, 0.6462, 0.4918, -28],
+                    [4.8989, 3.7621, 0.0168, 0.8991, -20],
+                    [0.035, 0.2698, 0.8781, 0.8648, 10],
+                    [5.7999, 0.688, 0.5828, 0.5024, 19],
+                    [3.6089, 6.2326, 0.8642, 0.052, 26],
+                    [0.1665, 0.3641, 0.7423, 0.4083, 6],
+                ],
+                [
+                    [5.5038, 0.4927, 0.7507, 0.6874, 17],
+                    [4.1286, 3.7432, 0.7512, 0.0952, 8],
+                    [5.631, 5.5894, 0.2709, 0.5058, -39],
+                    [4.3385, 0.7851, 0.9774, 0.5826, 19],
+                    [0.6712, 4.1276, 0.2308, 0.2188, -5],
+                    [4.2486, 5.3974, 0.7271, 0.2603, 25],
+                    [0.7713, 3.167, 0.5111, 0.7388, -20],
+                ],
+                [
+                    [0.6687, 3.7761, 0.5489, 0.9411, -14],
+                    [0.545, 4.2877, 0.7196, 0.7224, -28],
+                    [0.1401, 4.249, 0.315, 0.5103, -5],
+                    [6.1862, 5.5257, 0.9568, 0.0542, 3],
+                    [0.1074, 0.5344, 0.2317, 0.7521, 16],
+                    [0.1525, 1.2029, 0.287, 0.7332, 0],
+                    [5.9467, 2.1119, 0.331, 0.1514, 13],
+                ],
+                [
+                    [0.85, 3.9885, 0.5223, 0.6686, -29],
+                    [0.3824, 3.7982, 0.5958, 0.6, -23],
+                    [1.6374, 0.6028, 0.1347, 0.8884, 11],
+                    [4.3103, 5.5224, 0.1827, 0.9866, -13],
+                    [1.0118, 6.1266, 0.1168, 0.3321, 4],
+                    [0.5591, 5.181, 0.4262, 0.6838, -12],
+                    [0.8455, 4.1054, 0.4877, 0.405, -13],
+                ],
+            ],
+            [
+                [
+                    [1.0087, 5.0216, 0.1653, 0.9021, -24],
+                    [3.8922, 3.0853, 0.9741, 0.2261, -2],
+                    [0.3877, 0.1502, 0.1446, 0.5835, 19],
+                    [5.249, 2.3036, 0.7343, 0.6977, 32],
+                    [0.6868, 4.8418, 0.1256, 0.761, -17],
+                    [1.7832, 4.2394, 0.2455, 0.6088, -12],
+                    [1.2422, 5.4719, 0.2624, 0.5579, -30],
+                ],
+                [
+                    [1.9284, 6.1483, 0.1275, 0.9815, -16],
+                    [4.4277, 0.5983, 0.8425, 0.148, -1],
+                    [1.2895, 1.3979, 0.8698, 0.2704, -14],
+                    [0.8808, 2.3898, 0.6595, 0.5358, -4],
+                    [0.5569, 3.0213, 0.7415, 0.4659, 15],
+                    [1.4472, 3.4817, 0.3374, 0.9716, -14],
+                    [3.1778, 3.0667, 0.7372, 0.2027, -5],
+                ],
+                [
+                    [4.4411, 0.7257, 0.8192, 0.1922, 6],
+                    [2.2676, 0.78, 0.4795, 0.7874, 11],
+                    [1.6971, 5.3373, 0.112, 0.9554, -24],
+                    [2.7712, 0.5599, 0.6, 0.5118, 3],
+                    [1.2205, 3.3946, 0.371, 0.5454, -29],
+                    [4.343, 2.8884, 0.4131, 0.766, 13],
+                    [0.6897, 1.9962, 0.4124, 0.6191, -3],
+                ],
+                [
+                    [4.5445, 0.8573, 0.7085, 0.1621, 21],
+                    [3.6379, 3.0999, 0.2103, 0.5794, 10],
+                    [3.1021, 2.525, 0.2147, 0.6937, 15],
+                    [0.0367, 6.0507, 0.6633, 0.2808, -12],
+                    [1.5956, 4.6649, 0.222, 0.7324, 0],
+                    [2.4813, 1.8989, 0.6828, 0.0258, 17],
+                    [2.016, 6.0595, 0.1492, 0.2752, -3],
+                ],
+                [
+                    [1.9183, 4.7714, 0.2214, 0.8582, -27],
+                    [3.4774, 1.0401, 0.9498, 0.1071, 26],
+                    [1.4112, 2.2612, 0.5372, 0.6381, -5],
+                    [2.3364, 0.5887, 0.4165, 0.5636, -5],
+                    [3.4742, 0.6893, 0.6978, 0.5326, 37],
+                    [4.9445, 1.9313, 0.6491, 0.1623, 10],
+                    [1.4838, 1.8331, 0.5383, 0.3884, -2],
+                ],
+            ],
+            [
+                [
+                    [2.4435, 5.6093, 0.5736, 0.5648, -23],
+                    [2.9106, 1.8524, 0.2908, 0.3133, 21],
+                    [3.7561, 2.5235, 0.8261, 0.5688, 21],
+                    [4.7025, 2.7163, 0.9082, 0.7262, 14],
+                    [1.2069, 2.4575, 0.1194, 0.5991, 35],
+                    [1.6517, 1.9938, 0.2038, 0.4942, 2],
+                    [4.1705, 0.1537, 0.724, 0.1627, -15],
+                ],
+                [
+                    [2.5514, 4.3093, 0.6556, 0.7791, -16],
+                    [1.4216, 2.9916, 0.4516, 0.4335, 0],
+                    [4.1969, 0.7045, 0.2744, 0.0042, 24],
+                    [3.0669, 3.4648, 0.7458, 0.3063, 2],
+                    [2.3536, 0.9503, 0.3059, 0.5762, 0],
+                    [3.2249, 2.6282, 0.1973, 0.3233, -19],
+                    [2.3108, 5.8461, 0.6494, 0.9585, 39],
+                ],
+                [
+                    [2.4789, 5.5743, 0.6074, 0.883, -33],
+                    [2.2678, 1.9464, 0.7962, 0.4272, 0],
+                    [2.3909, 4.1324, 0.5775, 0.7797, 0],
+                    [5.2546, 2.7448, 0.2914, 0.888, 5],
+                    [1.4333, 0.4149, 0.4104, 0.5727, -14],
+                    [2.5358, 3.9182, 0.6299, 0.5391, -17],
+                    [4.77, 0.6691, 0.9643, 0.1244, -2],
+                ],
+                [
+                    [4.0596, 2.5412, 0.9295, 0.6901, 35],
+                    [5.6848, 2.3853, 0.4183, 0.5933, 20],
+                    [5.5607, 3.2215, 0.8877, 0.3603, 37],
+                    [1.9944, 3.7131, 0.088, 0.8321, -14],
+                    [4.069, 2.7028, 0.995, 0.7686, -2],
+                    [1.6298, 4.5292, 0.5573, 0.1847, 7],
+                    [0.2325, 3.9927, 0.3705, 0.789, -12],
+                ],
+                [
+                    [2.6585, 5.5683, 0.6887, 0.789, 0],
+                    [2.3985, 5.7706, 0.5901, 0.9027, -19],
+                    [2.3434, 4.0616, 0.6554, 0.7052, -10],
+                    [1.663, 2.4456, 0.442, 0.9694, 0],
+                    [1.6377, 2.246, 0.5415, 0.9808, -12],
+                    [2.6623, 1.6333, 0.3644, 0.6244, 11],
+                    [1.7614, 3.5301, 0.0516, 0.9958, -13],
+                ],
+            ],
+            [
+                [
+                    [6.0764, 5.3832, 0.636, 0.3194, 2],
+                    [5.0255, 0.4497, 0.4445, 0.3986, 8],
+                    [0.4184, 5.8108, 0.6369, 0.3643, 0],
+                    [0.2025, 3.4242, 0.6544, 0.4924, -23],
+                    [5.8462, 0.2453, 0.5988, 0.5135, 1],
+                    [4.6321, 2.0535, 0.69, 0.6667, 12],
+                    [0.3525, 5.5707, 0.3713, 0.4232, -17],
+                ],
+                [
+                    [0.1307, 4.764, 0.5209, 0.1767, -6],
+                    [0.1224, 5.725, 0.7199, 0.4406, 9],
+                    [4.6172, 0.4012, 0.3833, 0.2966, 35],
+                    [5.995, 0.4352, 0.6358, 0.4605, 3],
+                    [0.0971, 2.2507, 0.0736, 0.3986, 54],
+                    [6.0171, 6.0956, 0.5731, 0.2902, 0],
+                    [3.9468, 0.6925, 0.1704, 0.1081, 50],
+                ],
+                [
+                    [6.059, 0.132, 0.5854, 0.4842, -12],
+                    [6.0504, 2.8853, 0.688, 0.1732, -44],
+                    [5.1389, 0.1836, 0.5325, 0.4943, 31],
+                    [1.9715, 6.1693, 0.5431, 0.3988, 93],
+                    [0.2686, 6.0832, 0.2436, 0.6886, -2],
+                    [0.0569, 4.6918, 0.5206, 0.1756, -20],
+                    [0.4411, 0.1747, 0.326, 0.5006, 20],
+                ],
+                [
+                    [0.33, 5.1992, 0.5131, 0.2265, 10],
+                    [3.1624, 0.4201, 0.5638, 0.4007, 59],
+                    [5.6414, 5.408, 0.4391, 0.1187, 10],
+                    [5.7688, 6.2442, 0.495, 0.2173, 0],
+                    [5.0374, 6.1666, 0.1584, 0.8629, 10],
+                    [0.5279, 5.879, 0.2684, 0.7685, 15],
+                    [2.3413, 2.2389, 0.0381, 0.578, -55],
+                ],
+                [
+                    [5.8796, 0.5384, 0.7016, 0.3934, 8],
+                    [5.1293, 6.2383, 0.2734, 0.5979, 25],
+                    [3.9116, 0.2611, 0.1385, 0.5268, 21],
+                    [0.209, 5.7105, 0.5107, 0.451, 8],
+                    [0.126, 2.8982, 0.7282, 0.3946, -20],
+                    [0.6937, 5.4691, 0.3388, 0.2532, 10],
+                    [0.6657, 6.2594, 0.3082, 0.8509, -26],
+                ],
+            ],
+            [
+                [
+                    [0.8443, 5.782, 0.3208, 0.1706, -1],
+                    [1.993, 3.2855, 0.5157, 0.1199, 40],
+                    [2.4539, 5.8799, 0.5141, 0.2356, 55],
+                    [2.6151, 0.429, 0.2427, 0.8206, -37],
+                    [5.7572, 2.1157, 0.0973, 0.0475, 54],
+                    [1.6634, 5.9703, 0.234, 0.514, -4],
+                    [2.8005, 0.0997, 0.4834, 0.8009, -5],
+                ],
+                [
+                    [5.9657, 1.9194, 0.2611, 0.6733, -30],
+                    [4.9811, 2.7218, 0.054, 0.7005, -69],
+                    [0.2328, 0.8618, 0.1121, 0.3422, 0],
+                    [3.2115, 5.9204, 0.146, 0.4573, -17],
+                    [0.0445, 2.8964, 0.5167, 0.2848, -9],
+                    [0.089, 3.5639, 0.4338, 0.8732, -34],
+                    [0.7232, 1.2296, 0.8786, 0.4036, 22],
+                ],
+                [
+                    [0.0289, 5.788, 0.5648, 0.0651, 29],
+                    [6.246, 2.4157, 0.3949, 0.6124, -45],
+                    [4.0286, 6.0665, 0.1, 0.4229, 0],
+                    [5.5179, 1.8885, 0.1664, 0.8339, -70],
+                    [5.3739, 1.6431, 0.1144, 0.8813, -34],
+                    [3.8682, 1.7709, 0.1141, 0.6428, -31],
+                    [0.2157, 5.9158, 0.3168, 0.2485, -8],
+                ],
+                [
+                    [5.6163, 1.1655, 0.1596, 0.3293, 10],
+                    [0.8991, 5.3396, 0.6162, 0.1457, 18],
+                    [0.1685, 1.9163, 0.4899, 0.119, 9],
+                    [3.1802, 0.7537, 0.4238, 0.4698, 16],
+                    [4.002, 0.0895, 0.2926, 0.6276, 15],
+                    [5.9124, 2.085, 0.3991, 0.7318, -22],
+                    [1.2574, 3.9489, 0.9808, 0.0124, 69],
+                ],
+                [
+                    [5.9097, 2.1505, 0.154, 0.9898, -83],
+                    [0.4427, 3.6458, 0.7567, 0.2649, 20],
+                    [1.309, 6.1719, 0.3827, 0.1816, 16],
+                    [2.6269, 5.991, 0.2354, 0.2434, 20],
+                    [3.7603, 3.0776, 0.6226, 0.1631, 94],
+                    [6.0634, 1.6124, 0.3113, 0.7713, -23],
+                    [0.3921, 5.6892, 0.5393, 0.1156, -7],
+                ],
+            ],
+            [
+                [
+                    [3.7718, 2.1527, 0.1862, 0.4821, 1],
+                    [3.9003, 2.2434, 0.1606, 0.7662, -48],
+                    [2.8313, 0.6645, 0.9513, 0.0815, 73],
+                    [3.069, 0.4082, 0.5642, 0.1317, 34],
+                    [3.0408, 0.3207, 0.7849, 0.3132, 7],
+                    [4.1937, 2.1097, 0.0136, 0.1619, 6],
+                    [3.1942, 0.6566, 0.458, 0.6152, -23],
+                ],
+                [
+                    [3.2557, 1.4003, 0.2056, 0.3678, -7],
+                    [2.9554, 2.375, 0.0461, 0.5742, -27],
+                    [3.3887, 1.7146, 0.0717, 0.8506, -49],
+                    [3.2659, 0.2935, 0.2162, 0.3222, -39],
+                    [2.1529, 5.6298, 0.4654, 0.1188, 1],
+                    [6.15, 2.902, 0.3395, 0.6825, 0],
+                    [0.7775, 2.6955, 0.9779, 0.4718, 53],
+                ],
+                [
+                    [3.2774, 3.9778, 0.4505, 0.1609, 1],
+                    [3.5135, 1.5712, 0.23, 0.3807, -15],
+                    [5.8769, 3.5041, 0.2789, 0.1909, 39],
+                    [1.4647, 6.1318, 0.4836, 0.1028, 28],
+                    [1.6903, 2.6164, 0.1208, 0.258, 2],
+                    [1.7826, 3.6475, 0.8492, 0.1827, 60],
+                    [5.763, 2.7357, 0.1156, 0.831, -53],
+                ],
+                [
+                    [3.2428, 0.2959, 0.2777, 0.2482, -9],
+                    [4.3343, 1.7791, 0.1487, 0.7784, -38],
+                    [4.9124, 2.17, 0.0963, 0.9567, -43],
+                    [1.4896, 3.36, 0.3879, 0.4474, 18],
+                    [0.6001, 1.3196, 0.1075, 0.9926, -76],
+                    [0.0177, 2.1487, 0.1919, 0.6028, -45],
+                    [2.1988, 0.0897, 0.4515, 0.5648, -33],
+                ],
+                [
+                    [6.0364, 2.2201, 0.1149, 0.8663, -32],
+                    [5.3645, 1.0145, 0.1191, 0.2903, 0],
+                    [3.3979, 1.6769, 0.2943, 0.9825, -48],
+                    [3.6515, 0.3338, 0.2262, 0.8568, -53],
+                    [1.3018, 3.1923, 0.4531, 0.6039, 12],
+                    [1.6839, 3.0801, 0.3822, 0.7077, -2],
+                    [0.8983, 2.132, 0.0659, 0.9298, -39],
+                ],
+            ],
+            [
+                [
+                    [4.3219, 2.7114, 0.2577, 0.974, -33],
+                    [1.9633, 3.6806, 0.3939, 0.7509, 33],
+                    [0.5905, 3.5851, 0.915, 0.7115, 53],
+                    [5.7956, 3.119, 0.4249, 0.5253, 37],
+                    [3.677, 6.1648, 0.8741, 0.4123, -6],
+                    [0.8639, 3.3299, 0.1209, 0.6716, 21],
+                    [3.2378, 3.5827, 0.2623, 0.6509, -5],
+                ],
+                [
+                    [6.057, 3.5362, 0.4556, 0.8412, 12],
+                    [3.1525, 3.896, 0.6234, 0.3084, -3],
+                    [2.7567, 3.9516, 0.4402, 0.2185, 12],
+                    [3.9286, 2.7131, 0.6167, 0.5269, 20],
+                    [5.1269, 3.2566, 0.2256, 0.5476, 7],
+                    [2.8181, 3.4959, 0.4816, 0.838, -17],
+                    [2.1148, 3.8407, 0.0744, 0.7379, -15],
+                ],
+                [
+                    [3.9042, 2.5245, 0.5176, 0.4101, -3],
+                    [2.9477, 5.9121, 0.9988, 0.1968, 5],
+                    [1.4141, 3.5464, 0.3578, 0.6023, 4],
+                    [2.8971, 4.3699, 0.4095, 0.463, -21],
+                    [3.3145, 5.9429, 0.5597, 0.4669, -57],
+                    [2.5308, 2.7931, 0.7103, 0.5303, 26],
+                    [2.9587, 5.8031, 0.5857, 0.0962, -32],
+                ],
+                [
+                    [3.5064, 5.3248, 0.7229, 0.0203, 4],
+                    [2.9126, 4.4239, 0.5699, 0.2231, 0],
+                    [2.8519, 4.1522, 0.4105, 0.1701, -8],
+                    [3.4062, 0.3351, 0.9583, 0.3337, -9],
+                    [2.8571, 3.6236, 0.3147, 0.538, 16],
+                    [2.8614, 5.7849, 0.4391, 0.7317, -25],
+                    [2.756, 5.0551, 0.5906, 0.1257, 38],
+                ],
+                [
+                    [3.7652, 2.6819, 0.5926, 0.0993, 12],
+                    [4.7161, 2.9299, 0.281, 0.6949, -3],
+                    [4.0323, 1.6158, 0.1662, 0.9354, -68],
+                    [3.1654, 4.6523, 0.4763, 0.2067, -1],
+                    [3.5618, 2.2216, 0.9022, 0.5987, -23],
+                    [2.8801, 2.7826, 0.5238, 0.2502, 1],
+                    [5.4833, 2.8561, 0.683, 0.5597, 47],
+                ],
+            ],
+            [
+                [
+                    [3.1514, 6.2089, 0.1169, 0.4978, 7],
+                    [5.6933, 5.977, 0.2365, 0.6593, -3],
+                    [4.9325, 5.8102, 0.1508, 0.739, -3],
+                    [4.0455, 0.1289, 0.7143, 0.8991, -20],
+                    [5.7743, 0.958, 0.5991, 0.9952, -43],
+                    [3.2446, 0.4028, 0.9009, 0.307, 51],
+                    [0.2405, 5.7678, 0.5275, 0.8531, -15],
+                ],
+                [
+                    [4.6572, 0.1779, 0.2092, 0.9792, -6],
+                    [6.0267, 4.456, 0.7462, 0.1968, -4],
+                    [0.3986, 5.6541, 0.4466, 0.5219, 4],
+                    [5.71, 0.2838, 0.6379, 0.4659, 0],
+                    [5.4783, 0.3712, 0.7258, 0.3735, 16],
+                    [0.371, 5.3644, 0.395, 0.1469, -33],
+                    [4.1482, 5.8735, 0.1674, 0.551, 27],
+                ],
+                [
+                    [5.8489, 0.2249, 0.7618, 0.3055, 40],
+                    [6.2709, 6.0181, 0.3863, 0.6938, 1],
+                    [0.474, 4.4921, 0.7719, 0.1651, 64],
+                    [0.3563, 4.9802, 0.6131, 0.2935, -2],
+                    [0.0322, 5.1386, 0.7649, 0.4682, -26],
+                    [5.3983, 0.0896, 0.18, 0.4813, 52],
+                    [6.0466, 5.005, 0.6612, 0.1797, 0],
+                ],
+                [
+                    [3.8933, 0.162, 0.1148, 0.8283, 0],
+                    [3.2073, 5.9286, 0.1853, 0.7422, 4],
+                    [5.6818, 0.861, 0.5093, 0.6275, -22],
+                    [0.2284, 5.0517, 0.3924, 0.3042, -6],
+                    [3.7518, 0.1743, 0.5355, 0.4614, 67],
+                    [0.2476, 5.2616, 0.405, 0.5528, -60],
+                    [0.4126, 6.1199, 0.3748, 0.9232, -36],
+                ],
+                [
+                    [3.525, 0.3946, 0.1479, 0.59, 1],
+                    [0.8831, 3.8156, 0.4336, 0.1062, 15],
+                    [0.0997, 0.4989, 0.6642, 0.2115, -1],
+                    [5.7415, 2.2955, 0.51, 0.1619, -6],
+                    [6.1303, 4.7226, 0.2195, 0.3586, -36],
+                    [0.2198, 5.2758, 0.9693, 0.1976, 22],
+                    [3.7725, 0.4375, 0.6933, 0.2364, 70],
+                ],
+            ],
+            [
+                [
+                    [2.1438, 0.0564, 0.0369, 0.3862, 1],
+                    [1.2505, 5.56, 0.5732, 0.2305, 35],
+                    [5.5736, 2.5385, 0.083, 0.974, -48],
+                    [1.0504, 5.0735, 0.6776, 0.0416, 44],
+                    [1.6563, 6.1553, 0.1974, 0.1632, 1],
+                    [0.071, 3.6711, 0.7366, 0.7409, -53],
+                    [6.2683, 1.5394, 0.4086, 0.0807, -3],
+                ],
+                [
+                    [3.7486, 0.8618, 0.0849, 0.7623, -32],
+                    [6.1942, 4.7588, 0.2778, 0.1221, -10],
+                    [2.0729, 6.1816, 0.6932, 0.4696, 36],
+                    [0.1089, 2.1679, 0.7561, 0.531, -19],
+                    [5.5829, 2.0357, 0.0861, 0.5936, -47],
+                    [0.0308, 3.1466, 0.9765, 0.1254, 33],
+                    [0.1766, 1.106, 0.3354, 0.2495, 1],
+                ],
+                [
+                    [5.6452, 2.1924, 0.1029, 0.5749, -45],
+                    [3.3184, 0.039, 0.192, 0.6618, 10],
+                    [0.6946, 1.2702, 0.3436, 0.1383, 0],
+                    [0.1952, 4.5413, 0.8728, 0.1312, 53],
+                    [1.2889, 5.4113, 0.546, 0.3152, 9],
+                    [1.2723, 6.2726, 0.2808, 0.1749, -14],
+                    [0.0147, 2.7392, 0.4374, 0.442, -2],
+                ],
+                [
+                    [3.6461, 0.0478, 0.0544, 0.5629, -27],
+                    [4.3928, 0.4949, 0.086, 0.457, 7],
+                    [1.3399, 0.0449, 0.3999, 0.4314, 15],
+                    [5.686, 1.7824, 0.2564, 0.5022, -29],
+                    [0.6027, 2.9946, 0.7811, 0.1761, 57],
+                    [2.6162, 5.8417, 0.4948, 0.2146, 28],
+                    [1.6808, 6.0227, 0.5757, 0.4375, 29],
+                ],
+                [
+                    [1.0066, 3.9765, 0.8864, 0.0409, 65],
+                    [5.998, 1.5094, 0.296, 0.3219, 17],
+                    [5.8822, 2.7652, 0.4111, 0.4744, -8],
+                    [6.1285, 1.5927, 0.4803, 0.3039, -9],
+                    [0.1462, 2.6611, 0.3461, 0.2569, -24],
+                    [4.4748, 0.5927, 0.089, 0.3977, 7],
+                    [3.2883, 1.101, 0.16, 0.6704, -57],
+                ],
+            ],
+            [
+                [
+                    [2.6773, 5.9204, 0.972, 0.0694, 38],
+                    [4.0896, 2.182, 0.1959, 0.3678, 30],
+                    [4.4105, 1.9228, 0.1508, 0.7537, -41],
+                    [1.0665, 3.2511, 0.6245, 0.2414, 20],
+                    [2.5375, 2.699, 0.1961, 0.3895, -6],
+                    [5.5617, 2.8212, 0.1283, 0.5398, -3],
+                    [3.5444, 6.228, 0.3633, 0.6233, -10],
+                ],
+                [
+                    [2.4993, 6.2354, 0.4407, 0.2364, 0],
+                    [4.6013, 2.1388, 0.1106, 0.7962, -31],
+                    [5.0011, 2.178, 0.119, 0.7021, -43],
+                    [4.0627, 0.8459, 0.1535, 0.642, -75],
+                    [3.4032, 3.0716, 0.7403, 0.4896, 27],
+                    [3.3511, 0.83, 0.1988, 0.1359, 0],
+                    [2.075, 3.8209, 0.588, 0.124, 6],
+                ],
+                [
+                    [2.1483, 5.348, 0.5807, 0.1945, -2],
+                    [2.0247, 3.6777, 0.5741, 0.153, 24],
+                    [2.5736, 4.2199, 0.7534, 0.1197, 30],
+                    [2.9746, 0.4615, 0.9227, 0.56, -15],
+                    [2.6078, 1.2951, 0.5042, 0.7701, -28],
+                    [3.0308, 0.5425, 0.735, 0.724, -18],
+                    [3.1048, 0.4623, 0.4605, 0.5048, -45],
+                ],
+                [
+                    [3.501, 0.7298, 0.1681, 0.3065, -41],
+                    [0.2271, 3.1635, 0.4521, 0.5027, 62],
+                    [3.352, 2.3649, 0.1458, 0.5692, 0],
+                    [6.2825, 3.1315, 0.1069, 0.9248, -74],
+                    [0.3768, 4.0975, 0.9558, 0.1845, 71],
+                    [0.6227, 3.1633, 0.5432, 0.4865, 20],
+                    [3.2798, 0.816, 0.4619, 0.7825, -22],
+                ],
+                [
+                    [2.2386, 2.407, 0.8596, 0.026, 61],
+                    [3.8775, 1.2245, 0.1185, 0.5141, -21],
+                    [4.2831, 2.3462, 0.1225, 0.839, -46],
+                    [3.0913, 2.0627, 0.7192, 0.6804, -27],
+                    [1.8386, 0.879, 0.6283, 0.5975, -16],
+                    [3.3046, 1.7129, 0.4031, 0.6089, -70],
+                    [3.0218, 0.2887, 0.5973, 0.145, 11],
+                ],
+            ],
+            [
+                [
+                    [2.6837, 3.5269, 0.4821, 0.7255, -16],
+                    [2.0933, 5.2916, 0.6778, 0.1059, 58],
+                    [3.1425, 3.2765, 0.2725, 0.6355, -1],
+                    [2.1231, 3.4626, 0.2223, 0.4477, 15],
+                    [2.7341, 4.0426, 0.4443, 0.1641, 0],
+                    [4.021, 2.9718, 0.2876, 0.4099, 0],
+                    [2.9133, 4.2276, 0.5944, 0.7729, -30],
+                ],
+                [
+                    [3.2543, 2.823, 0.4544, 0.2924, -23],
+                    [3.8898, 1.2306, 0.4144, 0.3382, -49],
+                    [2.3543, 4.6024, 0.3137, 0.2243, 6],
+                    [3.9253, 3.0394, 0.5788, 0.4149, 28],
+                    [3.8335, 2.9024, 0.3546, 0.5939, -14],
+                    [3.4109, 3.1368, 0.6574, 0.4023, 4],
+                    [5.1542, 4.9887, 0.6662, 0.1971, 18],
+                ],
+                [
+                    [2.9525, 2.8909, 0.305, 0.6214, -18],
+                    [3.5726, 2.7822, 0.6589, 0.2582, 48],
+                    [5.8306, 2.9471, 0.2408, 0.6793, 20],
+                    [3.1091, 4.5019, 0.7098, 0.2608, -22],
+                    [5.8483, 2.231, 0.1801, 0.7894, -43],
+                    [3.6874, 1.9055, 0.4823, 0.5784, -63],
+                    [4.5892, 2.7874, 0.1186, 0.8669, -4],
+                ],
+                [
+                    [3.9372, 2.8037, 0.6929, 0.5329, 2],
+                    [4.0753, 2.8261, 0.4731, 0.2722, 37],
+                    [2.728, 4.5297, 0.3893, 0.1241, -13],
+                    [3.8557, 4.2204, 0.6948, 0.3038, 41],
+                    [3.4448, 2.8847, 0.3295, 0.2138, -5],
+                    [2.9869, 2.38, 0.7835, 0.4203, -21],
+                    [4.0869, 2.9646, 0.1849, 0.9629, -59],
+                ],
+                [
+                    [3.0296, 3.8843, 0.6911, 0.3633, -6],
+                    [3.9732, 5.2573, 0.5495, 0.0396, 30],
+                    [3.642, 2.5642, 0.6317, 0.191, 6],
+                    [0.1906, 3.5906, 0.3802, 0.5003, 40],
+                    [3.8502, 1.2034, 0.5448, 0.9776, 7],
+                    [3.7773, 0.0329, 0.4667, 0.2711, -76],
+                    [4.9469, 3.2131, 0.1548, 0.985, -35],
+                ],
+            ],
+            [
+                [
+                    [0.3661, 4.9623, 0.0941, 0.4875, -31],
+                    [2.0579, 1.3676, 0.1212, 0.3972, -16],
+                    [5.6459, 0.7445, 0.2351, 0.7354, -6],
+                    [1.7931, 4.6352, 0.0697, 0.8104, -52],
+                    [3.8989, 5.5934, 0.6466, 0.1481, 37],
+                    [0.472, 5.8296, 0.9509, 0.2677, 9],
+                    [1.2966, 0.8228, 0.9604, 0.1984, 0],
+                ],
+                [
+                    [3.8054, 4.1346, 0.0793, 0.5515, -27],
+                    [3.7599, 3.9162, 0.0469, 0.851, -13],
+                    [1.2042, 1.2637, 0.1433, 0.4756, -9],
+                    [0.2185, 0.0858, 0.0768, 0.8143, 20],
+                    [0.2288, 6.0241, 0.2382, 0.6213, 35],
+                    [1.5853, 0.0334, 0.1133, 0.6868, 11],
+                    [0.8871, 5.8487, 0.1981, 0.3712, 7],
+                ],
+                [
+                    [4.5531, 6.2574, 0.7317, 0.0679, 16],
+                    [3.3831, 0.6619, 0.5234, 0.3596, 47],
+                    [0.8565, 2.2657, 0.3416, 0.1035, 15],
+                    [0.8297, 5.6434, 0.6864, 0.4557, 7],
+                    [1.6645, 5.8232, 0.9744, 0.2854, 68],
+                    [2.4277, 6.2179, 0.3527, 0.3147, 24],
+                    [5.7028, 0.9997, 0.9623, 0.0708, 30],
+                ],
+                [
+                    [0.8911, 0.9175, 0.8966, 0.1125, 32],
+                    [5.8477, 3.9689, 0.166, 0.474, -21],
+                    [4.1687, 2.7637, 0.8203, 0.0842, 24],
+                    [5.5687, 3.2747, 0.3654, 0.0638, 41],
+                    [0.7409, 4.0995, 0.3492, 0.6603, -33],
+                    [4.3931, 0.6621, 0.458, 0.3918, 57],
+                    [2.9469, 3.5473, 0.1228, 0.7974, -26],
+                ],
+                [
+                    [0.8355, 4.608, 0.292, 0.7448, -29],
+                    [0.5662, 4.6911, 0.3469, 0.2504, -42],
+                    [2.6055, 3.7705, 0.009, 0.9319, -7],
+                    [2.1745, 1.1842, 0.2, 0.8197, -14],
+                    [3.7458, 0.7392, 0.0978, 0.3409, 0],
+                    [4.6391, 3.4756, 0.7247, 0.1504, 37],
+                    [5.5833, 0.447, 0.1871, 0.9588, -35],
+                ],
+            ],
+            [
+                [
+                    [5.9227, 3.6881, 0.2804, 0.4696, 13],
+                    [3.7826, 4.6347, 0.8321, 0.55, 18],
+                    [3.4471, 5.2357, 0.4445, 0.2995, 4],
+                    [4.1759, 4.0068, 0.332, 0.845, -6],
+                    [5.1437, 0.477, 0.639, 0.9192, 17],
+                    [0.8397, 2.8071, 0.4435, 0.4516, 55],
+                    [3.3584, 5.2391, 0.4128, 0.4687, 9],
+                ],
+                [
+                    [4.4503, 5.4368, 0.5008, 0.8754, -7],
+                    [4.8619, 5.5369, 0.6081, 0.9664, -11],
+                    [3.9871, 5.536, 0.8826, 0.3633, 28],
+                    [3.365, 5.6218, 0.6616, 0.4631, -5],
+                    [4.4792, 3.9679, 0.8401, 0.6181, 11],
+                    [3.1719, 0.1223, 0.3764, 0.5783, 3],
+                    [3.8492, 4.7143, 0.1177, 0.307, -50],
+                ],
+                [
+                    [3.9095, 4.4539, 0.811, 0.7975, -5],
+                    [1.6123, 4.2667, 0.7171, 0.4145, -16],
+                    [0.898, 4.9286, 0.6311, 0.3273, -25],
+                    [4.6764, 5.4861, 0.2582, 0.9187, -9],
+                    [0.7253, 4.4217, 0.8164, 0.3913, 19],
+                    [1.9372, 3.2011, 0.8444, 0.8926, 31],
+                    [4.157, 0.1372, 0.8457, 0.8134, 16],
+                ],
+                [
+                    [0.3429, 4.4641, 0.853, 0.4201, -7],
+                    [3.7338, 4.5658, 0.5089, 0.8988, -16],
+                    [0.0121, 0.7388, 0.8689, 0.7938, 2],
+                    [3.5642, 6.0212, 0.5006, 0.5346, 6],
+                    [3.0749, 5.6316, 0.2062, 0.7043, -30],
+                    [5.9762, 4.8318, 0.7548, 0.8272, -23],
+                    [5.4522, 4.1185, 0.6119, 0.9944, -9],
+                ],
+                [
+                    [5.0564, 5.4213, 0.7268, 0.9719, -8],
+                    [3.4249, 0.1779, 0.4847, 0.3512, 17],
+                    [5.0375, 1.6144, 0.4652, 0.6894, 5],
+                    [1.648, 4.0154, 0.4217, 0.483, -9],
+                    [4.633, 4.9556, 0.5264, 0.8572, -27],
+                    [4.947, 5.884, 0.8783, 0.6792, 13],
+                    [0.1296, 2.7576, 0.7028, 0.2284, 34],
+                ],
+            ],
+            [
+                [
+                    [4.8876, 2.3823, 0.6354, 0.2049, 49],
+                    [3.4016, 2.8851, 0.1159, 0.9214, 2],
+                    [2.2878, 1.6091, 0.9445, 0.0431, 16],
+                    [3.644, 1.2886, 0.2019, 0.3547, -45],
+                    [5.5532, 3.4321, 0.6002, 0.3624, 54],
+                    [1.8246, 0.648, 0.7334, 0.2343, -3],
+                    [0.3498, 1.8474, 0.0801, 0.6448, -45],
+                ],
+                [
+                    [2.1388, 3.7221, 0.5318, 0.0932, 28],
+                    [5.5424, 2.3993, 0.7269, 0.2543, 45],
+                    [1.926, 6.2032, 0.4164, 0.1214, 22],
+                    [2.1659, 5.1252, 0.1759, 0.7895, -15],
+                    [2.1505, 1.2977, 0.9502, 0.1105, 17],
+                    [2.5122, 3.687, 0.4102, 0.193, 18],
+                    [0.5589, 6.0753, 0.3727, 0.3164, -36],
+                ],
+                [
+                    [5.1954, 2.2334, 0.9301, 0.1467, 35],
+                    [5.2315, 3.2881, 0.6805, 0.2469, 36],
+                    [1.9562, 1.8866, 0.1852, 0.7036, -17],
+                    [1.9817, 2.601, 0.6357, 0.338, 5],
+                    [2.4447, 4.8153, 0.6147, 0.0549, 3],
+                    [0.2246, 0.8141, 0.5034, 0.1041, 0],
+                    [5.2903, 0.9341, 0.5683, 0.0352, 33],
+                ],
+                [
+                    [5.1364, 2.4692, 0.869, 0.3764, 45],
+                    [3.284, 4.8985, 0.1586, 0.5873, -31],
+                    [2.034, 3.8227, 0.7292, 0.0574, 26],
+                    [1.1494, 5.7851, 0.3778, 0.1648, -5],
+                    [5.447, 3.4788, 0.8601, 0.544, 43],
+                    [1.7087, 2.3879, 0.8643, 0.2977, 7],
+                    [6.184, 5.0171, 0.1953, 0.3949, -44],
+                ],
+                [
+                    [2.3403, 5.3188, 0.1752, 0.8945, -33],
+                    [4.2702, 2.0943, 0.6544, 0.1391, 80],
+                    [2.1132, 3.5978, 0.6256, 0.3977, 16],
+                    [1.131, 5.0854, 0.0764, 0.3598, -26],
+                    [4.6096, 0.1951, 0.8181, 0.5613, 39],
+                    [3.0136, 2.7269, 0.1521, 0.938, -6],
+                    [5.2966, 3.5141, 0.4424, 0.2906, 48],
+                ],
+            ],
+            [
+                [
+                    [2.3706, 3.7411, 0.229, 0.5767, -10],
+                    [4.9923, 0.8998, 0.4202, 0.3485, 3],
+                    [4.9525, 5.3175, 0.6256, 0.3666, -9],
+                    [4.1599, 5.1611, 0.8064, 0.3518, 20],
+                    [0.4673, 2.4204, 0.705, 0.6243, 2],
+                    [0.8992, 4.241, 0.8935, 0.4562, 6],
+                    [5.6367, 3.7993, 0.841, 0.3458, 4],
+                ],
+                [
+                    [2.2931, 5.5834, 0.239, 0.4301, -6],
+                    [4.6663, 1.4024, 0.41, 0.1598, 8],
+                    [4.9398, 1.7485, 0.2601, 0.505, -12],
+                    [4.0819, 1.3537, 0.3076, 0.8676, 13],
+                    [0.2648, 6.1341, 0.6355, 0.991, 7],
+                    [5.1237, 4.117, 0.6536, 0.1623, 27],
+                    [5.4882, 3.7641, 0.5448, 0.873, -25],
+                ],
+                [
+                    [3.9988, 1.5235, 0.4404, 0.5195, -2],
+                    [4.5008, 1.9578, 0.2255, 0.5775, 8],
+                    [1.9962, 5.6251, 0.126, 0.6046, -9],
+                    [5.6016, 3.8561, 0.9293, 0.3968, 44],
+                    [2.965, 5.7481, 0.7334, 0.734, -6],
+                    [4.2498, 1.656, 0.9274, 0.6345, 5],
+                    [6.1735, 5.401, 0.6325, 0.4375, -2],
+                ],
+                [
+                    [1.5433, 4.7189, 0.4992, 0.2646, 5],
+                    [1.1437, 3.9981, 0.7834, 0.5504, -1],
+                    [1.3413, 0.83, 0.9104, 0.4474, -36],
+                    [2.084, 1.9562, 0.7628, 0.3763, 1],
+                    [2.5786, 1.2184, 0.843, 0.8239, -2],
+                    [3.3981, 6.1398, 0.5511, 0.3216, 3],
+                    [2.5188, 3.8569, 0.385, 0.3708, 5],
+                ],
+                [
+                    [4.833, 4.3099, 0.8481, 0.3215, 1],
+                    [5.3374, 4.5038, 0.4896, 0.8316, 6],
+                    [4.0587, 1.0739, 0.3299, 0.4861, -26],
+                    [2.0354, 5.4183, 0.5576, 0.562, 3],
+                    [1.6005, 3.6967, 0.1715, 0.7635, -34],
+                    [3.1847, 5.7319, 0.5346, 0.3968, 30],
+                    [1.0976, 1.7227, 0.3502, 0.7303, 2],
+                ],
+            ],
+        ],
+        [
+            [
+                0.00000109607, -0.00000317866, 0.0000133833, -0.00000320145, -0.00000540093, -7.41731e-7, 0.00000117082,
+                -6.39155e-7, -0.00000124253, -1.38075e-7,
+            ],
+            [
+                0.00000330334, 3.8998e-7, 0.0000119438, -0.00000320563, -0.00000496481, -3.38133e-7, 3.4237e-7,
+                1.30048e-9, -7.34283e-7, -8.82901e-8,
+            ],
+            [
+                0.00000614439, 0.00000422108, 0.00000935233, -0.00000291568, -0.00000439137, -2.63616e-8, -6.04102e-7,
+                4.52161e-7, -4.25084e-7, -4.64698e-8,
+            ],
+            [
+                0.00000924858, 0.00000784835, 0.00000492503, -0.00000171888, -0.0000027045, 6.68704e-8, -0.00000135868,
+                0.00000109469, -1.41243e-7, 1.40862e-7,
+            ],
+            [
+                0.0000118009, 0.0000103299, 0.00000120864, 1.24207e-7, -2.7043e-7, -1.00812e-7, -0.00000190839,
+                0.00000148659, 5.42558e-7, 3.21542e-8,
+            ],
+            [
+                0.0000110265, 0.00000754677, 0.00000452829, 0.0000023019, 0.00000198286, -3.41686e-7, -0.00000133987,
+                0.00000109169, 5.31409e-7, -1.03412e-7,
+            ],
+            [
+                0.00000800829, 0.00000381354, 0.00000862333, 0.00000351411, 0.00000345838, -7.30557e-7, -3.10429e-7,
+                3.66855e-7, 7.25372e-7, -1.97924e-7,
+            ],
+            [
+                0.00000437606, 3.10167e-7, 0.0000117696, 0.00000409664, 0.00000425045, -0.00000126742, 4.50722e-7,
+                -1.13122e-7, 5.99605e-7, -6.12049e-8,
+            ],
+            [
+                6.61876e-7, -0.00000274346, 0.0000134519, 0.00000402282, 0.00000428445, -0.00000157798, 0.0000011205,
+                -8.75225e-7, 3.77606e-7, -8.69741e-9,
+            ],
+            [
+                -5.21396e-8, -0.0000014753, 0.00000210858, -0.00000299426, -0.00000453593, -0.00000166313,
+                0.00000205684, -0.00000147395, -0.0000011946, -8.003e-8,
+            ],
+            [
+                -0.00000108687, -8.59493e-7, -0.00000127201, -0.00000210087, -0.00000275836, -0.00000199904,
+                0.00000211692, -0.00000177757, -0.0000011534, -5.39865e-8,
+            ],
+            [
+                -9.07542e-7, 4.4619e-7, -0.00000253899, -8.00876e-7, -0.00000110837, -0.00000197907, 0.00000212833,
+                -0.00000168618, -7.10898e-7, -1.41755e-7,
+            ],
+            [
+                -8.97518e-7, 5.23938e-7, -0.00000265312, 4.57555e-7, 6.49674e-7, -0.00000215619, 0.00000227627,
+                -0.00000164316, -2.21834e-7, -9.45442e-8,
+            ],
+            [
+                -0.00000182025, -4.60393e-7, -0.00000116056, 0.00000181734, 0.00000250247, -0.0000025832, 0.0000025761,
+                -0.00000184064, -5.66219e-9, 4.8763e-8,
+            ],
+            [
+                -0.00000138749, -7.74505e-7, 0.00000223878, 0.00000306714, 0.00000380048, -0.00000243223, 0.00000214409,
+                -0.00000163301, 3.68127e-7, 4.07194e-9,
+            ],
+            [
+                0.00000105917, 0.00000208793, -0.00000389419, -1.89951e-7, -1.60359e-7, -0.00000205989, 0.00000184198,
+                -0.00000136577, -4.59709e-7, 7.79488e-8,
+            ],
+            [
+                0.00000495693, 0.00000631111, -0.00000501168, -0.00000111437, -0.00000136151, -0.00000148992,
+                3.06808e-7, -3.94134e-7, -6.36773e-8, 2.28005e-7,
+            ],
+            [
+                0.0000059694, 0.00000787655, -0.00000865198, -4.17984e-7, -2.50669e-7, -0.00000167683, 2.84592e-7,
+                -4.44202e-7, 5.48817e-8, 1.6758e-7,
+            ],
+            [
+                0.00000521752, 0.00000624723, -0.00000514897, 6.85267e-7, 7.7233e-7, -0.00000164352, 4.67568e-7,
+                -5.42327e-7, 2.69699e-7, 5.10961e-8,
+            ],
+            [
+                0.00000109265, -1.58299e-7, 0.00000223299, -0.00000133135, -9.72142e-7, -0.00000162592, 0.00000148977,
+                -9.52453e-7, 1.46115e-7, 0.00000187208,
+            ],
+            [
+                8.62267e-7, -3.61983e-8, 6.7825e-7, -0.00000105876, -7.19535e-7, -0.0000019001, 0.00000155522,
+                -0.00000109664, -9.74887e-8, 0.00000200858,
+            ],
+            [
+                9.2433e-7, 8.20997e-8, 3.60767e-7, -4.89576e-7, -4.7326e-8, -0.00000188959, 0.00000163552,
+                -0.00000116931, 4.88434e-7, 0.00000197613,
+            ],
+            [
+                0.0000013745, 7.80829e-7, -1.19239e-7, -9.09478e-8, 3.47355e-7, -0.00000174991, 0.00000130999,
+                -0.00000103909, 4.01146e-7, 0.00000188717,
+            ],
+            [
+                6.69961e-7, 0.00000164433, -0.00000117248, 5.85354e-8, -9.55651e-7, -0.0000013905, 0.0000010796,
+                -0.00000104283, -0.00000146088, -0.00000187886,
+            ],
+            [
+                -2.40485e-7, 0.000001073, -3.05186e-7, 4.24681e-7, -3.39003e-7, -0.0000016417, 0.00000143621,
+                -0.00000121393, -0.00000110385, -0.00000189365,
+            ],
+            [
+                -1.13304e-7, 0.00000118029, -2.14355e-7, 8.74772e-7, 2.80407e-7, -0.00000164548, 0.00000127625,
+                -0.000001116, -9.70361e-7, -0.00000190461,
+            ],
+            [
+                6.2536e-7, 8.75545e-7, 0.00000159892, 0.00000128843, 8.16097e-7, -0.00000153054, 0.00000124389,
+                -0.00000104904, -7.16618e-7, -0.00000183531,
+            ],
+            [
+                0.00000672899, 0.00000649255, 0.00000182352, -0.00000220807, -0.0000024022, -6.6128e-7, 0.00000175304,
+                -6.4814e-7, 0.00000575083, -0.00000119628,
+            ],
+            [
+                0.00000710294, 0.00000761057, -0.00000461037, -1.99217e-7, -2.71371e-7, -0.00000115297, -9.26422e-8,
+                8.99351e-8, 6.63147e-9, 8.81757e-8,
+            ],
+            [
+                0.00000738352, 0.00000571759, 7.32819e-7, 0.00000239549, 0.00000172075, -9.34455e-7, -0.00000226765,
+                0.00000138443, -0.00000578823, 0.00000127632,
+            ],
+            [
+                0.00000888043, 0.00000921944, -0.00000287693, -6.55315e-8, -3.83038e-7, -8.41603e-7, -9.63105e-7,
+                5.93015e-7, 1.43821e-7, -7.51359e-8,
+            ],
+            [
+                0.000018223, -0.00000410775, -0.00000169055, 0.00000238268, -0.00000163754, 0.00000278391,
+                0.00000503034, -8.9318e-7, 5.50318e-7, 8.22208e-8,
+            ],
+            [
+                0.0000180735, -0.00000381768, -0.00000171438, 6.94556e-7, -9.79108e-9, 0.00000245047, 0.00000305562,
+                -0.00000124672, 2.62709e-8, 2.22591e-7,
+            ],
+            [
+                0.0000170908, -0.00000367039, -0.00000191388, -0.00000118947, 0.00000145283, 0.00000200255, 9.17485e-7,
+                -0.00000153316, -7.47482e-7, 3.35151e-7,
+            ],
+            [
+                0.0000139902, -0.00000354174, -0.00000132577, -0.00000305243, 0.0000030825, 9.03017e-7, -0.00000129929,
+                -0.00000136024, -0.0000010585, 2.28191e-7,
+            ],
+            [
+                0.00000943364, -0.00000354068, -4.00989e-7, -0.0000038814, 0.00000352349, -4.5039e-7, -0.00000322523,
+                -8.90026e-7, -6.83725e-7, -0.00000155985,
+            ],
+            [
+                0.0000102417, -0.00000642598, -4.55966e-7, -0.00000265867, 0.00000212719, -0.00000178809,
+                -0.00000347451, 2.22083e-7, -3.66986e-7, 6.2792e-8,
+            ],
+            [
+                0.0000106467, -0.00000812757, -0.0000011502, -8.98615e-7, 1.01495e-7, -0.0000024977, -0.00000260844,
+                0.0000012273, 1.96606e-7, 4.15449e-8,
+            ],
+            [
+                0.0000109343, -0.00000867941, -0.00000227705, 7.65196e-7, -0.00000165108, -0.00000263229,
+                -0.00000118058, 0.00000183397, 8.75155e-7, 3.53452e-8,
+            ],
+            [
+                0.0000109861, -0.00000880392, -0.00000332147, 0.00000260781, -0.00000299551, -0.00000251655, 8.54521e-7,
+                0.00000227834, 0.00000145395, -5.09668e-9,
+            ],
+            [
+                0.00000581906, 5.54545e-7, 1.65006e-7, 2.45833e-7, 5.99608e-7, 0.00000205638, 0.00000584549, 8.62146e-7,
+                -0.00000170001, -3.25288e-7,
+            ],
+            [
+                0.00000178606, 0.00000114628, 5.23267e-8, -1.23059e-7, 5.09227e-7, 0.00000115574, 0.00000527013,
+                0.00000130572, -0.00000160002, -4.67606e-7,
+            ],
+            [
+                -0.00000107879, 0.00000114428, 3.21927e-9, -5.86208e-7, 7.86103e-7, 2.01145e-7, 0.00000437068,
+                0.00000176841, -0.00000148609, -5.97061e-7,
+            ],
+            [
+                -0.00000198647, 3.68988e-7, -4.11033e-7, -7.21687e-7, 4.7041e-7, -5.99188e-7, 0.00000330522,
+                0.00000242024, -0.00000128258, -5.11571e-7,
+            ],
+            [
+                -0.00000202505, -7.14097e-7, -9.70312e-7, -5.43598e-8, -2.80942e-7, -0.0000012863, 0.0000028259,
+                0.00000281388, -9.85706e-7, -5.63862e-7,
+            ],
+            [
+                2.24637e-7, -0.00000298801, -0.00000192361, 3.60595e-7, -0.00000102729, -0.00000229764, 0.00000201359,
+                0.00000345515, -9.55675e-7, -4.68714e-7,
+            ],
+            [
+                -0.0000032904, 0.00000142113, 4.94593e-7, -0.00000141586, 0.00000123629, -1.96206e-7, 0.00000216066,
+                9.60102e-7, 7.40829e-7, -1.18181e-7,
+            ],
+            [
+                -0.00000125008, 0.00000132131, 0.00000140093, -0.00000445578, 0.00000448074, 2.51523e-7, 0.00000288311,
+                5.80416e-7, 4.60432e-7, 8.82877e-7,
+            ],
+            [
+                -0.00000564025, 0.00000221809, 0.00000181548, -0.00000533596, 0.00000521976, -3.88701e-7, 0.00000208659,
+                9.31271e-7, 4.20054e-7, 8.34094e-7,
+            ],
+            [
+                -0.00000263341, 4.19351e-7, 0.00000125332, -0.00000446018, 0.0000040374, -0.00000103147, 0.00000182579,
+                0.00000142531, 4.8469e-7, 8.45146e-7,
+            ],
+            [
+                0.0000042795, 1.67769e-8, -5.89229e-8, -8.63853e-8, 6.38305e-7, 0.0000013172, 0.00000338423, 5.36631e-9,
+                4.57338e-7, -8.24095e-8,
+            ],
+            [
+                0.00000183599, 5.78465e-7, 3.23442e-7, -3.90755e-7, 7.40247e-7, 0.00000121314, 0.00000325997,
+                2.61844e-7, 6.01665e-7, -8.64962e-8,
+            ],
+            [
+                0.00000188217, 1.96152e-7, 2.07719e-7, -4.19996e-7, 7.19999e-7, 7.44161e-7, 0.00000299603, 1.51908e-7,
+                7.66189e-7, -7.61297e-8,
+            ],
+            [
+                4.97647e-7, 3.56076e-7, 2.43218e-7, -7.75248e-7, 7.75642e-7, 3.53783e-7, 0.00000219816, 4.62437e-7,
+                6.3887e-7, -1.78435e-7,
+            ],
+            [
+                -8.14144e-7, -3.85672e-7, -1.7927e-7, -6.74759e-7, 6.67566e-7, -4.28369e-7, 0.00000160504, 9.57174e-7,
+                8.72751e-7, -6.31132e-8,
+            ],
+            [
+                -4.10166e-7, -9.16504e-7, -4.53516e-7, -4.72352e-7, 2.24917e-7, -7.59447e-7, 0.00000159541,
+                0.00000120882, 0.00000116107, -1.51156e-7,
+            ],
+            [
+                -8.89626e-7, -0.00000112359, -4.61706e-7, -3.60269e-7, 1.64019e-7, -0.00000118724, 0.00000136796,
+                0.00000151469, 0.00000119765, -9.77135e-8,
+            ],
+            [
+                7.54122e-7, -0.00000228664, -9.43671e-7, -3.09835e-9, -2.71762e-7, -0.00000154526, 7.37145e-7,
+                0.00000148636, 0.00000107702, -1.65385e-7,
+            ],
+            [
+                0.00000703378, -0.00000128334, -2.50595e-7, -0.00000267263, 0.0000027587, 8.42111e-7, 8.80663e-8,
+                -6.39535e-7, -5.45342e-7, 2.92167e-7,
+            ],
+            [
+                -0.00000124533, 4.78327e-7, 8.70709e-7, -0.00000377243, 0.00000383222, -2.34062e-7, -7.44988e-7,
+                -1.28914e-7, -9.62636e-8, 2.1479e-7,
+            ],
+            [
+                0.00000403277, -0.00000332532, -2.16196e-7, -0.00000251461, 0.0000021162, -0.0000014674, -0.00000178969,
+                6.8057e-7, 5.49117e-8, 2.78206e-9,
+            ],
+            [
+                8.87277e-7, 3.93611e-8, 3.5365e-7, -0.00000381489, 0.0000032463, -8.22527e-8, -0.00000152943,
+                -5.24033e-7, 1.13064e-7, -0.00000339186,
+            ],
+        ],
+        [
+            [
+                -31, -126, 27, -63, -67, 188, 5, 73, -64, 142, 97, 84, -144, -53, -78, 21, -73, -63, 81, -84, -190, 143,
+                58, 134, 94, -67, 173, 21, -101, -48, 58, -125, -32, -15, -45, 105, 0, 151, 120, -279, -99, -90, -8,
+                -29, 3, -12, 141, 99, -7, 117, 121, -95, -15, -68, 12, -60, 104, 128, -99, 70, -138, 124, -90, -94, 41,
+                122, 92, 14, -47, -98, 21, -139, 51, -34, -46, -46, 34, 22, -19, 42, 27, 85, -13, 68, -102, 81, -140,
+                -1, 103, 15, -32, -19, -197, 6, 206, -78, -56, -36, -82, -7, 180, -125, 47, 84, 28, 101, -17, 24, 134,
+                -87, 12, -188, 5, 120, 47, -51, -63, 45, -59, -39, -28, 33, 51, 150, -125, 39, -85, -28, -185, 42, 42,
+                289, -6, -136, 55, -97, -37, -15, -62, -47, -26, 46, 93, 53, -183, -140, -132, 1000, -259, -140, -31,
+                -111, -24, -111, -26, -44, 87, 34, 26, 64, 69, -55, -106, 20, -104, -102, 10, 273, 158, 148, -33, -83,
+                -61, 0, 9, -132, 45, 33, 17, 100, -108, 29, -119, 7, -38, -35, -91, 92, -153, 65, -7, 173, 122, 53, 71,
+                63, -38, -192, -52, -22, 17, 19, -55, -32, 114, 71, -93, -36, 183, 163, -73, -185, 8, -192, 22, 80, -72,
+                -135, 33, 124, 5, 48, -22, 24, -38, -128, -42, -156, 57, 139, 116, 59, 63, 62, 175, 54, -288, -46, 14,
+                -28, -113, 92, 99, 83, 107, -11, -115, -136, 146, 234, -228, 1, 64, 123, -186, -149, -121, -254, -119,
+                292, 38, 119, 29, 22, 82, 10, -114, 42, 37, 24, 15, -90, -316, -57, 77, 19, 61, 58, 145, 19, -24, 48,
+                -52, -130, 47, -86, 107, 95, -38, 133, 132, 23, -107, -35, -28, -75, -475, -169, 153, 172, 253, 122, 95,
+                -144, -70, -92, 73, 9, -10, 12, 79, 5, 41, 65, -125, -37, -55, 31, 32, 54, -69, -30, -42, -38, 9, -38,
+                164, 49, -17, 198, -30, 19, -74, -46, -24, -22, 11, 55, -182, 115, 71, -71, 131, -124, 27, 70, -121,
+                -124, 131, -56, 125, -49, 18, 60, 76, -45, 112, -79, -36, -100, -75, 120, 56, 42, -118, -9, -18, 8, 55,
+                -8, 50, 82, 0, -81, -88, -5, 23, 43, -10, 88, -88, 100, -127, -24, -6, 11, -60, 33, -11, -193, 16, 216,
+                185, -3, 25, -30, -82, -74, -114, 98, 57, 5, 81, 0, -18, -58, 2, -64, -79, -18, 75, -20, -58, -149, -82,
+                336, -9, 31, 108, 14, 89, 29, -233, -23, -12, -56, -28, -1, 12, 0, 35, 54, 103, 58, 84, -13, -81, -11,
+                -30, -103, 60, -145, 34, -84, 7, 4, 92, 36, -10, 29, 20, 52, -98, 10, -17, 19, -31, -20, 61, 7, 11, 12,
+                -59, 24, 14, -21, -24, 41, 4, -46, 6, 31, -86, 84, 78, -19, -139, -8, 3, 93, 152, 26, 49, -12, -96, -20,
+                -61, -33, -51, 10, 25, -57, -41, 68, 21, 30, 27, -10, 10, 19, 7, -71, 11, 13, 103, -72, -25, 13, 30,
+                -30, 21, -34, 38, -46, -17, -74, 48, -81, 101, 37, -88, -19, 75, 80, -42, 87, -63, -25, 44, -34, 29,
+                -83, -54, 13, 48, 42, -16, 130, -57, -93, 58, -80, 34, 29, 5, 83, -43, 13, -40, 43, -75, 20, 46, 7, -57,
+                29, 50, -25, 13, -56, 1, 47, 32, 49, -41, -104, -24, 44, -34, 71, -6, 12, 33, 12, -35, -49, 9, 71, 25,
+                -8, -121, -5, -13, 48, -16, -17, 62, 2, -61, 24, 7, 5, 59, 42, -25, 91, -9, -41, -52, -59, 84, -4, 66,
+                -188, 3, 22, 58, -36, 7, 15, -6, -8, 78, -106, 36, -12, -85, -88, 31, 15, 102, -74, 26, 79, -24, 13, 22,
+                84, -205, -46, 102, 59, 197, -23, -69, -40, -53, -17, 33, -23, 10, 26, -51, 79, 14, 12, -60, -24, -43,
+                77, -26, 22, 3, -14, -20, 6, -35, -77, -56, -24, 17, 43, 92, 45, -49, -2, 14, 43, 103, -39, -29, -36,
+                -117, -33, 0, 13, 75, 7, 16, 45, 43, -86, 57, 81, 32, -70, -27, -26, 1, 134, -4, -8, 33, -42, -59, -51,
+                -37, -2, -39, -68, 56, 17, 104, -26, 60, -29, -94, -140, 48, 292, 21, -152, 46, -22, 7, 43, -15, 45,
+                -91, -6, 36, -16, 44, 57, -21, 19, -173, 59, 37, 15, 60, -1, 87, 67, 174, -434, -87, 52, 48, 56, 85, -7,
+                -89, -53, -38, -93, 63, -42, -57, 92, 113, -33, 6, -34, 48, -33, -24, -44, 89, -2, -49, -104, -30, -19,
+                61, 298, 7, -158, -24, 10, -42, 92, -34, 42, -7, -32, -117, -55, -36, 37, 77, -12, 61, 50, -11, 40, -20,
+                -45, -12, 112, 14, -73, 4, -28, -48, 1, 26, -46, 115, -17, -5, 31, -87, -25, -9, 47, 34, 19, -15, -56,
+                33, -47, 34, -51, 56, 51, -33, 21, 1, 27, -5, 16, -57, 37, 6, 8, -23, 19, 17, 55, -56, -21, 7, -7, 17,
+                -98, -19, 46, 50, 9, -44, -55, 1, -2, 65, 2, 53, -14, -109, -49, -54, 1, 122, -11, 111, -5, 11, -63,
+                -12, 11, 43, 1, 19, -4, -3, -82, 14, -60, -14, 60, 20, 71, 2, 13, -26, -27, -28, -51, 10, 112, -29, 14,
+                18, 62, -26, -34, -2, 3, 46, 72, -82, 42, -22, 26, -11, -66, 5, -39, 9, -105, -55, 213, 36, -59, -102,
+                64, -8, -58, 1, 96, -65, 77, 63, 5, -21, 78, 10, 48, -100, -77, -130, 73, 142, -44, -29, -62, 11, 45,
+                53, 15, -85, 7, 5, 15, 7, -13, 3, -39, 56, 30, 12, 67, -164, 40, 11, -11, -46, 85, 11, 43, -96, 9, -27,
+                39, -45, 43, 33, 12, -58, 8, -54, -29, 119, -64, -8, -35, 45, 31, 94, -10, -42, -19, -52, 16, 13, 6, 57,
+                96, -34, -29, -27, -81, 11, 12, -32, -23, 58, -2, -48, 18, -8, 43, 1, 53, 17, -9, 22, -95, 32, -16, 44,
+                79, -61, 8, 14, -27, -9, -42, -50, 71, -4, 32, -84, 44, -14, 10, -55, -39, -49, 28, -13, 1, 100, 31, 6,
+                -37, 70, 62, -11, -39, -21, -26, 70, -16, 22, 42, -17, -2, -16, -78, -44, -26, -3, -1, 33, 38, 37, -30,
+                42, -19, 56, 23, -61, 42, 11, -89, 66, -6, 58, -25, 1, -60, 17, -46, -44, 40, 83, -95, -40, 46, 10, 5,
+                27, 36, -25, -175, -28, 14, 106, 50, 63, -14, 26, -67, 15, -199, 46, 135, -127, 17, 52, -382, 51, 152,
+                155, 87, 73, -127, 134, -23, 81, -57, -37, -38, -117, 3, 93, 25, 127, -19, -143, 36, -69, 23, 77, 33,
+                38, -16, -109, 28, 9, -136, 63, 55, -88, -71, 34, 140, -61, 164, -31, 38, -76, 4, -53, 19, -21, -155,
+                33, 70, 39, -108, 25, 122, 6, 24, -138, 62, 106, -48, -34, 28, -14, -79, 140, -18, -30, 150, -27, -118,
+                29, 15, -20, -210, 9, 139, 3, 40, -3, -117, -22, 46, -48, -104, 102, 152, -149, -44, -108, 31, 187, 66,
+                26, -5, -33, 17, -26, -158, -13, 177, 73, -31, 36, -69, -15, 105, -4, -14, -47, 13, 11, -15, 72, -88,
+                72, 10, 3, -60, -128, -26, 72, 14, 81, -69, 57, 3, 22, 88, -169, 33, -37, 82, -38, 23, 72, -1, -159, 23,
+                11, 175, -79, -36, 6, 118, -52, 52, -197, 50, 45, -17,
+            ],
+            [
+                108, 52, -49, 235, -118, -240, 45, -38, -123, -170, -263, 127, 83, -52, 212, 180, 19, 38, -372, 108,
+                -282, -137, 112, 511, 34, 37, -238, -200, 139, 249, -110, 83, 308, 20, 107, -90, 7, -195, 128, -290,
+                154, 16, -70, -24, 124, 26, -40, -191, -48, 269, -228, -112, 109, 34, 50, -79, -1, 57, -15, 16, 7, -62,
+                3, -9, 34, 132, 47, -92, -100, 87, -43, -70, -140, -4, -299, -67, -36, 49, 360, 132, -15, -218, 174,
+                -107, 252, -78, 131, -144, 28, 85, -253, -81, 183, -38, -24, 93, 143, 12, 31, 101, 19, 149, -170, -291,
+                -110, -203, 86, -184, -141, 257, 79, 212, 48, -152, -41, 27, 130, -131, 24, 91, -278, 67, 373, 108, 83,
+                -28, -150, -181, 138, -52, 81, -223, -81, 207, 38, -112, 210, 134, -57, 164, -45, -270, -123, -18, 38,
+                -49, 124, 46, 74, -188, 14, -62, 123, -254, -465, 71, 1000, 1, -223, -259, -27, -64, 295, 17, -218, 5,
+                -257, 245, -287, 85, -19, -45, 153, -275, 269, 114, -231, 5, 215, 239, -175, -182, 9, 115, 128, 117,
+                -76, -68, 45, 140, -204, -88, -46, -149, 92, -91, 279, -561, 524, -54, 129, -11, 97, 107, -25, -89,
+                -237, 24, 32, 206, 58, -15, -30, -286, 26, 4, -15, -271, 52, 137, 175, 105, 121, -309, -100, -351, 512,
+                68, -186, -55, 103, 6, 75, 36, 134, 94, -61, -354, 83, -12, 44, 38, -186, 57, 42, 2, 3, -3, -39, -81,
+                86, 79, 29, -53, -102, 76, 84, 197, -35, -175, 14, 4, -49, -45, 17, 54, 136, 77, 173, -33, -187, -242,
+                -63, 65, 162, 113, -182, -134, 121, -87, 30, -20, 64, -115, -20, 94, 13, -52, -28, 204, -17, -20, -48,
+                -258, 97, 65, -34, 338, -48, -22, -319, -174, 1, 254, -66, 251, -334, -176, 252, 127, -104, 44, -71, 19,
+                -71, -15, 181, -16, 38, -69, -361, 153, -88, 81, 68, -4, 75, 70, -170, -195, -51, 411, 34, 26, 27, -87,
+                35, -81, 484, -122, -108, -124, -88, -1, -28, -86, 63, 137, -25, 119, -268, 83, 9, 45, -183, 43, 59,
+                103, -287, 207, 5, -137, 116, 60, 68, -19, 10, -109, -54, -33, -73, -27, 299, -19, -27, -71, -37, 0, 4,
+                46, -50, 31, 41, -40, 94, -261, 8, 1, 49, 80, -70, 93, 6, 65, -55, -122, 5, 108, -59, 46, -59, 13, 174,
+                35, -8, 53, -77, -136, -10, 118, -217, 48, 34, -12, 100, -66, 121, 81, -53, -47, 46, 25, -66, -113, 63,
+                -159, 62, 24, 43, -8, -7, -23, -96, 5, -19, 2, 0, 4, 33, 66, -39, -220, 47, 65, -63, 96, 125, -16, -108,
+                15, 23, -167, 36, 32, 20, 145, 40, -26, -161, -213, -9, 67, 69, 228, -25, -81, -44, -6, 59, 109, 44,
+                -60, 72, -229, -60, -100, 159, 177, 83, -108, -84, -102, 112, 49, 24, 69, 32, -105, -77, -26, -46, -45,
+                -48, 42, 181, 14, -4, -6, 18, -160, 42, -1, 134, -27, 132, -179, 103, 29, -19, 39, 13, -125, -67, 63,
+                -58, 51, 51, -72, -111, 139, -19, -152, 79, -75, 43, 23, 38, 58, 24, -36, -60, 50, -248, 229, -26, 62,
+                -28, -60, -22, -54, 77, 115, -33, 0, -7, -206, 60, -10, -153, 54, 19, 237, -32, -3, 45, -24, -73, 171,
+                36, -125, 56, -67, -102, -110, 33, 117, -8, 75, -68, -205, 61, 171, 112, 9, -61, -24, -108, -26, 70,
+                -25, 150, -169, -42, 144, 158, -96, -68, -45, 159, -43, -62, -7, -27, 156, 97, 91, -75, -17, -69, -160,
+                -136, -59, 38, -185, 58, 38, 127, 115, 10, -2, -109, 82, 97, -60, 48, -72, -167, -99, 60, 210, -20, -56,
+                -4, 72, -171, -98, -2, -131, 306, 40, 14, 35, 25, -114, -65, 26, 71, 45, -22, 29, -86, -154, 157, -16,
+                83, -64, -24, 99, -29, 89, 58, 5, -132, -89, -3, 96, 111, -65, 57, -120, -65, 110, -89, 56, 8, -41, -24,
+                -129, 214, -10, 38, -62, -194, 0, 110, 79, -20, -61, 79, 2, 67, 57, -84, -90, -159, -38, 46, 196, 60,
+                -37, 33, -398, 64, 307, -174, 141, -119, -84, 127, 124, 51, -66, 6, -45, 242, -13, -64, -51, 27, -129,
+                66, -83, -101, 67, -184, 79, 49, 152, 31, -99, -53, -135, 288, 39, 139, -126, -151, -6, 251, 8, 12,
+                -196, 52, 77, 181, -389, 113, -57, 10, -161, -81, 80, 28, 64, 173, -1, -50, -31, 15, -24, 1, -87, 17,
+                14, 137, 9, -45, -80, -82, 26, 19, 22, -24, -20, -225, 378, -86, -70, 20, 7, -24, -54, 142, -26, 85,
+                -155, -39, 22, -71, 23, -28, 109, -78, 56, -72, -47, -17, 6, 5, -1, -41, 161, -21, -32, 23, 15, 143,
+                -96, -75, 38, -26, -18, -25, -45, -92, -13, 183, 32, -61, 32, -191, 7, 52, 180, 21, -45, -12, 57, 112,
+                -29, -1, 3, -8, -127, 4, 99, 21, -100, -64, 69, -1, -32, -8, -82, 43, 174, 36, -19, -86, -63, -8, -63,
+                -51, -6, 97, 59, -178, 144, -31, -78, -54, -51, 106, -9, 176, -64, -45, -57, 167, 25, 53, -55, 4, -97,
+                -28, -76, 92, -15, -17, -112, 36, 114, -50, 15, -76, -113, 31, 91, 4, 93, 46, 53, -20, 72, 8, -67, 129,
+                -225, 56, 7, -104, 60, 73, -69, 14, -43, 48, -86, -93, 2, 316, -38, -123, -32, 89, 119, 91, -18, 134,
+                -326, -28, -66, 11, -11, -34, 92, -29, 41, -98, 24, -210, -54, 352, -84, -15, -30, -62, 98, 153, 101,
+                126, -148, -226, -41, -13, 43, -57, 53, 62, 152, 79, -8, -123, -161, -18, -113, 47, -33, 10, -25, 63,
+                63, 11, 99, 17, 9, 24, -122, -6, -36, -23, 17, -114, 132, -66, -26, 160, -84, 19, 22, 87, -201, -39,
+                -58, 103, 61, -76, 7, 142, 27, 66, -198, -8, 35, 100, 182, -3, -190, -136, -3, -25, 70, 65, -36, 160,
+                -133, -12, 60, -75, -35, -256, -63, 134, -39, -36, 181, 62, 13, 107, -19, -33, -10, 51, -89, -70, 57,
+                51, -46, -73, 24, 61, 89, -112, 1, 96, 110, -44, 82, 18, -9, -25, -234, -84, -4, -147, 35, 1, 74, 31,
+                88, -270, 68, -20, 81, 119, 26, -66, 56, 50, 66, 44, -99, -127, -122, 3, 180, -26, 33, -105, -15, 103,
+                91, -30, -56, -93, 315, 223, -129, 3, -146, -38, -141, -161, -77, 100, 394, 14, -88, -66, -121, -79,
+                -182, -12, 13, 167, -143, 135, 95, -160, -39, 98, -50, -67, -29, 149, 93, 76, 75, -184, 438, 1, -116,
+                -109, -185, 128, -70, -95, 158, -48, 132, -105, -105, -566, 11, 25, 81, 189, -46, 62, 240, 167, 171,
+                103, 207, -188, -406, -8, -51, -381, -188, 96, -8, -2, 132, 181, 166, -13, 128, -23, -63, 199, -422, 37,
+                152, -99, -14, -24, 202, 148, -32, -1, -186, -22, -89, -68, 51, -75, 85, 116, -3, 100, -91, -177, 76,
+                -171, -31, 219, 71, -167, -113, -92, 133, -7, 95, -141, 286, -77, -211, 237, 30, -65, 113, -101, 68,
+                -27, 84, -206, 53, -326, -83, 342, 158, 41, -51, 33, -261, -90, -109, 182, 250, -28, 226, 43, -133, 105,
+                -238, 139, -119, -16, -32, 130, -195, -17, -21, 206, -61, 140, 91, -229, -92, 23, 35, -77, 104, -25,
+                146, -87, 16, -51, -13, 148, -140, 43, 266, -147, -97, -188, 21, 108, -11,
+            ],
+            [
+                -241, -65, -97, 389, 90, 175, -175, -63, 14, 55, 67, 216, -301, -45, 28, -20, -57, -41, -56, -45, 166,
+                122, 227, -302, 2, 106, 82, 163, -97, -128, -47, -66, -198, -77, -190, -5, -41, -120, -36, 681, -152,
+                168, -164, 25, 74, -126, 5, 186, -72, 89, -338, 36, 174, 173, 78, -125, -86, -252, 187, -3, -227, -137,
+                291, 241, 67, -242, -25, 92, -188, 257, -157, 210, -185, 70, -13, -284, -115, 182, 334, 25, 16, -149,
+                -28, 98, 11, -62, 126, 3, 43, -20, -275, -55, 221, 104, 1, -4, 192, 36, 114, 62, 54, 66, -125, -385, 16,
+                -185, 246, 26, 98, -1, -133, -53, 83, -3, -18, -22, -16, -103, 129, -34, -2, 27, 255, 145, -176, -97,
+                -29, -109, -11, 57, 1, 110, -224, 30, 138, -87, 149, -66, -158, -23, -94, -142, 301, 47, -24, -36, -59,
+                321, 112, -97, -42, -159, 177, -180, -278, 15, 486, 4, -125, -85, -77, 44, 218, 20, 6, -72, 78, -202,
+                -9, 86, 19, 31, -8, -54, -56, 3, -11, 51, -34, -46, -37, 84, -11, 19, 57, 135, -18, -90, 9, -38, -14,
+                -26, -8, -98, -24, -195, 174, -19, 147, 39, -117, 257, -250, -36, 107, 44, -377, 385, 199, -12, -95,
+                -178, -6, -44, 89, 61, -14, -108, 143, 113, 115, 13, -81, -167, -4, -43, 60, 206, 8, -82, -78, -52, 0,
+                145, 90, 92, -241, -82, -35, 44, -85, 116, 167, -58, 220, -69, -159, -118, 41, 73, 106, 305, 21, 102,
+                -342, -292, 37, 123, -25, -6, -106, 62, 52, -123, -141, -24, 2, 105, 51, -91, -132, 244, -331, -162, 97,
+                66, 235, -41, 122, 29, 121, -78, 21, 142, -86, -316, 99, 110, 89, 354, 230, -325, -24, 26, -161, -176,
+                137, -179, -155, -55, 357, 72, -66, -97, 42, -213, -96, -7, 90, 25, 116, 59, -6, 147, 17, 20, 26, 132,
+                -376, 54, 19, 1, 181, 76, 75, -61, -459, 182, 139, -274, -45, -114, 26, -13, 332, -36, 117, -77, -210,
+                142, 40, 123, -32, -88, -127, -224, 192, 61, -226, 140, -127, 325, 275, 52, 111, 145, 145, -429, -575,
+                291, 48, 72, -10, -121, -91, 28, 105, -16, -61, 127, -46, -37, 82, 52, -207, 103, 183, 18, -34, -31,
+                -20, -5, -38, -59, -71, 54, -23, -103, 133, -6, 6, 25, -66, 71, -60, 233, -15, -144, -66, 62, -36, 65,
+                42, -37, 96, 15, -164, 34, -14, -6, -71, -47, 36, 23, -25, 118, 143, 26, 29, 14, -34, -40, -103, -21,
+                11, -76, 86, -72, -30, 20, -27, 102, 25, 27, -82, -5, -69, 112, -60, 66, 140, 31, -99, 13, 48, -95,
+                -141, 118, 55, -24, -142, -24, 59, 171, -42, -39, -56, 55, -108, 115, 75, -31, -44, 8, 30, -71, 57,
+                -135, -15, 94, 128, -72, 42, -26, -138, -26, 71, 50, 10, 30, -32, 5, 53, 50, -119, 5, 38, 14, 73, -122,
+                98, -53, 72, -22, -68, 37, -42, -19, -47, 57, 16, 44, 113, -109, 75, 87, -65, -38, 2, -128, 110, -29,
+                24, -32, 105, -95, 82, -42, 92, -118, 9, -26, 58, -132, 102, 52, -15, -34, -63, 14, -18, -1, -24, 16,
+                -81, 170, 86, 140, -88, -18, 8, 12, -167, 41, -47, 223, -120, 94, -54, -52, -57, 29, 19, -5, 49, 91,
+                -74, -15, 39, -88, 11, -135, -14, -87, 225, 4, -2, 12, -45, -133, 40, 31, 16, -6, 45, 67, -43, -181,
+                -98, 26, 257, 45, 51, -43, -4, 76, -89, -55, -3, -84, 199, -24, 76, 53, -71, -49, -9, -13, -28, 56, 6,
+                -21, 122, 159, -12, -32, -29, -178, -33, 95, -46, -40, -75, -36, 49, 101, 114, -27, 18, -111, 45, 10,
+                84, -118, 81, 235, 123, 252, -1000, 181, -53, 195, 115, 6, -317, -28, 19, 106, 149, -35, 27, -51, -34,
+                134, -312, 8, 270, -27, 19, -132, 3, 35, 131, -56, 53, -38, -2, -95, -85, 203, -94, -16, 13, 90, 50, -6,
+                -66, -30, -105, 95, -51, 128, 75, -14, -11, -84, 75, 62, -131, 43, -56, 166, 58, 16, 37, -19, -62, -125,
+                -42, 150, -46, -22, 78, -6, -106, 9, 160, -28, -198, -35, 2, 14, -70, 167, -185, -7, 83, -10, -67, -47,
+                130, 118, -3, -86, 9, -186, 121, -10, 145, 25, 36, 130, -151, -6, -177, -5, 235, -47, -169, -37, -142,
+                47, -96, -35, -189, 637, 111, 34, -159, -124, -35, -32, 111, 109, -24, -7, -62, 31, -25, -111, 40, 172,
+                -107, -110, -148, -24, 136, 17, 219, 32, 195, 36, 56, 10, 4, -227, -67, 7, 119, 92, 42, 32, 52, -75,
+                -37, -211, 164, -119, -4, 93, -124, 5, -6, 4, -69, 0, 50, 64, 36, -15, -143, 91, 36, 61, 75, -44, -102,
+                -85, 18, 55, -17, 79, 30, -241, -82, 81, 132, 32, 34, -2, 142, 48, -109, -93, -31, 26, 56, 9, -8, 3,
+                -44, -5, 43, -40, 116, -11, -44, -53, -9, -74, -124, 214, -60, -62, -59, 5, 80, -6, 133, -18, -13, 11,
+                20, -51, 24, 25, 58, -61, -31, 3, -1, 15, 38, -21, -20, 32, 59, -50, -41, -34, 37, 9, 70, -35, -12, -88,
+                12, 80, -95, -48, 116, 50, 77, -58, 95, 34, 59, 44, -127, -110, 53, -39, 14, -4, 57, 55, -94, -27, -12,
+                -41, 73, -84, -8, 16, -31, 102, -113, 8, -65, -142, 19, 187, 80, 41, 53, 59, -5, 33, 19, -148, 67, -63,
+                70, -64, -89, 46, -88, 126, -56, 70, 187, 0, -16, -56, -44, -82, -28, 53, -21, 49, 18, -66, -10, 72, 29,
+                -56, -17, 24, -86, -68, -13, 102, 116, -42, 94, 135, -23, 3, -43, 36, -190, 3, -23, -52, -23, 12, -32,
+                62, -9, 80, 43, -50, -28, -41, 103, 24, -153, 116, 119, 33, 75, -172, -37, -131, 32, 96, 14, 27, 28,
+                -65, -125, 43, 48, 45, 53, 71, 36, -340, 28, 150, -50, 67, -60, -119, 146, -115, 104, 97, -9, -30, -69,
+                -32, 8, -97, 100, 8, 13, 83, 27, 3, -51, 108, 25, -110, 6, 6, -143, -1, 68, -172, -30, 59, 138, 96, 119,
+                -39, -140, 101, 32, -46, 94, -107, 37, 91, -62, -14, -99, 34, -10, 38, -63, -94, 60, 17, 5, 50, 16, 23,
+                41, 1, -33, 56, -46, 2, 27, -32, -13, -13, -70, 52, 114, -84, 13, 17, 1, 97, 32, -81, -103, -14, 59, 22,
+                -132, -103, 211, 76, -73, -32, 140, -73, -16, 63, 5, -8, 70, -33, 7, -74, -32, 61, -35, -14, -56, 10,
+                49, 33, 3, 43, -119, 68, 11, 32, 74, -97, 27, 15, -23, -6, 25, -33, -39, 48, 0, -45, 93, -6, 5, -151,
+                96, 24, -149, -48, -180, -118, 47, 516, 39, -93, 143, -57, -118, 23, 154, -45, -21, -65, 126, -130, 57,
+                126, -16, -34, -16, -98, 152, -19, 137, -73, -274, 44, -72, 119, 44, 180, -126, -29, 66, -25, -115, 20,
+                -54, -24, -33, 41, 24, 92, 105, -136, -2, -12, -79, 43, 54, -11, 31, -10, -30, 95, 46, 100, -76, -89,
+                41, -71, 24, 25, -11, -61, -33, 44, -1, 28, 116, -45, 194, -74, 25, 28, -121, -108, -67, 91, 109, 57,
+                -139, 84, -26, -93, 97, 46, -143, 163, -122, 29, -64, 10, 51, 78, -3, -38, 17, -28, -34, -29, 27, 99,
+                13, -20, -97, 28, -90, 55, 32, -52, -3, -22, 4, 58, -23, 21,
+            ],
+            [
+                77, 54, 64, -312, -17, 41, 135, -69, -30, 266, -155, 149, 188, -21, -229, -194, 90, 13, -150, -3, 269,
+                113, -290, -68, 21, -23, -46, -218, -31, 121, 196, -46, 120, 134, 134, 159, 6, -282, -94, -203, -33,
+                -131, 126, -77, -71, 59, -36, 135, 4, -143, 127, 99, -121, -99, 4, 102, -85, 239, -364, -13, -37, 215,
+                190, -169, 75, 194, 95, -44, -41, -193, 36, -150, -1, -64, 38, 7, -133, 167, -169, 129, -17, 44, -47,
+                -32, -20, -7, 163, -110, -28, 159, 230, 222, -148, -48, -421, 9, -250, -19, 156, -54, -95, 94, -113,
+                255, 60, 257, 29, 4, -19, -775, 100, 318, -276, 72, -125, 11, 26, 15, 51, 199, -332, -194, 169, 191,
+                119, 62, -111, 70, 147, -171, -14, 150, 230, 60, -360, -68, 68, 0, 35, -13, 2, -14, -171, 66, -32, 0,
+                111, -349, 11, -45, 227, 52, -30, -28, 225, 96, -258, -23, 37, -45, -141, -66, 282, -33, 54, 309, -473,
+                40, -197, -123, 5, 153, 49, -61, 131, 17, -281, 67, -63, 230, -85, -66, 197, -25, 168, -77, 71, 20, 95,
+                22, -216, -109, -330, -129, -132, -162, 106, 98, 392, 130, 165, 6, -762, -46, 114, -110, 83, 523, -187,
+                -11, -78, 21, -5, 62, 155, 15, 33, 260, -97, -120, -65, 105, -6, -137, -53, -12, 368, 110, -219, -110,
+                -67, -43, 122, -38, -12, -58, -102, 19, -28, 70, -144, 90, 200, -66, 268, -74, -216, -84, -24, 187,
+                -108, 140, -108, 14, -239, 112, -54, -182, 156, -111, 121, 66, 114, -135, -95, -164, 97, 88, 68, -79,
+                -65, 123, -241, -32, 161, 142, 112, -110, -18, -41, -24, -56, 49, 17, -112, -231, 83, 247, -30, 62, 272,
+                -228, -49, 181, -152, -81, 82, 31, 217, 101, -11, -88, -111, -248, 44, -285, -71, 222, 163, -264, 150,
+                14, 77, 314, -30, 147, -148, 45, -183, -248, 108, 272, 407, 219, -190, -63, -431, -348, 156, 101, -228,
+                -416, -12, 89, 14, 269, 281, 189, -732, -190, 73, -15, 95, 273, 77, -28, 25, -144, -103, -52, 142, 59,
+                -9, -33, -8, 156, -8, -388, 102, 162, -13, 3, 141, 171, 47, -99, -310, 35, 214, -97, 11, -69, -254,
+                -157, 372, -44, -75, -151, 147, -121, 52, -30, 139, 12, 197, -130, -5, 78, -31, -63, -5, -67, 174, 26,
+                50, -449, 36, 249, -22, -91, 14, -81, -36, 272, 82, -46, -147, -85, 104, 61, -19, 74, -121, -146, 17, 4,
+                48, -97, -180, -22, -143, 221, 56, 90, -61, -269, 122, 75, 78, -206, 95, 140, -103, 161, 84, 112, -450,
+                44, -68, 193, -12, -24, 17, 58, -77, -70, -39, 120, 252, 31, 42, -230, -30, 47, -84, -53, 40, 17, -56,
+                -31, 78, -197, 79, 45, 142, -30, -17, -122, -67, 42, 162, -137, -72, -28, 11, 127, 52, -160, -59, 103,
+                79, 43, -82, 114, -96, 69, -152, -1, -110, 22, 142, 143, -88, -116, -28, 10, 179, -34, 52, 111, 54, 145,
+                -376, -158, -164, -62, 75, -100, 61, 78, -71, 157, 58, 20, -51, 9, 60, 26, 27, -176, 133, 18, 46, 83,
+                -462, -27, 79, 103, -27, 67, -80, -70, 23, 331, -323, 53, 460, -172, -2, -144, 181, -135, -19, -194,
+                -25, -254, 8, -52, 104, -74, 83, 183, -252, 261, -173, 9, -113, -83, 224, 101, -27, -174, -67, -106,
+                377, 216, -117, -127, 2, -67, 261, -67, -30, -301, 169, 6, -75, -582, -75, 64, -18, 15, 318, 325, -92,
+                -83, 120, -33, -81, -157, 189, 111, -292, 118, -346, -78, 259, 83, -78, 310, 5, 50, 79, -212, 141, -162,
+                88, -15, -16, -129, 109, 137, -88, -55, -133, 149, -100, -288, -168, 88, 88, 127, 102, 124, -112, -8,
+                -16, -40, 471, -147, -186, 13, 127, 32, -346, -21, 9, 199, 101, -128, 408, 72, 60, -69, -273, 61, -41,
+                -244, -4, 77, 40, 160, -284, 303, 12, -330, -77, 1, 3, -72, -16, 299, 89, -254, 13, 120, -201, 42, 221,
+                -37, -136, -48, 253, -40, -105, -129, 210, -147, -12, -57, 37, -5, 211, 148, -36, -168, -136, -78, -193,
+                4, 132, 327, -8, -563, 171, 104, -7, -142, -153, -231, 116, 230, 190, -31, -252, 78, 57, -375, 144, 508,
+                19, -204, 113, 96, 104, -39, -375, 145, -298, 229, -103, 174, 40, 236, -4, 22, -460, 68, 55, 18, 369,
+                -62, 119, -89, 250, -686, -358, 91, 68, 375, 126, -81, -149, -97, 227, -171, -51, -2, -130, 140, -5,
+                -35, 67, 51, 429, -141, 116, -17, -192, -340, -27, 186, 112, 159, 93, -1000, 329, 123, -148, -24, -149,
+                258, 0, 91, 21, -76, -113, 54, 153, -6, 0, 151, -168, -97, -60, -113, 137, 27, -66, -76, 142, -18, -7,
+                123, -130, 32, 56, -144, 4, 40, -38, -96, 31, -77, 16, 68, 138, -68, -120, 47, -69, -36, -97, 162, 117,
+                -31, -18, -133, 51, -82, 45, 110, -28, 27, 86, -10, -139, -105, -138, 50, 149, 81, -28, -88, 87, 115,
+                -129, 52, -47, 12, -93, -128, -38, -52, 80, -4, 116, 93, 67, -68, 6, -262, 172, -35, -63, 157, -160, 85,
+                67, -27, -53, 22, 165, -125, 12, 38, 35, 84, -102, -106, 61, -49, 4, -35, 42, 12, -50, 190, -26, -162,
+                -9, -56, -52, 191, -53, -31, 135, -152, 97, 64, -173, -47, 21, 14, -143, 141, -98, -16, 96, 34, 123,
+                -93, -83, 12, -162, -171, 99, -7, -76, 492, 44, -246, 15, 43, -23, 3, -16, -56, -53, 62, -322, 222, 474,
+                -190, -26, -73, -140, 29, -19, 72, -4, 107, 25, 30, -203, -34, 6, 55, -153, 97, -57, -85, 294, -183,
+                148, -170, 12, 45, 10, -23, -286, 237, 89, -42, -90, 116, 31, 46, 36, -214, -62, -134, 135, -86, -99,
+                -18, 244, -6, 52, -2, 25, -145, -28, -98, 109, 61, -17, -177, -115, 2, 52, 189, 119, -80, 20, 101, 44,
+                1, -138, -31, -88, 65, -63, 0, 66, -38, 6, -32, 120, -86, -19, -67, 124, -71, 3, -9, -2, 15, -243, 32,
+                -98, 107, -38, -1, 101, 114, -1, 88, -13, -58, -135, -2, 115, -20, 167, 59, -126, 188, -87, -98, -69,
+                -60, 148, -22, -35, 0, -82, -7, -39, 11, -48, 36, 67, 37, 5, 79, -145, -58, -163, -70, -107, -49, -93,
+                62, 68, 325, -89, 104, 125, -129, 172, -36, -28, -146, -132, 167, 47, 276, -135, -91, -40, -117, -151,
+                -34, 28, 140, 77, -45, -21, -19, 9, 34, -6, -1, -130, 272, -112, -92, -8, 216, -202, 213, -90, -60,
+                -212, 116, -53, 272, -374, 204, -43, 64, -54, -41, 135, 40, -216, 24, -119, 113, 24, -27, 191, 6, -139,
+                -298, 7, 181, 9, 16, -170, -332, 396, -478, -105, 738, -121, 45, 100, 175, -95, 5, -111, -124, 133,
+                -109, -40, -416, 125, 274, -120, -95, 227, 20, -107, -107, -222, 128, 156, 256, 8, -138, 28, 212, 52,
+                38, -15, -27, -49, -266, -64, -158, -117, -42, -142, 51, 393, 52, -88, 52, -191, -226, 1, 285, -33, 175,
+                -164, -249, 20, 243, 162, 36, -217, 142, -69, -3, -97, 207, -16, -245, 417, -221, -7, -67, 173, -470,
+                -109, -93, 130, 417, -59, 98, 123, 106, -72, -57, -34, -132, 134, -33, 193, 4, -43, -292, -48, 60, 31,
+                -246, 76, -131, 419, -63, -41, -72, 2, 215, 106, 131, -219, -323, 106, -44, 38, -46, 89, -20, -244, 103,
+                239, -186,
+            ],
+            [
+                184, 323, -26, -359, -58, -230, 61, 93, 139, -23, -235, 9, 215, -46, -35, -35, 140, 144, -385, 204, 87,
+                -100, -174, 71, -69, 61, -163, 172, 131, 104, -182, -66, 205, 42, 25, 37, -170, -315, 102, 62, -51,
+                -130, 184, 139, -124, 142, -192, 20, -103, 25, 131, -302, 11, -46, 33, 238, 109, 193, -144, -82, 136,
+                75, -123, -177, 22, 229, -73, -163, 100, -116, 26, -38, 77, -135, 80, -10, -5, -14, -10, 6, 76, 306,
+                -113, -55, 60, -325, 19, 19, -52, -70, 75, -17, 176, 115, -211, -28, -66, 89, -223, -80, 139, -209, 50,
+                287, -76, 242, -55, 169, -267, -376, 67, 284, -152, 119, -170, -124, -60, 337, -130, 169, 14, 109, -149,
+                52, -34, 62, -146, 80, 75, -82, 100, 261, -69, -231, -106, 39, -142, -42, 73, -7, 31, 77, 84, -85, -69,
+                15, -91, 58, -72, 153, -41, 35, 52, 197, 221, -140, -539, 61, 121, 15, 101, -17, -38, 114, -1, -29,
+                -229, 86, 230, -43, -12, -73, -45, 43, -100, -12, 30, 51, 14, -51, -18, 106, -124, -21, -211, -197, -41,
+                -101, 21, 124, 136, 257, 187, 25, 63, 30, 173, -198, -243, -49, 244, 40, 69, -19, 31, 0, -392, 14, 99,
+                36, -83, -24, -83, -8, 34, 15, -114, -42, 44, -1, -14, 183, -43, -25, 1, -91, -184, 27, 26, 119, 25, 66,
+                -49, 196, 170, 108, -291, -166, 107, -86, -123, 109, 182, 18, 107, -94, -176, -35, 129, 209, -32, -8,
+                -94, 183, -318, -81, -37, 0, 32, 116, -13, -38, 31, -103, -204, -128, -13, -6, 41, 35, 230, 32, -107,
+                -7, -8, 75, -6, -18, 16, 43, 20, -286, 127, 191, 3, -127, 61, -1, 33, 365, 141, -122, -58, -99, -139,
+                -133, 434, -88, -73, -82, -86, -46, 44, -116, -107, 44, 86, -92, 236, -151, 2, -30, 53, 110, -182, -175,
+                -30, 160, -179, 231, -16, -30, 49, 197, 62, -88, -294, 108, 122, -119, -186, 229, 54, -48, 288, -352,
+                81, 59, -504, 187, 195, -243, 84, 127, -102, 16, 100, 54, -80, 221, -279, 58, -27, -92, -146, -15, 32,
+                -310, 453, 93, 29, -114, 72, 219, 213, -110, -352, 30, 199, -83, 4, -11, -264, -216, 359, -1, -97, -322,
+                122, -64, -9, 99, 158, 101, 194, -19, -97, -6, -170, 392, -192, -115, 89, -21, -13, -463, 153, 375,
+                -192, 61, -100, -51, -33, 157, 153, 69, -140, -68, 88, -32, -260, -146, 58, 17, -39, 302, 265, 12, -57,
+                -80, -116, 97, -10, -124, -100, -174, 87, -1, 160, -18, 22, 11, -64, 53, 3, 63, -49, -69, -92, 143, 25,
+                -12, -200, -108, 76, 90, 0, 117, -165, 25, 71, -51, -22, 56, 106, -34, -107, 163, -23, 88, -89, -146,
+                32, 70, 70, 15, -322, 38, 74, 79, 12, 22, 177, -80, 84, -407, 212, -26, 9, 18, 7, 110, -121, -103, 49,
+                5, 32, 9, -106, 102, 98, 87, -114, -99, -78, 96, 99, 24, -56, -79, 103, 199, -182, -122, 189, -50, -109,
+                -47, 39, 20, -25, -30, -19, 28, -20, 125, 8, 194, -126, -202, 279, 29, -144, -29, -130, -147, 56, 74,
+                -14, 52, 111, -129, -17, 31, -65, 18, 288, -28, -90, -196, 46, -139, 22, 84, -47, 241, -54, -13, -37,
+                -183, -56, 136, -196, -133, -37, 42, -18, 162, 134, 35, -60, -223, -33, -292, 376, 245, 42, -69, 61,
+                -115, 202, 49, 10, -258, 142, -103, -147, -294, -127, 80, 170, 33, 10, 262, -129, 100, -190, -52, 116,
+                -159, 245, 57, -109, 172, -106, -131, 51, 21, -64, 153, -181, 22, -140, 155, 16, 84, 11, 21, -1, -26,
+                -11, -105, 63, 27, 31, 10, -36, -98, -49, -135, 121, 149, 69, -32, 161, 114, -18, 116, 53, 21, -453, -7,
+                -18, 64, -123, 194, -85, -44, -28, 27, -146, 78, -70, 181, -58, -50, -62, 114, -83, -231, -12, 45, 111,
+                49, 42, 66, 82, 157, -33, 129, -118, -332, 22, 82, -29, -20, 53, -61, -91, 112, -50, 74, 25, -36, -12,
+                39, -186, 214, -79, 23, -48, 50, -186, 46, -159, 90, 9, 187, 90, -172, -158, -110, -18, 312, 79, -36,
+                124, 14, 56, 328, -233, -152, -113, -35, 126, -48, 101, 157, -39, -549, -6, 245, -90, -82, -181, -24,
+                283, -28, 186, -76, -43, -119, 25, -120, 145, 62, 139, -102, -29, 37, -184, 30, 86, -48, -188, 283, 154,
+                -94, -128, 41, -135, 7, 58, 84, -32, 74, 68, -177, 0, 116, -161, 99, -97, -21, -157, 29, -18, -91, 148,
+                196, -222, -218, -106, -126, -104, 1000, 9, -245, -81, -90, -39, 110, 1, 35, -1, 53, -150, -104, 74,
+                126, -134, 81, 80, 15, -65, -63, 72, -1, 7, -198, 42, 194, 7, -38, -129, 35, 155, 40, -50, -32, 133,
+                -141, 40, -48, 111, -102, -112, 105, 8, -14, 18, -52, -15, 102, -20, -39, -189, 48, 104, -17, 51, 22,
+                184, -215, -2, 40, -95, -6, -99, 117, 40, -7, 55, -94, 2, -35, -56, 100, -59, 75, 2, 34, -35, 51, -121,
+                80, -36, 13, -10, 127, 40, -111, -82, -52, 46, 29, 50, -13, -82, 82, -54, 2, 24, -22, -90, -18, -119,
+                -24, 20, 116, -33, 136, -30, 8, 66, -27, -130, 95, -28, 35, 138, -66, -25, -59, 69, -11, -42, -17, -96,
+                -68, 99, -20, 20, -28, 62, 18, -43, -66, 57, -46, 10, 99, -2, -21, -92, -55, -82, -89, 160, 222, -77, 1,
+                -45, -24, 48, 27, -63, -25, 168, -99, 147, -24, 17, 27, -111, 48, 7, -123, -31, -128, -60, 52, 84, 156,
+                -87, 3, -21, 22, -141, -74, -32, -112, 347, -1, 88, -91, 4, -41, -121, 37, 106, 6, 31, -33, 136, -43,
+                -137, -92, 56, 71, 83, -19, -53, -32, 64, -43, -55, 42, -81, -7, -97, 139, 17, 121, -108, 4, -45, 50,
+                87, -319, 95, 68, 8, 44, 131, 23, -36, 137, -142, -32, -162, 69, 71, -26, -36, -81, 98, -94, 36, 20,
+                -206, -78, 48, 21, 142, 158, -7, -90, -31, -75, -10, 27, -80, 67, 50, 40, 48, 98, -96, 111, -18, -33,
+                -61, -61, 119, 48, 4, -54, -7, -27, -17, -78, 28, -30, -46, -19, -69, 61, 30, 34, -101, -147, 603, -32,
+                21, -33, -125, -199, -84, 79, 78, -102, -110, 56, -108, 178, -37, 76, 59, 34, -92, 24, 26, -103, 60,
+                102, -42, 59, -184, 12, -1, -19, -163, -20, -27, 484, 23, -107, -58, -144, 157, -22, 84, 35, -105, -108,
+                -94, 40, 203, -66, 183, -548, 169, -75, 169, -46, -148, -110, 234, -214, 38, -15, 138, 64, -3, 136, 88,
+                -127, -66, -196, 145, 10, 110, 68, 83, 7, -195, -7, 47, -125, 97, 350, -178, 127, 95, -590, -46, 132,
+                -155, -177, -35, 64, 139, 92, 39, 21, -64, 442, -66, -90, 108, 27, -146, -223, -7, 84, 183, 110, -174,
+                15, -79, -145, 82, -109, -42, 72, -111, -50, 156, -11, -25, 13, 0, -174, 109, 243, -165, -13, 37, -139,
+                -78, 21, -34, 8, 113, 61, -137, 56, -109, -64, 100, -42, 75, 109, -88, -44, -93, -114, 5, 208, 113, 0,
+                211, -118, 76, 61, 80, 11, -94, -239, -191, -6, -44, 3, 116, -140, 99, 151, -40, 1, -234, 74, 76, 30, 0,
+                80, -67, -112, -54, 186, -111, -22, 153, 14, -179, -162, -72, -72, 537, 180, -210, -33, 1, 9, -108, 7,
+                155, 46, -123, 1,
+            ],
+            [
+                -38, -138, 65, 119, -239, -87, 131, 192, 70, -357, 93, -398, 90, 185, -17, 339, 25, 10, 141, 18, -396,
+                24, 314, -132, -175, 264, -109, 163, -87, -7, -13, -31, 95, -6, 108, 54, -89, -247, -197, 286, -54, 22,
+                -76, -165, 20, -76, 191, 141, -40, -150, 351, -210, 103, 13, -17, -45, 97, 320, -99, 31, -240, 1, -54,
+                -51, 63, 93, -103, 53, -282, -32, -17, 229, 260, 95, 9, -272, -9, 132, -121, -90, -8, 241, 153, -231,
+                -214, 177, -31, -83, -61, -25, -118, 98, -125, 68, 188, -20, -43, 92, 75, 21, -6, 232, -356, -12, 94,
+                374, 230, 51, -162, -203, -137, -243, -48, 54, 0, -94, 11, 255, -103, -71, 187, 42, -275, -114, -78,
+                -37, 136, 144, -27, -8, -2, -166, 70, -50, 240, -51, 95, -361, -14, -93, 4, 23, 205, 147, -14, 63, -288,
+                94, -33, -145, 255, 72, 28, 249, -234, -27, -345, -40, 221, 154, 12, -133, 139, -7, 83, 144, -284, 52,
+                -77, 162, -123, -260, 48, 165, 89, 0, 16, -181, 164, 74, 250, -91, -27, -200, 52, 83, -45, -85, -8, -19,
+                80, -55, -56, -28, 76, 144, -242, 4, -103, 210, 257, -164, -297, 253, -88, -1, -32, 77, 8, 95, -23, 156,
+                -3, -97, -12, -119, -83, 343, 50, -137, 40, -75, 67, -200, -57, 125, -252, 131, -55, 234, -95, -26, 178,
+                -156, -155, -23, 105, -114, 92, 77, 223, -255, 16, -44, -289, 116, 56, 183, -157, -307, -143, -97, 106,
+                -135, 314, 424, -45, 42, 181, -210, -84, 137, 50, -68, -54, -92, 165, 26, 135, 165, -228, -112, 244,
+                -183, -115, -68, 285, -58, 18, -119, -23, -156, 258, -55, 66, 132, 98, -316, -62, 168, 196, -215, -117,
+                -195, 252, -23, 39, 47, 139, -60, -441, -93, -146, 520, 87, 123, -471, 208, 54, 21, -182, 165, -88,
+                -149, 274, 133, -3, -144, 3, -21, -164, 85, -151, -123, 65, -13, 306, -1, 35, -201, 62, 134, 25, 141,
+                -81, -112, 47, 8, -82, -253, 99, 175, -49, 60, 79, 46, -11, 21, 57, -108, 22, -102, -73, -94, -502,
+                -331, -156, 306, 903, -48, -134, -94, -8, 285, -12, -79, 15, 31, 7, 128, 132, 158, 178, -394, -3, -201,
+                209, -214, 240, 59, -192, 378, -171, -304, 52, 223, -151, -43, 10, -390, 0, 304, 42, -54, -219, -430,
+                74, 409, 94, 88, -323, -155, -204, -74, 136, -34, 269, 389, 105, 56, -239, -138, -200, -408, -171, 1000,
+                203, 368, 148, 103, -32, 48, -482, -351, 108, -315, 106, 191, 62, -65, -80, -3, 146, 126, -82, -30, -72,
+                -126, -95, 139, 214, -135, -181, -6, 31, -221, 76, 227, -509, 132, -41, -127, 101, 194, 225, 30, -18,
+                -40, 31, -18, 36, 98, 99, -183, 71, -37, 10, -44, -195, 268, 184, -252, -103, -244, -79, -115, 375, 99,
+                1, 72, 156, -205, 79, 214, -102, 110, -139, -108, 142, -139, -37, 12, 93, 86, -98, -55, -306, -120, -88,
+                262, 7, -23, 226, 46, 117, 340, -91, 49, -129, -361, 107, -28, 94, -49, -142, -528, 51, -89, 258, 410,
+                -257, -229, 392, -72, -279, 184, 79, 186, 4, -157, -139, 215, 259, -128, -176, 127, -191, 570, -138, -6,
+                -20, 46, 26, -284, 142, -182, -248, -104, 104, 123, -43, 214, 339, 95, 193, 62, -221, -303, -118, -43,
+                151, 106, 86, 191, -599, 137, -155, 89, -214, -88, -148, 100, 338, 207, -103, -88, 70, 457, -63, 18, 77,
+                -198, -357, 2, 186, -264, -219, -111, 436, 264, -61, -227, 404, 86, 83, -35, -135, 33, -92, -339, 129,
+                149, -114, 174, -147, 146, -9, -323, 69, 423, 181, -181, -268, -120, -185, 86, 242, 206, -286, -367, 98,
+                366, 33, -288, 156, 329, 72, 328, -237, 107, -827, 78, 31, -64, -219, -111, 100, 163, 60, 45, 73, 94,
+                -401, 233, -146, -57, 163, 44, 34, 8, 12, -11, -172, 126, 105, -97, 37, -20, -20, 158, -37, -103, 47,
+                -58, 42, -166, 67, -52, 3, 118, 1, -9, -149, 58, 44, 0, 34, 43, -127, 101, -13, -39, 7, 73, 89, -53,
+                220, -279, 30, 155, 8, -234, 25, -69, 29, 62, -90, -98, 102, -77, 41, 78, 58, -10, -224, 32, 137, 25,
+                -84, -22, -92, 232, -296, -33, 39, 146, 89, 117, -224, 166, -68, 90, 2, 18, -110, 93, -89, 69, -126,
+                128, 96, 188, 51, -190, -29, -113, 72, 11, -6, 88, 9, -38, 26, -157, -161, -111, -172, -88, 25, 180,
+                -61, 392, -295, -52, -83, 91, 336, 24, 167, -185, -397, -158, -64, 44, 99, 567, -73, -13, -198, 18,
+                -139, 286, -224, 129, 56, 77, -242, 117, 3, 216, 140, -71, -152, -7, 66, -65, -19, -142, 58, -261, 258,
+                111, -75, -222, -88, -20, 418, -26, 30, -13, 318, -123, 56, 328, -10, -198, 37, -404, -155, -263, -182,
+                -18, -64, 325, 39, 323, -65, -17, 7, 65, -105, 222, -20, -83, 83, -138, 41, -89, -140, 108, 139, 2,
+                -221, -104, 178, 174, -24, 197, -1, -195, -159, -217, -168, -54, 147, 112, 168, 175, 163, -66, 119, -32,
+                -84, -107, -46, 57, 179, 56, 60, 123, -10, -170, -174, -58, -117, 23, 74, 160, -186, -74, 269, -143,
+                -176, -234, 46, 137, -33, -63, 34, 293, -251, 6, -166, -129, 22, 180, 154, 188, 233, 145, -271, 114,
+                -32, -11, -211, 36, 168, 51, -146, -227, -147, 396, -39, -51, 277, 45, 69, 20, 71, -272, 23, -227, 42,
+                -206, 12, -89, 198, 8, -21, 62, 614, 34, 101, -101, -89, -164, -219, -171, 254, -97, 304, 16, -244,
+                -140, -23, -64, 84, 96, -128, 233, -25, 56, -124, -187, 50, 103, 14, 55, 17, -12, -108, -115, 84, -67,
+                5, 152, -129, -22, -193, 174, 41, 189, -251, 71, -2, 224, -36, -231, 32, 98, 128, -74, -121, 164, -56,
+                -167, 21, 231, -447, 242, -88, -138, 27, 157, 173, 191, -171, -262, 25, 20, 96, -69, -223, -57, -28,
+                -152, -58, 12, 357, 153, -85, 134, -8, -138, 128, -21, -27, 22, 262, -81, -246, 180, -115, 25, 2, -23,
+                138, -198, 71, -235, 182, -59, 139, -34, 100, 8, -284, 263, -48, 55, -12, -77, 353, 17, -92, -267, 73,
+                -11, 73, -141, -242, 65, -72, -276, 26, 44, 150, 309, 30, -3, -76, -156, 218, -87, 31, 46, -183, 11,
+                -175, -247, 494, -60, -6, 171, 97, 31, 431, -323, 129, -253, -137, 31, -89, 147, -200, -60, 112, 74,
+                -99, 118, 35, -103, 141, 43, -83, -250, 72, 147, -164, -21, 252, 169, -59, -47, -40, -85, 52, 44, -113,
+                -348, 142, 27, -35, 235, -102, 6, 80, -277, -137, 247, 105, 82, 522, 167, -153, -105, -171, -187, 10,
+                -78, -100, 31, -32, -141, -156, 605, 86, -289, -42, -58, -23, 189, 51, -229, 103, 14, -18, -112, 55, 34,
+                -132, 129, -108, 158, -21, -7, 51, -32, -104, 72, 12, 35, 76, -3, -86, 112, 188, -254, 23, -51, -102,
+                -22, -121, 140, 0, -342, 402, 50, -79, 174, -54, -448, 80, 95, 220, 16, 0, -119, 89, 262, -64, 1, -93,
+                -72, 67, 93, 154, 686, -260, -349, -262, -124, -101, 60, -95, -593, 128, 157, 269, 181, -72, -379, 147,
+                163, -144, 31, 194, 64, 145, -18, -132, -105, -100, 225, 86, -95, -64, -23, -172, -352, 201, 105, 259,
+                50, -14, -140, -35, -83, -2, -7, 183, 101, 75, -19, -56, 66, -9, -69, -42, 59,
+            ],
+            [
+                -4, -24, 65, 22, -69, 57, 60, -87, -26, 160, 64, -45, 34, 23, -74, -115, -73, -46, 136, -99, 61, -7,
+                -94, 143, 43, -194, 204, 23, -50, 32, 38, -75, -65, 66, -113, -2, 25, -24, 136, -2, -81, 263, 42, -48,
+                65, -19, -100, -101, -20, -67, -30, 2, 76, 77, -40, 23, -35, -151, -53, -103, 112, 66, 193, -7, 28, -11,
+                72, 53, -68, -136, -6, 89, -40, 3, -53, -128, 54, 23, 136, 27, 43, 98, -18, 80, -40, -1, -67, -74, -16,
+                112, 78, 27, 77, 130, -440, 53, 57, -9, 170, -17, 81, -59, -224, 21, 40, 48, -8, -27, -114, -68, 38,
+                112, -83, -67, 2, 44, -4, 40, 26, 62, 40, -29, 17, 142, 12, -22, -70, -69, -35, -49, 1, -4, 166, 4, -59,
+                -5, -45, 57, 46, 38, 58, 76, -75, -136, -73, -147, -51, 338, 36, -48, 39, -73, -104, 53, -41, -58, -4,
+                31, 98, 46, -225, 3, 126, -50, 99, 90, 103, -126, -35, -140, -26, 126, -92, 80, 1, 107, -94, -2, -34,
+                -94, 87, 11, 139, 7, 156, 30, 26, -22, 28, -12, 2, -188, -86, -63, 26, -35, -201, 222, 130, 27, 32, -27,
+                -45, 134, -79, -46, 115, -64, 1, -142, -22, 43, 28, 87, 41, -17, 96, 64, -4, -9, -17, -159, 22, 28, -33,
+                74, -72, -43, 33, 163, -66, -36, -31, -9, -131, -21, 59, 109, 49, -3, 43, -90, 33, -113, 87, -13, 62,
+                12, 18, 4, 49, -49, -34, -8, 2, 38, 7, 107, -39, 169, -60, -39, -20, -104, 31, -23, 28, -52, -115, -53,
+                -71, 275, 81, -119, 111, 52, -301, -46, 160, 82, 2, -21, -30, 18, 90, -56, -62, 79, 28, -129, -32, 32,
+                93, -6, -38, 73, 145, -49, -58, -34, 58, -8, -37, 5, 18, -72, 246, -61, -1, -24, 2, -87, -3, 25, 15, 5,
+                52, -13, -32, -28, 70, -21, 7, 49, 88, 93, -152, -114, 29, 301, -41, -158, 86, 40, -124, -112, 14, -69,
+                72, -17, 120, -1, -15, -82, 73, 24, -38, 33, -195, -107, 200, 30, 7, -12, 260, 77, -5, -227, -23, -57,
+                -31, 133, -51, 138, -257, -83, 199, -28, -50, 94, 79, 138, 180, -98, -169, -153, 126, 171, 13, 86, -170,
+                120, -171, -155, 51, 81, -15, 1, 131, -326, 5, 92, 149, 80, 107, -55, -128, -41, -55, -36, -83, 24, 262,
+                -77, -119, 80, 2, -70, -152, 16, 56, -17, 18, -156, -19, 275, 21, 191, 156, 12, 41, 59, -484, 25, 81,
+                66, -122, 149, -17, -72, -68, 3, 60, -15, -138, -132, 49, -38, 178, 56, -74, -49, 17, 55, 7, 39, 4, 22,
+                110, -76, -69, 171, 26, -93, 35, -83, 42, -10, -78, -322, 65, -19, 84, 257, 6, 71, -27, 113, 46, -49,
+                -83, -56, 44, -169, -188, 143, 67, 81, 43, 0, -78, -81, -101, -8, 215, -50, 74, 49, 28, -72, 14, -75,
+                43, -4, 48, 39, 165, -19, -43, -3, -33, 190, -117, -119, -74, -91, 108, 40, -13, 90, -104, 65, 23, -21,
+                37, 124, -58, 181, -179, -85, 170, 144, -266, 55, -137, -40, 40, 55, 14, 7, 89, -9, 17, 45, 10, -155,
+                219, -240, 63, 55, 84, -24, -46, -91, 43, -16, 43, 28, -108, -101, 139, -9, -153, -2, -33, 11, 70, -27,
+                49, 105, -82, -36, 28, -96, 32, 47, 138, -11, -54, 106, 97, -1, -46, -4, 45, -123, 19, -107, 22, -75,
+                -7, 90, 154, -76, -37, 49, -9, -9, 2, -121, 130, 14, -71, 52, 85, -75, 70, -30, -106, 94, 2, -68, 100,
+                251, -65, -84, -81, -35, -53, -72, -8, -133, 139, 79, 55, 14, 57, -95, -31, 19, -41, 128, -17, 1, -43,
+                -147, -169, -114, 237, 1, 200, 55, -118, -42, 199, 9, 18, 9, -101, 45, 50, 28, -82, 21, -134, 73, -69,
+                135, 49, -115, -5, -92, 49, -37, 83, 88, 97, 153, 27, -7, -121, -290, 67, 95, -75, -70, 8, -45, 50, 60,
+                46, 46, -166, 164, 90, 40, -88, 13, -12, -20, -165, -29, -48, 113, 53, 31, 22, 44, 33, 61, -46, -9, 11,
+                183, -149, -64, 115, 34, -22, 58, -126, 30, -62, -8, -121, -34, 22, -72, 83, -13, -40, 196, 10, 46, -46,
+                113, 24, 49, -128, -48, 22, 5, -166, 6, 7, 26, 25, 97, -23, -113, 40, -158, -217, 70, 77, 345, -137, 52,
+                -16, 19, 0, -95, 172, 26, -48, -57, 130, 91, 19, -27, -31, -57, -101, 22, -134, 91, 62, 25, -45, 101,
+                -52, -207, -115, -85, -72, 1000, -104, -344, 16, 41, 45, -264, -74, 133, 179, -55, -160, -99, 124, 26,
+                149, -36, 55, -39, -156, 51, 47, 202, -88, -188, 72, 81, -68, -112, -8, -60, 131, -98, 112, 124, 17,
+                122, 48, -103, 10, -14, -78, 18, -4, 69, -61, -30, 69, -125, 93, 9, 27, 80, 40, 97, -110, -75, -21, -19,
+                -151, 59, -266, -69, 109, 66, 226, 46, 87, -78, 40, -92, 38, 99, 27, -100, -115, -49, 4, 20, 18, 6, 7,
+                129, -34, -43, 23, -102, -62, -30, 187, 82, -42, 116, -11, -51, 139, 68, -65, -133, -128, -133, 19, -33,
+                112, 14, 126, 42, -18, 2, 49, 71, -15, -212, 44, 99, 55, 28, -96, 55, 52, -47, 23, -50, 37, 128, -73,
+                -80, 62, -6, -98, 51, -102, -22, 25, 28, 44, -7, -3, 57, -36, 42, 58, -44, -1, -45, 22, 24, -36, -60,
+                -79, -55, 82, 42, 108, 19, 262, 10, -93, 225, -117, -118, -56, -93, -53, 22, -22, -23, 29, 52, 69, -53,
+                38, -22, 59, 40, 98, 58, -170, -82, 27, -122, -62, 65, 46, -44, 85, 26, 27, -81, 37, -79, 65, 13, -23,
+                61, -40, -46, -1, -49, 51, 113, -32, 25, 44, 9, -13, -74, 56, -49, 21, 27, -19, -85, 54, 77, 178, 0,
+                -25, -158, -88, -76, -18, -31, 42, 154, -5, 42, 20, 30, 18, -69, -9, 46, 68, -83, -35, 99, -53, -50,
+                -168, 90, 73, 64, 38, 43, -104, -83, -12, 92, 31, 15, -14, 93, -104, 5, 1, -6, 28, 17, 67, 64, -184,
+                -166, 86, 36, 13, 104, -76, -29, 160, 81, -23, -90, -15, 13, 186, 81, -148, -48, -71, 31, 5, -15, 20,
+                13, -98, 64, -37, -34, -9, 103, 130, 59, 58, -40, 1, -43, -72, -73, -85, 56, 84, 77, 70, -104, -57, -19,
+                60, 20, 90, -283, -81, 27, 167, 21, 23, -102, 6, 52, 30, 11, 49, -47, -192, -118, -3, 319, -86, 33, -3,
+                70, 42, -2, -61, 108, -44, -29, -11, 18, -17, 82, -22, 27, 79, 24, -20, -131, -147, -12, -22, 47, 16,
+                50, 17, 72, -75, -104, 227, -65, -13, -17, 76, -9, 183, 106, -29, 43, -169, 48, -112, -49, 79, -85, 60,
+                70, 20, -219, 22, 74, 40, 69, -148, 16, -7, -21, 41, 30, -81, 56, -39, 57, 54, -36, -1, 10, 125, -21,
+                -72, 257, -60, -34, -117, -57, -23, 89, -15, -88, -7, 73, 42, -51, 88, -52, 98, 19, -114, -36, 41, -22,
+                13, 64, -54, 110, -125, -191, 163, 40, -2, -33, -7, -225, -22, 80, 128, 102, -7, -11, 13, 46, 38, -9,
+                21, -70, 68, -78, 55, -48, -7, 6, 71, -45, -13, -63, 181, -152, 143, 12, -6, -80, -82, 86, 83, 82, -38,
+                -117, 58, -52, -81, -29, -23, -39, 73, -41, 124, 35,
+            ],
+            [
+                -62, -98, 15, -108, 134, 189, 19, -83, 10, -142, -76, -114, 113, 81, -77, 211, -27, 17, -93, 51, 29,
+                -68, 39, 57, -62, 244, 5, -75, -93, -46, 60, -28, -48, -101, -9, 74, -116, 463, -17, -240, 176, 84, 22,
+                -209, -142, 115, 284, -325, 70, 3, 249, 59, -69, -117, -152, -39, -104, 147, -2, 65, 59, 158, 43, -360,
+                74, 45, 81, -137, -178, -65, 251, -66, -11, -53, -21, 223, -62, 23, -63, -30, 60, -79, -49, -182, 10,
+                62, 148, 35, -146, -3, -79, 7, 349, -89, 9, -43, 96, -108, 122, -93, -138, 199, -103, 30, -24, -249,
+                -93, -1, 100, 220, 5, 48, 83, 206, -81, -49, -25, -231, 143, -41, -68, 1, 370, 49, -50, -158, -36, -103,
+                62, -208, 15, 24, 91, 96, 29, -103, -26, -17, -40, 84, 73, -156, 334, -248, -153, -95, 364, 382, 70,
+                -313, 11, -261, 169, 48, -62, -220, 330, -82, -99, -80, 64, -83, 116, -49, -41, 4, -158, 153, -303, 82,
+                -68, 77, 124, -59, 134, 19, 89, -48, 66, 59, -161, -22, 3, 19, 147, 172, 48, 19, 121, -172, -296, -34,
+                -133, -13, 128, -48, -63, -156, 377, -87, 215, 235, -138, -124, -50, -57, -255, 179, -116, 344, 26,
+                -198, -147, 29, 46, 21, -75, -224, 48, 54, 26, 57, -337, 456, -46, -63, 42, 264, -54, -59, -94, 15,
+                -148, 139, 180, 104, 307, -400, -85, -91, 36, 109, 56, -55, 12, 80, -143, -91, 5, -40, 72, 142, 2, -213,
+                -99, 136, 93, -221, 72, -165, 70, -116, 138, 134, -213, -78, -30, -13, 163, -46, 143, 81, -145, 178, 84,
+                128, -52, -9, -122, -57, -78, -21, -3, 3, 110, -16, -65, 77, 9, -92, -108, 6, 30, -61, 156, 65, -919, 7,
+                179, -71, 79, 147, 309, 275, -226, 265, -128, -65, -58, 115, 61, 41, 56, 31, -39, 61, 13, 109, 105,
+                -330, -42, -133, -62, -30, 458, -99, -13, -73, -80, -124, 141, 22, -57, -15, -48, 166, -97, 31, 243,
+                -347, -290, -87, -67, 619, 47, 226, -44, -140, 27, -15, 72, -167, 36, 108, -161, 363, 26, -295, 117,
+                -188, -93, -161, -2, -131, 279, -107, 138, 82, 243, -222, 158, 77, -65, -235, 223, -173, -44, -169, 133,
+                40, -127, -21, 171, 24, 149, 64, 3, 43, -249, -47, -79, 122, 233, 4, -20, -234, -16, 38, -102, 102,
+                -145, 86, 217, 284, -17, 28, -565, 117, 196, 326, -212, -134, 80, -141, -175, 65, 207, 32, 121, 129,
+                -345, 220, -149, -210, -17, -300, 0, 90, 144, 18, -1, 73, -49, -61, 303, 149, -183, 26, -144, -35, 112,
+                259, -289, -217, -69, -113, 48, 274, -14, -43, -86, -32, 36, -52, 239, -43, -180, 115, -254, -94, 311,
+                -26, 119, 15, 134, 130, -189, 105, -105, 226, -162, -133, 433, 15, 99, -170, 30, -305, -69, -28, -53,
+                -217, 247, 51, 114, -152, 96, -81, 7, -40, 138, 34, 209, -218, -66, -59, -147, -204, -148, 69, 25, 153,
+                87, 169, 42, 265, -319, -25, -161, -135, 179, 159, 196, 165, -116, 15, -115, 253, -164, -229, -82, 301,
+                -263, 52, 425, 60, -143, -344, 157, 207, -179, 152, 361, -264, 61, -489, 410, -1000, 159, 416, -80, 299,
+                7, -206, -19, -163, -135, -86, 62, 159, 318, -132, 308, -126, -146, 178, 320, -314, -219, 5, -244, 467,
+                261, 259, -37, -409, -206, -86, 136, 268, -48, 9, -78, 102, -90, -295, 159, 108, 394, -282, -364, -11,
+                63, -61, 97, -16, 347, 7, -204, 137, -190, -172, -336, -323, 372, -201, 53, 14, 275, 152, -1, -26, -246,
+                814, -99, -58, -137, -242, 40, 573, -165, -97, -321, -64, -99, 137, 117, 152, -23, -89, -39, 196, -123,
+                -186, 171, 212, -162, 5, -555, 23, 246, 66, 110, -75, -187, 17, -148, -90, 220, 157, -16, 298, -3, 109,
+                -38, 35, -262, -116, -62, -35, 15, -101, 83, 164, 45, -104, 22, -21, -171, 0, 222, -48, 61, -60, -111,
+                59, 86, -93, -124, 45, 94, 50, -27, -42, -12, 54, -38, -48, -19, 138, 43, 72, -124, -73, 14, 26, -28,
+                76, -55, -193, 108, -89, 26, 227, 119, -136, 43, 141, -20, -197, 18, -36, 40, 16, 129, 41, -22, -117,
+                -137, -65, 10, 166, -5, -59, 81, -30, 7, -73, 31, 54, 37, -118, -55, -75, -24, -67, 322, -15, -41, -147,
+                -284, 65, -49, 281, -81, 262, 280, -99, -223, -101, -31, 8, 204, -33, -114, 141, 191, 2, 42, 13, -253,
+                -16, 26, 18, -548, 144, 136, 93, 9, 127, -20, 308, 119, -25, -399, -363, 257, 129, 10, 51, -61, -61, 39,
+                46, -21, 2, -180, -59, 164, 23, 73, -44, 102, -74, 234, -50, -64, -211, -23, -47, 22, 145, 163, 30, -64,
+                -1, -71, -89, 38, 0, 130, -133, 164, 75, 106, -223, -96, -18, -66, -7, 73, 55, -173, 219, -73, -22, -45,
+                -131, 72, 89, 221, 28, -74, -154, -91, -202, 72, 39, 122, 34, -3, 36, 23, -59, 65, 102, 62, -43, -19,
+                -126, 77, 185, 16, 8, -100, 124, -169, -135, -81, -42, -62, -45, 17, 131, -21, 109, 49, -66, 79, 114,
+                -18, -19, -87, -46, 60, 191, 164, 29, -159, -45, -177, -57, -114, -19, 21, -71, -23, 126, -46, 132,
+                -109, 104, -117, 84, -79, 29, 213, -120, 30, 84, -177, -103, 39, 74, -83, 142, -33, -49, 73, -117, 74,
+                68, 28, -38, 107, 57, -169, 5, -106, 58, 124, -70, 59, -88, -2, -43, 183, -275, 62, 108, -178, 54, -118,
+                484, 12, 32, -121, -159, 23, 20, -14, 204, 240, 37, -384, -121, 84, -35, -232, -128, 50, -227, 224, 270,
+                164, 79, -105, -44, 6, -75, 232, -251, -102, 99, -54, 42, -26, -26, 4, 68, 111, 54, 45, -275, 44, -3,
+                -19, 49, -173, 159, -21, 450, 4, 270, -337, -347, 37, 6, -159, -177, 510, -57, -125, -29, -222, 20, -21,
+                25, 139, 82, -51, 35, 85, -35, -261, 78, -65, 105, 98, -1, 2, 26, -62, 57, -253, 127, 99, 11, -49, -66,
+                -37, 11, -295, -81, 342, 180, 162, 150, -6, -32, 121, -76, -104, -208, -19, -223, -5, -126, 55, 32, -28,
+                320, -26, -121, 463, 22, -58, -107, -14, -154, 560, 104, 82, -130, -331, -98, 12, -194, -131, 24, -19,
+                254, -15, 157, -7, -258, -63, 114, 37, -194, -130, -17, 89, 170, -4, -422, -79, 261, -62, 223, 92, -3,
+                216, -91, -34, 375, -230, -120, -77, -33, 76, -187, -81, 378, -89, 99, -43, -147, 128, -35, 25, 86,
+                -131, -68, -133, 133, 67, -22, 13, -211, 26, 55, 156, -77, 121, -50, -118, -183, -89, 132, 287, -93, -8,
+                106, 16, -129, -90, 20, 73, 19, -15, 55, 114, 59, -63, -74, -133, 63, 105, 76, 107, -4, -84, -64, -211,
+                81, 73, 88, -147, 40, -23, -62, -15, 52, -46, -153, 0, 9, 140, -56, 86, 26, 46, 148, -386, 83, 99, 152,
+                -43, -93, 73, 20, -59, -283, 0, 140, 114, 1, 39, -47, -103, -67, -20, 21, 116, 67, -177, -4, -240, -152,
+                276, 120, 2, 180, -26, -6, -193, -21, -42, 123, 348, -177, 21, 8, -13, -65, 3, 29, -112, 134, 35, -33,
+                82, 118, -153, 54, -50, -46, -273, -49, 155, 194, 117, -66, -35, -38, 149, 114, 134, -161, 189, -224,
+                -286, 89, 124, 121, 47, 25, -311, 158, -206, 48, 10, 219, 14, 13, -270, -166, 273, -87,
+            ],
+            [
+                145, -72, 196, -107, -15, -29, -129, 12, -225, 34, -1, 102, -85, -20, -11, 207, 40, -95, 391, -50, -375,
+                -66, -87, 243, 8, -65, -14, 90, -51, -64, 76, 20, -95, 9, 350, 198, 111, 25, -117, -481, 88, 365, 63,
+                -68, -129, 61, -117, -263, 71, 108, 182, 136, 64, -113, -232, -215, 168, 84, -128, 17, -154, -146, 232,
+                -73, 82, 193, -7, -108, 142, -255, -89, 44, 57, -61, 55, 111, 7, 15, -121, -62, -149, 21, -92, 155, -43,
+                95, 137, -124, -174, -33, 226, 54, -31, 130, -119, -53, -64, 69, 122, 10, 51, 259, -505, 59, -24, -10,
+                -76, 29, -118, 223, -28, 5, -64, -135, -50, -16, 86, -70, 170, 79, -302, 147, -312, 295, 37, 52, 74, 10,
+                66, 158, -283, 78, 75, -92, 84, -85, -79, -60, 34, -207, -90, -3, -73, 478, -27, -64, -128, 760, -40,
+                -153, -179, -169, 58, -2, 40, 172, -195, 2, 94, -169, 74, 88, 186, 88, -144, -150, -253, 112, -81, -182,
+                -20, -144, -71, -8, 265, 242, -142, -83, 32, 106, -4, 10, 38, 44, 39, -76, -17, -90, 74, 23, 48, 0, -82,
+                -155, -36, -33, -152, 223, 262, -27, 62, 356, 48, -27, -153, -184, -35, -66, -172, 202, -37, 110, 104,
+                -144, 9, -70, 123, 125, 32, 51, 17, -27, -89, -232, 92, 12, -50, 4, -111, -49, 74, 29, -2, 34, -36, 28,
+                215, -47, 10, -200, -75, -75, 141, -80, -94, 83, 119, -18, 0, 77, -42, 171, 53, -52, -199, -8, -21,
+                -192, 246, -394, 25, 11, 133, 192, -138, 56, 25, -23, -59, 5, 296, -161, -253, 83, 82, 71, 55, -31, -48,
+                42, 58, 308, -219, -28, 2, -86, -23, -12, 14, 14, -280, 125, 79, -10, 35, 24, 243, -210, -21, 8, 68, 72,
+                -28, -131, 195, -136, 134, -17, 75, -240, 36, -47, -96, -52, 214, 86, -99, 185, -74, -164, 2, 1, 71, 42,
+                -626, -68, 277, 303, -22, -210, 192, -215, 117, 49, -5, 96, 47, 58, -232, 23, 174, 76, -26, -119, 104,
+                -36, -74, -50, -74, 63, 156, -89, -8, 137, 134, 127, 74, -365, -166, 67, 249, -40, -34, -15, 160, 118,
+                -405, -33, 84, -120, -25, -243, -52, 45, 269, 42, -63, -131, 76, -44, -91, -52, 183, 123, 87, 123, 54,
+                -57, -173, 260, -186, -109, -67, -43, 19, -76, 80, -46, 114, 20, 13, -26, -173, -21, 268, -97, -28, 65,
+                152, 178, -74, 1, 69, 104, 72, -502, 168, -316, -376, 101, -126, 13, 487, 49, -36, -3, 33, -12, 112,
+                -249, 117, 39, -73, 71, 192, 119, -181, 155, -137, -147, 209, -127, -82, -62, -22, 48, 99, -62, -71,
+                133, -12, 76, -26, -43, -137, 82, 99, -203, 326, 348, -2, 57, -233, -391, -40, 21, 159, -88, -32, 38,
+                98, -156, -28, -52, 283, -162, 23, 35, -51, -47, 224, 114, -98, -93, -80, 3, -30, -39, 13, -92, 280, 80,
+                -209, -21, -42, -8, -5, 155, 3, -28, -50, -200, 7, 119, 116, 1, 42, 19, 111, -12, 8, -285, 30, 76, -35,
+                -58, 157, -409, 145, 93, -141, -54, 203, -2, -145, 133, -68, 74, -96, -215, 50, 132, -216, 266, 32, 47,
+                -412, 395, 14, -124, -47, 115, 132, -72, 91, -10, 99, 17, -115, 8, -129, 39, -135, 134, -87, 36, 35,
+                110, -12, -81, -111, -95, -25, -96, 97, 214, 17, 0, -92, 77, 153, 93, -2, -62, -111, -56, 16, -67, -134,
+                34, -40, 217, 96, -122, 187, -51, -9, -134, -8, 78, 25, -89, 35, 85, 12, 82, -3, 42, -144, -108, -87,
+                11, 10, -52, -28, -16, 95, 68, 27, 212, 156, -142, -224, -73, 78, -33, 56, -16, 249, 15, -166, 26, -93,
+                -69, 56, 85, -110, -32, 271, 16, -279, -7, 241, -46, -83, -62, 6, -127, 41, 30, 194, -84, 53, 180, -32,
+                -117, -103, -91, -41, -163, -10, -42, 107, -116, 119, 147, 24, 169, -29, -96, -30, 52, -7, -81, 20, -53,
+                21, 36, -34, 30, 11, -31, 97, 10, 83, -97, -56, -20, 9, -26, 74, -260, -141, -39, 17, 87, 214, 50, 138,
+                48, 38, -89, 98, 189, -242, -179, 75, -32, 74, -22, -142, -31, 11, 67, 82, -156, 175, 37, -11, -136, -2,
+                12, -77, 36, 143, 227, -27, -157, -66, -79, -19, -37, -54, -30, 179, -50, 78, -66, -84, -179, -233,
+                -262, -64, -105, 136, 791, 23, 7, 227, -3, -36, -42, -142, -34, -5, -88, 39, 97, 50, -134, -13, 55, -78,
+                113, -40, 28, -5, 22, 9, -49, -4, 42, 68, 122, -206, -145, 167, -44, 37, 100, -97, 12, -168, -30, 98,
+                48, -96, 37, -31, 99, -70, -24, 46, 39, 5, -31, -77, 8, -4, 17, 139, -57, -52, -116, -75, 173, -35, 39,
+                59, 7, 1, 4, -124, 249, -68, 35, 20, -116, 27, -66, 9, -100, 216, -101, 3, 13, -62, -78, 0, -24, 97,
+                -19, 16, 71, -139, -117, 57, 104, 26, 10, 79, -18, 68, -33, 11, 72, -14, 160, -37, -226, -148, -175,
+                -29, -92, 306, 4, 53, 82, -224, 30, -33, -174, 141, 200, -8, 68, -72, -29, 271, -69, 40, -95, -72, 28,
+                136, -186, -54, -46, 93, -18, 6, 70, 25, -151, 87, 75, -17, 61, -107, 28, -50, 94, 21, 39, -147, 9, 31,
+                4, 49, 38, 164, 44, 52, -86, -31, -228, -12, -93, 17, -57, 93, 134, -70, -12, 64, -157, 112, -52, -47,
+                -186, 285, -18, -167, -8, -13, 49, -47, 21, 79, 87, 1000, 190, -497, -98, -210, -31, -20, -333, -170, 3,
+                28, 132, 194, 94, -98, -182, -9, -35, -129, -78, 114, -152, 194, 97, 96, 39, 68, -22, -136, -147, -12,
+                115, -35, 164, 43, 117, -186, -55, -56, 8, 297, -71, 85, -72, -31, 3, -230, 19, 126, 31, -203, -51, 32,
+                -8, 37, 36, -120, -132, -124, -187, 301, 115, 41, 106, -28, -33, 120, 103, 19, -15, -48, -118, -9, 9,
+                -124, 165, -137, -186, 283, -1, -85, -111, 173, 142, -24, -25, -20, -50, -171, 19, -44, 143, -132, -104,
+                170, 119, 258, 98, -67, 116, 73, -137, -131, -209, -103, -85, -25, 37, -145, -45, 184, 182, 25, 27, 134,
+                0, 102, 17, -245, -60, 313, 191, 146, -203, -293, -71, 127, -210, 53, 180, 27, -61, 29, -84, -132, -11,
+                61, 32, 86, -4, -278, -46, 9, 141, -140, -79, -143, 297, 67, 139, -197, 56, 254, -78, -54, 530, -298,
+                -170, -95, -90, -208, -128, -142, 33, 192, -66, 462, -142, -448, 51, 20, -168, -320, 274, 364, 227, 205,
+                96, -208, 524, 9, -13, -231, -381, 133, -271, 116, 486, 349, -87, -622, -103, -619, 88, 23, 145, 142,
+                -188, -36, 445, -138, -56, 54, 29, -2, 137, 95, -117, -89, 4, 18, 35, -29, 31, 0, 31, 90, -47, -73, 99,
+                41, -166, 33, 24, -75, 72, -50, -140, 16, 46, 118, 14, -18, -73, 128, 61, -96, -86, -97, 181, -146,
+                -131, 312, 368, 305, -144, -366, -199, 68, 368, 243, -371, 53, -164, 201, -397, 268, 118, 231, 54, -184,
+                -373, 105, -219, 299, -199, 240, 350, 29, -158, -513, -48, -214, 47, -239, 87, -98, 406, 117, -106, 130,
+                28, -29, 52, 75, 109, -250, -114, -39, 6, -32, -248, 211, -96, 207, -9, 215, 110, 63, 60, -44, -93,
+                -259, -53, -94, -27, -69, -43, -56, 103, 138, 49, -19, 149, 35, 9, -100, 146, -228, 9,
+            ],
+            [
+                39, 73, -112, 271, 164, -201, -106, -82, -114, 119, 12, 253, -280, -59, 5, 111, -61, 19, 54, 10, 255,
+                -67, 90, -254, -22, -236, 19, -141, 105, 283, 45, -7, 243, 179, -18, 14, -9, -144, -170, -51, -63, 8,
+                81, -159, 105, 208, -188, 55, 151, 160, -54, -248, 32, 49, 103, -148, 124, -70, 107, 12, -119, -66,
+                -237, 296, -65, 0, 79, -116, -158, -64, 116, 253, 167, -44, 66, -215, -56, 125, 116, -113, 75, 275, -7,
+                -8, -42, -263, -32, 48, 247, 162, 159, -135, 176, -312, 1, -252, 129, 87, 34, 41, -134, -418, 100, 208,
+                -32, -208, -209, 85, 176, 69, 69, 96, -142, 127, -15, -70, -55, 227, 7, -33, -133, 91, 218, -238, 169,
+                -58, 25, -27, -73, -259, 245, -126, 4, -39, 289, 5, 133, 87, -98, 252, -123, -20, 183, -368, -66, -20,
+                -58, 328, -63, 12, -24, -63, 37, -188, -218, -16, -198, 82, 308, 239, -218, -52, 13, -81, 201, 328, 85,
+                -229, -12, -175, -49, 168, 243, -233, 194, -91, -368, -106, -70, -23, 209, 147, 191, 66, 178, 201, 155,
+                116, -218, -20, -146, -220, -301, -269, 2, -86, 45, 248, 357, 51, 269, -182, -110, 35, 178, 45, 33,
+                -222, -123, -291, -129, 65, 29, 317, 58, 121, 144, -255, 167, -73, 92, -284, 367, -112, -178, 139, 35,
+                -15, -2, 69, 2, -3, 327, -21, -36, -87, 10, -158, 111, -100, 139, -130, 54, -84, -3, -46, 43, 72, 93,
+                28, 113, -65, 20, 43, -66, -120, -190, -425, 106, 326, 124, -29, 145, -12, 55, 228, -82, -154, -92,
+                -286, 75, 303, -288, 302, 14, -108, 131, 65, -45, -24, -47, -342, 210, -117, 111, 262, 10, -42, -20, 75,
+                -95, 65, -73, 60, 37, -4, -26, 364, -275, 6, 76, -13, -61, -26, 54, 254, -179, 134, -201, 32, -18, -30,
+                75, 8, -272, 89, -27, -14, 60, 127, -114, 28, -70, -39, -161, 270, -124, 256, -77, 63, 61, -145, -220,
+                -122, -60, 546, -123, 143, -656, 719, -163, -122, 66, 181, -58, -42, -206, -39, 15, -136, 258, 253, -11,
+                -59, -48, -71, -218, -195, 620, 28, -132, 73, 104, 88, -19, -99, 4, 27, 95, 1, -38, 34, 70, 35, -21,
+                -130, -117, -46, 13, -23, 9, 81, 121, 8, -160, 29, -220, 6, -3, 234, -75, 235, -38, -35, 20, -221, 142,
+                88, 36, 54, -19, 5, -32, -117, 8, -142, 190, 153, -48, -50, -11, -37, -15, -28, -28, 262, 71, -100, 59,
+                91, -55, 67, 19, -106, -131, -60, 106, -101, -14, 85, 137, 25, -5, 52, 49, 30, 27, -33, -136, 62, 87,
+                -121, 134, 29, -133, -231, 121, 159, -28, 6, 184, -37, 56, -12, -196, 72, 104, -32, 70, 66, 1, 10, -11,
+                -161, 103, -54, -32, 125, 22, -102, -32, 17, -129, 128, 102, -44, -12, 74, -76, 2, 149, 51, -78, -127,
+                -80, 182, -63, 12, -81, 312, 30, 133, -108, -157, 31, -113, -115, -116, -10, -25, 51, -42, 353, -52,
+                -33, 101, 64, 45, -79, -56, -5, 9, -55, -84, 19, 138, 55, -207, 3, 177, 169, -28, 38, -165, 127, 23,
+                -35, -83, -60, -137, -139, -107, 174, -85, 9, 391, -163, 44, 110, 24, 60, -11, -71, 53, 64, 80, -99,
+                109, 54, -52, -108, -3, 35, 305, 145, -124, 43, -194, -82, -84, 136, -18, 178, -106, -27, -33, -3, -82,
+                18, 61, 24, -85, 21, -1, -31, 39, -46, 148, -140, 205, -7, -74, -107, 67, -42, -115, -42, -190, 216, 56,
+                163, -1, -8, 52, 114, 107, -59, -65, -29, -66, 16, -51, 370, -421, 126, 62, -48, -8, -58, -78, -52, 66,
+                9, -22, 229, -47, -215, -58, -95, 183, 107, 56, -11, 79, -40, -54, -141, -100, 653, -209, 67, -130, 68,
+                -56, -91, 156, 170, -113, 17, -105, 0, -200, 36, -16, 186, -10, -85, 135, 114, 2, -65, -5, 48, -262, 62,
+                153, 162, -50, 375, -27, -190, -347, 19, 105, -22, -137, -36, -16, -92, 48, 104, 197, -221, -3, 110,
+                -135, 46, 165, 122, -37, 12, 163, 27, -147, 62, 13, 3, -89, 199, 101, 4, -404, 116, 367, -241, -95, -65,
+                -41, 70, 70, 70, -86, -87, 115, 134, 36, -100, 37, -59, -127, -48, 173, -70, -24, -161, 84, 108, 161,
+                55, -107, -178, -181, 53, -225, 342, -115, 316, 35, 87, -66, 126, 35, -347, 28, -276, 460, 124, -111,
+                -71, -119, -54, 146, -59, 190, -84, 49, 376, 36, 91, -203, -157, -63, 16, -204, 177, -22, 32, -80, -23,
+                151, 226, 119, 175, 185, 196, -551, -140, -164, 290, 229, 17, -239, 322, -351, -307, 87, 225, 138, -106,
+                104, 104, -237, -289, 108, 217, 16, -161, 214, 8, 338, -233, -354, 68, -190, 275, 138, -347, 1, -46,
+                147, -92, 262, 62, -76, -480, 196, -44, 218, -125, 332, 187, 34, -14, -396, 131, -102, 257, 221, -58,
+                -102, -301, -244, 69, 205, -212, 432, -121, 218, 234, -32, -129, -344, 111, 181, -115, -261, -38, -129,
+                238, 59, 102, 168, -58, 144, -172, -149, -302, 313, 40, 80, -255, -207, 270, 42, 193, -117, -304, -21,
+                163, -131, 146, 68, 126, -1, 82, -463, 17, -201, 396, 192, -58, 82, 132, 77, 170, -29, 225, -208, -46,
+                -274, 247, 121, 108, 59, -12, -269, 137, -346, -22, 220, 483, 180, -189, -326, -131, -170, -164, -24,
+                -92, 129, 306, 95, -252, 47, -448, 60, 122, -123, 59, -18, 36, 356, 18, 367, -210, -143, -199, 159, 9,
+                45, 844, 420, -194, 128, -347, 31, -413, -422, 60, -147, 381, 170, -81, -222, 90, -206, -227, -10, -465,
+                -201, 197, 34, -107, 826, 108, 385, 53, -34, -66, -80, -117, -202, 60, -102, 158, 200, -331, 20, -23,
+                64, 191, 248, 403, 136, -241, 19, -515, -195, -47, 70, 117, 164, -162, 317, -418, 5, 88, 69, 45, -416,
+                -73, -289, 128, 493, -13, 274, -190, 110, -114, 19, -52, 12, -331, 41, -152, 273, 66, -121, 293, -23,
+                -120, 271, -119, 190, 18, 153, -11, -336, 86, 20, 73, 326, -62, -494, 169, -71, 131, 46, -55, -58, 26,
+                -9, 73, -109, -324, 66, 404, 277, -42, -17, -33, -285, 245, 42, 238, -30, 136, -349, 55, -292, -276,
+                106, -199, 118, -195, -53, 148, 397, 149, 77, 169, 211, 55, -286, -60, -268, 80, -141, -176, -267, 29,
+                -165, 113, 574, 198, -327, -9, -92, 190, 73, -152, 165, -102, 115, -197, 432, 235, 50, -379, -107, 253,
+                22, 147, -112, -238, 91, -334, 216, 116, -98, 107, 84, 167, -117, -150, -63, -150, 47, -20, -224, 27,
+                85, -40, 320, 1, 311, -45, -244, -72, 36, -6, 64, 294, 53, -45, -157, -85, 25, 0, -39, 43, -48, -162,
+                282, 170, -177, 135, -197, -159, -65, 203, 11, -14, 86, -131, 114, -28, 148, 65, -116, -82, -87, 78, 68,
+                -6, -32, 133, 106, 108, -28, -105, -132, -222, 31, 21, 139, 159, -19, -14, -48, 447, 36, -86, -259,
+                -327, 9, 246, -20, -257, -464, 47, 181, -15, -47, 579, 22, -107, 1, -209, 133, 195, 143, -190, 79, 2,
+                101, -219, -66, -128, -19, 137, 238, 147, -90, 363, -275, -72, -267, -107, 346, 49, -341, 368, 429, 6,
+                -56, -131, -277, -14, 115, 901, 480, -259, -1000, -154, -23, -394, -487, -97, 201, 401, 179, 167, 75,
+                152, 601, 198, 297, -512, -666, 205, -230, 132, -360, 588, 321, -316, -501, 409, -226,
+            ],
+        ]
+    ),
+    createStage(
+        4,
+        4,
+        0.08,
+        300,
+        [
+            [
+                [
+                    [4.9387, 4.3453, 0.8218, 0.9367, 37],
+                    [2.3161, 0.8524, 0.7778, 0.9441, 18],
+                    [1.7271, 0.0049, 0.8769, 0.8383, -52],
+                    [0.6824, 2.1637, 0.999, 0.4881, 33],
+                    [2.7214, 4.9622, 0.4704, 0.8147, 8],
+                    [2.8641, 2.9408, 0.6231, 0.4296, 6],
+                    [3.1386, 4.8316, 0.3376, 0.3449, -6],
+                ],
+                [
+                    [3.6872, 0.3852, 0.6592, 0.8901, -35],
+                    [4.3915, 5.4383, 0.7855, 0.9305, -37],
+                    [0.4088, 4.0537, 0.7994, 0.605, -50],
+                    [4.1012, 3.5416, 0.9791, 0.2422, -9],
+                    [0.4329, 1.7722, 0.143, 0.8151, 8],
+                    [1.7404, 5.5363, 0.8635, 0.3705, 30],
+                    [5.9792, 2.659, 0.9293, 0.6798, -18],
+                ],
+                [
+                    [0.9183, 2.0727, 0.5862, 0.6848, 38],
+                    [4.9211, 3.4499, 0.0353, 0.6337, -41],
+                    [0.5097, 2.2339, 0.7776, 0.463, 11],
+                    [1.1716, 1.9067, 0.9232, 0.8237, -25],
+                    [1.0475, 4.2049, 0.9693, 0.9104, 59],
+                    [3.4133, 4.0119, 0.8008, 0.8212, 30],
+                    [0.7454, 4.5444, 0.9294, 0.9052, 45],
+                ],
+                [
+                    [3.0813, 5.9322, 0.3562, 0.5479, -19],
+                    [2.2145, 0.2529, 0.662, 0.9649, -15],
+                    [2.4557, 0.4028, 0.6683, 0.8845, 40],
+                    [2.4094, 6.1476, 0.3447, 0.6724, -64],
+                    [4.268, 5.6467, 0.7125, 0.8029, -28],
+                    [2.1413, 0.9332, 0.9828, 0.5528, -26],
+                    [0.737, 4.0393, 0.7467, 0.5447, -35],
+                ],
+                [
+                    [1.8681, 0.0524, 0.9707, 0.6376, -32],
+                    [2.3198, 0.4096, 0.3934, 0.6993, -60],
+                    [6.0683, 2.3791, 0.7599, 0.7534, -53],
+                    [1.6551, 1.1692, 0.7224, 0.7075, -84],
+                    [4.2017, 5.3256, 0.5575, 0.5515, -19],
+                    [3.7273, 1.393, 0.4033, 0.3657, 42],
+                    [1.2683, 4.0986, 0.4807, 0.7395, 27],
+                ],
+            ],
+            [
+                [
+                    [6.2348, 1.3429, 0.4537, 0.4534, -32],
+                    [0.4701, 4.7473, 0.779, 0.2341, -43],
+                    [2.961, 3.9188, 0.9685, 0.3696, 49],
+                    [0.4917, 5.2592, 0.3427, 0.9372, -35],
+                    [6.006, 1.697, 0.4634, 0.2774, 7],
+                    [3.2009, 1.7175, 0.8788, 0.456, -62],
+                    [2.5928, 2.4742, 0.3638, 0.8864, -43],
+                ],
+                [
+                    [6.105, 4.4526, 0.7139, 0.1214, 68],
+                    [5.9535, 2.8823, 0.7278, 0.0848, -22],
+                    [2.5236, 4.5023, 0.3879, 0.7812, -24],
+                    [5.0728, 5.4699, 0.2535, 0.6897, 10],
+                    [5.6279, 3.9872, 0.9632, 0.259, 32],
+                    [0.4184, 3.1617, 0.968, 0.7158, 26],
+                    [2.3629, 1.4531, 0.5382, 0.9407, 20],
+                ],
+                [
+                    [5.8061, 1.4937, 0.5746, 0.5374, -29],
+                    [5.0744, 5.9122, 0.1635, 0.6627, 19],
+                    [4.5054, 5.2947, 0.4228, 0.7118, -60],
+                    [3.6809, 4.4046, 0.7011, 0.4036, 31],
+                    [0.0848, 0.3642, 0.9056, 0.2117, -28],
+                    [5.3911, 5.5813, 0.2956, 0.7498, -67],
+                    [3.0537, 1.8463, 0.9676, 0.3717, 62],
+                ],
+                [
+                    [0.1389, 4.7448, 0.7748, 0.1609, -35],
+                    [4.8185, 6.0382, 0.403, 0.7392, 39],
+                    [3.8175, 5.3453, 0.0807, 0.9212, -54],
+                    [1.4732, 1.0627, 0.1154, 0.7358, 40],
+                    [1.9277, 4.545, 0.5359, 0.5948, 16],
+                    [5.9312, 0.4086, 0.7087, 0.1879, 39],
+                    [5.7415, 4.3421, 0.4018, 0.6149, -22],
+                ],
+                [
+                    [2.9337, 5.9901, 0.0604, 0.6182, 16],
+                    [0.0572, 4.3171, 0.7963, 0.7147, 41],
+                    [6.2548, 1.2343, 0.7915, 0.6786, -15],
+                    [2.8962, 1.3434, 0.8162, 0.9532, 89],
+                    [6.1958, 4.8085, 0.7686, 0.3108, 35],
+                    [2.8744, 5.5376, 0.9245, 0.1713, 28],
+                    [2.8276, 2.3098, 0.7737, 0.1029, 35],
+                ],
+            ],
+            [
+                [
+                    [0.1473, 0.8037, 0.6731, 0.6013, -52],
+                    [4.7398, 1.1488, 0.3623, 0.621, -35],
+                    [3.522, 4.1837, 0.5629, 0.4204, 34],
+                    [4.9783, 3.9604, 0.1943, 0.8534, -50],
+                    [2.4331, 0.9242, 0.3029, 0.1696, 0],
+                    [4.369, 3.1722, 0.6935, 0.5612, 48],
+                    [1.531, 3.682, 0.1072, 0.7073, -44],
+                ],
+                [
+                    [1.2101, 2.1078, 0.3706, 0.529, -52],
+                    [2.8318, 2.9907, 0.8334, 0.1302, 68],
+                    [4.5168, 2.5707, 0.2222, 0.6491, 28],
+                    [4.3771, 5.8738, 0.2306, 0.8731, -2],
+                    [2.9347, 3.7545, 0.7863, 0.7312, 24],
+                    [2.7319, 4.4364, 0.9821, 0.4137, 42],
+                    [4.157, 3.1792, 0.6918, 0.9035, 27],
+                ],
+                [
+                    [6.0739, 0.7625, 0.3605, 0.2053, -39],
+                    [6.0819, 4.5052, 0.6811, 0.5344, -49],
+                    [5.6909, 0.1398, 0.6486, 0.1153, 36],
+                    [1.3512, 6.0011, 0.926, 0.1453, 30],
+                    [5.3699, 6.2526, 0.9993, 0.1848, -29],
+                    [5.0721, 5.5131, 0.8718, 0.0778, -7],
+                    [5.5853, 4.0736, 0.8548, 0.3285, 25],
+                ],
+                [
+                    [0.3451, 0.1756, 0.8443, 0.1776, -43],
+                    [4.9417, 4.9083, 0.5105, 0.9484, 37],
+                    [6.2771, 0.7721, 0.6077, 0.2867, 53],
+                    [0.4203, 0.6397, 0.8371, 0.3059, -91],
+                    [0.0657, 4.7667, 0.5173, 0.6788, -79],
+                    [3.0463, 4.0608, 0.6586, 0.5719, 36],
+                    [6.0691, 5.508, 0.2008, 0.9397, -56],
+                ],
+                [
+                    [0.2009, 0.6429, 0.8117, 0.6225, -26],
+                    [3.0197, 4.5357, 0.3053, 0.4499, 67],
+                    [0.1565, 0.6966, 0.6062, 0.1841, 53],
+                    [2.9539, 5.6517, 0.1471, 0.3104, -24],
+                    [2.4001, 2.4324, 0.102, 0.5486, -6],
+                    [0.0026, 4.6526, 0.915, 0.4933, -46],
+                    [4.6815, 5.3836, 0.384, 0.7916, -68],
+                ],
+            ],
+            [
+                [
+                    [0.5343, 5.564, 0.367, 0.8294, 30],
+                    [2.2801, 1.484, 0.0512, 0.9308, -13],
+                    [3.0447, 4.1759, 0.3035, 0.4115, 24],
+                    [1.0128, 1.5622, 0.373, 0.9218, -35],
+                    [4.3157, 1.9719, 0.1029, 0.9562, 26],
+                    [4.8297, 0.302, 0.9861, 0.7174, -2],
+                    [5.7879, 0.2177, 0.8035, 0.5507, 10],
+                ],
+                [
+                    [0.5267, 4.9538, 0.6184, 0.7874, 6],
+                    [4.0837, 5.8216, 0.6432, 0.9674, -21],
+                    [5.7687, 5.2218, 0.9549, 0.1608, -14],
+                    [6.2035, 4.5315, 0.844, 0.2028, 51],
+                    [3.9722, 6.2053, 0.9596, 0.7234, 57],
+                    [0.2902, 4.8185, 0.6122, 0.2958, -1],
+                    [4.6258, 0.3892, 0.6953, 0.8651, 0],
+                ],
+                [
+                    [5.6088, 4.2687, 0.7645, 0.5296, -33],
+                    [4.4024, 2.3889, 0.5554, 0.6726, -54],
+                    [4.5914, 0.5396, 0.4158, 0.3206, -14],
+                    [0.4559, 3.7235, 0.8506, 0.4616, -160],
+                    [5.3563, 2.4757, 0.9179, 0.9798, -32],
+                    [5.3952, 0.3579, 0.3232, 0.7921, 21],
+                    [1.5951, 5.3508, 0.6474, 0.4403, 35],
+                ],
+                [
+                    [0.4859, 5.7232, 0.5832, 0.8788, 16],
+                    [1.452, 5.7871, 0.8354, 0.0773, 40],
+                    [0.2623, 5.2489, 0.5144, 0.7421, 10],
+                    [5.6127, 4.0708, 0.8847, 0.7341, 17],
+                    [4.1617, 5.0611, 0.5922, 0.8259, 8],
+                    [1.1154, 0.5271, 0.9579, 0.6435, -9],
+                    [5.4986, 5.1309, 0.2449, 0.9378, 19],
+                ],
+                [
+                    [0.3977, 6.1456, 0.3286, 0.7057, 20],
+                    [0.5896, 1.3238, 0.9222, 0.9453, -19],
+                    [4.4613, 5.9928, 0.1961, 0.9015, 62],
+                    [0.7487, 1.2878, 0.7491, 0.87, -16],
+                    [4.0467, 2.8712, 0.7347, 0.6375, 11],
+                    [5.0447, 0.3785, 0.3926, 0.3044, -28],
+                    [4.5221, 5.868, 0.4598, 0.5816, 103],
+                ],
+            ],
+            [
+                [
+                    [5.9963, 3.5739, 0.655, 0.5567, 14],
+                    [1.3727, 5.9072, 0.9196, 0.2986, 9],
+                    [3.3706, 0.2574, 0.5155, 0.1838, -21],
+                    [2.9625, 5.5937, 0.1155, 0.6768, 8],
+                    [2.7307, 5.7183, 0.053, 0.874, 5],
+                    [4.1723, 2.8601, 0.398, 0.891, -15],
+                    [0.4518, 3.5896, 0.715, 0.2112, 3],
+                ],
+                [
+                    [1.1026, 5.7358, 0.5487, 0.3697, 16],
+                    [3.5251, 5.2951, 0.553, 0.5551, 13],
+                    [6.0622, 2.4512, 0.3573, 0.8206, -15],
+                    [3.6719, 0.3807, 0.4601, 0.6256, -8],
+                    [4.5697, 3.9661, 0.8316, 0.7043, 4],
+                    [6.0437, 2.7073, 0.7818, 0.1247, -16],
+                    [3.4982, 0.8405, 0.9562, 0.7322, -16],
+                ],
+                [
+                    [3.9025, 5.5946, 0.365, 0.754, 11],
+                    [5.7067, 3.9545, 0.3475, 0.5049, 2],
+                    [5.9103, 1.6811, 0.4722, 0.9898, -16],
+                    [0.7543, 6.1487, 0.9663, 0.7482, 19],
+                    [2.3905, 3.7323, 0.7313, 0.6025, 23],
+                    [3.5284, 4.7832, 0.6386, 0.7281, 25],
+                    [2.4225, 4.9521, 0.5178, 0.5394, 8],
+                ],
+                [
+                    [5.6886, 3.8349, 0.3023, 0.5581, 5],
+                    [6.28, 2.3548, 0.2155, 0.6655, -3],
+                    [3.6172, 0.124, 0.5072, 0.6883, -11],
+                    [2.54, 5.9914, 0.7714, 0.3208, 18],
+                    [5.447, 3.5301, 0.9367, 0.7028, -40],
+                    [3.6669, 2.0432, 0.4095, 0.9994, -9],
+                    [2.9388, 5.9045, 0.8428, 0.3007, 19],
+                ],
+                [
+                    [5.8408, 3.9186, 0.3876, 0.5234, 4],
+                    [5.7411, 0.952, 0.5618, 0.8828, -21],
+                    [3.5081, 1.8313, 0.7746, 0.6823, -18],
+                    [5.8042, 3.3138, 0.8816, 0.5601, -9],
+                    [4.7207, 0.1355, 0.4624, 0.1451, -6],
+                    [0.5551, 3.1372, 0.4478, 0.4935, 13],
+                    [3.6894, 5.7485, 0.7999, 0.9307, 0],
+                ],
+            ],
+            [
+                [
+                    [2.664, 3.6886, 0.6071, 0.9796, 18],
+                    [1.7968, 2.3066, 0.8879, 0.1624, 34],
+                    [3.3555, 3.4113, 0.9904, 0.3615, -14],
+                    [5.0256, 3.1866, 0.3155, 0.8079, -5],
+                    [1.3332, 5.1689, 0.968, 0.763, 12],
+                    [4.7376, 4.4973, 0.5285, 0.9659, 13],
+                    [5.3175, 3.9956, 0.6071, 0.5847, 20],
+                ],
+                [
+                    [2.8636, 3.079, 0.0136, 0.7125, 26],
+                    [5.3978, 0.1376, 0.9634, 0.7246, -46],
+                    [3.0245, 2.0163, 0.2954, 0.7866, -24],
+                    [5.9519, 0.8933, 0.1223, 0.5164, -18],
+                    [5.4425, 3.2386, 0.8095, 0.7552, -14],
+                    [1.0277, 5.2099, 0.7271, 0.2067, 53],
+                    [3.5982, 0.3374, 0.7708, 0.8583, 16],
+                ],
+                [
+                    [5.2719, 3.8981, 0.6945, 0.9715, 53],
+                    [1.1834, 1.2554, 0.1247, 0.6419, -38],
+                    [4.9968, 1.4173, 0.2493, 0.7645, -50],
+                    [2.1579, 1.0673, 0.5336, 0.785, 0],
+                    [3.324, 5.313, 0.9228, 0.4044, 9],
+                    [5.2269, 4.6892, 0.674, 0.5809, 80],
+                    [4.4116, 4.2005, 0.344, 0.9368, 47],
+                ],
+                [
+                    [4.5881, 5.2753, 0.6717, 0.654, -29],
+                    [2.7559, 3.1326, 0.3829, 0.7251, 24],
+                    [2.1469, 0.886, 0.0958, 0.8188, -21],
+                    [1.6553, 4.4914, 0.9935, 0.1224, 22],
+                    [2.0161, 3.536, 0.9896, 0.4527, 28],
+                    [2.2722, 1.8509, 0.6161, 0.9816, -11],
+                    [5.2689, 0.2172, 0.5023, 0.4576, 24],
+                ],
+                [
+                    [3.3792, 2.7891, 0.7739, 0.4532, -20],
+                    [3.1837, 4.05, 0.3138, 0.8094, 3],
+                    [4.1163, 5.2321, 0.6593, 0.9173, 11],
+                    [0.4497, 5.1525, 0.9065, 0.6421, -5],
+                    [2.8791, 1.7528, 0.105, 0.5816, -9],
+                    [4.1545, 5.3169, 0.4466, 0.7533, -33],
+                    [5.2973, 2.9325, 0.426, 0.9908, 0],
+                ],
+            ],
+            [
+                [
+                    [4.8201, 3.9141, 0.436, 0.9584, 37],
+                    [4.877, 3.3953, 0.5634, 0.81, -33],
+                    [0.5333, 2.348, 0.6469, 0.2738, 30],
+                    [3.1304, 2.7091, 0.8486, 0.5259, 34],
+                    [3.8782, 4.3711, 0.1391, 0.9554, 15],
+                    [3.3378, 4.2833, 0.8905, 0.4096, -34],
+                    [4.4005, 4.078, 0.3292, 0.6912, 10],
+                ],
+                [
+                    [5.7352, 1.1121, 0.1419, 0.55, -42],
+                    [5.2107, 1.4487, 0.373, 0.2399, -29],
+                    [3.9608, 2.8863, 0.8098, 0.2116, -17],
+                    [2.217, 5.953, 0.9744, 0.9403, -86],
+                    [0.633, 1.7902, 0.7411, 0.1798, 11],
+                    [4.0896, 4.6143, 0.8785, 0.4461, -7],
+                    [1.8795, 6.2629, 0.2266, 0.8834, 52],
+                ],
+                [
+                    [4.535, 3.5739, 0.2511, 0.6193, 18],
+                    [3.7558, 1.946, 0.7008, 0.3559, 34],
+                    [0.6933, 2.0273, 0.8597, 0.4171, 26],
+                    [2.0961, 4.5379, 0.4833, 0.9874, 13],
+                    [2.815, 4.5304, 0.9669, 0.3271, 31],
+                    [3.4114, 4.4783, 0.9671, 0.3575, -21],
+                    [4.663, 2.7428, 0.1867, 0.8596, 63],
+                ],
+                [
+                    [4.0121, 2.2604, 0.9688, 0.2405, -63],
+                    [0.5475, 4.9701, 0.4442, 0.636, 40],
+                    [5.7805, 0.992, 0.0427, 0.6387, -33],
+                    [6.2255, 2.8105, 0.3317, 0.3004, 38],
+                    [0.0879, 5.0482, 0.8849, 0.3526, 131],
+                    [5.0899, 5.9646, 0.669, 0.9887, -76],
+                    [6.2222, 4.8094, 0.6143, 0.3709, -41],
+                ],
+                [
+                    [2.1335, 0.2731, 0.3929, 0.718, -73],
+                    [4.966, 3.5835, 0.7955, 0.6546, 58],
+                    [2.6995, 0.3748, 0.2116, 0.6006, 58],
+                    [5.1753, 0.666, 0.8524, 0.7947, -9],
+                    [1.8904, 6.1686, 0.9668, 0.9088, -81],
+                    [4.9915, 1.3478, 0.3414, 0.6135, -21],
+                    [3.0792, 6.0619, 0.7882, 0.1109, 66],
+                ],
+            ],
+            [
+                [
+                    [0.8062, 1.3124, 0.7148, 0.2297, 64],
+                    [0.2302, 1.116, 0.8827, 0.3042, -61],
+                    [4.9374, 0.6839, 0.6774, 0.1284, 4],
+                    [4.0942, 6.0921, 0.5301, 0.3945, 21],
+                    [2.9567, 1.847, 0.8256, 0.5386, -19],
+                    [0.7916, 3.5372, 0.3826, 0.5398, -16],
+                    [2.5739, 1.2373, 0.3453, 0.9553, -110],
+                ],
+                [
+                    [1.731, 2.9516, 0.3492, 0.8571, 18],
+                    [3.2513, 5.1232, 0.9955, 0.868, 39],
+                    [3.3048, 2.2013, 0.4933, 0.3632, -70],
+                    [5.0973, 4.1129, 0.8833, 0.7416, 7],
+                    [5.1412, 4.36, 0.1813, 0.8819, -61],
+                    [3.1883, 1.6109, 0.1122, 0.8883, -21],
+                    [2.818, 1.7563, 0.9953, 0.0154, -32],
+                ],
+                [
+                    [3.2987, 5.0513, 0.7163, 0.8032, -47],
+                    [0.4452, 2.1334, 0.5174, 0.3556, 39],
+                    [2.1402, 5.0539, 0.9853, 0.3995, 22],
+                    [0.009, 5.2482, 0.9922, 0.9256, -51],
+                    [4.9336, 4.0948, 0.7369, 0.8041, 26],
+                    [5.3367, 0.2726, 0.3903, 0.8745, -48],
+                    [4.8939, 3.8145, 0.4408, 0.7526, -36],
+                ],
+                [
+                    [1.4863, 0.1776, 0.3465, 0.8706, -39],
+                    [0.7736, 0.8234, 0.2159, 0.9079, -41],
+                    [6.1761, 6.2694, 0.875, 0.1269, -93],
+                    [4.7866, 0.2249, 0.6037, 0.5081, -99],
+                    [4.221, 4.0174, 0.8875, 0.8809, -11],
+                    [3.6482, 1.4025, 0.6202, 0.0306, -18],
+                    [1.9085, 4.313, 0.6658, 0.7249, 5],
+                ],
+                [
+                    [4.9572, 3.4249, 0.8315, 0.9501, 40],
+                    [3.685, 4.8669, 0.567, 0.4079, 55],
+                    [3.0655, 4.7852, 0.9612, 0.5357, -15],
+                    [2.6828, 1.55, 0.5924, 0.4502, -32],
+                    [4.945, 4.6206, 0.8834, 0.8715, -10],
+                    [2.3134, 3.1868, 0.6281, 0.5133, 17],
+                    [5.4398, 5.154, 0.6952, 0.6509, -7],
+                ],
+            ],
+            [
+                [
+                    [2.1202, 0.3602, 0.4789, 0.4836, -50],
+                    [3.6512, 1.3513, 0.9109, 0.8353, -20],
+                    [5.3293, 1.9978, 0.601, 0.4827, -39],
+                    [2.0894, 1.0417, 0.3822, 0.4097, -35],
+                    [1.7782, 4.8697, 0.9901, 0.852, 30],
+                    [2.3932, 1.2065, 0.501, 0.7324, 74],
+                    [4.6121, 5.6079, 0.0739, 0.5863, -26],
+                ],
+                [
+                    [2.2735, 5.8148, 0.0526, 0.5763, -29],
+                    [5.1071, 3.603, 0.8322, 0.9454, 51],
+                    [3.6654, 5.4307, 0.7863, 0.5869, 26],
+                    [1.9022, 0.9726, 0.1069, 0.5877, -7],
+                    [1.3292, 4.6453, 0.8026, 0.9974, 13],
+                    [3.6439, 0.5983, 0.9995, 0.2935, -34],
+                    [5.6526, 2.7619, 0.4096, 0.9861, -54],
+                ],
+                [
+                    [4.2999, 5.2778, 0.4352, 0.6234, 38],
+                    [5.502, 2.3681, 0.6714, 0.7208, 27],
+                    [2.1838, 5.5977, 0.4611, 0.2833, 52],
+                    [4.0129, 0.3341, 0.3999, 0.3419, -6],
+                    [3.8027, 5.1868, 0.6786, 0.6201, -39],
+                    [5.1602, 4.2667, 0.9327, 0.2824, 0],
+                    [1.4588, 0.4832, 0.874, 0.8904, 46],
+                ],
+                [
+                    [2.1925, 5.2323, 0.9603, 0.7505, -42],
+                    [4.4365, 5.7194, 0.4623, 0.4012, -26],
+                    [5.1388, 3.8015, 0.9888, 0.6992, -21],
+                    [1.3276, 4.7247, 0.783, 0.7694, 68],
+                    [1.0723, 3.4715, 0.8825, 0.5935, 19],
+                    [3.7509, 5.3849, 0.8934, 0.5635, 37],
+                    [3.0141, 0.3375, 0.3751, 0.4912, -5],
+                ],
+                [
+                    [3.3832, 0.9413, 0.2226, 0.6608, -36],
+                    [1.7993, 0.8159, 0.7437, 0.5589, -40],
+                    [5.3474, 3.0955, 0.8222, 0.301, -51],
+                    [2.7347, 3.8936, 0.8116, 0.8408, 4],
+                    [1.4285, 5.8685, 0.8574, 0.9159, 42],
+                    [5.1695, 1.1736, 0.6146, 0.7243, 11],
+                    [5.3932, 2.4895, 0.5846, 0.5723, 20],
+                ],
+            ],
+            [
+                [
+                    [6.2718, 4.9778, 0.634, 0.349, 0],
+                    [2.6762, 1.9475, 0.2037, 0.9822, -17],
+                    [2.474, 1.6536, 0.1185, 0.8212, -14],
+                    [2.4856, 6.1332, 0.1244, 0.4653, 16],
+                    [5.2235, 0.8677, 0.2312, 0.2807, 0],
+                    [3.0286, 5.0345, 0.0713, 0.282, 0],
+                    [5.4906, 3.1656, 0.4322, 0.1733, -12],
+                ],
+                [
+                    [5.3191, 1.3606, 0.3818, 0.1725, 6],
+                    [3.4924, 1.165, 0.1745, 0.6822, -25],
+                    [2.2433, 4.3494, 0.2031, 0.3936, -52],
+                    [4.8438, 4.4008, 0.1802, 0.7773, -5],
+                    [0.0578, 5.2316, 0.1741, 0.2816, 6],
+                    [5.8982, 2.1845, 0.9596, 0.4423, -37],
+                    [0.175, 1.9604, 0.5271, 0.1703, -11],
+                ],
+                [
+                    [0.5998, 4.5594, 0.0669, 0.1929, -8],
+                    [1.2216, 1.8821, 0.7679, 0.1749, 3],
+                    [0.0904, 5.1687, 0.2527, 0.2014, 20],
+                    [5.9213, 0.0169, 0.3925, 0.5625, 9],
+                    [2.5052, 5.7248, 0.1599, 0.4915, -1],
+                    [2.2529, 6.0399, 0.0915, 0.8966, 5],
+                    [3.6563, 4.7701, 0.2806, 0.8266, -15],
+                ],
+                [
+                    [5.33, 1.6768, 0.3546, 0.1615, -21],
+                    [3.1702, 0.2322, 0.2566, 0.6221, -10],
+                    [6.1045, 2.3324, 0.6091, 0.1141, -15],
+                    [3.4481, 3.1848, 0.1838, 0.7821, -24],
+                    [5.9567, 3.3554, 0.5156, 0.2136, -60],
+                    [0.8672, 5.6224, 0.3007, 0.3635, 13],
+                    [2.8138, 4.4701, 0.2809, 0.3903, -64],
+                ],
+                [
+                    [2.6126, 5.0252, 0.1462, 0.29, 12],
+                    [2.58, 2.2741, 0.2578, 0.7563, -33],
+                    [6.1903, 1.17, 0.4855, 0.7765, 0],
+                    [2.2754, 1.5783, 0.3256, 0.6715, -17],
+                    [0.8013, 4.8988, 0.3589, 0.3696, -36],
+                    [6.1169, 4.1056, 0.4049, 0.2662, -22],
+                    [5.8534, 3.3348, 0.4239, 0.3964, -22],
+                ],
+            ],
+            [
+                [
+                    [1.6766, 6.1696, 0.3929, 0.5654, -8],
+                    [2.6895, 2.3369, 0.2005, 0.5454, -8],
+                    [2.0943, 3.3971, 0.1279, 0.2947, -5],
+                    [5.6608, 2.8233, 0.2752, 0.7248, 9],
+                    [5.4805, 0.7185, 0.0905, 0.8728, 13],
+                    [5.7622, 4.1914, 0.4548, 0.7693, -20],
+                    [3.7406, 5.56, 0.3977, 0.3206, -3],
+                ],
+                [
+                    [4.5907, 0.6887, 0.1428, 0.3867, -2],
+                    [5.2037, 5.8147, 0.7441, 0.5127, 28],
+                    [3.2204, 2.3374, 0.1636, 0.8903, 18],
+                    [1.1052, 0.07, 0.1707, 0.4541, 9],
+                    [4.8343, 3.7063, 0.6387, 0.4874, 29],
+                    [3.0839, 0.0476, 0.5586, 0.3318, 25],
+                    [0.7621, 0.2664, 0.5993, 0.4817, 9],
+                ],
+                [
+                    [1.1822, 5.7366, 0.3913, 0.2508, -13],
+                    [2.8057, 1.9785, 0.5319, 0.3742, -10],
+                    [0.8821, 5.8788, 0.1541, 0.2701, 17],
+                    [0.4613, 1.5912, 0.9493, 0.5812, -17],
+                    [3.0931, 2.2641, 0.4199, 0.9851, -3],
+                    [5.7603, 3.5313, 0.2019, 0.2186, 10],
+                    [3.742, 5.7033, 0.5546, 0.6509, -8],
+                ],
+                [
+                    [2.2243, 5.1223, 0.522, 0.2286, -23],
+                    [0.9128, 5.8841, 0.4674, 0.1433, -3],
+                    [4.3815, 5.7996, 0.7269, 0.5304, 22],
+                    [4.296, 2.8843, 0.9423, 0.097, 23],
+                    [1.7172, 3.7895, 0.3917, 0.1504, -14],
+                    [3.601, 3.834, 0.2658, 0.8853, -29],
+                    [5.9401, 3.7982, 0.5644, 0.058, 15],
+                ],
+                [
+                    [0.6128, 3.8128, 0.4328, 0.2326, -9],
+                    [1.9365, 3.4585, 0.3329, 0.2126, -27],
+                    [3.626, 5.5892, 0.4098, 0.5672, -24],
+                    [1.2234, 0.1417, 0.4337, 0.685, -7],
+                    [6.1727, 4.0635, 0.6746, 0.8717, -26],
+                    [5.3142, 4.9246, 0.3261, 0.7699, -42],
+                    [5.9684, 5.9439, 0.9986, 0.5831, 10],
+                ],
+            ],
+            [
+                [
+                    [3.9473, 2.8258, 0.4066, 0.654, 12],
+                    [6.094, 2.6259, 0.1528, 0.7024, 0],
+                    [1.4669, 5.3024, 0.275, 0.2045, -46],
+                    [4.6308, 4.8292, 0.249, 0.7224, -44],
+                    [2.2079, 5.1823, 0.0866, 0.244, -35],
+                    [4.6158, 1.3368, 0.1352, 0.3681, 39],
+                    [0.5823, 4.7558, 0.1952, 0.5363, -39],
+                ],
+                [
+                    [4.4345, 3.2314, 0.2397, 0.7699, 0],
+                    [5.8436, 2.591, 0.2493, 0.1991, 2],
+                    [2.2492, 3.8007, 0.294, 0.4074, -17],
+                    [4.4047, 5.9557, 0.5435, 0.3147, 74],
+                    [0.2466, 0.9864, 0.7746, 0.1642, 41],
+                    [3.5869, 0.8178, 0.6367, 0.2381, 39],
+                    [3.9671, 0.0618, 0.5895, 0.2388, 18],
+                ],
+                [
+                    [3.8916, 1.9314, 0.3188, 0.1631, -3],
+                    [6.2343, 5.9514, 0.837, 0.2944, 27],
+                    [0.9117, 3.2922, 0.209, 0.3716, 26],
+                    [5.464, 0.821, 0.0975, 0.9789, -3],
+                    [3.1202, 5.4183, 0.3034, 0.0445, 2],
+                    [2.1814, 3.7983, 0.3896, 0.6603, -19],
+                    [3.8614, 2.9579, 0.11, 0.4507, 28],
+                ],
+                [
+                    [2.4368, 3.8016, 0.2987, 0.2302, 5],
+                    [3.792, 2.7924, 0.9667, 0.3682, 29],
+                    [0.0804, 1.2578, 0.2326, 0.601, -10],
+                    [4.6087, 2.5671, 0.3897, 0.2827, -1],
+                    [5.1668, 1.2963, 0.6335, 0.2632, 59],
+                    [6.2276, 5.8727, 0.3476, 0.7499, -50],
+                    [3.3143, 5.6111, 0.4138, 0.2448, -25],
+                ],
+                [
+                    [4.3362, 3.2086, 0.2136, 0.9495, 2],
+                    [0.7626, 0.0284, 0.915, 0.1435, 8],
+                    [5.2608, 0.9683, 0.9162, 0.265, 53],
+                    [1.1522, 3.043, 0.6893, 0.3784, 9],
+                    [6.0767, 1.9667, 0.2397, 0.6464, -22],
+                    [3.3991, 2.0635, 0.3502, 0.174, 0],
+                    [3.4314, 1.4557, 0.8074, 0.1358, -15],
+                ],
+            ],
+            [
+                [
+                    [4.4907, 0.1882, 0.2115, 0.4689, 30],
+                    [3.0338, 5.7621, 0.2237, 0.7361, 35],
+                    [6.0285, 2.579, 0.6289, 0.1666, -36],
+                    [3.225, 0.1745, 0.2555, 0.5016, 5],
+                    [3.7981, 0.9843, 0.9629, 0.7969, -4],
+                    [2.5337, 1.4188, 0.627, 0.1493, 66],
+                    [5.7795, 1.7556, 0.6454, 0.2652, 36],
+                ],
+                [
+                    [6.0931, 4.4655, 0.6472, 0.227, -5],
+                    [3.1972, 5.6971, 0.086, 0.333, 12],
+                    [6.1008, 4.9082, 0.3286, 0.31, 29],
+                    [1.0688, 3.4098, 0.2388, 0.1663, 21],
+                    [0.3697, 5.7767, 0.4445, 0.5596, -4],
+                    [5.8219, 3.0531, 0.3229, 0.2332, -23],
+                    [3.8096, 3.0167, 0.3968, 0.8418, -28],
+                ],
+                [
+                    [5.6542, 0.1311, 0.5331, 0.5133, -7],
+                    [3.057, 2.3658, 0.2015, 0.8947, -8],
+                    [5.1236, 1.5734, 0.2475, 0.2221, 17],
+                    [5.7671, 2.6234, 0.5538, 0.1743, -61],
+                    [5.1873, 5.2591, 0.3725, 0.9207, -48],
+                    [3.2852, 6.1133, 0.1698, 0.8951, 12],
+                    [6.0282, 2.1916, 0.7569, 0.2779, -29],
+                ],
+                [
+                    [0.081, 5.1966, 0.417, 0.3305, 0],
+                    [2.6857, 1.7277, 0.1809, 0.6814, -21],
+                    [0.0579, 3.5101, 0.5296, 0.1922, -1],
+                    [2.4755, 5.5728, 0.3388, 0.1586, 42],
+                    [2.2047, 5.6634, 0.2251, 0.3193, 18],
+                    [4.8747, 4.9501, 0.9864, 0.4033, 8],
+                    [1.6789, 5.3705, 0.1349, 0.4985, 0],
+                ],
+                [
+                    [2.1405, 5.5626, 0.1304, 0.4913, -5],
+                    [5.3441, 1.4653, 0.1166, 0.1886, 41],
+                    [0.0864, 5.2627, 0.6021, 0.3287, 15],
+                    [4.2447, 3.5832, 0.8149, 0.1513, 49],
+                    [1.7661, 2.3722, 0.6521, 0.2522, 15],
+                    [4.0811, 6.2828, 0.0077, 0.4896, 10],
+                    [0.3474, 3.1343, 0.6893, 0.3639, 4],
+                ],
+            ],
+            [
+                [
+                    [3.837, 2.2367, 0.2214, 0.4614, 10],
+                    [2.3753, 5.2512, 0.3069, 0.224, 4],
+                    [2.6153, 0.1732, 0.2622, 0.2746, -13],
+                    [3.3508, 5.9995, 0.192, 0.1981, -18],
+                    [3.7768, 4.4992, 0.3658, 0.9578, -27],
+                    [3.0708, 4.0365, 0.4521, 0.6761, -72],
+                    [4.7377, 1.9932, 0.1901, 0.3736, 37],
+                ],
+                [
+                    [5.1709, 1.8798, 0.1101, 0.1493, 14],
+                    [5.1183, 4.2772, 0.2108, 0.6964, -29],
+                    [0.0205, 3.0918, 0.3839, 0.5557, -10],
+                    [3.6331, 2.8906, 0.3317, 0.4939, 2],
+                    [3.7118, 2.4263, 0.2411, 0.6017, 5],
+                    [1.3457, 0.3511, 0.2296, 0.4053, -9],
+                    [3.3306, 1.812, 0.2326, 0.4484, 15],
+                ],
+                [
+                    [2.2425, 5.459, 0.1869, 0.13, -13],
+                    [2.4678, 2.9447, 0.61, 0.5893, -5],
+                    [4.1019, 4.7529, 0.2535, 0.9205, -34],
+                    [1.0095, 0.3348, 0.3428, 0.3661, 0],
+                    [0.9398, 5.9189, 0.8537, 0.2594, -17],
+                    [2.5517, 3.7119, 0.4373, 0.5193, -34],
+                    [1.7875, 4.5985, 0.2591, 0.138, 15],
+                ],
+                [
+                    [3.5193, 2.7633, 0.3246, 0.6235, 5],
+                    [3.6857, 4.5513, 0.8873, 0.2343, 35],
+                    [0.8524, 3.5957, 0.524, 0.0422, 0],
+                    [6.1155, 2.9639, 0.3636, 0.938, 10],
+                    [5.8779, 3.2662, 0.2771, 0.1636, 2],
+                    [2.1137, 3.3904, 0.4313, 0.453, -38],
+                    [0.8445, 6.1975, 0.4518, 0.5648, 7],
+                ],
+                [
+                    [6.2539, 1.5336, 0.3903, 0.218, 23],
+                    [1.8872, 3.4735, 0.1971, 0.2817, 13],
+                    [2.054, 3.3235, 0.294, 0.1831, -21],
+                    [3.3132, 6.0784, 0.6694, 0.2743, 44],
+                    [4.6871, 4.8946, 0.8432, 0.254, 34],
+                    [3.2251, 2.357, 0.5782, 0.6791, 34],
+                    [4.642, 3.5083, 0.8795, 0.3784, 41],
+                ],
+            ],
+            [
+                [
+                    [3.0955, 4.695, 0.4064, 0.2526, 4],
+                    [0.9769, 3.8923, 0.2819, 0.6123, 3],
+                    [0.8777, 0.4571, 0.4927, 0.1806, 15],
+                    [0.9161, 1.11, 0.212, 0.8392, -28],
+                    [3.1237, 1.0017, 0.466, 0.027, -36],
+                    [5.7837, 1.1889, 0.2221, 0.4502, -13],
+                    [3.2371, 0.4208, 0.8492, 0.2867, -13],
+                ],
+                [
+                    [2.6636, 3.0306, 0.9949, 0.3918, 3],
+                    [4.2668, 2.7646, 0.5202, 0.1915, 7],
+                    [4.5608, 1.0373, 0.805, 0.2322, 33],
+                    [6.0107, 4.9937, 0.3414, 0.6836, -21],
+                    [0.3678, 0.3284, 0.717, 0.2106, 8],
+                    [4.1766, 4.0678, 0.7333, 0.4806, 20],
+                    [1.0607, 3.9601, 0.4236, 0.5125, 0],
+                ],
+                [
+                    [3.913, 2.7792, 0.9906, 0.2692, 35],
+                    [0.4795, 0.8568, 0.2261, 0.8831, -14],
+                    [0.4708, 0.6213, 0.29, 0.5482, -16],
+                    [2.6797, 1.3639, 0.8806, 0.1791, 18],
+                    [5.0992, 3.4238, 0.1371, 0.4111, 22],
+                    [6.2728, 2.8319, 0.2267, 0.7713, 0],
+                    [5.4477, 2.3201, 0.1281, 0.2766, 27],
+                ],
+                [
+                    [4.0523, 2.0439, 0.6791, 0.2245, 18],
+                    [5.6627, 4.7525, 0.1029, 0.7946, -39],
+                    [1.8152, 3.8908, 0.2975, 0.3703, 12],
+                    [6.2692, 1.7439, 0.2688, 0.6867, -15],
+                    [3.7186, 4.2754, 0.5133, 0.5398, 10],
+                    [4.8751, 0.7027, 0.4752, 0.3391, 18],
+                    [1.0191, 6.1913, 0.8467, 0.1326, 12],
+                ],
+                [
+                    [3.2332, 3.8196, 0.4191, 0.6451, 8],
+                    [1.6567, 4.3318, 0.2363, 0.1855, -27],
+                    [0.018, 3.1591, 0.0897, 0.8889, -10],
+                    [0.8506, 2.2442, 0.2826, 0.5984, -23],
+                    [4.2803, 0.9823, 0.8985, 0.1515, 19],
+                    [6.2049, 0.6276, 0.2746, 0.99, -34],
+                    [4.1566, 4.2624, 0.3978, 0.976, -39],
+                ],
+            ],
+            [
+                [
+                    [1.1827, 6.1293, 0.7267, 0.948, 16],
+                    [4.3211, 1.2341, 0.9202, 0.9881, 2],
+                    [3.8971, 1.4769, 0.8493, 0.7397, -9],
+                    [0.0121, 0.4179, 0.9971, 0.712, -2],
+                    [5.2949, 0.0105, 0.3327, 0.878, 13],
+                    [5.435, 2.951, 0.5917, 0.1896, 0],
+                    [1.4293, 5.1157, 0.8073, 0.3231, -3],
+                ],
+                [
+                    [5.2586, 1.8141, 0.9711, 0.9967, 0],
+                    [2.0126, 0.2539, 0.361, 0.9609, 20],
+                    [3.722, 0.6162, 0.7695, 0.8223, 14],
+                    [5.6199, 2.4646, 0.7464, 0.7675, -17],
+                    [0.8403, 3.8774, 0.9596, 0.7296, 26],
+                    [3.324, 2.1004, 0.2956, 0.889, 2],
+                    [0.5266, 3.3162, 0.8799, 0.7595, -17],
+                ],
+                [
+                    [2.1325, 4.7344, 0.7429, 0.874, -6],
+                    [0.3418, 4.4507, 0.7448, 0.9943, -27],
+                    [6.2818, 1.3086, 0.5617, 0.598, -29],
+                    [1.9771, 5.6138, 0.9996, 0.9567, 180],
+                    [4.767, 0.7506, 0.482, 0.2853, -3],
+                    [0.1098, 2.3224, 0.7883, 0.5676, -28],
+                    [4.5644, 1.5548, 0.7081, 0.7945, -9],
+                ],
+                [
+                    [3.9872, 0.327, 0.4938, 0.8541, 20],
+                    [2.547, 3.6216, 0.9639, 0.7084, 10],
+                    [1.4007, 5.1613, 0.6485, 0.4976, 3],
+                    [2.3655, 5.7848, 0.7774, 0.7036, -12],
+                    [4.5078, 2.1269, 0.788, 0.9118, -13],
+                    [2.5719, 4.1715, 0.9771, 0.5278, 0],
+                    [1.6805, 5.2521, 0.5449, 0.8796, 80],
+                ],
+                [
+                    [5.8933, 2.4495, 0.9902, 0.9873, 0],
+                    [4.6427, 2.2046, 0.719, 0.603, 2],
+                    [4.0922, 0.5956, 0.6654, 0.898, 8],
+                    [4.2771, 0.3891, 0.8115, 0.4457, 20],
+                    [1.6571, 4.2455, 0.6664, 0.9497, -3],
+                    [1.6141, 0.2189, 0.8648, 0.7974, -3],
+                    [0.7696, 5.7041, 0.8146, 0.9866, -8],
+                ],
+            ],
+            [
+                [
+                    [0.3245, 0.9761, 0.5615, 0.1306, 11],
+                    [6.0186, 4.7984, 0.4683, 0.5095, -24],
+                    [0.7877, 5.7498, 0.4526, 0.2222, 8],
+                    [2.8804, 5.7797, 0.6109, 0.4371, 26],
+                    [0.7833, 5.3976, 0.9972, 0.7969, -8],
+                    [0.8895, 4.4547, 0.4275, 0.4785, -30],
+                    [0.5339, 5.8376, 0.7176, 0.3459, 23],
+                ],
+                [
+                    [0.4158, 0.5424, 0.6681, 0.9771, -19],
+                    [5.9698, 6.2093, 0.9035, 0.3845, 26],
+                    [6.0348, 4.3572, 0.333, 0.6337, -38],
+                    [3.1334, 0.9915, 0.2465, 0.3593, 30],
+                    [5.3227, 0.4003, 0.6478, 0.2026, 49],
+                    [0.2569, 5.7792, 0.3981, 0.4128, 25],
+                    [5.2103, 5.194, 0.1997, 0.9202, -27],
+                ],
+                [
+                    [4.2533, 5.7308, 0.9994, 0.4032, 35],
+                    [0.0824, 1.4125, 0.5151, 0.0687, -18],
+                    [5.7892, 3.2935, 0.3775, 0.6466, -46],
+                    [0.0081, 0.57, 0.2811, 0.4696, 23],
+                    [0.123, 5.2976, 0.1578, 0.5237, -18],
+                    [5.9018, 0.8245, 0.5426, 0.6934, -12],
+                    [0.0661, 0.7622, 0.9455, 0.079, 17],
+                ],
+                [
+                    [5.774, 3.1413, 0.2949, 0.6663, -33],
+                    [5.9522, 1.4141, 0.4496, 0.144, -7],
+                    [0.7821, 1.3539, 0.9569, 0.2532, -7],
+                    [5.533, 6.2764, 0.2061, 0.4036, -3],
+                    [3.7755, 6.2421, 0.0809, 0.5423, -9],
+                    [0.3687, 0.0659, 0.2755, 0.6023, 8],
+                    [5.9758, 1.0726, 0.8727, 0.4613, 38],
+                ],
+                [
+                    [0.7769, 1.1136, 0.4737, 0.8523, -12],
+                    [0.025, 1.0899, 0.4836, 0.4743, 8],
+                    [5.9846, 6.196, 0.1318, 0.4723, 6],
+                    [4.9521, 0.3399, 0.7791, 0.5643, 39],
+                    [2.8694, 0.6879, 0.1389, 0.5649, 23],
+                    [3.1062, 5.754, 0.6451, 0.2451, 5],
+                    [5.3251, 5.9567, 0.9242, 0.4661, 14],
+                ],
+            ],
+            [
+                [
+                    [0.7274, 3.6463, 0.2714, 0.4016, -7],
+                    [0.4185, 5.7998, 0.5009, 0.2358, -21],
+                    [2.6354, 5.887, 0.1965, 0.311, 3],
+                    [5.9679, 2.1897, 0.6841, 0.1689, -6],
+                    [3.2157, 2.5168, 0.9254, 0.4777, -3],
+                    [0.115, 1.5086, 0.9937, 0.3503, 17],
+                    [0.8901, 0.1519, 0.3379, 0.8626, 8],
+                ],
+                [
+                    [1.7557, 4.4467, 0.311, 0.7516, -19],
+                    [0.6197, 4.585, 0.1338, 0.2716, -1],
+                    [0.075, 1.7738, 0.6187, 0.479, -11],
+                    [5.7517, 3.6001, 0.3816, 0.5497, 2],
+                    [5.713, 0.8854, 0.4819, 0.9571, 21],
+                    [2.3859, 4.7865, 0.4402, 0.6074, 0],
+                    [4.8624, 6.1796, 0.8225, 0.3338, -3],
+                ],
+                [
+                    [1.7696, 0.1667, 0.3484, 0.9345, 7],
+                    [3.0584, 5.5247, 0.3427, 0.1705, 1],
+                    [1.1428, 5.7151, 0.2714, 0.2608, -39],
+                    [3.8801, 0.2039, 0.437, 0.2211, 1],
+                    [2.9017, 5.3577, 0.2098, 0.4492, 0],
+                    [2.4945, 5.3765, 0.57, 0.4805, 5],
+                    [3.7607, 0.6538, 0.4333, 0.4186, -6],
+                ],
+                [
+                    [1.7472, 3.4963, 0.3456, 0.4462, 5],
+                    [3.1684, 6.0578, 0.2884, 0.399, 4],
+                    [5.8863, 1.9422, 0.1668, 0.3742, 15],
+                    [3.5691, 0.89, 0.4618, 0.1521, 0],
+                    [1.7696, 4.1738, 0.2846, 0.2792, -19],
+                    [5.2131, 1.4301, 0.7672, 0.3709, 5],
+                    [0.6234, 5.0795, 0.4594, 0.5519, -2],
+                ],
+                [
+                    [5.7661, 2.8725, 0.379, 0.2633, 1],
+                    [1.9139, 4.6176, 0.3133, 0.2541, -15],
+                    [3.8728, 0.56, 0.3912, 0.2135, 19],
+                    [0.4832, 4.2147, 0.1938, 0.3363, 0],
+                    [4.0227, 1.2026, 0.7483, 0.3162, 2],
+                    [1.3757, 4.117, 0.3577, 0.2021, -10],
+                    [5.1673, 0.3342, 0.5799, 0.8339, 26],
+                ],
+            ],
+            [
+                [
+                    [4.3601, 3.5678, 0.6853, 0.4264, 9],
+                    [3.2783, 1.0314, 0.6595, 0.1975, 14],
+                    [2.1741, 2.3751, 0.8954, 0.6255, 13],
+                    [4.6962, 1.9542, 0.6115, 0.4192, 16],
+                    [1.3625, 2.6911, 0.4448, 0.5015, 0],
+                    [2.6817, 0.0953, 0.4623, 0.7294, -42],
+                    [3.2477, 5.7799, 0.451, 0.9012, -16],
+                ],
+                [
+                    [0.0246, 3.4349, 0.89, 0.3567, 21],
+                    [2.9432, 0.0162, 0.5154, 0.1205, 30],
+                    [3.6069, 2.1819, 0.3995, 0.547, -29],
+                    [3.1611, 2.0566, 0.5474, 0.4757, 20],
+                    [2.2601, 0.4307, 0.4773, 0.4752, -56],
+                    [3.8802, 6.1057, 0.2872, 0.6128, -50],
+                    [3.716, 2.3493, 0.4448, 0.6019, 20],
+                ],
+                [
+                    [3.793, 2.8821, 0.3065, 0.514, -53],
+                    [0.7383, 3.9181, 0.834, 0.4023, 14],
+                    [1.9681, 3.2331, 0.4454, 0.4593, -27],
+                    [2.6304, 3.7763, 0.6861, 0.9886, -54],
+                    [3.6442, 2.1555, 0.5813, 0.6098, -5],
+                    [2.2641, 1.1155, 0.4821, 0.5421, -42],
+                    [2.823, 1.6759, 0.497, 0.1078, 1],
+                ],
+                [
+                    [4.0079, 2.5851, 0.2302, 0.3847, -31],
+                    [3.6887, 6.109, 0.3978, 0.4593, -29],
+                    [1.0237, 1.9854, 0.6983, 0.3563, 22],
+                    [2.2286, 3.7648, 0.5898, 0.4809, -4],
+                    [3.1628, 5.1969, 0.4217, 0.5795, 13],
+                    [2.3706, 5.2441, 0.0925, 0.5693, -20],
+                    [1.9799, 0.6489, 0.4546, 0.2874, -51],
+                ],
+                [
+                    [5.7728, 3.5881, 0.9431, 0.3362, 22],
+                    [1.1758, 2.768, 0.2596, 0.7239, -30],
+                    [4.5427, 3.9571, 0.8688, 0.2754, 15],
+                    [3.0085, 2.082, 0.3868, 0.0681, 3],
+                    [2.3906, 2.0161, 0.5822, 0.7682, 0],
+                    [3.3848, 1.9031, 0.5688, 0.503, -24],
+                    [2.0314, 3.9738, 0.3964, 0.4471, -5],
+                ],
+            ],
+            [
+                [
+                    [0.2972, 5.6298, 0.7197, 0.9003, 0],
+                    [0.4287, 4.8502, 0.8034, 0.5681, -26],
+                    [5.5939, 3.1658, 0.1959, 0.4016, 26],
+                    [2.7384, 5.7101, 0.1145, 0.7311, 9],
+                    [0.6897, 4.9407, 0.6601, 0.3095, 7],
+                    [6.0114, 5.8757, 0.9492, 0.4137, 15],
+                    [0.3387, 0.8528, 0.4002, 0.8851, 38],
+                ],
+                [
+                    [0.2792, 3.8565, 0.8534, 0.2669, -22],
+                    [6.0421, 0.1237, 0.9026, 0.7584, 0],
+                    [0.1468, 4.0707, 0.9487, 0.2963, 0],
+                    [0.0737, 2.72, 0.7951, 0.0987, -36],
+                    [0.5794, 5.5743, 0.771, 0.9882, -22],
+                    [5.501, 4.2352, 0.9022, 0.0881, -3],
+                    [6.1678, 5.5945, 0.3593, 0.9816, -5],
+                ],
+                [
+                    [0.3801, 5.1576, 0.1935, 0.4032, -3],
+                    [5.9044, 0.452, 0.8845, 0.7681, -2],
+                    [0.6485, 1.9338, 0.3124, 0.9344, 4],
+                    [3.4175, 6.1434, 0.0738, 0.9707, 32],
+                    [0.6191, 5.5678, 0.8859, 0.2287, 2],
+                    [5.6694, 0.0345, 0.9272, 0.461, 1],
+                    [1.2759, 1.1862, 0.2613, 0.9902, 22],
+                ],
+                [
+                    [5.8958, 0.0035, 0.8052, 0.7133, -2],
+                    [3.5779, 0.5383, 0.914, 0.4464, -28],
+                    [0.5715, 4.8807, 0.7064, 0.8465, -35],
+                    [1.5233, 6.01, 0.9852, 0.713, -37],
+                    [5.5521, 5.8617, 0.6624, 0.1349, -16],
+                    [5.5691, 0.5138, 0.5102, 0.7284, 9],
+                    [5.5821, 0.1243, 0.6274, 0.8486, -1],
+                ],
+                [
+                    [0.2014, 5.7156, 0.1476, 0.8198, 5],
+                    [6.2531, 5.7709, 0.8995, 0.4157, 3],
+                    [4.7622, 0.0443, 0.3429, 0.9559, 21],
+                    [0.0203, 0.3386, 0.9951, 0.5179, 0],
+                    [6.0044, 4.9927, 0.7304, 0.2156, -6],
+                    [0.1362, 5.7327, 0.5198, 0.8478, 10],
+                    [6.1834, 4.2031, 0.1992, 0.4549, 40],
+                ],
+            ],
+            [
+                [
+                    [2.4795, 5.0621, 0.7324, 0.2045, 15],
+                    [5.664, 0.971, 0.1853, 0.9881, 5],
+                    [3.7324, 4.6987, 0.177, 0.625, -63],
+                    [3.1205, 2.2103, 0.1828, 0.4459, 2],
+                    [4.5052, 0.205, 0.6227, 0.3601, 16],
+                    [4.7358, 1.465, 0.2532, 0.7863, -51],
+                    [6.1284, 3.0514, 0.7776, 0.7676, -5],
+                ],
+                [
+                    [1.3659, 5.7136, 0.9428, 0.3011, 6],
+                    [0.6853, 0.6626, 0.6323, 0.2031, -1],
+                    [6.0175, 0.8741, 0.3283, 0.9986, -52],
+                    [0.8077, 1.2572, 0.5529, 0.5279, 5],
+                    [2.9441, 5.9954, 0.238, 0.5457, -12],
+                    [4.6148, 5.9593, 0.1709, 0.9126, -55],
+                    [0.8573, 3.4748, 0.7651, 0.0974, 1],
+                ],
+                [
+                    [2.5936, 4.6225, 0.5997, 0.2309, 11],
+                    [5.9504, 1.4118, 0.1074, 0.1883, 7],
+                    [4.1033, 6.2284, 0.1995, 0.8693, -6],
+                    [5.2308, 0.954, 0.179, 0.9138, -5],
+                    [0.0611, 2.8742, 0.747, 0.4233, -5],
+                    [5.2074, 3.2815, 0.374, 0.8312, -55],
+                    [0.6268, 0.0988, 0.314, 0.3773, -3],
+                ],
+                [
+                    [4.7762, 1.3018, 0.0895, 0.9802, -31],
+                    [5.3812, 3.8997, 0.736, 0.2086, 36],
+                    [6.1634, 1.6076, 0.2742, 0.461, 3],
+                    [5.2321, 1.4862, 0.2641, 0.9812, -59],
+                    [4.8408, 1.9517, 0.2553, 0.7807, -44],
+                    [4.2181, 1.0336, 0.1144, 0.799, -12],
+                    [2.6388, 0.1053, 0.2705, 0.4983, 15],
+                ],
+                [
+                    [1.9052, 4.5278, 0.9561, 0.226, 16],
+                    [1.1822, 6.1431, 0.8213, 0.5201, 10],
+                    [3.8789, 4.9044, 0.7179, 0.1604, 54],
+                    [0.3665, 0.1853, 0.0768, 0.8476, -2],
+                    [0.7462, 5.514, 0.5517, 0.2078, -21],
+                    [0.6079, 0.5748, 0.1062, 0.6277, 1],
+                    [1.6339, 5.0784, 0.8455, 0.3139, 27],
+                ],
+            ],
+            [
+                [
+                    [2.0089, 3.1866, 0.5422, 0.2321, -4],
+                    [3.5816, 2.0057, 0.495, 0.9759, -3],
+                    [4.2298, 2.3574, 0.1432, 0.922, -11],
+                    [4.4325, 3.4109, 0.1147, 0.8808, -45],
+                    [1.0184, 5.5342, 0.0222, 0.4763, -22],
+                    [3.8693, 0.7442, 0.3556, 0.7922, -25],
+                    [2.9413, 3.5354, 0.6875, 0.174, 0],
+                ],
+                [
+                    [4.8974, 1.5312, 0.132, 0.5673, 1],
+                    [0.7434, 4.9502, 0.8928, 0.1383, 53],
+                    [0.4804, 2.8613, 0.1956, 0.4848, 13],
+                    [3.2725, 0.442, 0.5594, 0.6316, -19],
+                    [3.8257, 0.6505, 0.4796, 0.9715, -34],
+                    [0.9218, 3.2707, 0.9617, 0.1816, 7],
+                    [3.7421, 0.9519, 0.2018, 0.5401, -7],
+                ],
+                [
+                    [2.2308, 4.1456, 0.8931, 0.1562, 2],
+                    [1.8681, 2.7866, 0.1078, 0.583, 1],
+                    [5.5769, 0.7108, 0.2776, 0.5362, -5],
+                    [0.6313, 3.0192, 0.97, 0.4179, 41],
+                    [3.0098, 2.339, 0.7539, 0.5758, 7],
+                    [3.2469, 1.609, 0.3017, 0.2538, 2],
+                    [3.9082, 1.9256, 0.1985, 0.8468, -31],
+                ],
+                [
+                    [4.3275, 2.0699, 0.1064, 0.7257, -9],
+                    [6.1303, 2.3156, 0.2645, 0.6745, -37],
+                    [3.0991, 0.3487, 0.7805, 0.1722, -1],
+                    [1.476, 3.5596, 0.5669, 0.208, 34],
+                    [4.2634, 1.7883, 0.2382, 0.6811, -20],
+                    [0.8405, 3.7137, 0.7642, 0.3719, 31],
+                    [5.6192, 2.1122, 0.0744, 0.8386, 6],
+                ],
+                [
+                    [2.1497, 4.4297, 0.7755, 0.2153, 10],
+                    [1.583, 3.2357, 0.8674, 0.4169, 9],
+                    [4.7832, 1.9267, 0.2521, 0.8604, -36],
+                    [1.0798, 1.5796, 0.0634, 0.4795, 18],
+                    [4.1841, 2.6333, 0.1578, 0.2601, 2],
+                    [2.4288, 5.9546, 0.9837, 0.397, 6],
+                    [4.0535, 0.6313, 0.3084, 0.5608, 7],
+                ],
+            ],
+            [
+                [
+                    [3.6422, 3.0327, 0.8706, 0.7323, 0],
+                    [3.8009, 3.2178, 0.8844, 0.7958, -12],
+                    [3.4084, 2.7518, 0.9348, 0.5477, 0],
+                    [4.1372, 2.9104, 0.9765, 0.9952, -11],
+                    [3.8962, 5.7796, 0.1034, 0.7175, 4],
+                    [1.9167, 5.5188, 0.1844, 0.9547, 33],
+                    [4.9351, 2.3483, 0.1493, 0.5503, -8],
+                ],
+                [
+                    [4.6771, 2.8929, 0.3735, 0.7642, 5],
+                    [3.5048, 3.703, 0.0622, 0.9701, 25],
+                    [2.9435, 3.8979, 0.787, 0.5535, -16],
+                    [3.0363, 4.1274, 0.4372, 0.6725, -17],
+                    [5.3195, 3.5583, 0.2686, 0.1047, -8],
+                    [2.7672, 3.2344, 0.7623, 0.7635, 5],
+                    [4.0302, 2.9013, 0.7706, 0.5468, 8],
+                ],
+                [
+                    [3.9632, 2.867, 0.9669, 0.6423, 42],
+                    [3.8248, 4.1601, 0.2212, 0.5524, 36],
+                    [3.7591, 2.5046, 0.973, 0.6061, 5],
+                    [3.1782, 3.9919, 0.9527, 0.6778, -1],
+                    [3.9279, 5.8197, 0.0849, 0.9486, -13],
+                    [5.9723, 2.1965, 0.1476, 0.4197, -29],
+                    [1.5223, 4.1999, 0.1826, 0.2122, 24],
+                ],
+                [
+                    [3.0992, 3.7927, 0.8575, 0.8658, -15],
+                    [5.7988, 1.7371, 0.1879, 0.3699, -17],
+                    [0.9873, 4.0863, 0.951, 0.2413, -20],
+                    [2.7554, 4.6747, 0.8619, 0.1368, -5],
+                    [2.7317, 3.6966, 0.4348, 0.8674, -19],
+                    [4.5049, 0.7956, 0.3507, 0.7151, 0],
+                    [6.2499, 3.4365, 0.1084, 0.9192, 10],
+                ],
+                [
+                    [2.7625, 3.6834, 0.6602, 0.9925, -1],
+                    [2.8276, 3.9055, 0.7833, 0.6653, 2],
+                    [2.2233, 5.0831, 0.0531, 0.2534, 0],
+                    [2.8179, 3.567, 0.8722, 0.6059, -4],
+                    [4.7856, 4.9918, 0.2198, 0.4477, -11],
+                    [3.825, 4.0653, 0.892, 0.2569, -64],
+                    [2.9617, 0.5179, 0.1014, 0.8643, 0],
+                ],
+            ],
+            [
+                [
+                    [4.0998, 0.3133, 0.9104, 0.7928, 36],
+                    [0.3879, 4.9463, 0.7217, 0.5444, -2],
+                    [5.6677, 0.2819, 0.9444, 0.94, 8],
+                    [3.9485, 2.1538, 0.2056, 0.2575, -11],
+                    [5.83, 6.1539, 0.5694, 0.8336, -5],
+                    [4.5189, 0.8791, 0.237, 0.1501, -10],
+                    [0.5331, 5.6842, 0.2665, 0.3859, 3],
+                ],
+                [
+                    [0.1976, 5.7051, 0.665, 0.9879, -28],
+                    [5.8719, 0.1933, 0.5281, 0.8837, 6],
+                    [5.4922, 0.0388, 0.5232, 0.8919, -2],
+                    [5.8836, 3.6355, 0.8939, 0.1302, -40],
+                    [0.4696, 4.0959, 0.8178, 0.9218, -58],
+                    [3.7974, 1.3697, 0.23, 0.9943, -72],
+                    [0.0698, 4.041, 0.1349, 0.3939, -4],
+                ],
+                [
+                    [5.3556, 0.239, 0.6841, 0.7342, -3],
+                    [5.9137, 3.5954, 0.1854, 0.3966, 30],
+                    [6.1009, 5.2295, 0.1441, 0.3864, 0],
+                    [4.5724, 5.0952, 0.1033, 0.7751, 0],
+                    [3.3644, 5.5005, 0.7102, 0.2126, -19],
+                    [5.4896, 5.222, 0.8114, 0.1115, 0],
+                    [0.0857, 5.2182, 0.1261, 0.933, 41],
+                ],
+                [
+                    [5.1229, 0.1997, 0.4458, 0.9636, -2],
+                    [5.9983, 0.1581, 0.8252, 0.5076, -15],
+                    [0.4408, 5.6792, 0.7917, 0.8924, -1],
+                    [3.559, 0.5276, 0.2881, 0.0572, -13],
+                    [0.5116, 5.138, 0.3421, 0.8086, -37],
+                    [0.5894, 4.8821, 0.6948, 0.7371, -41],
+                    [0.627, 5.1416, 0.2112, 0.2624, 39],
+                ],
+                [
+                    [5.5392, 0.3524, 0.8221, 0.5621, 7],
+                    [5.9146, 5.0969, 0.0968, 0.3796, 18],
+                    [0.1984, 3.7723, 0.8318, 0.1709, -3],
+                    [0.3351, 4.6755, 0.7723, 0.237, 2],
+                    [0.1564, 3.3434, 0.1994, 0.908, 7],
+                    [5.6357, 0.5282, 0.5276, 0.713, -22],
+                    [0.5604, 5.6157, 0.9315, 0.5253, 1],
+                ],
+            ],
+            [
+                [
+                    [1.1805, 5.5851, 0.9029, 0.3348, 62],
+                    [1.4968, 5.6221, 0.8668, 0.2671, 26],
+                    [2.5462, 5.164, 0.7454, 0.2718, 29],
+                    [0.9954, 5.3737, 0.9548, 0.2256, 7],
+                    [3.2266, 5.9095, 0.3408, 0.9191, -17],
+                    [6.0879, 0.4604, 0.6575, 0.349, 46],
+                    [4.3591, 0.8902, 0.4381, 0.6121, 1],
+                ],
+                [
+                    [1.3997, 5.2201, 0.6728, 0.2854, 3],
+                    [5.1434, 1.7489, 0.1214, 0.9099, -26],
+                    [2.469, 4.5341, 0.6093, 0.2276, 36],
+                    [0.984, 5.2811, 0.6016, 0.0242, -6],
+                    [1.0305, 0.2899, 0.3682, 0.2786, -6],
+                    [5.9085, 0.5233, 0.3278, 0.5072, 7],
+                    [2.795, 0.3447, 0.791, 0.9259, 25],
+                ],
+                [
+                    [4.9709, 2.0783, 0.17, 0.7971, -18],
+                    [4.0314, 1.9407, 0.1777, 0.7725, -32],
+                    [1.0725, 0.3675, 0.2664, 0.0987, -1],
+                    [1.1108, 5.0851, 0.8632, 0.1442, 28],
+                    [1.4702, 4.1035, 0.1672, 0.024, -17],
+                    [1.3323, 5.9169, 0.7716, 0.3544, 21],
+                    [0.101, 1.2223, 0.9695, 0.6226, -23],
+                ],
+                [
+                    [2.5664, 5.6468, 0.562, 0.1529, 16],
+                    [4.4116, 0.883, 0.1291, 0.8504, -2],
+                    [1.9883, 4.1835, 0.9444, 0.1082, 85],
+                    [5.9708, 1.4459, 0.5642, 0.8151, -1],
+                    [6.114, 1.416, 0.8218, 0.7092, 3],
+                    [5.413, 1.5498, 0.2404, 0.1998, 5],
+                    [1.8213, 5.9628, 0.9062, 0.8999, 8],
+                ],
+                [
+                    [1.19, 6.1683, 0.4147, 0.231, 0],
+                    [4.3914, 1.7594, 0.1498, 0.9283, -20],
+                    [0.6131, 4.6829, 0.8399, 0.1755, 4],
+                    [1.1264, 3.2952, 0.9766, 0.2107, 24],
+                    [3.1612, 2.3859, 0.0787, 0.754, -14],
+                    [1.3798, 2.2342, 0.35, 0.29, 6],
+                    [5.0173, 0.9079, 0.3156, 0.8222, -9],
+                ],
+            ],
+            [
+                [
+                    [3.2949, 2.0665, 0.2013, 0.3236, 5],
+                    [0.6207, 4.456, 0.2947, 0.2556, 0],
+                    [0.4606, 1.582, 0.042, 0.7783, -32],
+                    [6.161, 3.3092, 0.1581, 0.6466, 3],
+                    [4.0501, 4.6296, 0.2574, 0.8901, -81],
+                    [4.8914, 5.0241, 0.4435, 0.0527, 24],
+                    [3.6635, 1.5657, 0.3082, 0.944, -27],
+                ],
+                [
+                    [2.0957, 4.3258, 0.8314, 0.1254, 3],
+                    [1.9576, 2.843, 0.4148, 0.7177, -27],
+                    [3.9447, 1.0165, 0.2343, 0.6842, -49],
+                    [3.0901, 0.2144, 0.7036, 0.1506, 0],
+                    [3.7906, 0.4694, 0.3996, 0.8019, -36],
+                    [3.9359, 0.3196, 0.3306, 0.8081, -71],
+                    [0.8647, 3.087, 0.2377, 0.5219, -2],
+                ],
+                [
+                    [4.461, 2.054, 0.2153, 0.5729, 13],
+                    [5.0781, 0.9092, 0.2098, 0.7631, 0],
+                    [1.6362, 3.2216, 0.7569, 0.2186, 4],
+                    [4.3773, 1.167, 0.3019, 0.8475, -34],
+                    [1.4538, 4.7314, 0.923, 0.0386, 22],
+                    [1.1019, 3.23, 0.1746, 0.4954, -32],
+                    [6.0623, 3.4231, 0.2662, 0.8997, -21],
+                ],
+                [
+                    [3.7934, 2.005, 0.3595, 0.6907, -7],
+                    [4.8988, 1.5561, 0.2922, 0.8233, -37],
+                    [3.2012, 1.4819, 0.2159, 0.2485, 3],
+                    [0.0509, 4.5515, 0.5608, 0.4693, -3],
+                    [3.1656, 5.7111, 0.9512, 0.6492, -19],
+                    [3.897, 2.1879, 0.1958, 0.9355, -16],
+                    [0.4766, 1.8821, 0.0785, 0.7726, -16],
+                ],
+                [
+                    [4.2367, 1.9642, 0.1588, 0.9878, -26],
+                    [0.0013, 3.7325, 0.2022, 0.3169, -2],
+                    [5.7188, 1.9432, 0.1145, 0.9011, -5],
+                    [3.8668, 5.0631, 0.7781, 0.1112, 54],
+                    [1.5063, 5.0037, 0.8271, 0.2519, 42],
+                    [5.8773, 3.4492, 0.0636, 0.4307, -4],
+                    [1.7449, 3.0608, 0.5986, 0.4937, 0],
+                ],
+            ],
+            [
+                [
+                    [3.1103, 3.5048, 0.5838, 0.8681, 3],
+                    [3.7227, 2.7976, 0.4095, 0.8039, 4],
+                    [2.9676, 3.8975, 0.9271, 0.7867, 12],
+                    [2.7004, 1.313, 0.526, 0.925, -61],
+                    [2.7433, 4.0765, 0.7485, 0.743, -22],
+                    [4.6901, 2.8907, 0.7591, 0.4497, -13],
+                    [4.6922, 3.1078, 0.5038, 0.2353, -16],
+                ],
+                [
+                    [2.7558, 3.6264, 0.6268, 0.7819, 3],
+                    [3.6237, 2.6744, 0.5334, 0.7144, -11],
+                    [3.5726, 2.9959, 0.9799, 0.8087, -5],
+                    [5.1512, 3.7352, 0.2603, 0.9951, -6],
+                    [4.2085, 2.7487, 0.1785, 0.7983, 0],
+                    [3.833, 3.5805, 0.8045, 0.3108, -14],
+                    [0.4833, 3.3234, 0.9395, 0.1625, -8],
+                ],
+                [
+                    [4.3955, 2.6976, 0.3044, 0.606, 11],
+                    [5.2237, 1.9687, 0.2169, 0.5864, -29],
+                    [3.6715, 2.8406, 0.5338, 0.7407, 1],
+                    [3.2826, 4.0364, 0.3422, 0.9769, -31],
+                    [3.3253, 3.5604, 0.5646, 0.8661, 0],
+                    [3.0369, 3.1195, 0.5726, 0.9936, -3],
+                    [2.5791, 4.9742, 0.935, 0.1145, 8],
+                ],
+                [
+                    [3.0871, 3.4894, 0.6369, 0.8748, 0],
+                    [6.0081, 2.6952, 0.9777, 0.8866, 48],
+                    [4.4581, 2.8879, 0.516, 0.9506, 20],
+                    [1.6886, 5.4071, 0.5682, 0.1712, 23],
+                    [3.9052, 2.4767, 0.2556, 0.6119, -1],
+                    [4.1723, 5.0505, 0.919, 0.201, 4],
+                    [3.0575, 6.005, 0.1835, 0.9014, -10],
+                ],
+                [
+                    [2.978, 3.5563, 0.7528, 0.8282, 4],
+                    [4.069, 1.4208, 0.4662, 0.1798, -3],
+                    [3.3689, 3.5517, 0.6439, 0.9685, -2],
+                    [1.8534, 6.0256, 0.7825, 0.0763, 35],
+                    [3.3066, 2.8864, 0.6874, 0.6555, 0],
+                    [4.2306, 4.5461, 0.8568, 0.3343, 10],
+                    [3.5947, 5.8306, 0.1923, 0.8637, 27],
+                ],
+            ],
+            [
+                [
+                    [2.0562, 5.9621, 0.2212, 0.325, 40],
+                    [0.7328, 5.0518, 0.3024, 0.3435, -35],
+                    [1.6671, 3.7861, 0.8865, 0.0239, 8],
+                    [2.5278, 2.7963, 0.9528, 0.2272, -3],
+                    [0.7916, 4.469, 0.994, 0.1226, 11],
+                    [5.1284, 0.7797, 0.2967, 0.7969, -26],
+                    [3.8261, 1.3605, 0.1664, 0.6989, -17],
+                ],
+                [
+                    [5.2092, 0.8545, 0.3207, 0.4856, 17],
+                    [5.4402, 4.6131, 0.1436, 0.8479, -31],
+                    [1.5095, 3.16, 0.2012, 0.9851, -12],
+                    [0.8131, 3.2344, 0.764, 0.2378, 19],
+                    [5.8625, 1.7733, 0.5179, 0.4828, -14],
+                    [4.2703, 2.68, 0.9936, 0.1382, 51],
+                    [0.8865, 6.26, 0.6376, 0.5835, -5],
+                ],
+                [
+                    [6.1751, 0.5757, 0.8057, 0.6348, -6],
+                    [5.6212, 1.1142, 0.2165, 0.8109, -28],
+                    [4.5801, 1.2032, 0.447, 0.3278, 24],
+                    [4.0302, 4.0478, 0.9062, 0.1386, 32],
+                    [3.4598, 0.0066, 0.101, 0.8873, 27],
+                    [0.5427, 5.1824, 0.5061, 0.1797, -1],
+                    [3.0951, 1.6456, 0.762, 0.1797, 2],
+                ],
+                [
+                    [1.7283, 5.7826, 0.4307, 0.394, 8],
+                    [0.7754, 5.1231, 0.4815, 0.3672, -41],
+                    [0.8987, 2.0942, 0.1216, 0.7319, -5],
+                    [1.8617, 6.1287, 0.4827, 0.1224, 7],
+                    [1.5184, 0.8834, 0.0482, 0.5968, -6],
+                    [4.8033, 2.8078, 0.1683, 0.5294, -17],
+                    [0.5187, 5.4154, 0.6513, 0.2854, -12],
+                ],
+                [
+                    [0.8123, 6.0153, 0.2221, 0.3804, 38],
+                    [1.0051, 3.6118, 0.2051, 0.6709, -28],
+                    [5.6846, 1.0864, 0.1359, 0.4303, -11],
+                    [1.3328, 4.721, 0.0861, 0.6459, -22],
+                    [0.4305, 6.0354, 0.8681, 0.284, -14],
+                    [3.2139, 4.9678, 0.7755, 0.1436, 15],
+                    [5.3959, 5.2379, 0.804, 0.436, 33],
+                ],
+            ],
+            [
+                [
+                    [5.2346, 4.2919, 0.7177, 0.3116, 10],
+                    [5.5548, 4.2088, 0.5059, 0.7439, -9],
+                    [4.9375, 5.8802, 0.5968, 0.9325, -14],
+                    [3.3622, 0.5456, 0.8424, 0.3581, 17],
+                    [0.1984, 3.3298, 0.7796, 0.7211, -4],
+                    [5.1609, 0.141, 0.2596, 0.6734, 1],
+                    [2.0235, 1.3408, 0.8763, 0.6682, 26],
+                ],
+                [
+                    [5.1006, 5.5131, 0.7677, 0.4708, 18],
+                    [4.1072, 5.5333, 0.8553, 0.8301, 15],
+                    [2.61, 2.1937, 0.6283, 0.8992, -3],
+                    [5.4031, 3.7613, 0.8881, 0.9726, 9],
+                    [1.9286, 4.1076, 0.9792, 0.8564, -28],
+                    [0.0183, 3.3748, 0.9965, 0.6599, -14],
+                    [3.4939, 5.7568, 0.9073, 0.9921, -5],
+                ],
+                [
+                    [3.5046, 4.795, 0.9741, 0.7679, 10],
+                    [2.2769, 5.5461, 0.9545, 0.9757, -10],
+                    [5.0895, 6.2509, 0.4185, 0.5045, 0],
+                    [5.8366, 4.4839, 0.3121, 0.4079, -13],
+                    [4.2437, 0.9942, 0.8211, 0.8317, -18],
+                    [5.4601, 4.679, 0.831, 0.7323, 5],
+                    [3.951, 5.1102, 0.9953, 0.9794, 11],
+                ],
+                [
+                    [3.6697, 4.8028, 0.7502, 0.7463, -7],
+                    [4.429, 4.9511, 0.2372, 0.505, -12],
+                    [5.7005, 3.0362, 0.454, 0.768, -12],
+                    [3.9447, 2.0275, 0.8703, 0.9408, 14],
+                    [5.2962, 3.942, 0.3593, 0.7486, -21],
+                    [4.4305, 0.0972, 0.3232, 0.9166, -7],
+                    [5.6558, 4.0518, 0.8404, 0.8259, -2],
+                ],
+                [
+                    [4.4611, 4.1496, 0.6732, 0.3884, 7],
+                    [3.9145, 5.735, 0.8235, 0.8465, -6],
+                    [5.8443, 3.3493, 0.5681, 0.9617, -13],
+                    [0.2449, 5.865, 0.971, 0.7016, -32],
+                    [0.2294, 2.2599, 0.8484, 0.988, 20],
+                    [4.0267, 2.9399, 0.1772, 0.8248, -3],
+                    [2.0194, 5.9405, 0.8462, 0.9899, -10],
+                ],
+            ],
+            [
+                [
+                    [3.5871, 5.0851, 0.1578, 0.9673, -34],
+                    [5.1572, 1.5611, 0.1583, 0.5573, -17],
+                    [2.4757, 1.3151, 0.4273, 0.6299, -21],
+                    [1.0629, 5.9391, 0.7363, 0.2494, 20],
+                    [3.4031, 0.976, 0.9897, 0.0809, 17],
+                    [0.831, 1.0256, 0.6888, 0.0684, 16],
+                    [2.8204, 4.4212, 0.525, 0.2443, 18],
+                ],
+                [
+                    [1.9855, 3.2051, 0.3662, 0.4368, 21],
+                    [4.6902, 2.298, 0.9344, 0.4658, 48],
+                    [1.4067, 4.4316, 0.8423, 0.1026, 7],
+                    [2.0144, 3.172, 0.1956, 0.9547, 8],
+                    [1.4221, 4.1546, 0.3388, 0.4964, -44],
+                    [3.2453, 2.1202, 0.8222, 0.1466, 9],
+                    [2.3003, 6.0071, 0.3624, 0.1391, 21],
+                ],
+                [
+                    [3.3964, 2.5273, 0.2918, 0.5755, 0],
+                    [3.5335, 2.2677, 0.0523, 0.6026, -18],
+                    [1.8496, 1.8443, 0.9321, 0.19, 35],
+                    [5.4816, 1.9071, 0.0871, 0.529, -13],
+                    [5.6199, 3.7614, 0.8639, 0.3147, 38],
+                    [2.1759, 0.4607, 0.2499, 0.6327, -6],
+                    [6.0567, 1.0677, 0.6462, 0.2137, 0],
+                ],
+                [
+                    [1.7288, 4.329, 0.5377, 0.1187, 24],
+                    [2.4606, 4.4739, 0.563, 0.4519, -29],
+                    [5.3849, 1.7917, 0.1391, 0.7642, -39],
+                    [1.8244, 5.0534, 0.2442, 0.3596, -27],
+                    [0.4723, 3.3903, 0.2848, 0.7555, 22],
+                    [0.5006, 5.0553, 0.8939, 0.332, 57],
+                    [2.2852, 5.6887, 0.1616, 0.5472, -26],
+                ],
+                [
+                    [1.9263, 3.3453, 0.2038, 0.4677, 4],
+                    [0.8619, 0.8991, 0.1077, 0.6145, -2],
+                    [1.4002, 5.9002, 0.541, 0.0497, 9],
+                    [5.0775, 1.7318, 0.9119, 0.1202, 13],
+                    [3.738, 2.4772, 0.2315, 0.6147, 4],
+                    [3.6171, 2.3615, 0.5803, 0.9856, -3],
+                    [1.8081, 0.057, 0.7749, 0.071, 26],
+                ],
+            ],
+            [
+                [
+                    [5.1024, 1.6172, 0.6175, 0.7489, 0],
+                    [1.7192, 4.5909, 0.9657, 0.456, 3],
+                    [1.683, 4.8427, 0.7759, 0.7182, 4],
+                    [2.6451, 1.3877, 0.3415, 0.9111, -6],
+                    [4.8326, 3.9137, 0.7912, 0.8187, 2],
+                    [4.425, 3.5581, 0.8466, 0.1774, -6],
+                    [0.9083, 4.1874, 0.8732, 0.7158, 1],
+                ],
+                [
+                    [5.2902, 1.2163, 0.8016, 0.6249, -5],
+                    [4.3947, 2.0608, 0.429, 0.6764, -7],
+                    [5.9633, 5.2506, 0.337, 0.9589, -4],
+                    [5.1658, 1.6806, 0.5434, 0.8109, -60],
+                    [5.3114, 4.0077, 0.9315, 0.6113, -20],
+                    [4.6585, 3.1425, 0.8567, 0.9707, 0],
+                    [4.1336, 1.0814, 0.6922, 0.8417, 27],
+                ],
+                [
+                    [2.1388, 4.5727, 0.9219, 0.5956, 4],
+                    [2.2502, 4.9483, 0.6822, 0.7633, 2],
+                    [1.7596, 4.8359, 0.6993, 0.5632, 33],
+                    [3.8404, 0.3658, 0.8496, 0.22, -47],
+                    [2.6545, 4.2451, 0.8039, 0.8513, 2],
+                    [1.4951, 4.1351, 0.8211, 0.8137, -9],
+                    [5.1504, 4.3688, 0.9716, 0.6077, 0],
+                ],
+                [
+                    [4.787, 1.6375, 0.4871, 0.6298, -28],
+                    [4.6903, 5.12, 0.7371, 0.5526, -1],
+                    [1.5186, 5.1799, 0.9009, 0.8243, 1],
+                    [4.0038, 4.9026, 0.6064, 0.4268, 11],
+                    [4.4647, 4.5653, 0.4338, 0.9448, -40],
+                    [0.9414, 4.2784, 0.6651, 0.8447, 7],
+                    [6.0229, 3.9451, 0.9002, 0.9592, 18],
+                ],
+                [
+                    [1.5743, 4.6634, 0.8148, 0.5693, 5],
+                    [0.6445, 5.5653, 0.1248, 0.9532, 2],
+                    [5.4887, 3.9472, 0.7856, 0.4629, -22],
+                    [1.9792, 4.3428, 0.7836, 0.8265, -5],
+                    [5.2896, 1.1691, 0.7588, 0.7389, -4],
+                    [0.0544, 4.5554, 0.913, 0.9771, 43],
+                    [3.9357, 5.8968, 0.4119, 0.2239, -56],
+                ],
+            ],
+        ],
+        [
+            [
+                0.00000218023, 0.0000016701, -0.00000483447, 0.00000287597, -0.00000232575, -6.02841e-7, 0.00000125443,
+                -5.33651e-8, -5.55134e-7, -3.83564e-7,
+            ],
+            [
+                0.00000217286, 0.00000395925, -0.00000361803, 0.00000296072, -0.00000200418, -7.42423e-7, 8.57902e-7,
+                1.23022e-7, 2.09868e-7, -5.17069e-7,
+            ],
+            [
+                0.00000217591, 0.00000605217, -0.00000199834, 0.00000244137, -0.00000158783, -8.26661e-7, 4.95295e-7,
+                2.0421e-7, 4.93903e-7, -7.52087e-7,
+            ],
+            [
+                0.00000190058, 0.0000074252, 1.50106e-7, 0.00000159763, -9.92323e-7, -0.00000124567, 1.31333e-7,
+                4.75127e-7, 9.78291e-7, -6.40101e-7,
+            ],
+            [
+                0.00000155479, 0.00000849713, 0.00000178523, -3.64397e-7, 6.2925e-8, -0.00000175057, -1.79886e-7,
+                5.50714e-7, 0.00000135334, -4.13185e-7,
+            ],
+            [
+                0.00000163523, 0.00000767643, 1.70526e-7, -0.00000250872, 7.61048e-7, -0.00000162256, -2.09163e-8,
+                2.97018e-7, 0.00000108109, -5.23643e-8,
+            ],
+            [
+                0.00000130978, 0.0000059661, -0.00000190601, -0.00000355842, 0.00000110075, -0.00000144598, 1.87473e-7,
+                1.66683e-7, 2.80008e-7, 4.01081e-7,
+            ],
+            [
+                0.00000121225, 0.00000421322, -0.0000037344, -0.00000413506, 0.00000130619, -0.00000165124, 9.25086e-8,
+                -7.10601e-8, -1.29829e-7, 3.84694e-7,
+            ],
+            [
+                8.32035e-7, 0.0000022193, -0.00000501127, -0.00000412107, 0.0000011964, -0.0000014295, 1.92332e-7,
+                -3.61943e-7, -8.51592e-7, 5.0876e-7,
+            ],
+            [
+                6.00585e-7, -8.76857e-7, -8.10035e-7, 0.00000271842, -0.00000167521, -0.00000109151, 0.00000100672,
+                -5.59071e-7, -0.000001291, -2.18744e-7,
+            ],
+            [
+                -1.06126e-7, -0.00000150124, 1.85096e-7, 0.00000189178, -0.00000106067, -0.00000111539, 0.00000119063,
+                -6.91929e-7, -0.00000159714, -7.75309e-8,
+            ],
+            [
+                -3.53764e-7, -8.51789e-7, 7.00169e-7, 6.2873e-7, -4.83812e-7, -0.00000100318, 6.94325e-7, -4.60691e-7,
+                -0.00000135879, 1.10168e-7,
+            ],
+            [
+                -4.25751e-7, -7.27245e-7, 7.45894e-7, -4.14142e-7, -1.3909e-8, -0.00000101894, 6.76607e-7, -4.2024e-7,
+                -0.00000135563, 4.63443e-7,
+            ],
+            [
+                -6.95558e-7, -0.00000136913, 1.31892e-7, -0.0000018055, 4.55322e-7, -0.00000154305, 7.75382e-7,
+                -4.89155e-7, -0.00000193684, 6.4688e-7,
+            ],
+            [
+                -4.8493e-7, -5.75973e-7, -0.00000107597, -0.00000283872, 9.08831e-7, -0.00000159877, 4.73742e-7,
+                -4.18005e-7, -0.00000148612, 6.34716e-7,
+            ],
+            [
+                -3.17791e-7, -3.30464e-8, 0.00000161734, 3.40733e-8, -1.77493e-7, -0.00000144363, 9.96884e-7,
+                -3.2198e-7, -0.00000128127, 3.39084e-7,
+            ],
+            [
+                2.09759e-7, 0.00000270438, 0.00000288781, 9.8901e-7, -4.85072e-7, -0.0000017438, 7.10406e-7,
+                -8.24179e-8, -4.51508e-7, -1.84836e-7,
+            ],
+            [
+                -2.49789e-7, 0.00000262268, 0.00000433675, 2.09363e-7, -1.45571e-7, -0.00000196174, 5.11219e-7,
+                -1.17417e-7, -6.36648e-7, 5.56529e-8,
+            ],
+            [
+                -4.87227e-8, 0.00000268704, 0.00000287569, -8.75056e-7, 1.29789e-7, -0.00000189614, 3.74405e-7,
+                -2.11564e-7, -6.37976e-7, 2.84601e-7,
+            ],
+            [
+                3.74551e-7, 7.22464e-7, -5.70801e-7, 0.00000122841, -4.46688e-7, -9.51624e-7, 0.0000014532, -8.24043e-7,
+                -6.31277e-7, 8.27221e-7,
+            ],
+            [
+                1.44064e-7, 6.61066e-8, -7.70264e-8, 0.00000106195, -3.70245e-7, -0.00000113945, 0.00000160634,
+                -8.9913e-7, -6.49098e-7, 6.90017e-7,
+            ],
+            [
+                1.20153e-7, 1.40139e-7, 6.14153e-8, 4.7413e-7, -1.5245e-7, -0.00000106097, 0.0000013935, -8.53354e-7,
+                -7.04381e-7, 8.8754e-7,
+            ],
+            [
+                -5.85766e-8, 5.29457e-7, 3.01577e-7, 9.85172e-8, 7.3433e-8, -0.00000108712, 0.00000111801, -9.48941e-7,
+                -4.45311e-7, 8.43433e-7,
+            ],
+            [
+                1.46937e-7, 1.83945e-7, 5.88947e-7, -2.03075e-7, -5.80547e-7, -0.00000108521, 1.2819e-7, 2.77329e-7,
+                -0.0000014524, -7.38271e-7,
+            ],
+            [
+                -6.94141e-8, -1.70873e-7, 1.28511e-7, -6.69786e-7, -3.56937e-7, -0.00000123517, 4.4113e-8, 2.41111e-7,
+                -0.00000147601, -4.27996e-7,
+            ],
+            [
+                -1.11121e-7, -1.24797e-7, 1.05475e-7, -0.00000123282, -1.49649e-7, -0.00000144805, -6.90159e-8,
+                1.64546e-7, -0.00000158596, -5.78548e-7,
+            ],
+            [
+                2.10299e-7, 4.24647e-7, -5.95211e-7, -0.00000149951, 5.61519e-9, -0.00000122653, -1.82e-7, 2.3943e-7,
+                -0.0000014001, -3.96192e-7,
+            ],
+            [
+                0.00000118282, 0.00000452186, 7.01595e-7, 0.0000013371, -0.00000165316, -0.00000295355, -0.00000219698,
+                0.00000140158, 2.27642e-7, 0.00000269059,
+            ],
+            [
+                3.4092e-7, 0.00000396987, 0.00000302613, -1.43211e-7, -6.086e-8, -0.00000161564, 3.86074e-7, 1.31519e-7,
+                -1.19545e-7, -3.04618e-8,
+            ],
+            [
+                7.00813e-7, 0.00000523321, 0.0000010434, -0.00000182755, 0.00000138985, 1.70919e-7, 0.00000282833,
+                -0.00000108229, 3.03671e-7, -0.00000310967,
+            ],
+            [
+                6.52105e-7, 0.00000601331, 0.00000291144, 3.1365e-11, 4.19266e-8, -0.00000157087, 2.7497e-7, 4.95112e-8,
+                5.19417e-7, -1.90858e-7,
+            ],
+            [
+                0.00000581706, 3.15055e-7, 0.00000144991, -0.00000243041, -0.00000119802, 0.0000042893, 0.00000108158,
+                -1.2934e-7, -8.67334e-7, 5.11209e-7,
+            ],
+            [
+                0.00000557401, 6.72773e-7, 0.00000126495, -0.00000104928, -1.86436e-7, 0.00000308933, 5.06922e-8,
+                -2.48383e-7, -0.00000105854, 4.82995e-7,
+            ],
+            [
+                0.00000515569, 7.62491e-7, 0.00000102733, 8.22654e-7, 8.11393e-7, 0.00000173677, -0.00000117767,
+                -3.51766e-7, -9.44631e-7, 2.99871e-7,
+            ],
+            [
+                0.00000402967, 1.57568e-7, 4.73047e-7, 0.00000222434, 0.00000190439, -1.97965e-7, -0.00000214654,
+                -3.90606e-7, -8.2759e-7, 1.35775e-7,
+            ],
+            [
+                0.00000226072, -9.67297e-7, -1.11799e-7, 0.00000281619, 0.00000261608, -9.81769e-7, 8.88737e-7,
+                -6.10762e-7, 7.1591e-7, 9.661e-7,
+            ],
+            [
+                0.00000303178, -0.00000474811, -4.5327e-7, 0.00000189575, 0.00000177231, -0.00000276891, -0.00000148519,
+                -9.35247e-8, 7.40578e-8, -3.08601e-7,
+            ],
+            [
+                0.0000035519, -0.00000721175, -7.33253e-8, 5.01478e-7, 6.99136e-7, -0.00000284974, -5.03553e-8,
+                4.78117e-7, 7.28019e-7, -4.41272e-7,
+            ],
+            [
+                0.00000390604, -0.0000082505, 4.73867e-7, -8.62195e-7, -2.73446e-7, -0.00000209246, 9.99184e-7,
+                5.23731e-7, 0.00000104785, -4.60131e-7,
+            ],
+            [
+                0.00000388555, -0.00000877397, 9.98071e-7, -0.00000275651, -0.00000112014, -0.00000122298,
+                0.00000217384, 7.80198e-7, 0.0000011061, -3.43238e-7,
+            ],
+            [
+                0.00000133973, 0.00000281968, 1.73407e-7, -2.79432e-7, 5.60704e-8, 0.00000224424, -4.13531e-7,
+                -2.1128e-7, -4.22691e-7, 0.00000126751,
+            ],
+            [
+                4.26218e-7, 0.00000203809, 7.07842e-8, 2.2861e-7, -4.46401e-9, 0.00000120209, -3.2118e-7, -2.92944e-7,
+                -2.15301e-7, 8.74316e-7,
+            ],
+            [
+                -2.57492e-7, 0.00000120166, -1.7945e-7, 5.80272e-7, 9.58268e-8, 2.5712e-7, -5.99513e-7, -3.19368e-7,
+                -1.86998e-7, 7.18518e-7,
+            ],
+            [
+                -4.83492e-7, -2.39735e-8, -1.84974e-7, 6.85029e-7, 1.57466e-7, -4.4497e-7, -5.87977e-7, -1.91813e-7,
+                2.84585e-7, 5.99951e-7,
+            ],
+            [
+                -4.62856e-7, -0.0000013677, -1.64021e-7, 2.12987e-7, 2.51614e-8, -8.70042e-7, -1.34835e-7, -1.14114e-7,
+                5.80512e-7, 4.66456e-7,
+            ],
+            [
+                6.01581e-8, -0.00000400074, 7.31609e-8, -3.54927e-7, -1.13228e-7, -0.00000188248, 4.62154e-7,
+                3.20366e-7, 8.71741e-7, 5.29998e-7,
+            ],
+            [
+                -0.00000104024, 0.0000013962, -3.22376e-7, 0.00000134789, 5.65401e-7, 1.70638e-7, -3.05991e-7,
+                -8.07592e-7, -2.54832e-7, -0.00000114015,
+            ],
+            [
+                2.40787e-7, 0.0000017005, -2.38485e-7, 0.00000153953, 0.00000153081, 0.00000151836, 0.00000145428,
+                0.00000295964, -0.00000135692, 1.82418e-8,
+            ],
+            [
+                -0.00000103825, 0.00000159908, -4.98535e-7, 0.00000194537, 0.00000171293, 7.32232e-7, 0.00000110015,
+                0.00000271524, -0.00000133146, -2.94673e-7,
+            ],
+            [
+                -1.74474e-7, -3.63681e-7, -1.89696e-7, 0.00000161595, 0.00000147858, 1.83659e-7, 0.00000175616,
+                0.00000328895, -9.76901e-7, -3.52198e-7,
+            ],
+            [
+                0.00000110594, 0.00000152353, 2.1176e-7, 3.77031e-8, 9.52036e-8, 0.00000140626, -1.01543e-7,
+                -6.91051e-7, -2.81589e-7, -3.68457e-7,
+            ],
+            [
+                4.20877e-7, 0.00000169251, 1.94147e-8, 2.91937e-7, 1.69865e-7, 0.00000140812, -1.09614e-7, -7.12689e-7,
+                -1.82555e-7, -6.06238e-7,
+            ],
+            [
+                5.78192e-7, 0.00000101607, 2.32769e-8, 5.26369e-7, 2.29293e-7, 8.53948e-7, 5.15994e-9, -7.74149e-7,
+                -5.63639e-7, -6.0649e-7,
+            ],
+            [
+                -2.39626e-8, 8.53018e-7, -4.51277e-8, 5.88396e-7, 3.66397e-7, 2.77347e-7, -2.31291e-7, -7.10916e-7,
+                -3.23571e-7, -7.9198e-7,
+            ],
+            [
+                -1.47489e-7, -1.32935e-7, -1.33765e-7, 4.00108e-7, 3.17931e-7, 2.71068e-7, -1.69175e-7, -4.28657e-7,
+                -2.36669e-7, -6.66825e-7,
+            ],
+            [
+                -1.39926e-8, -8.17879e-7, 3.40281e-8, 3.21882e-7, 1.0128e-7, 1.51658e-7, 3.35876e-7, -3.38177e-7,
+                2.02346e-8, -6.34829e-7,
+            ],
+            [
+                -1.27989e-7, -0.00000123895, -1.17747e-8, 2.46934e-7, 1.03368e-7, -4.90381e-7, 2.3021e-7, -5.06829e-7,
+                -1.27107e-7, -6.78986e-7,
+            ],
+            [
+                2.91832e-7, -0.00000243514, 7.44506e-8, -1.3333e-7, 7.2435e-8, -6.70878e-7, 4.39537e-7, -4.12516e-7,
+                1.97195e-7, -5.33154e-7,
+            ],
+            [
+                0.00000184012, 0.00000105723, -1.19072e-8, 0.00000193447, 0.00000141461, 2.30958e-7, -0.00000152529,
+                -4.99686e-7, -8.31545e-7, -2.88819e-7,
+            ],
+            [
+                -4.07997e-7, 0.00000108431, -6.88869e-7, 0.00000277654, 0.00000168277, -0.00000112467, -0.00000227911,
+                -0.00000109129, -6.151e-7, -6.74557e-7,
+            ],
+            [
+                0.00000119485, -0.00000245509, -3.31243e-7, 0.0000016822, 0.00000127599, -0.00000191864, -0.00000131726,
+                -2.65598e-7, -7.68462e-8, -6.94349e-7,
+            ],
+            [
+                -5.46926e-7, 0.0000014084, -3.29087e-7, 0.00000333246, 0.00000264258, 0.00000107564, 0.00000485443,
+                -0.00000132093, 0.00000176369, 0.00000193221,
+            ],
+        ],
+        [
+            [
+                -94, 185, -188, 157, -510, 92, 299, 56, 110, 690, 125, -59, 51, -265, -237, -419, -462, 303, -241, -63,
+                -389, 634, -225, 439, 17, 20, -169, -71, -309, -2, 483, 28, 238, -221, 124, -454, -192, 313, -110, 299,
+                -476, 181, 168, -671, 308, 95, 17, 374, 7, 149, 103, 193, -60, -100, 323, -618, 95, 168, -102, 45, -327,
+                108, 79, -71, 41, 199, -270, -47, 42, 111, -158, 79, 37, -30, -21, 151, -222, -11, 173, -79, -141, 7,
+                84, 225, -39, -44, 249, -345, 154, 102, 345, -343, -145, -177, -9, 69, -187, 349, -597, -138, 260, 133,
+                63, 113, -291, 19, 818, -63, 61, 125, -254, -419, -299, -232, 163, -396, 322, 61, 345, 33, 206, -110,
+                -179, 445, -83, -201, -238, 157, 28, 270, 149, 73, 137, -346, -325, 11, 17, 32, -191, 21, -33, 328, -20,
+                -157, -67, -220, 187, 545, -150, 205, -374, -129, 180, -35, -120, 158, -342, -144, 54, 246, -25, -185,
+                286, 66, -126, 7, -116, 89, -6, -137, 36, -251, 408, 142, -112, -84, -28, 119, -93, -56, 134, 99, -114,
+                -65, -2, 278, 74, -196, 12, -285, -133, 248, 188, 221, -223, -40, 19, 8, -78, -100, 45, 71, 120, 659,
+                -325, -752, 202, -24, 463, -92, -111, -26, -24, -157, -312, 254, 244, 91, 3, -220, -31, 179, -85, -184,
+                -47, 48, -314, -9, 161, -194, -69, 421, 489, -79, -316, -153, 43, 155, -217, 74, 108, -675, 160, -227,
+                -188, 42, 445, 330, -464, -423, -91, 312, 30, -150, 126, 657, 413, -117, -289, -323, -82, 50, 398, -54,
+                -277, 234, -15, -401, 46, 356, 223, -170, 509, 75, -691, 457, -95, -245, 30, -45, 309, -183, -147, -105,
+                512, -15, -233, -141, 327, 129, -2, 338, -119, -456, -291, 69, -202, -137, 23, 121, 152, 112, -35, -36,
+                -19, -21, -265, -188, 332, 229, 15, -88, 284, 314, 178, -409, 0, -138, -605, 372, -140, 50, 410, -548,
+                494, -214, -95, 39, -200, 266, 452, -9, -272, -224, 228, -245, 110, -66, 387, 79, 112, -148, -459, -19,
+                50, -628, 614, 146, 159, -260, -121, 37, 272, 144, -114, -28, 228, -612, 105, 1, -35, -40, -49, 133,
+                -118, 177, -97, 25, -158, 113, -46, -166, 15, 48, 70, 121, 91, -138, 142, 39, 29, 60, -130, -97, -105,
+                -33, -389, -117, 364, 188, 31, 57, 205, -120, 203, -23, 222, -53, 24, -462, -36, 8, -143, -161, 125,
+                151, -36, 89, 26, -87, -96, -133, 29, -111, 258, 110, -156, 259, -13, 137, 18, -150, -12, -87, -50, -41,
+                65, 76, 30, 63, -132, -15, 126, 42, -39, 25, -65, -121, -87, 116, 103, -105, 95, 27, -110, -156, 65, 78,
+                209, -402, 180, -287, 124, -14, 184, 2, -167, 145, 251, 15, -24, -72, -45, -108, -39, -28, -134, 95, 82,
+                131, -59, -50, 202, 90, -65, 104, 104, -110, -242, -87, 163, 74, -285, 175, 96, 65, -137, -156, -90,
+                -17, -244, -43, 36, -326, 516, 164, 150, 167, -35, -172, -61, -101, -108, 155, -81, 271, -2, -71, 69,
+                15, -167, -37, 85, -19, -42, -210, 3, -150, 58, 272, 20, -38, 94, -91, 123, -43, -6, -65, 11, 50, 14,
+                -16, 141, -150, -88, 34, -80, -488, 156, -15, 40, 180, -116, 319, 18, 50, 116, 147, -144, 17, 20, -226,
+                73, -37, 131, -318, 361, -300, -41, 127, -60, -98, 57, 82, -54, 36, 66, -32, 26, -74, -37, -128, 156,
+                122, -43, -27, -130, 103, -89, 47, -7, 185, -72, -41, -245, 102, 85, -318, 103, 108, 119, 42, 129, 157,
+                146, 129, -263, -185, -111, -5, 82, 16, -40, -102, 85, -125, 97, -18, 6, -107, 16, 147, -95, 101, -139,
+                68, -233, 825, -118, -186, 15, -160, -27, -120, 23, -107, -21, 117, -15, 357, 104, -462, 17, 97, -69,
+                117, 11, 39, -177, -38, 118, -25, -159, 57, 296, -22, -156, -112, 22, -19, 51, -76, 0, 42, 49, -72, 95,
+                146, 17, 101, 113, -114, -356, -5, -133, 38, -56, 81, 30, 215, -75, -104, -47, 191, 131, -91, -115, 17,
+                -16, -75, -82, 75, -178, 191, -43, 6, 63, -36, 292, 99, -190, -40, 134, -357, -31, 89, 107, 128, -66,
+                -179, -80, 169, 59, -140, -139, 58, 87, 98, -358, 152, 169, -71, 166, -228, -154, 10, 115, -31, 89, 30,
+                -65, 119, 246, -101, -53, -101, 214, -262, -24, -30, -152, -24, 13, 157, 52, 5, -112, 25, 413, -92, -84,
+                -81, -10, -64, 468, 81, -210, -282, -29, -9, -115, 93, 174, -37, 3, 42, -197, 15, -81, 77, 42, 13, 97,
+                -165, -130, -148, -202, 489, 36, 164, -121, 52, -126, -38, 91, -62, -156, 16, 591, -189, -52, -312, 87,
+                12, 1000, 53, -155, -259, -54, -116, -285, -187, 117, 24, 207, 73, 42, -141, 12, -337, -56, 78, 321,
+                -164, -282, -202, 45, 256, -179, 631, -27, -30, 56, -59, -202, -194, 222, 97, 96, -79, -657, 10, 115,
+                191, -15, -104, -33, -97, 80, 48, 67, 50, 90, 180, -127, 79, 46, 17, -54, -234, -79, 16, 246, 118, -170,
+                -205, 44, 25, -110, -28, 99, 21, 284, -62, -100, -107, -140, 15, 129, -113, 12, 16, -13, 90, 859, 2,
+                -176, -109, -64, -293, -149, -74, 8, 172, -27, 7, 52, -210, -2, -3, -47, -128, 9, -238, -50, 12, 153,
+                285, -94, -7, 55, -103, 108, -79, 80, 36, 24, -103, -66, 103, 283, -39, -222, 17, -81, 107, -142, 201,
+                -14, -249, 129, 45, 21, -79, -70, -104, 255, -171, 92, 52, -45, 66, 186, 59, -50, 28, -292, 44, -83,
+                -18, 151, -48, -31, -132, 11, 146, -53, 258, -173, -301, 96, 61, 258, -151, 12, -129, 59, -92, 71, 20,
+                -56, 111, 99, -22, 178, -150, 6, 188, -235, -68, -22, -116, -84, 43, 220, -88, 109, -65, 47, 31, -136,
+                -141, 80, -137, 18, 234, -4, -119, 52, -121, 12, 4, 423, -252, -39, 6, -196, -179, 48, 14, 293, 49, -19,
+                -88, 83, 33, -26, 117, -109, 5, -61, 2, 27, -123, -230, 172, 138, 72, 74, -126, 149, -79, -135, 136,
+                -112, 89, 127, 82, -253, -55, 31, -24, -36, 125, -350, 496, -91, 38, 37, -41, -21, -70, -97, 76, -10,
+                39, 12, -67, -18, 62, -61, -83, 48, 234, 196, -126, -44, -168, -245, 99, 87, 172, -191, -30, 122, -17,
+                39, 22, 44, 46, 75, 108, -197, -140, -49, 132, -42, -92, 15, 78, -101, 55, -163, 33, 48, 94, 10, -120,
+                -72, 167, 86, 190, 57, -3, -51, -127, -297, 142, -273, -398, 31, 139, -22, 294, 228, -3, -136, -182,
+                -135, -116, 72, 76, 228, 189, 610, 59, -164, 77, -179, -99, 107, -416, -156, 60, 193, 60, 110, -187,
+                224, -308, -44, -92, 141, -29, 69, 157, -169, -38, 127, 271, 7, 245, -176, -181, -143, -153, -161, -67,
+                -108, -220, -27, 91, 261, 227, -75, -174, 83, -28, 131, 80, 73, -94, 267, -149, 214, 140, 10, -124, -94,
+                -267, -285, -177, -25, 114, 113, 219, 64, -26, -261, -89, 491, -131, -121, 107, -105, 105, 79, -54, -19,
+                -185, 85, 111, -207, 187, 125, 104, -44, -114, -5, -151, 36, 45, 143, 264, -43, 32, -251, -102, 52, -99,
+                180, -67, -7, -361, 113, 222, -46, -36, -119, 53, 31, -160, -255, 451, -150, 146, -501, 36, 330, 46,
+                105, 81, 23, -123, 112, 122, -486, 78, 99, 121, 38, -88, -51, -257, 204, 55, 125, 54, -57, -75,
+            ],
+            [
+                -88, 44, 12, -89, 21, 322, -73, -104, -130, -93, 63, 28, 23, 53, 31, 72, 123, -43, 29, -4, 5, -73, 47,
+                -36, 154, -51, 74, 92, -8, -63, -140, -12, -272, 42, 143, 74, 19, -62, 56, 46, -133, 88, 44, -135, -33,
+                136, -20, 99, -43, 9, -119, -78, -82, 78, 190, 91, 51, 0, 126, -31, 160, -125, -87, -47, -34, 50, -57,
+                -60, 27, 121, 3, -2, 4, -213, 30, -44, 42, 186, 4, 38, 65, 48, -44, -30, 50, 5, -28, -19, -115, 52, 3,
+                -232, 214, 79, 132, -86, -70, -118, 110, 24, 58, -91, -37, 171, 111, -51, 141, 183, -57, -210, 115,
+                -184, -40, 165, -88, -218, 90, -15, 18, 134, -257, -19, 53, -116, 175, 288, -48, -30, -75, 348, -290,
+                49, 2, 102, 11, -100, 323, -20, 137, -139, 21, -181, -83, -12, -10, 181, -67, -132, 10, -45, 36, 74,
+                -160, 8, 13, -18, -92, 117, 53, 125, 62, 86, -24, 208, -332, 30, 38, -21, -109, 33, 88, 128, 123, -81,
+                -163, 27, -45, -33, -136, -69, 14, 285, -35, 67, 115, 44, 60, 107, -167, -52, -65, 4, 128, 54, 67, -52,
+                24, -168, -33, 28, 45, 157, 45, 13, 89, -246, 92, -150, 82, -102, -91, 91, -166, 58, 12, 161, -31, 110,
+                -5, -5, 306, -85, 33, -277, -89, -187, 118, 94, 47, -5, 37, 33, 24, 89, 140, 17, -18, 82, -231, -57,
+                -55, 64, 152, 54, -156, 41, -21, -33, 300, -94, 87, -148, -79, 96, -51, -64, 61, 9, 67, 28, -87, -51,
+                41, -21, -8, -5, -90, 357, -54, -43, 0, -111, 26, 53, 88, -91, 56, 32, 6, -122, 116, -40, -65, -52, 127,
+                -123, 161, -77, -4, 22, 7, 26, -21, 6, 23, -12, 308, 50, 71, 37, -54, -142, -82, -142, -32, 85, 88, 99,
+                -87, -23, 14, -98, -34, -78, -178, -37, 104, 156, 184, -70, -72, -19, -193, -65, 60, 344, -43, 35, 91,
+                -53, -207, 24, 84, 51, 45, 12, 122, 217, -104, 118, -33, 252, -184, -341, 80, -51, -113, 27, 20, -34,
+                39, 78, 10, -55, 77, -128, -37, 94, 79, 8, -10, -10, 28, -76, 97, 50, -37, 5, -85, 98, -70, -102, 28,
+                155, 5, 18, -26, 30, 11, 1, 3, -21, -1, 50, 42, 48, -79, -72, 48, -43, 145, -41, 126, 86, 98, -9, 7,
+                -111, -67, -82, -66, 56, 7, 17, -85, 64, 83, -30, -34, -110, -92, -86, 128, 121, 217, -99, 155, -47,
+                -12, 95, -31, 106, -118, -101, 120, 42, 6, -48, 59, 14, -176, 30, -54, -35, -38, 34, 54, -6, 57, 34,
+                -54, -19, -43, -73, 83, 61, 120, -28, -3, 17, 28, 43, -19, -11, 27, -34, -90, -15, 45, 19, 126, -92,
+                -32, 86, -305, -48, 57, -73, 148, 105, 70, 94, 16, 106, -130, -26, 52, -4, -23, 56, 4, 50, -37, 53, 63,
+                79, -63, -103, -14, 2, -10, -37, -22, -31, 145, 14, 138, 138, 49, -45, -100, -88, 45, -90, 77, -31, 42,
+                -29, -40, -91, 51, 67, -1, -8, 93, 42, 10, -55, 24, -59, 21, -60, 116, 126, 12, -57, 55, -165, 109, 11,
+                30, 8, -92, 6, 17, -42, 64, 59, 42, 50, -25, -15, -85, -44, -122, 100, -128, -2, 42, 15, 35, 107, -12,
+                -28, 24, 68, -77, 69, 11, -9, -121, -25, -54, 15, -44, 52, 157, 67, 149, 142, 60, 9, -136, 83, -175,
+                -87, 22, -190, 46, 69, 51, -50, 78, 19, -17, 19, 63, 316, -167, -88, -49, -29, -272, -142, 155, 12, 12,
+                -24, 188, 118, -14, 89, -48, 64, 6, 15, -25, -40, 23, 26, 60, -153, 61, 51, -56, 35, 72, 178, 12, 12,
+                -205, -54, 52, -21, 33, -15, -116, 5, -31, -42, 31, 181, 87, -124, 12, -3, 48, 24, -28, 32, 145, -69,
+                55, 148, -107, -90, -78, 42, 61, 37, -27, 104, -38, 30, -109, -11, -23, -26, 36, -33, 69, -73, 95, 1,
+                -88, 16, -34, 37, -9, -18, -2, 146, -8, 116, -39, 22, -80, -89, 93, 33, 61, -2, -18, 23, 22, -70, -28,
+                58, -117, 6, 28, 2, 66, -66, 108, 19, 56, -7, -45, -19, 194, -84, -17, -31, 48, -120, -92, -23, 117,
+                140, 6, -29, 1, 6, 39, -89, 21, 132, 12, -77, -108, 0, 62, -49, 28, 4, 54, 56, 14, 31, -30, 105, -96,
+                -26, 22, 26, 37, 56, -66, 129, -4, 63, -151, -17, -90, 9, 24, 200, 40, 19, -122, -34, 36, 35, -158, 11,
+                47, 33, 109, -65, 0, -91, 31, -38, -47, -38, 61, 169, -34, 91, 38, -67, 53, -15, 19, -39, -41, 10, 87,
+                -22, -93, -68, -18, 192, 1000, -98, -247, -67, -188, -136, -133, -84, 90, 62, -87, -60, -57, -41, 88,
+                52, -28, -80, 190, 26, -23, 51, -112, 23, -44, 257, -51, 32, -235, -2, 60, 29, -23, -46, 24, 118, 50,
+                17, 18, -110, -120, -11, 2, -57, 66, -20, 116, 71, -12, 25, 19, -55, -3, 66, -15, 23, -42, 57, 39, 43,
+                -67, -24, -12, 53, -51, 7, 93, 68, -48, -13, -55, 45, 150, 46, -11, 21, -30, -112, -26, 9, -46, 134, 68,
+                -37, -15, -41, 5, -21, 85, 62, -96, 43, 59, -34, -35, -37, -19, -166, -32, -52, 61, 70, 98, 87, 14, 4,
+                -31, -25, 90, -15, -5, 14, -22, 11, 22, 15, -79, -33, 9, 123, -149, -21, -79, -51, 223, 159, -17, -18,
+                4, -14, 127, 0, 0, -30, -42, 2, -56, -7, 15, 62, 29, 35, -39, 8, 39, 62, -106, 21, 12, 74, -21, -36, 62,
+                32, -110, 19, 77, -42, -41, 50, -62, 55, 64, 18, 22, 25, 36, -111, 61, 19, -69, -12, -35, 3, 49, 30,
+                -126, -43, -85, -75, -52, 131, 340, -43, 4, 98, 39, 65, -20, -35, -21, -84, 3, 103, 33, 13, -110, 41, 8,
+                -43, -24, 65, 49, -30, 75, 15, -54, -49, -27, -15, -44, -27, 22, -47, 66, 118, 40, -133, -40, 69, 50,
+                42, 43, -24, -90, -13, 123, -29, 215, -127, -40, 7, -94, -10, -106, 158, 148, -84, 31, 4, 101, -20,
+                -111, 52, 6, 22, 15, -19, 70, 12, 42, 93, -50, -4, -93, -22, -6, 72, -67, -8, -17, 58, 21, -7, 36, -16,
+                83, -64, 123, 6, -109, -12, 44, 28, -12, 28, -15, 20, -51, 5, -24, 123, 1, -72, 43, -17, -2, -5, 32, 48,
+                -12, -51, -13, 111, 53, -121, 5, -26, 119, -35, 6, 47, -132, 63, -63, -61, 48, 153, -10, -177, 62, 94,
+                -37, -109, -80, 76, 116, 42, 92, -54, -37, 56, -34, 148, -104, -31, 46, 3, -131, -92, 69, 36, 16, 51,
+                24, 74, -9, 231, 33, -150, -91, -14, -8, 54, -96, -103, -75, 124, 45, 21, 18, 114, 73, -92, 7, -40, 41,
+                -86, -8, 151, -55, 86, 73, -77, 21, 126, -5, -122, -38, -51, 19, -56, 101, 29, -23, 64, 32, 288, -30, 1,
+                -213, -111, -144, 223, -94, -142, 244, -78, -48, -25, 90, 99, 161, 76, -47, 210, -7, -167, -206, 26, 49,
+                -138, -118, -35, 145, 306, -73, -88, -66, 140, 0, -101, 10, -6, 1, 68, 157, 16, 24, -192, 8, 31, 95,
+                -93, 121, -56, 98, 18, -46, -146, -26, 82, -83, -180, 94, -50, -45, 105, 130, 74, -255, -36, 231, 89,
+                104, -103, 146, -129, -104, 10, 48, 13, 288, 74, -165, -118,
+            ],
+            [
+                62, -388, 15, -132, 210, 519, 57, -334, -111, -861, 346, -86, 288, 52, -3, 384, 11, 344, 33, 221, 62,
+                -134, -239, -290, -287, -140, -489, 78, 97, 391, 61, 298, 129, 107, 178, -108, -263, -103, 53, 15, -629,
+                -159, -279, 40, 480, -106, 493, 170, 78, 51, 149, -88, 249, -236, 182, -375, -204, 268, -80, 7, -920,
+                357, 104, 477, 24, -41, -340, -354, 328, -16, 144, 263, 298, 289, 129, -377, -492, 171, 78, -86, 212,
+                -167, -526, -102, -59, 89, 210, 352, 26, -82, -25, 265, -286, -207, -49, 367, 264, 118, 409, -267, -12,
+                51, -163, -390, -36, -260, -710, -49, 92, 391, 224, 357, -413, -155, 252, 12, 77, 217, -297, 316, -56,
+                77, -168, -35, 210, -131, 73, 39, -79, 368, -11, -192, -187, -9, 123, -6, -149, 376, 194, -35, -159, -8,
+                -126, -86, 94, 221, -49, -28, -272, -197, -11, 250, 159, 39, 354, 168, -31, 35, -344, -370, -94, -124,
+                25, 196, 1, 95, 14, -104, -203, 33, -73, -17, 214, -79, 126, 9, -20, -30, -231, -171, 261, 327, -106,
+                -21, -55, 17, 241, -126, -193, -7, -7, 138, 275, -10, -118, -244, 27, -6, 130, -46, -75, -56, 103, 320,
+                211, -317, 45, -223, -388, -91, -26, -104, -109, 92, 140, 495, 238, -238, -86, -169, 72, 106, 89, -4,
+                -58, -264, -35, 215, 231, -96, -43, 59, 38, -274, -174, 175, 190, 87, 8, -41, 101, 281, -184, -156, 539,
+                -70, -420, -82, -134, -87, 190, 146, -288, 127, -45, 100, -50, -140, -34, -207, 224, -37, -196, 448, 66,
+                90, -14, -235, 126, -4, -246, 226, -215, 23, 62, 454, -4, 11, -287, -35, -472, 53, 307, 173, 223, 81,
+                -250, -107, -297, 23, 196, 16, -124, 487, -179, -112, -146, 417, -56, -70, -131, -141, 87, 48, 34, -581,
+                154, 32, 76, -58, 51, 300, -26, -36, 107, 317, 57, -539, 209, -80, 318, 2, 181, -202, -49, -96, -43,
+                -101, -89, -57, -128, 125, 218, -137, 89, -11, -316, -288, 270, -35, -224, -74, 574, 101, 81, 130, -57,
+                -167, 111, 408, -178, -319, 197, 75, -125, 430, 88, -348, -265, -42, 122, -121, -92, -74, 175, 144, -63,
+                -83, 148, -610, 84, 62, 78, 85, 11, 149, -189, 58, 30, 8, 50, 59, 81, -89, 134, 0, -296, -60, 114, -73,
+                140, 48, 224, -20, -131, -119, 59, -31, -20, 47, -111, -64, -117, 235, -136, 93, 85, 24, -87, 0, -62,
+                13, 12, 88, 159, -114, 55, 14, -5, -154, 72, 64, -120, 82, 62, 19, 184, -135, -161, 40, 45, -44, -128,
+                110, 142, -78, 107, -124, -66, 45, 241, 179, 95, -140, 36, -428, 73, -48, 231, 97, 99, 180, -306, -137,
+                -103, -53, -56, -158, 188, -151, 156, 99, -5, -65, 423, 51, -109, -8, -53, -9, -229, -57, 106, -67,
+                -123, -207, 149, -32, 158, 24, 170, 26, 68, 43, -1, -174, 36, -161, 187, -144, 33, 169, 31, -100, -307,
+                139, -120, -98, 204, 222, -228, 126, 66, -162, -236, 125, 20, -3, -74, 173, -23, 27, -1, -112, 259, 51,
+                -58, 214, -13, -331, -69, -65, 101, 223, -86, 33, 60, -188, -106, -44, 150, -92, 204, 26, -64, -66,
+                -149, -81, 104, -117, 108, 11, 2, 131, -63, -32, 146, 164, 19, -25, -98, -102, 2, 272, -168, -292, -45,
+                -36, 176, 100, 28, 48, 64, -7, -143, 264, -120, -125, -201, 37, 77, -29, 197, 6, -79, 1, -91, -2, -64,
+                211, -172, 16, -16, 126, 88, 52, 101, -155, 12, -240, 179, -28, 279, 118, 26, 3, -254, 38, -63, -137,
+                46, 55, 89, 15, 12, -113, -40, -55, 5, 227, -315, 277, 79, 18, -359, 76, 187, -449, 78, 71, 32, 113,
+                -48, 23, 95, 72, 151, -20, 97, 199, -61, -525, 16, 65, -117, -47, 261, 100, -90, -180, 438, 284, 21,
+                192, -170, -268, -470, -18, 382, 23, 44, -21, -7, 59, -377, -94, 150, 410, -88, -37, -140, -31, -80,
+                -176, 52, -98, -170, -71, 26, 436, -9, -159, 8, 195, -442, 21, -148, 71, 44, 259, -77, 135, -512, -58,
+                189, 110, 72, 149, -191, 186, -142, 169, 156, -407, 181, 56, 191, 21, 61, -342, 252, -411, 166, 71, 223,
+                321, -39, -244, -351, -424, 117, 407, -141, 10, -13, -429, 224, 578, -445, 224, -95, -16, 322, -31, -41,
+                -24, 62, -168, -357, -36, 198, 475, 137, 65, -34, -439, 1000, -2, -522, -171, -173, 233, -372, 15, -209,
+                -111, 124, 408, -193, -132, 126, -3, -49, 457, -151, 105, -307, -21, 71, -95, -31, -133, 71, -4, -6,
+                -25, 36, 101, -127, -56, 116, -164, -36, 165, 193, -82, 137, -139, -147, -140, -14, -112, 122, 302, -84,
+                167, -74, -233, 191, -40, -14, 95, -160, 81, -98, 305, 1, -84, -35, -1, 27, 127, -44, 239, -68, -107,
+                -5, -162, 42, -669, 257, -18, 218, 132, 106, -59, 223, -54, 43, -64, 49, -63, -189, 63, -20, -126, -174,
+                -36, 26, 160, 152, 26, -104, -203, 57, 20, 168, -24, -53, 148, -17, 84, 13, 98, -15, -37, -171, 55, 5,
+                -122, -93, 96, 203, 73, 199, -352, 20, 84, 32, 186, -89, -283, -74, 131, 31, -284, 128, -8, 144, 70,
+                -24, -48, 139, -86, -25, -159, 141, -71, -27, 96, 630, -96, -67, 46, -85, -187, -215, -16, 15, -45, 187,
+                -159, 74, -57, 22, -29, 7, -75, -97, -160, 348, 33, 36, -84, -247, 82, -8, -83, 378, 28, -56, -85, 94,
+                -111, -119, -23, 104, -19, -29, 113, 226, 54, 58, -91, -29, 38, -241, -6, 6, -61, 249, -104, 242, 41,
+                -131, -234, -13, 192, -95, -80, 46, 62, 16, -121, 42, 68, 69, -151, -162, 10, 4, 129, 72, 22, -41, -9,
+                149, -47, 89, -226, 44, 245, 90, 165, -137, -25, -369, -5, -27, -7, -51, -62, 135, -47, -67, 136, -16,
+                -123, -28, -159, 79, -11, 243, 22, -10, -35, 42, -3, 57, 73, 11, -127, -16, 188, -115, -4, -21, -109,
+                89, -2, -124, 36, -48, 45, -13, 110, 58, -56, 119, -12, -202, -44, -11, 64, 99, -5, -247, -138, -7, 102,
+                176, 213, -41, -50, -96, 209, -130, 159, -87, -75, 124, -96, 162, -71, 86, 147, -110, -103, -121, 19,
+                14, 179, -91, 273, -328, -120, -56, 138, 110, -44, 91, 43, -68, -30, -172, 79, -324, -114, 89, 110, -26,
+                91, 74, 109, 45, -146, 48, 81, -112, -16, 78, 32, -118, -87, -123, -45, -3, 208, 60, 116, 76, -52, 215,
+                -43, 25, -135, 137, -215, -102, -13, -85, 218, 228, -275, -49, 86, 63, 19, -176, -21, -154, 122, 14,
+                141, -114, 20, 19, 33, 4, 145, -148, 49, 19, -59, 70, 39, 174, -104, -159, 29, -249, 369, 90, -24, -239,
+                -38, 44, 57, 73, -277, 92, 439, 92, -121, -275, -13, -142, -66, 248, -24, 36, -292, -255, 503, -32,
+                -183, 87, -152, 94, 182, -2, 14, -72, -244, 354, 2, 256, 204, -264, -228, -21, 104, 114, -188, -34, 2,
+                -92, 124, -274, -35, 272, -88, -88, -126, 159, 189, -17, -21, -63, -148, 97, -38, 129, 69, -56, -2, -64,
+                153, 4, 159, -69, -115, 21, 254, -55, -106, -57, 29, -143, 65, 100, 51, 4, -107, -115, 276, 101, -300,
+                221, 62, 100, -59, -231, -9, -186, 110, 78, -158, 5, -97, 43, 44, 147, -52, -160, 114, -340, -90, 193,
+                -79, 370, 1, -126, -118, 83, 61, 358, 387, -466, -171,
+            ],
+            [
+                2, -144, -33, -34, 71, 97, -56, 90, -77, 347, -91, -18, 30, -37, -106, -56, 98, 110, 98, 5, 54, -199,
+                99, -274, 301, -161, 289, -149, -66, -162, 38, -97, 354, 134, 122, 114, -203, -214, -170, -145, 364, 19,
+                176, 56, -170, -50, -250, -153, -54, 12, -128, -63, 79, -167, 133, 181, 93, -65, 363, 81, -128, -18,
+                -226, -107, 86, -215, 226, -150, 176, -19, -29, -82, -19, -214, -109, 142, 350, -127, 100, -130, -179,
+                120, -175, 11, 69, 112, -87, 122, -206, 239, -60, -293, 243, 25, 125, -82, 46, 20, -71, -76, 132, -81,
+                0, 22, 47, -20, 87, -58, 21, 11, -170, 75, 94, 62, -113, -82, 207, -57, 175, -293, 127, -54, -108, 70,
+                -88, 161, -277, 162, -20, 255, 10, -100, 80, -26, -211, 4, 133, -167, 144, 79, -68, -79, 95, -145, 32,
+                19, 74, 322, -63, 36, -189, -239, 75, -143, -34, 114, -110, 101, -195, 185, -44, 25, 143, -26, 10, -184,
+                21, 47, 51, -55, -96, -308, 160, 138, 121, -20, 71, 7, 121, 29, 16, 13, -174, -93, 177, 94, -39, -69,
+                97, -25, -108, -135, 14, 48, -81, 86, 128, 47, -68, -182, -62, 2, 132, -13, -284, 275, -16, -42, 24,
+                -255, 88, -109, 225, -146, -148, 314, -49, -373, -37, -88, 300, 426, -57, -130, -112, 189, -20, 32, -61,
+                -122, 40, 46, -85, -166, -84, 199, 66, 34, -6, 34, -65, 137, -297, -171, 317, -30, -89, 189, -175, 11,
+                206, 44, -14, -117, 40, -3, -137, 59, -196, 22, 104, 61, 29, 51, 170, -9, 98, -371, -135, 119, -70, 190,
+                -72, 40, 73, 141, -176, 81, -177, 83, -469, -153, 201, 70, 215, 100, 171, -142, -55, 21, 108, -15, -51,
+                23, 72, -111, 126, 203, -88, -153, -115, -64, 39, 44, -323, -326, 82, -182, 426, 121, 35, 160, -62,
+                -178, -29, 393, 66, 61, -256, -4, 54, -124, 41, -335, -12, 333, 56, -21, -71, -90, 13, -37, 23, -48,
+                173, 31, -42, -14, 47, 122, -23, 154, 47, -300, -22, 22, 32, 69, 16, 32, -134, -24, 207, -71, 43, 111,
+                -34, -65, -114, -86, -149, 40, 26, 123, -91, 85, 95, -136, -81, 358, 29, 3, 60, -247, -49, -81, -37,
+                173, -142, -197, 35, 258, -249, 152, -344, -119, 247, -94, 106, 280, -123, 39, -212, -4, -28, 127, 130,
+                -75, 184, -132, 207, -95, -70, 7, 41, 116, -162, -51, -88, -107, 181, -228, -127, 148, 136, 76, -6,
+                -147, 177, 24, 113, -216, -31, 77, 72, -88, 177, 7, -82, -82, -41, 30, -120, 116, -30, -138, 61, -113,
+                -15, 232, 21, 139, -147, -147, -32, 227, -47, -23, -26, 4, -77, -18, 46, 120, -87, 31, 1, 91, 3, 88,
+                -22, -69, -31, -69, 268, 18, -161, 96, 74, -125, -83, -96, 8, -143, 136, 30, -26, -76, 69, -5, 49, -37,
+                217, -16, -98, -143, -82, 102, 5, 82, 173, 44, -117, 13, 163, -372, 131, 43, 61, -171, -208, -86, 66,
+                157, -34, 39, 89, -84, -61, -50, 73, 20, 19, 36, 52, 98, 64, 22, -129, -170, 269, -141, 47, -30, 169,
+                -21, -54, -247, 126, 63, 61, -23, 30, -272, 19, -11, -120, -98, 117, 43, 67, 82, -63, -36, -38, 27,
+                -120, 135, 105, -2, 39, -153, -124, -14, -82, -249, 32, 62, 172, 194, -238, -40, 265, -12, 80, 148, -28,
+                -183, -219, -79, -16, -175, 158, 210, 133, -19, -78, -307, -125, 259, -65, 96, 88, 123, -243, -32, 267,
+                62, -30, -199, 183, -16, -10, 10, 105, -45, -207, 120, -1, 21, -19, 33, 20, -97, -86, 69, 52, 20, -95,
+                3, 62, -206, 43, 86, 16, 82, 257, -1000, 179, 295, -209, 249, 87, 134, 111, -27, -62, 104, -58, -65,
+                153, -163, -14, 39, -72, 39, 125, 72, -120, -77, 1, -27, 29, 179, -96, -50, -103, 59, 277, 47, 204,
+                -238, -81, -57, -157, -3, -47, 114, -72, 2, 155, -132, 103, -131, -299, 40, -59, -168, 79, 103, 146,
+                149, -103, 47, 75, -68, -28, 23, -38, 85, 27, -31, 83, -96, 62, -62, -9, 17, -235, 19, -134, 188, 80,
+                78, 13, -16, -55, -155, -161, 44, -91, 94, 230, 85, -24, -15, -102, -16, 136, -19, 89, -57, 77, -1, 124,
+                158, -124, 90, -194, -137, -17, 51, -73, 113, 136, -85, 17, -149, 73, 54, 293, -113, 88, -168, -43,
+                -192, 96, 67, 100, -74, 80, -125, -53, -99, -35, -1, 134, -371, 78, 178, 21, -11, 39, -119, 110, 22, 19,
+                74, -74, -78, -34, 116, 38, -63, 115, -165, -75, 59, -5, 68, -42, 36, -10, -11, -51, 7, 91, 103, 172,
+                -21, 89, 173, -49, -565, -33, 207, -67, -8, -32, -75, -24, 24, 83, -154, 0, -43, -46, 101, 58, -7, -29,
+                -143, 85, 20, 175, -189, 120, -47, 108, 449, -117, -63, -101, -76, -86, -123, 12, -131, 41, -26, -17,
+                72, 34, 6, -11, -27, -55, 31, -133, 84, -8, 111, -145, -3, 73, 97, -103, 74, -27, 27, -66, -35, -89, 37,
+                33, 41, 28, 43, -43, 11, -63, 25, -32, 28, 63, 4, 4, 151, -183, 78, -2, -134, 7, 70, -255, 28, 72, 11,
+                99, -22, 87, -25, -75, 142, -47, -8, 6, 113, -144, 6, -123, 15, -4, -44, 41, -18, 135, -11, -63, 11,
+                -127, -88, 85, -10, 73, 111, -66, -21, 18, 65, -92, -110, 171, 28, -219, 29, 46, 73, 59, -175, 98, 81,
+                -140, 73, -63, 263, -108, -6, -14, -13, 6, -15, 63, -120, 18, -74, 171, -57, 168, 197, -128, -82, 66,
+                -101, 52, -179, 65, -87, 110, -60, -40, 16, 52, -65, 11, -3, 24, 145, -60, -52, 5, -78, 76, 2, 11, 44,
+                -62, 81, -91, -70, 92, 38, 122, 3, -177, 29, -21, -93, 21, 57, -50, -21, 75, -24, -15, -51, 81, 42, 21,
+                -68, 77, -70, -56, -35, 29, 20, -104, -67, -50, 86, 62, 17, 99, -4, 60, 36, 1, -74, -144, 17, 48, 1,
+                -27, 24, -40, 125, -204, 65, -40, -65, 304, 9, -9, -50, -202, 44, -18, 99, 15, 40, -167, 66, -80, 38,
+                -103, -39, -2, -27, 30, 38, 98, -3, -9, -205, 67, -37, -52, 95, 78, 55, -28, 37, 81, -40, -138, 88,
+                -170, 162, 24, -28, -26, 10, 84, 124, -221, 24, -93, 8, 35, 117, -162, 155, -33, -35, 64, -108, 104, 68,
+                -22, -15, -11, -87, 61, 91, 120, -134, 15, -50, 103, -214, 4, -71, 87, -48, -120, 74, -44, 109, -15,
+                -53, -34, -83, 151, -130, 212, -56, -256, -132, 24, 21, 70, -16, 162, 118, 180, -107, 67, 120, -94, 28,
+                -133, -69, 74, 139, 24, 170, -179, 17, 39, -291, -35, 64, -78, -193, 49, -185, 211, 159, -12, 5, 96, -7,
+                -205, -35, 104, 46, 260, 18, -177, -34, 40, 113, 51, -280, 65, 71, 15, 34, 35, -79, -56, -92, -176,
+                -149, -114, -65, 170, 126, 48, 152, -16, 58, 33, -177, 105, 80, 120, -210, 106, 77, 25, 109, -8, 57,
+                -130, -243, -119, -69, 6, -31, 147, 34, 135, -111, 2, -27, 161, -112, -128, 30, 98, -32, 87, -63, -194,
+                82, -155, 84, 205, -53, 214, -12, 26, 36, 5, -145, -54, -77, 56, 126, 34, -14, -144, -247, 142, 40, 206,
+                -65, 9, -69, -107, -14, -174, 207, 35, 33, 320, 8, -179, -114, -97, -16, -47, -60, 165, -46, 172, -146,
+                -22, -24,
+            ],
+            [
+                183, 156, 229, 5, 104, -356, -512, 199, 53, -785, 137, -179, -31, 157, 279, 378, 90, -524, -154, -155,
+                134, 502, 50, 64, -472, 97, -169, 175, -149, 118, 164, 245, 226, 81, -85, -98, 78, -571, 133, 245, -310,
+                -303, -170, -156, 203, 66, 641, 37, 18, 45, 45, -150, 126, 42, -154, 35, 316, 50, 7, 10, -308, -63, 75,
+                -79, -131, 27, 11, -168, 99, 166, -55, 59, 47, 228, -31, -239, -612, 159, 54, 404, 47, -113, -314, 100,
+                -51, 258, 226, -146, -279, -334, 241, 600, -332, 38, -299, 374, -63, 104, -148, 167, 139, 243, -213,
+                -221, 344, -222, -21, -224, 44, 126, -212, 173, 266, -256, 219, -168, -125, 93, -222, 201, 501, -41,
+                -91, 272, -455, -184, -105, 110, -56, -122, 465, -120, -292, -100, -144, 378, -59, 81, -507, -29, 20,
+                -57, 207, 352, 71, -276, 189, 632, -432, 13, 28, -218, 69, -24, -175, 74, 237, -12, -317, 157, -56, -63,
+                215, -17, 76, -110, -108, 71, -45, -202, -216, -422, 451, 345, 77, 19, -177, 384, -100, 235, 38, 52,
+                -211, -213, 190, 154, -122, 0, 75, -31, 73, -330, -20, 329, -154, -20, 107, 243, -212, -264, 191, 140,
+                10, 244, -128, -363, -44, -43, 105, 37, -244, -39, 142, 130, -63, -58, 37, -118, 38, -125, 72, 456, 121,
+                -472, -235, 140, -485, -192, 541, 22, 45, 170, 296, -57, -218, -471, -91, 255, 84, 211, 61, -89, 195,
+                22, -59, 218, -167, -172, -167, -35, -310, 208, -100, 190, 92, 130, 198, 87, -95, -395, 63, -21, 40,
+                130, -298, -68, -41, 593, -24, -19, -2, -131, 162, 15, -366, -195, 3, -201, 387, 203, 36, -95, -196,
+                -232, 411, -227, 194, 117, 142, -1, 236, 83, -171, -182, -85, -14, 291, -97, 134, 315, -84, -165, -278,
+                -108, 78, 193, -124, 75, -91, 47, 0, -169, 170, 48, -371, 10, -171, 92, 212, 18, -84, 259, 85, 83, 63,
+                -167, -127, -105, 130, -45, -26, -20, 57, 123, 115, -326, -59, 3, -8, -65, 93, 415, -286, -85, -133,
+                -174, 263, -295, 37, 2, 73, 235, 21, -152, -25, -102, 39, 317, 14, -102, 122, -270, -78, -205, 12, 48,
+                31, 348, 120, -198, 100, -34, 64, -30, -37, 22, -91, -500, 38, 45, 373, -191, 423, -89, 604, 21, -448,
+                -205, -191, -222, 349, 100, 387, -12, -161, -67, -325, -173, -99, 458, 38, 150, -129, -72, 39, 62, 67,
+                -147, 127, 21, -188, 39, 129, -104, -5, -11, 219, -60, 285, -210, -161, -103, 122, -85, 13, 130, -117,
+                74, 25, -143, -43, 70, 102, -140, -311, -21, 183, 138, 127, -68, -64, -68, -33, 269, -213, 133, -94, 78,
+                -81, -294, -34, 114, 183, 119, -5, 6, 60, 269, -127, -64, -2, -146, 8, 10, 123, 184, 21, -222, 183, -17,
+                -11, -253, -106, -229, 72, 4, 83, 103, 165, -85, -67, -55, 208, -37, 126, -187, 150, -130, 57, 122, 166,
+                -108, 143, 28, -91, -309, -68, -7, 31, 77, -50, 26, 110, -110, -23, 117, -28, -123, 75, 204, -102, -112,
+                4, 56, 90, -113, 40, 69, -155, 18, -28, -113, -339, -111, -52, 55, 308, 288, -90, 77, -102, -126, -124,
+                85, -16, 303, -285, 79, -267, -22, 132, 171, -45, 246, 106, 15, -152, -66, -61, 208, -9, -33, 82, -109,
+                -75, 132, -114, 84, 164, -155, -49, -24, -403, 69, 321, -112, 64, 143, 341, -49, -38, 146, -76, -178,
+                -25, -112, 62, -42, -53, -1, 299, -115, -87, -54, 179, -57, -253, 315, -103, 123, -282, 86, -77, -33,
+                -191, -74, 297, 190, 23, -127, -27, -302, -2, 162, -37, -145, 210, 148, -46, -11, 109, -255, -48, -48,
+                324, -17, 116, -271, 103, -3, 326, -259, -64, 61, -73, 24, -347, 57, 184, 106, 61, -3, -198, 15, -151,
+                -126, 112, 91, 105, 162, 18, -341, -116, 142, 220, 96, 138, -148, 174, 120, -140, -55, -118, 210, -257,
+                74, 286, 65, 67, 279, -250, -423, -270, 253, 18, -3, 75, -29, -4, -248, 63, 136, -93, -107, 379, 101,
+                33, 119, -251, -173, 1, -73, 273, 37, 112, -165, -179, 2, -429, -274, 63, -94, 325, 538, -4, -116, -202,
+                -338, -134, -37, -22, 491, 354, -104, 39, -240, 37, -38, 337, -68, -118, 59, 35, 11, 81, 105, 133, 177,
+                -255, -279, -83, 135, -236, 190, 74, -156, -120, 206, -11, -81, 431, 105, -137, -229, -122, 53, -348,
+                320, -439, 213, 275, 14, -111, 84, -130, -422, -172, 76, 123, 46, 436, 51, 307, 243, -82, -35, -46, -65,
+                -254, -59, -8, -65, -120, -125, -31, -354, 298, 413, -119, 157, 18, -80, -79, 31, 207, -126, 114, -253,
+                33, -213, -63, -141, 125, 407, -194, -387, 35, 217, 125, -142, 93, 261, -85, 48, -268, -71, 244, 53,
+                -75, 163, -76, 48, 326, -173, -178, 55, -68, 74, -51, 624, -43, -188, -85, -166, -71, -13, 125, -86,
+                159, 252, -500, 124, -117, 52, 6, 106, -14, -139, 154, 104, -48, -160, -83, -151, -135, 47, -1, 15, 133,
+                183, -22, -99, -85, 77, 40, -134, 273, -43, 66, 13, -118, -10, -280, 139, 214, -15, 71, -57, -124, -130,
+                127, 37, 43, 42, -416, -181, -40, 104, 106, -27, 223, 239, 28, 215, -235, -119, 35, -3, -53, 141, 41,
+                -254, -108, -304, 55, -46, 323, 300, 212, -68, -110, -35, 11, -39, -25, 62, 90, -178, 84, -2, -12, 9,
+                -173, 190, 250, 79, -182, -164, -59, -94, 256, -78, 308, -70, -23, -21, -162, -40, -142, 160, 21, -65,
+                -46, 103, 11, 5, -32, 11, -58, -68, -161, 12, 174, 102, -141, 149, -81, -127, 144, -51, -44, -44, -43,
+                254, -313, -10, 244, 39, -14, 44, -97, 114, -243, -202, -219, -40, -183, -50, 681, 265, -141, -40, 33,
+                -73, 173, 426, -353, -16, -191, -78, -81, -121, 115, 5, 404, -45, 26, -177, -49, 61, 175, 150, -136,
+                -42, 23, -64, -124, -1, -435, 24, 348, 236, 169, 98, -49, 142, -65, 17, -251, -52, -156, 3, -39, 60,
+                168, -23, 51, -56, -40, 201, -185, 85, 206, -130, -66, -63, -242, -16, -124, -45, 130, 241, -41, 105,
+                -142, 145, 192, -132, 175, -38, -183, -9, 34, 71, 87, -37, -51, 57, -56, -97, -119, 211, 150, -30, -205,
+                -5, 53, -47, 381, 112, -16, -31, -145, -194, -84, -14, -89, -10, 30, 6, 150, -108, -9, 38, -94, -72,
+                -65, -82, -59, 18, 223, 139, -11, -99, 223, 76, 77, -12, 56, -302, -79, 407, -83, 140, -232, -66, 53,
+                -131, -153, 442, -300, -157, 282, -137, 194, -162, -304, -44, 61, -165, -91, -116, 455, 212, 154, -140,
+                -25, -42, 93, 104, 10, -147, 277, 260, 124, -112, 92, -90, -248, -295, 142, -81, -218, 160, -37, -382,
+                149, 275, -135, -170, 292, -199, -332, 58, 233, 262, 634, -45, -103, 310, -258, -3, -115, -412, 113,
+                149, 175, -119, 266, -199, -136, -241, -480, 388, -289, 102, 119, -216, 188, 197, -113, 121, -156, 87,
+                -157, 42, -85, 268, -11, -280, 660, 465, -368, -47, -413, 3, 29, -6, -140, -13, 85, -121, 79, 95, -7,
+                207, 75, -430, 17, 268, -99, -23, 246, 138, 45, -27, -195, 9, -126, -82, -354, 147, -62, 570, -92, -442,
+                -67, 309, 795, 215, 18, -157, 50, -849, 5, -67, 1000, -115, -291, -276, -116, -207, 141, -127, 115, -71,
+                536, 265, -406, -218, -85, -128, -210, -159, 168, 46, 378, -268, 11, 42,
+            ],
+            [
+                12, -28, -74, -84, 222, -143, 129, -29, -76, -49, 12, 14, 226, -172, 57, -8, -28, -18, 73, 147, -82, 32,
+                -133, 13, -260, -118, -183, 185, 8, 139, 173, 60, -63, 146, 39, -62, -10, 136, -82, -100, -126, 154, 18,
+                -291, 117, -8, 113, 26, -63, -65, 191, 163, 57, 71, 58, -408, -180, -5, -183, 80, -106, 164, 53, 181,
+                -12, -212, 41, 178, 49, 8, -82, 33, 97, 85, -34, -194, -182, -30, 51, 211, 88, -288, 123, 42, -14, 162,
+                87, -195, 39, 44, 16, 65, -128, -99, -45, 113, 33, 206, 98, -66, -101, -7, 92, -251, 18, 117, -160, -62,
+                110, 22, -41, 1, 81, -233, 97, 6, 67, 65, -24, -55, 168, -45, 2, 66, -231, -179, 24, 200, 102, 113, 144,
+                -49, 117, -185, -49, -188, -86, -33, -80, -127, 73, 156, 30, 70, -30, -155, 111, -85, 62, -105, 101,
+                105, 173, 275, 57, -17, 129, -25, -266, -322, -20, 52, -169, -29, 145, -41, 80, -13, 59, -2, 21, 1, -2,
+                -17, -15, -40, 97, -178, -7, 140, 76, -73, -160, 109, 9, -68, -84, -8, 131, -47, 128, -57, -167, 48,
+                -22, -74, 69, 174, 94, -118, 127, -11, 102, -423, 128, 23, 1, 57, -136, 134, 82, -4, 19, 48, 66, -204,
+                -281, -3, -27, 21, -152, 35, 111, 301, -13, -151, 401, 9, -54, 4, 71, -263, -293, 23, 294, 234, 102,
+                -190, -45, -122, -145, 377, -109, -37, 149, -93, -31, -107, -137, 190, -33, -287, 228, 201, -17, -141,
+                -129, 8, 26, 208, 43, -90, -106, 43, 208, 1, 228, -82, -120, -26, -192, -13, -89, 136, -40, -243, 54,
+                199, -129, 117, -210, -66, -77, 6, -75, 141, 285, 1, 8, 63, -12, 32, -34, 7, 18, -78, -101, 258, -84,
+                -144, 15, -5, 11, 56, -248, -237, 60, -136, 106, 84, 167, 207, 13, -167, 77, -515, 263, 290, -60, 102,
+                -95, 20, 16, -127, -38, 124, 32, 72, 19, -32, 91, -91, -59, -37, 85, 27, -116, -57, 128, 0, 70, -113,
+                78, 13, -112, 11, 0, 27, -21, 151, -75, 23, -122, 8, 56, 197, -42, -92, -38, 37, -15, 142, 123, 39, 239,
+                -71, -216, -237, -45, 35, -211, -143, 119, 312, -142, 78, -89, 38, 248, -18, -70, -130, 205, -180, -72,
+                38, -61, -320, 154, 44, 87, 134, 189, -3, 137, -91, 42, -80, -119, -72, -27, 14, 0, 232, -149, 1, 40,
+                -106, 112, 43, -72, 71, 71, -92, -51, -79, 65, 131, -217, -82, -4, 156, 22, -67, -82, 116, -108, 62, 76,
+                17, -218, 141, 157, 80, 72, 42, 18, -184, 40, -221, 33, -45, -11, 73, 20, -84, -45, 63, -192, 290, -61,
+                116, -5, -87, 24, -80, -7, 156, 55, -85, -120, -15, 114, -93, -224, 70, 50, 211, -316, 16, 26, 171, -32,
+                67, -46, -98, 17, 37, 52, 7, 0, -105, -39, 93, 75, 86, -36, -71, -146, -231, -25, -147, -64, -15, 503,
+                128, -10, 9, -167, 91, 240, -51, -94, -13, 178, 84, -126, -74, -51, 9, -24, 7, -37, 130, -137, 45, 19,
+                -85, 9, 59, 152, 18, 80, -70, 148, 31, -143, -212, 81, 12, 66, 118, -110, -128, -25, -10, 63, -62, 54,
+                82, -90, 101, -52, -93, -34, 216, -43, 138, -12, -213, 27, -76, 7, 26, 18, -61, 38, -70, -10, 54, -147,
+                -94, 55, 46, -112, 77, 133, 46, -116, 172, -54, -69, 30, 68, -58, 31, 137, -293, 259, 102, -148, -144,
+                99, -9, -111, -37, 114, 78, -78, -26, 109, -45, -316, -14, 100, 32, -138, 0, 96, 244, -16, -278, -128,
+                -5, 147, 54, 130, 99, 159, -32, 209, -166, -126, -55, 92, -78, 90, -398, 25, -23, 50, 162, 46, 52, 76,
+                81, -22, -49, 45, 22, 33, -182, 1, 325, 173, 20, -284, -208, -99, 76, -47, -24, 15, -53, -42, 121, 77,
+                -44, -141, -6, -135, 180, -61, -95, 127, 135, 21, 103, 40, 209, -250, -32, -146, 59, -121, 44, 102, 47,
+                5, -114, 54, -13, -211, 293, 213, 155, -26, 16, -171, -264, 81, 71, -11, -9, -76, 40, -53, -38, 17,
+                -112, 123, -60, 96, 165, -123, -102, -109, -33, 36, 73, -240, 375, -101, 3, -33, 7, -22, 54, -59, 97,
+                66, -106, 60, 7, 63, 142, -160, -214, 30, 76, 70, -66, -47, -206, -18, 73, 125, 72, -26, 7, 369, -325,
+                -85, 207, -70, -72, 468, 29, -25, -12, -125, -196, 54, -190, 15, -60, 77, -160, 25, 95, 19, -8, -97,
+                -141, 281, 112, -152, 64, 34, -97, 226, 39, -57, -39, -14, -26, 64, -190, -110, 120, 18, -25, -219, -63,
+                157, 125, -106, -199, 169, -74, -221, -73, 117, 390, 1000, 125, -287, -219, -104, -325, -117, -70, -23,
+                69, 1, 161, -5, -118, -139, 58, -60, 27, 85, -83, 59, -12, -86, 75, 150, 156, -19, 31, -100, -73, -16,
+                -124, 73, -16, 47, 334, -339, -40, 100, -155, -92, 13, 179, 126, -72, 33, -80, -104, 81, 82, 89, 61,
+                -76, -16, -58, -159, -154, -41, 104, 148, 60, 92, 21, -226, 27, -55, 32, 140, -39, -46, -15, -39, 31,
+                95, -13, -54, -95, 11, -21, 50, 126, -127, -23, -58, 53, -38, 31, 39, 142, 143, 59, 72, -82, -67, -242,
+                -21, -179, 55, 140, 19, 76, -231, 104, 19, 103, -71, 116, 61, -49, -70, -13, -74, 91, 107, 139, 128,
+                -247, 60, -151, -122, 330, -27, 273, 197, -67, -665, -134, 97, 203, 130, -232, -153, 230, -6, 16, -183,
+                -11, -32, 47, 17, -55, -57, -49, 145, 5, -76, -25, -85, 92, 107, -58, 43, -166, -78, -76, 158, 6, 9,
+                -91, 241, -40, -93, 69, 49, 10, -30, -82, 120, 34, 33, -83, 108, 51, -25, -231, 118, -150, 30, 10, -97,
+                77, -45, 226, -47, -1, -10, 173, 17, -110, -48, 167, -183, 12, 42, -142, -7, -81, -87, 193, 73, -44,
+                214, 37, 48, -97, -16, -38, -101, 18, 7, -72, 16, -71, -123, 187, 42, -80, 62, 4, -16, 2, 147, -17, -97,
+                -3, -155, 45, 37, -118, 150, 51, -4, 128, -19, -31, 21, -48, 50, -113, 17, -147, -5, 261, 68, 34, -83,
+                -163, 39, 42, -95, 92, -130, -67, 64, 122, -24, 11, 108, 10, 36, -147, 98, -131, 18, -59, -50, 16, -85,
+                47, 70, -7, 72, -91, -47, -69, 53, -40, 154, 22, 22, 85, -136, -80, -158, 195, 6, -9, 100, 62, 135, 59,
+                151, -79, -31, 34, -327, -4, 56, -67, -35, 57, 18, 98, -119, 55, 160, -178, -157, 67, 36, 99, -78, -24,
+                49, 141, -185, -55, 58, -177, 197, 170, -111, 32, -21, -27, -8, -33, 2, 52, 63, -214, -19, -53, 81,
+                -186, 281, -29, -84, -75, 127, 56, 100, -35, -57, 84, 116, 57, -36, -90, -85, -74, 31, -226, 36, 310,
+                -100, -53, -52, 141, -54, -45, -118, -171, 135, -115, 30, 33, 256, -52, 107, -58, -8, -136, 6, 10, 136,
+                150, -263, 47, -52, -64, -40, 61, 166, 64, 39, -87, -35, 18, -10, 24, -9, -127, 44, 96, 19, -80, 99, 96,
+                -142, -252, -164, -175, 12, 4, 705, -166, 39, -124, -85, -6, -118, 162, -89, 126, 138, -280, -137, 146,
+                265, -33, -98, 23, 119, 42, -41, -97, 69, 234, -116, 8, -95, 124, -140, -267, -5, -71, 79, 29, 255, 13,
+                42, 78, -166, -43, 109, -115, 86, -50, 73, -6, 26, -101, 22, 34, 7,
+            ],
+            [
+                -59, 95, -89, 22, 158, -200, 177, -69, 176, 427, -135, -127, -23, -93, -106, -86, 17, 178, -22, 52, 138,
+                -184, -177, 33, -242, 92, 126, 139, -20, -94, 74, -41, 214, 235, 46, -2, -110, -148, -56, -146, -233,
+                -104, 47, 346, -65, 66, -92, 69, -112, -50, -69, 65, 131, 0, 110, -41, -120, 68, 99, 298, -244, -143,
+                -14, 91, -15, 153, 107, 276, -226, -47, -78, -137, -62, -131, 36, 96, 196, -86, 156, -170, 71, 5, 2,
+                -39, -117, 22, -89, 180, 140, -48, -8, -111, 109, -4, 111, -156, 32, -70, 303, 176, -21, -178, -150,
+                -58, 87, 113, 11, 148, 61, -249, -105, -30, -559, 23, -74, 55, 66, -8, 222, 309, -119, 31, 108, -248,
+                189, -157, 336, -106, -46, 22, -178, -9, -30, 75, 101, 97, -272, 168, 199, -51, 134, -61, -47, -36, 7,
+                -65, -59, -226, 22, 100, 72, 183, -210, -42, 128, -100, 137, -2, 150, -28, -192, -117, 136, 42, 293,
+                -233, -31, 136, 4, -130, 149, -296, 51, 106, 91, 60, -96, 109, -3, 195, -258, -24, -12, 122, -13, 230,
+                -14, 31, 84, -131, -29, -124, 232, -167, -44, -165, -31, 91, -19, 138, 61, -17, -165, -36, 36, 39, -67,
+                183, 117, 22, 139, 2, -403, 1, 108, 47, -198, 75, -51, -103, -62, 216, -139, 295, 145, -16, 308, -119,
+                -166, 39, 48, -204, -208, -10, 169, 288, 91, -110, -137, -50, -78, -269, 65, -6, -259, 118, 309, 154,
+                -60, 18, 156, -32, -71, 40, 58, -76, 95, -56, 76, 118, 97, -49, -235, -10, 78, 122, -100, -297, 96, -4,
+                139, 0, 99, 137, 28, -39, 18, -62, -54, -92, -154, 226, -56, -139, 236, -99, 174, -153, 97, 44, -110,
+                107, 361, -148, -235, -82, -167, -60, 54, -10, 66, 32, 115, 4, 6, 171, -31, 69, -344, 7, 147, 8, 106,
+                80, -162, -13, -98, 78, 87, -43, 145, 4, 220, -429, -8, -164, 199, 67, -26, -135, 298, 273, -155, -169,
+                -25, -27, 147, -60, 201, 181, -88, 69, -238, -177, -172, -129, -118, 16, 31, 95, 109, 203, -221, -15,
+                -151, 331, 263, -266, 90, 3, -64, 123, 33, 78, -95, -182, 124, 16, 93, 6, -2, 126, 11, -357, 129, 28,
+                54, -266, -62, -11, 48, 89, -12, 194, -225, 3, 190, 5, 104, 122, -82, -83, -171, 16, -130, 231, 9, 43,
+                95, -59, -85, -113, 145, 44, 197, 15, -215, 47, -13, -21, -74, -126, -46, 71, 35, 209, -213, 67, -182,
+                83, 100, 79, 10, 90, -131, -24, 134, 57, -84, -103, 200, -15, -160, -29, -12, 66, 114, -79, -68, 202,
+                -38, -68, 172, 25, -81, 35, -40, 30, 337, 232, 13, 16, -74, -409, -82, 1, 66, -147, -126, 55, 104, 90,
+                30, -38, 238, -83, -115, 44, 134, 24, -153, -54, 166, 69, -158, 50, -16, -94, 97, -79, -52, 127, 38,
+                130, 39, -24, 43, -267, 52, -47, -84, 97, 159, -106, 11, -47, -27, -7, 160, 6, -62, -60, 92, -67, -33,
+                -33, -4, 6, 75, 48, -54, 27, -50, 40, 91, -60, -63, -2, 15, 63, 26, 46, -66, 42, -95, -97, 6, 172, -254,
+                -142, -197, -32, 94, 331, 159, 74, -17, -30, -156, -33, -19, 15, 129, 145, 88, -83, 221, -67, -119, 11,
+                -33, 15, 88, 208, 217, 230, -153, -42, -123, -391, 60, 61, -54, -19, 20, -45, -61, 72, -18, -81, 175,
+                -43, 8, -158, 183, -33, -125, 126, 60, -157, -2, 23, 36, 73, 81, 10, -17, -234, 70, 123, -26, 26, -19,
+                120, -80, 105, 67, -116, -112, 70, 6, 98, 63, -52, -95, 141, -79, -49, -128, 12, -125, 108, -21, 64,
+                -101, 225, -79, 116, -44, -7, 174, -164, 93, -55, 42, -33, 157, 1, -158, 30, -29, 22, 10, -154, -16, 14,
+                180, 72, -38, -35, -114, -2, 19, 145, 175, -18, -153, -18, 320, -27, -68, 12, -34, -61, -141, 33, 83,
+                117, -44, 252, -446, 95, -73, 49, -366, -94, -60, 250, 9, 38, 31, 227, 61, -287, -179, 244, 16, -63,
+                245, -2, 91, -80, 165, -230, 21, 45, 27, -5, -38, 56, -162, 69, 89, 19, 23, -22, 85, 59, 34, -82, -51,
+                -238, 127, 99, 0, -81, 7, -47, 67, 117, 82, -111, -66, 43, -4, 16, 117, 148, -177, -42, 59, 138, 156,
+                -47, 20, 15, -239, -67, 103, 164, 76, -21, -145, -163, -20, 41, 574, 0, -436, -142, 188, -109, -28, -13,
+                179, -419, -349, -122, 170, 159, 186, 230, 146, 301, 12, -75, -126, -19, 62, -268, -5, 246, 43, 48, 99,
+                95, -157, -335, 37, -15, 63, 146, 99, -87, -148, -61, 88, 101, 123, 44, 196, 49, 13, -582, 130, -187,
+                -179, 83, -60, 211, -6, 42, 234, -24, -168, -344, 66, 89, 214, -33, -8, -65, 204, 29, -292, 105, 181,
+                -120, 10, 576, -173, -157, -119, -46, 105, -161, -40, 97, -59, -125, 251, -97, -8, 14, 123, 95, -163,
+                -140, 46, 146, -168, 94, 13, -25, 92, -22, -19, 88, -56, -38, -89, -112, -71, 53, -9, 100, 3, 158, -96,
+                -31, 12, 14, 264, -4, -68, -57, 106, -291, 24, -20, 9, 195, -33, 44, 376, 17, -168, 25, -113, -169, 58,
+                7, -39, -281, -142, 42, 27, 218, 70, 138, 9, 15, -23, 91, -60, 69, -40, -28, 94, -90, 210, -75, -218,
+                63, -8, 59, -98, 8, 23, 221, 12, -84, -179, 131, 47, -137, -125, -175, -107, 459, 158, -87, -166, 61,
+                95, -179, 213, -73, 74, 8, -41, -38, 50, 21, 53, 1, 64, -77, 63, 111, 29, -137, 54, 44, -30, -99, 54,
+                -41, -337, 212, 119, 23, 39, -35, 224, -145, 132, 70, -109, 15, 21, -175, 126, 161, 293, -85, 6, 112,
+                -584, 5, -3, -30, 21, -75, -136, 294, -40, 2, -67, 12, 3, -80, -24, -10, -167, 368, -109, -96, 21, 37,
+                173, 95, -171, 86, 3, 19, -142, 77, -126, 10, 165, 29, 161, -124, -45, 89, -42, 142, 5, -152, -136,
+                -104, 125, 121, 76, 84, -101, -31, 86, 65, -57, 43, -169, 91, -58, 34, 35, -33, -156, -26, 21, 208, -73,
+                59, -290, 194, 60, 30, -7, 25, 14, 8, -41, 53, -14, -126, 29, 33, 57, 43, -46, -109, 35, -4, 374, -43,
+                69, -243, 50, -4, -15, -153, -7, 63, 232, -131, -14, 38, -48, -42, 161, -22, 34, -74, 154, -24, 87, 301,
+                -225, -199, -14, -46, 18, -12, -3, 53, 97, 59, 32, -210, -205, 7, -85, 31, 30, 57, 135, 63, 68, 95, 64,
+                47, -192, 140, -207, 19, -150, 130, 219, -246, -75, 121, -116, 151, -161, 60, 79, -143, 257, -97, -106,
+                146, 26, -262, -204, -52, 131, 66, 84, 245, -230, 59, 228, 125, -87, 111, -133, -39, 38, 179, -101, 19,
+                -100, -66, 69, -4, -557, -285, 503, -140, -43, 12, 239, 305, -23, -274, -111, 154, -104, -3, 100, 295,
+                110, 116, 174, 51, -234, -124, -149, 91, 34, 340, -87, 17, -294, -259, -131, 413, 114, -136, 4, -86,
+                -15, 65, 21, 68, 117, 71, 3, 303, -179, -22, -243, -17, -72, -113, -122, -149, 113, 142, 46, 190, 133,
+                181, 55, -48, -83, -209, -178, 183, -706, 26, 379, 454, -132, -421, 343, 92, 1000, 164, 25, -182, -71,
+                -862, -6, -34, 393, -457, -281, -287, -267, 25, 367, 540, 119, 126, 506, 70, -442, -245, -10, -91, -368,
+                -94, 95, -96, 115, -87, 350, 119,
+            ],
+            [
+                -43, -154, 101, 120, 89, -57, 80, -141, -218, -122, 35, 10, 153, 189, -48, -4, -478, -158, -21, -91,
+                -141, 520, 101, 263, -157, -45, -461, 185, 147, 116, 112, 99, -222, -110, 167, 33, -86, 223, -101, 92,
+                -2, -320, -170, 334, -181, 9, -38, 363, 40, -47, -221, -86, 171, -160, 51, 248, -67, -76, 23, 242, 62,
+                -92, -26, -70, -80, -160, 74, 294, -49, -18, -60, -6, 40, -230, 71, 149, 135, 129, -157, -143, 210, -80,
+                133, 350, -150, -283, -169, -16, -258, 50, 72, -142, 35, 180, 37, 21, -26, 34, -5, 43, 17, -149, -1, 82,
+                24, -31, -29, 195, -65, -90, -17, 8, 111, -212, -41, 240, -91, -11, 144, -145, -132, 38, 7, 143, -58,
+                292, 16, -311, 61, -40, -22, 12, 43, 115, -159, -15, 54, 81, 61, 4, -31, -272, 16, 82, -194, -93, 59,
+                -266, -75, 111, -33, 486, -125, 125, 115, 167, -37, 19, 110, -379, 121, -4, 30, 132, 105, -354, -61, 25,
+                -23, 3, 41, 162, -49, -149, -142, 150, 40, -118, -75, -244, 36, 157, 57, 142, -142, -191, 156, -18,
+                -104, 72, 70, 153, -17, -21, 126, 16, -75, -195, -42, 201, -196, 151, -11, 94, 6, -112, -9, 73, 314,
+                -79, 191, -73, 77, -89, -281, -65, 17, -29, 88, 73, -351, -60, 146, 111, -97, 14, -89, -144, 60, -25,
+                99, 179, 291, -79, 27, -122, 240, -108, -222, -32, -69, -154, 106, 43, -46, -21, 45, 92, -18, 14, 380,
+                40, -113, -71, -103, -134, 31, -106, 166, 67, -77, 9, -138, 44, 110, 132, -145, -86, -157, 61, 14, 66,
+                298, -107, -168, -84, 120, -33, 88, -119, -211, -5, -53, -63, 192, 198, 21, -84, 155, 32, -17, 106,
+                -280, -88, 131, -44, 179, -2, -225, -112, 98, 52, -28, 34, 20, -2, 77, -107, -202, 85, 106, 19, -37,
+                -49, -216, -155, 181, 353, -165, 82, 171, 89, -122, -585, 179, 336, -61, -12, -8, 55, -11, -174, 103,
+                65, -81, 47, -25, -188, 182, 130, 50, -23, -200, 70, -136, -367, 171, 110, 42, 158, 70, -53, 301, 105,
+                82, -330, -49, -78, -62, 27, -53, -131, -101, -65, 211, 148, 17, -30, -70, -302, 38, -6, 111, 257, 34,
+                -67, 60, -85, 34, -19, 13, 116, -33, -91, 183, -23, 74, -196, -74, -112, 136, 7, -38, 44, -36, -160,
+                -160, -94, 17, 421, 112, -43, -137, 29, -138, -16, 278, -90, -62, 134, -138, 229, 137, 68, -155, -217,
+                166, -46, 47, -130, -139, 44, 152, -98, -190, 100, -28, -19, -16, 46, 47, 55, 24, -25, -72, -139, 102,
+                188, 15, -98, 101, 18, -34, 40, -266, -22, 24, 134, 95, -146, 37, -83, 107, -136, 183, -62, -26, 212,
+                197, -177, -105, -95, 22, -32, -245, -132, -145, 55, 166, 212, 27, 58, -16, -43, 14, -3, 71, 172, -227,
+                27, -46, 39, -59, -13, -93, 7, -66, 226, -37, -38, -42, -19, 0, 268, 95, -231, 166, 98, -113, -123,
+                -144, -68, 158, 21, -111, 37, 84, -64, -122, 21, 79, 71, 116, 157, -318, -201, 183, -137, 234, -39, 79,
+                -37, 56, -43, 210, 38, -108, -200, 39, 173, -16, -24, -94, -16, -27, -39, 147, -210, 178, 26, -31, 11,
+                -62, -64, -62, 8, -205, -16, 103, 42, 83, 42, -102, -288, 125, 88, -74, -78, 48, 274, -252, -39, 583,
+                31, -71, -88, -233, 65, -181, -5, 149, -1, 64, -11, 36, -56, -119, -129, -60, 24, 106, 120, 7, 46, -334,
+                105, -101, -228, 223, 178, 127, 25, -233, 96, 81, 9, -164, 80, -58, 184, 132, -102, -80, 46, -99, 223,
+                -87, -37, 2, -173, -55, -25, 19, 13, 228, -13, -131, 1000, -301, -198, -250, 143, -30, -239, -228, -2,
+                -78, -91, -22, 132, 18, 266, 214, 50, -6, 81, -71, 2, -296, 21, -96, -297, -112, 225, 427, 190, -107,
+                -235, 598, 264, 496, -157, -192, -237, -698, -80, 152, 544, 224, 496, -736, -220, -34, -431, -536, -148,
+                -397, 109, 89, -177, 313, 743, -275, -22, 270, 422, 83, -143, 54, -394, -64, -305, 493, -394, 334, -103,
+                -15, 49, -618, -326, -214, -43, 747, 840, -375, -15, -352, -465, -180, -117, -44, 687, 242, 224, -274,
+                -539, -216, -1, 335, 61, 270, 360, 94, 111, 145, 281, -129, 566, -392, -680, 29, 191, 99, -235, -144,
+                -498, 218, 335, 53, 341, 420, -353, -111, -478, -170, 293, 630, -393, -893, -428, 782, 223, 75, -1, 95,
+                -379, -417, 176, -40, -25, 455, 131, 347, 478, 357, -134, -380, 79, -190, -562, -185, -159, -173, -6,
+                -136, 101, 277, 277, -96, -234, -36, 0, -42, -21, 149, 274, 156, 31, -202, -109, -29, 205, -100, 41,
+                -554, 115, 176, 85, 56, 32, 183, -99, -162, -137, -170, 379, 70, -108, -111, 235, 101, 18, -439, 59, 96,
+                144, -47, 63, -288, -379, -53, -20, 359, 101, 31, 244, -44, -34, -50, -38, 339, 171, -167, -182, 125,
+                35, 325, 26, 77, -238, -237, -117, 191, -102, 4, 96, 46, -98, -44, -97, 51, -79, -137, -49, 167, -59,
+                47, 53, 68, 56, 230, 85, -203, -152, -36, -52, -340, -26, 238, 43, 139, -159, -38, 137, -567, 77, 258,
+                236, 176, 204, -74, -316, 23, -145, -2, 8, 268, 86, -40, -203, 346, 555, 187, 27, 121, -434, -270, -537,
+                -209, 0, -350, 282, 116, 53, 108, -5, 174, -71, 33, -7, -193, -82, 1, 141, -23, -37, 295, 182, -112,
+                -373, -110, 174, -123, -44, -209, 57, 259, 81, -63, 39, 161, -131, -4, 126, 62, -82, -165, 29, 40, 85,
+                103, 86, -229, -165, 58, 17, -32, -184, 356, 35, -124, -211, -63, 218, 85, 133, -239, 182, -100, 31,
+                120, -216, 137, 141, 117, -14, -101, -42, -74, -168, 68, -50, -120, 104, 225, 87, -171, -148, 137, -36,
+                -128, 52, -5, 46, -81, 10, 49, -13, -51, -14, -104, 39, 37, 52, -101, -55, 81, -159, 192, -87, 108, 15,
+                10, -189, -176, -117, 139, 1, 52, 276, -66, -118, 238, -83, 235, -30, -17, -163, -238, 38, 159, -77,
+                -134, 76, 93, 78, 73, 51, 90, -310, 163, -6, 5, -70, 104, 509, -192, -19, -61, -136, -6, -204, 231, 230,
+                99, -19, -131, -30, -160, -226, 43, 114, -95, 71, -227, -3, 171, -80, -125, 54, -53, -36, -62, 82, 108,
+                27, -47, 228, -117, -31, 78, 27, -8, -134, 18, 43, 137, 14, -41, 43, -26, -193, -31, 90, -60, 85, -113,
+                84, 140, -199, 165, 17, 69, -206, -99, -43, 20, 73, 165, -42, 127, 108, -55, -87, -176, -44, 54, -114,
+                -159, 502, 29, -164, -25, -129, -137, -142, -142, 185, 132, 7, 36, 56, -150, -141, -89, 53, 42, -127,
+                518, -110, -103, 60, 121, -199, -132, 388, -119, -21, 140, 212, -121, -18, 271, -139, -224, -125, -259,
+                -37, 83, -34, -167, 217, 372, -181, 231, -58, -25, 40, -158, 49, 35, -120, 196, -194, 70, -37, -141,
+                171, 4, -75, 195, 87, 11, 268, 65, 111, -110, -632, -73, 81, -418, -135, 277, 25, 70, 168, -106, -148,
+                -184, 164, -127, 155, 230, 12, 82, -1, 57, 240, -347, -211, -7, 183, 100, -358, -53, 97, 164, 260, -12,
+                -203, 558, -10, -304, -633, 122, 248, 82, -70, 70, -3, -34, -218, -8, 146, -36, 78, 41, 61, -18, -74,
+                -47, 116, 48, -132, -57, -11, -125, -140, 156, 40, 88, 44, 353, -24, 90, 121, -238, 11, -138, -179,
+            ],
+            [
+                167, -24, 227, -26, -212, -335, 114, 88, 66, 153, -10, -43, -75, 60, -92, -60, 123, 5, 98, -142, -23,
+                514, -51, -525, -87, -152, 81, -152, 64, 89, -71, 228, 242, 97, 113, -48, -193, -112, -133, 34, 23, -42,
+                83, -170, -128, -128, 171, 193, 104, 25, -65, -184, 635, -23, -294, -197, 26, -140, -55, -229, 498, 19,
+                91, -210, -75, 55, 24, 437, -120, -29, -166, -127, 120, 119, 135, 88, -136, -207, -89, -31, -137, -40,
+                19, 139, 10, 60, -137, 86, 89, -105, -7, 85, 117, 180, -8, -351, 70, -68, 22, -186, -47, -144, 282, 71,
+                81, -52, -204, 141, -73, -59, 116, 50, -162, 285, -5, 93, -43, -139, 26, -55, -138, 38, 114, -174, 156,
+                -13, 31, -14, -104, 828, -182, -67, -122, 70, -277, -147, 239, 18, 153, -211, 100, 157, -159, -300,
+                -218, 108, -351, 31, 188, -145, 86, 299, -216, 7, 147, -174, -68, -15, 68, 252, -21, 40, 150, 260, -57,
+                -278, -168, 73, -103, 145, 172, -191, 102, 18, -195, 51, -190, -95, 55, -69, 164, 257, -56, -66, 66,
+                244, -69, -2, -47, -54, -105, -32, 299, 101, 62, -143, -84, -60, -182, 6, -21, 140, 79, 31, -68, -175,
+                60, -47, 24, 19, -21, 126, -67, -200, 149, -31, -97, 134, 135, 120, 260, -95, -65, -394, 2, 6, -317, 66,
+                80, 244, -81, 0, 120, 109, -233, 180, -95, 30, 7, -119, -74, -200, 66, 73, 54, -166, 42, 206, 171, -156,
+                -178, 193, -38, -207, 30, 184, 159, -98, -104, -95, 152, 8, 44, -66, -326, 210, -74, -153, 347, 90, -71,
+                -24, -304, 42, 599, 73, -68, -171, -69, -104, -163, 122, -1, -94, 270, 165, -127, -173, -23, -57, 17,
+                -3, 188, -215, 180, -87, -430, 116, 56, 16, 34, 131, 18, 58, -107, -4, 67, 62, -116, -48, 73, 72, -15,
+                117, 162, -196, -165, -350, 263, 183, -53, -339, -61, 95, -5, 306, 95, -38, -180, 30, -191, -212, 203,
+                65, 161, 123, 2, 51, 107, -284, 7, 8, -19, 127, 354, -445, 235, 173, -176, 7, -37, -111, 23, 326, -96,
+                -31, -16, -69, -173, 36, -34, -58, -111, -127, 126, 53, 88, 60, -58, 36, -57, -143, 161, 137, -75, 0,
+                40, -138, -107, 173, -60, -169, 202, 59, 313, 248, 25, 128, -482, -155, -10, -67, 237, -17, 61, -103,
+                -278, -28, -94, 221, -117, 307, -94, -96, -272, 7, 262, 3, 93, 154, -101, 219, 186, -166, -42, -345,
+                225, 91, -14, -123, -51, 38, 119, -285, -315, 179, -190, -24, 209, 87, -62, 115, 183, -83, -156, 4, 4,
+                286, -91, -147, 229, -18, -5, 172, -29, -408, -152, 209, -51, -410, 37, -33, 63, 163, 184, 47, -40, 249,
+                21, -327, 143, -180, 35, 99, -122, 175, 228, 143, -238, -144, 35, -78, 123, 97, 3, -61, 130, -22, 69,
+                -340, 129, -30, 117, 3, -63, -48, -17, -92, 20, 54, -206, -307, -37, 279, 137, 59, 31, 194, -165, -74,
+                129, -164, -110, 158, 300, -16, 14, -122, -17, -108, -117, 65, -70, 140, -236, 281, 122, -256, -15, 33,
+                207, -112, 35, -107, 388, 5, -235, -182, -11, 33, 148, 64, -74, -372, 121, 90, 132, -280, 352, 107,
+                -152, 125, -212, -72, -253, 248, -227, 21, 240, 300, -6, -323, 93, -307, 1, -181, 98, -159, 37, 418,
+                -313, -142, 270, -173, 112, 189, 207, -151, -219, -295, 97, -58, 336, 54, 59, 26, -207, 72, -137, -189,
+                -50, 216, 125, 170, -174, -46, 165, -457, 419, 36, -31, 87, -21, 63, 310, 3, -256, -141, 137, -96, -50,
+                -10, -22, -53, 117, 11, 149, -141, 299, -120, 130, 35, -248, -106, 105, -96, 137, 200, 60, -39, -126,
+                -159, -176, 101, -290, 72, -63, -5, -27, 298, 0, 15, 166, 4, 211, -169, -138, -87, -36, 49, 76, 28, 18,
+                -63, -65, -103, 24, 86, -320, 64, 164, -30, 94, -77, 102, 4, -33, -85, -33, -171, 199, 37, 136, -49,
+                351, 48, -53, 189, -26, -51, -90, -369, -99, -68, -74, -277, 187, 172, -29, 187, 34, 137, 21, 160, -265,
+                -166, 138, -60, 411, 162, -10, -54, -299, -262, 84, -33, 26, 244, 28, -6, 157, -416, -45, 12, -13, -33,
+                94, 141, -109, -13, 39, -106, 124, -13, -275, 43, 111, -485, 86, 410, 0, -184, -87, 92, -84, 165, 22,
+                76, 9, -65, -137, 48, 125, 93, 70, -144, -343, 73, 212, 75, 12, -29, 107, -109, 136, -94, -26, -227,
+                102, 117, -32, 24, -156, -77, 1, 74, -115, -58, 175, 157, 40, -38, -61, 4, -140, -81, 237, 40, -111,
+                -18, -38, -114, 93, 57, -33, 165, -45, 51, -341, -89, 48, -31, 91, 316, -1000, 96, 146, 89, 129, 233,
+                209, 97, -146, 144, -305, 143, -47, 95, 11, 105, 59, -96, -222, 28, 397, -188, -46, 68, -24, -121, -119,
+                146, -26, 148, 46, -50, 59, -99, -63, 19, 135, 63, -20, -95, 60, -46, 96, -55, -134, 88, -74, 65, 55,
+                24, -71, -35, -53, 153, 23, -97, 89, -50, -125, 29, 199, 74, 4, -222, 115, -6, 274, 34, -432, -65, 28,
+                52, -200, -27, 73, 161, -70, -137, 77, 123, -200, -91, 10, 96, 0, 74, 204, -93, 87, 147, 132, 93, -307,
+                -57, 117, -213, 195, 52, -7, -57, 82, -192, -157, 84, 249, -49, -49, -144, -160, 107, 30, 15, -106, 132,
+                -95, -171, 1, 7, 87, 144, 52, 3, 22, 25, 65, -329, -17, 178, -198, -4, -59, 266, 249, 73, -30, -297,
+                -39, -42, 142, -36, 28, 79, -140, 7, -294, 113, -67, 79, 457, -135, -242, 88, -298, -95, 277, -222, -77,
+                28, -5, 392, 90, -128, 245, 209, -46, -191, -121, -58, -128, -35, -2, 180, -32, -157, -119, 293, 5, 58,
+                -15, -223, -50, 530, 136, -443, -32, 166, -161, -87, -59, -69, 181, 60, 62, 160, -312, 62, -34, -17,
+                185, -106, 31, 179, -161, 242, 130, -55, -19, -348, -65, 128, -4, 140, -52, -474, 136, 190, -130, 225,
+                -69, 17, -64, -84, -12, 116, 137, -282, 204, 133, 101, 36, -303, -26, -144, 1, -71, 165, -376, 197, 26,
+                201, -192, -305, 253, 9, -31, 131, 126, 8, -52, -5, 70, 188, -46, -69, -183, 97, -69, -93, 58, -44, 95,
+                116, -370, 307, -235, -8, -103, 162, 137, 292, -354, 108, -257, -105, 41, 135, 49, 78, 167, -108, 113,
+                -82, 28, 272, -47, -227, 97, -155, 273, -79, 203, -102, 24, -59, 52, -312, 35, -92, 107, 114, 33, -35,
+                27, -190, -35, 33, 72, 137, -139, 48, -83, -33, 46, -201, -89, 144, -52, 203, 7, -58, -103, -222, -76,
+                -15, 286, 0, 31, 97, -169, -239, -115, -104, 135, 71, 313, 107, 65, 19, 178, 222, -100, -12, -120, -252,
+                35, -109, 147, 170, -126, -54, -106, 43, -383, -37, 116, 41, -59, -93, 134, 281, -126, -89, 141, 76, 29,
+                86, -65, -52, -74, 105, 45, -97, -43, -49, -46, 159, -37, 231, 21, -43, -57, -68, -148, 101, 120, -54,
+                -269, 144, -12, 66, 0, 4, 124, -60, -26, -62, 33, 70, -118, 38, -103, -37, 102, 79, 77, -159, 45, -5,
+                177, 35, -1, -5, 31, -68, -13, -156, -350, 169, 198, -86, -115, -35, 121, 98, 729, 246, 124, -82, -159,
+                -638, -137, -84, 250, -249, 90, -93, -170, -48, -58, 277, 5, -135, 471, 217, -288, -148, -55, -68, -218,
+                -151, 155, -97, 66, 44, 186, 14,
+            ],
+            [
+                118, -344, 85, 73, -42, 234, -55, -65, -81, -27, -77, 142, 80, 169, -133, -69, -163, -42, 79, 235, 121,
+                -167, -55, -5, 88, 186, 76, -33, 56, -23, -312, -35, 157, -21, -135, -136, 88, -27, 16, 61, -239, -142,
+                -13, -21, 417, 29, -60, 33, 148, -6, 100, 59, -189, 55, 345, -509, -84, 30, -181, 153, -529, 297, 131,
+                185, 92, 185, -93, 301, -190, -340, -2, 49, 45, 227, 167, 72, -320, -125, 40, -103, -234, -138, 85, -90,
+                -27, 115, 217, 77, 86, -68, 305, -63, -221, -117, -144, 226, 64, 134, 162, -60, -9, -29, -47, -213, 39,
+                -23, -126, -91, 97, 74, -95, 129, 222, -42, -160, -10, 113, 78, -11, -187, 49, -75, -164, 81, 73, 120,
+                -122, 42, -148, 203, 13, -28, 12, 25, 31, -105, -60, -21, -113, 111, -58, -104, 107, 141, -3, -138, 401,
+                345, -110, -162, 10, -340, -8, 56, -81, -21, 111, 62, -57, -60, 10, -52, 17, 10, -112, 284, -121, -34,
+                -18, -136, -87, -91, 51, 203, 89, -8, -75, 213, -73, 109, 151, 124, -237, -211, 186, -29, -29, -19, 113,
+                -261, 77, -36, -175, 295, 42, -102, 48, 16, -13, -108, -186, -85, 25, 85, -72, -203, 226, 213, -119,
+                105, -112, -72, 270, 139, -119, -89, 1, 119, -151, -85, -178, -176, 139, 333, 263, -27, 119, -281, -131,
+                -49, 88, 21, -16, 54, -70, -57, 18, -38, 86, 27, 69, -191, 241, 47, -93, -181, 268, -157, 52, -154, 156,
+                96, -12, -57, -87, 9, -117, 121, -76, 268, 26, -41, -155, -22, 80, 102, -131, 55, 240, -210, 47, -181,
+                53, -46, 33, -45, 184, -31, -24, -121, 103, -174, 208, -41, 72, -95, -134, 63, -105, -223, 26, -24, 304,
+                128, -143, 41, -216, 305, 393, -324, -277, 46, -134, 211, 249, 4, -87, -44, 306, -42, -148, -235, 43,
+                -6, 73, 311, -44, -267, 180, -287, -275, -192, -187, 127, 98, 510, -247, 169, 115, 222, 244, 148, 76,
+                16, -638, -180, -50, 28, -51, 192, 54, 194, -198, -166, -171, 144, -161, 11, 9, 162, 39, -29, 282, -48,
+                78, -35, 56, -228, -20, -82, 136, -33, -58, 109, 318, 159, -491, -137, -123, -32, -126, -126, 123, 315,
+                -54, 26, -40, 114, 211, 221, -128, -365, 139, -149, -37, -72, -234, -113, 221, -55, 167, 126, 208, -53,
+                76, -87, 97, 12, -171, -79, 70, 114, -97, -56, -38, -11, 10, 12, 58, 102, -117, -121, 83, -20, 101, -83,
+                80, -173, 91, 324, -15, 9, -78, -234, 252, 68, 75, 91, -135, 55, -511, 109, 224, 25, -10, 24, -241, 126,
+                -121, -24, -107, 155, 134, -71, -171, -29, 131, -40, -189, -123, -100, -8, 151, 524, -238, -14, -31,
+                128, 27, -152, 81, 89, -69, -69, -183, 37, 70, 131, 228, -100, 67, -249, -201, -109, 106, 42, 84, 144,
+                176, -239, -170, -93, 533, -60, 72, -146, -78, -54, 82, -162, 210, 283, -4, -175, 183, -414, -144, 18,
+                -326, 47, 22, 117, 139, 131, -50, 139, 28, -67, -6, 57, -11, -87, 140, -79, 136, -260, -69, 144, -13, 4,
+                -151, -31, -175, 80, -160, 211, -67, 295, 44, 89, -17, -88, 79, 0, -174, 68, 347, 255, 71, -45, -197,
+                -214, 86, -300, 46, -327, -53, 112, -117, 38, 197, 107, 176, 16, 29, 12, -251, 26, -47, 43, 245, -63,
+                47, -78, 80, -427, -53, 251, -120, 92, 111, -12, 13, -116, 8, 26, -9, 76, 56, 39, 40, -49, -229, 79,
+                121, -35, -149, 265, -192, 30, -12, -25, 222, -13, -246, 84, 247, 48, -163, -176, 129, -38, -17, -158,
+                -35, 111, -5, 17, 91, -23, -99, 140, 65, -32, -16, -123, -27, 157, 288, -6, -536, 30, 41, 57, -214,
+                -121, 19, 20, -90, -222, -14, 625, -17, 82, -55, 97, -48, -32, -39, 15, 171, -33, -158, -12, 118, 100,
+                -9, -174, -99, 169, 168, -183, 122, -119, 39, -94, -106, 58, 77, -55, -77, -70, 23, 154, 236, 43, 78,
+                -182, -16, -59, -159, 61, -78, 12, -54, -2, -14, 128, 40, -29, 170, -41, -1, 96, -96, 92, -83, -134,
+                309, 35, 153, -150, -39, -87, -141, -76, -20, -202, -92, -247, -131, 352, 246, 97, 88, 37, -59, 35, -74,
+                97, 124, -244, -38, 42, -58, 16, -39, -6, 193, -107, -102, 70, -13, -183, -53, 27, 87, 169, -53, -44,
+                -561, 229, 315, -21, 108, 29, -692, -65, -187, 639, -45, 162, 193, -1, -160, -94, 275, 44, 88, -278,
+                116, 12, -80, -121, -89, -23, -80, 172, 275, -51, -13, 31, 33, -139, 62, -57, 56, 31, 205, 72, 48, 88,
+                67, -40, -316, -122, 290, 66, 203, -101, 282, -16, -232, -489, 381, 63, 9, -22, 24, -258, -54, -139,
+                225, -42, 14, -391, -61, 91, 92, 75, -106, -92, -458, 152, 411, 24, 95, -24, 26, -382, -114, 88, -60,
+                209, 180, 57, 153, 127, -11, -211, -37, -75, -102, 158, 104, 4, 13, -54, 35, -1, -179, 80, 7, -246, -25,
+                149, 50, -152, 119, 101, -272, 1, 85, -147, 139, 77, -44, 164, -244, -5, -140, 180, 458, 66, -73, -239,
+                87, -39, -332, -280, 347, 271, -17, -34, 414, 295, -118, -47, -156, -171, 26, -240, 12, 80, -107, 33,
+                -113, 11, -25, 111, 22, -25, -69, -82, -152, 117, 217, -25, 317, 160, 124, -53, -126, -252, -90, -76,
+                -39, 86, 15, 158, -169, -30, -126, 108, -18, -68, -171, -196, 8, 633, -171, -13, -261, -26, 184, -513,
+                338, 6, 121, 153, 101, 39, 361, 44, 88, 16, -446, -199, 58, 34, 86, -214, 80, 70, -26, -85, -167, -78,
+                288, 17, -113, 145, -136, 47, 93, 62, -194, 211, 219, -212, -32, -143, -88, 46, 197, 155, 16, -84, -296,
+                56, -43, 132, 224, 111, -413, 174, -352, 171, 126, -5, -96, -10, 191, -7, -112, -83, -77, 103, 79, 24,
+                -162, 137, -29, -73, 27, -94, -94, 27, 55, -76, 189, -30, -313, 147, -68, -120, 45, -167, 445, 33, -97,
+                23, 135, 104, -27, -15, 34, -154, -59, -225, 214, 99, 171, -35, -143, -20, -82, 129, 113, 120, -92,
+                -186, -62, 64, 405, -68, 140, -444, 23, 110, -194, 32, -136, -198, 157, 185, -78, 157, 51, -134, -125,
+                -34, -85, 42, -67, 166, -16, 122, 105, 154, -193, -145, 164, 123, -249, 44, 49, 172, -150, -20, 45, -8,
+                -10, -75, 59, 74, 9, -205, 253, -63, -176, 53, 203, -33, -24, -188, -140, -200, 238, 146, 232, -206,
+                423, 60, -432, 343, -458, 41, -45, -333, 374, 241, -55, -422, 152, 90, -73, -431, -21, 254, 107, 109,
+                350, -292, -241, -10, -188, 300, -64, -189, 243, 152, -273, -8, 32, 161, 25, -204, 454, -185, 104, -72,
+                -246, -67, 35, -24, 124, 149, -11, 95, -189, 295, 173, -155, -59, -146, -182, -131, 215, -13, -110, 43,
+                -58, 238, -17, -206, 174, -66, 28, 127, -83, 47, 209, 49, -29, 85, -108, -90, 37, -150, 10, -381, 230,
+                -155, 315, 64, 493, -573, -52, 316, -1000, -93, 398, 126, 311, -4, -494, -335, 233, 191, -112, 331, 555,
+                -367, -318, 172, 199, 421, -286, 25, -228, 18, -139, -474, 155, -71, 365, 387, 95, -314, 163, 21, 195,
+                -54, 155, -495, -43, 62, 463, 194, 136, -199, -202, -92, -140, -158, 597, -404, -319, -127, -268, 12,
+                29, 483, -13, 319, 332, 31, -397, -35, -232, -2, -377, -196, 169, 67, -121, 85, 223, 153,
+            ],
+        ]
+    ),
+];
+
+/**
+ * Creates a stage of the bundled regressor from its compact form. The trees
+ * are complete, with their nodes in breadth-first order, and are given by
+ * their split nodes as [angle1, angle2, radius1, radius2, thresh]. The linear
+ * models have a low rank, and are given by a basis of the shape increments,
+ * one row per landmark coordinate, and by the weights of each basis vector.
+ * @param stage The stage number, from 1.
+ * @param maxDepth The depth of the trees.
+ * @param radius The maximum radius of the pixel pairs, relative to the face size.
+ * @param numFeats The number of pixel pairs tried at each split.
+ * @param splits The split nodes of the trees of each landmark.
+ * @param basis The basis, for all x coordinates followed by all y coordinates.
+ * @param weights The weights of each basis vector, one per binary feature.
+ * @return The stage.
+ */
+function createStage(
+    stage: number,
+    maxDepth: number,
+    radius: number,
+    numFeats: number,
+    splits: number[][][][],
+    basis: number[][],
+    weights: number[][]
+): RegressorStageData {
+    const numNodes = (1 << maxDepth) - 1;
+    const numSplits = (1 << (maxDepth - 1)) - 1;
+
+    const landmarks = splits.map((trees, landmark) =>
+        trees.map((nodes) => {
+            const tree: RegressorTreeData = {
+                max_depth: maxDepth,
+                max_numnodes: numNodes,
+                nodes: [],
+                landmark_id: landmark,
+                num_leafnodes: numSplits + 1,
+                num_nodes: numNodes,
+                max_numfeats: numFeats,
+                max_radio_radius: radius,
+                id_leafnodes: [],
+            };
+            for (let i = 0; i < numNodes; i++) {
+                if (i < numSplits) {
+                    tree.nodes.push({
+                        feats: nodes[i].slice(0, 4),
+                        thresh: nodes[i][4],
+                        cnodes: [2 * i + 1, 2 * i + 2],
+                        is_leafnode: 0,
+                    });
+                } else {
+                    tree.nodes.push({ feats: [0, 0, 0, 0], thresh: 0, cnodes: [0, 0], is_leafnode: 1 });
+                    tree.id_leafnodes.push(i);
+                }
+            }
+            return tree;
+        })
+    );
+
+    const models = basis.map((row) => {
+        const data: number[] = new Array(weights[0].length).fill(0);
+        for (let c = 0; c < row.length; c++) {
+            for (let f = 0; f < data.length; f++) {
+                data[f] += row[c] * weights[c][f];
+            }
+        }
+        return { nr_feature: data.length, data: data };
+    });
+
+    return {
+        max_numtrees: splits[0].length,
+        num_landmark: splits.length,
+        max_depth: maxDepth,
+        stages: stage,
+        landmarks: landmarks,
+        models: models,
+    };
+}
+
+/**
+ * Interface for a node of a LBF tree. Split nodes compare the intensity
+ * difference of two pixels, described in polar coordinates around the
+ * landmark by `feats` as [angle1, angle2, radius1, radius2], against `thresh`.
+ */
+export interface RegressorNodeData {
+    feats: number[];
+    thresh: number;
+    cnodes: number[];
+    is_leafnode: number;
+}
+
+/**
+ * Interface for a LBF tree.
+ */
+export interface RegressorTreeData {
+    max_depth: number;
+    max_numnodes: number;
+    nodes: RegressorNodeData[];
+    landmark_id: number;
+    num_leafnodes: number;
+    num_nodes: number;
+    max_numfeats: number;
+    max_radio_radius: number;
+    id_leafnodes: number[];
+}
+
+/**
+ * Interface for the linear model that regresses one landmark coordinate.
+ */
+export interface RegressorModelData {
+    nr_feature: number;
+    data: number[];
+}
+
+/**
+ * Interface for a LBF regressor stage. `landmarks` holds `max_numtrees` trees
+ * for each of the `num_landmark` landmarks and `models` holds the linear
+ * models for all x coordinates followed by all y coordinates.
+ */
+export interface RegressorStageData {
+    max_numtrees: number;
+    num_landmark: number;
+    max_depth: number;
+    stages: number;
+    landmarks: RegressorTreeData[][];
+    models: RegressorModelData[];
+}
@@ -1,6 +1,6 @@
 import { TrackerTask } from "./trackers/TrackerTask";
 import { Canvas } from "./utils/Canvas";
-import { Tracker } from "./trackers/Tracker";
+import { TrackerLike } from "./trackers/Tracker";
 
 interface TrackingOptions {
     camera?: boolean;
@@ -83,7 +83,11 @@ export function one(selector: string | HTMLElement, opt_element?: Document | Ele
  *     element.
  * @param {object} opt_options Optional configuration to the tracker.
  */
-export function track(element: string | HTMLElement, tracker: Tracker, opt_options?: TrackingOptions): any {
+export function track<T>(
+    element: string | HTMLElement,
+    tracker: TrackerLike<T>,
+    opt_options?: TrackingOptions
+): TrackerTask<T> {
     const resolvedElement = one(element);
     if (!resolvedElement) {
         throw new Error("Element not found, try a different element or selector.");
@@ -117,7 +121,7 @@ export function track(element: string | HTMLElement, tracker: Tracker, opt_optio
  *     element.
  * @return {TrackerTask}
  */
-function trackCanvas_(element: HTMLCanvasElement, tracker: Tracker): any {
+function trackCanvas_<T>(element: HTMLCanvasElement, tracker: TrackerLike<T>): TrackerTask<T> {
     const task = new TrackerTask(tracker);
     task.on("run", () => {
         trackCanvasInternal_(element, tracker);
@@ -133,12 +137,19 @@ function trackCanvas_(element: HTMLCanvasElement, tracker: Tracker): any {
  * @param {Tracker} tracker The tracker instance used to track the
  *     element.
  */
-function trackCanvasInternal_(element: HTMLCanvasElement, tracker: Tracker): void {
+function trackCanvasInternal_<T>(element: HTMLCanvasElement, tracker: TrackerLike<T>): void {
     const width = element.width;
     const height = element.height;
     const context = element.getContext("2d")!;
     const imageData = context.getImageData(0, 0, width, height);
-    tracker.track(imageData.data, width, height);
+    try {
+        tracker.track(imageData.data, width, height);
+    } catch (error) {
+        // Errors are emitted for the task to propagate them to its listeners.
+        if (!tracker.emit("error", error as Error)) {
+            throw error;
+        }
+    }
 }
 
 /**
@@ -149,7 +160,7 @@ function trackCanvasInternal_(element: HTMLCanvasElement, tracker: Tracker): voi
  * @param {Tracker} tracker The tracker instance used to track the
  *     element.
  */
-function trackImg_(element: HTMLImageElement, tracker: Tracker): any {
+function trackImg_<T>(element: HTMLImageElement, tracker: TrackerLike<T>): TrackerTask<T> {
     const width = element.naturalWidth;
     const height = element.naturalHeight;
     const canvas = document.createElement("canvas");
@@ -176,7 +187,7 @@ function trackImg_(element: HTMLImageElement, tracker: Tracker): any {
  *     element.
  * @private
  */
-function trackVideo_(element: HTMLVideoElement, tracker: Tracker): any {
+function trackVideo_<T>(element: HTMLVideoElement, tracker: TrackerLike<T>): TrackerTask<T> {
     const canvas = document.createElement("canvas");
     const context = canvas.getContext("2d")!;
     let width: number;
@@ -196,6 +207,7 @@ function trackVideo_(element: HTMLVideoElement, tracker: Tracker): any {
     // it seems all handled in the tracking.TrackerTask..
     // so in short, remove the tracking.TrackerTask from here
     // if the user want to use it, it can create it himself
+    const task = new TrackerTask(tracker);
     let requestId: number;
     const requestAnimationFrame_ = function (): void {
         requestId = window.requestAnimationFrame(function (): void {
@@ -208,11 +220,13 @@ function trackVideo_(element: HTMLVideoElement, tracker: Tracker): any {
                 } catch (err) {}
                 trackCanvasInternal_(canvas, tracker);
             }
-            requestAnimationFrame_();
+            // An error stops the task while tracking the frame.
+            if (task.inRunning()) {
+                requestAnimationFrame_();
+            }
         });
     };
 
-    const task = new TrackerTask(tracker);
     task.on("stop", function (): void {
         window.cancelAnimationFrame(requestId);
     });
@@ -0,0 +1,199 @@
+import { Rect } from "./Rect";
+
+/**
+ * Blobs utility class to describe blobs of pixels, e.g. the connected
+ * regions of a color found by `ColorTracker`. A blob is described by its
+ * image moments, from which its centroid, orientation and eccentricity are
+ * derived. The raw moments are sums over the pixels, so two blobs are merged
+ * by adding them.
+ */
+export class Blobs {
+    /**
+     * Describes a blob from its raw moments and the extreme coordinates of
+     * its pixels.
+     * @param moments The raw moments, whose central moments are computed.
+     * @param minx The leftmost pixel column.
+     * @param miny The topmost pixel row.
+     * @param maxx The rightmost pixel column.
+     * @param maxy The bottommost pixel row.
+     * @return The blob, with an empty `color`.
+     */
+    static fromMoments(moments: BlobMoments, minx: number, miny: number, maxx: number, maxy: number): Blob {
+        return this.describe_(
+            {
+                width: maxx - minx,
+                height: maxy - miny,
+                x: minx,
+                y: miny,
+                total: moments.m00,
+                color: "",
+            },
+            moments
+        );
+    }
+
+    /**
+     * Computes the convex hull of points with Andrew's monotone chain
+     * algorithm.
+     * @param points The points, e.g. [x0,y0,x1,y1,...].
+     * @return The hull vertices in clockwise order on screen, e.g.
+     *     [x0,y0,x1,y1,...], without collinear points.
+     */
+    static convexHull(points: ArrayLike<number>): number[] {
+        const sorted: number[][] = [];
+        for (let i = 0; i + 1 < points.length; i += 2) {
+            sorted.push([points[i], points[i + 1]]);
+        }
+        sorted.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+        if (sorted.length < 3) {
+            const hull: number[] = [];
+            sorted.forEach((point, i) => {
+                if (!i || point[0] !== sorted[i - 1][0] || point[1] !== sorted[i - 1][1]) {
+                    hull.push(point[0], point[1]);
+                }
+            });
+            return hull;
+        }
+
+        const cross = (o: number[], a: number[], b: number[]) =>
+            (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+        const lower: number[][] = [];
+        const upper: number[][] = [];
+
+        for (let i = 0; i < sorted.length; i++) {
+            while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], sorted[i]) <= 0) {
+                lower.pop();
+            }
+            lower.push(sorted[i]);
+        }
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) {
+                upper.pop();
+            }
+            upper.push(sorted[i]);
+        }
+
+        lower.pop();
+        upper.pop();
+
+        const hull: number[] = [];
+        lower.concat(upper).forEach((point) => hull.push(point[0], point[1]));
+        return hull;
+    }
+
+    /**
+     * Merges two blobs into the blob of their union. The convex hull is
+     * merged when both blobs have one.
+     * @param blob1 The first blob.
+     * @param blob2 The second blob.
+     * @return The merged blob, with the color of the first blob.
+     */
+    static merge(blob1: Blob, blob2: Blob): Blob {
+        const x1 = Math.min(blob1.x, blob2.x);
+        const y1 = Math.min(blob1.y, blob2.y);
+        const x2 = Math.max(blob1.x + blob1.width, blob2.x + blob2.width);
+        const y2 = Math.max(blob1.y + blob1.height, blob2.y + blob2.height);
+        const m1 = blob1.moments;
+        const m2 = blob2.moments;
+
+        const blob = this.describe_(
+            {
+                width: x2 - x1,
+                height: y2 - y1,
+                x: x1,
+                y: y1,
+                total: blob1.total + blob2.total,
+                color: blob1.color,
+            },
+            {
+                m00: m1.m00 + m2.m00,
+                m10: m1.m10 + m2.m10,
+                m01: m1.m01 + m2.m01,
+                m20: m1.m20 + m2.m20,
+                m11: m1.m11 + m2.m11,
+                m02: m1.m02 + m2.m02,
+                mu20: 0,
+                mu11: 0,
+                mu02: 0,
+            }
+        );
+
+        if (blob1.hull && blob2.hull) {
+            blob.hull = this.convexHull(blob1.hull.concat(blob2.hull));
+        }
+
+        return blob;
+    }
+
+    /**
+     * Completes a blob from its raw moments: the central moments, centroid,
+     * orientation and eccentricity.
+     * @param rect The bounding box of the blob.
+     * @param moments The raw moments, whose central moments are computed.
+     * @return The blob.
+     */
+    private static describe_(rect: Rect, moments: BlobMoments): Blob {
+        const m00 = moments.m00 || 1;
+        const cx = moments.m10 / m00;
+        const cy = moments.m01 / m00;
+
+        moments.mu20 = Math.max(0, moments.m20 - cx * moments.m10);
+        moments.mu11 = moments.m11 - cx * moments.m01;
+        moments.mu02 = Math.max(0, moments.m02 - cy * moments.m01);
+
+        // The eigenvalues of the covariance matrix are the variances along
+        // the major and minor axes of the blob.
+        const a = moments.mu20 / m00;
+        const b = moments.mu11 / m00;
+        const c = moments.mu02 / m00;
+        const root = Math.sqrt(((a - c) * (a - c)) / 4 + b * b);
+        const major = (a + c) / 2 + root;
+        const minor = Math.max(0, (a + c) / 2 - root);
+
+        return {
+            width: rect.width,
+            height: rect.height,
+            x: rect.x,
+            y: rect.y,
+            total: rect.total,
+            color: rect.color,
+            centroid: [cx, cy],
+            moments: moments,
+            angle: 0.5 * Math.atan2(2 * b, a - c),
+            eccentricity: major > 0 ? Math.sqrt(1 - minor / major) : 0,
+        };
+    }
+}
+
+/**
+ * Interface for a blob of pixels. `total` is its number of pixels,
+ * `centroid` its [x, y] center of mass, `angle` the orientation of its major
+ * axis in radians, clockwise on screen from the x axis, and `eccentricity`
+ * its elongation, from 0 for a disc to 1 for a line. `hull` holds its convex
+ * hull, e.g. [x0,y0,x1,y1,...], when it is computed.
+ */
+export interface Blob extends Rect {
+    centroid: number[];
+    moments: BlobMoments;
+    angle: number;
+    eccentricity: number;
+    hull?: number[];
+}
+
+/**
+ * Interface for the image moments of a blob: the raw moments `mpq`, the sums
+ * of x^p * y^q over its pixels, and the central moments `mupq`, about its
+ * centroid.
+ */
+export interface BlobMoments {
+    m00: number;
+    m10: number;
+    m01: number;
+    m20: number;
+    m11: number;
+    m02: number;
+    mu20: number;
+    mu11: number;
+    mu02: number;
+}
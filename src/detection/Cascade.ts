@@ -0,0 +1,204 @@
+/**
+ * Cascade utility class to serialize HAAR cascade classifiers into a compact,
+ * versioned binary format and back into the flat `Float64Array` layout
+ * consumed by `ViolaJones.detect`:
+ *
+ * ```
+ *  [minWidth, minHeight,
+ *    stageThreshold, nodeLength,
+ *      tilted, rectsLength,
+ *        rectLeft, rectTop, rectWidth, rectHeight, rectWeight, ...
+ *      nodeThreshold, nodeLeft, nodeRight, ...
+ *    ...]
+ * ```
+ *
+ * The binary format is little-endian and mirrors that layout:
+ *
+ * ```
+ *  Header    uint8[4]  magic "HAAR"
+ *            uint16    version
+ *            uint16    minWidth
+ *            uint16    minHeight
+ *            uint16    stage count
+ *  Stage     float32   stage threshold
+ *            uint16    node count
+ *  Node      uint8     tilted
+ *            uint8     rect count
+ *  Rect      uint8     left, top, width, height
+ *            float32   weight
+ *  Node      float32   node threshold, left value, right value
+ * ```
+ *
+ * Thresholds and weights are stored as float32, which is the precision
+ * OpenCV trains them with, so a decoded cascade equals the original one
+ * rounded with `Math.fround`.
+ */
+export class Cascade {
+    /**
+     * Holds the magic bytes that start every binary cascade.
+     */
+    public static readonly MAGIC: string = "HAAR";
+
+    /**
+     * Holds the version of the binary format written by `encode`.
+     */
+    public static readonly VERSION: number = 1;
+
+    /**
+     * Holds the size in bytes of the binary header.
+     */
+    private static readonly HEADER_SIZE: number = 12;
+
+    /**
+     * Encodes a HAAR cascade into the binary format.
+     * @param data The HAAR cascade data in the `ViolaJones` layout.
+     * @return The binary cascade.
+     */
+    public static encode(data: Float64Array): ArrayBuffer {
+        const size = this.getEncodedSize_(data);
+        const buffer = new ArrayBuffer(size);
+        const view = new DataView(buffer);
+        let offset = 0;
+
+        for (let i = 0; i < 4; i++) {
+            view.setUint8(offset++, this.MAGIC.charCodeAt(i));
+        }
+        view.setUint16(offset, this.VERSION, true);
+        view.setUint16(offset + 2, this.toUint_(data[0], 0xffff, "window width"), true);
+        view.setUint16(offset + 4, this.toUint_(data[1], 0xffff, "window height"), true);
+        const stageCountOffset = offset + 6;
+        offset = this.HEADER_SIZE;
+
+        let stageCount = 0;
+        for (let w = 2; w < data.length; ) {
+            view.setFloat32(offset, data[w++], true);
+            const nodeLength = data[w++];
+            view.setUint16(offset + 4, this.toUint_(nodeLength, 0xffff, "node count"), true);
+            offset += 6;
+
+            for (let n = 0; n < nodeLength; n++) {
+                view.setUint8(offset++, data[w++] ? 1 : 0);
+                const rectsLength = data[w++];
+                view.setUint8(offset++, this.toUint_(rectsLength, 0xff, "rect count"));
+
+                for (let r = 0; r < rectsLength; r++) {
+                    for (let k = 0; k < 4; k++) {
+                        view.setUint8(offset++, this.toUint_(data[w++], 0xff, "rect coordinate"));
+                    }
+                    view.setFloat32(offset, data[w++], true);
+                    offset += 4;
+                }
+
+                for (let k = 0; k < 3; k++) {
+                    view.setFloat32(offset, data[w++], true);
+                    offset += 4;
+                }
+            }
+            stageCount++;
+        }
+        view.setUint16(stageCountOffset, this.toUint_(stageCount, 0xffff, "stage count"), true);
+
+        return buffer;
+    }
+
+    /**
+     * Decodes a binary cascade into the HAAR cascade data layout consumed by
+     * `ViolaJones.detect`.
+     * @param buffer The binary cascade.
+     * @return The HAAR cascade data.
+     */
+    public static decode(buffer: ArrayBuffer): Float64Array {
+        const view = new DataView(buffer);
+
+        if (buffer.byteLength < this.HEADER_SIZE) {
+            throw new Error("Invalid cascade: the buffer is too small to hold a header.");
+        }
+        for (let i = 0; i < 4; i++) {
+            if (view.getUint8(i) !== this.MAGIC.charCodeAt(i)) {
+                throw new Error("Invalid cascade: magic bytes do not match.");
+            }
+        }
+        const version = view.getUint16(4, true);
+        if (version !== this.VERSION) {
+            throw new Error("Cascade version " + version + " not supported, expected " + this.VERSION + ".");
+        }
+
+        const values: number[] = [view.getUint16(6, true), view.getUint16(8, true)];
+        const stageCount = view.getUint16(10, true);
+        let offset = this.HEADER_SIZE;
+
+        try {
+            for (let s = 0; s < stageCount; s++) {
+                values.push(view.getFloat32(offset, true));
+                const nodeLength = view.getUint16(offset + 4, true);
+                values.push(nodeLength);
+                offset += 6;
+
+                for (let n = 0; n < nodeLength; n++) {
+                    values.push(view.getUint8(offset++));
+                    const rectsLength = view.getUint8(offset++);
+                    values.push(rectsLength);
+
+                    for (let r = 0; r < rectsLength; r++) {
+                        for (let k = 0; k < 4; k++) {
+                            values.push(view.getUint8(offset++));
+                        }
+                        values.push(view.getFloat32(offset, true));
+                        offset += 4;
+                    }
+
+                    for (let k = 0; k < 3; k++) {
+                        values.push(view.getFloat32(offset, true));
+                        offset += 4;
+                    }
+                }
+            }
+        } catch (e) {
+            throw new Error("Invalid cascade: the buffer is truncated.");
+        }
+
+        return new Float64Array(values);
+    }
+
+    /**
+     * Computes the size in bytes of the binary cascade.
+     * @param data The HAAR cascade data.
+     * @return The size in bytes.
+     */
+    private static getEncodedSize_(data: Float64Array): number {
+        if (data.length < 2) {
+            throw new Error("Invalid cascade: expected at least the window width and height.");
+        }
+
+        let size = this.HEADER_SIZE;
+
+        for (let w = 2; w < data.length; ) {
+            w++;
+            let nodeLength = data[w++];
+            size += 6;
+
+            while (nodeLength--) {
+                w++;
+                const rectsLength = data[w++];
+                size += 2 + rectsLength * 8 + 12;
+                w += rectsLength * 5 + 3;
+            }
+        }
+
+        return size;
+    }
+
+    /**
+     * Checks that a value fits into an unsigned integer field.
+     * @param value The value to be stored.
+     * @param max The maximum value of the field.
+     * @param name The field name used in the error message.
+     * @return The value.
+     */
+    private static toUint_(value: number, max: number, name: string): number {
+        if (value !== Math.floor(value) || value < 0 || value > max) {
+            throw new Error("Cascade " + name + " " + value + " does not fit the binary format.");
+        }
+        return value;
+    }
+}
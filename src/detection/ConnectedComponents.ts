@@ -0,0 +1,260 @@
+import { Blob, BlobMoments, Blobs } from "./Blob";
+import { DisjointSet } from "../utils/DisjointSet";
+
+/**
+ * ConnectedComponents labels the 8-connected regions of a mask with the
+ * two-pass algorithm. The first pass gives each pixel the label of one of
+ * its already labeled neighbours, or a new label, and records in a
+ * `DisjointSet` the labels that meet. The second pass replaces each label by
+ * the one of its set and accumulates the statistics of each region.
+ *
+ * Neighbouring pixels are connected when they have the same non zero mask
+ * value, so a single mask can hold several classes, e.g. one per color. The
+ * buffers are kept between calls, so labeling frames of the same size does
+ * not allocate image sized arrays:
+ *
+ * ```
+ * const components = new ConnectedComponents();
+ * const blobs = components.label(mask, width, height)[1];
+ * ```
+ */
+export class ConnectedComponents {
+    /**
+     * Holds the final labels of each region, indexed by provisional label.
+     */
+    private final_: Int32Array = new Int32Array(0);
+
+    /**
+     * Holds the label of each pixel, provisional during the first pass.
+     */
+    private labels_: Int32Array = new Int32Array(0);
+
+    /**
+     * Holds the label equivalences of the first pass.
+     */
+    private sets_: DisjointSet = new DisjointSet(0);
+
+    /**
+     * Holds the size of the last labeled mask.
+     */
+    private size_: number = 0;
+
+    /**
+     * Gets the labels of the last labeled mask, from 1 in the order of the
+     * returned blobs, and 0 for the background.
+     * @return The label of each pixel in a linear array.
+     */
+    public getLabels(): Int32Array {
+        return this.labels_.subarray(0, this.size_);
+    }
+
+    /**
+     * Labels the connected regions of a mask and describes them as blobs.
+     * @param mask The mask value of each pixel in a linear array, 0 for the
+     *     background.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @param optHull Optional flag to compute the convex hull of the blobs.
+     * @return The blobs of each mask value, indexed by value, e.g. the
+     *     regions of value 1 are described by `blobs[1]`.
+     */
+    public label(mask: ArrayLike<number>, width: number, height: number, optHull?: boolean): Blob[][] {
+        const size = width * height;
+        if (mask.length < size) {
+            throw new Error("Mask size does not match, try `components.label(mask, width, height)`.");
+        }
+        if (this.labels_.length < size) {
+            this.labels_ = new Int32Array(size);
+            this.final_ = new Int32Array(size + 1);
+            this.sets_ = new DisjointSet(size + 1);
+        }
+        this.size_ = size;
+
+        const count = this.resolve_(this.firstPass_(mask, width, height));
+        return this.secondPass_(mask, width, height, count, optHull);
+    }
+
+    /**
+     * Gives each pixel a provisional label, and unites the labels of the
+     * neighbouring pixels with the same mask value.
+     * @param mask The mask value of each pixel in a linear array.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @return The number of provisional labels plus one.
+     */
+    private firstPass_(mask: ArrayLike<number>, width: number, height: number): number {
+        const labels = this.labels_;
+        const sets = this.sets_;
+        let next = 1;
+
+        for (let y = 0, i = 0; y < height; y++) {
+            for (let x = 0; x < width; x++, i++) {
+                const value = mask[i];
+                if (!value) {
+                    labels[i] = 0;
+                    continue;
+                }
+
+                // The west, north-west, north and north-east neighbours are
+                // already labeled.
+                let label = x > 0 && mask[i - 1] === value ? labels[i - 1] : 0;
+                if (y > 0) {
+                    const up = i - width;
+                    if (mask[up] === value) {
+                        label = this.join_(label, labels[up]);
+                    } else {
+                        if (x > 0 && mask[up - 1] === value) {
+                            label = this.join_(label, labels[up - 1]);
+                        }
+                        if (x < width - 1 && mask[up + 1] === value) {
+                            label = this.join_(label, labels[up + 1]);
+                        }
+                    }
+                }
+
+                if (!label) {
+                    label = next++;
+                    sets.makeSet(label);
+                }
+                labels[i] = label;
+            }
+        }
+
+        return next;
+    }
+
+    /**
+     * Unites two provisional labels.
+     * @param label The current label, or 0.
+     * @param other The label of a connected neighbour.
+     * @return The label to keep.
+     */
+    private join_(label: number, other: number): number {
+        if (label && label !== other) {
+            this.sets_.union(other, label);
+            return label;
+        }
+        return other;
+    }
+
+    /**
+     * Numbers the sets of provisional labels from 1.
+     * @param next The number of provisional labels plus one.
+     * @return The number of regions.
+     */
+    private resolve_(next: number): number {
+        const final = this.final_;
+        let count = 0;
+
+        final.fill(0, 0, next);
+        for (let l = 1; l < next; l++) {
+            const root = this.sets_.find(l);
+            if (!final[root]) {
+                final[root] = ++count;
+            }
+            final[l] = final[root];
+        }
+
+        return count;
+    }
+
+    /**
+     * Replaces the provisional labels by the final ones and describes the
+     * regions.
+     * @param mask The mask value of each pixel in a linear array.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @param count The number of regions.
+     * @param optHull Optional flag to compute the convex hull of the blobs.
+     * @return The blobs of each mask value, indexed by value.
+     */
+    private secondPass_(
+        mask: ArrayLike<number>,
+        width: number,
+        height: number,
+        count: number,
+        optHull?: boolean
+    ): Blob[][] {
+        const labels = this.labels_;
+        const final = this.final_;
+        const values = new Int32Array(count + 1);
+        const sums = new Float64Array((count + 1) * 6);
+        const minx = new Int32Array(count + 1).fill(width);
+        const miny = new Int32Array(count + 1).fill(height);
+        const maxx = new Int32Array(count + 1).fill(-1);
+        const maxy = new Int32Array(count + 1).fill(-1);
+        const rows: number[][] = [];
+
+        for (let y = 0, i = 0; y < height; y++) {
+            for (let x = 0; x < width; x++, i++) {
+                if (!labels[i]) {
+                    continue;
+                }
+                const label = (labels[i] = final[labels[i]]);
+                const s = label * 6;
+
+                sums[s]++;
+                sums[s + 1] += x;
+                sums[s + 2] += y;
+                sums[s + 3] += x * x;
+                sums[s + 4] += x * y;
+                sums[s + 5] += y * y;
+
+                if (maxy[label] < 0) {
+                    values[label] = mask[i];
+                    miny[label] = y;
+                    rows[label] = [];
+                }
+                if (x < minx[label]) {
+                    minx[label] = x;
+                }
+                if (x > maxx[label]) {
+                    maxx[label] = x;
+                }
+
+                // Pixels are visited row by row from the left, so the first
+                // and last pixels of a region in a row are its extremes.
+                if (optHull) {
+                    const extremes = rows[label];
+                    if (maxy[label] !== y) {
+                        extremes.push(x, y, x, y);
+                    } else {
+                        extremes[extremes.length - 2] = x;
+                    }
+                }
+                maxy[label] = y;
+            }
+        }
+
+        let maxValue = 0;
+        for (let l = 1; l <= count; l++) {
+            maxValue = Math.max(maxValue, values[l]);
+        }
+        const blobs: Blob[][] = [];
+        for (let v = 0; v <= maxValue; v++) {
+            blobs.push([]);
+        }
+
+        for (let l = 1; l <= count; l++) {
+            const s = l * 6;
+            const moments: BlobMoments = {
+                m00: sums[s],
+                m10: sums[s + 1],
+                m01: sums[s + 2],
+                m20: sums[s + 3],
+                m11: sums[s + 4],
+                m02: sums[s + 5],
+                mu20: 0,
+                mu11: 0,
+                mu02: 0,
+            };
+            const blob = Blobs.fromMoments(moments, minx[l], miny[l], maxx[l], maxy[l]);
+            if (optHull) {
+                blob.hull = Blobs.convexHull(rows[l]);
+            }
+            blobs[values[l]].push(blob);
+        }
+
+        return blobs;
+    }
+}
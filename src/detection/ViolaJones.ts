@@ -5,6 +5,8 @@ import { face } from "./training/haar/face";
 import { DisjointSet } from "../utils/DisjointSet";
 import { TrackingMath } from "../math/TrackingMath";
 import { Rect } from "./Rect";
+import { Cascade } from "./Cascade";
+import { Xml, XmlElement } from "../utils/Xml";
 
 /**
  * ViolaJones utility class for object detection using HAAR cascade classifiers.
@@ -27,6 +29,47 @@ export class ViolaJones {
         face: face,
     };
 
+    /**
+     * Registers a HAAR cascade classifier, e.g. to be used by
+     * `new ObjectTracker(name)`.
+     * @param name The classifier name.
+     * @param data The HAAR cascade data, or a binary cascade encoded by
+     *     `Cascade.encode`.
+     */
+    public static registerClassifier(name: string, data: Float64Array | ArrayBuffer): void {
+        this.classifiers[name] = data instanceof ArrayBuffer ? Cascade.decode(data) : data;
+    }
+
+    /**
+     * Converts an OpenCV HAAR cascade XML file into the HAAR cascade data
+     * consumed by `detect`. Both the old format, written by
+     * `opencv_haartraining` (e.g. haarcascade_frontalface_alt.xml), and the
+     * new format, written by `opencv_traincascade` (e.g.
+     * haarcascade_russian_plate_number.xml), are supported, including tilted
+     * features. Only stump based cascades are supported, i.e. each weak
+     * classifier has a single node, which is the case of the cascades
+     * shipped with OpenCV.
+     *
+     * Example:
+     * ViolaJones.registerClassifier('fullbody', ViolaJones.fromOpenCVXml(xml));
+     * new ObjectTracker('fullbody');
+     *
+     * @param xml The OpenCV cascade XML.
+     * @returns The HAAR cascade data.
+     */
+    public static fromOpenCVXml(xml: string): Float64Array {
+        const cascade = Xml.parse(xml).children[0];
+
+        if (!cascade) {
+            throw new Error("Invalid OpenCV cascade: no cascade element found.");
+        }
+
+        if (Xml.child(cascade, "featureType") || Xml.child(cascade, "stageType")) {
+            return new Float64Array(this.convertOpenCVCascade_(cascade));
+        }
+        return new Float64Array(this.convertOpenCVHaarCascade_(cascade));
+    }
+
     /**
      * Detects through the HAAR cascade data rectangles matches.
      * @param pixels The pixels in a linear [r,g,b,a,...] array.
@@ -276,6 +319,171 @@ export class ViolaJones {
         return true;
     }
 
+    /**
+     * Converts a cascade in the old OpenCV format, where each stage holds its
+     * trees and each tree node holds its own feature.
+     * @param cascade The cascade element.
+     * @returns The HAAR cascade data values.
+     */
+    private static convertOpenCVHaarCascade_(cascade: XmlElement): number[] {
+        const size = this.readNumbers_(this.readChild_(cascade, "size"));
+        if (size.length !== 2) {
+            throw new Error("Invalid OpenCV cascade: expected the window size as `width height`.");
+        }
+
+        const data = size;
+        const stages = Xml.children(this.readChild_(cascade, "stages"), "_");
+
+        for (let i = 0; i < stages.length; i++) {
+            const parent = Xml.child(stages[i], "parent");
+            if (parent && this.readNumber_(parent) !== i - 1) {
+                throw new Error("Invalid OpenCV cascade: tree of stages cascades are not supported.");
+            }
+
+            const trees = Xml.children(this.readChild_(stages[i], "trees"), "_");
+            data.push(this.readNumber_(this.readChild_(stages[i], "stage_threshold")), trees.length);
+
+            for (let j = 0; j < trees.length; j++) {
+                const nodes = Xml.children(trees[j], "_");
+                if (nodes.length !== 1 || !Xml.child(nodes[0], "left_val") || !Xml.child(nodes[0], "right_val")) {
+                    throw new Error(
+                        "Invalid OpenCV cascade: stage " +
+                            i +
+                            ", tree " +
+                            j +
+                            " is not a stump, only stumps are supported."
+                    );
+                }
+
+                const node = nodes[0];
+                this.pushOpenCVFeature_(data, this.readChild_(node, "feature"));
+                data.push(
+                    this.readNumber_(this.readChild_(node, "threshold")),
+                    this.readNumber_(this.readChild_(node, "left_val")),
+                    this.readNumber_(this.readChild_(node, "right_val"))
+                );
+            }
+        }
+
+        return data;
+    }
+
+    /**
+     * Converts a cascade in the new OpenCV format, where the features are
+     * listed once and referenced by index from the weak classifiers.
+     * @param cascade The cascade element.
+     * @returns The HAAR cascade data values.
+     */
+    private static convertOpenCVCascade_(cascade: XmlElement): number[] {
+        const featureType = Xml.child(cascade, "featureType");
+        if (featureType && featureType.text.trim() !== "HAAR") {
+            throw new Error(
+                "Invalid OpenCV cascade: " + featureType.text.trim() + " features are not supported, only HAAR."
+            );
+        }
+
+        const stageType = Xml.child(cascade, "stageType");
+        if (stageType && stageType.text.trim() !== "BOOST") {
+            throw new Error("Invalid OpenCV cascade: " + stageType.text.trim() + " stages are not supported.");
+        }
+
+        const data = [
+            this.readNumber_(this.readChild_(cascade, "width")),
+            this.readNumber_(this.readChild_(cascade, "height")),
+        ];
+        const features = Xml.children(this.readChild_(cascade, "features"), "_");
+        const stages = Xml.children(this.readChild_(cascade, "stages"), "_");
+
+        for (let i = 0; i < stages.length; i++) {
+            const weakClassifiers = Xml.children(this.readChild_(stages[i], "weakClassifiers"), "_");
+            data.push(this.readNumber_(this.readChild_(stages[i], "stageThreshold")), weakClassifiers.length);
+
+            for (let j = 0; j < weakClassifiers.length; j++) {
+                // A stump internal node is `left right featureIndex threshold`,
+                // where non positive values are leaf indexes negated.
+                const internalNodes = this.readNumbers_(this.readChild_(weakClassifiers[j], "internalNodes"));
+                const leafValues = this.readNumbers_(this.readChild_(weakClassifiers[j], "leafValues"));
+                if (internalNodes.length !== 4 || leafValues.length !== 2) {
+                    throw new Error(
+                        "Invalid OpenCV cascade: stage " +
+                            i +
+                            ", weak classifier " +
+                            j +
+                            " is not a stump, only stumps are supported."
+                    );
+                }
+
+                const feature = features[internalNodes[2]];
+                if (!feature) {
+                    throw new Error("Invalid OpenCV cascade: feature " + internalNodes[2] + " not found.");
+                }
+
+                this.pushOpenCVFeature_(data, feature);
+                data.push(internalNodes[3], leafValues[-internalNodes[0]], leafValues[-internalNodes[1]]);
+            }
+        }
+
+        return data;
+    }
+
+    /**
+     * Appends the tilted flag and the rectangles of an OpenCV feature to the
+     * HAAR cascade data values.
+     * @param data The HAAR cascade data values.
+     * @param feature The feature element.
+     */
+    private static pushOpenCVFeature_(data: number[], feature: XmlElement): void {
+        const rects = Xml.children(this.readChild_(feature, "rects"), "_");
+        const tilted = Xml.child(feature, "tilted");
+
+        data.push(tilted && this.readNumber_(tilted) ? 1 : 0, rects.length);
+
+        for (let i = 0; i < rects.length; i++) {
+            const rect = this.readNumbers_(rects[i]);
+            if (rect.length !== 5) {
+                throw new Error("Invalid OpenCV cascade: expected rects as `x y width height weight`.");
+            }
+            data.push(rect[0], rect[1], rect[2], rect[3], rect[4]);
+        }
+    }
+
+    /**
+     * Gets a required child element of an OpenCV cascade.
+     * @param element The parent element.
+     * @param name The child element name.
+     * @returns The child element.
+     */
+    private static readChild_(element: XmlElement, name: string): XmlElement {
+        const child = Xml.child(element, name);
+        if (!child) {
+            throw new Error("Invalid OpenCV cascade: <" + element.name + "> has no <" + name + "> element.");
+        }
+        return child;
+    }
+
+    /**
+     * Reads the number held by an element.
+     * @param element The element.
+     * @returns The number.
+     */
+    private static readNumber_(element: XmlElement): number {
+        const value = parseFloat(element.text);
+        if (isNaN(value)) {
+            throw new Error("Invalid OpenCV cascade: <" + element.name + "> does not hold a number.");
+        }
+        return value;
+    }
+
+    /**
+     * Reads the whitespace separated numbers held by an element.
+     * @param element The element.
+     * @returns The numbers.
+     */
+    private static readNumbers_(element: XmlElement): number[] {
+        const text = element.text.trim();
+        return text ? text.split(/\s+/).map(parseFloat) : [];
+    }
+
     /**
      * Postprocess the detected sub-windows in order to combine overlapping
      * detections into a single detection.
@@ -1,3 +1,5 @@
+import { TrackingMath } from "../math/TrackingMath";
+
 /**
  * Brief intends for "Binary Robust Independent Elementary Features". This
  * class generates a binary string for each keypoint found by an extractor
@@ -12,6 +14,13 @@ export class Brief {
      */
     public static readonly N: number = 512;
 
+    /**
+     * Holds the default seed of the sampling pattern. Descriptors computed
+     * with the same pattern match, whatever the session or worker computing
+     * them.
+     */
+    public static readonly SEED: number = 1;
+
     /**
      * Caches coordinates values of (x,y)-location pairs uniquely chosen during
      * the initialization.
@@ -24,6 +33,20 @@ export class Brief {
      */
     private static randomWindowOffsets_: Int32Array | null = null;
 
+    /**
+     * Holds the seed of the sampling pattern.
+     */
+    private static seed_: number | null = Brief.SEED;
+
+    /**
+     * Exports the sampling pattern, e.g. to store it with precomputed
+     * descriptors of reference images.
+     * @return The pattern offsets, see `getPattern`.
+     */
+    public static exportPattern(): number[] {
+        return Array.prototype.slice.call(this.getPattern());
+    }
+
     /**
      * Generates a binary string for each found keypoints extracted using an
      * extractor method.
@@ -34,7 +57,7 @@ export class Brief {
      *     values represent the descriptor binary string (128 bits) necessary
      *     to describe the corner, e.g. [0,0,0,0, 0,0,0,0, ...].
      */
-    public static getDescriptors(pixels: number[], width: number, keypoints: number[]): Int32Array {
+    public static getDescriptors(pixels: ArrayLike<number>, width: number, keypoints: number[]): Int32Array {
         // Optimizing divide by 32 operation using binary shift
         // (this.N >> 5) === this.N/32.
         const descriptors = new Int32Array((keypoints.length >> 1) * (this.N >> 5));
@@ -67,6 +90,54 @@ export class Brief {
         return descriptors;
     }
 
+    /**
+     * Gets the sampling pattern of the descriptors, i.e. the (x,y)-location
+     * pairs uniquely chosen during the initialization, relative to the
+     * keypoint, e.g. [y0,x0,y'0,x'0,y1,x1,...]. The bit `j` of a descriptor is
+     * set when the pixel at (x_j,y_j) is darker than the pixel at (x'_j,y'_j).
+     * @return Array with the 4 * N offset values.
+     */
+    public static getPattern(): Int32Array {
+        if (!this.randomWindowOffsets_) {
+            const random = TrackingMath.createRandom(this.seed_ !== null ? this.seed_ : this.SEED);
+            const windowOffsets = new Int32Array(4 * this.N);
+            for (let i = 0; i < windowOffsets.length; i++) {
+                windowOffsets[i] = Math.round(random() * 31 - 15);
+            }
+            this.randomWindowOffsets_ = windowOffsets;
+        }
+
+        return this.randomWindowOffsets_;
+    }
+
+    /**
+     * Gets the seed of the sampling pattern.
+     * @return The seed, or null when the pattern was imported.
+     */
+    public static getSeed(): number | null {
+        return this.seed_;
+    }
+
+    /**
+     * Imports a sampling pattern exported by `exportPattern`, so descriptors
+     * match the ones computed with it elsewhere.
+     * @param pattern The pattern offsets, 4 * N integers.
+     */
+    public static importPattern(pattern: ArrayLike<number>): void {
+        if (!pattern || pattern.length !== 4 * this.N) {
+            throw new Error("Brief pattern not valid, try `Brief.importPattern(Brief.exportPattern())`.");
+        }
+        for (let i = 0; i < pattern.length; i++) {
+            if (Math.round(pattern[i]) !== pattern[i]) {
+                throw new Error("Brief pattern not valid, try `Brief.importPattern(Brief.exportPattern())`.");
+            }
+        }
+
+        this.seed_ = null;
+        this.randomWindowOffsets_ = new Int32Array(pattern);
+        this.randomImageOffsets_ = {};
+    }
+
     /**
      * Matches sets of features {mi} and {m′j} extracted from two images taken
      * from similar, and often successive, viewpoints. A classical procedure
@@ -160,6 +231,16 @@ export class Brief {
         return matches;
     }
 
+    /**
+     * Sets the seed of the sampling pattern, which is generated again.
+     * @param seed The seed, a 32-bit integer.
+     */
+    public static setSeed(seed: number): void {
+        this.seed_ = seed;
+        this.randomWindowOffsets_ = null;
+        this.randomImageOffsets_ = {};
+    }
+
     /**
      * Gets the coordinates values of (x,y)-location pairs uniquely chosen
      * during the initialization.
@@ -167,26 +248,13 @@ export class Brief {
      * @return Array with the random offset values.
      */
     private static getRandomOffsets_(width: number): Int32Array {
-        if (!this.randomWindowOffsets_) {
-            let windowPosition = 0;
-            const windowOffsets = new Int32Array(4 * this.N);
-            for (let i = 0; i < this.N; i++) {
-                windowOffsets[windowPosition++] = Math.round(this.uniformRandom(-15, 16));
-                windowOffsets[windowPosition++] = Math.round(this.uniformRandom(-15, 16));
-                windowOffsets[windowPosition++] = Math.round(this.uniformRandom(-15, 16));
-                windowOffsets[windowPosition++] = Math.round(this.uniformRandom(-15, 16));
-            }
-            this.randomWindowOffsets_ = windowOffsets;
-        }
-
         if (!this.randomImageOffsets_[width]) {
+            const windowOffsets = this.getPattern();
             let imagePosition = 0;
             const imageOffsets = new Int32Array(2 * this.N);
             for (let j = 0; j < this.N; j++) {
-                imageOffsets[imagePosition++] =
-                    this.randomWindowOffsets_[4 * j] * width + this.randomWindowOffsets_[4 * j + 1];
-                imageOffsets[imagePosition++] =
-                    this.randomWindowOffsets_[4 * j + 2] * width + this.randomWindowOffsets_[4 * j + 3];
+                imageOffsets[imagePosition++] = windowOffsets[4 * j] * width + windowOffsets[4 * j + 1];
+                imageOffsets[imagePosition++] = windowOffsets[4 * j + 2] * width + windowOffsets[4 * j + 3];
             }
             this.randomImageOffsets_[width] = imageOffsets;
         }
@@ -208,16 +276,6 @@ export class Brief {
         }
         return count;
     }
-
-    /**
-     * Placeholder for uniform random number generation - you'll need to implement this
-     * or import it from your math utilities
-     */
-    private static uniformRandom(min: number, max: number): number {
-        // You'll need to implement this method or import it from tracking.Math
-        // This is a placeholder implementation
-        return Math.random() * (max - min) + min;
-    }
 }
 
 /**
@@ -0,0 +1,389 @@
+import { Brief, MatchResult } from "./Brief";
+import { TrackingMath } from "../math/TrackingMath";
+
+/**
+ * DescriptorIndex finds the nearest neighbours of binary descriptors, e.g.
+ * from `Brief.getDescriptors` or `Orb.detect`, without comparing every pair
+ * as `Brief.match` does. Descriptors are indexed with multi-probe locality
+ * sensitive hashing: each hash table keys the descriptors by a random subset
+ * of their bits, so similar descriptors likely share a bucket in at least one
+ * table, and the buckets whose keys differ by a few bits are probed too. Only
+ * the descriptors of the probed buckets are compared, which makes matching
+ * against many reference images fast, at the cost of missing some
+ * neighbours:
+ *
+ * ```
+ * const index = new DescriptorIndex();
+ * references.forEach((reference) => index.add(reference.keypoints, reference.descriptors, reference.name));
+ * const matches = index.match(keypoints, descriptors);
+ * const name = matches.length && index.getLabel(matches[0].index2);
+ * ```
+ *
+ * For more reference:
+ * https://www.cs.princeton.edu/cass/papers/mplsh_vldb07.pdf
+ */
+export class DescriptorIndex {
+    /**
+     * Holds the default number of hash tables.
+     */
+    public static readonly TABLES: number = 8;
+
+    /**
+     * Holds the default number of descriptor bits per hash key.
+     */
+    public static readonly KEY_SIZE: number = 16;
+
+    /**
+     * Holds the default number of key bits flipped to probe the neighbouring
+     * buckets, from 0 to 2.
+     */
+    public static readonly PROBE_LEVEL: number = 1;
+
+    /**
+     * Holds the default ratio of Lowe's ratio test.
+     */
+    public static readonly RATIO: number = 0.8;
+
+    /**
+     * Holds the hash tables, mapping each key to the indexes of its
+     * descriptors.
+     */
+    private buckets_: Record<number, number[]>[] = [];
+
+    /**
+     * Holds the indexed descriptors, N / 32 int values each.
+     */
+    private descriptors_: Int32Array = new Int32Array(0);
+
+    /**
+     * Holds the descriptor bits of each hash key.
+     */
+    private keyBits_: number[][] = [];
+
+    /**
+     * Holds the indexed keypoints, e.g. [x0,y0,x1,y1,...].
+     */
+    private keypoints_: number[] = [];
+
+    /**
+     * Holds the label of each indexed descriptor.
+     */
+    private labels_: (string | undefined)[] = [];
+
+    /**
+     * Holds the key masks probed around each bucket.
+     */
+    private probes_: number[] = [];
+
+    /**
+     * Holds the number of indexed descriptors.
+     */
+    private size_: number = 0;
+
+    /**
+     * Holds the query statistics.
+     */
+    private stats_ = { queries: 0, comparisons: 0 };
+
+    /**
+     * Holds the last query stamp of each descriptor, to compare it once per
+     * query.
+     */
+    private visited_: Uint32Array = new Uint32Array(0);
+
+    /**
+     * Creates a new DescriptorIndex instance.
+     * @param optOptions Optional tuning of the hashing.
+     */
+    constructor(optOptions?: DescriptorIndexOptions) {
+        const options = optOptions || {};
+        const tables = options.tables || DescriptorIndex.TABLES;
+        const keySize = options.keySize || DescriptorIndex.KEY_SIZE;
+        const probeLevel = options.probeLevel !== undefined ? options.probeLevel : DescriptorIndex.PROBE_LEVEL;
+        const random = TrackingMath.createRandom(options.seed !== undefined ? options.seed : Brief.SEED);
+
+        if (keySize < 1 || keySize > 30 || keySize > Brief.N) {
+            throw new Error("Key size not valid, try `new DescriptorIndex({ keySize: 16 })`.");
+        }
+
+        for (let t = 0; t < tables; t++) {
+            const bits: number[] = [];
+            while (bits.length < keySize) {
+                const bit = Math.floor(random() * Brief.N);
+                if (bits.indexOf(bit) === -1) {
+                    bits.push(bit);
+                }
+            }
+            this.keyBits_.push(bits);
+            this.buckets_.push({});
+        }
+
+        this.probes_.push(0);
+        for (let a = 0; a < keySize && probeLevel > 0; a++) {
+            this.probes_.push(1 << a);
+            for (let b = a + 1; b < keySize && probeLevel > 1; b++) {
+                this.probes_.push((1 << a) | (1 << b));
+            }
+        }
+    }
+
+    /**
+     * Adds descriptors to the index.
+     * @param keypoints The keypoints, e.g. [x0,y0,x1,y1,...].
+     * @param descriptors The descriptors of the keypoints.
+     * @param optLabel Optional label of the descriptors, e.g. the name of
+     *     their reference image.
+     * @return The index of the first added descriptor.
+     */
+    public add(keypoints: number[], descriptors: Int32Array, optLabel?: string): number {
+        const words = Brief.N >> 5;
+        const count = keypoints.length >> 1;
+        const first = this.size_;
+
+        if (descriptors.length !== count * words) {
+            throw new Error(
+                "Descriptors do not match the keypoints, try `Brief.getDescriptors(pixels, width, keypoints)`."
+            );
+        }
+
+        const grown = new Int32Array((first + count) * words);
+        grown.set(this.descriptors_.subarray(0, first * words));
+        grown.set(descriptors, first * words);
+        this.descriptors_ = grown;
+        this.visited_ = new Uint32Array(first + count);
+
+        for (let i = 0; i < count; i++) {
+            const index = first + i;
+            this.keypoints_.push(keypoints[2 * i], keypoints[2 * i + 1]);
+            this.labels_.push(optLabel);
+
+            for (let t = 0; t < this.buckets_.length; t++) {
+                const key = this.getKey_(this.descriptors_, index, t);
+                const bucket = this.buckets_[t][key] || (this.buckets_[t][key] = []);
+                bucket.push(index);
+            }
+        }
+
+        this.size_ += count;
+        return first;
+    }
+
+    /**
+     * Removes every descriptor from the index and resets the statistics.
+     */
+    public clear(): void {
+        this.buckets_ = this.buckets_.map(() => ({}));
+        this.descriptors_ = new Int32Array(0);
+        this.keypoints_ = [];
+        this.labels_ = [];
+        this.size_ = 0;
+        this.stats_ = { queries: 0, comparisons: 0 };
+        this.visited_ = new Uint32Array(0);
+    }
+
+    /**
+     * Gets the label of an indexed descriptor.
+     * @param index The descriptor index, e.g. the `index2` of a match.
+     * @return The label, or undefined when the descriptor has none.
+     */
+    public getLabel(index: number): string | undefined {
+        return this.labels_[index];
+    }
+
+    /**
+     * Gets the number of indexed descriptors.
+     * @return The size
+     */
+    public getSize(): number {
+        return this.size_;
+    }
+
+    /**
+     * Gets the statistics of the index and of the queries since it was
+     * created or cleared.
+     * @return The statistics
+     */
+    public getStats(): DescriptorIndexStats {
+        let buckets = 0;
+        let maxBucketSize = 0;
+        this.buckets_.forEach((table) => {
+            Object.keys(table).forEach((key) => {
+                buckets++;
+                maxBucketSize = Math.max(maxBucketSize, table[+key].length);
+            });
+        });
+
+        return {
+            size: this.size_,
+            tables: this.buckets_.length,
+            buckets: buckets,
+            maxBucketSize: maxBucketSize,
+            queries: this.stats_.queries,
+            comparisons: this.stats_.comparisons,
+            averageComparisons: this.stats_.queries ? this.stats_.comparisons / this.stats_.queries : 0,
+        };
+    }
+
+    /**
+     * Finds the approximate k nearest neighbours of descriptors.
+     * @param descriptors The query descriptors.
+     * @param k The number of neighbours.
+     * @return For each query descriptor, its neighbours sorted by ascending
+     *     Hamming distance. There can be less than k of them.
+     */
+    public knn(descriptors: Int32Array, k: number): DescriptorNeighbor[][] {
+        const words = Brief.N >> 5;
+        const results: DescriptorNeighbor[][] = [];
+
+        for (let i = 0, count = descriptors.length / words; i < count; i++) {
+            results.push(this.search_(descriptors, i, k));
+        }
+
+        return results;
+    }
+
+    /**
+     * Matches descriptors to their nearest indexed descriptor, keeping the
+     * matches that pass Lowe's ratio test: the nearest neighbour must be
+     * closer than `ratio` times the second nearest one, which rejects the
+     * ambiguous matches.
+     * @param keypoints The query keypoints, e.g. [x0,y0,x1,y1,...].
+     * @param descriptors The query descriptors.
+     * @param optRatio Optional ratio, 0.8 by default, 1 disables the test.
+     * @return The matches, `index1` and `keypoint1` being the query and
+     *     `index2` and `keypoint2` the indexed descriptor.
+     */
+    public match(keypoints: number[], descriptors: Int32Array, optRatio?: number): MatchResult[] {
+        const ratio = optRatio !== undefined ? optRatio : DescriptorIndex.RATIO;
+        const matches: MatchResult[] = [];
+
+        this.knn(descriptors, 2).forEach((neighbors, i) => {
+            if (!neighbors.length) {
+                return;
+            }
+            const best = neighbors[0];
+            if (neighbors.length > 1 && ratio < 1 && best.distance >= ratio * neighbors[1].distance) {
+                return;
+            }
+
+            matches.push({
+                index1: i,
+                index2: best.index,
+                keypoint1: [keypoints[2 * i], keypoints[2 * i + 1]],
+                keypoint2: [this.keypoints_[2 * best.index], this.keypoints_[2 * best.index + 1]],
+                confidence: 1 - best.distance / Brief.N,
+            });
+        });
+
+        return matches;
+    }
+
+    /**
+     * Computes the hash key of a descriptor in a table.
+     * @param descriptors The descriptors.
+     * @param i The descriptor index.
+     * @param table The table index.
+     * @return The key.
+     */
+    private getKey_(descriptors: Int32Array, i: number, table: number): number {
+        const offset = i * (Brief.N >> 5);
+        const bits = this.keyBits_[table];
+        let key = 0;
+
+        for (let b = 0; b < bits.length; b++) {
+            if (descriptors[offset + (bits[b] >> 5)] & (1 << (bits[b] & 31))) {
+                key |= 1 << b;
+            }
+        }
+
+        return key;
+    }
+
+    /**
+     * Searches the k nearest neighbours of a descriptor in the probed buckets.
+     * @param descriptors The query descriptors.
+     * @param i The query descriptor index.
+     * @param k The number of neighbours.
+     * @return The neighbours sorted by ascending Hamming distance.
+     */
+    private search_(descriptors: Int32Array, i: number, k: number): DescriptorNeighbor[] {
+        const words = Brief.N >> 5;
+        const stamp = ++this.stats_.queries;
+        const neighbors: DescriptorNeighbor[] = [];
+
+        for (let t = 0; t < this.buckets_.length; t++) {
+            const key = this.getKey_(descriptors, i, t);
+
+            for (let p = 0; p < this.probes_.length; p++) {
+                const bucket = this.buckets_[t][key ^ this.probes_[p]];
+                if (!bucket) {
+                    continue;
+                }
+
+                for (let b = 0; b < bucket.length; b++) {
+                    const index = bucket[b];
+                    if (this.visited_[index] === stamp) {
+                        continue;
+                    }
+                    this.visited_[index] = stamp;
+                    this.stats_.comparisons++;
+
+                    let distance = 0;
+                    for (let w = 0; w < words; w++) {
+                        distance += TrackingMath.hammingWeight(
+                            descriptors[i * words + w] ^ this.descriptors_[index * words + w]
+                        );
+                    }
+
+                    if (neighbors.length < k || distance < neighbors[neighbors.length - 1].distance) {
+                        let position = neighbors.length;
+                        while (position > 0 && neighbors[position - 1].distance > distance) {
+                            position--;
+                        }
+                        neighbors.splice(position, 0, { index: index, distance: distance });
+                        if (neighbors.length > k) {
+                            neighbors.pop();
+                        }
+                    }
+                }
+            }
+        }
+
+        return neighbors;
+    }
+}
+
+/**
+ * Interface for the tuning of the descriptor index. More tables and a higher
+ * probe level find more true neighbours but compare more descriptors, and
+ * longer keys make smaller buckets. `seed` chooses the key bits.
+ */
+export interface DescriptorIndexOptions {
+    tables?: number;
+    keySize?: number;
+    probeLevel?: number;
+    seed?: number;
+}
+
+/**
+ * Interface for a neighbour of a descriptor, with its Hamming distance
+ */
+export interface DescriptorNeighbor {
+    index: number;
+    distance: number;
+}
+
+/**
+ * Interface for the statistics of a descriptor index. `comparisons` counts
+ * the Hamming distances computed by the queries, against `size` per query for
+ * brute-force matching.
+ */
+export interface DescriptorIndexStats {
+    size: number;
+    tables: number;
+    buckets: number;
+    maxBucketSize: number;
+    queries: number;
+    comparisons: number;
+    averageComparisons: number;
+}
@@ -30,6 +30,53 @@ export class Fast {
      */
     private static circles_: Record<number, Int32Array> = {};
 
+    /**
+     * Finds corners on the grayscaled image and scores them, keeping a
+     * bounded and well distributed set. Unlike `findCorners`, every pixel is
+     * tested, and the corners that are not the local maximum of their 3x3
+     * neighbourhood are suppressed, so textured areas do not produce clusters
+     * of redundant corners.
+     * @param pixels The grayscale pixels in a linear [p1,p2,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param optOptions Optional tuning of the detection.
+     * @return The corners, e.g. [x0,y0,x1,y1,...], sorted by descending
+     *     score, and their scores.
+     */
+    public static detect(
+        pixels: ArrayLike<number>,
+        width: number,
+        height: number,
+        optOptions?: FastOptions
+    ): FastCorners {
+        const options = optOptions || {};
+        const threshold = options.threshold !== undefined ? options.threshold : this.THRESHOLD;
+        const nonMaxSuppression = options.nonMaxSuppression !== false;
+        const circleOffsets = this.getCircleOffsets_(width);
+        const circlePixels = new Int32Array(16);
+        const scores = new Float32Array(width * height);
+        const candidates: number[] = [];
+
+        for (let i = 3; i < height - 3; i++) {
+            for (let j = 3; j < width - 3; j++) {
+                const w = i * width + j;
+                const p = pixels[w];
+
+                for (let k = 0; k < 16; k++) {
+                    circlePixels[k] = pixels[w + circleOffsets[k]];
+                }
+
+                if (this.isCorner(p, circlePixels, threshold)) {
+                    scores[w] = this.getScore(p, circlePixels, threshold);
+                    candidates.push(w);
+                }
+            }
+        }
+
+        const corners = nonMaxSuppression ? this.suppress_(scores, width, candidates) : candidates;
+        return this.select_(scores, width, height, corners, options);
+    }
+
     /**
      * Finds corners coordinates on the grayscaled image.
      * @param pixels The grayscale pixels in a linear [p1,p2,...] array.
@@ -40,7 +87,7 @@ export class Fast {
      * @return Array containing the coordinates of all found corners,
      *     e.g. [x0,y0,x1,y1,...], where P(x0,y0) represents a corner coordinate.
      */
-    public static findCorners(pixels: number[], width: number, height: number, threshold?: number): number[] {
+    public static findCorners(pixels: ArrayLike<number>, width: number, height: number, threshold?: number): number[] {
         const circleOffsets = this.getCircleOffsets_(width);
         const circlePixels = new Int32Array(16);
         const corners: number[] = [];
@@ -75,6 +122,32 @@ export class Fast {
         return corners;
     }
 
+    /**
+     * Computes the score of a corner, i.e. the sum of the absolute
+     * differences, minus the threshold, between the candidate pixel p and the
+     * circle pixels of the brighter or the darker arc, whichever is larger.
+     * Stronger corners have higher scores.
+     * @param p The value of the candidate pixel p.
+     * @param circlePixels The circle pixel values.
+     * @param threshold
+     * @return The corner score.
+     */
+    public static getScore(p: number, circlePixels: ArrayLike<number>, threshold: number): number {
+        let brighter = 0;
+        let darker = 0;
+
+        for (let k = 0; k < 16; k++) {
+            const difference = circlePixels[k] - p;
+            if (difference > threshold) {
+                brighter += difference - threshold;
+            } else if (-difference > threshold) {
+                darker += -difference - threshold;
+            }
+        }
+
+        return Math.max(brighter, darker);
+    }
+
     /**
      * Checks if the circle pixel is brighter than the candidate pixel p by
      * a threshold.
@@ -228,4 +301,104 @@ export class Fast {
         this.circles_[width] = circle;
         return circle;
     }
+
+    /**
+     * Selects the best corners, at most `maxCorners`. When the image is split
+     * in a grid, each cell first keeps its best corners, so the corners are
+     * spread over the image rather than gathered in its most textured area.
+     * @param scores The score of each pixel.
+     * @param width The image width.
+     * @param height The image height.
+     * @param candidates The positions of the corners in the image.
+     * @param options The detection options.
+     * @return The selected corners and their scores.
+     */
+    private static select_(
+        scores: Float32Array,
+        width: number,
+        height: number,
+        candidates: number[],
+        options: FastOptions
+    ): FastCorners {
+        const maxCorners = options.maxCorners !== undefined ? options.maxCorners : Infinity;
+        const cols = Math.max(1, options.gridCols || 1);
+        const rows = Math.max(1, options.gridRows || 1);
+        const byScore = (a: number, b: number) => scores[b] - scores[a] || a - b;
+        let selected = candidates.slice().sort(byScore);
+
+        if (selected.length > maxCorners && cols * rows > 1) {
+            const perCell = Math.ceil(maxCorners / (cols * rows));
+            const counts = new Int32Array(cols * rows);
+            const kept: number[] = [];
+            const rest: number[] = [];
+
+            selected.forEach((w) => {
+                const col = Math.min(cols - 1, Math.floor(((w % width) * cols) / width));
+                const row = Math.min(rows - 1, Math.floor((Math.floor(w / width) * rows) / height));
+                if (counts[row * cols + col]++ < perCell) {
+                    kept.push(w);
+                } else {
+                    rest.push(w);
+                }
+            });
+
+            // Cells with few corners leave room for the best of the others.
+            selected = kept.slice(0, maxCorners).concat(rest.slice(0, Math.max(0, maxCorners - kept.length)));
+            selected.sort(byScore);
+        }
+
+        selected = selected.slice(0, maxCorners);
+
+        const result: FastCorners = { corners: [], scores: [] };
+        selected.forEach((w) => {
+            result.corners.push(w % width, Math.floor(w / width));
+            result.scores.push(scores[w]);
+        });
+        return result;
+    }
+
+    /**
+     * Suppresses the corners whose score is not the maximum of their 3x3
+     * neighbourhood. Ties are kept once, by the first corner in scan order.
+     * @param scores The score of each pixel, 0 for the pixels that are not
+     *     corners.
+     * @param width The image width.
+     * @param candidates The positions of the corners in the image.
+     * @return The positions of the remaining corners.
+     */
+    private static suppress_(scores: Float32Array, width: number, candidates: number[]): number[] {
+        return candidates.filter((w) => {
+            const score = scores[w];
+            return (
+                score > scores[w - width - 1] &&
+                score > scores[w - width] &&
+                score > scores[w - width + 1] &&
+                score > scores[w - 1] &&
+                score >= scores[w + 1] &&
+                score >= scores[w + width - 1] &&
+                score >= scores[w + width] &&
+                score >= scores[w + width + 1]
+            );
+        });
+    }
+}
+
+/**
+ * Interface for the tuning of the corner detection. Without `maxCorners`,
+ * every corner that survives the non-maximum suppression is kept.
+ */
+export interface FastOptions {
+    threshold?: number;
+    nonMaxSuppression?: boolean;
+    maxCorners?: number;
+    gridCols?: number;
+    gridRows?: number;
+}
+
+/**
+ * Interface for scored corners
+ */
+export interface FastCorners {
+    corners: number[];
+    scores: number[];
 }
@@ -0,0 +1,313 @@
+import { Image } from "../utils/Image";
+
+/**
+ * OpticalFlow utility class to follow points between consecutive frames with
+ * the pyramidal Lucas-Kanade sparse optical flow. For each point, the
+ * displacement that minimizes the difference between a window around the
+ * point in both frames is refined iteratively, from the coarsest level of an
+ * image pyramid, which handles large motions, down to the full resolution:
+ *
+ * ```
+ * const prev = OpticalFlow.buildPyramid(prevPixels, width, height);
+ * const next = OpticalFlow.buildPyramid(nextPixels, width, height);
+ * const flow = OpticalFlow.track(prev, next, Fast.findCorners(gray, width, height));
+ * ```
+ *
+ * For more reference:
+ * http://robots.stanford.edu/cs223b04/algo_tracking.pdf
+ */
+export class OpticalFlow {
+    /**
+     * Holds the default number of pyramid levels, including the full
+     * resolution.
+     */
+    public static readonly LEVELS: number = 3;
+
+    /**
+     * Holds the default side of the window around each point, in pixels.
+     */
+    public static readonly WINDOW_SIZE: number = 15;
+
+    /**
+     * Holds the default maximum number of iterations per pyramid level.
+     */
+    public static readonly MAX_ITERATIONS: number = 20;
+
+    /**
+     * Holds the default displacement update, in pixels, below which the
+     * iterations stop.
+     */
+    public static readonly EPSILON: number = 0.01;
+
+    /**
+     * Holds the default minimum eigenvalue of the window gradient matrix,
+     * averaged per pixel. Points in flat or edge regions, whose motion cannot
+     * be found, are below it.
+     */
+    public static readonly MIN_EIGENVALUE: number = 0.01;
+
+    /**
+     * Builds the image pyramid of a frame. Each level is the previous one
+     * blurred and subsampled by 2. A pyramid can be reused as the previous
+     * frame of the next call to `track`.
+     * @param pixels The pixels in a linear [r,g,b,a,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param optLevels Optional number of levels, 3 by default.
+     * @return The image pyramid.
+     */
+    public static buildPyramid(
+        pixels: Uint8ClampedArray,
+        width: number,
+        height: number,
+        optLevels?: number
+    ): ImagePyramid {
+        const levels = Math.max(1, optLevels || this.LEVELS);
+        const pyramid: ImagePyramid = { levels: [] };
+        let gray = Image.grayscale(pixels, width, height, true);
+
+        for (let l = 0; l < levels; l++) {
+            pyramid.levels.push(this.createLevel_(gray, width, height));
+
+            if (l === levels - 1 || width < 2 || height < 2) {
+                break;
+            }
+            const downsampled = Image.downsample(gray, width, height, 2);
+            width = width >> 1;
+            height = height >> 1;
+            gray = downsampled;
+        }
+
+        return pyramid;
+    }
+
+    /**
+     * Follows points from a frame to the next one.
+     * @param prev The image pyramid of the previous frame.
+     * @param next The image pyramid of the next frame.
+     * @param points The points in the previous frame, e.g. [x0,y0,x1,y1,...],
+     *     as found by `Fast.findCorners`.
+     * @param optOptions Optional tuning of the optical flow.
+     * @return The points in the next frame, with the status and error of
+     *     each one.
+     */
+    public static track(
+        prev: ImagePyramid,
+        next: ImagePyramid,
+        points: number[],
+        optOptions?: OpticalFlowOptions
+    ): OpticalFlowResult {
+        const options = optOptions || {};
+        const levels = Math.min(prev.levels.length, next.levels.length);
+        const radius = Math.floor((options.windowSize || this.WINDOW_SIZE) / 2);
+        const maxIterations = options.maxIterations || this.MAX_ITERATIONS;
+        const epsilon = options.epsilon !== undefined ? options.epsilon : this.EPSILON;
+        const minEigenvalue = options.minEigenvalue !== undefined ? options.minEigenvalue : this.MIN_EIGENVALUE;
+        const area = (2 * radius + 1) * (2 * radius + 1);
+
+        const count = points.length >> 1;
+        const result: OpticalFlowResult = {
+            points: points.slice(),
+            status: new Uint8Array(count),
+            error: new Float32Array(count),
+        };
+
+        // Samples of the window in the previous frame: value, dx and dy.
+        const window = new Float32Array(area * 3);
+
+        for (let i = 0; i < count; i++) {
+            let gx = 0;
+            let gy = 0;
+            let tracked = true;
+
+            for (let l = levels - 1; l >= 0 && tracked; l--) {
+                const scale = 1 / (1 << l);
+                const from = prev.levels[l];
+                const to = next.levels[l];
+                const px = points[2 * i] * scale;
+                const py = points[2 * i + 1] * scale;
+
+                // Spatial gradient matrix G = [gxx gxy; gxy gyy] of the window.
+                let gxx = 0;
+                let gxy = 0;
+                let gyy = 0;
+                for (let k = 0, y = -radius; y <= radius; y++) {
+                    for (let x = -radius; x <= radius; x++, k += 3) {
+                        window[k] = this.interpolate_(from.pixels, from.width, from.height, px + x, py + y);
+                        window[k + 1] = this.interpolate_(from.dx, from.width, from.height, px + x, py + y);
+                        window[k + 2] = this.interpolate_(from.dy, from.width, from.height, px + x, py + y);
+                        gxx += window[k + 1] * window[k + 1];
+                        gxy += window[k + 1] * window[k + 2];
+                        gyy += window[k + 2] * window[k + 2];
+                    }
+                }
+
+                const det = gxx * gyy - gxy * gxy;
+                const eigenvalue = (gxx + gyy - Math.sqrt((gxx - gyy) * (gxx - gyy) + 4 * gxy * gxy)) / 2;
+                if (eigenvalue / area < minEigenvalue || det === 0) {
+                    tracked = false;
+                    break;
+                }
+
+                let vx = 0;
+                let vy = 0;
+                for (let iteration = 0; iteration < maxIterations; iteration++) {
+                    let bx = 0;
+                    let by = 0;
+                    for (let k = 0, y = -radius; y <= radius; y++) {
+                        for (let x = -radius; x <= radius; x++, k += 3) {
+                            const qx = px + gx + vx + x;
+                            const qy = py + gy + vy + y;
+                            const diff = window[k] - this.interpolate_(to.pixels, to.width, to.height, qx, qy);
+                            bx += diff * window[k + 1];
+                            by += diff * window[k + 2];
+                        }
+                    }
+
+                    const ex = (gyy * bx - gxy * by) / det;
+                    const ey = (gxx * by - gxy * bx) / det;
+                    vx += ex;
+                    vy += ey;
+                    if (ex * ex + ey * ey < epsilon * epsilon) {
+                        break;
+                    }
+                }
+
+                // The guess of the next level, at twice the resolution.
+                gx = l ? 2 * (gx + vx) : gx + vx;
+                gy = l ? 2 * (gy + vy) : gy + vy;
+            }
+
+            const base = next.levels[0];
+            const x = points[2 * i] + gx;
+            const y = points[2 * i + 1] + gy;
+            if (!tracked || !(x >= 0 && y >= 0 && x <= base.width - 1 && y <= base.height - 1)) {
+                continue;
+            }
+
+            const from = prev.levels[0];
+            let error = 0;
+            for (let wy = -radius; wy <= radius; wy++) {
+                for (let wx = -radius; wx <= radius; wx++) {
+                    error += Math.abs(
+                        this.interpolate_(
+                            from.pixels,
+                            from.width,
+                            from.height,
+                            points[2 * i] + wx,
+                            points[2 * i + 1] + wy
+                        ) - this.interpolate_(base.pixels, base.width, base.height, x + wx, y + wy)
+                    );
+                }
+            }
+
+            result.points[2 * i] = x;
+            result.points[2 * i + 1] = y;
+            result.status[i] = 1;
+            result.error[i] = error / area;
+        }
+
+        return result;
+    }
+
+    /**
+     * Creates a pyramid level with the gradients of its pixels.
+     * @param gray The grayscale pixels in a linear [p,p,p,255,...] array.
+     * @param width The level width.
+     * @param height The level height.
+     * @return The pyramid level.
+     */
+    private static createLevel_(gray: Uint8Array, width: number, height: number): PyramidLevel {
+        // Scharr operator, normalized so the gradients are in intensity per pixel.
+        const sign = new Float32Array([-0.5, 0, 0.5]);
+        const scale = new Float32Array([3 / 16, 10 / 16, 3 / 16]);
+        const dx = Image.separableConvolve(gray, width, height, sign, scale, false);
+        const dy = Image.separableConvolve(gray, width, height, scale, sign, false);
+        const level: PyramidLevel = {
+            width: width,
+            height: height,
+            pixels: new Float32Array(width * height),
+            dx: new Float32Array(width * height),
+            dy: new Float32Array(width * height),
+        };
+
+        for (let i = 0; i < width * height; i++) {
+            level.pixels[i] = gray[i * 4];
+            level.dx[i] = dx[i * 4];
+            level.dy[i] = dy[i * 4];
+        }
+
+        return level;
+    }
+
+    /**
+     * Interpolates bilinearly a value of an image. Positions outside the
+     * image are clamped to its border.
+     * @param values The values in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param x The horizontal position.
+     * @param y The vertical position.
+     * @return The interpolated value.
+     */
+    private static interpolate_(values: Float32Array, width: number, height: number, x: number, y: number): number {
+        x = Math.min(width - 1, Math.max(0, x));
+        y = Math.min(height - 1, Math.max(0, y));
+        const x0 = Math.min(width - 2, Math.floor(x));
+        const y0 = Math.min(height - 2, Math.floor(y));
+        const ax = x - x0;
+        const ay = y - y0;
+        const w = y0 * width + x0;
+
+        if (x0 < 0 || y0 < 0) {
+            return values[Math.round(y) * width + Math.round(x)];
+        }
+
+        return (
+            (1 - ay) * ((1 - ax) * values[w] + ax * values[w + 1]) +
+            ay * ((1 - ax) * values[w + width] + ax * values[w + width + 1])
+        );
+    }
+}
+
+/**
+ * Interface for an image pyramid, from the full resolution to the coarsest
+ * level
+ */
+export interface ImagePyramid {
+    levels: PyramidLevel[];
+}
+
+/**
+ * Interface for a pyramid level, with the grayscale pixels and their
+ * horizontal and vertical gradients
+ */
+export interface PyramidLevel {
+    width: number;
+    height: number;
+    pixels: Float32Array;
+    dx: Float32Array;
+    dy: Float32Array;
+}
+
+/**
+ * Interface for the tuning of the optical flow
+ */
+export interface OpticalFlowOptions {
+    windowSize?: number;
+    maxIterations?: number;
+    epsilon?: number;
+    minEigenvalue?: number;
+}
+
+/**
+ * Interface for the result of the optical flow. `status` is 1 for the points
+ * found in the next frame, and 0 for the lost ones, which keep their previous
+ * position. `error` is the mean absolute difference between the windows
+ * around each point in both frames.
+ */
+export interface OpticalFlowResult {
+    points: number[];
+    status: Uint8Array;
+    error: Float32Array;
+}
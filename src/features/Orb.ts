@@ -0,0 +1,278 @@
+import { Brief } from "./Brief";
+import { Fast } from "./Fast";
+import { Image } from "../utils/Image";
+
+/**
+ * ORB intends for "Oriented FAST and Rotated BRIEF". This class finds `Fast`
+ * corners, after non-maximum suppression, at several scales of an image
+ * pyramid, keeps the ones with the best Harris score, orients each of them by
+ * the intensity centroid of its patch, and computes `Brief` descriptors whose
+ * sampling pattern is rotated by that orientation. The descriptors are
+ * therefore robust to rotations and scale changes, and are matched with
+ * `Brief.match` or `Brief.reciprocalMatch`:
+ *
+ * ```
+ * const features1 = Orb.detect(pixels1, width1, height1);
+ * const features2 = Orb.detect(pixels2, width2, height2);
+ * const matches = Brief.reciprocalMatch(
+ *   features1.keypoints, features1.descriptors, features2.keypoints, features2.descriptors
+ * );
+ * ```
+ *
+ * For more reference:
+ * http://www.willowgarage.com/sites/default/files/orb_final.pdf
+ */
+export class Orb {
+    /**
+     * Holds the default number of pyramid levels.
+     */
+    public static readonly LEVELS: number = 4;
+
+    /**
+     * Holds the default maximum number of features.
+     */
+    public static readonly MAX_FEATURES: number = 500;
+
+    /**
+     * Holds the default scale factor between two pyramid levels.
+     */
+    public static readonly SCALE_FACTOR: number = 1.2;
+
+    /**
+     * Holds the default threshold of the `Fast` segment test. It is lower than
+     * `Fast.THRESHOLD` since the corners are ranked by their Harris score.
+     */
+    public static readonly THRESHOLD: number = 20;
+
+    /**
+     * Holds the radius of the patch used to orient and describe a keypoint.
+     * The `Brief` pattern lies within it.
+     */
+    private static readonly PATCH_RADIUS: number = 15;
+
+    /**
+     * Holds the constant of the Harris corner score.
+     */
+    private static readonly HARRIS_K: number = 0.04;
+
+    /**
+     * Finds the oriented keypoints of an image and computes their steered
+     * `Brief` descriptors.
+     * @param pixels The pixels in a linear [r,g,b,a,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param optOptions Optional tuning of the detection.
+     * @return The keypoints, in full resolution coordinates, e.g.
+     *     [x0,y0,x1,y1,...], their descriptors in the `Brief` format, and the
+     *     orientation, pyramid level and score of each one.
+     */
+    public static detect(
+        pixels: Uint8ClampedArray,
+        width: number,
+        height: number,
+        optOptions?: OrbOptions
+    ): OrbFeatures {
+        const options = optOptions || {};
+        const levels = Math.max(1, options.levels || this.LEVELS);
+        const scaleFactor = options.scaleFactor || this.SCALE_FACTOR;
+        const maxFeatures = options.maxFeatures !== undefined ? options.maxFeatures : this.MAX_FEATURES;
+        const threshold = options.threshold !== undefined ? options.threshold : this.THRESHOLD;
+        const gray = Image.grayscale(pixels, width, height, true);
+        const words = Brief.N >> 5;
+
+        // Smaller levels get fewer features, in proportion to their area.
+        let areas = 0;
+        for (let l = 0; l < levels; l++) {
+            areas += Math.pow(scaleFactor, -2 * l);
+        }
+
+        const features: OrbFeatures = {
+            keypoints: [],
+            descriptors: new Int32Array(0),
+            angles: [],
+            levels: [],
+            scores: [],
+        };
+        const descriptors: Int32Array[] = [];
+
+        for (let l = 0; l < levels; l++) {
+            const scale = Math.pow(scaleFactor, l);
+            const levelWidth = Math.floor(width / scale);
+            const levelHeight = Math.floor(height / scale);
+            if (levelWidth <= 2 * this.PATCH_RADIUS + 2 || levelHeight <= 2 * this.PATCH_RADIUS + 2) {
+                break;
+            }
+
+            // Every level, the full resolution included, is blurred the same
+            // way, so the keypoints look alike at all scales.
+            const levelPixels = Image.downsample(gray, width, height, scale);
+            const levelGray = this.getLuma_(levelPixels);
+            const corners = Fast.detect(levelGray, levelWidth, levelHeight, { threshold: threshold }).corners;
+            const candidates: number[][] = [];
+            const border = this.PATCH_RADIUS + 1;
+
+            for (let i = 0; i < corners.length; i += 2) {
+                const x = corners[i];
+                const y = corners[i + 1];
+                if (x >= border && y >= border && x < levelWidth - border && y < levelHeight - border) {
+                    candidates.push([x, y, this.getHarrisScore_(levelGray, levelWidth, x, y)]);
+                }
+            }
+            candidates.sort((a, b) => b[2] - a[2]);
+
+            const quota = Math.round((maxFeatures * Math.pow(scaleFactor, -2 * l)) / areas);
+            const kept = candidates.slice(0, quota);
+            if (!kept.length) {
+                continue;
+            }
+
+            // The descriptor pixel comparisons are made robust to noise on a
+            // smoothed copy of the level.
+            const smoothed = this.getLuma_(Image.downsample(levelPixels, levelWidth, levelHeight, 1));
+            kept.forEach((candidate) => {
+                const angle = this.getOrientation_(levelGray, levelWidth, candidate[0], candidate[1]);
+                features.keypoints.push(candidate[0] * scale, candidate[1] * scale);
+                features.angles.push(angle);
+                features.levels.push(l);
+                features.scores.push(candidate[2]);
+                descriptors.push(
+                    this.getDescriptor_(smoothed, levelWidth, levelHeight, candidate[0], candidate[1], angle)
+                );
+            });
+        }
+
+        features.descriptors = new Int32Array(descriptors.length * words);
+        descriptors.forEach((descriptor, i) => features.descriptors.set(descriptor, i * words));
+
+        return features;
+    }
+
+    /**
+     * Computes the steered `Brief` descriptor of a keypoint, whose sampling
+     * pattern is rotated by the keypoint orientation.
+     * @param gray The smoothed grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param x The keypoint horizontal position.
+     * @param y The keypoint vertical position.
+     * @param angle The keypoint orientation, in radians.
+     * @return The descriptor, N bits packed in N / 32 int values.
+     */
+    private static getDescriptor_(
+        gray: Uint8Array,
+        width: number,
+        height: number,
+        x: number,
+        y: number,
+        angle: number
+    ): Int32Array {
+        const pattern = Brief.getPattern();
+        const descriptor = new Int32Array(Brief.N >> 5);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+
+        const sample = (dy: number, dx: number) => {
+            const sx = Math.min(width - 1, Math.max(0, Math.round(x + cos * dx - sin * dy)));
+            const sy = Math.min(height - 1, Math.max(0, Math.round(y + sin * dx + cos * dy)));
+            return gray[sy * width + sx];
+        };
+
+        for (let j = 0; j < Brief.N; j++) {
+            if (sample(pattern[4 * j], pattern[4 * j + 1]) < sample(pattern[4 * j + 2], pattern[4 * j + 3])) {
+                descriptor[j >> 5] |= 1 << (j & 31);
+            }
+        }
+
+        return descriptor;
+    }
+
+    /**
+     * Computes the Harris corner score of a pixel over a 7x7 window.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param x The horizontal position.
+     * @param y The vertical position.
+     * @return The Harris score, higher for stronger corners.
+     */
+    private static getHarrisScore_(gray: Uint8Array, width: number, x: number, y: number): number {
+        let a = 0;
+        let b = 0;
+        let c = 0;
+
+        for (let dy = -3; dy <= 3; dy++) {
+            for (let dx = -3; dx <= 3; dx++) {
+                const w = (y + dy) * width + x + dx;
+                const ix = (gray[w + 1] - gray[w - 1]) / 2;
+                const iy = (gray[w + width] - gray[w - width]) / 2;
+                a += ix * ix;
+                b += iy * iy;
+                c += ix * iy;
+            }
+        }
+
+        return a * b - c * c - this.HARRIS_K * (a + b) * (a + b);
+    }
+
+    /**
+     * Computes the orientation of a keypoint as the direction from the
+     * keypoint to the intensity centroid of its circular patch.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param x The keypoint horizontal position.
+     * @param y The keypoint vertical position.
+     * @return The orientation, in radians.
+     */
+    private static getOrientation_(gray: Uint8Array, width: number, x: number, y: number): number {
+        const radius = this.PATCH_RADIUS;
+        let m01 = 0;
+        let m10 = 0;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+            const span = Math.floor(Math.sqrt(radius * radius - dy * dy));
+            for (let dx = -span; dx <= span; dx++) {
+                const value = gray[(y + dy) * width + x + dx];
+                m10 += dx * value;
+                m01 += dy * value;
+            }
+        }
+
+        return Math.atan2(m01, m10);
+    }
+
+    /**
+     * Gets the luma channel of grayscale pixels.
+     * @param gray The grayscale pixels in a linear [p,p,p,255,...] array.
+     * @return The grayscale pixels in a linear array.
+     */
+    private static getLuma_(gray: Uint8Array): Uint8Array {
+        const luma = new Uint8Array(gray.length >> 2);
+        for (let i = 0; i < luma.length; i++) {
+            luma[i] = gray[i * 4];
+        }
+        return luma;
+    }
+}
+
+/**
+ * Interface for the tuning of the ORB detection
+ */
+export interface OrbOptions {
+    levels?: number;
+    maxFeatures?: number;
+    scaleFactor?: number;
+    threshold?: number;
+}
+
+/**
+ * Interface for ORB features. `keypoints` and `descriptors` have the format
+ * of `Fast.findCorners` and `Brief.getDescriptors`. For each keypoint,
+ * `angles` holds its orientation in radians, `levels` the pyramid level it
+ * was found at and `scores` its Harris score.
+ */
+export interface OrbFeatures {
+    keypoints: number[];
+    descriptors: Int32Array;
+    angles: number[];
+    levels: number[];
+    scores: number[];
+}
@@ -0,0 +1,199 @@
+import { Rect } from "../detection/Rect";
+
+/**
+ * TemplateMatcher utility class to follow a rectangle between frames by
+ * matching its appearance. The rectangle is sampled on a coarse grid, so the
+ * cost does not depend on its size, and compared with normalized cross
+ * correlation, which is robust to lighting changes. Only translations are
+ * searched, scale and rotation changes lower the match score.
+ */
+export class TemplateMatcher {
+    /**
+     * Holds the default number of grid samples per side of a template.
+     */
+    public static readonly SIZE: number = 16;
+
+    /**
+     * Creates the template of a rectangle.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param rect The rectangle to sample.
+     * @param optSize Optional number of grid samples per side.
+     * @return The template.
+     */
+    public static create(gray: Uint8Array, width: number, height: number, rect: Rect, optSize?: number): Template {
+        const size = optSize || this.SIZE;
+        const template: Template = {
+            size: size,
+            width: rect.width,
+            height: rect.height,
+            values: new Float32Array(size * size),
+        };
+
+        this.sample_(gray, width, height, template, rect.x, rect.y, template.values);
+        this.normalize_(template.values);
+        return template;
+    }
+
+    /**
+     * Finds the position around a rectangle that best matches a template.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param template The template.
+     * @param rect The rectangle where the search starts, usually its position
+     *     in the previous frame.
+     * @param radius The maximum displacement searched, in pixels.
+     * @return The best match, with its normalized cross correlation score
+     *     from -1 to 1.
+     */
+    public static match(
+        gray: Uint8Array,
+        width: number,
+        height: number,
+        template: Template,
+        rect: Rect,
+        radius: number
+    ): TemplateMatch {
+        const samples = new Float32Array(template.values.length);
+        const step = Math.max(1, Math.round(Math.min(template.width, template.height) / template.size));
+        const best: TemplateMatch = { x: rect.x, y: rect.y, score: -Infinity };
+
+        const search = (x0: number, y0: number, r: number, s: number) => {
+            for (let dy = -r; dy <= r; dy += s) {
+                for (let dx = -r; dx <= r; dx += s) {
+                    const score = this.score_(gray, width, height, template, x0 + dx, y0 + dy, samples);
+                    if (score > best.score) {
+                        best.x = x0 + dx;
+                        best.y = y0 + dy;
+                        best.score = score;
+                    }
+                }
+            }
+        };
+
+        // Coarse search on the template grid, refined around the best match.
+        const r = Math.max(0, Math.round(radius));
+        search(rect.x, rect.y, r - (r % step), step);
+        if (step > 1) {
+            search(best.x, best.y, step - 1, 1);
+        }
+
+        return best;
+    }
+
+    /**
+     * Computes the normalized cross correlation of a template at a position.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param template The template.
+     * @param x The horizontal position.
+     * @param y The vertical position.
+     * @param samples Buffer for the samples at the position.
+     * @return The score, from -1 to 1, or 0 for flat regions.
+     */
+    private static score_(
+        gray: Uint8Array,
+        width: number,
+        height: number,
+        template: Template,
+        x: number,
+        y: number,
+        samples: Float32Array
+    ): number {
+        this.sample_(gray, width, height, template, x, y, samples);
+        if (!this.normalize_(samples)) {
+            return 0;
+        }
+
+        let score = 0;
+        for (let i = 0; i < samples.length; i++) {
+            score += samples[i] * template.values[i];
+        }
+        return score;
+    }
+
+    /**
+     * Samples the grid of a template at a position. Samples outside the image
+     * are clamped to its border.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param template The template.
+     * @param x The horizontal position.
+     * @param y The vertical position.
+     * @param samples Buffer for the samples.
+     */
+    private static sample_(
+        gray: Uint8Array,
+        width: number,
+        height: number,
+        template: Template,
+        x: number,
+        y: number,
+        samples: Float32Array
+    ): void {
+        const size = template.size;
+        const cellWidth = template.width / size;
+        const cellHeight = template.height / size;
+
+        for (let i = 0; i < size; i++) {
+            const row = Math.min(height - 1, Math.max(0, Math.floor(y + (i + 0.5) * cellHeight)));
+            for (let j = 0; j < size; j++) {
+                const col = Math.min(width - 1, Math.max(0, Math.floor(x + (j + 0.5) * cellWidth)));
+                samples[i * size + j] = gray[row * width + col];
+            }
+        }
+    }
+
+    /**
+     * Normalizes the samples to zero mean and unit norm.
+     * @param samples The samples.
+     * @return False if the samples are flat and cannot be normalized.
+     */
+    private static normalize_(samples: Float32Array): boolean {
+        let mean = 0;
+        for (let i = 0; i < samples.length; i++) {
+            mean += samples[i];
+        }
+        mean /= samples.length;
+
+        let norm = 0;
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] -= mean;
+            norm += samples[i] * samples[i];
+        }
+        norm = Math.sqrt(norm);
+
+        if (norm < 1e-6) {
+            samples.fill(0);
+            return false;
+        }
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] /= norm;
+        }
+        return true;
+    }
+}
+
+/**
+ * Interface for the template of a rectangle, `values` holding its
+ * normalized grid samples.
+ */
+export interface Template {
+    size: number;
+    width: number;
+    height: number;
+    values: Float32Array;
+}
+
+/**
+ * Interface for a template match
+ */
+export interface TemplateMatch {
+    x: number;
+    y: number;
+    score: number;
+}
@@ -1,4 +1,47 @@
-export { ColorTracker } from "./trackers/ColorTracker";
+export {
+    ColorTracker,
+    ColorDefinition,
+    ColorRegion,
+    HexColorDefinition,
+    HsvColorDefinition,
+    LabColorDefinition,
+} from "./trackers/ColorTracker";
 export { ObjectTracker } from "./trackers/ObjectTracker";
-export { LandmarksTracker } from "./trackers/LandmarksTracker";
+export { ImageTargetTracker, ImageTarget, ImageTargetResult } from "./trackers/ImageTargetTracker";
+export { LandmarksTracker, LandmarksResult } from "./trackers/LandmarksTracker";
+export { MotionTracker } from "./trackers/MotionTracker";
+export { Tracker, TrackEvent, TrackerEvents, TrackerLike } from "./trackers/Tracker";
+export { TrackerTask, TrackerTaskEvents } from "./trackers/TrackerTask";
+export { MultiObjectTracker, AssignmentMethod, TrackedObject } from "./trackers/MultiObjectTracker";
+export { SmoothingTracker } from "./trackers/SmoothingTracker";
+export { WorkerTracker } from "./trackers/WorkerTracker";
+export { TrackerWorker } from "./trackers/TrackerWorker";
+export { MessageEndpoint } from "./trackers/WorkerProtocol";
 export { Rect } from "./detection/Rect";
+export { Blob, BlobMoments, Blobs } from "./detection/Blob";
+export { ConnectedComponents } from "./detection/ConnectedComponents";
+export { Assignment } from "./math/Assignment";
+export { Homography, HomographyOptions, HomographyResult } from "./math/Homography";
+export { Brief, MatchResult } from "./features/Brief";
+export { Fast, FastCorners, FastOptions } from "./features/Fast";
+export {
+    DescriptorIndex,
+    DescriptorIndexOptions,
+    DescriptorIndexStats,
+    DescriptorNeighbor,
+} from "./features/DescriptorIndex";
+export { Orb, OrbFeatures, OrbOptions } from "./features/Orb";
+export { OpticalFlow, ImagePyramid, OpticalFlowOptions, OpticalFlowResult, PyramidLevel } from "./features/OpticalFlow";
+export { TemplateMatcher, Template, TemplateMatch } from "./features/TemplateMatcher";
+export { SmoothingFilter, SmoothingFilterFactory } from "./smoothing/SmoothingFilter";
+export { Smoother } from "./smoothing/Smoother";
+export { ExponentialFilter, ExponentialFilterOptions } from "./smoothing/ExponentialFilter";
+export { KalmanFilter, KalmanFilterOptions } from "./smoothing/KalmanFilter";
+export { OneEuroFilter, OneEuroFilterOptions } from "./smoothing/OneEuroFilter";
+export { EPnP, PoseResult } from "./pose/EPnP";
+export { HeadPose, HeadPoseResult, PinholeCamera } from "./pose/HeadPose";
+export { LBF, LBFModelData } from "./alignment/LBF";
+export { LBFTrainer, LBFTrainingOptions, LBFTrainingSample } from "./alignment/LBFTrainer";
+export { ViolaJones } from "./detection/ViolaJones";
+export { Cascade } from "./detection/Cascade";
+export { Image } from "./utils/Image";
@@ -0,0 +1,154 @@
+/**
+ * Assignment utility class to solve the linear assignment problem, i.e. to
+ * pair the rows and columns of a cost matrix so that the total cost is
+ * minimal. Infinite costs mark the pairs that are not allowed.
+ */
+export class Assignment {
+    /**
+     * Solves the assignment problem optimally with the Hungarian algorithm,
+     * in O(n^3) for a n x n cost matrix.
+     * @param cost The cost matrix, rows by columns.
+     * @return The column assigned to each row, or -1 when the row is not
+     *     assigned.
+     */
+    public static hungarian(cost: number[][]): number[] {
+        const rows = cost.length;
+        const cols = rows ? cost[0].length : 0;
+        if (!rows || !cols) {
+            return this.unassigned_(rows);
+        }
+
+        // The algorithm requires no more rows than columns.
+        if (rows > cols) {
+            const transposed: number[][] = [];
+            for (let j = 0; j < cols; j++) {
+                transposed[j] = [];
+                for (let i = 0; i < rows; i++) {
+                    transposed[j][i] = cost[i][j];
+                }
+            }
+            const colAssignment = this.hungarian(transposed);
+            const assignment = this.unassigned_(rows);
+            colAssignment.forEach((i, j) => {
+                if (i !== -1) {
+                    assignment[i] = j;
+                }
+            });
+            return assignment;
+        }
+
+        // Forbidden pairs cost more than any assignment of allowed pairs.
+        let maxCost = 0;
+        for (let i = 0; i < rows; i++) {
+            for (let j = 0; j < cols; j++) {
+                if (isFinite(cost[i][j])) {
+                    maxCost = Math.max(maxCost, Math.abs(cost[i][j]));
+                }
+            }
+        }
+        const forbidden = (maxCost + 1) * (rows + 1);
+
+        // Potentials u, v and matching p are 1-based, index 0 is a sentinel.
+        const u = new Float64Array(rows + 1);
+        const v = new Float64Array(cols + 1);
+        const p = new Int32Array(cols + 1);
+        const way = new Int32Array(cols + 1);
+
+        for (let i = 1; i <= rows; i++) {
+            const minv = new Float64Array(cols + 1).fill(Infinity);
+            const used = new Uint8Array(cols + 1);
+            let j0 = 0;
+            p[0] = i;
+
+            do {
+                used[j0] = 1;
+                const i0 = p[j0];
+                let delta = Infinity;
+                let j1 = 0;
+
+                for (let j = 1; j <= cols; j++) {
+                    if (used[j]) {
+                        continue;
+                    }
+                    const c = cost[i0 - 1][j - 1];
+                    const reduced = (isFinite(c) ? c : forbidden) - u[i0] - v[j];
+                    if (reduced < minv[j]) {
+                        minv[j] = reduced;
+                        way[j] = j0;
+                    }
+                    if (minv[j] < delta) {
+                        delta = minv[j];
+                        j1 = j;
+                    }
+                }
+
+                for (let j = 0; j <= cols; j++) {
+                    if (used[j]) {
+                        u[p[j]] += delta;
+                        v[j] -= delta;
+                    } else {
+                        minv[j] -= delta;
+                    }
+                }
+                j0 = j1;
+            } while (p[j0] !== 0);
+
+            do {
+                const j1 = way[j0];
+                p[j0] = p[j1];
+                j0 = j1;
+            } while (j0);
+        }
+
+        const assignment = this.unassigned_(rows);
+        for (let j = 1; j <= cols; j++) {
+            if (p[j] && isFinite(cost[p[j] - 1][j - 1])) {
+                assignment[p[j] - 1] = j - 1;
+            }
+        }
+        return assignment;
+    }
+
+    /**
+     * Solves the assignment problem greedily, pairing first the rows and
+     * columns with the lowest cost. It is faster than `hungarian` but the total
+     * cost is not always minimal.
+     * @param cost The cost matrix, rows by columns.
+     * @return The column assigned to each row, or -1 when the row is not
+     *     assigned.
+     */
+    public static greedy(cost: number[][]): number[] {
+        const pairs: number[][] = [];
+        for (let i = 0; i < cost.length; i++) {
+            for (let j = 0; j < cost[i].length; j++) {
+                if (isFinite(cost[i][j])) {
+                    pairs.push([cost[i][j], i, j]);
+                }
+            }
+        }
+        pairs.sort((a, b) => a[0] - b[0]);
+
+        const assignment = this.unassigned_(cost.length);
+        const usedCols: Record<number, boolean> = {};
+        pairs.forEach((pair) => {
+            if (assignment[pair[1]] === -1 && !usedCols[pair[2]]) {
+                assignment[pair[1]] = pair[2];
+                usedCols[pair[2]] = true;
+            }
+        });
+        return assignment;
+    }
+
+    /**
+     * Creates an assignment with no row assigned.
+     * @param rows The number of rows.
+     * @return The assignment.
+     */
+    private static unassigned_(rows: number): number[] {
+        const assignment: number[] = [];
+        for (let i = 0; i < rows; i++) {
+            assignment.push(-1);
+        }
+        return assignment;
+    }
+}
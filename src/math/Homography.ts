@@ -0,0 +1,400 @@
+import { Matrix, MatrixType } from "./Matrix";
+import { MatchResult } from "../features/Brief";
+
+/**
+ * Homography utility class to estimate the 3x3 projective transformation
+ * between two views of a plane, e.g. to find a reference image in a camera
+ * frame from the matches of their keypoints:
+ *
+ * ```
+ * const matches = Brief.reciprocalMatch(keypoints1, descriptors1, keypoints2, descriptors2);
+ * const result = Homography.fromMatches(matches);
+ * const corners = result && Homography.projectCorners(result.homography, width, height);
+ * ```
+ *
+ * The homography is solved with the normalized direct linear transformation
+ * (DLT), and `ransac` rejects the wrong matches.
+ */
+export class Homography {
+    /**
+     * Holds the default maximum reprojection error, in pixels, of the inliers.
+     */
+    public static readonly THRESHOLD: number = 3;
+
+    /**
+     * Holds the default maximum number of RANSAC iterations.
+     */
+    public static readonly MAX_ITERATIONS: number = 1000;
+
+    /**
+     * Holds the default probability that RANSAC draws at least one sample
+     * free of outliers. It stops earlier when enough inliers are found.
+     */
+    public static readonly CONFIDENCE: number = 0.995;
+
+    /**
+     * Estimates the homography that maps the source points into the
+     * destination points with the normalized DLT, in the least squares sense
+     * when there are more than four points.
+     * @param src The source points, e.g. [[x0,y0],[x1,y1],...].
+     * @param dst The destination points, e.g. [[u0,v0],[u1,v1],...], where
+     *     P(u0,v0) is the image of the first source point.
+     * @return The 3x3 homography, or null when the points are degenerate,
+     *     e.g. collinear.
+     */
+    public static estimate(src: MatrixType, dst: MatrixType): MatrixType | null {
+        const n = src.length;
+
+        if (n < 4 || dst.length !== n) {
+            throw new Error(
+                "Homography requires at least four source points and the same number of destination points."
+            );
+        }
+
+        const srcNormalization = this.getNormalization_(src);
+        const dstNormalization = this.getNormalization_(dst);
+        if (!srcNormalization || !dstNormalization) {
+            return null;
+        }
+
+        // Each correspondence adds two rows to the 2n x 9 matrix A, with A * h = 0.
+        const a: MatrixType = [];
+        for (let i = 0; i < n; i++) {
+            const p = this.transformPoint_(srcNormalization, src[i][0], src[i][1]);
+            const q = this.transformPoint_(dstNormalization, dst[i][0], dst[i][1]);
+            a.push([p[0], p[1], 1, 0, 0, 0, -q[0] * p[0], -q[0] * p[1], -q[0]]);
+            a.push([0, 0, 0, p[0], p[1], 1, -q[1] * p[0], -q[1] * p[1], -q[1]]);
+        }
+
+        // The solution is the right singular vector of the smallest singular
+        // value of A, which is also the one of A^T * A.
+        const svd = Matrix.svd(Matrix.mul(Matrix.transpose(a), a));
+        if (svd.s[7] <= 1e-12 * svd.s[0]) {
+            return null;
+        }
+        const normalized = [0, 1, 2].map((i) => [0, 1, 2].map((j) => svd.v[i * 3 + j][8]));
+
+        const dstDenormalization = Matrix.invert(dstNormalization);
+        if (!dstDenormalization) {
+            return null;
+        }
+        const homography = Matrix.mul(Matrix.mul(dstDenormalization, normalized), srcNormalization);
+        return this.normalize_(homography);
+    }
+
+    /**
+     * Estimates the homography between the keypoints of matches, e.g. from
+     * `Brief.match` or `Brief.reciprocalMatch`, rejecting the wrong matches
+     * with RANSAC. The homography maps the keypoints of the first image into
+     * the second one.
+     * @param matches The keypoint matches.
+     * @param optOptions Optional tuning of RANSAC.
+     * @return The homography and its inliers, or null when none is found.
+     */
+    public static fromMatches(matches: MatchResult[], optOptions?: HomographyOptions): HomographyResult | null {
+        const src = matches.map((match) => [match.keypoint1[0], match.keypoint1[1]]);
+        const dst = matches.map((match) => [match.keypoint2[0], match.keypoint2[1]]);
+        return this.ransac(src, dst, optOptions);
+    }
+
+    /**
+     * Projects the corners of a rectangle, e.g. of the reference image, with a
+     * homography.
+     * @param homography The 3x3 homography.
+     * @param width The rectangle width.
+     * @param height The rectangle height.
+     * @return The top-left, top-right, bottom-right and bottom-left corners,
+     *     e.g. [[x0,y0],[x1,y1],[x2,y2],[x3,y3]].
+     */
+    public static projectCorners(homography: MatrixType, width: number, height: number): MatrixType {
+        return this.project(homography, [
+            [0, 0],
+            [width, 0],
+            [width, height],
+            [0, height],
+        ]);
+    }
+
+    /**
+     * Projects points with a homography.
+     * @param homography The 3x3 homography.
+     * @param points The points, e.g. [[x0,y0],[x1,y1],...].
+     * @return The projected points. Points projected to infinity are
+     *     [Infinity, Infinity].
+     */
+    public static project(homography: MatrixType, points: MatrixType): MatrixType {
+        return points.map((point) => this.transformPoint_(homography, point[0], point[1]));
+    }
+
+    /**
+     * Estimates the homography that maps the source points into the
+     * destination points with RANSAC: homographies of random samples of four
+     * points are scored by their number of inliers, and the best one is
+     * refined with the normalized DLT on all its inliers.
+     * @param src The source points, e.g. [[x0,y0],[x1,y1],...].
+     * @param dst The destination points, e.g. [[u0,v0],[u1,v1],...].
+     * @param optOptions Optional tuning of RANSAC.
+     * @return The homography and its inliers, or null when none is found.
+     */
+    public static ransac(src: MatrixType, dst: MatrixType, optOptions?: HomographyOptions): HomographyResult | null {
+        const options = optOptions || {};
+        const threshold = options.threshold !== undefined ? options.threshold : this.THRESHOLD;
+        const maxIterations = options.maxIterations !== undefined ? options.maxIterations : this.MAX_ITERATIONS;
+        const confidence = options.confidence !== undefined ? options.confidence : this.CONFIDENCE;
+        const random = options.random || Math.random;
+        const n = src.length;
+
+        if (dst.length !== n) {
+            throw new Error("Homography requires the same number of source and destination points.");
+        }
+        if (n < 4) {
+            return null;
+        }
+
+        let best: HomographyResult | null = null;
+        let bestCount = 0;
+        let iterations = maxIterations;
+
+        for (let iteration = 0; iteration < iterations; iteration++) {
+            const sample = this.sample_(n, random);
+            const sampleSrc = sample.map((i) => src[i]);
+            const sampleDst = sample.map((i) => dst[i]);
+            if (this.isDegenerate_(sampleSrc) || this.isDegenerate_(sampleDst)) {
+                continue;
+            }
+
+            const homography = this.estimate(sampleSrc, sampleDst);
+            if (!homography) {
+                continue;
+            }
+
+            const result = this.score_(homography, src, dst, threshold);
+            const count = this.countInliers_(result.inliers);
+            if (count > bestCount || (count === bestCount && best && result.error < best.error)) {
+                best = result;
+                bestCount = count;
+
+                // Enough iterations to draw a sample of four inliers.
+                const outlierFree = Math.pow(count / n, 4);
+                if (outlierFree >= 1) {
+                    break;
+                }
+                iterations = Math.min(
+                    maxIterations,
+                    Math.ceil(Math.log(1 - confidence) / Math.log(1 - Math.max(outlierFree, 1e-12)))
+                );
+            }
+        }
+
+        if (!best || bestCount < 4) {
+            return null;
+        }
+
+        // Refines the homography on its inliers, while they grow.
+        for (let refinement = 0; refinement < 5; refinement++) {
+            const inliers = best.inliers;
+            const homography = this.estimate(
+                src.filter((_, i) => inliers[i]),
+                dst.filter((_, i) => inliers[i])
+            );
+            if (!homography) {
+                break;
+            }
+            const result = this.score_(homography, src, dst, threshold);
+            const count = this.countInliers_(result.inliers);
+            if (count < bestCount || (count === bestCount && result.error >= best.error)) {
+                break;
+            }
+            best = result;
+            bestCount = count;
+        }
+
+        return best;
+    }
+
+    /**
+     * Computes the reprojection error of each correspondence.
+     * @param homography The 3x3 homography.
+     * @param src The source points.
+     * @param dst The destination points.
+     * @return The distance, in pixels, between each destination point and
+     *     its projected source point.
+     */
+    public static reprojectionErrors(homography: MatrixType, src: MatrixType, dst: MatrixType): number[] {
+        return src.map((point, i) => {
+            const p = this.transformPoint_(homography, point[0], point[1]);
+            const dx = p[0] - dst[i][0];
+            const dy = p[1] - dst[i][1];
+            return Math.sqrt(dx * dx + dy * dy);
+        });
+    }
+
+    /**
+     * Counts the inliers.
+     * @param inliers The inlier mask.
+     * @return The number of inliers.
+     */
+    private static countInliers_(inliers: boolean[]): number {
+        let count = 0;
+        for (let i = 0; i < inliers.length; i++) {
+            if (inliers[i]) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Computes the similarity transformation that moves the centroid of points
+     * to the origin and their mean distance to it to sqrt(2), which makes the
+     * DLT well conditioned.
+     * @param points The points.
+     * @return The 3x3 transformation, or null when the points coincide.
+     */
+    private static getNormalization_(points: MatrixType): MatrixType | null {
+        let cx = 0;
+        let cy = 0;
+        points.forEach((point) => {
+            cx += point[0];
+            cy += point[1];
+        });
+        cx /= points.length;
+        cy /= points.length;
+
+        let distance = 0;
+        points.forEach((point) => {
+            distance += Math.sqrt((point[0] - cx) * (point[0] - cx) + (point[1] - cy) * (point[1] - cy));
+        });
+        distance /= points.length;
+        if (distance < 1e-12) {
+            return null;
+        }
+
+        const scale = Math.SQRT2 / distance;
+        return [
+            [scale, 0, -scale * cx],
+            [0, scale, -scale * cy],
+            [0, 0, 1],
+        ];
+    }
+
+    /**
+     * Checks whether three of four points are collinear, in which case they
+     * do not define a homography.
+     * @param points The four points.
+     * @return True if the points are degenerate.
+     */
+    private static isDegenerate_(points: MatrixType): boolean {
+        for (let i = 0; i < 4; i++) {
+            const a = points[i];
+            const b = points[(i + 1) % 4];
+            const c = points[(i + 2) % 4];
+            const area = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+            if (Math.abs(area) < 1e-6) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Scales a homography so its last element is 1, or its norm is 1 when
+     * the last element is 0.
+     * @param homography The 3x3 homography.
+     * @return The scaled homography.
+     */
+    private static normalize_(homography: MatrixType): MatrixType {
+        const last = homography[2][2];
+        const scale = Math.abs(last) > 1e-12 ? 1 / last : 1 / Matrix.norm(homography);
+        return Matrix.mulScalar(scale, homography);
+    }
+
+    /**
+     * Draws four distinct indexes.
+     * @param n The number of indexes.
+     * @param random The random number generator, in [0, 1).
+     * @return The indexes.
+     */
+    private static sample_(n: number, random: () => number): number[] {
+        const sample: number[] = [];
+        while (sample.length < 4) {
+            const index = Math.min(n - 1, Math.floor(random() * n));
+            if (sample.indexOf(index) === -1) {
+                sample.push(index);
+            }
+        }
+        return sample;
+    }
+
+    /**
+     * Scores a homography by its reprojection errors.
+     * @param homography The 3x3 homography.
+     * @param src The source points.
+     * @param dst The destination points.
+     * @param threshold The maximum reprojection error of the inliers.
+     * @return The homography with its inliers and their mean error.
+     */
+    private static score_(
+        homography: MatrixType,
+        src: MatrixType,
+        dst: MatrixType,
+        threshold: number
+    ): HomographyResult {
+        const errors = this.reprojectionErrors(homography, src, dst);
+        const inliers = errors.map((error) => error <= threshold);
+        let error = 0;
+        let count = 0;
+        errors.forEach((value, i) => {
+            if (inliers[i]) {
+                error += value;
+                count++;
+            }
+        });
+
+        return {
+            homography: homography,
+            inliers: inliers,
+            error: count ? error / count : Infinity,
+        };
+    }
+
+    /**
+     * Transforms a point with a 3x3 projective transformation.
+     * @param homography The 3x3 transformation.
+     * @param x The horizontal position.
+     * @param y The vertical position.
+     * @return The transformed point.
+     */
+    private static transformPoint_(homography: MatrixType, x: number, y: number): number[] {
+        const w = homography[2][0] * x + homography[2][1] * y + homography[2][2];
+        if (Math.abs(w) < 1e-12) {
+            return [Infinity, Infinity];
+        }
+        return [
+            (homography[0][0] * x + homography[0][1] * y + homography[0][2]) / w,
+            (homography[1][0] * x + homography[1][1] * y + homography[1][2]) / w,
+        ];
+    }
+}
+
+/**
+ * Interface for the tuning of RANSAC. `random` returns numbers in [0, 1),
+ * `Math.random` by default, and can be seeded for reproducible results.
+ */
+export interface HomographyOptions {
+    threshold?: number;
+    maxIterations?: number;
+    confidence?: number;
+    random?: () => number;
+}
+
+/**
+ * Interface for homography results. `inliers` flags the correspondences
+ * whose reprojection error is below the threshold, and `error` is their
+ * mean reprojection error in pixels.
+ */
+export interface HomographyResult {
+    homography: MatrixType;
+    inliers: boolean[];
+    error: number;
+}
@@ -126,6 +126,224 @@ export class Matrix {
         return res;
     }
 
+    /**
+     * Creates a new NxN identity matrix.
+     * @param {number} n The matrix dimension.
+     */
+    static identity(n: number): MatrixType {
+        var res = new Array(n);
+        for (var i = 0; i < n; i++) {
+            res[i] = new Array(n);
+            for (var j = 0; j < n; j++) {
+                res[i][j] = i === j ? 1 : 0;
+            }
+        }
+        return res;
+    }
+
+    /**
+     * Calculates the determinant of an NxN matrix using LU decomposition with
+     * partial pivoting.
+     * @param {matrix} src The square matrix.
+     */
+    static determinant(src: MatrixType): number {
+        var a = Matrix.clone(src);
+        var n = a.length;
+        var det = 1;
+        for (var k = 0; k < n; k++) {
+            var pivot = k;
+            for (var i = k + 1; i < n; i++) {
+                if (Math.abs(a[i][k]) > Math.abs(a[pivot][k])) {
+                    pivot = i;
+                }
+            }
+            if (a[pivot][k] === 0) {
+                return 0;
+            }
+            if (pivot !== k) {
+                var row = a[pivot];
+                a[pivot] = a[k];
+                a[k] = row;
+                det = -det;
+            }
+            det *= a[k][k];
+            for (var i = k + 1; i < n; i++) {
+                var factor = a[i][k] / a[k][k];
+                for (var j = k; j < n; j++) {
+                    a[i][j] -= factor * a[k][j];
+                }
+            }
+        }
+        return det;
+    }
+
+    /**
+     * Inverts an NxN matrix using Gauss-Jordan elimination with partial
+     * pivoting and returns a new matrix as the result. Returns `null` when the
+     * matrix is singular.
+     * @param {matrix} src The square matrix to be inverted.
+     */
+    static invert(src: MatrixType): MatrixType | null {
+        var n = src.length;
+        var a = Matrix.clone(src);
+        var inv = Matrix.identity(n);
+        for (var k = 0; k < n; k++) {
+            var pivot = k;
+            for (var i = k + 1; i < n; i++) {
+                if (Math.abs(a[i][k]) > Math.abs(a[pivot][k])) {
+                    pivot = i;
+                }
+            }
+            if (Math.abs(a[pivot][k]) < 1e-12) {
+                return null;
+            }
+            var row = a[pivot];
+            a[pivot] = a[k];
+            a[k] = row;
+            row = inv[pivot];
+            inv[pivot] = inv[k];
+            inv[k] = row;
+
+            var p = a[k][k];
+            for (var j = 0; j < n; j++) {
+                a[k][j] /= p;
+                inv[k][j] /= p;
+            }
+            for (var i = 0; i < n; i++) {
+                if (i === k) {
+                    continue;
+                }
+                var factor = a[i][k];
+                if (factor !== 0) {
+                    for (var j = 0; j < n; j++) {
+                        a[i][j] -= factor * a[k][j];
+                        inv[i][j] -= factor * inv[k][j];
+                    }
+                }
+            }
+        }
+        return inv;
+    }
+
+    /**
+     * Calculates the singular value decomposition A = U * diag(S) * V^T of an
+     * MxN matrix, with M >= N, using the one-sided Jacobi method. The singular
+     * values are sorted in descending order and the columns of U and V follow
+     * the same order.
+     * @param {matrix} src The matrix to be decomposed.
+     * @return {object} The MxN matrix `u`, the N singular values `s` and the
+     *     NxN matrix `v`.
+     */
+    static svd(src: MatrixType): SVDResult {
+        var m = src.length;
+        var n = src[0].length;
+        if (m < n) {
+            throw new Error("SVD expects a matrix with at least as many rows as columns.");
+        }
+        var u = Matrix.clone(src);
+        var v = Matrix.identity(n);
+
+        for (var sweep = 0; sweep < 60; sweep++) {
+            var rotated = false;
+            for (var p = 0; p < n - 1; p++) {
+                for (var q = p + 1; q < n; q++) {
+                    var alpha = 0;
+                    var beta = 0;
+                    var gamma = 0;
+                    for (var i = 0; i < m; i++) {
+                        alpha += u[i][p] * u[i][p];
+                        beta += u[i][q] * u[i][q];
+                        gamma += u[i][p] * u[i][q];
+                    }
+                    if (Math.abs(gamma) <= 1e-15 * Math.sqrt(alpha * beta) || gamma === 0) {
+                        continue;
+                    }
+                    rotated = true;
+                    var zeta = (beta - alpha) / (2 * gamma);
+                    var t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+                    var c = 1 / Math.sqrt(1 + t * t);
+                    var s = c * t;
+                    for (var i = 0; i < m; i++) {
+                        var up = u[i][p];
+                        u[i][p] = c * up - s * u[i][q];
+                        u[i][q] = s * up + c * u[i][q];
+                    }
+                    for (var i = 0; i < n; i++) {
+                        var vp = v[i][p];
+                        v[i][p] = c * vp - s * v[i][q];
+                        v[i][q] = s * vp + c * v[i][q];
+                    }
+                }
+            }
+            if (!rotated) {
+                break;
+            }
+        }
+
+        var singular = new Array(n);
+        for (var j = 0; j < n; j++) {
+            var norm = 0;
+            for (var i = 0; i < m; i++) {
+                norm += u[i][j] * u[i][j];
+            }
+            norm = Math.sqrt(norm);
+            singular[j] = norm;
+            for (var i = 0; i < m; i++) {
+                u[i][j] = norm > 0 ? u[i][j] / norm : 0;
+            }
+        }
+
+        var order = singular.map((_: number, index: number) => index);
+        order.sort((a: number, b: number) => singular[b] - singular[a]);
+
+        return {
+            u: u.map((row: number[]) => order.map((j: number) => row[j])),
+            s: order.map((j: number) => singular[j]),
+            v: v.map((row: number[]) => order.map((j: number) => row[j])),
+        };
+    }
+
+    /**
+     * Solves the linear system A * x = b in the least squares sense using the
+     * pseudo-inverse of A. Singular values smaller than a relative tolerance
+     * are ignored, so rank deficient systems return the minimum norm solution.
+     * @param {matrix} a The MxN coefficients matrix.
+     * @param {array} b The M right-hand side values.
+     * @return {array} The N unknowns.
+     */
+    static solve(a: MatrixType, b: number[]): number[] {
+        var n = a[0].length;
+        var m = a.length;
+        var padded = a;
+        if (m < n) {
+            // The Jacobi SVD expects M >= N, zero rows do not change the solution.
+            padded = Matrix.clone(a);
+            b = b.slice();
+            for (var i = m; i < n; i++) {
+                padded.push(new Array(n).fill(0));
+                b.push(0);
+            }
+            m = n;
+        }
+        var svd = Matrix.svd(padded);
+        var tolerance = 1e-12 * Math.max(m, n) * (svd.s[0] || 0);
+        var x = new Array(n).fill(0);
+        for (var k = 0; k < n; k++) {
+            if (svd.s[k] <= tolerance) {
+                continue;
+            }
+            var dot = 0;
+            for (var i = 0; i < m; i++) {
+                dot += svd.u[i][k] * b[i];
+            }
+            dot /= svd.s[k];
+            for (var j = 0; j < n; j++) {
+                x[j] += dot * svd.v[j][k];
+            }
+        }
+        return x;
+    }
+
     /**
      * Calculates the absolute norm of a matrix.
      * @param {matrix} src The matrix which norm will be calculated.
@@ -167,3 +385,12 @@ export class Matrix {
         return [covar, mean];
     }
 }
+
+/**
+ * Interface for singular value decomposition results
+ */
+export interface SVDResult {
+    u: MatrixType;
+    s: number[];
+    v: MatrixType;
+}
@@ -1,3 +1,5 @@
+import { Rect } from "../detection/Rect";
+
 /**
  * Math utility class for tracking operations.
  */
@@ -52,6 +54,47 @@ export class TrackingMath {
     return a + Math.random() * (b - a);
   }
 
+  /**
+   * Creates a seeded pseudo-random number generator (mulberry32), which
+   * returns the same sequence for the same seed on every platform.
+   * @param seed The seed, a 32-bit integer.
+   * @return Function returning random numbers in the [0, 1) interval
+   */
+  static createRandom(seed: number): () => number {
+    let state = seed | 0;
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Computes the intersection over union of two rectangles, from 0 when they
+   * do not overlap to 1 when they are the same.
+   * @param a The first rectangle.
+   * @param b The second rectangle.
+   * @param optInclusive Optional flag for rectangles of pixels whose width and
+   *     height are the distance between their first and last pixel, e.g. the
+   *     blobs of `ColorTracker`, which cover one more pixel in each direction.
+   * @return The intersection over union.
+   */
+  static intersectionOverUnion(a: Rect, b: Rect, optInclusive?: boolean): number {
+    const extra = optInclusive ? 1 : 0;
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) + extra;
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) + extra;
+
+    if (width <= 0 || height <= 0) {
+      return 0;
+    }
+
+    const intersection = width * height;
+    const areaA = (a.width + extra) * (a.height + extra);
+    const areaB = (b.width + extra) * (b.height + extra);
+    return intersection / (areaA + areaB - intersection);
+  }
+
   /**
    * Tests if a rectangle intersects with another.
    *
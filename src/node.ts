@@ -0,0 +1,157 @@
+import { promises as fs } from "fs";
+
+import { TrackEvent, TrackerLike } from "./trackers/Tracker";
+import { DecodedImage, Png } from "./utils/Png";
+import { Ppm } from "./utils/Ppm";
+
+export * from "./index";
+export { DecodedImage, Png } from "./utils/Png";
+export { Ppm } from "./utils/Ppm";
+
+/**
+ * Interface for a raw frame, with 8 bits RGBA pixels
+ */
+export interface Frame {
+    data: Uint8Array | Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * Source of a frame: a PNG or PPM file path, the contents of such a file, or
+ * a raw RGBA frame.
+ */
+export type FrameSource = string | Uint8Array | Frame;
+
+/**
+ * Decodes a PNG or PPM image, detected from its contents.
+ * @param data The file data.
+ * @return The decoded image.
+ */
+export function decodeImage(data: Uint8Array): DecodedImage {
+    if (Png.test(data)) {
+        return Png.decode(data);
+    }
+    if (Ppm.test(data)) {
+        return Ppm.decode(data);
+    }
+    throw new Error("Image format not supported, try a PNG or PPM image.");
+}
+
+/**
+ * Reads and decodes a PNG or PPM image file.
+ * @param path The image file path.
+ * @return A promise resolved with the decoded image.
+ */
+export function readImage(path: string): Promise<DecodedImage> {
+    return fs.readFile(path).then((data) => decodeImage(data));
+}
+
+/**
+ * Resolves a frame source into a raw frame.
+ * @param source The frame source.
+ * @return A promise resolved with the raw frame.
+ */
+export function readFrame(source: FrameSource): Promise<Frame> {
+    if (typeof source === "string") {
+        return readImage(source);
+    }
+    if (source instanceof Uint8Array) {
+        return Promise.resolve().then(() => decodeImage(source));
+    }
+    return Promise.resolve(source);
+}
+
+/**
+ * Tracks raw RGBA pixels, without a DOM. The tracker has to emit its result
+ * while tracking, so trackers emitting later, such as the `WorkerTracker`,
+ * are not supported and rather tracked through `TrackerTask.iterate`.
+ * @param tracker The tracker instance.
+ * @param pixels The pixels data to track.
+ * @param width The pixels width.
+ * @param height The pixels height.
+ * @return A promise resolved with the `track` event of the frame, or
+ *     rejected with the `error` event of the frame, or when the tracker
+ *     emitted neither.
+ */
+export function trackPixels<T>(
+    tracker: TrackerLike<T>,
+    pixels: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number
+): Promise<TrackEvent<T>> {
+    return new Promise((resolve, reject) => {
+        if (pixels.length !== width * height * 4) {
+            throw new Error("Frame size does not match, expected " + width + "x" + height + " RGBA pixels.");
+        }
+
+        const onTrack = (event: TrackEvent<T>) => {
+            removeListeners();
+            resolve(event);
+        };
+        const onError = (error: Error) => {
+            removeListeners();
+            reject(error);
+        };
+        const removeListeners = () => {
+            tracker.removeListener("track", onTrack);
+            tracker.removeListener("error", onError);
+        };
+
+        tracker.on("track", onTrack);
+        tracker.on("error", onError);
+
+        try {
+            tracker.track(toClampedArray_(pixels), width, height);
+        } finally {
+            removeListeners();
+        }
+
+        // Ignored when the listeners already settled the promise.
+        reject(new Error("Tracker did not emit a result for the frame, try a tracker that tracks synchronously."));
+    });
+}
+
+/**
+ * Tracks a single frame, e.g. an uploaded photo.
+ * @param tracker The tracker instance.
+ * @param source The frame source.
+ * @return A promise resolved with the `track` event of the frame.
+ */
+export function track<T>(tracker: TrackerLike<T>, source: FrameSource): Promise<TrackEvent<T>> {
+    return readFrame(source).then((frame) => trackPixels(tracker, frame.data, frame.width, frame.height));
+}
+
+/**
+ * Tracks a sequence of frames one after the other, reading the next frame
+ * only once the previous one is tracked.
+ * @param tracker The tracker instance.
+ * @param frames The frame sources, synchronous or asynchronous.
+ * @return An async iterator over the `track` event of each frame.
+ */
+export async function* trackFrames<T>(
+    tracker: TrackerLike<T>,
+    frames: Iterable<FrameSource> | AsyncIterable<FrameSource>
+): AsyncIterableIterator<TrackEvent<T>> {
+    for await (const source of frames) {
+        yield await track(tracker, source);
+    }
+}
+
+/**
+ * Views the pixels as an `Uint8ClampedArray`, which is what the trackers
+ * expect. The pixels are only copied when they do not span their whole
+ * buffer, e.g. a `Buffer` slice, since the trackers read the buffer from its
+ * start.
+ * @param pixels The pixels data.
+ * @return The clamped pixels data.
+ */
+function toClampedArray_(pixels: Uint8Array | Uint8ClampedArray): Uint8ClampedArray {
+    if (pixels.byteOffset !== 0 || pixels.byteLength !== pixels.buffer.byteLength) {
+        return new Uint8ClampedArray(pixels);
+    }
+    if (pixels instanceof Uint8ClampedArray) {
+        return pixels;
+    }
+    return new Uint8ClampedArray(pixels.buffer);
+}
@@ -1,5 +1,542 @@
-export interface EPnP {
+import { Matrix, MatrixType } from "../math/Matrix";
 
-  // solve(objectPoints, imagePoints, cameraMatrix);
+/**
+ * EPnP intends for "Efficient Perspective-n-Point". This method estimates
+ * the pose of a calibrated camera from n 3D-to-2D point correspondences.
+ * Each 3D reference point is expressed as a weighted sum of four virtual
+ * control points, hence the problem is reduced to estimating the coordinates
+ * of these control points in the camera referential, which can be done in
+ * O(n) time. The camera rotation and translation are then recovered by
+ * aligning both sets of control points.
+ *
+ * For more reference:
+ * http://cvlab.epfl.ch/files/content/sites/cvlab2/files/publications/publications/2009/LepetitMN09.pdf
+ */
+export class EPnP {
+    /**
+     * Holds the number of Gauss-Newton iterations used to refine the betas.
+     */
+    public static readonly GAUSS_NEWTON_ITERATIONS: number = 5;
 
+    /**
+     * Estimates the rotation and translation that project the object points
+     * into the image points.
+     * @param objectPoints The 3D model points, e.g. [[x0,y0,z0],[x1,y1,z1],...].
+     *     At least four non-coplanar points are required.
+     * @param imagePoints The 2D image points, e.g. [[u0,v0],[u1,v1],...],
+     *     where P(u0,v0) is the projection of the first object point.
+     * @param cameraMatrix The 3x3 camera intrinsics matrix,
+     *     e.g. [[fx,0,cx],[0,fy,cy],[0,0,1]].
+     * @return The rotation, translation and mean reprojection error in pixels.
+     */
+    public static solve(objectPoints: MatrixType, imagePoints: MatrixType, cameraMatrix: MatrixType): PoseResult {
+        const n = objectPoints.length;
+
+        if (n < 4 || imagePoints.length !== n) {
+            throw new Error("EPnP requires at least four object points and the same number of image points.");
+        }
+
+        const controlPoints = this.chooseControlPoints_(objectPoints);
+        const alphas = this.computeBarycentricCoordinates_(objectPoints, controlPoints);
+        const m = this.computeM_(alphas, imagePoints, cameraMatrix);
+
+        // The solution lies in the null space of M, spanned by the right
+        // singular vectors of the smallest singular values of M^T * M.
+        const svd = Matrix.svd(Matrix.mul(Matrix.transpose(m), m));
+        const nullSpace: number[][] = new Array(4);
+        for (let i = 0; i < 4; i++) {
+            nullSpace[i] = new Array(12);
+            for (let j = 0; j < 12; j++) {
+                nullSpace[i][j] = svd.v[j][11 - i];
+            }
+        }
+
+        const l = this.computeL6x10_(nullSpace);
+        const rho = this.computeRho_(controlPoints);
+
+        let best: PoseResult | null = null;
+        const approximations = [this.findBetasApprox1_, this.findBetasApprox2_, this.findBetasApprox3_];
+
+        for (let i = 0; i < approximations.length; i++) {
+            const betas = approximations[i](l, rho);
+            this.gaussNewton_(l, rho, betas);
+
+            const pose = this.computeRotationAndTranslation_(
+                nullSpace,
+                betas,
+                alphas,
+                objectPoints,
+                imagePoints,
+                cameraMatrix
+            );
+            if (!best || pose.reprojectionError < best.reprojectionError) {
+                best = pose;
+            }
+        }
+
+        return best!;
+    }
+
+    /**
+     * Projects the object points into the image plane.
+     * @param objectPoints The 3D points, e.g. [[x0,y0,z0],[x1,y1,z1],...].
+     * @param rotation The 3x3 rotation matrix.
+     * @param translation The translation vector [tx,ty,tz].
+     * @param cameraMatrix The 3x3 camera intrinsics matrix.
+     * @return The projected 2D points, e.g. [[u0,v0],[u1,v1],...].
+     */
+    public static project(
+        objectPoints: MatrixType,
+        rotation: MatrixType,
+        translation: number[],
+        cameraMatrix: MatrixType
+    ): MatrixType {
+        const fu = cameraMatrix[0][0];
+        const fv = cameraMatrix[1][1];
+        const uc = cameraMatrix[0][2];
+        const vc = cameraMatrix[1][2];
+        const projected: MatrixType = new Array(objectPoints.length);
+
+        for (let i = 0; i < objectPoints.length; i++) {
+            const p = objectPoints[i];
+            const x = rotation[0][0] * p[0] + rotation[0][1] * p[1] + rotation[0][2] * p[2] + translation[0];
+            const y = rotation[1][0] * p[0] + rotation[1][1] * p[1] + rotation[1][2] * p[2] + translation[1];
+            const z = rotation[2][0] * p[0] + rotation[2][1] * p[1] + rotation[2][2] * p[2] + translation[2];
+            projected[i] = [uc + (fu * x) / z, vc + (fv * y) / z];
+        }
+
+        return projected;
+    }
+
+    /**
+     * Calculates the mean euclidean distance, in pixels, between the image
+     * points and the object points projected with the given pose.
+     * @param objectPoints The 3D points.
+     * @param imagePoints The 2D image points.
+     * @param rotation The 3x3 rotation matrix.
+     * @param translation The translation vector [tx,ty,tz].
+     * @param cameraMatrix The 3x3 camera intrinsics matrix.
+     * @return The mean reprojection error.
+     */
+    public static reprojectionError(
+        objectPoints: MatrixType,
+        imagePoints: MatrixType,
+        rotation: MatrixType,
+        translation: number[],
+        cameraMatrix: MatrixType
+    ): number {
+        const projected = this.project(objectPoints, rotation, translation, cameraMatrix);
+        let sum = 0;
+
+        for (let i = 0; i < projected.length; i++) {
+            const du = projected[i][0] - imagePoints[i][0];
+            const dv = projected[i][1] - imagePoints[i][1];
+            sum += Math.sqrt(du * du + dv * dv);
+        }
+
+        return sum / projected.length;
+    }
+
+    /**
+     * Chooses the four control points in the world referential. The first one
+     * is the centroid of the object points and the remaining ones are aligned
+     * with the principal directions of the data.
+     * @param objectPoints The 3D points.
+     * @return The 4x3 matrix of control points.
+     */
+    private static chooseControlPoints_(objectPoints: MatrixType): MatrixType {
+        const n = objectPoints.length;
+        const centroid = [0, 0, 0];
+
+        for (let i = 0; i < n; i++) {
+            centroid[0] += objectPoints[i][0] / n;
+            centroid[1] += objectPoints[i][1] / n;
+            centroid[2] += objectPoints[i][2] / n;
+        }
+
+        const centered: MatrixType = new Array(n);
+        for (let i = 0; i < n; i++) {
+            centered[i] = [
+                objectPoints[i][0] - centroid[0],
+                objectPoints[i][1] - centroid[1],
+                objectPoints[i][2] - centroid[2],
+            ];
+        }
+
+        const svd = Matrix.svd(Matrix.mul(Matrix.transpose(centered), centered));
+        const controlPoints: MatrixType = [centroid];
+
+        for (let i = 0; i < 3; i++) {
+            const k = Math.sqrt(svd.s[i] / n);
+            controlPoints.push([
+                centroid[0] + k * svd.v[0][i],
+                centroid[1] + k * svd.v[1][i],
+                centroid[2] + k * svd.v[2][i],
+            ]);
+        }
+
+        return controlPoints;
+    }
+
+    /**
+     * Computes the barycentric coordinates of each object point with respect
+     * to the control points.
+     * @param objectPoints The 3D points.
+     * @param controlPoints The 4x3 matrix of control points.
+     * @return The Nx4 matrix of barycentric coordinates.
+     */
+    private static computeBarycentricCoordinates_(objectPoints: MatrixType, controlPoints: MatrixType): MatrixType {
+        const cc: MatrixType = [
+            [0, 0, 0],
+            [0, 0, 0],
+            [0, 0, 0],
+        ];
+
+        for (let i = 0; i < 3; i++) {
+            for (let j = 1; j < 4; j++) {
+                cc[i][j - 1] = controlPoints[j][i] - controlPoints[0][i];
+            }
+        }
+
+        const ccInverse = Matrix.invert(cc);
+        if (!ccInverse) {
+            throw new Error("EPnP requires at least four non-coplanar object points.");
+        }
+
+        const alphas: MatrixType = new Array(objectPoints.length);
+        for (let i = 0; i < objectPoints.length; i++) {
+            const p = objectPoints[i];
+            const a = [0, 0, 0, 0];
+
+            for (let j = 0; j < 3; j++) {
+                a[j + 1] =
+                    ccInverse[j][0] * (p[0] - controlPoints[0][0]) +
+                    ccInverse[j][1] * (p[1] - controlPoints[0][1]) +
+                    ccInverse[j][2] * (p[2] - controlPoints[0][2]);
+            }
+            a[0] = 1 - a[1] - a[2] - a[3];
+            alphas[i] = a;
+        }
+
+        return alphas;
+    }
+
+    /**
+     * Fills the 2Nx12 matrix M whose null space contains the coordinates of
+     * the control points in the camera referential.
+     * @param alphas The Nx4 matrix of barycentric coordinates.
+     * @param imagePoints The 2D image points.
+     * @param cameraMatrix The 3x3 camera intrinsics matrix.
+     * @return The 2Nx12 matrix M.
+     */
+    private static computeM_(alphas: MatrixType, imagePoints: MatrixType, cameraMatrix: MatrixType): MatrixType {
+        const fu = cameraMatrix[0][0];
+        const fv = cameraMatrix[1][1];
+        const uc = cameraMatrix[0][2];
+        const vc = cameraMatrix[1][2];
+        const m: MatrixType = [];
+
+        for (let i = 0; i < alphas.length; i++) {
+            const u = imagePoints[i][0];
+            const v = imagePoints[i][1];
+            const row1: number[] = [];
+            const row2: number[] = [];
+
+            for (let j = 0; j < 4; j++) {
+                row1.push(alphas[i][j] * fu, 0, alphas[i][j] * (uc - u));
+                row2.push(0, alphas[i][j] * fv, alphas[i][j] * (vc - v));
+            }
+            m.push(row1, row2);
+        }
+
+        return m;
+    }
+
+    /**
+     * Computes the 6x10 matrix L that relates the products of betas to the
+     * squared distances between the control points.
+     * @param nullSpace The four null space vectors of M, smallest first.
+     * @return The 6x10 matrix L.
+     */
+    private static computeL6x10_(nullSpace: number[][]): MatrixType {
+        const dv: number[][][] = new Array(4);
+
+        for (let i = 0; i < 4; i++) {
+            dv[i] = new Array(6);
+            let a = 0;
+            let b = 1;
+            for (let j = 0; j < 6; j++) {
+                dv[i][j] = [
+                    nullSpace[i][3 * a] - nullSpace[i][3 * b],
+                    nullSpace[i][3 * a + 1] - nullSpace[i][3 * b + 1],
+                    nullSpace[i][3 * a + 2] - nullSpace[i][3 * b + 2],
+                ];
+                b++;
+                if (b > 3) {
+                    a++;
+                    b = a + 1;
+                }
+            }
+        }
+
+        const dot = (u: number[], v: number[]): number => u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+        const l: MatrixType = new Array(6);
+
+        for (let i = 0; i < 6; i++) {
+            l[i] = [
+                dot(dv[0][i], dv[0][i]),
+                2 * dot(dv[0][i], dv[1][i]),
+                dot(dv[1][i], dv[1][i]),
+                2 * dot(dv[0][i], dv[2][i]),
+                2 * dot(dv[1][i], dv[2][i]),
+                dot(dv[2][i], dv[2][i]),
+                2 * dot(dv[0][i], dv[3][i]),
+                2 * dot(dv[1][i], dv[3][i]),
+                2 * dot(dv[2][i], dv[3][i]),
+                dot(dv[3][i], dv[3][i]),
+            ];
+        }
+
+        return l;
+    }
+
+    /**
+     * Computes the squared distances between each pair of control points.
+     * @param controlPoints The 4x3 matrix of control points.
+     * @return The six squared distances.
+     */
+    private static computeRho_(controlPoints: MatrixType): number[] {
+        const rho: number[] = [];
+
+        for (let a = 0; a < 4; a++) {
+            for (let b = a + 1; b < 4; b++) {
+                const dx = controlPoints[a][0] - controlPoints[b][0];
+                const dy = controlPoints[a][1] - controlPoints[b][1];
+                const dz = controlPoints[a][2] - controlPoints[b][2];
+                rho.push(dx * dx + dy * dy + dz * dz);
+            }
+        }
+
+        return rho;
+    }
+
+    /**
+     * Approximates the betas using [B11 B12 B13 B14].
+     * @param l The 6x10 matrix L.
+     * @param rho The squared distances between control points.
+     * @return The four betas.
+     */
+    private static findBetasApprox1_(l: MatrixType, rho: number[]): number[] {
+        const b4 = Matrix.solve(
+            l.map((row: number[]) => [row[0], row[1], row[3], row[6]]),
+            rho
+        );
+        const betas = [0, 0, 0, 0];
+
+        if (b4[0] < 0) {
+            betas[0] = Math.sqrt(-b4[0]);
+            betas[1] = -b4[1] / betas[0];
+            betas[2] = -b4[2] / betas[0];
+            betas[3] = -b4[3] / betas[0];
+        } else {
+            betas[0] = Math.sqrt(b4[0]);
+            betas[1] = b4[1] / betas[0];
+            betas[2] = b4[2] / betas[0];
+            betas[3] = b4[3] / betas[0];
+        }
+
+        return betas;
+    }
+
+    /**
+     * Approximates the betas using [B11 B12 B22].
+     * @param l The 6x10 matrix L.
+     * @param rho The squared distances between control points.
+     * @return The four betas.
+     */
+    private static findBetasApprox2_(l: MatrixType, rho: number[]): number[] {
+        const b3 = Matrix.solve(
+            l.map((row: number[]) => [row[0], row[1], row[2]]),
+            rho
+        );
+        const betas = [0, 0, 0, 0];
+
+        if (b3[0] < 0) {
+            betas[0] = Math.sqrt(-b3[0]);
+            betas[1] = b3[2] < 0 ? Math.sqrt(-b3[2]) : 0;
+        } else {
+            betas[0] = Math.sqrt(b3[0]);
+            betas[1] = b3[2] > 0 ? Math.sqrt(b3[2]) : 0;
+        }
+        if (b3[1] < 0) {
+            betas[0] = -betas[0];
+        }
+
+        return betas;
+    }
+
+    /**
+     * Approximates the betas using [B11 B12 B22 B13 B23].
+     * @param l The 6x10 matrix L.
+     * @param rho The squared distances between control points.
+     * @return The four betas.
+     */
+    private static findBetasApprox3_(l: MatrixType, rho: number[]): number[] {
+        const b5 = Matrix.solve(
+            l.map((row: number[]) => [row[0], row[1], row[2], row[3], row[4]]),
+            rho
+        );
+        const betas = [0, 0, 0, 0];
+
+        if (b5[0] < 0) {
+            betas[0] = Math.sqrt(-b5[0]);
+            betas[1] = b5[2] < 0 ? Math.sqrt(-b5[2]) : 0;
+        } else {
+            betas[0] = Math.sqrt(b5[0]);
+            betas[1] = b5[2] > 0 ? Math.sqrt(b5[2]) : 0;
+        }
+        if (b5[1] < 0) {
+            betas[0] = -betas[0];
+        }
+        betas[2] = betas[0] !== 0 ? b5[3] / betas[0] : 0;
+
+        return betas;
+    }
+
+    /**
+     * Refines the betas in place minimizing the difference between the
+     * distances of the control points in the camera and world referentials.
+     * @param l The 6x10 matrix L.
+     * @param rho The squared distances between control points.
+     * @param betas The four betas to be refined.
+     */
+    private static gaussNewton_(l: MatrixType, rho: number[], betas: number[]): void {
+        for (let k = 0; k < this.GAUSS_NEWTON_ITERATIONS; k++) {
+            const a: MatrixType = new Array(6);
+            const b: number[] = new Array(6);
+            const [b0, b1, b2, b3] = betas;
+
+            for (let i = 0; i < 6; i++) {
+                const r = l[i];
+                a[i] = [
+                    2 * r[0] * b0 + r[1] * b1 + r[3] * b2 + r[6] * b3,
+                    r[1] * b0 + 2 * r[2] * b1 + r[4] * b2 + r[7] * b3,
+                    r[3] * b0 + r[4] * b1 + 2 * r[5] * b2 + r[8] * b3,
+                    r[6] * b0 + r[7] * b1 + r[8] * b2 + 2 * r[9] * b3,
+                ];
+                b[i] =
+                    rho[i] -
+                    (r[0] * b0 * b0 +
+                        r[1] * b0 * b1 +
+                        r[2] * b1 * b1 +
+                        r[3] * b0 * b2 +
+                        r[4] * b1 * b2 +
+                        r[5] * b2 * b2 +
+                        r[6] * b0 * b3 +
+                        r[7] * b1 * b3 +
+                        r[8] * b2 * b3 +
+                        r[9] * b3 * b3);
+            }
+
+            const delta = Matrix.solve(a, b);
+            for (let i = 0; i < 4; i++) {
+                betas[i] += delta[i];
+            }
+        }
+    }
+
+    /**
+     * Recovers the control points and object points in the camera
+     * referential and aligns them with the world referential to compute the
+     * rotation and translation.
+     * @param nullSpace The four null space vectors of M, smallest first.
+     * @param betas The four betas.
+     * @param alphas The Nx4 matrix of barycentric coordinates.
+     * @param objectPoints The 3D points.
+     * @param imagePoints The 2D image points.
+     * @param cameraMatrix The 3x3 camera intrinsics matrix.
+     * @return The pose and its reprojection error.
+     */
+    private static computeRotationAndTranslation_(
+        nullSpace: number[][],
+        betas: number[],
+        alphas: MatrixType,
+        objectPoints: MatrixType,
+        imagePoints: MatrixType,
+        cameraMatrix: MatrixType
+    ): PoseResult {
+        const controlPoints: MatrixType = [];
+
+        for (let i = 0; i < 4; i++) {
+            const c = [0, 0, 0];
+            for (let j = 0; j < 4; j++) {
+                c[0] += betas[j] * nullSpace[j][3 * i];
+                c[1] += betas[j] * nullSpace[j][3 * i + 1];
+                c[2] += betas[j] * nullSpace[j][3 * i + 2];
+            }
+            controlPoints.push(c);
+        }
+
+        let cameraPoints = Matrix.mul(alphas, controlPoints);
+
+        // The null space is defined up to a sign, points must lie in front of
+        // the camera.
+        if (cameraPoints[0][2] < 0) {
+            cameraPoints = Matrix.mulScalar(-1, cameraPoints);
+        }
+
+        const n = objectPoints.length;
+        const pc0 = [0, 0, 0];
+        const pw0 = [0, 0, 0];
+
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < 3; j++) {
+                pc0[j] += cameraPoints[i][j] / n;
+                pw0[j] += objectPoints[i][j] / n;
+            }
+        }
+
+        const abt: MatrixType = [
+            [0, 0, 0],
+            [0, 0, 0],
+            [0, 0, 0],
+        ];
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < 3; j++) {
+                for (let k = 0; k < 3; k++) {
+                    abt[j][k] += (cameraPoints[i][j] - pc0[j]) * (objectPoints[i][k] - pw0[k]);
+                }
+            }
+        }
+
+        const svd = Matrix.svd(abt);
+        const rotation = Matrix.mul(svd.u, Matrix.transpose(svd.v));
+
+        if (Matrix.determinant(rotation) < 0) {
+            rotation[2][0] = -rotation[2][0];
+            rotation[2][1] = -rotation[2][1];
+            rotation[2][2] = -rotation[2][2];
+        }
+
+        const translation = [
+            pc0[0] - (rotation[0][0] * pw0[0] + rotation[0][1] * pw0[1] + rotation[0][2] * pw0[2]),
+            pc0[1] - (rotation[1][0] * pw0[0] + rotation[1][1] * pw0[1] + rotation[1][2] * pw0[2]),
+            pc0[2] - (rotation[2][0] * pw0[0] + rotation[2][1] * pw0[1] + rotation[2][2] * pw0[2]),
+        ];
+
+        return {
+            rotation: rotation,
+            translation: translation,
+            reprojectionError: this.reprojectionError(objectPoints, imagePoints, rotation, translation, cameraMatrix),
+        };
+    }
+}
+
+/**
+ * Interface for pose estimation results
+ */
+export interface PoseResult {
+    rotation: MatrixType;
+    translation: number[];
+    reprojectionError: number;
 }
@@ -0,0 +1,146 @@
+import { EPnP, PoseResult } from "./EPnP";
+import { MatrixType } from "../math/Matrix";
+import { FaceModelData } from "./training/FaceModel";
+
+/**
+ * HeadPose utility class to estimate where a face is pointing from its
+ * aligned landmarks. The landmarks are mapped to a generic 3D face model and
+ * the pose is solved with EPnP for a pinhole camera.
+ */
+export class HeadPose {
+    /**
+     * Holds the indexes of the model points used to solve the pose. The jaw
+     * contour is left out, except for the chin, since it follows the face
+     * silhouette and does not map to fixed points of the model.
+     */
+    public static readonly MODEL_POINTS: number[] = [
+        4, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30,
+    ];
+
+    /**
+     * Holds, for each supported landmarks layout keyed by its number of
+     * landmarks, the landmark index matching each of the `MODEL_POINTS`. The
+     * 31 landmarks layout is the one of the bundled LBF model and the 68
+     * landmarks layout is the iBUG 300-W annotation.
+     */
+    public static readonly LANDMARKS: Record<number, number[]> = {
+        31: [4, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30],
+        68: [8, 17, 19, 21, 22, 24, 26, 27, 31, 33, 35, 36, 37, 38, 39, 42, 43, 44, 45, 48, 51, 54, 57],
+    };
+
+    /**
+     * Holds the generic 3D face model, one point per landmark of the 31
+     * landmarks layout.
+     */
+    public static model: MatrixType = FaceModelData;
+
+    /**
+     * Estimates the head pose of a face from its aligned landmarks.
+     * @param landmarks The aligned landmarks, e.g. [[x0,y0],[x1,y1],...].
+     * @param width The image width.
+     * @param height The image height.
+     * @param optCamera Optional pinhole camera. When not specified the focal
+     *     length is estimated from the image width and the principal point is
+     *     the image center.
+     * @return The head pose, including yaw, pitch and roll in degrees.
+     */
+    public static estimate(
+        landmarks: MatrixType,
+        width: number,
+        height: number,
+        optCamera?: PinholeCamera
+    ): HeadPoseResult {
+        const indexes = this.LANDMARKS[landmarks.length];
+        if (!indexes) {
+            throw new Error(
+                "Head pose estimation not supported for " +
+                    landmarks.length +
+                    " landmarks, try a 31 or 68 landmarks model."
+            );
+        }
+
+        const objectPoints: MatrixType = [];
+        const imagePoints: MatrixType = [];
+
+        for (let i = 0; i < indexes.length; i++) {
+            objectPoints.push(this.model[this.MODEL_POINTS[i]]);
+            imagePoints.push(landmarks[indexes[i]]);
+        }
+
+        const pose = EPnP.solve(objectPoints, imagePoints, this.getCameraMatrix(width, height, optCamera));
+        const angles = this.rotationToEuler(pose.rotation);
+
+        return {
+            rotation: pose.rotation,
+            translation: pose.translation,
+            reprojectionError: pose.reprojectionError,
+            yaw: angles[0],
+            pitch: angles[1],
+            roll: angles[2],
+        };
+    }
+
+    /**
+     * Gets the 3x3 intrinsics matrix of a pinhole camera.
+     * @param width The image width.
+     * @param height The image height.
+     * @param optCamera Optional pinhole camera, missing values are estimated
+     *     from the image size.
+     * @return The camera matrix [[fx,0,cx],[0,fy,cy],[0,0,1]].
+     */
+    public static getCameraMatrix(width: number, height: number, optCamera?: PinholeCamera): MatrixType {
+        const camera = optCamera || {};
+        const focalLength = camera.focalLength !== undefined ? camera.focalLength : width;
+        const centerX = camera.centerX !== undefined ? camera.centerX : width / 2;
+        const centerY = camera.centerY !== undefined ? camera.centerY : height / 2;
+
+        return [
+            [focalLength, 0, centerX],
+            [0, focalLength, centerY],
+            [0, 0, 1],
+        ];
+    }
+
+    /**
+     * Decomposes a rotation matrix R = Ry(yaw) * Rx(pitch) * Rz(roll) into
+     * its Euler angles.
+     * @param rotation The 3x3 rotation matrix.
+     * @return The [yaw, pitch, roll] angles in degrees.
+     */
+    public static rotationToEuler(rotation: MatrixType): [number, number, number] {
+        const toDegrees = 180 / Math.PI;
+        const sinPitch = Math.max(-1, Math.min(1, -rotation[1][2]));
+        const pitch = Math.asin(sinPitch);
+        let yaw: number;
+        let roll: number;
+
+        if (Math.abs(sinPitch) < 0.9999) {
+            yaw = Math.atan2(rotation[0][2], rotation[2][2]);
+            roll = Math.atan2(rotation[1][0], rotation[1][1]);
+        } else {
+            // Gimbal lock, yaw and roll rotate around the same axis.
+            yaw = Math.atan2(-rotation[2][0], rotation[0][0]);
+            roll = 0;
+        }
+
+        return [yaw * toDegrees, pitch * toDegrees, roll * toDegrees];
+    }
+}
+
+/**
+ * Interface for the pinhole camera configuration
+ */
+export interface PinholeCamera {
+    focalLength?: number;
+    centerX?: number;
+    centerY?: number;
+}
+
+/**
+ * Interface for head pose estimation results
+ */
+export interface HeadPoseResult extends PoseResult {
+    yaw: number;
+    pitch: number;
+    roll: number;
+}
@@ -0,0 +1,39 @@
+/**
+ * Generic 3D face model in millimeters, one point per LBF landmark in the
+ * same order as `LandmarksData`. The x axis points to the right of the
+ * image, the y axis points down and the z axis points away from the camera,
+ * with the nose tip at the origin.
+ */
+export const FaceModelData = [
+    [-72.9, -50.2, 95.0],
+    [-70.5, -11.4, 85.0],
+    [-59.4, 26.0, 70.0],
+    [-34.3, 55.4, 50.0],
+    [0.0, 69.6, 35.0],
+    [34.3, 55.4, 50.0],
+    [59.4, 26.0, 70.0],
+    [70.5, -11.4, 85.0],
+    [72.9, -50.2, 95.0],
+    [-58.3, -66.9, 45.0],
+    [-36.9, -75.2, 33.0],
+    [-12.7, -68.1, 27.0],
+    [12.7, -68.1, 27.0],
+    [36.9, -75.2, 33.0],
+    [58.3, -66.9, 45.0],
+    [0.0, -52.6, 22.0],
+    [-13.9, -5.4, 14.0],
+    [0.0, 0.0, 0.0],
+    [13.9, -5.4, 14.0],
+    [-43.9, -51.5, 45.0],
+    [-36.6, -56.3, 38.0],
+    [-27.2, -56.1, 38.0],
+    [-19.8, -49.9, 35.0],
+    [19.8, -49.9, 35.0],
+    [27.2, -56.1, 38.0],
+    [36.6, -56.3, 38.0],
+    [43.9, -51.5, 45.0],
+    [-27.8, 19.7, 38.0],
+    [0.0, 14.9, 14.0],
+    [27.8, 19.7, 38.0],
+    [0.0, 34.7, 20.0],
+];
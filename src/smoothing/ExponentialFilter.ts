@@ -0,0 +1,48 @@
+import { SmoothingFilter } from "./SmoothingFilter";
+
+/**
+ * ExponentialFilter smooths a signal with an exponential moving average,
+ * the cheapest filter but one that lags behind fast movements.
+ */
+export class ExponentialFilter implements SmoothingFilter {
+    /**
+     * Specifies the weight of each new sample, from 0 exclusive, where the
+     * signal barely moves, to 1, where it is not smoothed.
+     * @default 0.5
+     */
+    public alpha: number = 0.5;
+
+    /**
+     * Holds the previous smoothed value.
+     */
+    private value_?: number;
+
+    /**
+     * Creates a new ExponentialFilter instance.
+     * @param optOptions Optional filter tuning.
+     */
+    constructor(optOptions?: ExponentialFilterOptions) {
+        if (optOptions && optOptions.alpha !== undefined) {
+            this.alpha = optOptions.alpha;
+        }
+        if (!(this.alpha > 0 && this.alpha <= 1)) {
+            throw new Error("Exponential filter alpha must be in (0, 1], try `new ExponentialFilter({alpha: 0.5})`.");
+        }
+    }
+
+    public filter(value: number, dt: number): number {
+        this.value_ = this.value_ === undefined ? value : this.alpha * value + (1 - this.alpha) * this.value_;
+        return this.value_;
+    }
+
+    public reset(): void {
+        this.value_ = undefined;
+    }
+}
+
+/**
+ * Interface for the ExponentialFilter tuning
+ */
+export interface ExponentialFilterOptions {
+    alpha?: number;
+}
@@ -0,0 +1,102 @@
+import { SmoothingFilter } from "./SmoothingFilter";
+
+/**
+ * KalmanFilter smooths a signal with a constant velocity Kalman filter. The
+ * state holds the position and the velocity of the signal, the velocity
+ * being changed by a random acceleration whose variance is `processNoise`.
+ * Since the velocity is estimated, the filter keeps up with steady movements
+ * without the lag of the exponential filter.
+ */
+export class KalmanFilter implements SmoothingFilter {
+    /**
+     * Specifies the variance of the acceleration of the signal, e.g. in
+     * pixels per squared second for coordinates. Higher values follow changes
+     * of speed faster but smooth less.
+     * @default 1000
+     */
+    public processNoise: number = 1000;
+
+    /**
+     * Specifies the variance of the measurement noise, i.e. of the jitter, in
+     * squared units of the signal.
+     * @default 10
+     */
+    public measurementNoise: number = 10;
+
+    /**
+     * Holds the estimated position.
+     */
+    private position_?: number;
+
+    /**
+     * Holds the estimated velocity.
+     */
+    private velocity_: number = 0;
+
+    /**
+     * Holds the estimate covariance [p00, p01, p11], which is symmetric.
+     */
+    private covariance_: number[] = [0, 0, 0];
+
+    /**
+     * Creates a new KalmanFilter instance.
+     * @param optOptions Optional filter tuning.
+     */
+    constructor(optOptions?: KalmanFilterOptions) {
+        const options = optOptions || {};
+        if (options.processNoise !== undefined) {
+            this.processNoise = options.processNoise;
+        }
+        if (options.measurementNoise !== undefined) {
+            this.measurementNoise = options.measurementNoise;
+        }
+    }
+
+    public filter(value: number, dt: number): number {
+        const r = this.measurementNoise;
+
+        if (this.position_ === undefined) {
+            this.position_ = value;
+            this.velocity_ = 0;
+            this.covariance_ = [r, 0, r];
+            return value;
+        }
+
+        // Predicts the state after dt with the constant velocity model.
+        const q = this.processNoise;
+        const p = this.covariance_;
+        const dt2 = dt * dt;
+        let p00 = p[0] + 2 * dt * p[1] + dt2 * p[2] + (q * dt2 * dt2) / 4;
+        let p01 = p[1] + dt * p[2] + (q * dt2 * dt) / 2;
+        let p11 = p[2] + q * dt2;
+        this.position_ += this.velocity_ * dt;
+
+        // Corrects the prediction with the measured position.
+        const innovation = value - this.position_;
+        const s = p00 + r;
+        const k0 = p00 / s;
+        const k1 = p01 / s;
+        this.position_ += k0 * innovation;
+        this.velocity_ += k1 * innovation;
+        p11 -= k1 * p01;
+        p01 -= k0 * p01;
+        p00 -= k0 * p00;
+        this.covariance_ = [p00, p01, p11];
+
+        return this.position_;
+    }
+
+    public reset(): void {
+        this.position_ = undefined;
+        this.velocity_ = 0;
+        this.covariance_ = [0, 0, 0];
+    }
+}
+
+/**
+ * Interface for the KalmanFilter tuning
+ */
+export interface KalmanFilterOptions {
+    processNoise?: number;
+    measurementNoise?: number;
+}
@@ -0,0 +1,97 @@
+import { SmoothingFilter } from "./SmoothingFilter";
+
+/**
+ * OneEuroFilter smooths a signal with the 1€ filter of Casiez et al., a low
+ * pass filter whose cutoff frequency increases with the speed of the signal:
+ * slow movements are heavily smoothed, removing jitter, while fast ones are
+ * followed with little lag.
+ */
+export class OneEuroFilter implements SmoothingFilter {
+    /**
+     * Specifies the cutoff frequency, in Hz, when the signal does not move.
+     * Lower values remove more jitter.
+     * @default 1
+     */
+    public minCutoff: number = 1;
+
+    /**
+     * Specifies how much the cutoff frequency increases with the speed of the
+     * signal. Higher values reduce the lag.
+     * @default 0.007
+     */
+    public beta: number = 0.007;
+
+    /**
+     * Specifies the cutoff frequency, in Hz, used to smooth the speed.
+     * @default 1
+     */
+    public derivativeCutoff: number = 1;
+
+    /**
+     * Holds the previous smoothed speed.
+     */
+    private derivative_: number = 0;
+
+    /**
+     * Holds the previous smoothed value.
+     */
+    private value_?: number;
+
+    /**
+     * Creates a new OneEuroFilter instance.
+     * @param optOptions Optional filter tuning.
+     */
+    constructor(optOptions?: OneEuroFilterOptions) {
+        const options = optOptions || {};
+        if (options.minCutoff !== undefined) {
+            this.minCutoff = options.minCutoff;
+        }
+        if (options.beta !== undefined) {
+            this.beta = options.beta;
+        }
+        if (options.derivativeCutoff !== undefined) {
+            this.derivativeCutoff = options.derivativeCutoff;
+        }
+    }
+
+    public filter(value: number, dt: number): number {
+        if (this.value_ === undefined || dt <= 0) {
+            if (this.value_ === undefined) {
+                this.value_ = value;
+            }
+            return this.value_;
+        }
+
+        const derivative = (value - this.value_) / dt;
+        this.derivative_ += this.getAlpha_(this.derivativeCutoff, dt) * (derivative - this.derivative_);
+
+        const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative_);
+        this.value_ += this.getAlpha_(cutoff, dt) * (value - this.value_);
+        return this.value_;
+    }
+
+    public reset(): void {
+        this.derivative_ = 0;
+        this.value_ = undefined;
+    }
+
+    /**
+     * Computes the smoothing factor of a low pass filter.
+     * @param cutoff The cutoff frequency, in Hz.
+     * @param dt The sampling period, in seconds.
+     * @return The smoothing factor.
+     */
+    private getAlpha_(cutoff: number, dt: number): number {
+        const tau = 1 / (2 * Math.PI * cutoff);
+        return 1 / (1 + tau / dt);
+    }
+}
+
+/**
+ * Interface for the OneEuroFilter tuning
+ */
+export interface OneEuroFilterOptions {
+    minCutoff?: number;
+    beta?: number;
+    derivativeCutoff?: number;
+}
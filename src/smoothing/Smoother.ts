@@ -0,0 +1,117 @@
+import { Rect } from "../detection/Rect";
+import { MatrixType } from "../math/Matrix";
+import { SmoothingFilter, SmoothingFilterFactory } from "./SmoothingFilter";
+
+/**
+ * Smoother utility class to smooth rectangles and landmarks across frames.
+ * Each smoothed item is identified by a key, e.g. the id of a tracked object,
+ * and gets its own filter per value, created by the filter factory:
+ *
+ * ```
+ * const smoother = new Smoother(() => new OneEuroFilter({ beta: 0.01 }));
+ * const rect = smoother.smoothRect("face", face, timestamp);
+ * ```
+ */
+export class Smoother {
+    /**
+     * Holds the function that creates a filter for each smoothed value.
+     */
+    private factory_: SmoothingFilterFactory;
+
+    /**
+     * Holds the filters of each key.
+     */
+    private filters_: Record<string, SmoothingFilter[]> = {};
+
+    /**
+     * Holds the timestamp of the last values of each key.
+     */
+    private timestamps_: Record<string, number> = {};
+
+    /**
+     * Creates a new Smoother instance.
+     * @param factory The function that creates a filter for each value.
+     */
+    constructor(factory: SmoothingFilterFactory) {
+        if (typeof factory !== "function") {
+            throw new Error("Filter factory not specified, try `new Smoother(() => new KalmanFilter())`.");
+        }
+        this.factory_ = factory;
+    }
+
+    /**
+     * Gets the keys being smoothed.
+     * @return The keys
+     */
+    public getKeys(): string[] {
+        return Object.keys(this.filters_);
+    }
+
+    /**
+     * Forgets the filters of a key, e.g. when its object leaves.
+     * @param key The key.
+     */
+    public remove(key: string): void {
+        delete this.filters_[key];
+        delete this.timestamps_[key];
+    }
+
+    /**
+     * Forgets the filters of every key.
+     */
+    public reset(): void {
+        this.filters_ = {};
+        this.timestamps_ = {};
+    }
+
+    /**
+     * Smooths the values of a key.
+     * @param key The key identifying the values across frames.
+     * @param values The values of the frame. When their number changes, the
+     *     filters of the key are recreated.
+     * @param timestamp The frame time, in seconds.
+     * @return The smoothed values.
+     */
+    public smooth(key: string, values: number[], timestamp: number): number[] {
+        let filters = this.filters_[key];
+        if (!filters || filters.length !== values.length) {
+            filters = this.filters_[key] = values.map(() => this.factory_());
+            delete this.timestamps_[key];
+        }
+
+        const last = this.timestamps_[key];
+        const dt = last === undefined ? 0 : Math.max(0, timestamp - last);
+        this.timestamps_[key] = timestamp;
+
+        return values.map((value, i) => filters[i].filter(value, dt));
+    }
+
+    /**
+     * Smooths the position and size of a rectangle.
+     * @param key The key identifying the rectangle across frames.
+     * @param rect The rectangle of the frame.
+     * @param timestamp The frame time, in seconds.
+     * @return A copy of the rectangle with the smoothed x, y, width and height.
+     */
+    public smoothRect<R extends Rect>(key: string, rect: R, timestamp: number): R {
+        const values = this.smooth(key, [rect.x, rect.y, rect.width, rect.height], timestamp);
+        return { ...rect, x: values[0], y: values[1], width: values[2], height: values[3] };
+    }
+
+    /**
+     * Smooths a set of points, e.g. the landmarks of a face.
+     * @param key The key identifying the points across frames.
+     * @param points The points of the frame, e.g. [[x0,y0],[x1,y1],...].
+     * @param timestamp The frame time, in seconds.
+     * @return The smoothed points.
+     */
+    public smoothPoints(key: string, points: MatrixType, timestamp: number): MatrixType {
+        const values: number[] = [];
+        points.forEach((point) => {
+            values.push(point[0], point[1]);
+        });
+
+        const smoothed = this.smooth(key, values, timestamp);
+        return points.map((point, i) => [smoothed[2 * i], smoothed[2 * i + 1]]);
+    }
+}
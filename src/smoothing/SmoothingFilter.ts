@@ -0,0 +1,25 @@
+/**
+ * Interface for a filter that smooths a signal, one sample at a time. Each
+ * filter instance holds the state of a single signal, e.g. the x coordinate
+ * of a rectangle.
+ */
+export interface SmoothingFilter {
+    /**
+     * Filters the next sample of the signal.
+     * @param value The sample value.
+     * @param dt The time elapsed since the previous sample, in seconds. It is
+     *     0 for the first sample.
+     * @return The smoothed value.
+     */
+    filter(value: number, dt: number): number;
+
+    /**
+     * Forgets the state of the signal.
+     */
+    reset(): void;
+}
+
+/**
+ * Function that creates a new filter for each smoothed signal
+ */
+export type SmoothingFilterFactory = () => SmoothingFilter;
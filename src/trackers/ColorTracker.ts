@@ -1,5 +1,10 @@
 import { Tracker } from "./Tracker";
+import { Blob, Blobs } from "../detection/Blob";
+import { ConnectedComponents } from "../detection/ConnectedComponents";
 import { Rect } from "../detection/Rect";
+import { DisjointSet } from "../utils/DisjointSet";
+import { Color } from "../utils/Color";
+import { TrackingMath } from "../math/TrackingMath";
 
 /**
  * Interface for color detection function
@@ -9,17 +14,53 @@ type ColorFunction = (r: number, g: number, b: number, a?: number, w?: number, i
 
 /**
  * ColorTracker utility to track colored blobs in a frame using color
- * difference evaluation.
+ * difference evaluation. Colors are registered either as functions or as
+ * declarative definitions, which are less sensitive to lighting:
+ *
+ * ```
+ * ColorTracker.registerColor('orange', { hue: [15, 40], saturation: [0.4, 1], value: [0.3, 1] });
+ * ColorTracker.registerColor('teal', { lab: [48, -28, -8], tolerance: 15 });
+ * ColorTracker.registerColor('pink', { hex: '#ff69b4', tolerance: 25 });
+ * ```
+ *
+ * Each frame emits the blobs found, with their bounding box, pixel count,
+ * centroid, image moments, orientation and eccentricity.
  */
-export class ColorTracker extends Tracker {
+export class ColorTracker extends Tracker<Blob[]> {
+    /**
+     * Holds the default CIELab distance tolerance of the Lab and hex color
+     * definitions, and the minimum tolerance of the calibrated colors.
+     */
+    public static readonly TOLERANCE: number = 20;
+
     private static knownColors_: Record<string, ColorFunction> = {};
-    private static neighbours_: Record<number, Int32Array> = {};
 
     /**
-     * Holds the colors to be tracked by the ColorTracker instance.
+     * Holds the colors to be tracked by the ColorTracker instance, at most
+     * 255. A pixel matching several colors only counts for the first of them.
      */
     public colors: string[] = ['magenta'];
 
+    /**
+     * Specifies whether to compute the convex hull of each blob.
+     * @default false
+     */
+    public convexHull: boolean = false;
+
+    /**
+     * Specifies the maximum distance in pixels between two rectangles of a
+     * color to merge them. 0 merges the intersecting rectangles only.
+     * @default 0
+     */
+    public mergeGap: number = 0;
+
+    /**
+     * Specifies the minimum intersection over union of two rectangles of a
+     * color to merge them, from 0 to 1. 0 merges them whatever their overlap.
+     * @default 0
+     */
+    public mergeIoU: number = 0;
+
     /**
      * Holds the minimum dimension to classify a rectangle.
      */
@@ -31,10 +72,23 @@ export class ColorTracker extends Tracker {
     public maxDimension: number = Infinity;
 
     /**
-     * Holds the minimum group size to be classified as a rectangle.
+     * Holds the minimum size of a group to be classified as a rectangle,
+     * counted as twice its number of pixels, e.g. 30 keeps the groups of 15
+     * pixels or more.
      */
     public minGroupSize: number = 30;
 
+    /**
+     * Holds the labeler of the color regions, kept between frames.
+     */
+    private components_: ConnectedComponents = new ConnectedComponents();
+
+    /**
+     * Holds the index plus one of the color of each pixel, kept between
+     * frames.
+     */
+    private mask_: Uint8Array = new Uint8Array(0);
+
     /**
      * Creates a new ColorTracker instance
      * @param opt_colors Optional colors to track
@@ -59,10 +113,67 @@ export class ColorTracker extends Tracker {
     /**
      * Registers a color as known color.
      * @param name The color name
-     * @param fn The color function to test if the passed (r,g,b) is the desired color
+     * @param fn The color function to test if the passed (r,g,b) is the desired color,
+     *     or a declarative color definition
      */
-    public static registerColor(name: string, fn: ColorFunction): void {
-        ColorTracker.knownColors_[name] = fn;
+    public static registerColor(name: string, fn: ColorFunction | ColorDefinition): void {
+        ColorTracker.knownColors_[name] = typeof fn === 'function' ? fn : ColorTracker.createColorFunction_(fn);
+    }
+
+    /**
+     * Creates the color function of a declarative color definition.
+     * @param definition The color definition
+     * @returns The color function
+     */
+    private static createColorFunction_(definition: ColorDefinition): ColorFunction {
+        const invalid = () => new Error('Color definition not valid, try `ColorTracker.registerColor("red", { hue: [340, 20] })`.');
+
+        if (!definition) {
+            throw invalid();
+        }
+
+        if ('hue' in definition) {
+            const hue = definition.hue;
+            const saturation = definition.saturation || [0, 1];
+            const value = definition.value || [0, 1];
+            if (!ColorTracker.isRange_(hue) || !ColorTracker.isRange_(saturation) || !ColorTracker.isRange_(value)) {
+                throw invalid();
+            }
+
+            return (r: number, g: number, b: number): boolean => {
+                const hsv = Color.rgbToHsv(r, g, b);
+                const h = hsv[0];
+                const inHue = hue[0] <= hue[1] ? h >= hue[0] && h <= hue[1] : h >= hue[0] || h <= hue[1];
+                return inHue && hsv[1] >= saturation[0] && hsv[1] <= saturation[1] && hsv[2] >= value[0] && hsv[2] <= value[1];
+            };
+        }
+
+        let lab: number[] | null = null;
+        if ('lab' in definition) {
+            lab = definition.lab && definition.lab.length === 3 ? definition.lab : null;
+        } else if ('hex' in definition) {
+            const rgb = typeof definition.hex === 'string' ? Color.parseHex(definition.hex) : null;
+            lab = rgb && Color.rgbToLab(rgb[0], rgb[1], rgb[2]);
+        }
+
+        const tolerance = definition.tolerance !== undefined ? definition.tolerance : ColorTracker.TOLERANCE;
+        if (!lab || !(tolerance >= 0)) {
+            throw invalid();
+        }
+
+        const target = lab;
+        return (r: number, g: number, b: number): boolean => {
+            return Color.labDistance(Color.rgbToLab(r, g, b), target) <= tolerance;
+        };
+    }
+
+    /**
+     * Checks whether a value is a [min, max] range of numbers.
+     * @param range The value to check
+     * @returns True if the value is a range
+     */
+    private static isRange_(range: number[]): boolean {
+        return Array.isArray(range) && range.length === 2 && typeof range[0] === 'number' && typeof range[1] === 'number';
     }
 
     /**
@@ -76,44 +187,54 @@ export class ColorTracker extends Tracker {
     }
 
     /**
-     * Calculates the central coordinate from the cloud points. The cloud points
-     * are all points that matches the desired color.
-     * @param cloud Major row order array containing all the points from the desired color
-     * @param total Total numbers of pixels of the desired color
-     * @returns Object containing the x, y coordinates and dimensions of the blob
+     * Calibrates a color from a region of a frame, e.g. selected by the user
+     * around a marker. The color model is the median CIELab color of the
+     * region, with a tolerance covering 90% of its pixels and at least
+     * `ColorTracker.TOLERANCE`. The color is registered and tracked by the
+     * ColorTracker instance.
+     * @param pixels The pixels data
+     * @param width The pixels canvas width
+     * @param height The pixels canvas height
+     * @param region The region to sample
+     * @param opt_name Optional color name, 'calibrated' by default
+     * @returns The color definition, which can be saved and registered again
      */
-    private calculateDimensions_(cloud: Int32Array, total: number): Rect | null {
-        let maxx = -1;
-        let maxy = -1;
-        let minx = Infinity;
-        let miny = Infinity;
-
-        for (let c = 0; c < total; c += 2) {
-            const x = cloud[c];
-            const y = cloud[c + 1];
+    public calibrate(pixels: Uint8ClampedArray, width: number, height: number, region: ColorRegion, opt_name?: string): LabColorDefinition {
+        const name = opt_name || 'calibrated';
+        const x0 = Math.max(0, Math.floor(region.x));
+        const y0 = Math.max(0, Math.floor(region.y));
+        const x1 = Math.min(width, Math.ceil(region.x + region.width));
+        const y1 = Math.min(height, Math.ceil(region.y + region.height));
+
+        if (!(x1 > x0 && y1 > y0)) {
+            throw new Error('Calibration region not valid, try `tracker.calibrate(pixels, width, height, { x: 10, y: 10, width: 20, height: 20 })`.');
+        }
 
-            if (x < minx) {
-                minx = x;
-            }
-            if (x > maxx) {
-                maxx = x;
-            }
-            if (y < miny) {
-                miny = y;
-            }
-            if (y > maxy) {
-                maxy = y;
+        const samples: number[][] = [];
+        for (let i = y0; i < y1; i++) {
+            for (let j = x0; j < x1; j++) {
+                const w = (i * width + j) * 4;
+                samples.push(Color.rgbToLab(pixels[w], pixels[w + 1], pixels[w + 2]));
             }
         }
 
-        return {
-            width: maxx - minx,
-            height: maxy - miny,
-            x: minx,
-            y: miny,
-            total: 0,
-            color: '' // Will be set by caller
+        const median = (channel: number) => {
+            const values = samples.map((sample) => sample[channel]).sort((a, b) => a - b);
+            return values[values.length >> 1];
+        };
+        const lab = [median(0), median(1), median(2)];
+        const distances = samples.map((sample) => Color.labDistance(sample, lab)).sort((a, b) => a - b);
+        const definition: LabColorDefinition = {
+            lab: lab,
+            tolerance: Math.max(ColorTracker.TOLERANCE, distances[Math.floor(0.9 * (distances.length - 1))])
         };
+
+        ColorTracker.registerColor(name, definition);
+        if (this.colors.indexOf(name) === -1) {
+            this.setColors(this.colors.concat(name));
+        }
+
+        return definition;
     }
 
     /**
@@ -123,6 +244,27 @@ export class ColorTracker extends Tracker {
         return this.colors;
     }
 
+    /**
+     * Gets whether to compute the convex hull of each blob.
+     */
+    public getConvexHull(): boolean {
+        return this.convexHull;
+    }
+
+    /**
+     * Gets the maximum distance between two rectangles to merge them.
+     */
+    public getMergeGap(): number {
+        return this.mergeGap;
+    }
+
+    /**
+     * Gets the minimum intersection over union of two rectangles to merge them.
+     */
+    public getMergeIoU(): number {
+        return this.mergeIoU;
+    }
+
     /**
      * Gets the minimum dimension to classify a rectangle.
      */
@@ -145,66 +287,55 @@ export class ColorTracker extends Tracker {
     }
 
     /**
-     * Gets the eight offset values of the neighbours surrounding a pixel.
-     * @param width The image width
-     * @returns Array with the eight offset values of the neighbours surrounding a pixel
+     * Unites groups whose bounding box are close to each other, transitively:
+     * a chain of overlapping groups becomes a single rectangle, whatever their
+     * order.
+     * @param rects Array of blobs to merge
      */
-    private getNeighboursForWidth_(width: number): Int32Array {
-        if (ColorTracker.neighbours_[width]) {
-            return ColorTracker.neighbours_[width];
+    private mergeRectangles_(rects: Blob[]): Blob[] {
+        const minDimension = this.getMinDimension();
+        const maxDimension = this.getMaxDimension();
+        let merged = rects;
+        let count = -1;
+
+        // Merged rectangles are larger and can reach rectangles that none of
+        // their parts reached, so the grouping is repeated until it is stable.
+        while (merged.length !== count) {
+            count = merged.length;
+            merged = this.groupRectangles_(merged);
         }
 
-        const neighbours = new Int32Array(8);
-
-        neighbours[0] = -width * 4;
-        neighbours[1] = -width * 4 + 4;
-        neighbours[2] = 4;
-        neighbours[3] = width * 4 + 4;
-        neighbours[4] = width * 4;
-        neighbours[5] = width * 4 - 4;
-        neighbours[6] = -4;
-        neighbours[7] = -width * 4 - 4;
-
-        ColorTracker.neighbours_[width] = neighbours;
-
-        return neighbours;
+        return merged.filter((r) => {
+            return r.width >= minDimension && r.height >= minDimension && r.width <= maxDimension && r.height <= maxDimension;
+        });
     }
 
     /**
-     * Unites groups whose bounding box intersect with each other.
-     * @param rects Array of rectangles to merge
+     * Merges each group of rectangles linked by `mergeGap` and `mergeIoU`,
+     * using a disjoint set to find the groups.
+     * @param rects Array of blobs to merge
+     * @returns The merged blobs, in the order of their first blob
      */
-    private mergeRectangles_(rects: Rect[]): Rect[] {
-        let intersects: boolean;
-        const results: Rect[] = [];
-        const minDimension = this.getMinDimension();
-        const maxDimension = this.getMaxDimension();
+    private groupRectangles_(rects: Blob[]): Blob[] {
+        const sets = new DisjointSet(rects.length);
+        const groups: Record<number, number> = {};
+        const results: Blob[] = [];
 
         for (let r = 0; r < rects.length; r++) {
-            const r1 = rects[r];
-            intersects = true;
             for (let s = r + 1; s < rects.length; s++) {
-                const r2 = rects[s];
-                if (this.intersectRect_(r1.x, r1.y, r1.x + r1.width, r1.y + r1.height, r2.x, r2.y, r2.x + r2.width, r2.y + r2.height)) {
-                    intersects = false;
-                    const x1 = Math.min(r1.x, r2.x);
-                    const y1 = Math.min(r1.y, r2.y);
-                    const x2 = Math.max(r1.x + r1.width, r2.x + r2.width);
-                    const y2 = Math.max(r1.y + r1.height, r2.y + r2.height);
-                    r2.height = y2 - y1;
-                    r2.width = x2 - x1;
-                    r2.x = x1;
-                    r2.y = y1;
-                    break;
+                if (this.shouldMerge_(rects[r], rects[s])) {
+                    sets.union(s, r);
                 }
             }
+        }
 
-            if (intersects) {
-                if (r1.width >= minDimension && r1.height >= minDimension) {
-                    if (r1.width <= maxDimension && r1.height <= maxDimension) {
-                        results.push(r1);
-                    }
-                }
+        for (let r = 0; r < rects.length; r++) {
+            const root = sets.find(r);
+            if (groups[root] === undefined) {
+                groups[root] = results.length;
+                results.push(rects[r]);
+            } else {
+                results[groups[root]] = Blobs.merge(results[groups[root]], rects[r]);
             }
         }
 
@@ -212,19 +343,51 @@ export class ColorTracker extends Tracker {
     }
 
     /**
-     * Helper method to check if two rectangles intersect
+     * Checks whether two rectangles are close enough to be merged, i.e. at
+     * most `mergeGap` pixels apart and overlapping by at least `mergeIoU`.
+     * @param r1 The first rectangle
+     * @param r2 The second rectangle
+     * @returns True if the rectangles should be merged
      */
-    private intersectRect_(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number): boolean {
-        return !(x2 < x3 || x4 < x1 || y2 < y3 || y4 < y1);
+    private shouldMerge_(r1: Rect, r2: Rect): boolean {
+        const gap = Math.max(r2.x - (r1.x + r1.width), r1.x - (r2.x + r2.width), r2.y - (r1.y + r1.height), r1.y - (r2.y + r2.height));
+        const mergeIoU = this.getMergeIoU();
+
+        if (gap > this.getMergeGap()) {
+            return false;
+        }
+        return mergeIoU <= 0 || TrackingMath.intersectionOverUnion(r1, r2, true) >= mergeIoU;
     }
 
     /**
-     * Sets the colors to be tracked by the ColorTracker instance.
+     * Sets the colors to be tracked by the ColorTracker instance, at most 255.
+     * A pixel matching several colors only counts for the first of them.
      */
     public setColors(colors: string[]): void {
         this.colors = colors;
     }
 
+    /**
+     * Sets whether to compute the convex hull of each blob.
+     */
+    public setConvexHull(convexHull: boolean): void {
+        this.convexHull = convexHull;
+    }
+
+    /**
+     * Sets the maximum distance between two rectangles to merge them.
+     */
+    public setMergeGap(mergeGap: number): void {
+        this.mergeGap = mergeGap;
+    }
+
+    /**
+     * Sets the minimum intersection over union of two rectangles to merge them.
+     */
+    public setMergeIoU(mergeIoU: number): void {
+        this.mergeIoU = mergeIoU;
+    }
+
     /**
      * Sets the minimum dimension to classify a rectangle.
      */
@@ -240,7 +403,8 @@ export class ColorTracker extends Tracker {
     }
 
     /**
-     * Sets the minimum group size to be classified as a rectangle.
+     * Sets the minimum group size to be classified as a rectangle, counted as
+     * twice its number of pixels.
      */
     public setMinGroupSize(minGroupSize: number): void {
         this.minGroupSize = minGroupSize;
@@ -260,138 +424,112 @@ export class ColorTracker extends Tracker {
             throw new Error('Colors not specified, try `new ColorTracker("magenta")`.');
         }
 
-        let results: Rect[] = [];
-
-        colors.forEach((color) => {
-            results = results.concat(this.trackColor_(pixels, width, height, color));
+        const blobs = this.components_.label(this.classify_(pixels, width, height, colors), width, height, this.getConvexHull());
+        const minGroupSize = this.getMinGroupSize();
+        let results: Blob[] = [];
+
+        colors.forEach((color, c) => {
+            // The size of a group was the number of its pixel coordinates,
+            // two per pixel, which minGroupSize still counts.
+            const groups = (blobs[c + 1] || []).filter((blob) => blob.total * 2 >= minGroupSize);
+            groups.forEach((blob) => {
+                blob.color = color;
+            });
+            results = results.concat(this.mergeRectangles_(groups));
         });
 
-        this.emit('track', {
-            data: results
-        });
+        this.emitTrack_(results);
     }
 
     /**
-     * Find the given color in the given matrix of pixels using Flood fill
-     * algorithm to determines the area connected to a given node in a
-     * multi-dimensional array.
-     * @param pixels The pixels data to track
+     * Classifies each pixel of a frame by the first color it matches, testing
+     * the colors once per pixel for all of them.
+     * @param pixels The pixels data to classify
      * @param width The pixels canvas width
      * @param height The pixels canvas height
-     * @param color The color to be found
-     */
-    private trackColor_(pixels: Uint8ClampedArray, width: number, height: number, color: string): Rect[] {
-        const colorFn = ColorTracker.knownColors_[color];
-        const currGroup = new Int32Array(pixels.length >> 2);
-        let currGroupSize: number;
-        let currI: number;
-        let currJ: number;
-        let currW: number;
-        const marked = new Int8Array(pixels.length);
-        const minGroupSize = this.getMinGroupSize();
-        const neighboursW = this.getNeighboursForWidth_(width);
-        const queue = new Int32Array(pixels.length);
-        let queuePosition: number;
-        const results: Rect[] = [];
-        let w = -4;
-
-        // Caching neighbour i/j offset values
-        const neighboursI = new Int32Array([-1, -1, 0, 1, 1, 1, 0, -1]);
-        const neighboursJ = new Int32Array([0, 1, 1, 1, 0, -1, -1, -1]);
-
-        if (!colorFn) {
-            return results;
+     * @param colors The colors to be found, at most 255
+     * @returns The index plus one of the color of each pixel, 0 if it matches none
+     */
+    private classify_(pixels: Uint8ClampedArray, width: number, height: number, colors: string[]): Uint8Array {
+        if (colors.length > 255) {
+            throw new Error('Too many colors, at most 255 colors can be tracked at once, try fewer colors in `tracker.setColors`.');
         }
 
-        for (let i = 0; i < height; i++) {
-            for (let j = 0; j < width; j++) {
-                w += 4;
+        const colorFns = colors.map((color) => ColorTracker.knownColors_[color]);
+        const size = width * height;
 
-                if (marked[w]) {
-                    continue;
-                }
-
-                currGroupSize = 0;
-
-                queuePosition = -1;
-                queue[++queuePosition] = w;
-                queue[++queuePosition] = i;
-                queue[++queuePosition] = j;
-
-                marked[w] = 1;
-
-                while (queuePosition >= 0) {
-                    currJ = queue[queuePosition--];
-                    currI = queue[queuePosition--];
-                    currW = queue[queuePosition--];
-
-                    if (colorFn(pixels[currW], pixels[currW + 1], pixels[currW + 2], pixels[currW + 3], currW, currI, currJ)) {
-                        currGroup[currGroupSize++] = currJ;
-                        currGroup[currGroupSize++] = currI;
-
-                        for (let k = 0; k < neighboursW.length; k++) {
-                            const otherW = currW + neighboursW[k];
-                            const otherI = currI + neighboursI[k];
-                            const otherJ = currJ + neighboursJ[k];
-                            if (!marked[otherW] && otherI >= 0 && otherI < height && otherJ >= 0 && otherJ < width) {
-                                queue[++queuePosition] = otherW;
-                                queue[++queuePosition] = otherI;
-                                queue[++queuePosition] = otherJ;
-
-                                marked[otherW] = 1;
-                            }
-                        }
-                    }
-                }
-
-                if (currGroupSize >= minGroupSize) {
-                    const data = this.calculateDimensions_(currGroup, currGroupSize);
-                    if (data) {
-                        data.color = color;
-                        results.push(data);
+        if (this.mask_.length < size) {
+            this.mask_ = new Uint8Array(size);
+        }
+        const mask = this.mask_;
+
+        for (let i = 0, p = 0, w = 0; i < height; i++) {
+            for (let j = 0; j < width; j++, p++, w += 4) {
+                mask[p] = 0;
+                for (let c = 0; c < colorFns.length; c++) {
+                    const colorFn = colorFns[c];
+                    if (colorFn && colorFn(pixels[w], pixels[w + 1], pixels[w + 2], pixels[w + 3], w, i, j)) {
+                        mask[p] = c + 1;
+                        break;
                     }
                 }
             }
         }
 
-        return this.mergeRectangles_(results);
+        return mask;
     }
 }
 
 // Register default colors
-ColorTracker.registerColor('cyan', (r: number, g: number, b: number): boolean => {
-    const thresholdGreen = 50;
-    const thresholdBlue = 70;
-    const dx = r - 0;
-    const dy = g - 255;
-    const dz = b - 255;
-
-    if ((g - r) >= thresholdGreen && (b - r) >= thresholdBlue) {
-        return true;
-    }
-    return dx * dx + dy * dy + dz * dz < 6400;
-});
+ColorTracker.registerColor('cyan', { hue: [165, 210], saturation: [0.35, 1], value: [0.25, 1] });
 
-ColorTracker.registerColor('magenta', (r: number, g: number, b: number): boolean => {
-    const threshold = 50;
-    const dx = r - 255;
-    const dy = g - 0;
-    const dz = b - 255;
+ColorTracker.registerColor('magenta', { hue: [280, 340], saturation: [0.35, 1], value: [0.25, 1] });
 
-    if ((r - g) >= threshold && (b - g) >= threshold) {
-        return true;
-    }
-    return dx * dx + dy * dy + dz * dz < 19600;
-});
+ColorTracker.registerColor('yellow', { hue: [38, 70], saturation: [0.35, 1], value: [0.25, 1] });
 
-ColorTracker.registerColor('yellow', (r: number, g: number, b: number): boolean => {
-    const threshold = 50;
-    const dx = r - 255;
-    const dy = g - 255;
-    const dz = b - 0;
+/**
+ * Interface for a declarative color definition
+ */
+export type ColorDefinition = HsvColorDefinition | LabColorDefinition | HexColorDefinition;
 
-    if ((r - b) >= threshold && (g - b) >= threshold) {
-        return true;
-    }
-    return dx * dx + dy * dy + dz * dz < 10000;
-});
+/**
+ * Interface for an HSV range color definition. `hue` is the [min, max] range
+ * in degrees, wrapping around 360 when min > max, e.g. [340, 20] for red.
+ * `saturation` and `value` are [min, max] ranges from 0 to 1, [0, 1] by
+ * default.
+ */
+export interface HsvColorDefinition {
+    hue: number[];
+    saturation?: number[];
+    value?: number[];
+}
+
+/**
+ * Interface for a CIELab color definition, matching the colors whose CIE76
+ * distance to `lab` is at most `tolerance`, `ColorTracker.TOLERANCE` by
+ * default.
+ */
+export interface LabColorDefinition {
+    lab: number[];
+    tolerance?: number;
+}
+
+/**
+ * Interface for a hex color definition, e.g. '#ff00ff', matching the colors
+ * whose CIE76 distance to it is at most `tolerance`, `ColorTracker.TOLERANCE`
+ * by default.
+ */
+export interface HexColorDefinition {
+    hex: string;
+    tolerance?: number;
+}
+
+/**
+ * Interface for the region sampled by `ColorTracker.calibrate`
+ */
+export interface ColorRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
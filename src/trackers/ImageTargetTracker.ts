@@ -0,0 +1,349 @@
+import { Tracker } from "./Tracker";
+import { Brief } from "../features/Brief";
+import { Fast } from "../features/Fast";
+import { Homography } from "../math/Homography";
+import { MatrixType } from "../math/Matrix";
+import { Image } from "../utils/Image";
+
+/**
+ * ImageTargetTracker finds planar reference images, e.g. posters or markers,
+ * in video frames. The corners of the reference images and of the frame are
+ * found with `Fast` and described with `Brief`, the descriptors are matched,
+ * and the homography between each reference image and the frame is estimated
+ * with RANSAC:
+ *
+ * ```
+ * const tracker = new ImageTargetTracker([{ name: "poster", pixels, width, height }]);
+ * tracker.on("track", (event) => event.data.forEach((target) => draw(target.corners)));
+ * ```
+ *
+ * Each frame emits the targets found, with the corners of the reference image
+ * projected in the frame.
+ */
+export class ImageTargetTracker extends Tracker<ImageTargetResult[]> {
+    /**
+     * Specifies the diameter of the gaussian blur applied before finding the
+     * corners, which makes the descriptors robust to noise. 0 disables it.
+     * @default 3
+     */
+    public blur: number = 3;
+
+    /**
+     * Specifies the threshold of the `Fast` segment test.
+     * @default 40
+     */
+    public fastThreshold: number = Fast.THRESHOLD;
+
+    /**
+     * Specifies the maximum number of corners, with the best `Fast` scores,
+     * described per image. Matching costs the product of the number of
+     * corners of the reference image and of the frame.
+     * @default 500
+     */
+    public maxCorners: number = 500;
+
+    /**
+     * Specifies the minimum number of matches consistent with the homography
+     * to find a target.
+     * @default 8
+     */
+    public minInliers: number = 8;
+
+    /**
+     * Specifies the maximum reprojection error, in pixels, of the matches
+     * consistent with the homography.
+     * @default 3
+     */
+    public reprojectionThreshold: number = Homography.THRESHOLD;
+
+    /**
+     * Holds the corners and descriptors of the reference images.
+     */
+    private targets_: DescribedTarget[] = [];
+
+    /**
+     * Creates a new ImageTargetTracker instance.
+     * @param optTargets Optional reference images to find.
+     */
+    constructor(optTargets?: ImageTarget | ImageTarget[]) {
+        super();
+
+        if (optTargets) {
+            const targets = Array.isArray(optTargets) ? optTargets : [optTargets];
+            targets.forEach((target) => this.addTarget(target));
+        }
+    }
+
+    /**
+     * Adds a reference image to find. Its corners are found with the current
+     * `blur` and `fastThreshold`.
+     * @param target The reference image.
+     */
+    public addTarget(target: ImageTarget): void {
+        if (!target || !target.name || !target.pixels) {
+            throw new Error(
+                'Image target not valid, try `tracker.addTarget({ name: "poster", pixels, width, height })`.'
+            );
+        }
+
+        const features = this.describe_(target.pixels, target.width, target.height);
+        this.removeTarget(target.name);
+        this.targets_.push({
+            name: target.name,
+            width: target.width,
+            height: target.height,
+            keypoints: features.keypoints,
+            descriptors: features.descriptors,
+        });
+    }
+
+    /**
+     * Gets the diameter of the gaussian blur applied before finding corners.
+     * @return The blur diameter
+     */
+    public getBlur(): number {
+        return this.blur;
+    }
+
+    /**
+     * Gets the threshold of the `Fast` segment test.
+     * @return The threshold
+     */
+    public getFastThreshold(): number {
+        return this.fastThreshold;
+    }
+
+    /**
+     * Gets the maximum number of corners described per image.
+     * @return The maximum corners
+     */
+    public getMaxCorners(): number {
+        return this.maxCorners;
+    }
+
+    /**
+     * Gets the minimum number of matches consistent with the homography.
+     * @return The minimum inliers
+     */
+    public getMinInliers(): number {
+        return this.minInliers;
+    }
+
+    /**
+     * Gets the maximum reprojection error of the matches.
+     * @return The reprojection threshold
+     */
+    public getReprojectionThreshold(): number {
+        return this.reprojectionThreshold;
+    }
+
+    /**
+     * Gets the names of the reference images.
+     * @return The target names
+     */
+    public getTargetNames(): string[] {
+        return this.targets_.map((target) => target.name);
+    }
+
+    /**
+     * Removes a reference image.
+     * @param name The target name.
+     */
+    public removeTarget(name: string): void {
+        this.targets_ = this.targets_.filter((target) => target.name !== name);
+    }
+
+    /**
+     * Sets the diameter of the gaussian blur applied before finding corners.
+     * @param blur The blur diameter
+     */
+    public setBlur(blur: number): void {
+        this.blur = blur;
+    }
+
+    /**
+     * Sets the threshold of the `Fast` segment test.
+     * @param fastThreshold The threshold
+     */
+    public setFastThreshold(fastThreshold: number): void {
+        this.fastThreshold = fastThreshold;
+    }
+
+    /**
+     * Sets the maximum number of corners described per image.
+     * @param maxCorners The maximum corners
+     */
+    public setMaxCorners(maxCorners: number): void {
+        this.maxCorners = maxCorners;
+    }
+
+    /**
+     * Sets the minimum number of matches consistent with the homography.
+     * @param minInliers The minimum inliers
+     */
+    public setMinInliers(minInliers: number): void {
+        this.minInliers = minInliers;
+    }
+
+    /**
+     * Sets the maximum reprojection error of the matches.
+     * @param reprojectionThreshold The reprojection threshold
+     */
+    public setReprojectionThreshold(reprojectionThreshold: number): void {
+        this.reprojectionThreshold = reprojectionThreshold;
+    }
+
+    /**
+     * Tracks the reference images in the video frames. This method is called
+     * for each video frame in order to emit `track` event.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     */
+    public track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        if (!this.targets_.length) {
+            throw new Error(
+                'Image target not specified, try `new ImageTargetTracker({ name: "poster", pixels, width, height })`.'
+            );
+        }
+
+        const features = this.describe_(pixels, width, height);
+        const results: ImageTargetResult[] = [];
+
+        for (const target of this.targets_) {
+            const result = this.find_(target, features.keypoints, features.descriptors);
+            if (result) {
+                results.push(result);
+            }
+        }
+
+        this.emitTrack_(results);
+    }
+
+    /**
+     * Finds the corners and computes the descriptors of an image.
+     * @param pixels The pixels in a linear [r,g,b,a,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     * @return The corners, e.g. [x0,y0,x1,y1,...], and their descriptors.
+     */
+    private describe_(
+        pixels: Uint8ClampedArray,
+        width: number,
+        height: number
+    ): { keypoints: number[]; descriptors: Int32Array } {
+        const blur = this.getBlur();
+        let blurred = pixels;
+        if (blur > 1) {
+            const rgba = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.length);
+            blurred = new Uint8ClampedArray(Image.blur(rgba, width, height, blur));
+        }
+        const gray = Image.grayscale(blurred, width, height);
+        const keypoints = Fast.detect(gray, width, height, {
+            threshold: this.getFastThreshold(),
+            maxCorners: this.getMaxCorners(),
+            gridCols: 4,
+            gridRows: 4,
+        }).corners;
+
+        return {
+            keypoints: keypoints,
+            descriptors: Brief.getDescriptors(gray, width, keypoints),
+        };
+    }
+
+    /**
+     * Finds a reference image in a frame.
+     * @param target The reference image.
+     * @param keypoints The corners of the frame.
+     * @param descriptors The descriptors of the frame corners.
+     * @return The target found, or null.
+     */
+    private find_(target: DescribedTarget, keypoints: number[], descriptors: Int32Array): ImageTargetResult | null {
+        const matches = Brief.reciprocalMatch(target.keypoints, target.descriptors, keypoints, descriptors);
+        if (matches.length < Math.max(4, this.getMinInliers())) {
+            return null;
+        }
+
+        const result = Homography.fromMatches(matches, { threshold: this.getReprojectionThreshold() });
+        if (!result) {
+            return null;
+        }
+
+        let inliers = 0;
+        result.inliers.forEach((inlier) => {
+            if (inlier) {
+                inliers++;
+            }
+        });
+
+        const corners = Homography.projectCorners(result.homography, target.width, target.height);
+        if (inliers < this.getMinInliers() || !this.isConvex_(corners)) {
+            return null;
+        }
+
+        return {
+            name: target.name,
+            corners: corners,
+            homography: result.homography,
+            inliers: inliers,
+            score: inliers / matches.length,
+        };
+    }
+
+    /**
+     * Checks whether the projected corners form a convex quadrilateral, which
+     * rejects the homographies that fold the reference image.
+     * @param corners The four corners.
+     * @return True if the quadrilateral is convex.
+     */
+    private isConvex_(corners: MatrixType): boolean {
+        let sign = 0;
+        for (let i = 0; i < 4; i++) {
+            const a = corners[i];
+            const b = corners[(i + 1) % 4];
+            const c = corners[(i + 2) % 4];
+            const cross = (b[0] - a[0]) * (c[1] - b[1]) - (b[1] - a[1]) * (c[0] - b[0]);
+            if (!isFinite(cross) || cross === 0 || (sign && cross > 0 !== sign > 0)) {
+                return false;
+            }
+            sign = cross;
+        }
+        return true;
+    }
+}
+
+/**
+ * Interface for a reference image to find, e.g. from a canvas `ImageData`
+ */
+export interface ImageTarget {
+    name: string;
+    pixels: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * Interface for a target found in a frame. `corners` are the top-left,
+ * top-right, bottom-right and bottom-left corners of the reference image in
+ * the frame, `inliers` the number of matches consistent with the homography
+ * and `score` their ratio to all the matches, from 0 to 1.
+ */
+export interface ImageTargetResult {
+    name: string;
+    corners: MatrixType;
+    homography: MatrixType;
+    inliers: number;
+    score: number;
+}
+
+/**
+ * Interface for a reference image with its corners and descriptors
+ */
+interface DescribedTarget {
+    name: string;
+    width: number;
+    height: number;
+    keypoints: number[];
+    descriptors: Int32Array;
+}
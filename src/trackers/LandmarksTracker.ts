@@ -1,35 +1,205 @@
+import { Tracker } from "./Tracker";
 import { ObjectTracker } from "./ObjectTracker";
-import { ViolaJones } from "../detection/ViolaJones";
+import { Rect } from "../detection/Rect";
 import { LBF } from "../alignment/LBF";
+import { MatrixType } from "../math/Matrix";
+import { HeadPose, HeadPoseResult, PinholeCamera } from "../pose/HeadPose";
 
-export class LandmarksTracker extends ObjectTracker {
-    track(pixels: Uint8ClampedArray, width: number, height: number) {
-        const image = {
-            data: pixels,
-            width: width,
-            height: height,
-        };
-
-        const classifier = ViolaJones.classifiers["face"];
-
-        const faces = ViolaJones.detect(
-            pixels,
-            width,
-            height,
-            this.getInitialScale(),
-            this.getScaleFactor(),
-            this.getStepSize(),
-            this.getEdgesDensity(),
-            classifier
-        );
-
-        const landmarks = LBF.align(pixels, width, height, faces);
-
-        this.emit("track", {
-            data: {
-                faces: faces,
-                landmarks: landmarks,
-            },
+/**
+ * LandmarksTracker detects the faces of the frames with a face
+ * `ObjectTracker`, see `getDetector`, and aligns the landmarks of each face
+ * with a LBF model, the bundled 31 landmarks model by default:
+ *
+ * ```
+ * const tracker = new LandmarksTracker();
+ * tracker.on("track", (event) => event.data.landmarks.forEach((shape) => draw(shape)));
+ * ```
+ *
+ * Other models are registered through `LBF.loadModel` and selected by name.
+ */
+export class LandmarksTracker extends Tracker<LandmarksResult> {
+    /**
+     * Specifies the name of the LBF model used to align the landmarks.
+     * @default LBF.DEFAULT_MODEL
+     */
+    public model: string = LBF.DEFAULT_MODEL;
+
+    /**
+     * Specifies whether the head pose of each face is estimated from its
+     * landmarks and emitted as `poses`.
+     * @default false
+     */
+    public poseEstimation: boolean = false;
+
+    /**
+     * Specifies the pinhole camera used to estimate the head pose. When not
+     * specified the focal length is estimated from the frame width.
+     */
+    public camera?: PinholeCamera;
+
+    /**
+     * Holds the tracker detecting the faces.
+     */
+    private detector_: ObjectTracker = new ObjectTracker("face");
+
+    /**
+     * Creates a new LandmarksTracker instance.
+     * @param optModel Optional name of the LBF model used to align the
+     *     landmarks, registered through `LBF.loadModel`.
+     */
+    constructor(optModel?: string) {
+        super();
+
+        if (optModel) {
+            this.setModel(optModel);
+        }
+    }
+
+    /**
+     * Gets the pinhole camera used to estimate the head pose.
+     * @return The camera configuration
+     */
+    public getCamera(): PinholeCamera | undefined {
+        return this.camera;
+    }
+
+    /**
+     * Gets the tracker detecting the faces, e.g. to set its
+     * `detectionInterval`.
+     * @return The face tracker
+     */
+    public getDetector(): ObjectTracker {
+        return this.detector_;
+    }
+
+    /**
+     * Gets the edges density value of the face detection.
+     * @return The edges density value
+     */
+    public getEdgesDensity(): number {
+        return this.detector_.getEdgesDensity();
+    }
+
+    /**
+     * Gets the initial scale of the face detection.
+     * @return The initial scale value
+     */
+    public getInitialScale(): number {
+        return this.detector_.getInitialScale();
+    }
+
+    /**
+     * Gets the name of the LBF model used to align the landmarks.
+     * @return The model name
+     */
+    public getModel(): string {
+        return this.model;
+    }
+
+    /**
+     * Gets whether the head pose estimation is enabled.
+     * @return The pose estimation flag
+     */
+    public getPoseEstimation(): boolean {
+        return this.poseEstimation;
+    }
+
+    /**
+     * Gets the scale factor of the face detection.
+     * @return The scale factor value
+     */
+    public getScaleFactor(): number {
+        return this.detector_.getScaleFactor();
+    }
+
+    /**
+     * Gets the block step size of the face detection.
+     * @return The step size value
+     */
+    public getStepSize(): number {
+        return this.detector_.getStepSize();
+    }
+
+    /**
+     * Sets the pinhole camera used to estimate the head pose.
+     * @param camera The camera configuration
+     */
+    public setCamera(camera: PinholeCamera | undefined): void {
+        this.camera = camera;
+    }
+
+    /**
+     * Sets the edges density of the face detection.
+     * @param edgesDensity The edges density value
+     */
+    public setEdgesDensity(edgesDensity: number): void {
+        this.detector_.setEdgesDensity(edgesDensity);
+    }
+
+    /**
+     * Sets the initial scale of the face detection.
+     * @param initialScale The initial scale value
+     */
+    public setInitialScale(initialScale: number): void {
+        this.detector_.setInitialScale(initialScale);
+    }
+
+    /**
+     * Sets the name of the LBF model used to align the landmarks.
+     * @param model The model name
+     */
+    public setModel(model: string): void {
+        this.model = model;
+    }
+
+    /**
+     * Sets whether the head pose estimation is enabled.
+     * @param poseEstimation The pose estimation flag
+     */
+    public setPoseEstimation(poseEstimation: boolean): void {
+        this.poseEstimation = poseEstimation;
+    }
+
+    /**
+     * Sets the scale factor of the face detection.
+     * @param scaleFactor The scale factor value
+     */
+    public setScaleFactor(scaleFactor: number): void {
+        this.detector_.setScaleFactor(scaleFactor);
+    }
+
+    /**
+     * Sets the block step size of the face detection.
+     * @param stepSize The step size value
+     */
+    public setStepSize(stepSize: number): void {
+        this.detector_.setStepSize(stepSize);
+    }
+
+    track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        const faces = this.detector_.detect(pixels, width, height);
+
+        const landmarks = LBF.align(pixels, width, height, faces, this.getModel());
+
+        let poses: HeadPoseResult[] | undefined;
+        if (this.getPoseEstimation()) {
+            poses = landmarks.map((shape) => HeadPose.estimate(shape, width, height, this.getCamera()));
+        }
+
+        this.emitTrack_({
+            faces: faces,
+            landmarks: landmarks,
+            poses: poses,
         });
     }
 }
+
+/**
+ * Interface for the result of the LandmarksTracker, one entry per face in
+ * each array. `poses` is only set when the pose estimation is enabled.
+ */
+export interface LandmarksResult {
+    faces: Rect[];
+    landmarks: MatrixType[];
+    poses?: HeadPoseResult[];
+}
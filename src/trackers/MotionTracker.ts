@@ -0,0 +1,303 @@
+import { Tracker } from "./Tracker";
+import { Blob } from "../detection/Blob";
+import { ConnectedComponents } from "../detection/ConnectedComponents";
+import { Image } from "../utils/Image";
+
+/**
+ * MotionTracker finds the moving regions of the frames of a fixed camera by
+ * background subtraction. Each pixel of the background is modeled by a
+ * running average of its color and of its variance, and a pixel is moving
+ * when it deviates from its model by more than `threshold` standard
+ * deviations. Pixels that are only darker than the background, with the same
+ * chromaticity, are shadows and are not moving. The moving pixels are cleaned
+ * up with a morphological opening and closing, and grouped into blobs:
+ *
+ * ```
+ * const tracker = new MotionTracker();
+ * tracker.on("track", (event) => event.data.forEach((rect) => draw(rect)));
+ * ```
+ *
+ * The first frame, and any frame of a new size, initializes the background
+ * and emits no region.
+ */
+export class MotionTracker extends Tracker<Blob[]> {
+    /**
+     * Holds the initial variance of the background pixels, before it is
+     * learned.
+     */
+    public static readonly INITIAL_VARIANCE: number = 225;
+
+    /**
+     * Holds the minimum variance of the background pixels, which keeps the
+     * sensor noise of still regions from being detected as motion.
+     */
+    public static readonly MIN_VARIANCE: number = 36;
+
+    /**
+     * Specifies the weight of each frame in the background model, from 0 to
+     * 1. A region that stops moving fades into the background after about
+     * `1 / learningRate` frames.
+     * @default 0.05
+     */
+    public learningRate: number = 0.05;
+
+    /**
+     * Specifies the minimum dimension of a moving region.
+     * @default 10
+     */
+    public minDimension: number = 10;
+
+    /**
+     * Specifies the minimum number of pixels of a moving region.
+     * @default 30
+     */
+    public minGroupSize: number = 30;
+
+    /**
+     * Specifies the radius of the morphological opening, which removes
+     * isolated moving pixels, and closing, which fills small holes. 0
+     * disables them.
+     * @default 1
+     */
+    public morphologyRadius: number = 1;
+
+    /**
+     * Specifies the minimum brightness ratio of a shadow to the background,
+     * from 0 to 1. 1 disables the shadow suppression.
+     * @default 0.5
+     */
+    public shadowRatio: number = 0.5;
+
+    /**
+     * Specifies the number of standard deviations from the background above
+     * which a pixel is moving.
+     * @default 3
+     */
+    public threshold: number = 3;
+
+    /**
+     * Holds the labeler of the moving regions, kept between frames.
+     */
+    private components_: ConnectedComponents = new ConnectedComponents();
+
+    /**
+     * Holds the background mean of each pixel, e.g. [r,g,b,r,g,b,...].
+     */
+    private mean_: Float32Array | null = null;
+
+    /**
+     * Holds the background variance of each pixel, e.g. [r,g,b,r,g,b,...].
+     */
+    private variance_: Float32Array | null = null;
+
+    /**
+     * Gets the weight of each frame in the background model.
+     * @return The learning rate
+     */
+    public getLearningRate(): number {
+        return this.learningRate;
+    }
+
+    /**
+     * Gets the minimum dimension of a moving region.
+     * @return The minimum dimension
+     */
+    public getMinDimension(): number {
+        return this.minDimension;
+    }
+
+    /**
+     * Gets the minimum number of pixels of a moving region.
+     * @return The minimum group size
+     */
+    public getMinGroupSize(): number {
+        return this.minGroupSize;
+    }
+
+    /**
+     * Gets the radius of the morphological opening and closing.
+     * @return The morphology radius
+     */
+    public getMorphologyRadius(): number {
+        return this.morphologyRadius;
+    }
+
+    /**
+     * Gets the minimum brightness ratio of a shadow to the background.
+     * @return The shadow ratio
+     */
+    public getShadowRatio(): number {
+        return this.shadowRatio;
+    }
+
+    /**
+     * Gets the number of standard deviations above which a pixel is moving.
+     * @return The threshold
+     */
+    public getThreshold(): number {
+        return this.threshold;
+    }
+
+    /**
+     * Forgets the background, which is initialized again by the next frame,
+     * e.g. after the camera moved.
+     */
+    public reset(): void {
+        this.mean_ = null;
+        this.variance_ = null;
+    }
+
+    /**
+     * Sets the weight of each frame in the background model.
+     * @param learningRate The learning rate
+     */
+    public setLearningRate(learningRate: number): void {
+        this.learningRate = learningRate;
+    }
+
+    /**
+     * Sets the minimum dimension of a moving region.
+     * @param minDimension The minimum dimension
+     */
+    public setMinDimension(minDimension: number): void {
+        this.minDimension = minDimension;
+    }
+
+    /**
+     * Sets the minimum number of pixels of a moving region.
+     * @param minGroupSize The minimum group size
+     */
+    public setMinGroupSize(minGroupSize: number): void {
+        this.minGroupSize = minGroupSize;
+    }
+
+    /**
+     * Sets the radius of the morphological opening and closing.
+     * @param morphologyRadius The morphology radius
+     */
+    public setMorphologyRadius(morphologyRadius: number): void {
+        this.morphologyRadius = morphologyRadius;
+    }
+
+    /**
+     * Sets the minimum brightness ratio of a shadow to the background.
+     * @param shadowRatio The shadow ratio
+     */
+    public setShadowRatio(shadowRatio: number): void {
+        this.shadowRatio = shadowRatio;
+    }
+
+    /**
+     * Sets the number of standard deviations above which a pixel is moving.
+     * @param threshold The threshold
+     */
+    public setThreshold(threshold: number): void {
+        this.threshold = threshold;
+    }
+
+    /**
+     * Tracks the moving regions of the video frames. This method is called
+     * for each video frame in order to emit `track` event.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     */
+    public track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        if (!this.mean_ || !this.variance_ || this.mean_.length !== width * height * 3) {
+            this.initialize_(pixels, width, height);
+            this.emitTrack_([]);
+            return;
+        }
+
+        let mask = this.subtract_(pixels, this.mean_, this.variance_);
+        const radius = this.getMorphologyRadius();
+        if (radius > 0) {
+            mask = Image.dilate(Image.erode(mask, width, height, radius), width, height, radius);
+            mask = Image.erode(Image.dilate(mask, width, height, radius), width, height, radius);
+        }
+
+        const minDimension = this.getMinDimension();
+        const minGroupSize = this.getMinGroupSize();
+        const blobs = this.components_.label(mask, width, height)[1] || [];
+        const results = blobs.filter((blob) => {
+            return blob.total >= minGroupSize && blob.width >= minDimension && blob.height >= minDimension;
+        });
+        results.forEach((blob) => delete blob.color);
+
+        this.emitTrack_(results);
+    }
+
+    /**
+     * Initializes the background model with a frame.
+     * @param pixels The pixels in a linear [r,g,b,a,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     */
+    private initialize_(pixels: Uint8ClampedArray, width: number, height: number): void {
+        const size = width * height;
+        if (pixels.length < size * 4) {
+            throw new Error("Pixels do not match the frame size, try `tracker.track(pixels, width, height)`.");
+        }
+
+        this.mean_ = new Float32Array(size * 3);
+        this.variance_ = new Float32Array(size * 3).fill(MotionTracker.INITIAL_VARIANCE);
+        for (let p = 0, w = 0; p < size * 3; p += 3, w += 4) {
+            this.mean_[p] = pixels[w];
+            this.mean_[p + 1] = pixels[w + 1];
+            this.mean_[p + 2] = pixels[w + 2];
+        }
+    }
+
+    /**
+     * Finds the moving pixels of a frame and updates the background model.
+     * @param pixels The pixels in a linear [r,g,b,a,...] array.
+     * @param mean The background mean of each pixel.
+     * @param variance The background variance of each pixel.
+     * @return The mask of the moving pixels in a linear array, 1 if moving.
+     */
+    private subtract_(pixels: Uint8ClampedArray, mean: Float32Array, variance: Float32Array): Uint8Array {
+        const mask = new Uint8Array(mean.length / 3);
+        const rate = this.getLearningRate();
+        const shadowRatio = this.getShadowRatio();
+        // The squared deviations of the three channels are summed.
+        const limit = 3 * this.getThreshold() * this.getThreshold();
+
+        for (let i = 0, p = 0, w = 0; i < mask.length; i++, p += 3, w += 4) {
+            let distance = 0;
+            let dot = 0;
+            let norm = 0;
+            for (let c = 0; c < 3; c++) {
+                const delta = pixels[w + c] - mean[p + c];
+                distance += (delta * delta) / variance[p + c];
+                dot += pixels[w + c] * mean[p + c];
+                norm += mean[p + c] * mean[p + c];
+            }
+
+            if (distance > limit) {
+                mask[i] = 1;
+
+                // A shadow is the background scaled by its brightness ratio.
+                const ratio = norm > 0 ? dot / norm : 0;
+                if (ratio >= shadowRatio && ratio < 1) {
+                    let chroma = 0;
+                    for (let c = 0; c < 3; c++) {
+                        const delta = pixels[w + c] - ratio * mean[p + c];
+                        chroma += (delta * delta) / variance[p + c];
+                    }
+                    mask[i] = chroma > limit ? 1 : 0;
+                }
+            }
+
+            for (let c = 0; c < 3; c++) {
+                const delta = pixels[w + c] - mean[p + c];
+                mean[p + c] += rate * delta;
+                variance[p + c] = Math.max(
+                    MotionTracker.MIN_VARIANCE,
+                    variance[p + c] + rate * (delta * delta - variance[p + c])
+                );
+            }
+        }
+
+        return mask;
+    }
+}
@@ -0,0 +1,303 @@
+import { Tracker, TrackerEvents, TrackerLike } from "./Tracker";
+import { Rect } from "../detection/Rect";
+import { Assignment } from "../math/Assignment";
+import { TrackingMath } from "../math/TrackingMath";
+
+/**
+ * MultiObjectTracker wraps any tracker that produces rectangles, e.g. the
+ * `ObjectTracker` or the `ColorTracker`, and associates the rectangles of
+ * consecutive frames so each object keeps the same `id`. Rectangles are
+ * matched to the known objects by intersection over union and centroid
+ * distance. Objects that are not matched for more than `maxMissedFrames`
+ * frames leave. Besides `track`, which holds the objects seen in the frame,
+ * it emits `enter`, `update` and `leave` for each object.
+ */
+export class MultiObjectTracker extends Tracker<TrackedObject[], MultiObjectTrackerEvents> {
+    /**
+     * Specifies the algorithm used to match rectangles to objects, the optimal
+     * "hungarian" or the faster "greedy".
+     * @default "hungarian"
+     */
+    public assignment: AssignmentMethod = "hungarian";
+
+    /**
+     * Specifies the maximum distance between the centroids of a rectangle and
+     * an object, relative to the object diagonal, to match them when they do
+     * not overlap enough.
+     * @default 0.5
+     */
+    public maxDistance: number = 0.5;
+
+    /**
+     * Specifies the number of consecutive frames an object can be missed
+     * before it leaves.
+     * @default 5
+     */
+    public maxMissedFrames: number = 5;
+
+    /**
+     * Specifies the minimum intersection over union to match a rectangle to
+     * an object.
+     * @default 0.3
+     */
+    public minIoU: number = 0.3;
+
+    /**
+     * Holds the id of the next object that enters.
+     */
+    private nextId_: number = 1;
+
+    /**
+     * Holds the objects being tracked, including the missed ones.
+     */
+    private objects_: TrackedObject[] = [];
+
+    /**
+     * Holds the tracker producing the rectangles.
+     */
+    private tracker_: TrackerLike<Rect[]>;
+
+    /**
+     * Creates a new MultiObjectTracker instance.
+     * @param tracker The tracker producing the rectangles to associate.
+     */
+    constructor(tracker: TrackerLike<Rect[]>) {
+        super();
+
+        if (!tracker) {
+            throw new Error("Tracker instance not specified.");
+        }
+
+        this.tracker_ = tracker;
+        this.tracker_.on("track", (event) => this.emitTrack_(this.associate(event.data)));
+        this.tracker_.on("error", (error) => this.emit("error", error));
+    }
+
+    /**
+     * Gets the algorithm used to match rectangles to objects.
+     * @return The assignment method
+     */
+    public getAssignment(): AssignmentMethod {
+        return this.assignment;
+    }
+
+    /**
+     * Gets the maximum centroid distance, relative to the object diagonal.
+     * @return The maximum distance
+     */
+    public getMaxDistance(): number {
+        return this.maxDistance;
+    }
+
+    /**
+     * Gets the number of consecutive frames an object can be missed.
+     * @return The maximum missed frames
+     */
+    public getMaxMissedFrames(): number {
+        return this.maxMissedFrames;
+    }
+
+    /**
+     * Gets the minimum intersection over union to match a rectangle.
+     * @return The minimum intersection over union
+     */
+    public getMinIoU(): number {
+        return this.minIoU;
+    }
+
+    /**
+     * Gets the objects being tracked, including the missed ones.
+     * @return The tracked objects
+     */
+    public getObjects(): TrackedObject[] {
+        return this.objects_.map((object) => this.copy_(object));
+    }
+
+    /**
+     * Gets the tracker producing the rectangles.
+     * @return The tracker instance
+     */
+    public getTracker(): TrackerLike<Rect[]> {
+        return this.tracker_;
+    }
+
+    /**
+     * Sets the algorithm used to match rectangles to objects.
+     * @param assignment The assignment method
+     */
+    public setAssignment(assignment: AssignmentMethod): void {
+        this.assignment = assignment;
+    }
+
+    /**
+     * Sets the maximum centroid distance, relative to the object diagonal.
+     * @param maxDistance The maximum distance
+     */
+    public setMaxDistance(maxDistance: number): void {
+        this.maxDistance = maxDistance;
+    }
+
+    /**
+     * Sets the number of consecutive frames an object can be missed.
+     * @param maxMissedFrames The maximum missed frames
+     */
+    public setMaxMissedFrames(maxMissedFrames: number): void {
+        this.maxMissedFrames = maxMissedFrames;
+    }
+
+    /**
+     * Sets the minimum intersection over union to match a rectangle.
+     * @param minIoU The minimum intersection over union
+     */
+    public setMinIoU(minIoU: number): void {
+        this.minIoU = minIoU;
+    }
+
+    /**
+     * Associates the rectangles of a frame to the tracked objects, emitting
+     * `enter`, `update` and `leave` events. This method is called for each
+     * `track` event of the wrapped tracker, and can be called directly with
+     * rectangles from other sources.
+     * @param rects The rectangles found in the frame.
+     * @return The objects seen in the frame.
+     */
+    public associate(rects: Rect[]): TrackedObject[] {
+        const objects = this.objects_;
+        const cost = objects.map((object) => rects.map((rect) => this.getCost_(object, rect)));
+        const assignment = this.getAssignment() === "greedy" ? Assignment.greedy(cost) : Assignment.hungarian(cost);
+        const assigned: boolean[] = [];
+        const result: TrackedObject[] = [];
+
+        this.objects_ = [];
+
+        objects.forEach((object, i) => {
+            const j = assignment[i];
+
+            if (j !== -1) {
+                assigned[j] = true;
+                this.update_(object, rects[j]);
+                object.age++;
+                object.missed = 0;
+                this.objects_.push(object);
+                result.push(this.copy_(object));
+                this.emit("update", this.copy_(object));
+                return;
+            }
+
+            object.age++;
+            object.missed++;
+            if (object.missed > this.getMaxMissedFrames()) {
+                this.emit("leave", this.copy_(object));
+                return;
+            }
+            this.objects_.push(object);
+        });
+
+        rects.forEach((rect, j) => {
+            if (assigned[j]) {
+                return;
+            }
+
+            const object = this.update_({ id: this.nextId_++, age: 1, missed: 0 } as TrackedObject, rect);
+            this.objects_.push(object);
+            result.push(this.copy_(object));
+            this.emit("enter", this.copy_(object));
+        });
+
+        return result;
+    }
+
+    /**
+     * Forgets every tracked object, without emitting `leave` events. Ids are
+     * not reused.
+     */
+    public reset(): void {
+        this.objects_ = [];
+    }
+
+    /**
+     * Tracks the pixels with the wrapped tracker, whose rectangles are then
+     * associated to the tracked objects.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     */
+    track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        this.tracker_.track(pixels, width, height);
+    }
+
+    /**
+     * Copies a tracked object, so the emitted objects are not changed by the
+     * next frames.
+     * @param object The tracked object.
+     * @return The copy.
+     */
+    private copy_(object: TrackedObject): TrackedObject {
+        return this.update_({ id: object.id, age: object.age, missed: object.missed } as TrackedObject, object);
+    }
+
+    /**
+     * Computes the cost of matching a rectangle to an object.
+     * @param object The tracked object.
+     * @param rect The rectangle.
+     * @return The cost, or Infinity when they do not match.
+     */
+    private getCost_(object: TrackedObject, rect: Rect): number {
+        const iou = TrackingMath.intersectionOverUnion(object, rect);
+        const diagonal = Math.sqrt(object.width * object.width + object.height * object.height) || 1;
+        const distance =
+            TrackingMath.distance(
+                object.x + object.width / 2,
+                object.y + object.height / 2,
+                rect.x + rect.width / 2,
+                rect.y + rect.height / 2
+            ) / diagonal;
+
+        if (iou < this.getMinIoU() && distance > this.getMaxDistance()) {
+            return Infinity;
+        }
+        return 1 - iou + distance;
+    }
+
+    /**
+     * Copies the rectangle properties into a tracked object.
+     * @param object The tracked object.
+     * @param rect The rectangle.
+     * @return The tracked object.
+     */
+    private update_(object: TrackedObject, rect: Rect): TrackedObject {
+        object.x = rect.x;
+        object.y = rect.y;
+        object.width = rect.width;
+        object.height = rect.height;
+        object.total = rect.total;
+        if (rect.color !== undefined) {
+            object.color = rect.color;
+        }
+        return object;
+    }
+}
+
+/**
+ * Algorithm used to match rectangles to tracked objects
+ */
+export type AssignmentMethod = "hungarian" | "greedy";
+
+/**
+ * Interface for an object tracked across frames. `age` counts the frames
+ * since it entered and `missed` the consecutive frames it was not seen.
+ */
+export interface TrackedObject extends Rect {
+    id: number;
+    age: number;
+    missed: number;
+}
+
+/**
+ * Interface for the events emitted by the MultiObjectTracker
+ */
+export interface MultiObjectTrackerEvents extends TrackerEvents<TrackedObject[]> {
+    enter: (object: TrackedObject) => void;
+    update: (object: TrackedObject) => void;
+    leave: (object: TrackedObject) => void;
+}
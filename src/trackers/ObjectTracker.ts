@@ -1,12 +1,28 @@
 import { Tracker } from "./Tracker";
 import { ViolaJones } from "../detection/ViolaJones";
 import { Rect } from "../detection/Rect";
+import { Template, TemplateMatcher } from "../features/TemplateMatcher";
+import { Image } from "../utils/Image";
 
 /**
  * ObjectTracker utility class for tracking objects in video frames.
  * Extends the base Tracker class.
+ *
+ * Running the detection on every frame is expensive. When `detectionInterval`
+ * is greater than 1, the detection only runs every `detectionInterval` frames
+ * and, in between, each detected rectangle is followed by template matching
+ * in a search window around its last position. The detection runs earlier
+ * when a rectangle is lost, i.e. its match score drops below `minConfidence`.
  */
-export class ObjectTracker extends Tracker {
+export class ObjectTracker extends Tracker<Rect[]> {
+    /**
+     * Specifies the number of frames between two detections. The rectangles
+     * are followed by template matching on the other frames, 1 detects on
+     * every frame.
+     * @default 1
+     */
+    public detectionInterval: number = 1;
+
     /**
      * Specifies the edges density of a block in order to decide whether to skip
      * it or not.
@@ -20,12 +36,26 @@ export class ObjectTracker extends Tracker {
      */
     public initialScale: number = 1.0;
 
+    /**
+     * Specifies the minimum template matching score, from -1 to 1, to keep
+     * following the rectangles without running the detection.
+     * @default 0.6
+     */
+    public minConfidence: number = 0.6;
+
     /**
      * Specifies the scale factor to scale the feature block.
      * @default 1.25
      */
     public scaleFactor: number = 1.25;
 
+    /**
+     * Specifies the search window radius of the template matching, relative
+     * to the size of the rectangle.
+     * @default 0.25
+     */
+    public searchRadius: number = 0.25;
+
     /**
      * Specifies the block step size.
      * @default 1.5
@@ -34,30 +64,33 @@ export class ObjectTracker extends Tracker {
 
     private classifiers?: Float64Array[];
 
+    /**
+     * Holds the number of frames since the last detection.
+     */
+    private frame_: number = 0;
+
+    /**
+     * Holds the rectangles followed between detections, with their template.
+     */
+    private followed_: FollowedRect[] = [];
+
     /**
      * Creates a new ObjectTracker instance.
-     * @param optClassifiers Optional object classifiers to track.
+     * @param optClassifiers Optional object classifiers to track, by name,
+     *     e.g. "face", or as HAAR cascade data.
      */
-    constructor(optClassifiers?: string | string[]) {
+    constructor(optClassifiers?: ObjectClassifier | ObjectClassifier[]) {
         super();
 
         if (optClassifiers) {
-            let classifiers = optClassifiers;
-            let newClassifiers: Float64Array[] = [];
+            const classifiers = Array.isArray(optClassifiers) ? optClassifiers : [optClassifiers];
+            const newClassifiers: Float64Array[] = [];
 
-            if (!Array.isArray(classifiers)) {
-                classifiers = [classifiers];
-            }
-
-            if (Array.isArray(classifiers)) {
-                for (const classifier of classifiers) {
-                    const i = classifiers.indexOf(classifier);
-                    if (typeof classifier === "string") {
-                        newClassifiers[i] = ViolaJones.classifiers[classifier];
-                    }
-                    if (!newClassifiers[i]) {
-                        throw new Error('Object classifier not valid, try `new tracking.ObjectTracker("face")`.');
-                    }
+            for (let i = 0; i < classifiers.length; i++) {
+                const classifier = classifiers[i];
+                newClassifiers[i] = typeof classifier === "string" ? ViolaJones.classifiers[classifier] : classifier;
+                if (!(newClassifiers[i] instanceof Float64Array)) {
+                    throw new Error('Object classifier not valid, try `new tracking.ObjectTracker("face")`.');
                 }
             }
 
@@ -73,6 +106,14 @@ export class ObjectTracker extends Tracker {
         return this.classifiers;
     }
 
+    /**
+     * Gets the number of frames between two detections.
+     * @return The detection interval
+     */
+    public getDetectionInterval(): number {
+        return this.detectionInterval;
+    }
+
     /**
      * Gets the edges density value.
      * @return The edges density value
@@ -89,6 +130,14 @@ export class ObjectTracker extends Tracker {
         return this.initialScale;
     }
 
+    /**
+     * Gets the minimum template matching score to keep following rectangles.
+     * @return The minimum confidence
+     */
+    public getMinConfidence(): number {
+        return this.minConfidence;
+    }
+
     /**
      * Gets the scale factor to scale the feature block.
      * @return The scale factor value
@@ -97,6 +146,14 @@ export class ObjectTracker extends Tracker {
         return this.scaleFactor;
     }
 
+    /**
+     * Gets the search window radius, relative to the rectangle size.
+     * @return The search radius
+     */
+    public getSearchRadius(): number {
+        return this.searchRadius;
+    }
+
     /**
      * Gets the block step size.
      * @return The step size value
@@ -106,41 +163,54 @@ export class ObjectTracker extends Tracker {
     }
 
     /**
-     * Tracks the Video frames. This method is called for each video frame in
-     * order to emit 'track' event.
+     * Detects, or follows between detections, the objects of a video frame
+     * without emitting them, e.g. to build another result from them.
      * @param pixels The pixels data to track
      * @param width The pixels canvas width
      * @param height The pixels canvas height
+     * @return The rectangles of the objects
      */
-    public track(pixels: Uint8ClampedArray, width: number, height: number): void {
+    public detect(pixels: Uint8ClampedArray, width: number, height: number): Rect[] {
         const classifiers = this.getClassifiers();
 
         if (!classifiers) {
             throw new Error('Object classifier not specified, try `new tracking.ObjectTracker("face")`.');
         }
 
-        let results: Rect[] = [];
+        const interval = Math.max(1, Math.floor(this.getDetectionInterval()));
+        let results: Rect[] | null = null;
 
-        if (Array.isArray(classifiers)) {
-            for (const classifier of classifiers) {
-                results = results.concat(
-                    ViolaJones.detect(
-                        pixels,
-                        width,
-                        height,
-                        this.getInitialScale(),
-                        this.getScaleFactor(),
-                        this.getStepSize(),
-                        this.getEdgesDensity(),
-                        classifier
-                    )
-                );
+        if (interval > 1) {
+            const gray = Image.grayscale(pixels, width, height);
+
+            if (this.frame_ % interval !== 0) {
+                results = this.follow_(gray, width, height);
+            }
+            if (!results) {
+                results = this.runClassifiers_(pixels, width, height, classifiers);
+                this.followed_ = results.map((rect) => ({
+                    rect: this.copy_(rect),
+                    template: TemplateMatcher.create(gray, width, height, rect),
+                }));
+                this.frame_ = 0;
             }
+            this.frame_++;
+        } else {
+            results = this.runClassifiers_(pixels, width, height, classifiers);
         }
 
-        this.emit("track", {
-            data: results,
-        });
+        return results;
+    }
+
+    /**
+     * Tracks the Video frames. This method is called for each video frame in
+     * order to emit 'track' event.
+     * @param pixels The pixels data to track
+     * @param width The pixels canvas width
+     * @param height The pixels canvas height
+     */
+    public track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        this.emitTrack_(this.detect(pixels, width, height));
     }
 
     /**
@@ -151,6 +221,15 @@ export class ObjectTracker extends Tracker {
         this.classifiers = classifiers;
     }
 
+    /**
+     * Sets the number of frames between two detections.
+     * @param detectionInterval The detection interval
+     */
+    public setDetectionInterval(detectionInterval: number): void {
+        this.detectionInterval = detectionInterval;
+        this.reset();
+    }
+
     /**
      * Sets the edges density.
      * @param edgesDensity The edges density value
@@ -167,6 +246,14 @@ export class ObjectTracker extends Tracker {
         this.initialScale = initialScale;
     }
 
+    /**
+     * Sets the minimum template matching score to keep following rectangles.
+     * @param minConfidence The minimum confidence
+     */
+    public setMinConfidence(minConfidence: number): void {
+        this.minConfidence = minConfidence;
+    }
+
     /**
      * Sets the scale factor to scale the feature block.
      * @param scaleFactor The scale factor value
@@ -175,6 +262,14 @@ export class ObjectTracker extends Tracker {
         this.scaleFactor = scaleFactor;
     }
 
+    /**
+     * Sets the search window radius, relative to the rectangle size.
+     * @param searchRadius The search radius
+     */
+    public setSearchRadius(searchRadius: number): void {
+        this.searchRadius = searchRadius;
+    }
+
     /**
      * Sets the block step size.
      * @param stepSize The step size value
@@ -182,4 +277,97 @@ export class ObjectTracker extends Tracker {
     public setStepSize(stepSize: number): void {
         this.stepSize = stepSize;
     }
+
+    /**
+     * Forgets the followed rectangles, so the next frame runs the detection.
+     */
+    public reset(): void {
+        this.followed_ = [];
+        this.frame_ = 0;
+    }
+
+    /**
+     * Copies a rectangle, so the emitted rectangles are not changed by the
+     * next frames.
+     * @param rect The rectangle.
+     * @return The copy.
+     */
+    private copy_(rect: Rect): Rect {
+        return { x: rect.x, y: rect.y, width: rect.width, height: rect.height, total: rect.total };
+    }
+
+    /**
+     * Detects the objects of every classifier in the pixels.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     * @param classifiers The classifiers.
+     * @return The detected rectangles.
+     */
+    private runClassifiers_(
+        pixels: Uint8ClampedArray,
+        width: number,
+        height: number,
+        classifiers: Float64Array | Float64Array[]
+    ): Rect[] {
+        let results: Rect[] = [];
+
+        if (Array.isArray(classifiers)) {
+            for (const classifier of classifiers) {
+                results = results.concat(
+                    ViolaJones.detect(
+                        pixels,
+                        width,
+                        height,
+                        this.getInitialScale(),
+                        this.getScaleFactor(),
+                        this.getStepSize(),
+                        this.getEdgesDensity(),
+                        classifier
+                    )
+                );
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Follows the rectangles of the last detection by template matching.
+     * @param gray The grayscale pixels in a linear array.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     * @return The followed rectangles, or null when one of them is lost.
+     */
+    private follow_(gray: Uint8Array, width: number, height: number): Rect[] | null {
+        const results: Rect[] = [];
+
+        for (const followed of this.followed_) {
+            const rect = followed.rect;
+            const radius = this.getSearchRadius() * Math.max(rect.width, rect.height);
+            const match = TemplateMatcher.match(gray, width, height, followed.template, rect, radius);
+
+            if (match.score < this.getMinConfidence()) {
+                return null;
+            }
+            rect.x = match.x;
+            rect.y = match.y;
+            results.push(this.copy_(rect));
+        }
+
+        return results;
+    }
+}
+
+/**
+ * Object classifier, the name of a registered HAAR cascade or its data
+ */
+export type ObjectClassifier = string | Float64Array;
+
+/**
+ * Interface for a rectangle followed between detections
+ */
+interface FollowedRect {
+    rect: Rect;
+    template: Template;
 }
@@ -0,0 +1,191 @@
+import { Tracker, TrackerLike } from "./Tracker";
+import { LandmarksResult } from "./LandmarksTracker";
+import { Rect } from "../detection/Rect";
+import { Smoother } from "../smoothing/Smoother";
+import { SmoothingFilterFactory } from "../smoothing/SmoothingFilter";
+
+/**
+ * SmoothingTracker wraps another tracker and smooths its results across
+ * frames, removing the jitter of the detections:
+ *
+ * ```
+ * const tracker = new SmoothingTracker(
+ *   new MultiObjectTracker(new ObjectTracker("face")),
+ *   () => new KalmanFilter({ processNoise: 5000 })
+ * );
+ * ```
+ *
+ * Rectangles are smoothed by x, y, width and height, and the results of the
+ * `LandmarksTracker` by face rectangle and landmark point. Rectangles with an
+ * `id`, such as the objects of the `MultiObjectTracker`, are matched across
+ * frames by id, other rectangles and faces by their order, which is only
+ * stable when a single object is tracked.
+ */
+export class SmoothingTracker<T = Rect[]> extends Tracker<T> {
+    /**
+     * Specifies the frame rate, in Hz, the wrapped tracker is called at. It
+     * sets the time between frames seen by the filters.
+     * @default 30
+     */
+    public frequency: number = 30;
+
+    /**
+     * Holds the number of frames smoothed.
+     */
+    private frame_: number = 0;
+
+    /**
+     * Holds the smoother of the results.
+     */
+    private smoother_: Smoother;
+
+    /**
+     * Holds the tracker producing the results.
+     */
+    private tracker_: TrackerLike<T>;
+
+    /**
+     * Creates a new SmoothingTracker instance.
+     * @param tracker The tracker producing the results to smooth.
+     * @param factory The function that creates a filter for each smoothed
+     *     value, e.g. `() => new OneEuroFilter()`.
+     */
+    constructor(tracker: TrackerLike<T>, factory: SmoothingFilterFactory) {
+        super();
+
+        if (!tracker) {
+            throw new Error("Tracker instance not specified.");
+        }
+
+        this.smoother_ = new Smoother(factory);
+        this.tracker_ = tracker;
+        this.tracker_.on("track", (event) => this.emitTrack_(this.smooth_(event.data)));
+        this.tracker_.on("error", (error) => this.emit("error", error));
+    }
+
+    /**
+     * Gets the frame rate the wrapped tracker is called at.
+     * @return The frequency
+     */
+    public getFrequency(): number {
+        return this.frequency;
+    }
+
+    /**
+     * Gets the smoother of the results.
+     * @return The smoother
+     */
+    public getSmoother(): Smoother {
+        return this.smoother_;
+    }
+
+    /**
+     * Gets the tracker producing the results.
+     * @return The tracker instance
+     */
+    public getTracker(): TrackerLike<T> {
+        return this.tracker_;
+    }
+
+    /**
+     * Sets the frame rate the wrapped tracker is called at.
+     * @param frequency The frequency
+     */
+    public setFrequency(frequency: number): void {
+        this.frequency = frequency;
+    }
+
+    /**
+     * Forgets the smoothing state, e.g. after a scene cut.
+     */
+    public reset(): void {
+        this.smoother_.reset();
+    }
+
+    /**
+     * Tracks the pixels with the wrapped tracker, whose results are then
+     * smoothed.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     */
+    track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        this.tracker_.track(pixels, width, height);
+    }
+
+    /**
+     * Smooths the results of a frame. Results other than rectangles and
+     * landmarks are emitted unchanged.
+     * @param data The results of the wrapped tracker.
+     * @return The smoothed results.
+     */
+    private smooth_(data: T): T {
+        const timestamp = this.frame_++ / this.getFrequency();
+        const seen: Record<string, boolean> = {};
+        let smoothed: unknown = data;
+
+        if (Array.isArray(data)) {
+            smoothed = this.smoothRects_(data as Rect[], "rect", timestamp, seen);
+        } else if (isLandmarksResult(data)) {
+            smoothed = {
+                ...data,
+                faces: this.smoothRects_(data.faces, "face", timestamp, seen),
+                landmarks: data.landmarks.map((points, i) => {
+                    seen["landmarks:" + i] = true;
+                    return this.smoother_.smoothPoints("landmarks:" + i, points, timestamp);
+                }),
+            };
+        }
+
+        // Objects that are gone start from scratch when they come back.
+        this.smoother_.getKeys().forEach((key) => {
+            if (!seen[key]) {
+                this.smoother_.remove(key);
+            }
+        });
+
+        // The smoothed results are copies of the data with the same shape.
+        return smoothed as T;
+    }
+
+    /**
+     * Smooths the rectangles of a frame.
+     * @param rects The rectangles.
+     * @param prefix The prefix of the smoother keys.
+     * @param timestamp The frame time, in seconds.
+     * @param seen The smoother keys seen in the frame.
+     * @return The smoothed rectangles.
+     */
+    private smoothRects_<R extends Rect>(
+        rects: R[],
+        prefix: string,
+        timestamp: number,
+        seen: Record<string, boolean>
+    ): R[] {
+        return rects.map((rect, i) => {
+            const key = prefix + ":" + (hasId(rect) ? "#" + rect.id : i);
+            seen[key] = true;
+            return this.smoother_.smoothRect(key, rect, timestamp);
+        });
+    }
+}
+
+/**
+ * Tests whether a rectangle has an id, e.g. the objects of the
+ * `MultiObjectTracker`.
+ * @param rect The rectangle.
+ * @return Whether the rectangle has a numeric `id`.
+ */
+function hasId(rect: Rect): rect is Rect & { id: number } {
+    return "id" in rect && typeof rect.id === "number";
+}
+
+/**
+ * Tests whether tracking results are the results of the `LandmarksTracker`.
+ * @param data The tracking results.
+ * @return Whether the results hold `faces` and `landmarks` arrays.
+ */
+function isLandmarksResult(data: unknown): data is LandmarksResult {
+    const result = data as LandmarksResult | null;
+    return !!result && Array.isArray(result.faces) && Array.isArray(result.landmarks);
+}
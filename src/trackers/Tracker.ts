@@ -2,13 +2,28 @@ import { EventEmitter } from "eventemitter3";
 
 import { Rect } from "../detection/Rect";
 
-interface Events {
-    track: {
-        data: Rect[];
-    };
+/**
+ * Interface for the `track` event of a tracker, holding its result
+ */
+export interface TrackEvent<T> {
+    data: T;
 }
 
-export abstract class Tracker extends EventEmitter<Events> {
+/**
+ * Interface for the events emitted by a tracker
+ */
+export interface TrackerEvents<T> {
+    track: (event: TrackEvent<T>) => void;
+    error: (error: Error) => void;
+}
+
+/**
+ * Tracker base class. `T` is the type of the result emitted as the `data` of
+ * each `track` event, e.g. the rectangles found by the `ColorTracker`, and `E`
+ * the events of trackers that emit more than `track` and `error`. Code that
+ * accepts any tracker of results `T` takes a `TrackerLike<T>`.
+ */
+export abstract class Tracker<T = Rect[], E extends TrackerEvents<T> = TrackerEvents<T>> extends EventEmitter<E> {
     /**
      * Tracks the pixels on the array. This method is called for each video
      * frame in order to emit `track` event.
@@ -17,4 +32,28 @@ export abstract class Tracker extends EventEmitter<Events> {
      * @param {number} height The pixels canvas height.
      */
     abstract track(pixels: Uint8ClampedArray, width: number, height: number): void;
+
+    /**
+     * Emits the `track` event with the result of a frame.
+     * @param data The tracking result.
+     */
+    protected emitTrack_(data: T): void {
+        // `E` extends the tracker events, so every tracker emits `track`.
+        const emitter: EventEmitter<TrackerEvents<T>> = this;
+        emitter.emit("track", { data: data });
+    }
+}
+
+/**
+ * Interface for any tracker of results `T`, whatever other events it emits,
+ * which is what code driving trackers accepts.
+ */
+export interface TrackerLike<T> {
+    track(pixels: Uint8ClampedArray, width: number, height: number): void;
+    on(event: "track", fn: (event: TrackEvent<T>) => void): this;
+    on(event: "error", fn: (error: Error) => void): this;
+    removeListener(event: "track", fn?: (event: TrackEvent<T>) => void): this;
+    removeListener(event: "error", fn?: (error: Error) => void): this;
+    emit(event: "track", data: TrackEvent<T>): boolean;
+    emit(event: "error", error: Error): boolean;
 }
@@ -1,11 +1,23 @@
 import { EventEmitter } from "eventemitter3";
-import { Tracker } from "./Tracker";
 
-export class TrackerTask extends EventEmitter {
+import { Rect } from "../detection/Rect";
+import { TrackEvent, TrackerLike } from "./Tracker";
+
+/**
+ * Interface for the events emitted by a tracker task
+ */
+export interface TrackerTaskEvents<T> {
+    run: () => void;
+    stop: () => void;
+    track: (event: TrackEvent<T>) => void;
+    error: (error: Error) => void;
+}
+
+export class TrackerTask<T = Rect[]> extends EventEmitter<TrackerTaskEvents<T>> {
     /**
      * Holds the tracker instance managed by this task.
      */
-    private tracker_: Tracker;
+    private tracker_: TrackerLike<T>;
 
     /**
      * Holds if the tracker task is in running.
@@ -16,13 +28,19 @@ export class TrackerTask extends EventEmitter {
      * Function to re-emit track events
      * @private
      */
-    private reemitTrackEvent_?: (event: any) => void;
+    private reemitTrackEvent_?: (event: TrackEvent<T>) => void;
+
+    /**
+     * Function to re-emit error events
+     * @private
+     */
+    private reemitErrorEvent_?: (error: Error) => void;
 
     /**
      * Creates a new TrackerTask instance.
      * @param tracker - The tracker instance to manage
      */
-    constructor(tracker: Tracker) {
+    constructor(tracker: TrackerLike<T>) {
         super();
 
         if (!tracker) {
@@ -36,7 +54,7 @@ export class TrackerTask extends EventEmitter {
      * Gets the tracker instance managed by this task.
      * @return The tracker instance
      */
-    getTracker(): Tracker {
+    getTracker(): TrackerLike<T> {
         return this.tracker_;
     }
 
@@ -62,7 +80,7 @@ export class TrackerTask extends EventEmitter {
      * Sets the tracker instance managed by this task.
      * @param tracker - The tracker instance to set
      */
-    setTracker(tracker: Tracker): void {
+    setTracker(tracker: TrackerLike<T>): void {
         this.tracker_ = tracker;
     }
 
@@ -77,10 +95,17 @@ export class TrackerTask extends EventEmitter {
         }
 
         this.setRunning(true);
-        this.reemitTrackEvent_ = (event: any) => {
+        this.reemitTrackEvent_ = (event: TrackEvent<T>) => {
             this.emit("track", event);
         };
+        this.reemitErrorEvent_ = (error: Error) => {
+            // Like the Node.js EventEmitter, errors nobody listens to are thrown.
+            if (!this.emit("error", error)) {
+                throw error;
+            }
+        };
         this.tracker_.on("track", this.reemitTrackEvent_);
+        this.tracker_.on("error", this.reemitErrorEvent_);
         this.emit("run");
         return this;
     }
@@ -100,6 +125,121 @@ export class TrackerTask extends EventEmitter {
         if (this.reemitTrackEvent_) {
             this.tracker_.removeListener("track", this.reemitTrackEvent_);
         }
+        if (this.reemitErrorEvent_) {
+            this.tracker_.removeListener("error", this.reemitErrorEvent_);
+        }
         return this;
     }
+
+    /**
+     * Iterates over the `track` events of the task, running it if needed:
+     *
+     * ```
+     * for await (const event of task.iterate(1)) {
+     *   // console.log(event.data)
+     * }
+     * ```
+     *
+     * Events emitted while the consumer is busy are buffered, dropping the
+     * oldest ones once `optBufferSize` events are waiting. Leaving the loop
+     * stops the task, stopping the task ends the loop once the buffered
+     * events are consumed, and an `error` emitted by the tracker is thrown to
+     * the loop, stopping the task.
+     * @param optBufferSize Optional maximum number of buffered events. When
+     *     not specified every event is buffered.
+     * @return An async iterator over the `track` events.
+     */
+    iterate(optBufferSize?: number): AsyncIterableIterator<TrackEvent<T>> {
+        const bufferSize = optBufferSize === undefined ? Infinity : optBufferSize;
+        if (!(bufferSize >= 1)) {
+            throw new Error("Buffer size must be at least 1, try `task.iterate(1)`.");
+        }
+
+        const buffer: TrackEvent<T>[] = [];
+        let pending: {
+            resolve: (result: IteratorResult<TrackEvent<T>>) => void;
+            reject: (error: Error) => void;
+        } | null = null;
+        let failure: Error | null = null;
+        let finished = false;
+
+        const onTrack = (event: TrackEvent<T>) => {
+            if (pending) {
+                const resolve = pending.resolve;
+                pending = null;
+                resolve({ value: event, done: false });
+                return;
+            }
+            buffer.push(event);
+            if (buffer.length > bufferSize) {
+                buffer.shift();
+            }
+        };
+        const onError = (error: Error) => {
+            failure = error;
+            finish();
+            this.stop();
+        };
+        const finish = () => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            this.removeListener("track", onTrack);
+            this.removeListener("error", onError);
+            this.removeListener("stop", finish);
+            if (pending) {
+                const settle = pending;
+                pending = null;
+                if (failure) {
+                    settle.reject(failure);
+                    failure = null;
+                } else {
+                    settle.resolve({ value: undefined, done: true });
+                }
+            }
+        };
+
+        this.on("track", onTrack);
+        this.on("error", onError);
+        this.on("stop", finish);
+
+        const iterator: AsyncIterableIterator<TrackEvent<T>> = {
+            next: (): Promise<IteratorResult<TrackEvent<T>>> => {
+                if (buffer.length) {
+                    return Promise.resolve({ value: buffer.shift() as TrackEvent<T>, done: false });
+                }
+                if (failure) {
+                    const error = failure;
+                    failure = null;
+                    return Promise.reject(error);
+                }
+                if (finished) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+                return new Promise((resolve, reject) => {
+                    pending = { resolve: resolve, reject: reject };
+                });
+            },
+            return: (): Promise<IteratorResult<TrackEvent<T>>> => {
+                buffer.length = 0;
+                failure = null;
+                finish();
+                this.stop();
+                return Promise.resolve({ value: undefined, done: true });
+            },
+            [Symbol.asyncIterator]: () => iterator,
+        };
+
+        this.run();
+        return iterator;
+    }
+
+    /**
+     * Iterates over the `track` events of the task, see `iterate`.
+     * @return An async iterator over the `track` events.
+     */
+    [Symbol.asyncIterator](): AsyncIterableIterator<TrackEvent<T>> {
+        return this.iterate();
+    }
 }
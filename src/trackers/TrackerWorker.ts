@@ -0,0 +1,160 @@
+import { TrackEvent, TrackerLike } from "./Tracker";
+import { ColorTracker } from "./ColorTracker";
+import { ImageTargetTracker } from "./ImageTargetTracker";
+import { ObjectTracker } from "./ObjectTracker";
+import { LandmarksTracker } from "./LandmarksTracker";
+import { MotionTracker } from "./MotionTracker";
+import {
+    addMessageListener,
+    FrameMessage,
+    InitMessage,
+    MessageEndpoint,
+    TrackerConstructor,
+    TrackerOptions,
+} from "./WorkerProtocol";
+
+/**
+ * TrackerWorker utility class to run the trackers requested by a
+ * `WorkerTracker` inside a worker. The worker script only has to load the
+ * library, register any custom classifier or model, and listen. The build is
+ * made of CommonJS modules, so a browser worker script is bundled with them,
+ * e.g. by webpack:
+ *
+ * ```
+ * const { TrackerWorker } = require("tracking/dist/index.js");
+ * TrackerWorker.listen(self);
+ * ```
+ *
+ * In Node.js the endpoint is the `parentPort` of `worker_threads`:
+ *
+ * ```
+ * const { parentPort } = require("worker_threads");
+ * const { TrackerWorker } = require("tracking/dist/node.js");
+ * TrackerWorker.listen(parentPort);
+ * ```
+ */
+export class TrackerWorker {
+    /**
+     * Holds the tracker constructors that can be requested by name.
+     */
+    private static trackers_: Record<string, TrackerConstructor> = {
+        ColorTracker: ColorTracker,
+        ImageTargetTracker: ImageTargetTracker,
+        LandmarksTracker: LandmarksTracker,
+        MotionTracker: MotionTracker,
+        ObjectTracker: ObjectTracker,
+    };
+
+    /**
+     * Registers a tracker constructor so it can be requested by name.
+     * @param name The tracker name.
+     * @param tracker The tracker constructor.
+     */
+    public static registerTracker(name: string, tracker: TrackerConstructor): void {
+        this.trackers_[name] = tracker;
+    }
+
+    /**
+     * Listens for tracking requests on a worker endpoint.
+     * @param endpoint The worker side message endpoint.
+     * @return A function that stops listening.
+     */
+    public static listen(endpoint: MessageEndpoint): () => void {
+        let tracker: TrackerLike<unknown> | undefined;
+
+        return addMessageListener(endpoint, (message) => {
+            if (message.type === "init") {
+                try {
+                    tracker = this.createTracker_(message);
+                } catch (e) {
+                    tracker = undefined;
+                    endpoint.postMessage({ type: "error", message: (e as Error).message });
+                }
+            } else if (message.type === "frame") {
+                this.trackFrame_(endpoint, tracker, message);
+            }
+        });
+    }
+
+    /**
+     * Creates the tracker requested by an init message.
+     * @param message The init message.
+     * @return The tracker instance.
+     */
+    private static createTracker_(message: InitMessage): TrackerLike<unknown> {
+        const constructor = this.trackers_[message.tracker];
+        if (!constructor) {
+            throw new Error(
+                'Tracker "' + message.tracker + '" not registered, try `TrackerWorker.registerTracker` in the worker.'
+            );
+        }
+
+        // The arguments are received untyped, the constructor validates them.
+        const tracker = new constructor(...((message.args || []) as never[]));
+        this.applyOptions_(tracker, message.options || {});
+
+        return tracker;
+    }
+
+    /**
+     * Applies the options to a tracker through its setters, or sets the
+     * matching fields when it has no setter.
+     * @param tracker The tracker instance.
+     * @param options The tracker options.
+     */
+    private static applyOptions_<K extends TrackerLike<unknown>>(tracker: K, options: TrackerOptions): void {
+        Object.keys(options).forEach((key) => {
+            const setter = tracker[("set" + key.charAt(0).toUpperCase() + key.slice(1)) as keyof K];
+            if (typeof setter === "function") {
+                setter.call(tracker, options[key]);
+            } else {
+                tracker[key as keyof K] = options[key] as K[keyof K];
+            }
+        });
+    }
+
+    /**
+     * Tracks a frame and posts its `track` event back, or an empty message
+     * when the tracker emitted none, transferring the frame buffer so the main
+     * thread can reuse it.
+     * @param endpoint The worker side message endpoint.
+     * @param tracker The tracker instance.
+     * @param message The frame message.
+     */
+    private static trackFrame_(
+        endpoint: MessageEndpoint,
+        tracker: TrackerLike<unknown> | undefined,
+        message: FrameMessage
+    ): void {
+        let event: TrackEvent<unknown> | undefined;
+        const onTrack = (trackEvent: TrackEvent<unknown>) => {
+            event = trackEvent;
+        };
+
+        try {
+            if (!tracker) {
+                throw new Error("Tracker not initialized, the worker did not receive a valid init message.");
+            }
+            tracker.on("track", onTrack);
+            try {
+                tracker.track(new Uint8ClampedArray(message.buffer), message.width, message.height);
+            } finally {
+                tracker.removeListener("track", onTrack);
+            }
+        } catch (e) {
+            endpoint.postMessage(
+                { type: "error", id: message.id, buffer: message.buffer, message: (e as Error).message },
+                [message.buffer]
+            );
+            return;
+        }
+
+        if (event) {
+            endpoint.postMessage({ type: "track", id: message.id, buffer: message.buffer, event: event }, [
+                message.buffer,
+            ]);
+        } else {
+            endpoint.postMessage({ type: "empty", id: message.id, buffer: message.buffer }, [message.buffer]);
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import { TrackEvent, TrackerLike } from "./Tracker";
+
+/**
+ * Interface for the message passing side of a worker, satisfied by a browser
+ * `Worker`, the worker global scope (`self`) and the Node.js `worker_threads`
+ * `Worker`, `parentPort` and `MessagePort`.
+ */
+export interface MessageEndpoint {
+    postMessage(message: WorkerMessage, transfer?: ArrayBuffer[]): void;
+    addEventListener?(type: "message", listener: (event: { data: WorkerMessage }) => void): void;
+    removeEventListener?(type: "message", listener: (event: { data: WorkerMessage }) => void): void;
+    on?(type: "message", listener: (message: WorkerMessage) => void): unknown;
+    off?(type: "message", listener: (message: WorkerMessage) => void): unknown;
+}
+
+/**
+ * Constructor of a tracker that can be requested by name, called with the
+ * `args` of the `InitMessage`.
+ */
+export type TrackerConstructor = new (...args: never[]) => TrackerLike<unknown>;
+
+/**
+ * Options of a tracker, applied through its setters, e.g. `{stepSize: 2}`
+ * calls `setStepSize(2)`.
+ */
+export type TrackerOptions = Record<string, unknown>;
+
+/**
+ * Message sent to the worker to create the tracker. `options` are applied
+ * through the tracker setters, e.g. `{stepSize: 2}` calls `setStepSize(2)`.
+ */
+export interface InitMessage {
+    type: "init";
+    tracker: string;
+    args: unknown[];
+    options: TrackerOptions;
+}
+
+/**
+ * Message sent to the worker with a frame to track. The frame `buffer` is
+ * transferred and sent back with the matching `TrackedMessage`.
+ */
+export interface FrameMessage {
+    type: "frame";
+    id: number;
+    buffer: ArrayBuffer;
+    width: number;
+    height: number;
+}
+
+/**
+ * Message sent by the worker with the `track` event emitted for a frame.
+ */
+export interface TrackedMessage {
+    type: "track";
+    id: number;
+    buffer: ArrayBuffer;
+    event: TrackEvent<unknown>;
+}
+
+/**
+ * Message sent by the worker when the tracker emitted no `track` event for a
+ * frame, returning its `buffer`.
+ */
+export interface EmptyMessage {
+    type: "empty";
+    id: number;
+    buffer: ArrayBuffer;
+}
+
+/**
+ * Message sent by the worker when the tracker could not be created or failed
+ * to track a frame, in which case `id` is the frame id.
+ */
+export interface ErrorMessage {
+    type: "error";
+    id?: number;
+    buffer?: ArrayBuffer;
+    message: string;
+}
+
+/**
+ * Messages sent to the worker, discriminated by their `type`.
+ */
+export type WorkerRequest = InitMessage | FrameMessage;
+
+/**
+ * Messages sent by the worker, discriminated by their `type`.
+ */
+export type WorkerResponse = TrackedMessage | EmptyMessage | ErrorMessage;
+
+/**
+ * Messages exchanged with the worker, discriminated by their `type`.
+ */
+export type WorkerMessage = WorkerRequest | WorkerResponse;
+
+/**
+ * Adds a message listener to an endpoint, unwrapping the `MessageEvent` of
+ * the browser API.
+ * @param endpoint The message endpoint.
+ * @param listener The listener called with each message data.
+ * @return A function that removes the listener.
+ */
+export function addMessageListener(endpoint: MessageEndpoint, listener: (message: WorkerMessage) => void): () => void {
+    if (endpoint.on) {
+        endpoint.on("message", listener);
+        return () => {
+            if (endpoint.off) {
+                endpoint.off("message", listener);
+            }
+        };
+    }
+
+    if (endpoint.addEventListener) {
+        const unwrap = (event: { data: WorkerMessage }) => listener(event.data);
+        endpoint.addEventListener("message", unwrap);
+        return () => {
+            if (endpoint.removeEventListener) {
+                endpoint.removeEventListener("message", unwrap);
+            }
+        };
+    }
+
+    throw new Error("Message endpoint does not support listeners, try a Worker or a MessagePort.");
+}
@@ -0,0 +1,194 @@
+import { TrackEvent, Tracker } from "./Tracker";
+import { Rect } from "../detection/Rect";
+import { addMessageListener, MessageEndpoint, TrackerOptions, WorkerMessage } from "./WorkerProtocol";
+
+/**
+ * WorkerTracker proxies a tracker that runs inside a worker, listening through
+ * `TrackerWorker.listen`, and re-emits its `track` events on the main thread.
+ * Frames are copied into buffers that are transferred to the worker and back,
+ * so the pixels passed to `track` stay usable. While `maxPendingFrames` frames
+ * are being tracked new frames are dropped, which keeps a video from queueing
+ * up behind a slow tracker. `T` is the result type of the proxied tracker,
+ * e.g. `WorkerTracker<LandmarksResult>` for the "LandmarksTracker".
+ */
+export class WorkerTracker<T = Rect[]> extends Tracker<T> {
+    /**
+     * Specifies the maximum number of frames sent to the worker and not yet
+     * tracked. Frames received above that number are dropped.
+     * @default 1
+     */
+    public maxPendingFrames: number = 1;
+
+    /**
+     * Holds the number of frames dropped because the worker was busy.
+     */
+    private droppedFrames_: number = 0;
+
+    /**
+     * Holds the frame buffers returned by the worker, ready to be reused.
+     */
+    private buffers_: ArrayBuffer[] = [];
+
+    /**
+     * Holds the id of the next frame sent to the worker.
+     */
+    private nextId_: number = 0;
+
+    /**
+     * Holds the number of frames sent to the worker and not yet tracked.
+     */
+    private pending_: number = 0;
+
+    /**
+     * Holds the function that stops listening to the worker.
+     */
+    private unlisten_: () => void;
+
+    /**
+     * Holds the worker endpoint.
+     */
+    private worker_: MessageEndpoint;
+
+    /**
+     * Creates a new WorkerTracker instance.
+     * @param worker The worker, or any message endpoint, running
+     *     `TrackerWorker.listen`.
+     * @param tracker The name of the tracker to run, e.g. "ObjectTracker",
+     *     "ColorTracker" or "LandmarksTracker".
+     * @param optArgs Optional arguments of the tracker constructor, e.g.
+     *     `["face"]`.
+     * @param optOptions Optional tracker options applied through its setters,
+     *     e.g. `{stepSize: 2}`.
+     */
+    constructor(worker: MessageEndpoint, tracker: string, optArgs?: unknown[], optOptions?: TrackerOptions) {
+        super();
+
+        if (!worker) {
+            throw new Error("Worker instance not specified.");
+        }
+
+        this.worker_ = worker;
+        this.unlisten_ = addMessageListener(worker, (message) => this.handleMessage_(message));
+        this.worker_.postMessage({
+            type: "init",
+            tracker: tracker,
+            args: optArgs || [],
+            options: optOptions || {},
+        });
+    }
+
+    /**
+     * Gets the number of frames dropped because the worker was busy.
+     * @return The dropped frames count
+     */
+    public getDroppedFrames(): number {
+        return this.droppedFrames_;
+    }
+
+    /**
+     * Gets the maximum number of frames sent to the worker and not yet tracked.
+     * @return The maximum pending frames
+     */
+    public getMaxPendingFrames(): number {
+        return this.maxPendingFrames;
+    }
+
+    /**
+     * Gets the number of frames sent to the worker and not yet tracked.
+     * @return The pending frames count
+     */
+    public getPendingFrames(): number {
+        return this.pending_;
+    }
+
+    /**
+     * Sets the maximum number of frames sent to the worker and not yet tracked.
+     * @param maxPendingFrames The maximum pending frames
+     */
+    public setMaxPendingFrames(maxPendingFrames: number): void {
+        this.maxPendingFrames = maxPendingFrames;
+    }
+
+    /**
+     * Stops listening to the worker. The worker itself is owned by the caller
+     * and is not terminated.
+     */
+    public destroy(): void {
+        this.unlisten_();
+        this.buffers_ = [];
+        this.pending_ = 0;
+    }
+
+    /**
+     * Sends the pixels to the worker, unless it is busy, in which case the
+     * frame is dropped.
+     * @param pixels The pixels data to track.
+     * @param width The pixels canvas width.
+     * @param height The pixels canvas height.
+     */
+    track(pixels: Uint8ClampedArray, width: number, height: number): void {
+        if (this.pending_ >= this.getMaxPendingFrames()) {
+            this.droppedFrames_++;
+            return;
+        }
+
+        const buffer = this.getBuffer_(pixels.length);
+        new Uint8ClampedArray(buffer).set(pixels);
+
+        this.pending_++;
+        this.worker_.postMessage(
+            {
+                type: "frame",
+                id: this.nextId_++,
+                buffer: buffer,
+                width: width,
+                height: height,
+            },
+            [buffer]
+        );
+    }
+
+    /**
+     * Gets a buffer to copy a frame into, reusing the ones returned by the
+     * worker when they have the right size.
+     * @param byteLength The frame size in bytes.
+     * @return The frame buffer.
+     */
+    private getBuffer_(byteLength: number): ArrayBuffer {
+        while (this.buffers_.length) {
+            const buffer = this.buffers_.pop() as ArrayBuffer;
+            if (buffer.byteLength === byteLength) {
+                return buffer;
+            }
+        }
+        return new ArrayBuffer(byteLength);
+    }
+
+    /**
+     * Handles the messages posted by the worker. Errors are thrown when no
+     * `error` listener is attached, rather than going unnoticed.
+     * @param message The worker message.
+     */
+    private handleMessage_(message: WorkerMessage): void {
+        if (message.type !== "track" && message.type !== "empty" && message.type !== "error") {
+            return;
+        }
+
+        if (message.id !== undefined) {
+            this.pending_ = Math.max(0, this.pending_ - 1);
+        }
+        if (message.buffer) {
+            this.buffers_.push(message.buffer);
+        }
+
+        if (message.type === "track") {
+            // The worker runs the tracker of results `T` requested on creation.
+            this.emit("track", message.event as TrackEvent<T>);
+        } else if (message.type === "error") {
+            const error = new Error(message.message);
+            if (!this.emit("error", error)) {
+                throw error;
+            }
+        }
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Color utility class to convert (r,g,b) colors to the HSV and CIELab color
+ * spaces, which separate the hue from the brightness of a color and are
+ * therefore less sensitive to lighting than the RGB distance.
+ */
+export class Color {
+    /**
+     * Holds the CIE standard illuminant D65 white point, the reference white
+     * of sRGB.
+     */
+    private static readonly WHITE: number[] = [0.95047, 1, 1.08883];
+
+    /**
+     * Holds the linear light of the 256 sRGB component values, computed once.
+     */
+    private static linear_: Float32Array | null = null;
+
+    /**
+     * Computes the CIE76 distance of two CIELab colors, about 2.3 for a just
+     * noticeable difference.
+     * @param lab1 The first [L,a,b] color.
+     * @param lab2 The second [L,a,b] color.
+     * @return The distance
+     */
+    static labDistance(lab1: number[], lab2: number[]): number {
+        const dl = lab1[0] - lab2[0];
+        const da = lab1[1] - lab2[1];
+        const db = lab1[2] - lab2[2];
+        return Math.sqrt(dl * dl + da * da + db * db);
+    }
+
+    /**
+     * Parses a hex color, e.g. "#ff00ff", "ff00ff" or "#f0f".
+     * @param hex The hex color.
+     * @return The [r,g,b] color, or null if the hex color is not valid.
+     */
+    static parseHex(hex: string): number[] | null {
+        let digits = hex.charAt(0) === "#" ? hex.substring(1) : hex;
+        if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(digits)) {
+            return null;
+        }
+        if (digits.length === 3) {
+            digits = digits.replace(/./g, "$&$&");
+        }
+        const value = parseInt(digits, 16);
+        return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+    }
+
+    /**
+     * Converts an sRGB color to HSV.
+     * @param r The red component, from 0 to 255.
+     * @param g The green component, from 0 to 255.
+     * @param b The blue component, from 0 to 255.
+     * @return The [h,s,v] color, the hue in degrees from 0 to 360, the
+     *     saturation and value from 0 to 1.
+     */
+    static rgbToHsv(r: number, g: number, b: number): number[] {
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const delta = max - min;
+        let h = 0;
+
+        if (delta > 0) {
+            if (max === r) {
+                h = (g - b) / delta;
+            } else if (max === g) {
+                h = (b - r) / delta + 2;
+            } else {
+                h = (r - g) / delta + 4;
+            }
+            h *= 60;
+            if (h < 0) {
+                h += 360;
+            }
+        }
+
+        return [h, max ? delta / max : 0, max / 255];
+    }
+
+    /**
+     * Converts an sRGB color to CIELab, under the D65 illuminant.
+     * @param r The red component, from 0 to 255.
+     * @param g The green component, from 0 to 255.
+     * @param b The blue component, from 0 to 255.
+     * @return The [L,a,b] color, the lightness from 0 to 100.
+     */
+    static rgbToLab(r: number, g: number, b: number): number[] {
+        const linear = this.linear_ || (this.linear_ = this.linearize_());
+        const lr = linear[Math.round(r)];
+        const lg = linear[Math.round(g)];
+        const lb = linear[Math.round(b)];
+
+        const x = this.labCompand_((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / this.WHITE[0]);
+        const y = this.labCompand_((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / this.WHITE[1]);
+        const z = this.labCompand_((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / this.WHITE[2]);
+
+        return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+    }
+
+    /**
+     * Applies the CIELab companding function to a normalized XYZ component.
+     * @param t The component.
+     * @return The companded component.
+     */
+    private static labCompand_(t: number): number {
+        return t > 216 / 24389 ? Math.pow(t, 1 / 3) : ((24389 / 27) * t + 16) / 116;
+    }
+
+    /**
+     * Converts the gamma encoded sRGB component values to linear light.
+     * @return The linear light, from 0 to 1, of the values from 0 to 255.
+     */
+    private static linearize_(): Float32Array {
+        const linear = new Float32Array(256);
+        for (let i = 0; i < 256; i++) {
+            const c = i / 255;
+            linear[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        }
+        return linear;
+    }
+}
@@ -39,11 +39,26 @@ export class DisjointSet {
      * @returns The representative set of i
      */
     public find(i: number): number {
-        if (this.parent[i] === i) {
-            return i;
-        } else {
-            return (this.parent[i] = this.find(this.parent[i]));
+        let root = i;
+        while (this.parent[root] !== root) {
+            root = this.parent[root];
         }
+        // Path compression, iterative so long chains do not overflow the stack.
+        while (this.parent[i] !== root) {
+            const next = this.parent[i];
+            this.parent[i] = root;
+            i = next;
+        }
+        return root;
+    }
+
+    /**
+     * Makes a new set containing only i, e.g. to reuse the disjoint set
+     * instead of allocating a new one. No other element should point to i.
+     * @param i The element
+     */
+    public makeSet(i: number): void {
+        this.parent[i] = i;
     }
 
     /**
@@ -40,6 +40,48 @@ export class Image {
         return this.separableConvolve(pixels, width, height, weights, weights, false);
     }
 
+    /**
+     * Blurs a grayscale image with a 5x5 binomial filter, which removes the
+     * details that would alias, and subsamples it by a scale factor, e.g. to
+     * build the next level of an image pyramid. The pixel (x, y) of the
+     * output samples the position (x * scale, y * scale) of the image.
+     * @param gray The grayscale pixels in a linear [p,p,p,255,...] array.
+     * @param width The image width.
+     * @param height The image height.
+     * @param scale The scale factor, 1 to only blur the image.
+     * @return The subsampled pixels in a linear [p,p,p,255,...] array, of
+     *     floor(width / scale) by floor(height / scale) pixels.
+     */
+    static downsample(gray: Uint8Array, width: number, height: number, scale: number): Uint8Array {
+        const weights = new Float32Array([1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16]);
+        const blurred = this.separableConvolve(gray, width, height, weights, weights, true);
+        const newWidth = Math.floor(width / scale);
+        const newHeight = Math.floor(height / scale);
+        const output = new Uint8Array(newWidth * newHeight * 4);
+
+        for (let i = 0; i < newHeight; i++) {
+            const y = i * scale;
+            const y0 = Math.floor(y);
+            const y1 = Math.min(height - 1, y0 + 1);
+            const ay = y - y0;
+            for (let j = 0; j < newWidth; j++) {
+                const x = j * scale;
+                const x0 = Math.floor(x);
+                const x1 = Math.min(width - 1, x0 + 1);
+                const ax = x - x0;
+                const value = Math.round(
+                    (1 - ay) * ((1 - ax) * blurred[(y0 * width + x0) * 4] + ax * blurred[(y0 * width + x1) * 4]) +
+                        ay * ((1 - ax) * blurred[(y1 * width + x0) * 4] + ax * blurred[(y1 * width + x1) * 4])
+                );
+                const w = (i * newWidth + j) * 4;
+                output[w] = output[w + 1] = output[w + 2] = value;
+                output[w + 3] = 255;
+            }
+        }
+
+        return output;
+    }
+
     /**
      * Computes the integral image for summed, squared, rotated and sobel pixels.
      * @param pixels The pixels in a linear [r,g,b,a,...] array to loop through.
@@ -360,4 +402,88 @@ export class Image {
 
         return equalized;
     }
+
+    /**
+     * Dilates a binary mask with a square structuring element: a pixel is set
+     * when any pixel within `radius` of it is set.
+     * @param mask The mask in a linear array, non zero for the set pixels.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @param radius The radius of the structuring element.
+     * @return The dilated mask in a linear array, 1 for the set pixels.
+     */
+    static dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+        return this.morphology_(mask, width, height, radius, true);
+    }
+
+    /**
+     * Erodes a binary mask with a square structuring element: a pixel stays
+     * set when all the pixels within `radius` of it, inside the image, are
+     * set.
+     * @param mask The mask in a linear array, non zero for the set pixels.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @param radius The radius of the structuring element.
+     * @return The eroded mask in a linear array, 1 for the set pixels.
+     */
+    static erode(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+        return this.morphology_(mask, width, height, radius, false);
+    }
+
+    /**
+     * Applies a square structuring element as a horizontal and a vertical
+     * pass, counting the set pixels of a sliding window.
+     * @param mask The mask in a linear array, non zero for the set pixels.
+     * @param width The mask width.
+     * @param height The mask height.
+     * @param radius The radius of the structuring element.
+     * @param dilate True to dilate, false to erode.
+     * @return The mask in a linear array, 1 for the set pixels.
+     */
+    private static morphology_(
+        mask: Uint8Array,
+        width: number,
+        height: number,
+        radius: number,
+        dilate: boolean
+    ): Uint8Array {
+        const horizontal = new Uint8Array(width * height);
+        const output = new Uint8Array(width * height);
+        const test = (count: number, first: number, last: number) => (dilate ? count > 0 : count === last - first + 1);
+
+        for (let y = 0; y < height; y++) {
+            const row = y * width;
+            let count = 0;
+            for (let x = 0; x < Math.min(radius, width); x++) {
+                count += mask[row + x] ? 1 : 0;
+            }
+            for (let x = 0; x < width; x++) {
+                if (x + radius < width && mask[row + x + radius]) {
+                    count++;
+                }
+                if (x - radius - 1 >= 0 && mask[row + x - radius - 1]) {
+                    count--;
+                }
+                horizontal[row + x] = test(count, Math.max(0, x - radius), Math.min(width - 1, x + radius)) ? 1 : 0;
+            }
+        }
+
+        for (let x = 0; x < width; x++) {
+            let count = 0;
+            for (let y = 0; y < Math.min(radius, height); y++) {
+                count += horizontal[y * width + x];
+            }
+            for (let y = 0; y < height; y++) {
+                if (y + radius < height) {
+                    count += horizontal[(y + radius) * width + x];
+                }
+                if (y - radius - 1 >= 0) {
+                    count -= horizontal[(y - radius - 1) * width + x];
+                }
+                output[y * width + x] = test(count, Math.max(0, y - radius), Math.min(height - 1, y + radius)) ? 1 : 0;
+            }
+        }
+
+        return output;
+    }
 }
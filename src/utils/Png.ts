@@ -0,0 +1,344 @@
+import { inflateSync } from "zlib";
+
+/**
+ * Png utility class to decode PNG images into RGBA pixels in Node.js. All the
+ * color types, bit depths and the Adam7 interlace are supported. Ancillary
+ * chunks other than the `tRNS` transparency are ignored, so no gamma or color
+ * profile correction is applied.
+ */
+export class Png {
+    /**
+     * Holds the PNG file signature.
+     */
+    public static readonly SIGNATURE: number[] = [137, 80, 78, 71, 13, 10, 26, 10];
+
+    /**
+     * Holds the starting column, starting row, column step and row step of
+     * each Adam7 pass.
+     */
+    private static readonly ADAM7: number[][] = [
+        [0, 0, 8, 8],
+        [4, 0, 8, 8],
+        [0, 4, 4, 8],
+        [2, 0, 4, 4],
+        [0, 2, 2, 4],
+        [1, 0, 2, 2],
+        [0, 1, 1, 2],
+    ];
+
+    /**
+     * Holds the number of samples per pixel of each color type.
+     */
+    private static readonly CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+    /**
+     * Tests whether the data starts with the PNG signature.
+     * @param data The file data.
+     * @return True if the data is a PNG image.
+     */
+    public static test(data: Uint8Array): boolean {
+        if (data.length < this.SIGNATURE.length) {
+            return false;
+        }
+        for (let i = 0; i < this.SIGNATURE.length; i++) {
+            if (data[i] !== this.SIGNATURE[i]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Decodes a PNG image.
+     * @param data The file data.
+     * @return The decoded image, with 8 bits RGBA pixels.
+     */
+    public static decode(data: Uint8Array): DecodedImage {
+        if (!this.test(data)) {
+            throw new Error("Invalid PNG: signature does not match.");
+        }
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const chunks: Uint8Array[] = [];
+        let header: PngHeader | undefined;
+        let palette: Uint8Array | undefined;
+        let transparency: Uint8Array | undefined;
+        let offset = this.SIGNATURE.length;
+
+        while (offset + 8 <= data.length) {
+            const length = view.getUint32(offset);
+            const type = String.fromCharCode(data[offset + 4], data[offset + 5], data[offset + 6], data[offset + 7]);
+            const start = offset + 8;
+            if (start + length + 4 > data.length) {
+                throw new Error("Invalid PNG: the " + type + " chunk is truncated.");
+            }
+            const chunk = data.subarray(start, start + length);
+            offset = start + length + 4;
+
+            if (type === "IHDR") {
+                header = this.readHeader_(view, start);
+            } else if (type === "PLTE") {
+                palette = chunk;
+            } else if (type === "tRNS") {
+                transparency = chunk;
+            } else if (type === "IDAT") {
+                chunks.push(chunk);
+            } else if (type === "IEND") {
+                break;
+            }
+        }
+
+        if (!header) {
+            throw new Error("Invalid PNG: missing IHDR chunk.");
+        }
+        if (!chunks.length) {
+            throw new Error("Invalid PNG: missing IDAT chunk.");
+        }
+        if (header.colorType === 3 && !palette) {
+            throw new Error("Invalid PNG: missing PLTE chunk for a palette image.");
+        }
+
+        const compressed = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+        chunks.reduce((position, chunk) => {
+            compressed.set(chunk, position);
+            return position + chunk.length;
+        }, 0);
+
+        const scanlines = new Uint8Array(inflateSync(compressed));
+        const pixels = new Uint8ClampedArray(header.width * header.height * 4);
+
+        if (header.interlace) {
+            let position = 0;
+            for (let p = 0; p < this.ADAM7.length; p++) {
+                const pass = this.ADAM7[p];
+                const passWidth = Math.ceil((header.width - pass[0]) / pass[2]);
+                const passHeight = Math.ceil((header.height - pass[1]) / pass[3]);
+                if (passWidth <= 0 || passHeight <= 0) {
+                    continue;
+                }
+                position = this.readPass_(scanlines, position, header, passWidth, passHeight, pass, pixels);
+            }
+        } else {
+            this.readPass_(scanlines, 0, header, header.width, header.height, [0, 0, 1, 1], pixels);
+        }
+
+        this.applyColors_(pixels, header, palette, transparency);
+
+        return {
+            data: pixels,
+            width: header.width,
+            height: header.height,
+        };
+    }
+
+    /**
+     * Reads the image header.
+     * @param view The file data view.
+     * @param offset The IHDR chunk data offset.
+     * @return The image header.
+     */
+    private static readHeader_(view: DataView, offset: number): PngHeader {
+        const header: PngHeader = {
+            width: view.getUint32(offset),
+            height: view.getUint32(offset + 4),
+            bitDepth: view.getUint8(offset + 8),
+            colorType: view.getUint8(offset + 9),
+            interlace: view.getUint8(offset + 12),
+        };
+
+        if (!this.CHANNELS[header.colorType]) {
+            throw new Error("Invalid PNG: unknown color type " + header.colorType + ".");
+        }
+        if ([1, 2, 4, 8, 16].indexOf(header.bitDepth) === -1) {
+            throw new Error("Invalid PNG: unknown bit depth " + header.bitDepth + ".");
+        }
+        if (!header.width || !header.height) {
+            throw new Error("Invalid PNG: empty image.");
+        }
+
+        return header;
+    }
+
+    /**
+     * Unfilters the scanlines of a pass and stores its samples into the RGBA
+     * pixels. Until `applyColors_` runs, each pixel holds its raw samples
+     * scaled to 8 bits, or its palette index.
+     * @param scanlines The inflated image data.
+     * @param position The offset of the pass in the image data.
+     * @param header The image header.
+     * @param width The pass width.
+     * @param height The pass height.
+     * @param pass The pass starting column, starting row, column and row step.
+     * @param pixels The RGBA pixels.
+     * @return The offset right after the pass.
+     */
+    private static readPass_(
+        scanlines: Uint8Array,
+        position: number,
+        header: PngHeader,
+        width: number,
+        height: number,
+        pass: number[],
+        pixels: Uint8ClampedArray
+    ): number {
+        const channels = this.CHANNELS[header.colorType];
+        const bitsPerPixel = channels * header.bitDepth;
+        const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+        const stride = Math.ceil((width * bitsPerPixel) / 8);
+        const maxSample = (1 << header.bitDepth) - 1;
+        let previous = new Uint8Array(stride);
+        let line = new Uint8Array(stride);
+
+        if (position + (stride + 1) * height > scanlines.length) {
+            throw new Error("Invalid PNG: the image data is truncated.");
+        }
+
+        for (let i = 0; i < height; i++) {
+            const filter = scanlines[position++];
+            for (let k = 0; k < stride; k++) {
+                const raw = scanlines[position++];
+                const a = k >= bytesPerPixel ? line[k - bytesPerPixel] : 0;
+                const b = previous[k];
+                const c = k >= bytesPerPixel ? previous[k - bytesPerPixel] : 0;
+                let value: number;
+
+                switch (filter) {
+                    case 0:
+                        value = raw;
+                        break;
+                    case 1:
+                        value = raw + a;
+                        break;
+                    case 2:
+                        value = raw + b;
+                        break;
+                    case 3:
+                        value = raw + ((a + b) >> 1);
+                        break;
+                    case 4:
+                        value = raw + this.paeth_(a, b, c);
+                        break;
+                    default:
+                        throw new Error("Invalid PNG: unknown filter type " + filter + ".");
+                }
+                line[k] = value & 0xff;
+            }
+
+            const y = pass[1] + i * pass[3];
+            for (let j = 0; j < width; j++) {
+                const w = (y * header.width + pass[0] + j * pass[2]) * 4;
+                for (let s = 0; s < channels; s++) {
+                    let sample: number;
+                    if (header.bitDepth === 16) {
+                        sample = line[(j * channels + s) * 2];
+                    } else if (header.bitDepth === 8) {
+                        sample = line[j * channels + s];
+                    } else {
+                        const bit = (j * channels + s) * header.bitDepth;
+                        sample = (line[bit >> 3] >> (8 - header.bitDepth - (bit & 7))) & maxSample;
+                        if (header.colorType !== 3) {
+                            sample = Math.round((sample * 255) / maxSample);
+                        }
+                    }
+                    pixels[w + s] = sample;
+                }
+            }
+
+            const swap = previous;
+            previous = line;
+            line = swap;
+        }
+
+        return position;
+    }
+
+    /**
+     * Expands the raw samples stored by `readPass_` into RGBA colors.
+     * @param pixels The RGBA pixels.
+     * @param header The image header.
+     * @param palette The PLTE chunk data.
+     * @param transparency The tRNS chunk data.
+     */
+    private static applyColors_(
+        pixels: Uint8ClampedArray,
+        header: PngHeader,
+        palette?: Uint8Array,
+        transparency?: Uint8Array
+    ): void {
+        // The transparent color of gray and RGB images is stored as 16 bits
+        // samples, compared here once scaled to 8 bits like the pixels.
+        const key: number[] = [];
+        if (transparency && (header.colorType === 0 || header.colorType === 2)) {
+            const scale = header.bitDepth === 16 ? 1 / 257 : 255 / ((1 << header.bitDepth) - 1);
+            for (let k = 0; k + 1 < transparency.length; k += 2) {
+                key.push(Math.round(((transparency[k] << 8) | transparency[k + 1]) * scale));
+            }
+        }
+
+        for (let w = 0; w < pixels.length; w += 4) {
+            switch (header.colorType) {
+                case 0:
+                    pixels[w + 3] = key.length && pixels[w] === key[0] ? 0 : 255;
+                    pixels[w + 1] = pixels[w + 2] = pixels[w];
+                    break;
+                case 2:
+                    pixels[w + 3] =
+                        key.length === 3 && pixels[w] === key[0] && pixels[w + 1] === key[1] && pixels[w + 2] === key[2]
+                            ? 0
+                            : 255;
+                    break;
+                case 3: {
+                    const index = pixels[w];
+                    const p = (palette as Uint8Array).subarray(index * 3, index * 3 + 3);
+                    pixels[w] = p[0];
+                    pixels[w + 1] = p[1];
+                    pixels[w + 2] = p[2];
+                    pixels[w + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                    break;
+                }
+                case 4:
+                    pixels[w + 3] = pixels[w + 1];
+                    pixels[w + 1] = pixels[w + 2] = pixels[w];
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Computes the Paeth predictor.
+     * @param a The left byte.
+     * @param b The upper byte.
+     * @param c The upper left byte.
+     * @return The predicted byte.
+     */
+    private static paeth_(a: number, b: number, c: number): number {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        if (pa <= pb && pa <= pc) {
+            return a;
+        }
+        return pb <= pc ? b : c;
+    }
+}
+
+/**
+ * Interface for the PNG image header
+ */
+interface PngHeader {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlace: number;
+}
+
+/**
+ * Interface for a decoded image, with 8 bits RGBA pixels
+ */
+export interface DecodedImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
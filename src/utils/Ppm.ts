@@ -0,0 +1,114 @@
+import { DecodedImage } from "./Png";
+
+/**
+ * Ppm utility class to decode Netpbm images into RGBA pixels. The binary and
+ * plain variants of PPM (P6, P3) and PGM (P5, P2) are supported, with samples
+ * of up to 16 bits scaled to 8 bits.
+ */
+export class Ppm {
+    /**
+     * Tests whether the data starts with a supported Netpbm magic number.
+     * @param data The file data.
+     * @return True if the data is a PPM or PGM image.
+     */
+    public static test(data: Uint8Array): boolean {
+        return data.length > 2 && data[0] === 0x50 && [0x32, 0x33, 0x35, 0x36].indexOf(data[1]) !== -1;
+    }
+
+    /**
+     * Decodes a PPM or PGM image.
+     * @param data The file data.
+     * @return The decoded image, with 8 bits RGBA pixels.
+     */
+    public static decode(data: Uint8Array): DecodedImage {
+        if (!this.test(data)) {
+            throw new Error("Invalid PPM: magic number does not match, expected P2, P3, P5 or P6.");
+        }
+
+        const format = data[1] - 0x30;
+        const channels = format === 3 || format === 6 ? 3 : 1;
+        const plain = format === 2 || format === 3;
+        const cursor = { position: 2 };
+        const width = this.readNumber_(data, cursor);
+        const height = this.readNumber_(data, cursor);
+        const maxValue = this.readNumber_(data, cursor);
+
+        if (!width || !height) {
+            throw new Error("Invalid PPM: empty image.");
+        }
+        if (!maxValue || maxValue > 0xffff) {
+            throw new Error("Invalid PPM: maximum value " + maxValue + " out of range.");
+        }
+
+        // A single whitespace separates the header from the binary samples.
+        cursor.position++;
+
+        const bytesPerSample = maxValue > 0xff ? 2 : 1;
+        const pixels = new Uint8ClampedArray(width * height * 4);
+        const scale = 255 / maxValue;
+
+        if (!plain && cursor.position + width * height * channels * bytesPerSample > data.length) {
+            throw new Error("Invalid PPM: the image data is truncated.");
+        }
+
+        for (let i = 0, w = 0; i < width * height; i++, w += 4) {
+            for (let s = 0; s < channels; s++) {
+                let sample: number;
+                if (plain) {
+                    sample = this.readNumber_(data, cursor);
+                } else if (bytesPerSample === 2) {
+                    sample = (data[cursor.position] << 8) | data[cursor.position + 1];
+                    cursor.position += 2;
+                } else {
+                    sample = data[cursor.position++];
+                }
+                pixels[w + s] = Math.round(sample * scale);
+            }
+            if (channels === 1) {
+                pixels[w + 1] = pixels[w + 2] = pixels[w];
+            }
+            pixels[w + 3] = 255;
+        }
+
+        return {
+            data: pixels,
+            width: width,
+            height: height,
+        };
+    }
+
+    /**
+     * Reads an ASCII decimal number, skipping whitespace and comments.
+     * @param data The file data.
+     * @param cursor The read position, updated past the number.
+     * @return The number.
+     */
+    private static readNumber_(data: Uint8Array, cursor: { position: number }): number {
+        let position = cursor.position;
+
+        while (position < data.length) {
+            const c = data[position];
+            if (c === 0x23) {
+                while (position < data.length && data[position] !== 0x0a && data[position] !== 0x0d) {
+                    position++;
+                }
+            } else if (c === 0x20 || (c >= 0x09 && c <= 0x0d)) {
+                position++;
+            } else {
+                break;
+            }
+        }
+
+        const start = position;
+        let value = 0;
+        while (position < data.length && data[position] >= 0x30 && data[position] <= 0x39) {
+            value = value * 10 + data[position++] - 0x30;
+        }
+        if (position === start) {
+            throw new Error("Invalid PPM: expected a number at position " + start + ".");
+        }
+
+        cursor.position = position;
+        return value;
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * Interface for a parsed XML element
+ */
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+/**
+ * Xml utility class with a minimal, dependency free XML parser. It supports
+ * elements, attributes, text, CDATA sections and the predefined entities,
+ * which is enough to read data files such as the OpenCV cascades both in the
+ * browser and in Node.js, where `DOMParser` is not available.
+ */
+export class Xml {
+    /**
+     * Holds the predefined XML entities.
+     */
+    private static readonly ENTITIES: Record<string, string> = {
+        amp: "&",
+        apos: "'",
+        gt: ">",
+        lt: "<",
+        quot: '"',
+    };
+
+    /**
+     * Parses an XML document.
+     * @param text The XML document.
+     * @return The root element of the document.
+     */
+    public static parse(text: string): XmlElement {
+        const document: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+        const stack: XmlElement[] = [document];
+        let i = 0;
+
+        while (i < text.length) {
+            const current = stack[stack.length - 1];
+            const lt = text.indexOf("<", i);
+
+            if (lt === -1) {
+                current.text += this.decode_(text.slice(i));
+                break;
+            }
+            if (lt > i) {
+                current.text += this.decode_(text.slice(i, lt));
+            }
+
+            if (text.startsWith("<!--", lt)) {
+                i = this.skipTo_(text, "-->", lt);
+                continue;
+            }
+            if (text.startsWith("<![CDATA[", lt)) {
+                const end = this.skipTo_(text, "]]>", lt);
+                current.text += text.slice(lt + 9, end - 3);
+                i = end;
+                continue;
+            }
+            if (text.startsWith("<?", lt)) {
+                i = this.skipTo_(text, "?>", lt);
+                continue;
+            }
+            if (text.startsWith("<!", lt)) {
+                i = this.skipTo_(text, ">", lt);
+                continue;
+            }
+
+            i = this.skipTo_(text, ">", lt);
+            let tag = text.slice(lt + 1, i - 1).trim();
+
+            if (tag.charAt(0) === "/") {
+                const name = tag.slice(1).trim();
+                if (stack.length < 2 || current.name !== name) {
+                    throw new Error("Invalid XML: unexpected closing tag </" + name + ">.");
+                }
+                stack.pop();
+                continue;
+            }
+
+            const selfClosing = tag.charAt(tag.length - 1) === "/";
+            if (selfClosing) {
+                tag = tag.slice(0, -1);
+            }
+
+            const nameMatch = /^[^\s]+/.exec(tag);
+            if (!nameMatch) {
+                throw new Error("Invalid XML: empty tag at position " + lt + ".");
+            }
+
+            const element: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: "" };
+            const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+            let attribute: RegExpExecArray | null;
+            while ((attribute = attributePattern.exec(tag.slice(nameMatch[0].length)))) {
+                element.attributes[attribute[1]] = this.decode_(
+                    attribute[3] !== undefined ? attribute[3] : attribute[4]
+                );
+            }
+
+            current.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        }
+
+        if (stack.length > 1) {
+            throw new Error("Invalid XML: unclosed tag <" + stack[stack.length - 1].name + ">.");
+        }
+        if (!document.children.length) {
+            throw new Error("Invalid XML: no root element.");
+        }
+
+        return document.children[0];
+    }
+
+    /**
+     * Gets the first child element with the given name.
+     * @param element The parent element.
+     * @param name The child element name.
+     * @return The child element, or undefined when not found.
+     */
+    public static child(element: XmlElement, name: string): XmlElement | undefined {
+        for (let i = 0; i < element.children.length; i++) {
+            if (element.children[i].name === name) {
+                return element.children[i];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Gets all child elements with the given name.
+     * @param element The parent element.
+     * @param name The child element name.
+     * @return The child elements.
+     */
+    public static children(element: XmlElement, name: string): XmlElement[] {
+        return element.children.filter((child) => child.name === name);
+    }
+
+    /**
+     * Replaces the entity and character references of a text.
+     * @param text The raw text.
+     * @return The decoded text.
+     */
+    private static decode_(text: string): string {
+        return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match: string, entity: string) => {
+            if (entity.charAt(0) === "#") {
+                return String.fromCharCode(
+                    entity.charAt(1) === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+                );
+            }
+            return this.ENTITIES[entity] !== undefined ? this.ENTITIES[entity] : match;
+        });
+    }
+
+    /**
+     * Finds the end of a markup construct.
+     * @param text The XML document.
+     * @param terminator The string that closes the construct.
+     * @param start The position where the construct starts.
+     * @return The position right after the terminator.
+     */
+    private static skipTo_(text: string, terminator: string, start: number): number {
+        const end = text.indexOf(terminator, start);
+        if (end === -1) {
+            throw new Error("Invalid XML: expected `" + terminator + "` after position " + start + ".");
+        }
+        return end + terminator.length;
+    }
+}
@@ -0,0 +1,115 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function totalCost(cost, assignment) {
+  var total = 0;
+  assignment.forEach(function(j, i) {
+    if (j !== -1) {
+      total += cost[i][j];
+    }
+  });
+  return total;
+}
+
+function bruteForce(cost) {
+  var cols = cost[0].length;
+  var best = Infinity;
+  function visit(i, used, total) {
+    if (i === cost.length) {
+      best = Math.min(best, total);
+      return;
+    }
+    for (var j = 0; j < cols; j++) {
+      if (!used[j]) {
+        used[j] = true;
+        visit(i + 1, used, total + cost[i][j]);
+        used[j] = false;
+      }
+    }
+  }
+  visit(0, [], 0);
+  return best;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testHungarian: function(test) {
+    var cost = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ];
+
+    test.deepEqual(tracking.Assignment.hungarian(cost), [1, 0, 2], 'should find the optimal assignment');
+
+    test.done();
+  },
+
+  testHungarianRandom: function(test) {
+    var seed = 7;
+    function random() {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    }
+
+    for (var n = 1; n <= 6; n++) {
+      var cost = [];
+      for (var i = 0; i < n; i++) {
+        cost.push([]);
+        for (var j = 0; j < n + 1; j++) {
+          cost[i].push(Math.round(random() * 100));
+        }
+      }
+      var assignment = tracking.Assignment.hungarian(cost);
+      test.equal(totalCost(cost, assignment), bruteForce(cost), 'should match the brute force cost for ' + n + ' rows');
+    }
+
+    test.done();
+  },
+
+  testHungarianRectangular: function(test) {
+    var cost = [
+      [1, 9],
+      [2, 8],
+      [9, 1]
+    ];
+
+    test.deepEqual(tracking.Assignment.hungarian(cost), [0, -1, 1], 'should leave the extra rows unassigned');
+    test.deepEqual(tracking.Assignment.hungarian([]), [], 'should handle empty matrices');
+    test.deepEqual(tracking.Assignment.hungarian([[], []]), [-1, -1], 'should handle matrices without columns');
+
+    test.done();
+  },
+
+  testHungarianForbidden: function(test) {
+    var cost = [
+      [1, Infinity],
+      [Infinity, Infinity]
+    ];
+
+    test.deepEqual(tracking.Assignment.hungarian(cost), [0, -1], 'should not assign forbidden pairs');
+
+    test.done();
+  },
+
+  testGreedy: function(test) {
+    var cost = [
+      [1, 2],
+      [2, 100]
+    ];
+
+    test.deepEqual(tracking.Assignment.greedy(cost), [0, 1], 'should take the lowest cost first');
+    test.deepEqual(tracking.Assignment.hungarian(cost), [1, 0], 'should differ from the optimal assignment');
+    test.deepEqual(tracking.Assignment.greedy([[Infinity]]), [-1], 'should not assign forbidden pairs');
+
+    test.done();
+  }
+};
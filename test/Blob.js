@@ -0,0 +1,119 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+// Describes the blob of a cloud of pixel coordinates, e.g. [x0,y0,x1,y1,...].
+function createBlob(cloud, opt_hull) {
+  var moments = { m00: 0, m10: 0, m01: 0, m20: 0, m11: 0, m02: 0, mu20: 0, mu11: 0, mu02: 0 };
+  var xs = [];
+  var ys = [];
+  var blob;
+
+  for (var c = 0; c < cloud.length; c += 2) {
+    moments.m00++;
+    moments.m10 += cloud[c];
+    moments.m01 += cloud[c + 1];
+    moments.m20 += cloud[c] * cloud[c];
+    moments.m11 += cloud[c] * cloud[c + 1];
+    moments.m02 += cloud[c + 1] * cloud[c + 1];
+    xs.push(cloud[c]);
+    ys.push(cloud[c + 1]);
+  }
+
+  blob = tracking.Blobs.fromMoments(moments, Math.min.apply(Math, xs), Math.min.apply(Math, ys),
+    Math.max.apply(Math, xs), Math.max.apply(Math, ys));
+  if (opt_hull) {
+    blob.hull = tracking.Blobs.convexHull(cloud);
+  }
+
+  return blob;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testFromMoments: function(test) {
+    var cloud = [];
+    var blob;
+    var x;
+    var y;
+
+    for (y = 10; y < 14; y++) {
+      for (x = 20; x < 30; x++) {
+        cloud.push(x, y);
+      }
+    }
+
+    blob = createBlob(cloud);
+
+    test.equal(40, blob.total, 'The blob should count its pixels');
+    test.equal(20, blob.x, 'The blob should start at x = 20');
+    test.equal(10, blob.y, 'The blob should start at y = 10');
+    test.equal(9, blob.width, 'The blob width should be 9');
+    test.equal(3, blob.height, 'The blob height should be 3');
+    test.deepEqual([24.5, 11.5], blob.centroid, 'The centroid should be the center of the pixels');
+    test.equal(40, blob.moments.m00, 'm00 should be the pixel count');
+    test.ok(Math.abs(blob.moments.mu20 - 330) < 1e-6, 'mu20 should be the horizontal spread');
+    test.ok(Math.abs(blob.moments.mu11) < 1e-6, 'mu11 should be 0 for an axis-aligned rectangle');
+    test.ok(Math.abs(blob.angle) < 1e-6, 'A wide rectangle should be horizontal');
+    test.ok(blob.eccentricity > 0.9, 'A wide rectangle should be elongated');
+
+    test.done();
+  },
+
+  testOrientation: function(test) {
+    var cloud = [];
+    var blob;
+    var i;
+
+    for (i = 0; i < 20; i++) {
+      cloud.push(i, i, i + 1, i);
+    }
+
+    blob = createBlob(cloud);
+
+    test.ok(Math.abs(blob.angle - Math.PI / 4) < 0.05, 'A diagonal line should be oriented at 45 degrees');
+    test.ok(blob.eccentricity > 0.99, 'A line should have an eccentricity close to 1');
+
+    blob = createBlob([5, 5]);
+    test.equal(0, blob.angle, 'A single pixel should have no orientation');
+    test.equal(0, blob.eccentricity, 'A single pixel should have no eccentricity');
+
+    test.done();
+  },
+
+  testMerge: function(test) {
+    var blob1 = createBlob([0, 0, 1, 0, 0, 1, 1, 1], true);
+    var blob2 = createBlob([4, 0, 5, 0, 4, 1, 5, 1], true);
+    var both = createBlob([0, 0, 1, 0, 0, 1, 1, 1, 4, 0, 5, 0, 4, 1, 5, 1], true);
+    var merged;
+
+    blob1.color = 'red';
+    merged = tracking.Blobs.merge(blob1, blob2);
+
+    test.equal('red', merged.color, 'The merged blob should keep the first color');
+    test.equal(8, merged.total, 'The merged blob should add the pixel counts');
+    test.deepEqual(both.centroid, merged.centroid, 'The merged centroid should be the centroid of the union');
+    test.deepEqual(both.moments, merged.moments, 'The merged moments should be the moments of the union');
+    test.equal(both.angle, merged.angle, 'The merged orientation should be the orientation of the union');
+    test.deepEqual(both.hull, merged.hull, 'The merged hull should be the hull of the union');
+    test.equal(5, merged.width, 'The merged width should be 5');
+
+    test.done();
+  },
+
+  testConvexHull: function(test) {
+    test.deepEqual([0, 0, 4, 0, 4, 4, 0, 4], tracking.Blobs.convexHull([0, 0, 2, 2, 4, 0, 4, 4, 0, 4, 2, 0, 1, 3]),
+      'Inner and collinear points should be dropped');
+    test.deepEqual([1, 2], tracking.Blobs.convexHull([1, 2, 1, 2]), 'Duplicate points should be dropped');
+    test.deepEqual([], tracking.Blobs.convexHull([]), 'The hull of no points should be empty');
+
+    test.done();
+  }
+};
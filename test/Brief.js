@@ -71,6 +71,64 @@ module.exports = {
     test.equal(1, matchings[0].index2, 'Keypoint 0 from 1st array should match keypoint 1 from the 2nd');
     test.equal(0, matchings[1].index2, 'Keypoint 1 from 1st array should match keypoint 0 from the 2nd');
 
+    test.done();
+  },
+
+  testDefaultPattern: function(test) {
+    tracking.Brief.setSeed(tracking.Brief.SEED);
+    var pattern = tracking.Brief.exportPattern();
+
+    test.equal(4 * tracking.Brief.N, pattern.length, 'Pattern should have 4 offsets per bit');
+    test.ok(
+      pattern.every(function(offset) {
+        return offset >= -15 && offset <= 16;
+      }),
+      'Offsets should lie in the patch'
+    );
+
+    tracking.Brief.setSeed(42);
+    test.notDeepEqual(pattern, tracking.Brief.exportPattern(), 'Another seed should give another pattern');
+    test.equal(42, tracking.Brief.getSeed(), 'Should keep the seed');
+
+    tracking.Brief.setSeed(tracking.Brief.SEED);
+    test.deepEqual(pattern, tracking.Brief.exportPattern(), 'Same seed should give the same pattern');
+
+    test.done();
+  },
+
+  testImportPattern: function(test) {
+    var width = 40;
+    var grayScale = [];
+    for (var i = 0; i < width * width; i++) {
+      grayScale.push((i * 7919) % 256);
+    }
+    var keypoints = [20, 20, 18, 22];
+
+    tracking.Brief.setSeed(7);
+    var pattern = tracking.Brief.exportPattern();
+    var descriptors = tracking.Brief.getDescriptors(grayScale, width, keypoints);
+
+    tracking.Brief.setSeed(tracking.Brief.SEED);
+    test.notDeepEqual(descriptors, tracking.Brief.getDescriptors(grayScale, width, keypoints));
+
+    tracking.Brief.importPattern(JSON.parse(JSON.stringify(pattern)));
+    test.equal(null, tracking.Brief.getSeed(), 'Imported pattern should have no seed');
+    test.deepEqual(
+      descriptors,
+      tracking.Brief.getDescriptors(grayScale, width, keypoints),
+      'Imported pattern should give the same descriptors'
+    );
+
+    test.throws(function() {
+      tracking.Brief.importPattern([1, 2, 3]);
+    });
+    test.throws(function() {
+      tracking.Brief.importPattern(pattern.map(function(offset) {
+        return offset + 0.5;
+      }));
+    });
+
+    tracking.Brief.setSeed(tracking.Brief.SEED);
     test.done();
   }
 };
@@ -0,0 +1,86 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+var browser = require('../dist/browser.js');
+
+var frames;
+
+function createVideo(width, height) {
+  return {
+    nodeType: 1,
+    nodeName: 'VIDEO',
+    readyState: 4,
+    HAVE_ENOUGH_DATA: 4,
+    offsetWidth: width,
+    offsetHeight: height,
+    addEventListener: function() {}
+  };
+}
+
+function runFrame() {
+  var callback = frames.shift();
+  callback();
+}
+
+module.exports = {
+  setUp: function(done) {
+    frames = [];
+    global.window = {
+      requestAnimationFrame: function(callback) {
+        frames.push(callback);
+        return frames.length;
+      },
+      cancelAnimationFrame: function() {}
+    };
+    global.document = {
+      createElement: function() {
+        return {
+          getContext: function() {
+            return {
+              drawImage: function() {},
+              getImageData: function(x, y, width, height) {
+                return { data: new Uint8ClampedArray(width * height * 4) };
+              }
+            };
+          }
+        };
+      }
+    };
+    done();
+  },
+
+  tearDown: function(done) {
+    delete global.window;
+    delete global.document;
+    done();
+  },
+
+  testTrackVideoLoop: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = browser.track(createVideo(4, 4), tracker);
+
+    test.equal(frames.length, 1, 'should request the first frame');
+    runFrame();
+    test.equal(frames.length, 1, 'should request the next frame');
+
+    task.stop();
+    test.done();
+  },
+
+  testTrackVideoErrorStopsLoop: function(test) {
+    var tracker = new tracking.ColorTracker();
+    tracker.track = function() {
+      throw new Error('Tracking failed');
+    };
+    var task = browser.track(createVideo(4, 4), tracker);
+
+    task.iterate().next().catch(function(error) {
+      test.equal(error.message, 'Tracking failed', 'should propagate the error');
+      test.ok(!task.inRunning(), 'should stop the task');
+      test.equal(frames.length, 0, 'should not request another frame');
+      test.done();
+    });
+
+    test.doesNotThrow(runFrame, 'should not rethrow the handled error');
+  }
+};
@@ -0,0 +1,72 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function assertRoundTrip(test, name) {
+  var data = tracking.ViolaJones.classifiers[name];
+  var buffer = tracking.Cascade.encode(data);
+  var decoded = tracking.Cascade.decode(buffer);
+
+  test.ok(buffer.byteLength < data.length * 8, 'Binary ' + name + ' cascade should be smaller than the Float64Array');
+  test.equal(data.length, decoded.length, 'Decoded ' + name + ' cascade should have the same layout');
+
+  for (var i = 0; i < data.length; i++) {
+    if (Math.fround(data[i]) !== decoded[i]) {
+      test.ok(false, 'Decoded ' + name + ' cascade differs at index ' + i);
+      break;
+    }
+  }
+
+  test.deepEqual(decoded, tracking.Cascade.decode(tracking.Cascade.encode(decoded)), 'Encoding should be stable');
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testRoundTripEye: function(test) {
+    assertRoundTrip(test, 'eye');
+    test.done();
+  },
+
+  testRoundTripMouth: function(test) {
+    assertRoundTrip(test, 'mouth');
+    test.done();
+  },
+
+  testRoundTripFace: function(test) {
+    assertRoundTrip(test, 'face');
+    test.done();
+  },
+
+  testDecodeInvalid: function(test) {
+    var buffer = tracking.Cascade.encode(tracking.ViolaJones.classifiers.eye);
+
+    test.throws(function() {
+      tracking.Cascade.decode(new ArrayBuffer(4));
+    }, /too small/);
+
+    test.throws(function() {
+      var bytes = new Uint8Array(buffer.slice(0));
+      bytes[0] = 0;
+      tracking.Cascade.decode(bytes.buffer);
+    }, /magic/);
+
+    test.throws(function() {
+      var bytes = new Uint8Array(buffer.slice(0));
+      bytes[4] = 99;
+      tracking.Cascade.decode(bytes.buffer);
+    }, /version 99/);
+
+    test.throws(function() {
+      tracking.Cascade.decode(buffer.slice(0, buffer.byteLength - 10));
+    }, /truncated/);
+
+    test.done();
+  }
+};
@@ -190,5 +190,324 @@ module.exports = {
     });
 
     tracker.track(pixels, 6, 11);
+  },
+
+  testDeclarativeColors: function(test) {
+    var hsv;
+    var lab;
+    var hex;
+
+    tracking.ColorTracker.registerColor('red', { hue: [340, 20], saturation: [0.5, 1] });
+    tracking.ColorTracker.registerColor('lab-green', { lab: [87.7, -86.2, 83.2], tolerance: 10 });
+    tracking.ColorTracker.registerColor('hex-blue', { hex: '#00f', tolerance: 10 });
+
+    hsv = tracking.ColorTracker.getColor('red');
+    test.ok(hsv(255, 0, 0), 'Pure red should be in the hue range');
+    test.ok(hsv(230, 40, 70), 'Hue ranges should wrap around 360');
+    test.ok(!hsv(180, 140, 140), 'Unsaturated red should be out of the saturation range');
+    test.ok(!hsv(0, 255, 0), 'Green should be out of the hue range');
+
+    lab = tracking.ColorTracker.getColor('lab-green');
+    test.ok(lab(0, 255, 0), 'Pure green should be within the Lab tolerance');
+    test.ok(!lab(0, 128, 0), 'Dark green should be out of the Lab tolerance');
+
+    hex = tracking.ColorTracker.getColor('hex-blue');
+    test.ok(hex(0, 0, 255), 'Pure blue should match its hex color');
+    test.ok(hex(10, 5, 250), 'Close blue should be within the tolerance');
+    test.ok(!hex(255, 0, 255), 'Magenta should be out of the tolerance');
+
+    test.throws(function() {
+      tracking.ColorTracker.registerColor('invalid', { hue: [10] });
+    });
+    test.throws(function() {
+      tracking.ColorTracker.registerColor('invalid', { hex: '#12345' });
+    });
+    test.throws(function() {
+      tracking.ColorTracker.registerColor('invalid', { lab: [50, 0, 0], tolerance: -1 });
+    });
+
+    test.done();
+  },
+
+  testDefaultColorsWarmLighting: function(test) {
+    test.ok(tracking.ColorTracker.getColor('magenta')(255, 60, 200), 'Warm magenta should be magenta');
+    test.ok(tracking.ColorTracker.getColor('cyan')(90, 200, 190), 'Warm cyan should be cyan');
+    test.ok(tracking.ColorTracker.getColor('yellow')(255, 190, 40), 'Warm yellow should be yellow');
+    test.ok(!tracking.ColorTracker.getColor('magenta')(240, 200, 170), 'Warm white should not be magenta');
+    test.ok(!tracking.ColorTracker.getColor('yellow')(240, 200, 170), 'Warm white should not be yellow');
+
+    test.done();
+  },
+
+  testCalibrate: function(test) {
+    var definition;
+    var pixels = new Uint8ClampedArray(20 * 10 * 4);
+    var tracker = new tracking.ColorTracker([]);
+    var i;
+    var j;
+    var w;
+
+    for (i = 0; i < 10; i++) {
+      for (j = 0; j < 20; j++) {
+        w = (i * 20 + j) * 4;
+        if (j >= 5 && j < 10 && i >= 2 && i < 8) {
+          pixels[w] = 200 + (j % 2) * 10;
+          pixels[w + 1] = 120;
+          pixels[w + 2] = 30;
+        } else {
+          pixels[w] = pixels[w + 1] = pixels[w + 2] = 240;
+        }
+        pixels[w + 3] = 255;
+      }
+    }
+
+    test.throws(function() {
+      tracker.calibrate(pixels, 20, 10, { x: 30, y: 0, width: 5, height: 5 });
+    });
+
+    definition = tracker.calibrate(pixels, 20, 10, { x: 5, y: 2, width: 5, height: 6 }, 'marker');
+    test.equal(3, definition.lab.length, 'The definition should have a Lab color');
+    test.equal(tracking.ColorTracker.TOLERANCE, definition.tolerance, 'A flat region should get the minimum tolerance');
+    test.deepEqual(['marker'], tracker.getColors(), 'The calibrated color should be tracked');
+
+    tracker.setMinDimension(1);
+    tracker.on('track', function(event) {
+      test.equal(1, event.data.length, 'There should be one calibrated rectangle');
+      test.equal('marker', event.data[0].color, 'The rectangle should have the calibrated color');
+      test.equal(5, event.data[0].x, 'The rectangle should be at x = 5');
+      test.equal(2, event.data[0].y, 'The rectangle should be at y = 2');
+
+      test.done();
+    });
+
+    tracker.track(pixels, 20, 10);
+  },
+
+  testBlobStatistics: function(test) {
+    var pixels = new Uint8ClampedArray(30 * 30 * 4);
+    var tracker;
+    var i;
+    var j;
+    var w;
+
+    tracking.ColorTracker.registerColor('black', function(r, g, b) {
+      return r === 0 && g === 0 && b === 0;
+    });
+
+    for (i = 0; i < pixels.length; i++) {
+      pixels[i] = 255;
+    }
+    // A diagonal stroke, two pixels thick.
+    for (i = 5; i < 25; i++) {
+      for (j = i; j < i + 2; j++) {
+        w = (i * 30 + j) * 4;
+        pixels[w] = pixels[w + 1] = pixels[w + 2] = 0;
+      }
+    }
+
+    tracker = new tracking.ColorTracker('black');
+    tracker.setMinDimension(1);
+    tracker.setConvexHull(true);
+
+    tracker.on('track', function(event) {
+      var blob = event.data[0];
+
+      test.equal(1, event.data.length, 'There should be one blob');
+      test.equal(40, blob.total, 'The blob should count its pixels');
+      test.deepEqual([15, 14.5], blob.centroid, 'The blob centroid should be the center of the stroke');
+      test.ok(Math.abs(blob.angle - Math.PI / 4) < 0.05, 'The stroke should be oriented at 45 degrees');
+      test.ok(blob.eccentricity > 0.99, 'The stroke should be elongated');
+      test.deepEqual([5, 5, 6, 5, 25, 24, 24, 24], blob.hull, 'The hull should be the stroke ends');
+
+      test.done();
+    });
+
+    tracker.track(pixels, 30, 30);
+  },
+
+  testTrackColorsAtOnce: function(test) {
+    var pixels = new Uint8ClampedArray(20 * 10 * 4);
+    var tracker;
+    var i;
+    var j;
+    var w;
+
+    tracking.ColorTracker.registerColor('pure-red', function(r, g, b) {
+      return r === 255 && g === 0 && b === 0;
+    });
+    tracking.ColorTracker.registerColor('pure-green', function(r, g, b) {
+      return r === 0 && g === 255 && b === 0;
+    });
+
+    for (i = 0; i < 10; i++) {
+      for (j = 0; j < 20; j++) {
+        w = (i * 20 + j) * 4;
+        pixels[w] = j < 10 ? 255 : 0;
+        pixels[w + 1] = j < 10 ? 0 : 255;
+        pixels[w + 3] = 255;
+      }
+    }
+
+    tracker = new tracking.ColorTracker(['pure-green', 'pure-red']);
+    tracker.setMinDimension(1);
+
+    tracker.on('track', function(event) {
+      test.equal(2, event.data.length, 'There should be one blob per color');
+      test.equal('pure-green', event.data[0].color, 'The blobs should be in the order of the colors');
+      test.equal(10, event.data[0].x, 'The green blob should be at x = 10');
+      test.equal(100, event.data[0].total, 'The green blob should have 100 pixels');
+      test.equal('pure-red', event.data[1].color, 'The second blob should be red');
+      test.equal(0, event.data[1].x, 'The red blob should be at x = 0');
+
+      test.done();
+    });
+
+    tracker.track(pixels, 20, 10);
+  },
+
+  testOverlappingColors: function(test) {
+    var pixels = new Uint8ClampedArray(10 * 10 * 4);
+    var rects;
+    var tracker;
+
+    for (var w = 0; w < pixels.length; w += 4) {
+      pixels[w] = 255;
+      pixels[w + 3] = 255;
+    }
+
+    tracking.ColorTracker.registerColor('reddish', function(r) {
+      return r > 128;
+    });
+    tracking.ColorTracker.registerColor('pure-red', function(r, g, b) {
+      return r === 255 && g === 0 && b === 0;
+    });
+
+    tracker = new tracking.ColorTracker(['reddish', 'pure-red']);
+    tracker.setMinDimension(1);
+    tracker.on('track', function(event) {
+      rects = event.data;
+    });
+
+    tracker.track(pixels, 10, 10);
+    test.equal(1, rects.length, 'A pixel matching two colors should only count once');
+    test.equal('reddish', rects[0].color, 'A pixel should count for the first color it matches');
+
+    tracker.setColors(['pure-red', 'reddish']);
+    tracker.track(pixels, 10, 10);
+    test.equal('pure-red', rects[0].color, 'A pixel should count for the first color in the colors order');
+
+    test.done();
+  },
+
+  testMinGroupSize: function(test) {
+    var pixels = new Uint8ClampedArray(10 * 10 * 4);
+    var rects;
+    var tracker;
+
+    for (var i = 0; i < 3; i++) {
+      for (var j = 0; j < 5; j++) {
+        var w = (i * 10 + j) * 4;
+        pixels[w] = 255;
+        pixels[w + 3] = 255;
+      }
+    }
+
+    tracking.ColorTracker.registerColor('pure-red', function(r, g, b) {
+      return r === 255 && g === 0 && b === 0;
+    });
+
+    tracker = new tracking.ColorTracker('pure-red');
+    tracker.setMinDimension(1);
+    tracker.on('track', function(event) {
+      rects = event.data;
+    });
+
+    tracker.track(pixels, 10, 10);
+    test.equal(1, rects.length, 'The default minimum group size should keep a group of 15 pixels');
+
+    tracker.setMinGroupSize(31);
+    tracker.track(pixels, 10, 10);
+    test.equal(0, rects.length, 'The minimum group size should count twice the pixels of a group');
+
+    test.done();
+  },
+
+  testTooManyColors: function(test) {
+    var colors = [];
+
+    for (var i = 0; i < 256; i++) {
+      colors.push('magenta');
+    }
+
+    var tracker = new tracking.ColorTracker(colors);
+
+    test.throws(function() {
+      tracker.track(new Uint8ClampedArray(4), 1, 1);
+    }, /at most 255 colors/, 'Tracking more than 255 colors should throw');
+
+    test.done();
+  },
+
+  testMergeGapAndIoU: function(test) {
+    var rects;
+    var tracker;
+
+    function createFrame(width, height, isBlack) {
+      var pixels = new Uint8ClampedArray(width * height * 4);
+      for (var i = 0; i < height; i++) {
+        for (var j = 0; j < width; j++) {
+          var w = (i * width + j) * 4;
+          pixels[w] = pixels[w + 1] = pixels[w + 2] = isBlack(j, i) ? 0 : 255;
+          pixels[w + 3] = 255;
+        }
+      }
+      return pixels;
+    }
+
+    var squares = createFrame(30, 6, function(x, y) {
+      return y >= 1 && y <= 3 && (x <= 2 || (x >= 5 && x <= 7) || (x >= 10 && x <= 12) || (x >= 20 && x <= 22));
+    });
+    var ring = createFrame(12, 12, function(x, y) {
+      var border = (x === 0 || x === 10 || y === 0 || y === 10) && x <= 10 && y <= 10;
+      return border || (x >= 4 && x <= 6 && y >= 4 && y <= 6);
+    });
+
+    tracking.ColorTracker.registerColor('black', function(r, g, b) {
+      return r === 0 && g === 0 && b === 0;
+    });
+
+    tracker = new tracking.ColorTracker('black');
+    tracker.setMinDimension(1);
+    tracker.setMinGroupSize(1);
+    tracker.on('track', function(event) {
+      rects = event.data;
+    });
+
+    tracker.track(squares, 30, 6);
+    test.equal(4, rects.length, 'Separated squares should not be merged by default');
+
+    tracker.setMergeGap(3);
+    tracker.track(squares, 30, 6);
+    test.equal(2, rects.length, 'A chain of close squares should be merged transitively');
+    test.equal(0, rects[0].x, 'The chain should start at x = 0');
+    test.equal(12, rects[0].width, 'The chain should span the three squares');
+    test.equal(27, rects[0].total, 'The chain should count the pixels of the three squares');
+    test.equal(20, rects[1].x, 'The far square should stay alone');
+
+    tracker.setMergeIoU(0.1);
+    tracker.track(squares, 30, 6);
+    test.equal(4, rects.length, 'Squares that do not overlap should not be merged with an IoU threshold');
+
+    tracker.setMergeGap(0);
+    tracker.setMergeIoU(0);
+    tracker.track(ring, 12, 12);
+    test.equal(1, rects.length, 'A square inside a ring should be merged by default');
+    test.equal(49, rects[0].total, 'The merged blob should count the pixels of both');
+
+    tracker.setMergeIoU(0.5);
+    tracker.track(ring, 12, 12);
+    test.equal(2, rects.length, 'A small square inside a ring should not be merged with an IoU threshold');
+
+    test.done();
   }
 };
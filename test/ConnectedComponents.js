@@ -0,0 +1,85 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testLabelJoinsRegions: function(test) {
+    var components = new tracking.ConnectedComponents();
+    var blobs;
+    var mask = [
+      1, 0, 1, 0, 0, 0,
+      1, 0, 1, 0, 1, 0,
+      1, 1, 1, 0, 0, 1,
+      0, 0, 0, 0, 0, 0
+    ];
+
+    blobs = components.label(mask, 6, 4);
+
+    test.equal(2, blobs.length, 'There should be blobs for values 0 and 1');
+    test.equal(0, blobs[0].length, 'The background should have no blob');
+    test.equal(2, blobs[1].length, 'The U and the diagonal should be two regions');
+    test.equal(7, blobs[1][0].total, 'The U should be one region');
+    test.equal(2, blobs[1][0].width, 'The U width should be 2');
+    test.equal(2, blobs[1][0].height, 'The U height should be 2');
+    test.equal(2, blobs[1][1].total, 'Diagonal pixels should be connected');
+    test.deepEqual([
+      1, 0, 1, 0, 0, 0,
+      1, 0, 1, 0, 2, 0,
+      1, 1, 1, 0, 0, 2,
+      0, 0, 0, 0, 0, 0
+    ], Array.prototype.slice.call(components.getLabels()), 'The labels should be numbered in order');
+
+    test.done();
+  },
+
+  testLabelValues: function(test) {
+    var components = new tracking.ConnectedComponents();
+    var blobs;
+    var mask = new Uint8Array([
+      1, 1, 2, 2,
+      1, 1, 2, 2,
+      3, 3, 0, 1
+    ]);
+
+    blobs = components.label(mask, 4, 3, true);
+
+    test.equal(4, blobs.length, 'There should be blobs for values 0 to 3');
+    test.equal(2, blobs[1].length, 'Regions of the same value should not touch regions of other values');
+    test.equal(4, blobs[1][0].total, 'The first region of value 1 should have 4 pixels');
+    test.equal(1, blobs[1][1].total, 'The second region of value 1 should have 1 pixel');
+    test.deepEqual([2.5, 0.5], blobs[2][0].centroid, 'The region of value 2 should be centered');
+    test.deepEqual([0, 2, 1, 2], blobs[3][0].hull, 'The hull of a row should be its ends');
+    test.deepEqual([2, 0, 3, 0, 3, 1, 2, 1], blobs[2][0].hull, 'The hull of a square should be its corners');
+
+    test.done();
+  },
+
+  testReuseBuffers: function(test) {
+    var components = new tracking.ConnectedComponents();
+    var blobs;
+
+    components.label([1, 0, 1, 0, 1, 0, 1, 0, 1], 3, 3);
+    blobs = components.label([1, 1, 0, 1], 2, 2);
+
+    test.equal(1, blobs[1].length, 'A smaller mask should be labeled with the same buffers');
+    test.equal(3, blobs[1][0].total, 'The previous labels should not leak');
+    test.equal(4, components.getLabels().length, 'The labels should have the mask size');
+
+    blobs = components.label([0, 0, 0, 0], 2, 2);
+    test.deepEqual([[]], blobs, 'An empty mask should have no blob');
+
+    test.throws(function() {
+      components.label([1, 1], 2, 2);
+    }, /Mask size/);
+
+    test.done();
+  }
+};
@@ -0,0 +1,130 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+var WORDS = tracking.Brief.N / 32;
+
+function createRandom(seed) {
+  return function() {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+  };
+}
+
+function createDescriptors(count, random) {
+  var descriptors = new Int32Array(count * WORDS);
+  for (var i = 0; i < descriptors.length; i++) {
+    descriptors[i] = (random() * 4294967296) | 0;
+  }
+  return descriptors;
+}
+
+function createKeypoints(count) {
+  var keypoints = [];
+  for (var i = 0; i < count; i++) {
+    keypoints.push(i % 100, Math.floor(i / 100));
+  }
+  return keypoints;
+}
+
+// Copies some descriptors, flipping `flips` random bits of each one.
+function createQueries(descriptors, indexes, flips, random) {
+  var queries = new Int32Array(indexes.length * WORDS);
+  indexes.forEach(function(index, i) {
+    queries.set(descriptors.subarray(index * WORDS, (index + 1) * WORDS), i * WORDS);
+    for (var f = 0; f < flips; f++) {
+      var bit = Math.floor(random() * tracking.Brief.N);
+      queries[i * WORDS + (bit >> 5)] ^= 1 << (bit & 31);
+    }
+  });
+  return queries;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testAdd: function(test) {
+    var index = new tracking.DescriptorIndex();
+    var random = createRandom(1);
+
+    test.equal(0, index.add(createKeypoints(10), createDescriptors(10, random), 'first'));
+    test.equal(10, index.add(createKeypoints(5), createDescriptors(5, random), 'second'));
+    test.equal(15, index.getSize(), 'Should index every descriptor');
+    test.equal('first', index.getLabel(3), 'Should label the descriptors');
+    test.equal('second', index.getLabel(12), 'Should label the descriptors');
+    test.equal(8, index.getStats().tables, 'Should use the default tables');
+
+    test.throws(function() {
+      index.add(createKeypoints(2), createDescriptors(1, random));
+    });
+
+    index.clear();
+    test.equal(0, index.getSize(), 'Should clear the index');
+
+    test.done();
+  },
+
+  testKnn: function(test) {
+    var random = createRandom(2);
+    var descriptors = createDescriptors(3000, random);
+    var index = new tracking.DescriptorIndex();
+    var targets = [];
+    for (var i = 0; i < 100; i++) {
+      targets.push(i * 29);
+    }
+
+    index.add(createKeypoints(3000), descriptors);
+    var neighbors = index.knn(createQueries(descriptors, targets, 30, random), 3);
+    var found = 0;
+
+    neighbors.forEach(function(result, i) {
+      test.ok(result.length <= 3, 'Should return at most k neighbors');
+      for (var j = 1; j < result.length; j++) {
+        test.ok(result[j - 1].distance <= result[j].distance, 'Should sort neighbors by distance');
+      }
+      if (result.length && result[0].index === targets[i]) {
+        found++;
+        test.ok(result[0].distance <= 30, 'Distance should count the flipped bits');
+      }
+    });
+
+    var stats = index.getStats();
+    test.ok(found >= 95, 'Should find most nearest neighbors');
+    test.equal(100, stats.queries, 'Should count the queries');
+    test.ok(stats.averageComparisons < 3000 / 4, 'Should compare fewer descriptors than brute force');
+
+    test.done();
+  },
+
+  testMatch: function(test) {
+    var random = createRandom(3);
+    var descriptors = createDescriptors(500, random);
+    var keypoints = createKeypoints(500);
+    var index = new tracking.DescriptorIndex({ probeLevel: 2 });
+
+    index.add(keypoints, descriptors, 'reference');
+
+    var queries = createQueries(descriptors, [7, 42], 10, random);
+    var matches = index.match([1, 2, 3, 4], queries);
+
+    test.equal(2, matches.length, 'Should match distinctive descriptors');
+    test.equal(7, matches[0].index2, 'Should match the nearest descriptor');
+    test.deepEqual([1, 2], matches[0].keypoint1, 'Should return the query keypoint');
+    test.deepEqual([keypoints[14], keypoints[15]], matches[0].keypoint2, 'Should return the indexed keypoint');
+    test.ok(matches[0].confidence >= 1 - 10 / tracking.Brief.N, 'Confidence should follow the distance');
+    test.equal(42, matches[1].index2, 'Should match the nearest descriptor');
+
+    // The same descriptor twice is ambiguous.
+    index.add([0, 0], descriptors.subarray(7 * WORDS, 8 * WORDS));
+    test.equal(1, index.match([1, 2, 3, 4], queries).length, 'Ratio test should reject ambiguous matches');
+    test.equal(2, index.match([1, 2, 3, 4], queries, 1).length, 'Ratio 1 should keep every match');
+
+    test.done();
+  }
+};
@@ -0,0 +1,102 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+var cameraMatrix = [
+  [800, 0, 320],
+  [0, 800, 240],
+  [0, 0, 1]
+];
+
+var objectPoints = [
+  [-50, -40, 10],
+  [50, -40, 10],
+  [0, 0, 60],
+  [-30, 45, 0],
+  [30, 45, 0],
+  [0, 70, 20],
+  [-70, 0, -20],
+  [70, 0, -20]
+];
+
+function rotation(yaw, pitch, roll) {
+  var cy = Math.cos(yaw);
+  var sy = Math.sin(yaw);
+  var cp = Math.cos(pitch);
+  var sp = Math.sin(pitch);
+  var cr = Math.cos(roll);
+  var sr = Math.sin(roll);
+
+  return [
+    [cy * cr + sy * sp * sr, -cy * sr + sy * sp * cr, sy * cp],
+    [cp * sr, cp * cr, -sp],
+    [-sy * cr + cy * sp * sr, sy * sr + cy * sp * cr, cy * cp]
+  ];
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testSolveSyntheticProjection: function(test) {
+    var poses = [
+      [rotation(0, 0, 0), [0, 0, 600]],
+      [rotation(0.3, -0.2, 0.1), [20, -15, 500]],
+      [rotation(-0.6, 0.4, -0.3), [-40, 30, 900]]
+    ];
+
+    poses.forEach(function(pose) {
+      var imagePoints = tracking.EPnP.project(objectPoints, pose[0], pose[1], cameraMatrix);
+      var result = tracking.EPnP.solve(objectPoints, imagePoints, cameraMatrix);
+
+      test.ok(result.reprojectionError < 1e-6, 'Reprojection error should be close to zero');
+
+      for (var i = 0; i < 3; i++) {
+        test.ok(Math.abs(result.translation[i] - pose[1][i]) < 1e-3, 'Translation should be recovered');
+        for (var j = 0; j < 3; j++) {
+          test.ok(Math.abs(result.rotation[i][j] - pose[0][i][j]) < 1e-6, 'Rotation should be recovered');
+        }
+      }
+    });
+
+    test.done();
+  },
+
+  testSolveNoisyProjection: function(test) {
+    var imagePoints = tracking.EPnP.project(objectPoints, rotation(0.2, 0.1, 0), [10, 5, 700], cameraMatrix);
+    var noise = [0.4, -0.3, 0.2, -0.5, 0.1, 0.3, -0.2, 0.4];
+
+    imagePoints.forEach(function(point, i) {
+      point[0] += noise[i];
+      point[1] -= noise[i];
+    });
+
+    var result = tracking.EPnP.solve(objectPoints, imagePoints, cameraMatrix);
+
+    test.ok(result.reprojectionError < 1, 'Reprojection error should be within the noise level');
+    test.ok(Math.abs(result.translation[2] - 700) < 10, 'Depth should be close to the true depth');
+
+    test.done();
+  },
+
+  testSolveInvalidInput: function(test) {
+    test.throws(function() {
+      tracking.EPnP.solve(objectPoints.slice(0, 3), [[0, 0], [1, 1], [2, 2]], cameraMatrix);
+    });
+
+    test.throws(function() {
+      tracking.EPnP.solve(
+        [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0]],
+        [[0, 0], [1, 0], [0, 1], [1, 1]],
+        cameraMatrix
+      );
+    }, 'Coplanar object points are not supported');
+
+    test.done();
+  }
+};
@@ -64,6 +64,79 @@ module.exports = {
       'Corner should be at y = 3'
     );
 
+    test.done();
+  },
+
+  testGetScore: function(test) {
+    test.equal(
+      4 * (155 - 10),
+      tracking.Fast.getScore(100, [100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 255, 255, 255, 255], 10),
+      'Score should sum the brighter arc differences'
+    );
+    test.equal(
+      12 * (150 - 10),
+      tracking.Fast.getScore(150, [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 255, 255, 255, 255], 10),
+      'Score should keep the larger arc'
+    );
+
+    test.done();
+  },
+
+  testDetectNonMaxSuppression: function(test) {
+    var width = 32;
+    var height = 32;
+    var pixels = [];
+
+    // Each bright blob produces a cluster of corner pixels around its peak.
+    for (var i = 0; i < width * height; i++) {
+      var x = i % width;
+      var y = Math.floor(i / width);
+      var dx = Math.min(Math.abs(x - 8), Math.abs(x - 22));
+      var dy = Math.abs(y - 12);
+      pixels.push(dx <= 1 && dy <= 1 ? (dx || dy ? 200 : 255) : 0);
+    }
+
+    var all = tracking.Fast.detect(pixels, width, height, { nonMaxSuppression: false });
+    var suppressed = tracking.Fast.detect(pixels, width, height);
+
+    test.ok(suppressed.corners.length < all.corners.length, 'Should suppress redundant corners');
+    test.deepEqual([8, 12, 22, 12], suppressed.corners, 'Should keep the peak of each blob');
+    test.equal(suppressed.corners.length / 2, suppressed.scores.length, 'Should score every corner');
+    for (var j = 1; j < suppressed.scores.length; j++) {
+      test.ok(suppressed.scores[j - 1] >= suppressed.scores[j], 'Should sort corners by score');
+    }
+
+    test.done();
+  },
+
+  testDetectMaxCorners: function(test) {
+    var width = 64;
+    var height = 64;
+    var pixels = [];
+
+    // Isolated dots, brighter on the left half of the image.
+    for (var i = 0; i < width * height; i++) {
+      var x = i % width;
+      var y = Math.floor(i / width);
+      pixels.push(x % 8 === 4 && y % 8 === 4 ? (x < 32 ? 255 : 120) : 0);
+    }
+
+    var best = tracking.Fast.detect(pixels, width, height, { maxCorners: 8 });
+    test.equal(8, best.corners.length / 2, 'Should bound the number of corners');
+    for (var j = 0; j < best.corners.length; j += 2) {
+      test.ok(best.corners[j] < 32, 'Should keep the best corners');
+    }
+
+    var grid = tracking.Fast.detect(pixels, width, height, { maxCorners: 8, gridCols: 2, gridRows: 1 });
+    var right = 0;
+    for (var k = 0; k < grid.corners.length; k += 2) {
+      if (grid.corners[k] >= 32) {
+        right++;
+      }
+    }
+    test.equal(8, grid.corners.length / 2, 'Should bound the number of corners');
+    test.equal(4, right, 'Should spread the corners over the grid');
+
     test.done();
   }
 };
@@ -0,0 +1,82 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+var WIDTH = 640;
+var HEIGHT = 480;
+
+function toRadians(degrees) {
+  return degrees * Math.PI / 180;
+}
+
+function rotation(yaw, pitch, roll) {
+  var cy = Math.cos(toRadians(yaw));
+  var sy = Math.sin(toRadians(yaw));
+  var cp = Math.cos(toRadians(pitch));
+  var sp = Math.sin(toRadians(pitch));
+  var cr = Math.cos(toRadians(roll));
+  var sr = Math.sin(toRadians(roll));
+
+  return [
+    [cy * cr + sy * sp * sr, -cy * sr + sy * sp * cr, sy * cp],
+    [cp * sr, cp * cr, -sp],
+    [-sy * cr + cy * sp * sr, sy * sr + cy * sp * cr, cy * cp]
+  ];
+}
+
+// Projects the face model with a pinhole camera centered on the image.
+function project(model, r, t, focalLength) {
+  return model.map(function(point) {
+    var x = r[0][0] * point[0] + r[0][1] * point[1] + r[0][2] * point[2] + t[0];
+    var y = r[1][0] * point[0] + r[1][1] * point[1] + r[1][2] * point[2] + t[1];
+    var z = r[2][0] * point[0] + r[2][1] * point[1] + r[2][2] * point[2] + t[2];
+    return [focalLength * x / z + WIDTH / 2, focalLength * y / z + HEIGHT / 2];
+  });
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testEstimateKnownPose: function(test) {
+    var poses = [[0, 0, 0], [25, 0, 0], [0, -15, 0], [0, 0, 20], [-30, 10, -12]];
+
+    poses.forEach(function(angles) {
+      var landmarks = project(tracking.HeadPose.model, rotation(angles[0], angles[1], angles[2]), [40, -20, 700], WIDTH);
+      var pose = tracking.HeadPose.estimate(landmarks, WIDTH, HEIGHT);
+
+      test.ok(Math.abs(pose.yaw - angles[0]) < 1, 'Yaw should be recovered for ' + angles);
+      test.ok(Math.abs(pose.pitch - angles[1]) < 1, 'Pitch should be recovered for ' + angles);
+      test.ok(Math.abs(pose.roll - angles[2]) < 1, 'Roll should be recovered for ' + angles);
+      test.ok(Math.abs(pose.translation[2] - 700) < 7, 'Distance should be recovered for ' + angles);
+      test.ok(pose.reprojectionError < 0.1, 'Reprojection error should be small for ' + angles);
+    });
+
+    test.done();
+  },
+
+  testEstimateCamera: function(test) {
+    var landmarks = project(tracking.HeadPose.model, rotation(15, -10, 5), [0, 0, 400], 1200);
+    var pose = tracking.HeadPose.estimate(landmarks, WIDTH, HEIGHT, { focalLength: 1200 });
+
+    test.ok(Math.abs(pose.yaw - 15) < 1, 'Yaw should be recovered with the camera focal length');
+    test.ok(Math.abs(pose.pitch + 10) < 1, 'Pitch should be recovered with the camera focal length');
+    test.ok(Math.abs(pose.roll - 5) < 1, 'Roll should be recovered with the camera focal length');
+    test.ok(Math.abs(pose.translation[2] - 400) < 4, 'Distance should be recovered with the camera focal length');
+
+    test.done();
+  },
+
+  testEstimateUnsupportedLandmarks: function(test) {
+    test.throws(function() {
+      tracking.HeadPose.estimate([[0, 0], [1, 1]], WIDTH, HEIGHT);
+    }, /not supported for 2 landmarks/);
+
+    test.done();
+  }
+};
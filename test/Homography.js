@@ -0,0 +1,118 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+var homography = [
+  [0.9, -0.2, 40],
+  [0.15, 1.1, 25],
+  [0.0004, -0.0002, 1]
+];
+
+function project(x, y) {
+  var w = homography[2][0] * x + homography[2][1] * y + homography[2][2];
+  return [
+    (homography[0][0] * x + homography[0][1] * y + homography[0][2]) / w,
+    (homography[1][0] * x + homography[1][1] * y + homography[1][2]) / w
+  ];
+}
+
+function createRandom(seed) {
+  return function() {
+    seed = (seed * 16807) % 2147483647;
+    return (seed - 1) / 2147483646;
+  };
+}
+
+function assertHomography(test, actual, expected) {
+  for (var i = 0; i < 3; i++) {
+    for (var j = 0; j < 3; j++) {
+      test.ok(Math.abs(actual[i][j] - expected[i][j]) < 1e-3 * (1 + Math.abs(expected[i][j])), 'Element should match');
+    }
+  }
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testEstimateFourPoints: function(test) {
+    var src = [[0, 0], [200, 0], [200, 150], [0, 150]];
+    var dst = src.map(function(point) {
+      return project(point[0], point[1]);
+    });
+
+    assertHomography(test, tracking.Homography.estimate(src, dst), homography);
+
+    test.done();
+  },
+
+  testEstimateDegenerate: function(test) {
+    var src = [[0, 0], [10, 10], [20, 20], [30, 30], [40, 40]];
+
+    test.equal(null, tracking.Homography.estimate(src, src), 'Collinear points should be degenerate');
+    test.throws(function() {
+      tracking.Homography.estimate([[0, 0], [1, 0], [0, 1]], [[0, 0], [1, 0], [0, 1]]);
+    });
+
+    test.done();
+  },
+
+  testRansacOutliers: function(test) {
+    var random = createRandom(42);
+    var src = [];
+    var dst = [];
+    var outliers = [];
+
+    for (var i = 0; i < 60; i++) {
+      var x = random() * 320;
+      var y = random() * 240;
+      var p = project(x, y);
+      src.push([x, y]);
+      outliers.push(i % 3 === 0);
+      if (outliers[i]) {
+        dst.push([random() * 320, random() * 240]);
+      } else {
+        dst.push([p[0] + random() - 0.5, p[1] + random() - 0.5]);
+      }
+    }
+
+    var result = tracking.Homography.ransac(src, dst, { random: createRandom(7) });
+
+    test.ok(result, 'Should find a homography');
+    test.ok(result.error < 1, 'Reprojection error should be low');
+    result.inliers.forEach(function(inlier, i) {
+      if (!outliers[i]) {
+        test.ok(inlier, 'Correct correspondence should be an inlier');
+      }
+    });
+
+    var corners = tracking.Homography.projectCorners(result.homography, 320, 240);
+    [[0, 0], [320, 0], [320, 240], [0, 240]].forEach(function(corner, i) {
+      var expected = project(corner[0], corner[1]);
+      test.ok(Math.abs(corners[i][0] - expected[0]) < 1.5, 'Corner x should match');
+      test.ok(Math.abs(corners[i][1] - expected[1]) < 1.5, 'Corner y should match');
+    });
+
+    test.done();
+  },
+
+  testFromMatches: function(test) {
+    var matches = [[10, 10], [300, 20], [280, 220], [30, 200], [160, 120]].map(function(point, i) {
+      var p = project(point[0], point[1]);
+      return { index1: i, index2: i, keypoint1: point, keypoint2: p, confidence: 1 };
+    });
+
+    var result = tracking.Homography.fromMatches(matches);
+
+    assertHomography(test, result.homography, homography);
+    test.deepEqual([true, true, true, true, true], result.inliers, 'Every match should be an inlier');
+    test.equal(null, tracking.Homography.fromMatches(matches.slice(0, 3)), 'Should need four matches');
+
+    test.done();
+  }
+};
@@ -0,0 +1,117 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createTarget(width, height, seed) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  var random = function() {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  for (var i = 0; i < width * height; i++) {
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = 40;
+    pixels[i * 4 + 3] = 255;
+  }
+  for (var k = 0; k < 60; k++) {
+    var cx = 4 + Math.floor(random() * (width - 8));
+    var cy = 4 + Math.floor(random() * (height - 8));
+    var value = 160 + Math.floor(random() * 95);
+    for (var y = cy - 2; y <= cy + 2; y++) {
+      for (var x = cx - 2; x <= cx + 2; x++) {
+        if ((x - cx) * (x - cx) + (y - cy) * (y - cy) <= 4) {
+          var w = (y * width + x) * 4;
+          pixels[w] = pixels[w + 1] = pixels[w + 2] = value;
+        }
+      }
+    }
+  }
+  return { pixels: pixels, width: width, height: height };
+}
+
+function createFrame(width, height, target, offsetX, offsetY) {
+  var pixels = new Uint8ClampedArray(width * height * 4).fill(40);
+  for (var y = 0; y < target.height; y++) {
+    for (var x = 0; x < target.width; x++) {
+      var w = ((y + offsetY) * width + x + offsetX) * 4;
+      var t = (y * target.width + x) * 4;
+      pixels[w] = target.pixels[t];
+      pixels[w + 1] = target.pixels[t + 1];
+      pixels[w + 2] = target.pixels[t + 2];
+    }
+  }
+  return pixels;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testConstructor: function(test) {
+    var poster = createTarget(96, 80, 11);
+
+    test.doesNotThrow(function() {
+      new tracking.ImageTargetTracker();
+    });
+
+    test.throws(function() {
+      new tracking.ImageTargetTracker({ name: 'poster' });
+    });
+
+    var tracker = new tracking.ImageTargetTracker([
+      { name: 'poster', pixels: poster.pixels, width: poster.width, height: poster.height },
+      { name: 'other', pixels: poster.pixels, width: poster.width, height: poster.height }
+    ]);
+    test.deepEqual(['poster', 'other'], tracker.getTargetNames(), 'Should add every target');
+
+    tracker.removeTarget('other');
+    test.deepEqual(['poster'], tracker.getTargetNames(), 'Should remove the target');
+
+    test.done();
+  },
+
+  testTrackWithoutTarget: function(test) {
+    var tracker = new tracking.ImageTargetTracker();
+
+    test.throws(function() {
+      tracker.track(new Uint8ClampedArray(4 * 4 * 4), 4, 4);
+    });
+
+    test.done();
+  },
+
+  testTrack: function(test) {
+    var poster = createTarget(96, 80, 11);
+    var tracker = new tracking.ImageTargetTracker({
+      name: 'poster',
+      pixels: poster.pixels,
+      width: poster.width,
+      height: poster.height
+    });
+    var results;
+
+    tracker.on('track', function(event) {
+      results = event.data;
+    });
+
+    tracker.track(createFrame(240, 180, poster, 70, 50), 240, 180);
+
+    test.equal(1, results.length, 'Should find the target');
+    test.equal('poster', results[0].name, 'Should name the target');
+    test.ok(results[0].inliers >= 8, 'Should have enough inliers');
+    test.ok(results[0].score > 0 && results[0].score <= 1, 'Score should be a ratio');
+    [[70, 50], [166, 50], [166, 130], [70, 130]].forEach(function(corner, i) {
+      test.ok(Math.abs(results[0].corners[i][0] - corner[0]) < 2, 'Corner x should be projected');
+      test.ok(Math.abs(results[0].corners[i][1] - corner[1]) < 2, 'Corner y should be projected');
+    });
+
+    tracker.track(new Uint8ClampedArray(240 * 180 * 4).fill(128), 240, 180);
+    test.equal(0, results.length, 'Should not find the target in a flat frame');
+
+    test.done();
+  }
+};
@@ -0,0 +1,136 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+var createModel = require('./utils/lbf.js').createModel;
+var createFaceShape = require('./utils/lbf.js').createFaceShape;
+var faces = require('../scripts/synthetic-faces.js');
+
+function getMeanError(shape, truth) {
+  var interocular = Math.sqrt(Math.pow(truth[20][0] + truth[21][0] - truth[24][0] - truth[25][0], 2) +
+    Math.pow(truth[20][1] + truth[21][1] - truth[24][1] - truth[25][1], 2)) / 2;
+  var error = 0;
+  for (var i = 0; i < truth.length; i++) {
+    error += Math.sqrt(Math.pow(shape[i][0] - truth[i][0], 2) + Math.pow(shape[i][1] - truth[i][1], 2));
+  }
+  return error / truth.length / interocular;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testLoadModelObject: function(test) {
+    var pixels = new Uint8ClampedArray(40 * 40 * 4);
+    var regressor = tracking.LBF.loadModel(createModel('tiny'));
+
+    test.equal(2, regressor.getNumLandmarks(), 'Model should have 2 landmarks');
+    test.equal(regressor, tracking.LBF.getModel('tiny'), 'Model should be registered under its name');
+
+    var shapes = tracking.LBF.align(pixels, 40, 40, [{ x: 10, y: 10, width: 20, height: 20 }], 'tiny');
+    test.equal(1, shapes.length, 'There should be one shape per face');
+    test.deepEqual([[15, 20], [25, 20]], shapes[0], 'Null regression should keep the mean shape');
+
+    test.done();
+  },
+
+  testAlignBundledModel: function(test) {
+    var random = faces.createRandom(2024);
+    var error = 0;
+
+    test.ok(tracking.LBF.getModel(tracking.LBF.DEFAULT_MODEL), 'Default model should be bundled');
+
+    for (var i = 0; i < 10; i++) {
+      var face = faces.renderFace(random, tracking.HeadPose.model);
+      var shapes = tracking.LBF.align(face.pixels, face.width, face.height, [face.face]);
+
+      test.equal(31, shapes[0].length, 'There should be 31 landmarks');
+      error += getMeanError(shapes[0], face.shape) / 10;
+    }
+
+    // The mean shape projected into the face box is a quarter of the eyes
+    // distance off on these faces.
+    test.ok(error < 0.1, 'Landmarks should be within a tenth of the eyes distance, got ' + error);
+
+    test.done();
+  },
+
+  testAlignFixtureFace: function(test) {
+    var size = 80;
+    var pixels = new Uint8ClampedArray(size * size * 4);
+    var face = { x: 10, y: 10, width: 60, height: 60 };
+    for (var y = 0; y < size; y++) {
+      for (var x = 0; x < size; x++) {
+        var i = (y * size + x) * 4;
+        var inside = x >= face.x && x < face.x + face.width && y >= face.y && y < face.y + face.height;
+        var feature = (y > 22 && y < 28 && ((x > 22 && x < 32) || (x > 48 && x < 58))) || (y > 50 && y < 54 && x > 30 && x < 50);
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = feature ? 40 : (inside ? 190 : 90);
+        pixels[i + 3] = 255;
+      }
+    }
+
+    tracking.LBF.loadModel(createModel('fixture31', createFaceShape(tracking.HeadPose.model), tracking.LBF.maxNumStages));
+    var shapes = tracking.LBF.align(pixels, size, size, [face], 'fixture31');
+    var shape = shapes[0];
+
+    test.equal(1, shapes.length, 'There should be one shape per face');
+    test.equal(31, shape.length, 'There should be 31 landmarks');
+    test.ok(shape.every(function(point) {
+      return point[0] >= face.x && point[0] <= face.x + face.width && point[1] >= face.y && point[1] <= face.y + face.height;
+    }), 'Landmarks should be inside the face');
+    test.ok(shape[20][0] < shape[17][0] && shape[17][0] < shape[24][0], 'Nose should be between the eyes');
+    test.ok(shape[20][1] < shape[17][1] && shape[17][1] < shape[30][1], 'Nose should be between the eyes and the mouth');
+    test.ok(shape[30][1] < shape[4][1], 'Chin should be below the mouth');
+    test.ok(Math.abs(shape[20][1] - 25) < 6 && Math.abs(shape[24][1] - 25) < 6, 'Eyes should be on the eye row');
+
+    test.done();
+  },
+
+  testLoadModelArrayBuffer: function(test) {
+    var json = JSON.stringify(createModel());
+    var buffer = new ArrayBuffer(json.length);
+    var view = new Uint8Array(buffer);
+    for (var i = 0; i < json.length; i++) {
+      view[i] = json.charCodeAt(i);
+    }
+
+    var other = tracking.LBF.loadModel(createModel('other'));
+    var regressor = tracking.LBF.loadModel(buffer, 'buffered');
+    test.equal(regressor, tracking.LBF.getModel('buffered'), 'Model should be registered under the given name');
+    test.equal(other, tracking.LBF.getModel('other'), 'Models should be registered side by side');
+    test.ok(tracking.LBF.getModelNames().indexOf('buffered') > -1, 'Model names should include the given name');
+
+    test.done();
+  },
+
+  testLoadModelInvalid: function(test) {
+    var model = createModel();
+    model.stages[0].landmarks[1] = [];
+
+    test.throws(function() {
+      tracking.LBF.loadModel(model);
+    }, /stage 0, landmark 1/);
+
+    model = createModel();
+    model.stages[0].landmarks[0][0].max_depth = 3;
+
+    test.throws(function() {
+      tracking.LBF.loadModel(model);
+    }, /expected depth 2/);
+
+    test.throws(function() {
+      tracking.LBF.loadModel(createModel('deep', null, tracking.LBF.maxNumStages + 1));
+    }, /Invalid LBF regressor data: expected at most 4 stages, got 5/);
+    test.equal(undefined, tracking.LBF.getModel('deep'), 'Invalid models should not be registered');
+
+    test.throws(function() {
+      tracking.LBF.align(new Uint8ClampedArray(4), 1, 1, [], 'missing');
+    }, /not registered/);
+
+    test.done();
+  }
+};
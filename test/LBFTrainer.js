@@ -0,0 +1,93 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+var faces = require('../scripts/synthetic-faces.js');
+
+var OPTIONS = { name: 'trained', numTrees: 2, maxDepth: 3, numFeatures: 20, radii: [0.3, 0.15] };
+
+function renderFaces(seed, count) {
+  var random = faces.createRandom(seed);
+  var samples = [];
+  for (var i = 0; i < count; i++) {
+    samples.push(faces.renderFace(random, tracking.HeadPose.model));
+  }
+  return samples;
+}
+
+function getMeanError(shapes, samples) {
+  var error = 0;
+  samples.forEach(function(sample, i) {
+    for (var j = 0; j < sample.shape.length; j++) {
+      error += Math.sqrt(Math.pow(shapes[i][j][0] - sample.shape[j][0], 2) +
+        Math.pow(shapes[i][j][1] - sample.shape[j][1], 2)) / sample.face.width;
+    }
+  });
+  return error / samples.length / samples[0].shape.length;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testTrain: function(test) {
+    var samples = renderFaces(1, 40);
+    var model = tracking.LBFTrainer.train(samples, OPTIONS);
+
+    test.equal('trained', model.name, 'Model should have the given name');
+    test.equal(31, model.meanShape.length, 'Mean shape should have the landmarks of the samples');
+    test.equal(2, model.stages.length, 'Model should have a stage per radius');
+    test.equal(2, model.stages[0].max_numtrees, 'Stages should have the given number of trees');
+    test.equal(62, model.stages[0].models.length, 'Stages should have a linear model per coordinate');
+
+    var regressor = tracking.LBF.loadModel(model);
+    test.equal(regressor, tracking.LBF.getModel('trained'), 'Model should be loadable');
+
+    var meanShapes = samples.map(function(sample) {
+      var box = sample.face;
+      return tracking.LBF.projectShapeToBoundingBox(model.meanShape,
+        { startX: box.x, startY: box.y, width: box.width, height: box.width });
+    });
+    var shapes = samples.map(function(sample) {
+      return tracking.LBF.align(sample.pixels, sample.width, sample.height, [sample.face], 'trained')[0];
+    });
+    test.ok(getMeanError(shapes, samples) < getMeanError(meanShapes, samples) * 0.7,
+      'Aligned shapes should be closer to the annotations than the mean shape');
+
+    test.done();
+  },
+
+  testTrainSeed: function(test) {
+    var samples = renderFaces(2, 10);
+    var first = tracking.LBFTrainer.train(samples, OPTIONS);
+    var second = tracking.LBFTrainer.train(samples, OPTIONS);
+    var other = tracking.LBFTrainer.train(samples, Object.assign({ seed: 7 }, OPTIONS));
+
+    test.deepEqual(first, second, 'Training should be reproducible');
+    test.notDeepEqual(first.stages[0].landmarks, other.stages[0].landmarks, 'Seed should change the trees');
+
+    test.done();
+  },
+
+  testTrainInvalid: function(test) {
+    var samples = renderFaces(3, 2);
+
+    test.throws(function() {
+      tracking.LBFTrainer.train([], OPTIONS);
+    }, /at least one sample/);
+
+    test.throws(function() {
+      tracking.LBFTrainer.train(samples, Object.assign({}, OPTIONS, { maxDepth: 1 }));
+    }, /depth 2 or more/);
+
+    test.throws(function() {
+      tracking.LBFTrainer.train(samples, Object.assign({}, OPTIONS, { radii: [0.4, 0.3, 0.2, 0.1, 0.05] }));
+    }, /from 1 to 4 stages/);
+
+    test.done();
+  }
+};
@@ -0,0 +1,89 @@
+'use strict';
+
+var path = require('path');
+var tracking = require('../dist/node.js');
+var lbf = require('./utils/lbf.js');
+
+var ASSETS = path.join(__dirname, 'assets');
+
+function trackFaces(tracker) {
+  return tracking.track(tracker, path.join(ASSETS, 'faces.png'));
+}
+
+module.exports = {
+  setUp: function(done) {
+    tracking.LBF.loadModel(lbf.createModel('frontal31', lbf.createFaceShape(tracking.HeadPose.model),
+      tracking.LBF.maxNumStages));
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testTrackLandmarks: function(test) {
+    trackFaces(new tracking.LandmarksTracker('frontal31')).then(function(event) {
+      test.ok(event.data.faces.length > 0, 'should detect faces');
+      test.equal(event.data.landmarks.length, event.data.faces.length, 'should align each face');
+      test.equal(event.data.landmarks[0].length, 31, 'should align the landmarks of the model');
+      test.equal(event.data.poses, undefined, 'should not estimate poses by default');
+      test.done();
+    }).catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  },
+
+  testTrackBundledModel: function(test) {
+    // Eye centers of the faces, annotated by hand.
+    var eyes = [[[75, 122], [112, 122]], [[252, 174], [293, 170]], [[481, 96], [517, 97]]];
+    var getCenter = function(shape, start) {
+      return [0, 1].map(function(axis) {
+        return (shape[start][axis] + shape[start + 1][axis] + shape[start + 2][axis] + shape[start + 3][axis]) / 4;
+      });
+    };
+    var getDistance = function(a, b) {
+      return Math.sqrt(Math.pow(a[0] - b[0], 2) + Math.pow(a[1] - b[1], 2));
+    };
+
+    trackFaces(new tracking.LandmarksTracker()).then(function(event) {
+      test.equal(event.data.landmarks.length, 3, 'should align the three faces');
+      event.data.landmarks.forEach(function(shape) {
+        var left = getCenter(shape, 19);
+        var right = getCenter(shape, 23);
+        var truth = eyes.slice().sort(function(a, b) {
+          return getDistance(a[0], left) - getDistance(b[0], left);
+        })[0];
+        var interocular = getDistance(truth[0], truth[1]);
+
+        test.ok(getDistance(left, truth[0]) < interocular / 4, 'should align the left eye');
+        test.ok(getDistance(right, truth[1]) < interocular / 4, 'should align the right eye');
+      });
+      test.done();
+    }).catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  },
+
+  testTrackPoses: function(test) {
+    var tracker = new tracking.LandmarksTracker('frontal31');
+    tracker.setPoseEstimation(true);
+
+    trackFaces(tracker).then(function(event) {
+      test.equal(event.data.poses.length, event.data.faces.length, 'should estimate the pose of each face');
+      event.data.poses.forEach(function(pose) {
+        // The mean shape is seen from the front, so off-center faces turn a
+        // little towards the camera.
+        test.ok(Math.abs(pose.yaw) < 20, 'should estimate a frontal yaw for the mean shape');
+        test.ok(Math.abs(pose.pitch) < 10, 'should estimate a frontal pitch for the mean shape');
+        test.ok(Math.abs(pose.roll) < 5, 'should estimate a frontal roll for the mean shape');
+        test.ok(pose.translation[2] > 0, 'should estimate a face in front of the camera');
+      });
+      test.done();
+    }).catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  }
+};
@@ -0,0 +1,144 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createFrame(width, height, color) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var i = 0; i < height; i++) {
+    for (var j = 0; j < width; j++) {
+      var w = (i * width + j) * 4;
+      var rgb = color(j, i);
+      pixels[w] = rgb[0];
+      pixels[w + 1] = rgb[1];
+      pixels[w + 2] = rgb[2];
+      pixels[w + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+function background(x, y) {
+  return [120 + (x % 3) * 10, 160, 100 + (y % 4) * 10];
+}
+
+function square(left, top, size, rgb) {
+  return function(x, y) {
+    if (x >= left && x < left + size && y >= top && y < top + size) {
+      return rgb;
+    }
+    return background(x, y);
+  };
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testTrackMovingSquare: function(test) {
+    var tracker = new tracking.MotionTracker();
+    var results = [];
+
+    tracker.on('track', function(event) {
+      results.push(event.data);
+    });
+
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(createFrame(60, 40, square(20, 10, 12, [250, 20, 20])), 60, 40);
+
+    test.equal(0, results[0].length, 'The first frame should initialize the background');
+    test.equal(0, results[1].length, 'A still frame should have no motion');
+    test.equal(1, results[2].length, 'The square should be one moving region');
+    test.equal(20, results[2][0].x, 'The region should be at x = 20');
+    test.equal(10, results[2][0].y, 'The region should be at y = 10');
+    test.equal(11, results[2][0].width, 'The region width should be 11');
+    test.equal(11, results[2][0].height, 'The region height should be 11');
+    test.equal(144, results[2][0].total, 'The region should count the square pixels');
+    test.equal(undefined, results[2][0].color, 'The region should have no color');
+
+    test.done();
+  },
+
+  testShadowSuppression: function(test) {
+    var tracker = new tracking.MotionTracker();
+    var shadow = createFrame(60, 40, function(x, y) {
+      var rgb = background(x, y);
+      if (x >= 10 && x < 40 && y >= 5 && y < 30) {
+        return [rgb[0] * 0.6, rgb[1] * 0.6, rgb[2] * 0.6];
+      }
+      return rgb;
+    });
+    var results;
+
+    tracker.on('track', function(event) {
+      results = event.data;
+    });
+
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(shadow, 60, 40);
+    test.equal(0, results.length, 'A shadow should not be a moving region');
+
+    tracker.reset();
+    tracker.setShadowRatio(1);
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(shadow, 60, 40);
+    test.equal(1, results.length, 'A shadow should be a moving region without shadow suppression');
+
+    test.done();
+  },
+
+  testMorphologyRemovesNoise: function(test) {
+    var tracker = new tracking.MotionTracker();
+    var noise = createFrame(60, 40, function(x, y) {
+      return (x * 7 + y * 13) % 37 === 0 ? [255, 255, 255] : background(x, y);
+    });
+    var results;
+
+    tracker.setMinGroupSize(1);
+    tracker.setMinDimension(0);
+    tracker.on('track', function(event) {
+      results = event.data;
+    });
+
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(noise, 60, 40);
+    test.equal(0, results.length, 'Isolated pixels should be removed by the opening');
+
+    tracker.setMorphologyRadius(0);
+    tracker.track(noise, 60, 40);
+    test.ok(results.length > 10, 'Isolated pixels should be moving regions without morphology');
+
+    test.done();
+  },
+
+  testLearnBackground: function(test) {
+    var tracker = new tracking.MotionTracker();
+    var moved = createFrame(60, 40, square(20, 10, 12, [250, 20, 20]));
+    var results;
+    var i;
+
+    tracker.setLearningRate(0.2);
+    tracker.on('track', function(event) {
+      results = event.data;
+    });
+
+    tracker.track(createFrame(60, 40, background), 60, 40);
+    tracker.track(moved, 60, 40);
+    test.equal(1, results.length, 'The square should be moving');
+
+    for (i = 0; i < 40; i++) {
+      tracker.track(moved, 60, 40);
+    }
+    test.equal(0, results.length, 'A still square should fade into the background');
+
+    tracker.track(createFrame(30, 20, background), 30, 20);
+    test.equal(0, results.length, 'A new frame size should initialize the background again');
+
+    test.done();
+  }
+};
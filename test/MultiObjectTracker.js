@@ -0,0 +1,152 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function rect(x, y, width, height) {
+  return { x: x, y: y, width: width, height: height, total: width * height };
+}
+
+function recordEvents(tracker) {
+  var events = [];
+  ['enter', 'update', 'leave'].forEach(function(type) {
+    tracker.on(type, function(object) {
+      events.push(type + ':' + object.id);
+    });
+  });
+  return events;
+}
+
+function createFrame(width, height, block) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var i = block.y; i < block.y + block.height; i++) {
+    for (var j = block.x; j < block.x + block.width; j++) {
+      var w = (i * width + j) * 4;
+      pixels[w] = 255;
+      pixels[w + 2] = 255;
+    }
+  }
+  for (var k = 3; k < pixels.length; k += 4) {
+    pixels[k] = 255;
+  }
+  return pixels;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testPersistentIds: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+    var events = recordEvents(tracker);
+
+    var first = tracker.associate([rect(0, 0, 20, 20), rect(100, 100, 20, 20)]);
+    var second = tracker.associate([rect(104, 102, 20, 20), rect(3, 2, 20, 20)]);
+
+    test.deepEqual(first.map(function(object) { return object.id; }), [1, 2], 'should assign new ids');
+    test.equal(second.length, 2, 'should see both objects');
+    test.equal(second[0].id, 1, 'should keep the id of the first object');
+    test.equal(second[0].x, 3, 'should update the first object position');
+    test.equal(second[1].id, 2, 'should keep the id of the second object');
+    test.equal(second[1].x, 104, 'should update the second object position');
+    test.equal(second[0].age, 2, 'should count the frames since the object entered');
+    test.deepEqual(events, ['enter:1', 'enter:2', 'update:1', 'update:2'], 'should emit enter and update events');
+
+    test.done();
+  },
+
+  testCentroidDistance: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+
+    tracker.associate([rect(0, 0, 10, 10)]);
+    var moved = tracker.associate([rect(6, 0, 10, 10)]);
+    test.equal(moved[0].id, 1, 'should match close objects that do not overlap enough');
+
+    var jumped = tracker.associate([rect(40, 0, 10, 10)]);
+    test.equal(jumped[0].id, 2, 'should not match distant objects');
+
+    test.done();
+  },
+
+  testLeaveAfterMissedFrames: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+    var events = recordEvents(tracker);
+
+    tracker.setMaxMissedFrames(2);
+    tracker.associate([rect(0, 0, 20, 20)]);
+    test.equal(tracker.associate([]).length, 0, 'should not report missed objects');
+    tracker.associate([]);
+    test.equal(tracker.getObjects()[0].missed, 2, 'should keep missed objects');
+
+    var back = tracker.associate([rect(1, 1, 20, 20)]);
+    test.equal(back[0].id, 1, 'should recover objects missed for a few frames');
+    test.equal(back[0].missed, 0, 'should reset the missed frames');
+
+    tracker.associate([]);
+    tracker.associate([]);
+    tracker.associate([]);
+    test.equal(tracker.getObjects().length, 0, 'should forget objects missed for too long');
+    test.deepEqual(events, ['enter:1', 'update:1', 'leave:1'], 'should emit leave events');
+
+    test.done();
+  },
+
+  testGreedyAssignment: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+
+    tracker.setAssignment('greedy');
+    tracker.associate([rect(0, 0, 20, 20), rect(30, 0, 20, 20)]);
+    var result = tracker.associate([rect(32, 0, 20, 20), rect(1, 0, 20, 20)]);
+
+    test.equal(result[0].id, 1, 'should match the first object');
+    test.equal(result[0].x, 1, 'should update the first object');
+    test.equal(result[1].id, 2, 'should match the second object');
+
+    test.done();
+  },
+
+  testEmittedObjectsAreCopies: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+
+    var first = tracker.associate([rect(0, 0, 20, 20)]);
+    tracker.associate([rect(5, 0, 20, 20)]);
+
+    test.equal(first[0].x, 0, 'should not change objects of previous frames');
+
+    test.done();
+  },
+
+  testTrackWrappedTracker: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker('magenta'));
+    var results = [];
+
+    tracker.on('track', function(event) {
+      results.push(event.data);
+    });
+
+    tracker.track(createFrame(64, 64, { x: 5, y: 5, width: 25, height: 25 }), 64, 64);
+    tracker.track(createFrame(64, 64, { x: 8, y: 6, width: 25, height: 25 }), 64, 64);
+
+    test.equal(results.length, 2, 'should emit a track event per frame');
+    test.equal(results[0][0].id, 1, 'should assign an id to the blob');
+    test.equal(results[1][0].id, 1, 'should keep the id of the moving blob');
+    test.equal(results[1][0].color, 'magenta', 'should keep the rectangle properties');
+
+    test.done();
+  },
+
+  testReset: function(test) {
+    var tracker = new tracking.MultiObjectTracker(new tracking.ColorTracker());
+
+    tracker.associate([rect(0, 0, 20, 20)]);
+    tracker.reset();
+
+    test.equal(tracker.associate([rect(0, 0, 20, 20)])[0].id, 2, 'should not reuse ids after a reset');
+
+    test.done();
+  }
+};
@@ -0,0 +1,255 @@
+'use strict';
+
+var path = require('path');
+var zlib = require('zlib');
+var tracking = require('../dist/node.js');
+
+var ASSETS = path.join(__dirname, 'assets');
+
+function crc32(bytes) {
+  var crc = -1;
+  for (var i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i];
+    for (var k = 0; k < 8; k++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+function chunk(type, data) {
+  var length = Buffer.alloc(4);
+  var crc = Buffer.alloc(4);
+  var body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  length.writeUInt32BE(data.length);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function paeth(a, b, c) {
+  var p = a + b - c;
+  var pa = Math.abs(p - a);
+  var pb = Math.abs(p - b);
+  var pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+// Encodes 8 bits samples, cycling through all the filter types.
+function encodePng(samples, width, height, colorType, channels, opt_palette) {
+  var stride = width * channels;
+  var raw = Buffer.alloc((stride + 1) * height);
+  for (var i = 0; i < height; i++) {
+    var filter = i % 5;
+    raw[i * (stride + 1)] = filter;
+    for (var k = 0; k < stride; k++) {
+      var x = samples[i * stride + k];
+      var a = k >= channels ? samples[i * stride + k - channels] : 0;
+      var b = i > 0 ? samples[(i - 1) * stride + k] : 0;
+      var c = i > 0 && k >= channels ? samples[(i - 1) * stride + k - channels] : 0;
+      var predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter];
+      raw[i * (stride + 1) + 1 + k] = (x - predictor) & 0xff;
+    }
+  }
+
+  var header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+
+  var chunks = [Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]), chunk('IHDR', header)];
+  if (opt_palette) {
+    chunks.push(chunk('PLTE', Buffer.from(opt_palette)));
+  }
+  chunks.push(chunk('IDAT', zlib.deflateSync(raw)), chunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+function createMagentaFrame(width, height) {
+  var pixels = new Uint8Array(width * height * 4);
+  for (var w = 0; w < pixels.length; w += 4) {
+    pixels[w] = 255;
+    pixels[w + 2] = 255;
+    pixels[w + 3] = 255;
+  }
+  return { data: pixels, width: width, height: height };
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testDecodePngRGBA: function(test) {
+    var width = 7;
+    var height = 6;
+    var samples = [];
+    for (var i = 0; i < width * height * 4; i++) {
+      samples.push((i * 37 + (i >> 3) * 11) & 0xff);
+    }
+
+    var image = tracking.decodeImage(encodePng(samples, width, height, 6, 4));
+
+    test.equal(image.width, width, 'should decode the width');
+    test.equal(image.height, height, 'should decode the height');
+    test.deepEqual(Array.prototype.slice.call(image.data), samples, 'should unfilter every filter type');
+
+    test.done();
+  },
+
+  testDecodePngRGBAndPalette: function(test) {
+    var rgb = [255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30];
+    var image = tracking.Png.decode(encodePng(rgb, 2, 2, 2, 3));
+    test.deepEqual(
+      Array.prototype.slice.call(image.data),
+      [255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 10, 20, 30, 255],
+      'should decode RGB pixels as opaque RGBA'
+    );
+
+    var palette = [0, 0, 0, 200, 100, 50];
+    image = tracking.Png.decode(encodePng([1, 0, 0, 1], 2, 2, 3, 1, palette));
+    test.deepEqual(
+      Array.prototype.slice.call(image.data),
+      [200, 100, 50, 255, 0, 0, 0, 255, 0, 0, 0, 255, 200, 100, 50, 255],
+      'should look up palette colors'
+    );
+
+    test.done();
+  },
+
+  testDecodePngAssets: function(test) {
+    tracking.readImage(path.join(ASSETS, 'box1.png')).then(function(image) {
+      test.equal(image.width, 256, 'should decode the palette asset width');
+      test.equal(image.height, 192, 'should decode the palette asset height');
+      test.equal(image.data.length, 256 * 192 * 4, 'should decode all the pixels');
+
+      return tracking.readImage(path.join(ASSETS, 'faces.png'));
+    }).then(function(image) {
+      test.equal(image.width, 600, 'should decode the RGBA asset width');
+      test.equal(image.height, 348, 'should decode the RGBA asset height');
+      test.done();
+    }).catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  },
+
+  testDecodePpm: function(test) {
+    var binary = Buffer.concat([Buffer.from('P6\n# comment\n2 1\n255\n'), Buffer.from([255, 0, 128, 1, 2, 3])]);
+    var plain = Buffer.from('P3 2 1 15\n15 0 0  0 15 15\n');
+    var gray = Buffer.concat([Buffer.from('P5 1 1 65535 '), Buffer.from([0xff, 0xff])]);
+
+    test.deepEqual(Array.prototype.slice.call(tracking.decodeImage(binary).data), [255, 0, 128, 255, 1, 2, 3, 255],
+      'should decode binary PPM');
+    test.deepEqual(Array.prototype.slice.call(tracking.decodeImage(plain).data), [255, 0, 0, 255, 0, 255, 255, 255],
+      'should decode and scale plain PPM');
+    test.deepEqual(Array.prototype.slice.call(tracking.decodeImage(gray).data), [255, 255, 255, 255],
+      'should decode 16 bits PGM');
+
+    test.throws(function() {
+      tracking.decodeImage(Buffer.from('P6 2 2 255\n\u0001'));
+    }, 'should throw for truncated PPM');
+
+    test.done();
+  },
+
+  testUnsupportedImage: function(test) {
+    test.throws(function() {
+      tracking.decodeImage(Buffer.from('GIF89a'));
+    }, /not supported/, 'should throw for unsupported formats');
+
+    test.done();
+  },
+
+  testTrackRawFrame: function(test) {
+    var frame = createMagentaFrame(40, 30);
+
+    tracking.track(new tracking.ColorTracker('magenta'), frame).then(function(event) {
+      test.equal(event.data.length, 1, 'should track the raw frame');
+      test.equal(event.data[0].color, 'magenta', 'should find the magenta frame');
+      test.done();
+    });
+  },
+
+  testTrackPixelsSubarray: function(test) {
+    tracking.readImage(path.join(ASSETS, 'faces.png')).then(function(image) {
+      var shifted = new Uint8Array(image.data.length + 1);
+      shifted.set(image.data, 1);
+
+      return Promise.all([
+        tracking.trackPixels(new tracking.ObjectTracker('face'), image.data, image.width, image.height),
+        tracking.trackPixels(new tracking.ObjectTracker('face'), shifted.subarray(1), image.width, image.height)
+      ]);
+    }).then(function(events) {
+      test.ok(events[0].data.length > 0, 'should detect the faces');
+      test.deepEqual(events[1].data, events[0].data, 'should track pixels not starting their buffer');
+      test.done();
+    }).catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  },
+
+  testTrackPixelsSizeMismatch: function(test) {
+    tracking.trackPixels(new tracking.ColorTracker(), new Uint8Array(10), 2, 2).catch(function(error) {
+      test.ok(/does not match/.test(error.message), 'should reject frames of the wrong size');
+      test.done();
+    });
+  },
+
+  testTrackPixelsWithoutResult: function(test) {
+    var tracker = new tracking.ColorTracker();
+    tracker.track = function() {};
+
+    tracking.trackPixels(tracker, new Uint8Array(2 * 2 * 4), 2, 2).catch(function(error) {
+      test.ok(/did not emit/.test(error.message), 'should reject frames without result');
+      test.equal(tracker.listenerCount('track'), 0, 'should remove the track listener');
+      test.equal(tracker.listenerCount('error'), 0, 'should remove the error listener');
+      test.done();
+    });
+  },
+
+  testTrackFrames: function(test) {
+    var tracker = new tracking.ColorTracker('magenta');
+    var frames = [createMagentaFrame(40, 30), { data: new Uint8Array(40 * 30 * 4), width: 40, height: 30 },
+      path.join(ASSETS, 'box1.png')];
+    var iterator = tracking.trackFrames(tracker, frames)[Symbol.asyncIterator]();
+    var results = [];
+
+    function next() {
+      return iterator.next().then(function(result) {
+        if (result.done) {
+          test.equal(results.length, 3, 'should track every frame');
+          test.equal(results[0].data.length, 1, 'should track the first frame');
+          test.equal(results[1].data.length, 0, 'should track the second frame');
+          test.ok(Array.isArray(results[2].data), 'should track the image file');
+          test.done();
+          return;
+        }
+        results.push(result.value);
+        return next();
+      });
+    }
+
+    next().catch(function(error) {
+      test.ifError(error);
+      test.done();
+    });
+  },
+
+  testTrackFramesError: function(test) {
+    var iterator = tracking.trackFrames(new tracking.ColorTracker(), [path.join(ASSETS, 'missing.png')]);
+
+    iterator.next().catch(function(error) {
+      test.equal(error.code, 'ENOENT', 'should propagate read errors');
+      test.done();
+    });
+  }
+};
@@ -2,12 +2,32 @@
 
 var tracking = require('./utils/sandbox.js');
 
+function createFrame(width, height, objectX, objectY, size) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  var seed = 7;
+  for (var i = 0; i < width * height; i++) {
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = 128;
+    pixels[i * 4 + 3] = 255;
+  }
+  for (var y = 0; y < size; y++) {
+    for (var x = 0; x < size; x++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      var w = ((objectY + y) * width + objectX + x) * 4;
+      var value = ((x >> 2) + (y >> 2)) % 2 ? 220 : 30;
+      pixels[w] = pixels[w + 1] = pixels[w + 2] = value + (seed % 20);
+    }
+  }
+  return pixels;
+}
+
 module.exports = {
   setUp: function(done) {
+    this.detect = tracking.ViolaJones.detect;
     done();
   },
 
   tearDown: function(done) {
+    tracking.ViolaJones.detect = this.detect;
     done();
   },
 
@@ -72,6 +92,62 @@ module.exports = {
       }
     );
 
+    test.done();
+  },
+
+  testDetectionInterval: function(test) {
+    var tracker = new tracking.ObjectTracker();
+    var position = { x: 20, y: 30 };
+    var detections = 0;
+    var results = [];
+
+    tracking.ViolaJones.detect = function() {
+      detections++;
+      return [{ x: position.x, y: position.y, width: 32, height: 32, total: 1 }];
+    };
+    tracker.setClassifiers([new Float64Array(0)]);
+    tracker.setDetectionInterval(5);
+    tracker.on('track', function(event) {
+      results.push(event.data);
+    });
+
+    for (var i = 0; i < 10; i++) {
+      tracker.track(createFrame(160, 120, position.x, position.y, 32), 160, 120);
+      position.x += 3;
+      position.y += 2;
+    }
+
+    test.equal(2, detections, 'Should detect every 5 frames');
+    test.equal(10, results.length, 'Should emit a track event per frame');
+    results.forEach(function(rects, i) {
+      test.equal(1, rects.length, 'Should follow the rectangle');
+      test.equal(20 + 3 * i, rects[0].x, 'Should follow the horizontal motion');
+      test.equal(30 + 2 * i, rects[0].y, 'Should follow the vertical motion');
+      test.equal(32, rects[0].width, 'Should keep the rectangle size');
+    });
+
+    test.done();
+  },
+
+  testDetectionOnLowConfidence: function(test) {
+    var tracker = new tracking.ObjectTracker();
+    var detections = 0;
+    var flat = new Uint8ClampedArray(160 * 120 * 4).fill(128);
+
+    tracking.ViolaJones.detect = function() {
+      detections++;
+      return [{ x: 20, y: 30, width: 32, height: 32, total: 1 }];
+    };
+    tracker.setClassifiers([new Float64Array(0)]);
+    tracker.setDetectionInterval(10);
+
+    tracker.track(createFrame(160, 120, 20, 30, 32), 160, 120);
+    tracker.track(createFrame(160, 120, 22, 30, 32), 160, 120);
+    test.equal(1, detections, 'Should follow the rectangle between detections');
+
+    tracker.track(flat, 160, 120);
+    test.equal(2, detections, 'Should detect when the rectangle is lost');
+
     test.done();
   }
 };
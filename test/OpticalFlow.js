@@ -0,0 +1,84 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createFrame(width, height, shiftX, shiftY) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var y = 0; y < height; y++) {
+    for (var x = 0; x < width; x++) {
+      var u = x - shiftX;
+      var v = y - shiftY;
+      var w = (y * width + x) * 4;
+      var value = 128 + 60 * Math.sin(u / 5) * Math.cos(v / 7) + 40 * Math.sin((u + v) / 11);
+      pixels[w] = pixels[w + 1] = pixels[w + 2] = value;
+      pixels[w + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+function assertFlow(test, points, shiftX, shiftY) {
+  var prev = tracking.OpticalFlow.buildPyramid(createFrame(160, 120, 0, 0), 160, 120);
+  var next = tracking.OpticalFlow.buildPyramid(createFrame(160, 120, shiftX, shiftY), 160, 120);
+  var flow = tracking.OpticalFlow.track(prev, next, points);
+
+  for (var i = 0; i < points.length / 2; i++) {
+    test.equal(1, flow.status[i], 'Point should be tracked');
+    test.ok(Math.abs(flow.points[2 * i] - points[2 * i] - shiftX) < 0.3, 'Horizontal motion should be found');
+    test.ok(Math.abs(flow.points[2 * i + 1] - points[2 * i + 1] - shiftY) < 0.3, 'Vertical motion should be found');
+    test.ok(flow.error[i] < 5, 'Error should be low');
+  }
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testBuildPyramid: function(test) {
+    var pyramid = tracking.OpticalFlow.buildPyramid(createFrame(160, 120, 0, 0), 160, 120, 4);
+
+    test.equal(4, pyramid.levels.length, 'Should build every level');
+    test.equal(160, pyramid.levels[0].width, 'Should keep the full resolution');
+    test.equal(20, pyramid.levels[3].width, 'Should halve the width per level');
+    test.equal(15, pyramid.levels[3].height, 'Should halve the height per level');
+    test.equal(20 * 15, pyramid.levels[3].dx.length, 'Should compute the gradients per level');
+
+    test.done();
+  },
+
+  testSmallMotion: function(test) {
+    assertFlow(test, [40, 40, 80, 60, 120, 80], 2.5, -1.5);
+    test.done();
+  },
+
+  testLargeMotion: function(test) {
+    assertFlow(test, [40, 40, 80, 60, 100, 70], 9, 6);
+    test.done();
+  },
+
+  testFlatRegion: function(test) {
+    var flat = new Uint8ClampedArray(64 * 64 * 4).fill(100);
+    var pyramid = tracking.OpticalFlow.buildPyramid(flat, 64, 64);
+    var flow = tracking.OpticalFlow.track(pyramid, pyramid, [32, 32]);
+
+    test.equal(0, flow.status[0], 'Point in a flat region should be lost');
+    test.equal(32, flow.points[0], 'Lost point should keep its position');
+
+    test.done();
+  },
+
+  testPointLeavingFrame: function(test) {
+    var prev = tracking.OpticalFlow.buildPyramid(createFrame(160, 120, 0, 0), 160, 120);
+    var next = tracking.OpticalFlow.buildPyramid(createFrame(160, 120, -12, 0), 160, 120);
+    var flow = tracking.OpticalFlow.track(prev, next, [6, 60]);
+
+    test.equal(0, flow.status[0], 'Point leaving the frame should be lost');
+
+    test.done();
+  }
+};
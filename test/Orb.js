@@ -0,0 +1,124 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createDots(count, size, seed) {
+  var dots = [];
+  for (var i = 0; i < count; i++) {
+    seed = (seed * 16807) % 2147483647;
+    var x = seed % size;
+    seed = (seed * 16807) % 2147483647;
+    var y = seed % size;
+    seed = (seed * 16807) % 2147483647;
+    dots.push([x, y, 2 + (seed % 3), 150 + (seed % 100)]);
+  }
+  return dots;
+}
+
+// Renders the dots rotated by `angle` and scaled by `scale` around the image center.
+function render(dots, size, angle, scale) {
+  var pixels = new Uint8ClampedArray(size * size * 4);
+  var cos = Math.cos(angle);
+  var sin = Math.sin(angle);
+  for (var i = 0; i < size * size; i++) {
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = 30;
+    pixels[i * 4 + 3] = 255;
+  }
+  dots.forEach(function(dot) {
+    var point = transform(dot[0], dot[1], size, cos, sin, scale);
+    var radius = dot[2] * scale;
+    for (var y = Math.floor(point[1] - radius); y <= point[1] + radius; y++) {
+      for (var x = Math.floor(point[0] - radius); x <= point[0] + radius; x++) {
+        var dx = x - point[0];
+        var dy = y - point[1];
+        if (x >= 0 && y >= 0 && x < size && y < size && dx * dx + dy * dy <= radius * radius) {
+          var w = (y * size + x) * 4;
+          pixels[w] = pixels[w + 1] = pixels[w + 2] = dot[3];
+        }
+      }
+    }
+  });
+  return pixels;
+}
+
+function transform(x, y, size, cos, sin, scale) {
+  var c = size / 2;
+  return [c + scale * (cos * (x - c) - sin * (y - c)), c + scale * (sin * (x - c) + cos * (y - c))];
+}
+
+function countCorrectMatches(angle, scale) {
+  var size = 240;
+  var dots = createDots(220, size, 3);
+  var features1 = tracking.Orb.detect(render(dots, size, 0, 1), size, size);
+  var features2 = tracking.Orb.detect(render(dots, size, angle, scale), size, size);
+  var matches = tracking.Brief.reciprocalMatch(
+    features1.keypoints,
+    features1.descriptors,
+    features2.keypoints,
+    features2.descriptors
+  );
+  var correct = 0;
+
+  matches.forEach(function(match) {
+    var expected = transform(match.keypoint1[0], match.keypoint1[1], size, Math.cos(angle), Math.sin(angle), scale);
+    var dx = expected[0] - match.keypoint2[0];
+    var dy = expected[1] - match.keypoint2[1];
+    if (dx * dx + dy * dy < 16) {
+      correct++;
+    }
+  });
+
+  return { matches: matches.length, correct: correct };
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testDetect: function(test) {
+    var size = 240;
+    var features = tracking.Orb.detect(render(createDots(220, size, 3), size, 0, 1), size, size, { maxFeatures: 100 });
+    var count = features.keypoints.length / 2;
+
+    test.ok(count > 0, 'Should find keypoints');
+    test.ok(count <= 101, 'Should bound the number of keypoints');
+    test.equal(count * (tracking.Brief.N / 32), features.descriptors.length, 'Should have a descriptor per keypoint');
+    test.equal(count, features.angles.length, 'Should have an orientation per keypoint');
+    test.equal(count, features.levels.length, 'Should have a level per keypoint');
+    test.equal(count, features.scores.length, 'Should have a score per keypoint');
+
+    test.done();
+  },
+
+  testFlatImage: function(test) {
+    var features = tracking.Orb.detect(new Uint8ClampedArray(64 * 64 * 4).fill(128), 64, 64);
+
+    test.equal(0, features.keypoints.length, 'Should not find keypoints');
+    test.equal(0, features.descriptors.length, 'Should not compute descriptors');
+
+    test.done();
+  },
+
+  testRotation: function(test) {
+    var result = countCorrectMatches(Math.PI / 4, 1);
+
+    test.ok(result.correct >= 20, 'Should match rotated keypoints');
+    test.ok(result.correct >= result.matches / 2, 'Most matches should be correct');
+
+    test.done();
+  },
+
+  testScale: function(test) {
+    var result = countCorrectMatches(Math.PI / 6, 1.3);
+
+    test.ok(result.correct >= 10, 'Should match scaled keypoints');
+    test.ok(result.correct >= result.matches / 3, 'Many matches should be correct');
+
+    test.done();
+  }
+};
@@ -0,0 +1,202 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createNoise(seed) {
+  return function() {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+}
+
+function meanError(filter, signal, noise, from) {
+  var error = 0;
+  var raw = 0;
+  for (var i = 0; i < signal.length; i++) {
+    var measured = signal[i] + noise() * 10;
+    var smoothed = filter.filter(measured, 1 / 30);
+    if (i >= from) {
+      error += Math.abs(smoothed - signal[i]);
+      raw += Math.abs(measured - signal[i]);
+    }
+  }
+  return { smoothed: error / (signal.length - from), raw: raw / (signal.length - from) };
+}
+
+function constant(length, value) {
+  var signal = [];
+  for (var i = 0; i < length; i++) {
+    signal.push(value);
+  }
+  return signal;
+}
+
+function createFakeTracker(results) {
+  var tracker = new tracking.ColorTracker();
+  var frame = 0;
+  tracker.track = function() {
+    this.emit('track', { data: results[frame++] });
+  };
+  return tracker;
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testFiltersReduceJitter: function(test) {
+    var filters = {
+      exponential: new tracking.ExponentialFilter({ alpha: 0.3 }),
+      kalman: new tracking.KalmanFilter(),
+      oneEuro: new tracking.OneEuroFilter()
+    };
+
+    Object.keys(filters).forEach(function(name) {
+      var error = meanError(filters[name], constant(90, 100), createNoise(11), 30);
+      test.ok(error.smoothed < error.raw / 2, name + ' should reduce the jitter of a static signal');
+    });
+
+    test.done();
+  },
+
+  testKalmanFollowsConstantVelocity: function(test) {
+    var filter = new tracking.KalmanFilter();
+    var value;
+
+    for (var i = 0; i < 60; i++) {
+      value = filter.filter(i * 4, 1 / 30);
+    }
+
+    test.ok(Math.abs(value - 59 * 4) < 1, 'should not lag behind a steady movement');
+
+    test.done();
+  },
+
+  testFirstSampleAndReset: function(test) {
+    [new tracking.ExponentialFilter(), new tracking.KalmanFilter(), new tracking.OneEuroFilter()].forEach(function(filter) {
+      test.equal(filter.filter(42, 0), 42, 'should return the first sample');
+      filter.filter(50, 1 / 30);
+      filter.reset();
+      test.equal(filter.filter(7, 1 / 30), 7, 'should start over after a reset');
+    });
+
+    test.done();
+  },
+
+  testOneEuroTuning: function(test) {
+    var slow = new tracking.OneEuroFilter({ minCutoff: 0.5, beta: 0 });
+    var fast = new tracking.OneEuroFilter({ minCutoff: 0.5, beta: 0.1 });
+
+    slow.filter(0, 0);
+    fast.filter(0, 0);
+    for (var i = 1; i <= 10; i++) {
+      slow.filter(i * 20, 1 / 30);
+      fast.filter(i * 20, 1 / 30);
+    }
+
+    test.ok(fast.filter(220, 1 / 30) > slow.filter(220, 1 / 30), 'should lag less with a higher beta');
+
+    test.done();
+  },
+
+  testExponentialFilterInvalidAlpha: function(test) {
+    test.throws(function() {
+      new tracking.ExponentialFilter({ alpha: 0 });
+    }, 'should throw for alpha out of range');
+
+    test.done();
+  },
+
+  testSmoothRect: function(test) {
+    var smoother = new tracking.Smoother(function() {
+      return new tracking.ExponentialFilter({ alpha: 0.5 });
+    });
+
+    smoother.smoothRect('a', { x: 0, y: 0, width: 10, height: 10, total: 5, color: 'cyan' }, 0);
+    var rect = smoother.smoothRect('a', { x: 10, y: 20, width: 20, height: 10, total: 6, color: 'cyan' }, 1);
+
+    test.deepEqual(rect, { x: 5, y: 10, width: 15, height: 10, total: 6, color: 'cyan' },
+      'should smooth the position and size and keep the other properties');
+    test.deepEqual(smoother.getKeys(), ['a'], 'should keep a filter set per key');
+
+    smoother.remove('a');
+    test.deepEqual(smoother.getKeys(), [], 'should remove the filters of a key');
+
+    test.done();
+  },
+
+  testSmoothPoints: function(test) {
+    var smoother = new tracking.Smoother(function() {
+      return new tracking.ExponentialFilter({ alpha: 0.5 });
+    });
+
+    smoother.smoothPoints('face', [[0, 0], [10, 10]], 0);
+    test.deepEqual(smoother.smoothPoints('face', [[2, 4], [20, 10]], 1), [[1, 2], [15, 10]], 'should smooth every point');
+    test.deepEqual(smoother.smoothPoints('face', [[2, 4]], 2), [[2, 4]], 'should start over when the points change');
+
+    test.done();
+  },
+
+  testSmoothingTrackerRects: function(test) {
+    var inner = createFakeTracker([
+      [{ id: 1, x: 0, y: 0, width: 10, height: 10 }, { id: 2, x: 100, y: 0, width: 10, height: 10 }],
+      [{ id: 2, x: 110, y: 0, width: 10, height: 10 }, { id: 1, x: 10, y: 0, width: 10, height: 10 }],
+      [{ id: 1, x: 10, y: 0, width: 10, height: 10 }],
+      [{ id: 1, x: 10, y: 0, width: 10, height: 10 }, { id: 2, x: 200, y: 0, width: 10, height: 10 }]
+    ]);
+    var tracker = new tracking.SmoothingTracker(inner, function() {
+      return new tracking.ExponentialFilter({ alpha: 0.5 });
+    });
+    var results = [];
+
+    tracker.on('track', function(event) {
+      results.push(event.data);
+    });
+    for (var i = 0; i < 4; i++) {
+      tracker.track(new Uint8ClampedArray(4), 1, 1);
+    }
+
+    test.equal(results[1][0].x, 105, 'should match rectangles by id');
+    test.equal(results[1][1].x, 5, 'should match rectangles by id');
+    test.equal(results[1][1].id, 1, 'should keep the rectangle id');
+    test.equal(results[3][1].x, 200, 'should start over for rectangles that come back');
+
+    test.done();
+  },
+
+  testSmoothingTrackerLandmarks: function(test) {
+    var inner = createFakeTracker([
+      { faces: [{ x: 0, y: 0, width: 10, height: 10 }], landmarks: [[[0, 0], [4, 4]]], poses: undefined },
+      { faces: [{ x: 4, y: 0, width: 10, height: 10 }], landmarks: [[[2, 2], [8, 4]]], poses: undefined }
+    ]);
+    var tracker = new tracking.SmoothingTracker(inner, function() {
+      return new tracking.ExponentialFilter({ alpha: 0.5 });
+    });
+    var result;
+
+    tracker.on('track', function(event) {
+      result = event.data;
+    });
+    tracker.track(new Uint8ClampedArray(4), 1, 1);
+    tracker.track(new Uint8ClampedArray(4), 1, 1);
+
+    test.equal(result.faces[0].x, 2, 'should smooth the faces');
+    test.deepEqual(result.landmarks, [[[1, 1], [6, 4]]], 'should smooth the landmarks');
+    test.ok('poses' in result, 'should keep the other results');
+
+    test.done();
+  },
+
+  testSmootherWithoutFactory: function(test) {
+    test.throws(function() {
+      new tracking.Smoother();
+    }, 'should throw without a filter factory');
+
+    test.done();
+  }
+};
@@ -0,0 +1,173 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+function createFrame(width, height, magenta) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var w = 0; w < pixels.length; w += 4) {
+    pixels[w] = magenta ? 255 : 0;
+    pixels[w + 2] = magenta ? 255 : 0;
+    pixels[w + 3] = 255;
+  }
+  return pixels;
+}
+
+function collect(iterator, count) {
+  var results = [];
+  function next() {
+    if (results.length === count) {
+      return Promise.resolve(results);
+    }
+    return iterator.next().then(function(result) {
+      if (result.done) {
+        return results;
+      }
+      results.push(result.value);
+      return next();
+    });
+  }
+  return next();
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testIterateRunsTask: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var iterator = task[Symbol.asyncIterator]();
+
+    test.ok(task.inRunning(), 'should run the task when iterating');
+
+    tracker.track(createFrame(30, 30, true), 30, 30);
+    tracker.track(createFrame(30, 30, false), 30, 30);
+
+    collect(iterator, 2).then(function(results) {
+      test.equal(results[0].data.length, 1, 'should yield the first track event');
+      test.equal(results[1].data.length, 0, 'should yield the second track event');
+      test.done();
+    });
+  },
+
+  testIterateWaitsForEvents: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var iterator = task.iterate();
+
+    iterator.next().then(function(result) {
+      test.equal(result.done, false, 'should resolve with the next event');
+      test.equal(result.value.data.length, 1, 'should yield the tracked event');
+      test.done();
+    });
+
+    tracker.track(createFrame(30, 30, true), 30, 30);
+  },
+
+  testBoundedBuffer: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var iterator = task.iterate(2);
+
+    tracker.track(createFrame(30, 30, false), 30, 30);
+    tracker.track(createFrame(30, 30, true), 30, 30);
+    tracker.track(createFrame(30, 30, true), 30, 30);
+    task.stop();
+
+    collect(iterator, Infinity).then(function(results) {
+      test.equal(results.length, 2, 'should drop the oldest events');
+      test.equal(results[0].data.length, 1, 'should keep the latest events');
+      test.equal(results[1].data.length, 1, 'should keep the latest events');
+      test.done();
+    });
+  },
+
+  testInvalidBufferSize: function(test) {
+    var task = new tracking.TrackerTask(new tracking.ColorTracker());
+
+    test.throws(function() {
+      task.iterate(0);
+    }, /at least 1/, 'should throw for an empty buffer');
+
+    test.done();
+  },
+
+  testReturnStopsTask: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var stopped = 0;
+
+    task.on('stop', function() {
+      stopped++;
+    });
+
+    var iterator = task.iterate();
+    tracker.track(createFrame(30, 30, true), 30, 30);
+
+    iterator.next().then(function() {
+      return iterator.return();
+    }).then(function(result) {
+      test.equal(result.done, true, 'should finish the iteration');
+      test.equal(stopped, 1, 'should stop the task');
+      test.ok(!task.inRunning(), 'should not be running');
+      return iterator.next();
+    }).then(function(result) {
+      test.equal(result.done, true, 'should stay finished');
+      test.done();
+    });
+  },
+
+  testStopEndsIteration: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var iterator = task.iterate();
+
+    iterator.next().then(function(result) {
+      test.equal(result.done, true, 'should end a pending iteration');
+      test.done();
+    });
+
+    task.stop();
+  },
+
+  testErrorPropagation: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker);
+    var iterator = task.iterate();
+
+    tracker.track(createFrame(30, 30, true), 30, 30);
+    tracker.emit('error', new Error('Tracker failed.'));
+
+    iterator.next().then(function(result) {
+      test.equal(result.value.data.length, 1, 'should yield the events tracked before the error');
+      return iterator.next();
+    }).then(function() {
+      test.ok(false, 'should not resolve after the error');
+      test.done();
+    }, function(error) {
+      test.equal(error.message, 'Tracker failed.', 'should reject with the tracker error');
+      test.ok(!task.inRunning(), 'should stop the task');
+      return iterator.next().then(function(result) {
+        test.equal(result.done, true, 'should finish after the error');
+        test.done();
+      });
+    });
+  },
+
+  testUnhandledError: function(test) {
+    var tracker = new tracking.ColorTracker();
+    var task = new tracking.TrackerTask(tracker).run();
+
+    test.throws(function() {
+      tracker.emit('error', new Error('Tracker failed.'));
+    }, /Tracker failed/, 'should throw errors nobody listens to');
+
+    task.stop();
+    test.done();
+  }
+};
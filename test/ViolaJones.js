@@ -0,0 +1,148 @@
+'use strict';
+
+var tracking = require('./utils/sandbox.js');
+
+var OLD_FORMAT = [
+  '<?xml version="1.0"?>',
+  '<opencv_storage>',
+  '<haarcascade_test type_id="opencv-haar-classifier">',
+  '  <size>20 20</size>',
+  '  <stages>',
+  '    <_>',
+  '      <!-- stage 0 -->',
+  '      <trees>',
+  '        <_>',
+  '          <!-- tree 0 -->',
+  '          <_>',
+  '            <feature>',
+  '              <rects>',
+  '                <_>3 7 14 4 -1.</_>',
+  '                <_>3 9 14 2 2.</_></rects>',
+  '              <tilted>0</tilted></feature>',
+  '            <threshold>4.0141958743333817e-03</threshold>',
+  '            <left_val>0.0337941907346249</left_val>',
+  '            <right_val>0.8378106951713562</right_val></_></_>',
+  '        <_>',
+  '          <_>',
+  '            <feature>',
+  '              <rects>',
+  '                <_>10 2 4 6 -1.</_>',
+  '                <_>10 2 2 3 2.</_></rects>',
+  '              <tilted>1</tilted></feature>',
+  '            <threshold>-0.5</threshold>',
+  '            <left_val>-1.25</left_val>',
+  '            <right_val>0.75</right_val></_></_></trees>',
+  '      <stage_threshold>0.8226894140243530</stage_threshold>',
+  '      <parent>-1</parent>',
+  '      <next>-1</next></_></stages></haarcascade_test>',
+  '</opencv_storage>'
+].join('\n');
+
+var NEW_FORMAT = [
+  '<?xml version="1.0"?>',
+  '<opencv_storage>',
+  '<cascade type_id="opencv-cascade-classifier"><stageType>BOOST</stageType>',
+  '  <featureType>HAAR</featureType>',
+  '  <height>20</height>',
+  '  <width>60</width>',
+  '  <stageNum>1</stageNum>',
+  '  <stages>',
+  '    <_>',
+  '      <maxWeakCount>2</maxWeakCount>',
+  '      <stageThreshold>-1.5</stageThreshold>',
+  '      <weakClassifiers>',
+  '        <_>',
+  '          <internalNodes>',
+  '            0 -1 1 -3.1511999666690826e-02</internalNodes>',
+  '          <leafValues>',
+  '            2.0875380039215088e+00 -2.2172100543975830e+00</leafValues></_>',
+  '        <_>',
+  '          <internalNodes>',
+  '            0 -1 0 1.25</internalNodes>',
+  '          <leafValues>',
+  '            -1. 1.</leafValues></_></weakClassifiers></_></stages>',
+  '  <features>',
+  '    <_>',
+  '      <rects>',
+  '        <_>',
+  '          0 0 10 4 -1.</_>',
+  '        <_>',
+  '          0 2 10 2 2.</_></rects></_>',
+  '    <_>',
+  '      <rects>',
+  '        <_>',
+  '          6 4 12 9 -1.</_>',
+  '        <_>',
+  '          6 7 12 3 3.</_></rects>',
+  '      <tilted>1</tilted></_></features></cascade>',
+  '</opencv_storage>'
+].join('\n');
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testFromOpenCVXmlOldFormat: function(test) {
+    var data = tracking.ViolaJones.fromOpenCVXml(OLD_FORMAT);
+
+    test.deepEqual([
+      20, 20,
+      0.822689414024353, 2,
+      0, 2, 3, 7, 14, 4, -1, 3, 9, 14, 2, 2, 0.004014195874333382, 0.0337941907346249, 0.8378106951713562,
+      1, 2, 10, 2, 4, 6, -1, 10, 2, 2, 3, 2, -0.5, -1.25, 0.75
+    ], Array.prototype.slice.call(data));
+
+    test.done();
+  },
+
+  testFromOpenCVXmlNewFormat: function(test) {
+    var data = tracking.ViolaJones.fromOpenCVXml(NEW_FORMAT);
+
+    test.deepEqual([
+      60, 20,
+      -1.5, 2,
+      1, 2, 6, 4, 12, 9, -1, 6, 7, 12, 3, 3, -0.031511999666690826, 2.087538003921509, -2.217210054397583,
+      0, 2, 0, 0, 10, 4, -1, 0, 2, 10, 2, 2, 1.25, -1, 1
+    ], Array.prototype.slice.call(data));
+
+    test.done();
+  },
+
+  testFromOpenCVXmlUnsupported: function(test) {
+    test.throws(function() {
+      tracking.ViolaJones.fromOpenCVXml(NEW_FORMAT.replace('<featureType>HAAR', '<featureType>LBP'));
+    }, /LBP features/);
+
+    test.throws(function() {
+      tracking.ViolaJones.fromOpenCVXml(NEW_FORMAT.replace('0 -1 0 1.25', '1 -1 0 1.25 0 -2 1 0.5'));
+    }, /not a stump/);
+
+    test.throws(function() {
+      tracking.ViolaJones.fromOpenCVXml(OLD_FORMAT.replace('</stages>', ''));
+    }, /Invalid XML/);
+
+    test.done();
+  },
+
+  testRegisterClassifier: function(test) {
+    tracking.ViolaJones.registerClassifier('fullbody', tracking.ViolaJones.fromOpenCVXml(OLD_FORMAT));
+
+    test.doesNotThrow(function() {
+      new tracking.ObjectTracker('fullbody');
+    });
+
+    tracking.ViolaJones.registerClassifier('binaryeye', tracking.Cascade.encode(tracking.ViolaJones.classifiers.eye));
+    test.equal(
+      tracking.ViolaJones.classifiers.eye.length,
+      tracking.ViolaJones.classifiers.binaryeye.length,
+      'Binary cascades should be decoded when registered'
+    );
+
+    test.done();
+  }
+};
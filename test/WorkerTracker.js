@@ -0,0 +1,196 @@
+'use strict';
+
+var MessageChannel = require('worker_threads').MessageChannel;
+var tracking = require('./utils/sandbox.js');
+
+function createMagentaImage(width, height, block) {
+  var pixels = new Uint8ClampedArray(width * height * 4);
+  for (var i = 0; i < height; i++) {
+    for (var j = 0; j < width; j++) {
+      var w = (i * width + j) * 4;
+      var inside = i >= block.y && i < block.y + block.height && j >= block.x && j < block.x + block.width;
+      pixels[w] = inside ? 255 : 0;
+      pixels[w + 1] = 0;
+      pixels[w + 2] = inside ? 255 : 0;
+      pixels[w + 3] = 255;
+    }
+  }
+  return pixels;
+}
+
+function createChannel() {
+  var channel = new MessageChannel();
+  var unlisten = tracking.TrackerWorker.listen(channel.port2);
+  return {
+    port: channel.port1,
+    close: function() {
+      unlisten();
+      channel.port1.close();
+      channel.port2.close();
+    }
+  };
+}
+
+module.exports = {
+  setUp: function(done) {
+    done();
+  },
+
+  tearDown: function(done) {
+    done();
+  },
+
+  testTrackColorInWorker: function(test) {
+    var channel = createChannel();
+    var tracker = new tracking.WorkerTracker(channel.port, 'ColorTracker', ['magenta'], { minDimension: 10 });
+    var pixels = createMagentaImage(64, 48, { x: 10, y: 8, width: 30, height: 20 });
+
+    var expected;
+    var local = new tracking.ColorTracker(['magenta']);
+    local.setMinDimension(10);
+    local.on('track', function(event) {
+      expected = event.data;
+    });
+    local.track(pixels, 64, 48);
+
+    tracker.on('track', function(event) {
+      test.equal(event.data.length, 1, 'should find one magenta rectangle');
+      test.deepEqual(event.data, expected, 'should emit the same rectangles as the tracker on the main thread');
+      test.equal(tracker.getPendingFrames(), 0, 'should have no pending frames');
+
+      tracker.destroy();
+      channel.close();
+      test.done();
+    });
+
+    tracker.track(pixels, 64, 48);
+    test.equal(pixels.length, 64 * 48 * 4, 'should not detach the tracked pixels');
+    test.equal(tracker.getPendingFrames(), 1, 'should have one pending frame');
+  },
+
+  testDropFramesWhileBusy: function(test) {
+    var channel = createChannel();
+    var tracker = new tracking.WorkerTracker(channel.port, 'ColorTracker');
+    var pixels = createMagentaImage(32, 32, { x: 0, y: 0, width: 0, height: 0 });
+    var tracked = 0;
+
+    tracker.on('track', function() {
+      tracked++;
+
+      if (tracked === 1) {
+        test.equal(tracker.getDroppedFrames(), 2, 'should drop the frames sent while busy');
+        tracker.track(pixels, 32, 32);
+        return;
+      }
+
+      test.equal(tracked, 2, 'should track a frame once the worker is free');
+      test.equal(tracker.getDroppedFrames(), 2, 'should not drop frames when the worker is free');
+
+      tracker.destroy();
+      channel.close();
+      test.done();
+    });
+
+    tracker.track(pixels, 32, 32);
+    tracker.track(pixels, 32, 32);
+    tracker.track(pixels, 32, 32);
+  },
+
+  testMaxPendingFrames: function(test) {
+    var channel = createChannel();
+    var tracker = new tracking.WorkerTracker(channel.port, 'ColorTracker');
+    var pixels = createMagentaImage(16, 16, { x: 0, y: 0, width: 0, height: 0 });
+    var tracked = 0;
+
+    tracker.setMaxPendingFrames(2);
+    tracker.on('track', function() {
+      tracked++;
+
+      if (tracked === 2) {
+        test.equal(tracker.getDroppedFrames(), 1, 'should drop frames above the maximum pending frames');
+        tracker.destroy();
+        channel.close();
+        test.done();
+      }
+    });
+
+    tracker.track(pixels, 16, 16);
+    tracker.track(pixels, 16, 16);
+    tracker.track(pixels, 16, 16);
+  },
+
+  testTrackWithoutResult: function(test) {
+    tracking.TrackerWorker.registerTracker('SilentTracker', function() {
+      var silent = new tracking.ColorTracker();
+      silent.track = function() {};
+      return silent;
+    });
+
+    var channel = createChannel();
+    var tracker = new tracking.WorkerTracker(channel.port, 'SilentTracker');
+    var tracked = 0;
+
+    tracker.on('track', function() {
+      tracked++;
+    });
+    tracker.track(new Uint8ClampedArray(16), 2, 2);
+
+    setTimeout(function() {
+      test.equal(tracked, 0, 'should not emit frames without result');
+      test.equal(tracker.getPendingFrames(), 0, 'should release the frames without result');
+
+      tracker.destroy();
+      channel.close();
+      test.done();
+    }, 50);
+  },
+
+  testUnknownTracker: function(test) {
+    var channel = createChannel();
+    var tracker = new tracking.WorkerTracker(channel.port, 'UnknownTracker');
+    var errors = 0;
+
+    tracker.on('error', function(error) {
+      errors++;
+
+      if (errors === 1) {
+        test.ok(/not registered/.test(error.message), 'should report the unknown tracker');
+        return;
+      }
+
+      test.ok(/not initialized/.test(error.message), 'should report frames sent without a tracker');
+      test.equal(tracker.getPendingFrames(), 0, 'should release the failed frame');
+
+      tracker.destroy();
+      channel.close();
+      test.done();
+    });
+
+    tracker.track(new Uint8ClampedArray(16), 2, 2);
+  },
+
+  testErrorWithoutListener: function(test) {
+    var listeners = [];
+    var endpoint = {
+      postMessage: function() {},
+      on: function(type, listener) {
+        listeners.push(listener);
+      }
+    };
+    new tracking.WorkerTracker(endpoint, 'ColorTracker');
+
+    test.throws(function() {
+      listeners[0]({ type: 'error', message: 'Tracker failed.' });
+    }, /Tracker failed/, 'should throw errors without error listener');
+
+    test.done();
+  },
+
+  testWorkerNotSpecified: function(test) {
+    test.throws(function() {
+      new tracking.WorkerTracker(null, 'ColorTracker');
+    }, 'should throw without a worker');
+
+    test.done();
+  }
+};
@@ -0,0 +1,67 @@
+'use strict';
+
+function createTree(landmark) {
+  return {
+    max_depth: 2,
+    max_numnodes: 3,
+    nodes: [
+      { feats: [0, Math.PI, 0.5, 0.5], thresh: 0, cnodes: [1, 2], is_leafnode: 0 },
+      { feats: [0, 0, 0, 0], thresh: 0, cnodes: [0, 0], is_leafnode: 1 },
+      { feats: [0, 0, 0, 0], thresh: 0, cnodes: [0, 0], is_leafnode: 1 }
+    ],
+    landmark_id: landmark,
+    num_leafnodes: 2,
+    num_nodes: 3,
+    max_numfeats: 1,
+    max_radio_radius: 0.2,
+    id_leafnodes: [1, 2]
+  };
+}
+
+/**
+ * Creates a LBF model whose stages have one tree per landmark and a null
+ * regression, so it aligns the mean shape to the face bounding box.
+ */
+exports.createModel = function(name, optMeanShape, optNumStages) {
+  var meanShape = optMeanShape || [[0.25, 0.5], [0.75, 0.5]];
+  var stages = [];
+
+  for (var s = 0; s < (optNumStages || 1); s++) {
+    var landmarks = [];
+    var models = [];
+    for (var i = 0; i < meanShape.length; i++) {
+      landmarks.push([createTree(i)]);
+      models.push({ nr_feature: 2 * meanShape.length, data: [] }, { nr_feature: 2 * meanShape.length, data: [] });
+    }
+    models.forEach(function(model) {
+      for (var j = 0; j < model.nr_feature; j++) {
+        model.data.push(0);
+      }
+    });
+
+    stages.push({
+      max_numtrees: 1,
+      num_landmark: meanShape.length,
+      max_depth: 2,
+      stages: s + 1,
+      landmarks: landmarks,
+      models: models
+    });
+  }
+
+  return {
+    name: name,
+    meanShape: meanShape,
+    stages: stages
+  };
+};
+
+/**
+ * Creates the mean shape of the 31 landmarks layout from the front view of
+ * the 3D face model, normalized to the face bounding box.
+ */
+exports.createFaceShape = function(model) {
+  return model.map(function(point) {
+    return [0.5 + point[0] / 180, 0.5 + point[1] / 180];
+  });
+};